@@ -0,0 +1,86 @@
+/**
+ * Unit Tests: Best time to post model
+ *
+ * Covers hour-of-week bucketing, smoothing toward platform priors, decay and
+ * slot selection
+ */
+
+import {
+  buildBestTimeModel,
+  findBestSlotDates,
+  getHourOfWeek,
+  rankBestTimes
+} from '@/lib/features/analytics/best-time-model';
+
+describe('best time model', () => {
+  const now = new Date('2026-06-01T12:00:00Z');
+  const timezone = 'America/New_York';
+
+  // Local New York times in June are UTC-4
+  const postsAt = (isoDates: string[], engagementRate: number) =>
+    isoDates.map(date => ({ publishedAt: new Date(date), engagementRate }));
+
+  it('buckets posts by local hour of the week', () => {
+    // Tuesday 13:00 UTC is Tuesday 09:00 in New York
+    expect(getHourOfWeek(new Date('2026-05-26T13:00:00Z'), timezone)).toBe(2 * 24 + 9);
+    expect(getHourOfWeek(new Date('2026-05-26T13:00:00Z'), 'Asia/Tokyo')).toBe(2 * 24 + 22);
+  });
+
+  it('falls back to platform benchmarks without history', () => {
+    const model = buildBestTimeModel('instagram', [], { timezone, now });
+    const [best] = rankBestTimes(model, 1);
+
+    expect(model.postCount).toBe(0);
+    expect([best.dayOfWeek, best.hour]).toEqual([3, 11]);
+    expect(best.confidenceInterval.lower).toBeLessThan(best.expectedEngagementRate);
+  });
+
+  it('lets consistent history outweigh the prior and narrows the interval', () => {
+    // Sunday 20:00 in New York, a quiet hour in the benchmarks
+    const sundays = ['2026-05-04T00:00:00Z', '2026-05-11T00:00:00Z', '2026-05-18T00:00:00Z', '2026-05-25T00:00:00Z'];
+    // Wednesday 11:00, the benchmark peak
+    const wednesdays = ['2026-05-06T15:00:00Z', '2026-05-13T15:00:00Z', '2026-05-20T15:00:00Z', '2026-05-27T15:00:00Z'];
+    const sparse = buildBestTimeModel('instagram', postsAt(sundays.slice(0, 1), 9), { timezone, now });
+    const dense = buildBestTimeModel('instagram', [
+      ...postsAt(sundays.concat(sundays, sundays), 9),
+      ...postsAt(wednesdays.concat(wednesdays, wednesdays), 2)
+    ], { timezone, now });
+    const sundayEvening = 20;
+
+    const sparseCell = sparse.cells[sundayEvening];
+    const denseCell = dense.cells[sundayEvening];
+
+    expect(sparseCell.mean).toBeLessThan(9);
+    expect(denseCell.mean).toBeGreaterThan(sparseCell.mean);
+    expect(denseCell.upper - denseCell.lower).toBeLessThan(sparseCell.upper - sparseCell.lower);
+    expect(dense.cells[3 * 24 + 11].mean).toBeLessThan(denseCell.mean);
+    expect(rankBestTimes(dense, 1)[0]).toMatchObject({ dayOfWeek: 0, hour: 20, postCount: 12 });
+  });
+
+  it('weights recent posts over old ones', () => {
+    const samples = [
+      // A year ago, Monday 10:00 did well
+      ...postsAt(['2025-06-02T14:00:00Z', '2025-06-09T14:00:00Z', '2025-06-16T14:00:00Z'], 8),
+      // Lately, Thursday 15:00 does well
+      ...postsAt(['2026-05-14T19:00:00Z', '2026-05-21T19:00:00Z', '2026-05-28T19:00:00Z'], 8)
+    ];
+    const model = buildBestTimeModel('facebook', samples, { timezone, now });
+
+    expect(model.cells[4 * 24 + 15].mean).toBeGreaterThan(model.cells[1 * 24 + 10].mean);
+  });
+
+  it('picks the best local hours, spaced and in order', () => {
+    const model = buildBestTimeModel('linkedin', [], { timezone, now });
+    const slots = findBestSlotDates(model, new Date('2026-06-01T04:00:00Z'), new Date('2026-06-15T04:00:00Z'), 3, {
+      now,
+      postsPerDay: 1
+    });
+
+    // LinkedIn peaks on Tuesdays at 10:00; other weekdays at 10:00 tie, and the earliest wins
+    expect(slots.map(slot => slot.toISOString())).toEqual([
+      '2026-06-01T14:00:00.000Z',
+      '2026-06-02T14:00:00.000Z',
+      '2026-06-09T14:00:00.000Z'
+    ]);
+  });
+});
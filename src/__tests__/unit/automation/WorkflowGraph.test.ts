@@ -0,0 +1,95 @@
+/**
+ * Unit Tests: Workflow graphs
+ *
+ * Covers template resolution between steps and graph validation
+ */
+
+import { resolveTemplateValue } from '@/lib/automation/templates';
+import {
+  StepType,
+  WorkflowGraph,
+  ActionType,
+  OperatorType,
+  createAction,
+  createCondition,
+  validateWorkflowGraph
+} from '@/lib/automation/models';
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'test-id')
+}));
+
+describe('Workflow graphs', () => {
+  describe('resolveTemplateValue', () => {
+    const scope = {
+      user: { id: 'user_1' },
+      steps: {
+        generate: { output: { content: 'Hello', tags: ['a', 'b'] } }
+      },
+      loop: { item: { email: 'lead@example.com' }, index: 2 }
+    };
+
+    it('should return raw values for single placeholders', () => {
+      expect(resolveTemplateValue('{{ steps.generate.output.tags }}', scope)).toEqual(['a', 'b']);
+    });
+
+    it('should interpolate placeholders inside text', () => {
+      expect(resolveTemplateValue('{{steps.generate.output.content}}, {{user.id}} #{{loop.index}}', scope))
+        .toBe('Hello, user_1 #2');
+    });
+
+    it('should resolve nested objects and arrays', () => {
+      expect(resolveTemplateValue({ to: ['{{loop.item.email}}'], retries: 3 }, scope))
+        .toEqual({ to: ['lead@example.com'], retries: 3 });
+    });
+
+    it('should leave unknown placeholders in text', () => {
+      expect(resolveTemplateValue('Hi {{user.name}}', scope)).toBe('Hi {{user.name}}');
+      expect(resolveTemplateValue('{{user.name}}', scope)).toBeUndefined();
+    });
+  });
+
+  describe('validateWorkflowGraph', () => {
+    const action = createAction(ActionType.SEND_EMAIL, 'Send email', {});
+
+    it('should accept a valid graph', () => {
+      const graph: WorkflowGraph = {
+        startStepId: 'check',
+        steps: {
+          check: {
+            id: 'check',
+            type: StepType.BRANCH,
+            name: 'Check',
+            conditions: [createCondition('mention.sentiment', OperatorType.EQUALS, 'negative')],
+            onTrue: 'wait'
+          },
+          wait: { id: 'wait', type: StepType.DELAY, name: 'Wait', delay: { hours: 2 }, next: 'email' },
+          email: { id: 'email', type: StepType.ACTION, name: 'Email', action }
+        }
+      };
+
+      expect(validateWorkflowGraph(graph)).toEqual([]);
+    });
+
+    it('should reject unknown references and delays inside loops', () => {
+      const graph: WorkflowGraph = {
+        startStepId: 'each',
+        steps: {
+          each: {
+            id: 'each',
+            type: StepType.LOOP,
+            name: 'Each lead',
+            loop: { items: '{{leads}}', bodyStepId: 'wait' },
+            next: 'missing'
+          },
+          wait: { id: 'wait', type: StepType.DELAY, name: 'Wait', delay: { minutes: 5 } }
+        }
+      };
+
+      const errors = validateWorkflowGraph(graph);
+
+      expect(errors).toContain('Step each references unknown next step: missing');
+      expect(errors).toContain('Loop step each contains delay step wait');
+    });
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Unit Tests: Automation action handlers
+ *
+ * Covers the acting user and ownership checks, provider capabilities, and the
+ * handlers that act on connected accounts, webhooks, content and inbox messages
+ */
+
+import {
+  assertOwnedByActingUser,
+  canLike,
+  canRepost,
+  canRetweet,
+  getAccountProvider,
+  getActingUser
+} from '@/lib/automation/handlers/actions/action-utils';
+import LikeContentAction from '@/lib/automation/handlers/actions/like-content';
+import ShareContentAction from '@/lib/automation/handlers/actions/share-content';
+import SendMessageAction from '@/lib/automation/handlers/actions/send-message';
+import SendWebhookAction from '@/lib/automation/handlers/actions/send-webhook';
+import TagContentAction from '@/lib/automation/handlers/actions/tag-content';
+import UpdateContentAction from '@/lib/automation/handlers/actions/update-content';
+import PostReplyAction from '@/lib/automation/handlers/actions/post-reply';
+import CreateTaskAction from '@/lib/automation/handlers/actions/create-task';
+import GenerateTagsAction from '@/lib/automation/handlers/actions/generate-tags';
+import CustomAction from '@/lib/automation/handlers/actions/custom-action';
+import PublishContentAction from '@/lib/automation/handlers/actions/publish-content';
+import { registerActionHandler } from '@/lib/automation/registry';
+import { ActionType } from '@/lib/automation/models';
+import { PlatformProvider } from '@/lib/features/platforms/PlatformProvider';
+import { PlatformProviderFactory } from '@/lib/features/platforms/providers/PlatformProviderFactory';
+import { createToolkit } from '@/lib/features/ai/toolkit';
+import calendarService from '@/lib/features/content/CalendarService';
+import socialInboxService from '@/lib/features/content/SocialInboxService';
+import { scheduledPostService } from '@/lib/features/scheduling/ScheduledPostService';
+import { publishProcessor } from '@/lib/features/scheduling/PublishProcessor';
+
+const mockAccounts: Record<string, Record<string, any>> = {};
+const mockWrites: Array<{ collection: string; data: Record<string, any> }> = [];
+const mockSendToWebhook = jest.fn();
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'test-id')
+}));
+jest.mock('@/lib/core/firebase/admin', () => ({
+  firestore: {
+    collection: (name: string) => ({
+      doc: (id?: string) => ({
+        id: id || 'generated_id',
+        get: async () => ({ exists: !!mockAccounts[id || ''], data: () => mockAccounts[id || ''] }),
+        set: async (data: Record<string, any>) => { mockWrites.push({ collection: name, data }); }
+      })
+    })
+  }
+}));
+jest.mock('@/lib/features/platforms/providers/PlatformProviderFactory', () => ({
+  PlatformProviderFactory: { getProvider: jest.fn() }
+}));
+jest.mock('@/lib/features/ai/toolkit', () => ({
+  createToolkit: jest.fn()
+}));
+jest.mock('@/lib/features/content/CalendarService', () => ({
+  __esModule: true,
+  default: { getContent: jest.fn(), updateContent: jest.fn() }
+}));
+jest.mock('@/lib/features/content/SocialInboxService', () => ({
+  __esModule: true,
+  default: { getMessage: jest.fn(), replyToMessage: jest.fn(), updateLabels: jest.fn() }
+}));
+jest.mock('@/lib/features/scheduling/ScheduledPostService', () => ({
+  scheduledPostService: { createScheduledPost: jest.fn(), getScheduledPost: jest.fn() }
+}));
+jest.mock('@/lib/features/scheduling/PublishProcessor', () => ({ publishProcessor: { publishNow: jest.fn() } }));
+jest.mock('@/lib/webhooks/WebhookService', () => ({
+  WebhookService: jest.fn().mockImplementation(() => ({ sendToWebhook: mockSendToWebhook })),
+  WebhookEventType: { AUTOMATION_TRIGGERED: 'automation.triggered' }
+}));
+jest.mock('@/lib/logging/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('@/lib/core/logging/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}));
+
+const context = {
+  workflowId: 'workflow_1',
+  user: { id: 'user_1', organizationId: 'org_1' },
+  trigger: { type: 'mention_received' },
+  mention: { id: 'mention_1', postId: 'post_1', text: 'Loving the new release' }
+};
+
+function mockProvider(methods: Record<string, jest.Mock>): PlatformProvider {
+  const provider = Object.assign(Object.create(null), methods) as PlatformProvider;
+  (PlatformProviderFactory.getProvider as jest.Mock).mockReturnValue(provider);
+  return provider;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockWrites.length = 0;
+  Object.keys(mockAccounts).forEach(id => delete mockAccounts[id]);
+  mockAccounts.own_account = { userId: 'user_1', organizationId: 'org_1', platformType: 'twitter', isActive: true };
+  mockAccounts.team_account = { userId: 'user_2', organizationId: 'org_1', platformType: 'bluesky', isActive: true };
+  mockAccounts.other_tenant = { userId: 'user_9', organizationId: 'org_9', platformType: 'twitter', isActive: true };
+  mockAccounts.inactive = { userId: 'user_1', organizationId: 'org_1', platformType: 'twitter', isActive: false };
+});
+
+describe('action utilities', () => {
+  it('should act as the context user', () => {
+    expect(getActingUser({}, context)).toEqual({ userId: 'user_1', organizationId: 'org_1' });
+    expect(getActingUser({ userId: 'user_1' }, context)).toEqual({ userId: 'user_1', organizationId: 'org_1' });
+  });
+
+  it('should not let parameters switch user or organization', () => {
+    expect(() => getActingUser({ userId: 'user_9' }, context)).toThrow('workflow\'s own user');
+    expect(() => getActingUser({ organizationId: 'org_9' }, context)).toThrow('workflow\'s own user');
+    expect(() => getActingUser({ userId: 'user_1' }, {})).toThrow('No user available');
+  });
+
+  it('should accept records of the user or their organization only', () => {
+    const actingUser = { userId: 'user_1', organizationId: 'org_1' };
+
+    expect(() => assertOwnedByActingUser({ userId: 'user_1' }, actingUser, 'Content c')).not.toThrow();
+    expect(() => assertOwnedByActingUser({ userId: 'user_2', organizationId: 'org_1' }, actingUser, 'Content c')).not.toThrow();
+    expect(() => assertOwnedByActingUser({ userId: 'user_9', organizationId: 'org_9' }, actingUser, 'Content c'))
+      .toThrow('Content c not found');
+    expect(() => assertOwnedByActingUser(null, actingUser, 'Content c')).toThrow('Content c not found');
+  });
+
+  it('should only create providers for accounts the acting user may use', async () => {
+    mockProvider({});
+    const actingUser = { userId: 'user_1', organizationId: 'org_1' };
+
+    await expect(getAccountProvider('own_account', actingUser)).resolves.toMatchObject({ platformType: 'twitter' });
+    await expect(getAccountProvider('team_account', actingUser)).resolves.toMatchObject({ platformType: 'bluesky' });
+    await expect(getAccountProvider('other_tenant', actingUser)).rejects.toThrow('Connected account other_tenant not found');
+    await expect(getAccountProvider('missing', actingUser)).rejects.toThrow('Connected account missing not found');
+    await expect(getAccountProvider('inactive', actingUser)).rejects.toThrow('not active');
+  });
+
+  it('should detect engagement capabilities', () => {
+    const provider = mockProvider({ likePost: jest.fn(), repostPost: jest.fn() });
+
+    expect(canLike(provider)).toBe(true);
+    expect(canRepost(provider)).toBe(true);
+    expect(canRetweet(provider)).toBe(false);
+  });
+});
+
+describe('engagement actions', () => {
+  it('should like a post through the account provider', async () => {
+    const likePost = jest.fn().mockResolvedValue(true);
+    mockProvider({ likePost });
+
+    const result = await new LikeContentAction().execute({ accountId: 'own_account' }, context);
+
+    expect(likePost).toHaveBeenCalledWith('post_1');
+    expect(result).toEqual({ accountId: 'own_account', platformType: 'twitter', postId: 'post_1', success: true });
+  });
+
+  it('should refuse to act through another tenant\'s account', async () => {
+    const likePost = jest.fn();
+    mockProvider({ likePost });
+
+    await expect(new LikeContentAction().execute({ accountId: 'other_tenant' }, context)).rejects.toThrow('not found');
+    expect(likePost).not.toHaveBeenCalled();
+  });
+
+  it('should fail when the platform does not support the operation', async () => {
+    mockProvider({});
+
+    await expect(new LikeContentAction().execute({ accountId: 'own_account' }, context))
+      .rejects.toThrow('Liking posts is not supported on twitter');
+  });
+
+  it('should share with a repost where retweets are not available', async () => {
+    const repostPost = jest.fn().mockResolvedValue('at://repost');
+    mockProvider({ repostPost });
+
+    const result = await new ShareContentAction().execute({ accountId: 'team_account' }, context);
+
+    expect(repostPost).toHaveBeenCalledWith('post_1');
+    expect(result.success).toBe(true);
+  });
+
+  it('should send direct messages from generated content', async () => {
+    const sendDirectMessage = jest.fn().mockResolvedValue({ id: 'dm_1' });
+    mockProvider({ sendDirectMessage });
+
+    const result = await new SendMessageAction().execute(
+      { accountId: 'own_account', recipientId: 'recipient_1' },
+      { ...context, [ActionType.GENERATE_CONTENT]: { content: 'Thanks!' } }
+    );
+
+    expect(sendDirectMessage).toHaveBeenCalledWith('recipient_1', 'Thanks!');
+    expect(result.messageId).toBe('dm_1');
+  });
+});
+
+describe('SendWebhookAction', () => {
+  it('should require an explicit payload', async () => {
+    await expect(new SendWebhookAction().execute({ webhookId: 'webhook_1' }, context))
+      .rejects.toThrow('Missing required parameters');
+    expect(mockSendToWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should send only the interpolated payload to an organization webhook', async () => {
+    mockSendToWebhook.mockResolvedValue({ deliveryAttemptId: 'attempt_1', success: true });
+
+    const result = await new SendWebhookAction().execute(
+      { webhookId: 'webhook_1', payload: { text: '{{mention.text}}', source: 'automation' } },
+      context
+    );
+
+    expect(mockSendToWebhook).toHaveBeenCalledWith('webhook_1', 'org_1', 'automation.triggered', {
+      workflowId: 'workflow_1',
+      trigger: context.trigger,
+      data: { text: 'Loving the new release', source: 'automation' }
+    });
+    expect(result).toEqual({ webhookId: 'webhook_1', deliveryAttemptId: 'attempt_1' });
+  });
+
+  it('should fail when delivery fails', async () => {
+    mockSendToWebhook.mockResolvedValue({ deliveryAttemptId: 'attempt_2', success: false });
+
+    await expect(new SendWebhookAction().execute({ webhookId: 'webhook_1', payload: {} }, context))
+      .rejects.toThrow('Webhook delivery failed');
+  });
+});
+
+describe('PublishContentAction', () => {
+  it('should leave a failed publish to the queue instead of failing the step', async () => {
+    (scheduledPostService.createScheduledPost as jest.Mock).mockResolvedValue('scheduled_1');
+    (publishProcessor.publishNow as jest.Mock).mockResolvedValue('failed');
+
+    const result = await new PublishContentAction().execute({ platformType: 'twitter', content: 'Launch day' }, context);
+
+    expect(result).toEqual({ scheduledPostId: 'scheduled_1', status: 'queued', platformType: 'twitter' });
+    expect(scheduledPostService.createScheduledPost).toHaveBeenCalledTimes(1);
+    expect(scheduledPostService.getScheduledPost).not.toHaveBeenCalled();
+  });
+
+  it('should report the published post', async () => {
+    (scheduledPostService.createScheduledPost as jest.Mock).mockResolvedValue('scheduled_1');
+    (publishProcessor.publishNow as jest.Mock).mockResolvedValue('published');
+    (scheduledPostService.getScheduledPost as jest.Mock).mockResolvedValue({
+      platformPostIds: { twitter: 'tweet_1' },
+      publishUrls: { twitter: 'https://x.com/i/status/tweet_1' }
+    });
+
+    const result = await new PublishContentAction().execute({ platformType: 'twitter', content: 'Launch day' }, context);
+
+    expect(result).toEqual({
+      scheduledPostId: 'scheduled_1',
+      status: 'published',
+      platformType: 'twitter',
+      platformPostId: 'tweet_1',
+      url: 'https://x.com/i/status/tweet_1'
+    });
+  });
+});
+
+describe('content and inbox actions', () => {
+  it('should merge tags into the user\'s content', async () => {
+    (calendarService.getContent as jest.Mock).mockResolvedValue({ id: 'content_1', userId: 'user_1', tags: ['launch'] });
+
+    const result = await new TagContentAction().execute(
+      { contentId: 'content_1' },
+      { ...context, [ActionType.GENERATE_TAGS]: { tags: ['launch', 'product'] } }
+    );
+
+    expect(calendarService.updateContent).toHaveBeenCalledWith('content_1', { tags: ['launch', 'product'] });
+    expect(result).toEqual({ target: 'content', contentId: 'content_1', tags: ['launch', 'product'] });
+  });
+
+  it('should not tag or update another tenant\'s content', async () => {
+    (calendarService.getContent as jest.Mock).mockResolvedValue({ id: 'content_9', userId: 'user_9', organizationId: 'org_9' });
+
+    await expect(new TagContentAction().execute({ contentId: 'content_9', tags: ['x'] }, context))
+      .rejects.toThrow('Content content_9 not found');
+    await expect(new UpdateContentAction().execute({ contentId: 'content_9', title: 'Hijacked' }, context))
+      .rejects.toThrow('Content content_9 not found');
+    expect(calendarService.updateContent).not.toHaveBeenCalled();
+  });
+
+  it('should only reply to the organization\'s inbox messages', async () => {
+    (socialInboxService.getMessage as jest.Mock).mockResolvedValue({ id: 'message_9', userId: 'user_9', organizationId: 'org_9' });
+
+    await expect(new PostReplyAction().execute({ messageId: 'message_9', content: 'Hi' }, context))
+      .rejects.toThrow('Message message_9 not found');
+    expect(socialInboxService.replyToMessage).not.toHaveBeenCalled();
+  });
+
+  it('should create a task for the acting user', async () => {
+    const result = await new CreateTaskAction().execute({ title: 'Follow up on {{mention.id}}', dueInHours: 2 }, context);
+
+    expect(mockWrites[0]).toMatchObject({
+      collection: 'tasks',
+      data: {
+        title: 'Follow up on mention_1',
+        metadata: { createdBy: 'user_1', organizationId: 'org_1', workflowId: 'workflow_1' }
+      }
+    });
+    expect(result.taskId).toBe('generated_id');
+  });
+});
+
+describe('AI and custom actions', () => {
+  it('should generate tags without leading hashes', async () => {
+    const generateHashtags = jest.fn().mockResolvedValue({ success: true, data: ['#launch', 'product '] });
+    (createToolkit as jest.Mock).mockResolvedValue({ content: { generateHashtags } });
+
+    const result = await new GenerateTagsAction().execute({ count: 2 }, context);
+
+    expect(generateHashtags).toHaveBeenCalledWith('Loving the new release', 'general', 2, { userId: 'user_1', organizationId: 'org_1' });
+    expect(result).toEqual({ tags: ['launch', 'product'] });
+  });
+
+  it('should dispatch to a registered custom handler', async () => {
+    const execute = jest.fn().mockResolvedValue({ done: true });
+    registerActionHandler('custom:enrich', { execute });
+
+    const result = await new CustomAction().execute({ handlerName: 'enrich', options: { depth: 1 } }, context);
+
+    expect(execute).toHaveBeenCalledWith({ depth: 1 }, context);
+    expect(result).toEqual({ done: true });
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Unit Tests: Workflow dry runs and replays
+ *
+ * Covers condition traces, dry runs of flat and graph workflows, and replaying
+ * stored executions with and without side effects
+ */
+
+import { AutomationEngine, EventData } from '@/lib/automation/engine';
+import { registerActionHandler, registerTriggerHandler } from '@/lib/automation/registry';
+import {
+  ActionType,
+  OperatorType,
+  StepType,
+  TriggerType,
+  Workflow,
+  WorkflowExecution,
+  WorkflowStatus
+} from '@/lib/automation/models';
+
+const mockDocuments = new Map<string, Record<string, any>>();
+const mockExecute = jest.fn();
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'execution_new')
+}));
+jest.mock('@/lib/core/firebase/admin', () => ({
+  firestore: {
+    collection: (name: string) => ({
+      doc: (id: string) => ({
+        get: async () => ({
+          exists: mockDocuments.has(`${name}/${id}`),
+          data: () => mockDocuments.get(`${name}/${id}`)
+        }),
+        set: async (data: Record<string, any>) => { mockDocuments.set(`${name}/${id}`, data); },
+        update: async (data: Record<string, any>) => {
+          mockDocuments.set(`${name}/${id}`, { ...mockDocuments.get(`${name}/${id}`), ...data });
+        }
+      })
+    })
+  }
+}));
+jest.mock('@/lib/core/logging/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}));
+
+registerTriggerHandler(TriggerType.CONTENT_CREATED, {
+  process: async (event: EventData) => ({ content: event.data.content })
+});
+registerActionHandler(ActionType.GENERATE_TAGS, { execute: mockExecute });
+registerActionHandler(ActionType.SEND_NOTIFICATION, { execute: mockExecute });
+
+function createWorkflow(overrides: Partial<Workflow> = {}): Workflow {
+  return {
+    id: 'workflow_1',
+    name: 'Tag new posts',
+    trigger: {
+      id: 'trigger_1',
+      type: TriggerType.CONTENT_CREATED,
+      name: 'Content created',
+      parameters: {},
+      conditions: [
+        { id: 'is_post', field: 'content.type', operator: OperatorType.EQUALS, value: 'post' }
+      ]
+    },
+    actions: [
+      {
+        id: 'tags',
+        type: ActionType.GENERATE_TAGS,
+        name: 'Generate tags',
+        parameters: {},
+        order: 1,
+        enabled: true
+      },
+      {
+        id: 'notify',
+        type: ActionType.SEND_NOTIFICATION,
+        name: 'Notify',
+        parameters: { message: 'Tagged' },
+        order: 2,
+        enabled: true,
+        conditions: [
+          { id: 'has_tags', field: 'generate_tags.tags', operator: OperatorType.EXISTS, value: null }
+        ]
+      }
+    ],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: 'user_1',
+    organizationId: 'org_1',
+    status: WorkflowStatus.ACTIVE,
+    enabled: true,
+    executionCount: 0,
+    successRate: 0,
+    ...overrides
+  };
+}
+
+function createEvent(content: Record<string, any>): EventData {
+  return {
+    type: TriggerType.CONTENT_CREATED,
+    data: { content },
+    timestamp: new Date(),
+    organizationId: 'org_1'
+  };
+}
+
+describe('AutomationEngine dry runs', () => {
+  let engine: AutomationEngine;
+
+  beforeEach(() => {
+    mockDocuments.clear();
+    mockExecute.mockReset();
+    engine = new AutomationEngine();
+  });
+
+  describe('condition traces', () => {
+    it('explains why a trigger condition failed', async () => {
+      const result = await engine.dryRunWorkflow(createWorkflow(), createEvent({ type: 'story' }));
+
+      expect(result.wouldTrigger).toBe(false);
+      expect(result.triggerConditions).toEqual([
+        expect.objectContaining({
+          conditionId: 'is_post',
+          actual: 'story',
+          expected: 'post',
+          passed: false,
+          reason: '"story" !== "post"'
+        })
+      ]);
+    });
+
+    it('traces negated, range and pattern operators', async () => {
+      const workflow = createWorkflow();
+      workflow.trigger.conditions = [
+        { id: 'not_draft', field: 'content.status', operator: OperatorType.EQUALS, value: 'draft', negate: true },
+        { id: 'length', field: 'content.length', operator: OperatorType.BETWEEN, value: [10, 280] },
+        { id: 'pattern', field: 'content.text', operator: OperatorType.REGEX_MATCH, value: '(' }
+      ];
+
+      const result = await engine.dryRunWorkflow(
+        workflow,
+        createEvent({ status: 'published', length: 20, text: 'Hello' })
+      );
+
+      const [notDraft, length, pattern] = result.triggerConditions;
+      expect(notDraft.passed).toBe(true);
+      expect(notDraft.reason).toBe('NOT ("published" !== "draft")');
+      expect(length.passed).toBe(true);
+      expect(length.reason).toBe('20 is between 10 and 280');
+      expect(pattern.passed).toBe(false);
+      expect(pattern.reason).toContain('Invalid pattern');
+      expect(result.wouldTrigger).toBe(false);
+    });
+  });
+
+  describe('dryRunWorkflow', () => {
+    it('traces flat actions without running handlers or writing', async () => {
+      const result = await engine.dryRunWorkflow(
+        createWorkflow(),
+        createEvent({ type: 'post' }),
+        { mockOutputs: { tags: { tags: ['launch'] } } }
+      );
+
+      expect(result.wouldTrigger).toBe(true);
+      expect(result.mode).toBe('test');
+      expect(result.steps.map(step => [step.stepId, step.outcome])).toEqual([
+        ['tags', 'would_execute'],
+        ['notify', 'would_execute']
+      ]);
+      expect(result.steps[0].simulatedOutput).toEqual({ tags: ['launch'] });
+      expect(result.steps[1].conditions[0].passed).toBe(true);
+      expect(mockExecute).not.toHaveBeenCalled();
+      expect(mockDocuments.size).toBe(0);
+    });
+
+    it('skips actions whose conditions see no earlier output', async () => {
+      const result = await engine.dryRunWorkflow(createWorkflow(), createEvent({ type: 'post' }));
+
+      expect(result.steps[1].outcome).toBe('skipped');
+      expect(result.steps[1].note).toBe('Action conditions not met');
+      expect(result.warnings).toContain(
+        'No output available for action tags; later conditions see no generate_tags result'
+      );
+    });
+
+    it('follows graph branches and traces every loop iteration', async () => {
+      const workflow = createWorkflow({
+        graph: {
+          startStepId: 'tags',
+          steps: {
+            tags: {
+              id: 'tags',
+              type: StepType.ACTION,
+              name: 'Generate tags',
+              action: createWorkflow().actions[0],
+              next: 'has_tags'
+            },
+            has_tags: {
+              id: 'has_tags',
+              type: StepType.BRANCH,
+              name: 'Has tags?',
+              conditions: [
+                { id: 'tag_count', field: 'steps.tags.output.tags', operator: OperatorType.CONTAINS, value: 'launch' }
+              ],
+              onTrue: 'each_tag'
+            },
+            each_tag: {
+              id: 'each_tag',
+              type: StepType.LOOP,
+              name: 'Each tag',
+              loop: { items: '{{steps.tags.output.tags}}', bodyStepId: 'notify' }
+            },
+            notify: {
+              id: 'notify',
+              type: StepType.ACTION,
+              name: 'Notify',
+              action: {
+                id: 'notify',
+                type: ActionType.SEND_NOTIFICATION,
+                name: 'Notify',
+                parameters: { message: 'Tagged {{loop.item}}' },
+                order: 1,
+                enabled: true
+              }
+            }
+          }
+        }
+      });
+
+      const result = await engine.dryRunWorkflow(
+        workflow,
+        createEvent({ type: 'post' }),
+        { mockOutputs: { tags: { tags: ['launch', 'news'] } } }
+      );
+
+      expect(result.steps.map(step => [step.stepId, step.outcome])).toEqual([
+        ['tags', 'would_execute'],
+        ['has_tags', 'branch_true'],
+        ['each_tag', 'loop'],
+        ['notify', 'would_execute'],
+        ['notify', 'would_execute']
+      ]);
+      expect(result.steps[1].nextStepId).toBe('each_tag');
+      expect(result.steps[3].resolvedParameters).toEqual({ message: 'Tagged launch' });
+      expect(result.steps[4].iteration).toBe(1);
+      expect(result.steps[4].resolvedParameters).toEqual({ message: 'Tagged news' });
+      expect(mockExecute).not.toHaveBeenCalled();
+    });
+
+    it('warns when the workflow would not run for live events', async () => {
+      const result = await engine.dryRunWorkflow(
+        createWorkflow({ enabled: false }),
+        { ...createEvent({ type: 'post' }), organizationId: 'org_2' }
+      );
+
+      expect(result.warnings).toEqual(expect.arrayContaining([
+        'Workflow is not enabled and active, so live events will not run it',
+        'Event organization does not match the workflow organization'
+      ]));
+    });
+  });
+
+  describe('replayExecution', () => {
+    const storedExecution: WorkflowExecution = {
+      id: 'execution_1',
+      workflowId: 'workflow_1',
+      workflowName: 'Tag new posts',
+      triggerData: { content: { type: 'post' } },
+      startTime: new Date(),
+      status: 'completed',
+      actionResults: [
+        { actionId: 'tags', success: true, timestamp: new Date(), data: { tags: ['launch'] } }
+      ]
+    };
+
+    beforeEach(() => {
+      mockDocuments.set('automationWorkflows/workflow_1', createWorkflow());
+      mockDocuments.set('workflowExecutions/execution_1', storedExecution);
+    });
+
+    it('returns null for unknown executions', async () => {
+      await expect(engine.replayExecution('missing')).resolves.toBeNull();
+    });
+
+    it('replays with stored results standing in for action outputs', async () => {
+      const result = await engine.replayExecution('execution_1');
+
+      expect(result?.execution).toBeUndefined();
+      expect(result?.dryRun).toEqual(expect.objectContaining({
+        mode: 'replay',
+        sourceExecutionId: 'execution_1',
+        wouldTrigger: true
+      }));
+      expect(result?.dryRun?.steps[0].simulatedOutput).toEqual({ tags: ['launch'] });
+      expect(result?.dryRun?.steps[1].outcome).toBe('would_execute');
+      expect(mockExecute).not.toHaveBeenCalled();
+    });
+
+    it('warns when the execution did not record its trigger data', async () => {
+      mockDocuments.set('workflowExecutions/execution_1', {
+        ...storedExecution,
+        triggerData: { type: TriggerType.CONTENT_CREATED }
+      });
+
+      const result = await engine.replayExecution('execution_1');
+
+      expect(result?.dryRun?.warnings).toContain('Execution stored only the event type; trigger data was not recorded');
+    });
+
+    it('executes the workflow again when dry run is off', async () => {
+      mockExecute.mockResolvedValue({ tags: ['launch'] });
+
+      const result = await engine.replayExecution('execution_1', { dryRun: false });
+
+      expect(mockExecute).toHaveBeenCalledTimes(2);
+      expect(mockExecute).toHaveBeenCalledWith(
+        {},
+        expect.objectContaining({ user: { id: 'user_1', organizationId: 'org_1' } })
+      );
+      expect(result?.execution).toEqual(expect.objectContaining({
+        id: 'execution_new',
+        status: 'completed',
+        metadata: { replayOf: 'execution_1' }
+      }));
+      expect(mockDocuments.get('workflowExecutions/execution_new')?.status).toBe('completed');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit Tests: Graph execution leases
+ *
+ * Covers the owner token that fences off a worker whose lease on a graph
+ * execution was reclaimed by another worker
+ */
+
+import { AutomationEngine, EventData } from '@/lib/automation/engine';
+import { registerActionHandler, registerTriggerHandler } from '@/lib/automation/registry';
+import { ActionType, StepType, TriggerType, Workflow, WorkflowStatus } from '@/lib/automation/models';
+
+const mockDocuments = new Map<string, Record<string, any>>();
+const mockExecute = jest.fn();
+let mockNextId = 0;
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => `id_${++mockNextId}`)
+}));
+jest.mock('@/lib/core/firebase/admin', () => {
+  const docRef = (name: string, id: string) => ({
+    get: async () => ({ id, exists: mockDocuments.has(`${name}/${id}`), data: () => mockDocuments.get(`${name}/${id}`) }),
+    set: async (data: Record<string, any>) => { mockDocuments.set(`${name}/${id}`, data); },
+    update: async (data: Record<string, any>) => {
+      mockDocuments.set(`${name}/${id}`, { ...mockDocuments.get(`${name}/${id}`), ...data });
+    }
+  });
+  const queryRef = (name: string, filters: Array<[string, string, any]>): any => ({
+    where: (field: string, op: string, value: any) => queryRef(name, [...filters, [field, op, value]]),
+    limit: () => queryRef(name, filters),
+    get: async () => ({
+      docs: Array.from(mockDocuments.entries())
+        .filter(([path, data]) => path.startsWith(`${name}/`) && filters.every(([field, op, value]) =>
+          op === '<=' ? data[field] <= value : data[field] === value
+        ))
+        .map(([path]) => ({ id: path.split('/')[1] }))
+    })
+  });
+
+  return {
+    firestore: {
+      collection: (name: string) => ({
+        doc: (id: string) => docRef(name, id),
+        where: (field: string, op: string, value: any) => queryRef(name, [[field, op, value]])
+      }),
+      runTransaction: async (run: (transaction: any) => Promise<unknown>) => run({
+        get: (ref: any) => ref.get(),
+        update: (ref: any, data: Record<string, any>) => ref.update(data)
+      })
+    }
+  };
+});
+jest.mock('@/lib/core/logging/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}));
+
+registerTriggerHandler(TriggerType.CONTENT_CREATED, {
+  process: async (event: EventData) => ({ content: event.data.content })
+});
+registerActionHandler(ActionType.SEND_NOTIFICATION, { execute: mockExecute });
+
+function createWorkflow(): Workflow {
+  const action = (id: string) => ({
+    id,
+    type: ActionType.SEND_NOTIFICATION,
+    name: id,
+    parameters: { message: id },
+    order: 1,
+    enabled: true
+  });
+
+  return {
+    id: 'workflow_1',
+    name: 'Notify twice',
+    trigger: { id: 'trigger_1', type: TriggerType.CONTENT_CREATED, name: 'Content created', parameters: {} },
+    actions: [],
+    graph: {
+      startStepId: 'first',
+      steps: {
+        first: { id: 'first', type: StepType.ACTION, name: 'First', action: action('first'), next: 'second' },
+        second: { id: 'second', type: StepType.ACTION, name: 'Second', action: action('second') }
+      }
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: 'user_1',
+    organizationId: 'org_1',
+    status: WorkflowStatus.ACTIVE,
+    enabled: true,
+    executionCount: 0,
+    successRate: 0
+  };
+}
+
+const event: EventData = {
+  type: TriggerType.CONTENT_CREATED,
+  data: { content: { type: 'post' } },
+  timestamp: new Date(),
+  organizationId: 'org_1'
+};
+
+describe('AutomationEngine execution leases', () => {
+  let engine: AutomationEngine;
+
+  beforeEach(() => {
+    mockDocuments.clear();
+    mockExecute.mockReset();
+    mockNextId = 0;
+    engine = new AutomationEngine();
+    mockDocuments.set('automationWorkflows/workflow_1', createWorkflow());
+  });
+
+  it('records the owner of a graph run and completes it', async () => {
+    mockExecute.mockResolvedValue({ sent: true });
+
+    const execution = await engine.executeWorkflow(createWorkflow(), event);
+
+    expect(execution.status).toBe('completed');
+    expect(mockExecute).toHaveBeenCalledTimes(2);
+    expect(mockDocuments.get(`workflowExecutions/${execution.id}`)).toEqual(
+      expect.objectContaining({ status: 'completed', leaseOwner: execution.leaseOwner })
+    );
+  });
+
+  it('stops without writing once another worker has reclaimed the run', async () => {
+    mockExecute.mockImplementationOnce(async () => {
+      // Another worker reclaims the run while the first step is still running
+      const [path] = Array.from(mockDocuments.keys()).filter(key => key.startsWith('workflowExecutions/'));
+      mockDocuments.set(path, { ...mockDocuments.get(path), leaseOwner: 'other_worker', currentStepId: 'first' });
+      return { sent: true };
+    });
+
+    const execution = await engine.executeWorkflow(createWorkflow(), event);
+
+    expect(mockExecute).toHaveBeenCalledTimes(1);
+    expect(mockDocuments.get(`workflowExecutions/${execution.id}`)).toEqual(
+      expect.objectContaining({ status: 'running', leaseOwner: 'other_worker', currentStepId: 'first' })
+    );
+  });
+
+  it('takes over an abandoned run under a new owner token', async () => {
+    mockExecute.mockResolvedValue({ sent: true });
+    mockDocuments.set('workflowExecutions/execution_1', {
+      id: 'execution_1',
+      workflowId: 'workflow_1',
+      workflowName: 'Notify twice',
+      status: 'running',
+      startTime: new Date(),
+      actionResults: [],
+      currentStepId: 'second',
+      context: {},
+      stepOutputs: {},
+      leaseOwner: 'dead_worker',
+      leaseExpiresAt: new Date(Date.now() - 1000)
+    });
+
+    const stats = await engine.resumeWaitingExecutions();
+
+    expect(stats).toEqual({ resumed: 1, completed: 1, failed: 0, waiting: 0 });
+    expect(mockExecute).toHaveBeenCalledTimes(1);
+    expect(mockDocuments.get('workflowExecutions/execution_1')).toEqual(
+      expect.objectContaining({ status: 'completed', leaseOwner: 'id_1' })
+    );
+  });
+});
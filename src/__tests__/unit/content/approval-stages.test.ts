@@ -0,0 +1,108 @@
+/**
+ * Unit Tests: Approval stages
+ *
+ * Covers conditional stages, ordering, quorums and escalation
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import {
+  activateNextStages,
+  addStageReviewer,
+  applyStageReview,
+  buildStageStates,
+  escalateOverdueStages
+} from '@/lib/features/content/workflow/approval-stages';
+import { ApprovalStageDefinition, ApprovalStageStatus } from '@/lib/features/content/models/workflow';
+import { TeamRole } from '@/lib/auth/roles';
+import { PlatformType } from '@/lib/features/platforms/PlatformProvider';
+
+// Stage due dates need millisecond Timestamps, which the global Firestore mock lacks
+jest.mock('firebase/firestore', () => ({
+  Timestamp: class {
+    static fromMillis(millis: number) {
+      return new this(millis);
+    }
+    constructor(private millis: number) {}
+    toMillis() {
+      return this.millis;
+    }
+  }
+}));
+
+describe('approval stages', () => {
+  const now = Timestamp.fromMillis(Date.UTC(2026, 0, 1));
+  const stages: ApprovalStageDefinition[] = [
+    { id: 'copy', name: 'Copy', order: 1, reviewers: ['editor'] },
+    { id: 'brand', name: 'Brand', order: 2, reviewers: ['brand-1', 'brand-2'], quorum: { type: 'any' } },
+    { id: 'social', name: 'Social', order: 2, reviewerRoles: [TeamRole.TEAM_ADMIN] },
+    { id: 'legal', name: 'Legal', order: 3, reviewers: ['lawyer'], conditions: [{ type: 'mentions_price' }] }
+  ];
+  const context = { text: 'Our new plan', platforms: [PlatformType.TWITTER], tags: [] };
+
+  it('skips stages whose conditions do not match', () => {
+    expect(buildStageStates(stages, context).map(stage => stage.status)).toEqual([
+      ApprovalStageStatus.PENDING,
+      ApprovalStageStatus.PENDING,
+      ApprovalStageStatus.PENDING,
+      ApprovalStageStatus.SKIPPED
+    ]);
+    expect(buildStageStates(stages, { ...context, text: 'Only $9 a month' })[3].status).toBe(ApprovalStageStatus.PENDING);
+  });
+
+  it('runs stages in order, with parallel stages sharing an order', () => {
+    let state = activateNextStages(buildStageStates(stages, context), now).stages;
+
+    let result = applyStageReview(state, { userId: 'editor', status: 'approved' }, now)!;
+    expect(result.outcome).toBe('advanced');
+    expect(result.stages.filter(stage => stage.status === ApprovalStageStatus.ACTIVE).map(stage => stage.stageId))
+      .toEqual(['brand', 'social']);
+
+    state = applyStageReview(result.stages, { userId: 'brand-2', status: 'approved' }, now)!.stages;
+    expect(applyStageReview(state, { userId: 'editor', status: 'approved' }, now)).toBeNull();
+
+    result = applyStageReview(state, { userId: 'admin', userRole: TeamRole.TEAM_ADMIN, status: 'approved' }, now)!;
+    expect(result.outcome).toBe('approved');
+  });
+
+  it('rejects a stage once its quorum can no longer be met', () => {
+    const state = activateNextStages(buildStageStates([
+      { id: 'legal', name: 'Legal', order: 1, reviewers: ['a', 'b', 'c'], quorum: { type: 'count', count: 2 } }
+    ], context), now).stages;
+
+    const first = applyStageReview(state, { userId: 'a', status: 'rejected' }, now)!;
+    expect(first.outcome).toBe('pending');
+    expect(applyStageReview(first.stages, { userId: 'b', status: 'rejected' }, now)!.outcome).toBe('rejected');
+  });
+
+  it('escalates overdue stages to a reviewer who decides alone', () => {
+    const state = activateNextStages(buildStageStates([
+      { id: 'legal', name: 'Legal', order: 1, reviewers: ['lawyer'], dueInHours: 24, escalation: { escalateTo: ['counsel'] } }
+    ], context), now).stages;
+
+    const early = escalateOverdueStages(state, Timestamp.fromMillis(now.toMillis() + 3600000));
+    expect(early.escalatedStageIds).toEqual([]);
+
+    const late = escalateOverdueStages(state, Timestamp.fromMillis(now.toMillis() + 25 * 3600000));
+    expect(late.escalatedStageIds).toEqual(['legal']);
+    expect(escalateOverdueStages(late.stages, Timestamp.fromMillis(now.toMillis() + 26 * 3600000)).escalatedStageIds).toEqual([]);
+
+    expect(applyStageReview(late.stages, { userId: 'counsel', status: 'approved' }, now)!.outcome).toBe('approved');
+  });
+
+  it('seats external reviewers as named reviewers of the active stages', () => {
+    const state = activateNextStages(buildStageStates([
+      { id: 'client', name: 'Client', order: 1, reviewerRoles: [TeamRole.TEAM_ADMIN] },
+      { id: 'legal', name: 'Legal', order: 2, reviewers: ['lawyer'] }
+    ], context), now).stages;
+
+    const seated = addStageReviewer(state, { userId: 'external:1', status: 'pending', via: 'external' })!;
+    expect(seated[0].reviewers.map(reviewer => reviewer.userId)).toEqual(['external:1']);
+    expect(seated[1].reviewers.map(reviewer => reviewer.userId)).toEqual(['lawyer']);
+    expect(addStageReviewer(state, { userId: 'external:1', status: 'pending' }, 'missing')).toBeNull();
+
+    // A role reviewer alone no longer passes the stage once the client has a seat
+    const byRole = applyStageReview(seated, { userId: 'admin', userRole: TeamRole.TEAM_ADMIN, status: 'approved' }, now)!;
+    expect(byRole.outcome).toBe('pending');
+    expect(applyStageReview(byRole.stages, { userId: 'external:1', status: 'approved' }, now)!.outcome).toBe('advanced');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit Tests: Calendar feeds
+ *
+ * Covers iCalendar output, timezone definitions and feed filters
+ */
+
+import {
+  buildIcsCalendar,
+  foldIcsLine,
+  getTimezoneTransitions
+} from '@/lib/features/content/calendar/ics';
+import { CalendarFeedItem, matchesFeedFilters, toIcsEvent } from '@/lib/features/content/calendar/calendar-feed';
+import { PlatformType } from '@/lib/features/platforms/PlatformProvider';
+import type { WorkflowState } from '@/lib/features/content/models/workflow';
+
+describe('calendar feeds', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  const post: CalendarFeedItem = {
+    kind: 'post',
+    id: 'post-1',
+    title: 'Spring launch',
+    start: new Date('2026-03-10T14:00:00Z'),
+    durationMinutes: 15,
+    timezone: 'America/New_York',
+    platforms: ['twitter'],
+    status: 'scheduled',
+    campaignIds: [],
+    contentId: 'content-1',
+    approvalState: 'in_review' as WorkflowState,
+    text: 'Launching today; see you there, friends'
+  };
+
+  it('finds daylight saving changes to the minute', () => {
+    const transitions = getTimezoneTransitions('America/New_York', new Date('2026-01-01T00:00:00Z'), new Date('2026-12-31T00:00:00Z'));
+
+    expect(transitions.map(transition => [transition.at.toISOString(), transition.offsetFrom, transition.offsetTo])).toEqual([
+      ['2026-03-08T07:00:00.000Z', -300, -240],
+      ['2026-11-01T06:00:00.000Z', -240, -300]
+    ]);
+  });
+
+  it('writes local times with a matching VTIMEZONE', () => {
+    const ics = buildIcsCalendar({ name: 'Team calendar', timezone: 'UTC', events: [toIcsEvent(post, 'https://app.example.com')] }, now);
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('TZID:America/New_York');
+    expect(lines).toContain('DTSTART:20260308T020000');
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20260310T100000');
+    expect(lines).toContain('DTEND;TZID=America/New_York:20260310T101500');
+    expect(lines).toContain('DTSTAMP:20260301T120000Z');
+    expect(ics.replace(/\r\n /g, '')).toContain(
+      'DESCRIPTION:Platform: Twitter\\nStatus: Scheduled\\nApproval: In review\\n\\nLaunching today\\; see you there\\, friends'
+    );
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const folded = foldIcsLine(`SUMMARY:${'é'.repeat(60)}`);
+    const pieces = folded.split('\r\n');
+
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(pieces.every(piece => Buffer.byteLength(piece) <= 75)).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+  });
+
+  it('filters by platform, status and campaign', () => {
+    expect(matchesFeedFilters(post, { platforms: [PlatformType.TWITTER], statuses: ['scheduled'] })).toBe(true);
+    expect(matchesFeedFilters(post, { platforms: [PlatformType.LINKEDIN] })).toBe(false);
+    expect(matchesFeedFilters(post, { statuses: ['published'] })).toBe(false);
+    expect(matchesFeedFilters(post, { campaignIds: ['campaign-1'] })).toBe(false);
+    expect(matchesFeedFilters(post, { campaignIds: ['campaign-1'] }, ['content-1'])).toBe(true);
+    expect(matchesFeedFilters({ ...post, campaignIds: ['campaign-1'] }, { campaignIds: ['campaign-1'] })).toBe(true);
+  });
+});
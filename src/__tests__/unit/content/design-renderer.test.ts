@@ -0,0 +1,170 @@
+/**
+ * Unit Tests: Design renderer
+ *
+ * Covers SVG building, text wrapping and which remote images are inlined
+ */
+
+import axios from 'axios';
+import {
+  buildDesignSvg,
+  getDesignPages,
+  loadRenderResources,
+  wrapText,
+  RenderResources
+} from '@/lib/features/content/design/renderer';
+import { DesignElement } from '@/lib/features/content/DesignStudioService';
+
+jest.mock('axios');
+jest.mock('@/lib/core/logging/logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('buildDesignSvg', () => {
+  const resources: RenderResources = {
+    images: new Map([['https://cdn.example.com/photo.jpg', 'data:image/jpeg;base64,AAAA']]),
+    icons: new Map([['mdi:heart', { viewBox: '0 0 24 24', body: '<path fill="currentColor" d="M12 21z"/>' }]]),
+    fonts: () => undefined
+  };
+
+  const element = (overrides: Partial<DesignElement>): DesignElement => ({
+    id: 'element',
+    type: 'shape',
+    position: { x: 10, y: 20, z: 0 },
+    size: { width: 100, height: 50 },
+    rotation: 0,
+    style: { opacity: 1 },
+    properties: { shapeType: 'rectangle', fill: '#ff0000' },
+    ...overrides
+  });
+
+  it('draws elements by layer with rotation and opacity', () => {
+    const svg = buildDesignSvg({
+      id: 'page',
+      backgroundColor: '#123456',
+      elements: [
+        element({ id: 'top', position: { x: 10, y: 20, z: 2 }, rotation: 45, style: { opacity: 0.5 } }),
+        element({ id: 'bottom', type: 'icon', properties: { iconName: 'heart', iconSet: 'mdi', color: '#00ff00' } })
+      ]
+    }, { width: 200, height: 100 }, resources, { scale: 2 });
+
+    expect(svg).toContain('width="400" height="200" viewBox="0 0 200 100"');
+    expect(svg).toContain('<rect width="200" height="100" fill="#123456"/>');
+    expect(svg.indexOf('color="#00ff00"')).toBeLessThan(svg.indexOf('fill="#ff0000"'));
+    expect(svg).toContain('<g transform="rotate(45 60 45)" opacity="0.5"><rect x="10" y="20" width="100" height="50" fill="#ff0000"/></g>');
+  });
+
+  it('inlines images and falls back to <text> for unloaded fonts', () => {
+    const svg = buildDesignSvg({
+      id: 'page',
+      elements: [
+        element({ type: 'image', properties: { src: 'https://cdn.example.com/photo.jpg', alt: '', fit: 'contain' } }),
+        element({
+          type: 'text',
+          size: { width: 180, height: 40 },
+          properties: {
+            content: 'Fish & chips',
+            fontFamily: 'Inter',
+            fontSize: 20,
+            fontWeight: 'bold',
+            fontStyle: 'normal',
+            color: '#111111',
+            textAlign: 'center',
+            lineHeight: 1.2,
+            letterSpacing: 0,
+            textDecoration: 'none',
+            textTransform: 'uppercase'
+          }
+        })
+      ]
+    }, { width: 200, height: 100 }, resources, { transparent: true });
+
+    expect(svg).not.toContain('<rect width="200"');
+    expect(svg).toContain('preserveAspectRatio="xMidYMid meet" xlink:href="data:image/jpeg;base64,AAAA"');
+    expect(svg).toContain('font-family="&apos;Inter&apos;, sans-serif"');
+    expect(svg).toContain('font-weight="700"');
+    expect(svg).toContain('text-anchor="middle" xml:space="preserve">FISH &amp; CHIPS</text>');
+  });
+});
+
+describe('getDesignPages', () => {
+  it('puts the design elements first and inherits the background', () => {
+    const pages = getDesignPages({
+      elements: [],
+      backgroundColor: '#ffffff',
+      dimensions: { width: 100, height: 100 },
+      pages: [{ id: 'second', elements: [] }]
+    });
+
+    expect(pages.map(page => page.id)).toEqual(['page-1', 'second']);
+    expect(pages[1].backgroundColor).toBe('#ffffff');
+  });
+});
+
+describe('wrapText', () => {
+  const measure = (value: string) => value.length * 10;
+
+  it('wraps at spaces and breaks words wider than the box', () => {
+    expect(wrapText('one two three\nfour', 80, measure)).toEqual([
+      { text: 'one two', wrapped: true },
+      { text: 'three', wrapped: false },
+      { text: 'four', wrapped: false }
+    ]);
+    expect(wrapText('abcdefghij', 40, measure).map(line => line.text)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+});
+
+describe('loadRenderResources', () => {
+  const page = (...sources: string[]) => ({
+    id: 'page',
+    elements: sources.map((src, index) => ({
+      id: `image-${index}`,
+      type: 'image' as const,
+      position: { x: 0, y: 0, z: 0 },
+      size: { width: 10, height: 10 },
+      rotation: 0,
+      style: {},
+      properties: { src, alt: '', fit: 'contain' as const }
+    }))
+  });
+
+  beforeEach(() => {
+    mockedAxios.get.mockReset();
+  });
+
+  it('inlines public https images with a size cap', async () => {
+    mockedAxios.get.mockResolvedValue({ data: Buffer.from('png'), headers: { 'content-type': 'image/png' } });
+
+    const { images } = await loadRenderResources([page('https://93.184.216.34/photo.png')]);
+
+    expect(images.get('https://93.184.216.34/photo.png')).toBe(`data:image/png;base64,${Buffer.from('png').toString('base64')}`);
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      'https://93.184.216.34/photo.png',
+      expect.objectContaining({ maxContentLength: expect.any(Number), httpsAgent: expect.anything() })
+    );
+  });
+
+  it('never requests private, loopback or plain http sources', async () => {
+    const { images } = await loadRenderResources([page(
+      'https://169.254.169.254/latest/meta-data/',
+      'https://127.0.0.1:8080/admin',
+      'http://93.184.216.34/photo.png'
+    )]);
+
+    expect(images.size).toBe(0);
+    expect(mockedAxios.get).not.toHaveBeenCalled();
+  });
+
+  it('drops responses and data URIs that are not images', async () => {
+    mockedAxios.get.mockResolvedValue({ data: Buffer.from('<html>'), headers: { 'content-type': 'text/html' } });
+
+    const { images } = await loadRenderResources([page(
+      'https://93.184.216.34/page',
+      'data:text/html;base64,PHNjcmlwdD4=',
+      'data:image/gif;base64,R0lGOD=='
+    )]);
+
+    expect(Array.from(images.keys())).toEqual(['data:image/gif;base64,R0lGOD==']);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit Tests: External review links
+ *
+ * Covers link validity, inline comment validation and the audit trail
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import {
+  buildAuditTrailRows,
+  buildPlatformPreviews,
+  getInviteStatus,
+  hashReviewToken,
+  sanitizeInlineComments
+} from '@/lib/features/content/workflow/external-review';
+import {
+  ExternalReviewEvent,
+  ExternalReviewInvite,
+  WorkflowAction,
+  WorkflowHistoryEntry,
+  WorkflowState
+} from '@/lib/features/content/models/workflow';
+import { PlatformType } from '@/lib/features/platforms/PlatformProvider';
+import type { PostStatus } from '@/lib/features/content/CalendarService';
+
+// Invite expiry needs millisecond Timestamps, which the global Firestore mock lacks
+jest.mock('firebase/firestore', () => ({
+  Timestamp: class {
+    static fromMillis(millis: number) {
+      return new this(millis);
+    }
+    constructor(private millis: number) {}
+    toMillis() {
+      return this.millis;
+    }
+  }
+}));
+
+describe('external review links', () => {
+  const at = (iso: string) => Timestamp.fromMillis(Date.parse(iso));
+
+  const invite: ExternalReviewInvite = {
+    id: 'invite-1',
+    contentId: 'content-1',
+    reviewerName: 'Client',
+    reviewerEmail: 'client@example.com',
+    tokenHash: hashReviewToken('token'),
+    invitedBy: 'user-1',
+    invitedByName: 'Agency',
+    createdAt: at('2026-01-01T00:00:00Z'),
+    expiresAt: at('2026-01-04T00:00:00Z'),
+    viewCount: 0
+  };
+
+  it('hashes tokens so links can be looked up without storing them', () => {
+    expect(hashReviewToken('token')).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashReviewToken('token')).not.toBe(hashReviewToken('other'));
+  });
+
+  it('expires and revokes links', () => {
+    expect(getInviteStatus(invite, Date.parse('2026-01-02T00:00:00Z'))).toBe('active');
+    expect(getInviteStatus(invite, Date.parse('2026-01-04T00:00:00Z'))).toBe('expired');
+    expect(getInviteStatus({ ...invite, revokedAt: at('2026-01-02T00:00:00Z') }, Date.parse('2026-01-02T00:00:00Z')))
+      .toBe('revoked');
+  });
+
+  it('threads long posts only on platforms that thread them', () => {
+    const previews = buildPlatformPreviews({
+      content: 'word '.repeat(80).trim(),
+      platformTargets: [
+        { platformType: PlatformType.TWITTER, accountId: 'a', status: 'draft' as PostStatus },
+        { platformType: PlatformType.LINKEDIN, accountId: 'b', status: 'draft' as PostStatus }
+      ]
+    });
+
+    expect(previews.map(preview => [preview.platformType, preview.parts.length > 1])).toEqual([
+      [PlatformType.TWITTER, true],
+      [PlatformType.LINKEDIN, false]
+    ]);
+  });
+
+  it('keeps well-formed inline comments and quotes them from the post', () => {
+    const comments = sanitizeInlineComments([
+      { text: ' Fix the price ', start: 9, end: 12, quote: 'forged', platform: 'twitter' },
+      { text: 'Out of range', start: 5, end: 500, platform: 'myspace' },
+      { text: '   ' },
+      'not a comment'
+    ], 'Only for $49 today');
+
+    expect(comments).toEqual([
+      { text: 'Fix the price', platform: PlatformType.TWITTER, start: 9, end: 12, quote: '$49' },
+      { text: 'Out of range' }
+    ]);
+    expect(sanitizeInlineComments('nope', 'text')).toEqual([]);
+  });
+
+  it('merges the access log and workflow history in time order', () => {
+    const events: ExternalReviewEvent[] = [
+      { id: 'e2', inviteId: 'invite-1', contentId: 'content-1', type: 'viewed', actor: 'Client', ipAddress: '203.0.113.5', timestamp: at('2026-01-02T10:00:00Z') },
+      { id: 'e1', inviteId: 'invite-1', contentId: 'content-1', type: 'invited', actor: 'Agency', timestamp: at('2026-01-01T00:00:00Z') }
+    ];
+    const history: WorkflowHistoryEntry[] = [{
+      id: 'h1',
+      contentId: 'content-1',
+      userId: 'external:invite-1',
+      userName: 'Client',
+      fromState: WorkflowState.IN_REVIEW,
+      toState: WorkflowState.APPROVED,
+      action: WorkflowAction.APPROVE,
+      comments: 'Looks good',
+      inlineComments: [{ text: 'Love it', quote: '$49' }],
+      externalReviewer: { inviteId: 'invite-1', name: 'Client', email: 'client@example.com' },
+      timestamp: at('2026-01-02T11:00:00Z')
+    }];
+
+    const rows = buildAuditTrailRows([invite], events, history);
+
+    expect(rows.map(row => row.event)).toEqual(['external_invited', 'external_viewed', WorkflowAction.APPROVE]);
+    expect(rows[1]).toMatchObject({ email: 'client@example.com', ipAddress: '203.0.113.5' });
+    expect(rows[2].details).toBe('in_review -> approved | Looks good | "$49": Love it');
+  });
+});
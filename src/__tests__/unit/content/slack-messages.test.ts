@@ -0,0 +1,83 @@
+/**
+ * Unit Tests: Slack approvals and alerts
+ *
+ * Covers request signatures, channel routing and crisis alert deduplication
+ */
+
+import crypto from 'crypto';
+import { SlackAdapter } from '@/lib/workflow/adapters/SlackAdapter';
+import {
+  APPROVE_ACTION_ID,
+  CrisisCheck,
+  SlackRoutingRule,
+  buildApprovalRequestMessage,
+  getRoutedChannels,
+  shouldSendCrisisAlert
+} from '@/lib/workflow/slack-messages';
+import { PlatformType } from '@/lib/features/platforms/PlatformProvider';
+import type { MessagePriority } from '@/lib/features/content/SocialInboxService';
+
+describe('Slack approvals and alerts', () => {
+  const now = Date.parse('2026-03-01T12:00:00Z');
+
+  it('accepts only fresh requests signed with the signing secret', () => {
+    const adapter = new SlackAdapter({ botToken: 'xoxb-test', signingSecret: 'secret' });
+    const body = 'payload=%7B%7D';
+    const timestamp = String(now / 1000);
+    const signature = 'v0=' + crypto.createHmac('sha256', 'secret').update(`v0:${timestamp}:${body}`).digest('hex');
+
+    expect(adapter.verifyRequestSignature(body, timestamp, signature, now)).toBe(true);
+    expect(adapter.verifyRequestSignature(body + 'x', timestamp, signature, now)).toBe(false);
+    expect(adapter.verifyRequestSignature(body, timestamp, signature, now + 10 * 60 * 1000)).toBe(false);
+    expect(adapter.verifyRequestSignature(body, timestamp, null, now)).toBe(false);
+  });
+
+  it('routes events to matching channels once each', () => {
+    const rules: SlackRoutingRule[] = [
+      { id: 'r1', channelId: 'C-approvals', event: 'approval_request' },
+      { id: 'r2', channelId: 'C-support', event: 'inbox_message' },
+      { id: 'r3', channelId: 'C-x', event: 'inbox_message', platforms: [PlatformType.TWITTER], minPriority: 'high' as MessagePriority },
+      { id: 'r4', channelId: 'C-support', event: 'inbox_message', minPriority: 'low' as MessagePriority },
+      { id: 'r5', channelId: 'C-pr', event: 'crisis_alert', minRiskLevel: 'medium' }
+    ];
+
+    expect(getRoutedChannels(rules, { event: 'approval_request' })).toEqual(['C-approvals']);
+    expect(getRoutedChannels(rules, { event: 'inbox_message', platform: PlatformType.TWITTER, priority: 'urgent' as MessagePriority }))
+      .toEqual(['C-support', 'C-x']);
+    expect(getRoutedChannels(rules, { event: 'inbox_message', platform: PlatformType.LINKEDIN, priority: 'high' as MessagePriority }))
+      .toEqual(['C-support']);
+    expect(getRoutedChannels(rules, { event: 'crisis_alert', riskLevel: 'low' })).toEqual([]);
+    expect(getRoutedChannels(rules, { event: 'crisis_alert', riskLevel: 'high' })).toEqual(['C-pr']);
+  });
+
+  it('alerts on a crisis again only when it changes or has gone quiet for a while', () => {
+    const crisis: CrisisCheck = {
+      riskLevel: 'high',
+      indicators: [{ type: 'negative_spike', description: 'Negative mentions spiking', severity: 7, mentionIds: ['m1'] }]
+    };
+    const last = { riskLevel: 'high' as const, key: 'negative_spike', sentAt: now - 60 * 60 * 1000 };
+
+    expect(shouldSendCrisisAlert(undefined, crisis, now)).toBe(true);
+    expect(shouldSendCrisisAlert(last, crisis, now)).toBe(false);
+    expect(shouldSendCrisisAlert(last, { ...crisis, riskLevel: 'critical' }, now)).toBe(true);
+    expect(shouldSendCrisisAlert(last, crisis, now + 6 * 60 * 60 * 1000)).toBe(true);
+    expect(shouldSendCrisisAlert(undefined, { riskLevel: 'low', indicators: [] }, now)).toBe(false);
+  });
+
+  it('carries the content and organization on the approval buttons', () => {
+    const message = buildApprovalRequestMessage({
+      ref: { contentId: 'content-1', organizationId: 'org-1' },
+      title: 'Launch <post>',
+      text: 'Big news & more',
+      platforms: ['twitter'],
+      submittedBy: 'Sam',
+      reviewUrl: 'https://app.example.com/dashboard/content/editor?id=content-1'
+    });
+
+    const actions = message.blocks.find(block => block.type === 'actions');
+    const approve = actions.elements.find((element: any) => element.action_id === APPROVE_ACTION_ID);
+
+    expect(JSON.parse(approve.value)).toEqual({ contentId: 'content-1', organizationId: 'org-1' });
+    expect(message.blocks[1].text.text).toBe('> Big news &amp; more');
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Unit Tests: CreditService reservations
+ *
+ * Covers reserve/commit/release, replaying an idempotency key, refusing a
+ * key that was already charged, rejecting operations the balance cannot
+ * cover, and reconciliation charging a reservation whose commit failed,
+ * against an in-memory Firestore
+ */
+
+import type * as CreditServiceModule from '@/lib/features/credits/CreditService';
+
+// In-memory documents keyed by "collection/id"
+const mockDocuments = new Map<string, Record<string, any>>();
+let mockNextId = 0;
+
+jest.mock('firebase/firestore', () => {
+  const toTimestamp = (date: Date) => ({ toDate: () => date, toMillis: () => date.getTime() });
+  const toComparable = (value: any) => (value && typeof value.toMillis === 'function' ? value.toMillis() : value);
+  const snapshot = (path: string) => ({
+    id: path.split('/')[1],
+    exists: () => mockDocuments.has(path),
+    data: () => mockDocuments.get(path)
+  });
+  const write = (ref: { path: string }, data: Record<string, any>, options?: { merge?: boolean }) => {
+    mockDocuments.set(ref.path, options?.merge ? { ...mockDocuments.get(ref.path), ...data } : { ...data });
+  };
+  const update = (ref: { path: string }, data: Record<string, any>) => {
+    mockDocuments.set(ref.path, { ...mockDocuments.get(ref.path), ...data });
+  };
+  const transaction = {
+    get: async (ref: { path: string }) => snapshot(ref.path),
+    set: write,
+    update
+  };
+
+  return {
+    doc: (parent: any, collectionName?: string, id?: string) => {
+      // doc(collectionRef) allocates an id
+      const name = collectionName ?? parent.name;
+      const docId = id ?? `auto_${++mockNextId}`;
+      return { id: docId, path: `${name}/${docId}` };
+    },
+    collection: (_firestore: unknown, name: string) => ({ name }),
+    getDoc: async (ref: { path: string }) => snapshot(ref.path),
+    setDoc: async (ref: { path: string }, data: Record<string, any>, options?: { merge?: boolean }) => write(ref, data, options),
+    updateDoc: async (ref: { path: string }, data: Record<string, any>) => update(ref, data),
+    getDocs: async (ref: { name: string; filters: Array<{ field: string; op: string; value: any }> }) => {
+      const docs = Array.from(mockDocuments.keys())
+        .filter(path => path.startsWith(`${ref.name}/`))
+        .map(snapshot)
+        .filter(docSnapshot => ref.filters.every(({ field, op, value }) => {
+          const actual = toComparable(docSnapshot.data()?.[field]);
+          return op === '<=' ? actual <= toComparable(value) : actual === value;
+        }));
+      return { docs };
+    },
+    query: (ref: { name: string }, ...constraints: any[]) => ({
+      name: ref.name,
+      filters: constraints.filter(constraint => constraint?.op)
+    }),
+    where: (field: string, op: string, value: any) => ({ field, op, value }),
+    runTransaction: jest.fn(async (_firestore: unknown, run: (tx: typeof transaction) => Promise<unknown>) => run(transaction)),
+    Timestamp: {
+      fromDate: toTimestamp,
+      now: () => toTimestamp(new Date())
+    },
+    orderBy: jest.fn(),
+    limit: jest.fn(),
+    documentId: jest.fn(),
+    startAfter: jest.fn()
+  };
+});
+jest.mock('@/lib/core/firebase', () => ({
+  getFirebaseFirestore: jest.fn(() => ({}))
+}));
+jest.mock('@/lib/team/activity/audit-events', () => ({
+  recordAuditEvent: jest.fn()
+}));
+jest.mock('@/lib/core/logging/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// The singleton reads CREDIT_SYSTEM_ACTIVE when it is created
+process.env.CREDIT_SYSTEM_ACTIVE = 'true';
+const {
+  AIOperation,
+  CreditError,
+  CreditReservationStatus,
+  creditService
+} = require('@/lib/features/credits/CreditService') as typeof CreditServiceModule;
+const { runTransaction: mockRunTransaction } = jest.requireMock('firebase/firestore');
+
+const USER = 'user_1';
+const ORG = 'org_1';
+const BALANCE_PATH = `creditBalances/${USER}_${ORG}`;
+
+function storedBalance() {
+  return mockDocuments.get(BALANCE_PATH);
+}
+
+describe('CreditService reservations', () => {
+  beforeEach(async () => {
+    mockDocuments.clear();
+    mockNextId = 0;
+    await creditService.addCredits(USER, ORG, 10, 'purchase');
+  });
+
+  it('holds credits on reserve and charges them once on commit', async () => {
+    const reservation = await creditService.reserveCredits(USER, ORG, AIOperation.CONTENT_GENERATION);
+
+    expect(reservation).toEqual(expect.objectContaining({ amount: 5, metered: true, status: CreditReservationStatus.ACTIVE }));
+    expect(storedBalance()).toEqual(expect.objectContaining({ balance: 10, reserved: 5 }));
+
+    await expect(creditService.commitReservation(reservation)).resolves.toEqual({ newBalance: 5, creditsUsed: 5 });
+    await expect(creditService.commitReservation(reservation)).resolves.toEqual({ newBalance: 5, creditsUsed: 5 });
+
+    expect(storedBalance()).toEqual(expect.objectContaining({ balance: 5, reserved: 0, lifetimeSpent: 5 }));
+    expect(mockDocuments.get(`creditTransactions/${reservation.id}`)).toEqual(
+      expect.objectContaining({ type: 'deduction', amount: -5, balance: 5 })
+    );
+  });
+
+  it('returns credits on release and ignores a release after commit', async () => {
+    const released = await creditService.reserveCredits(USER, ORG, AIOperation.CONTENT_GENERATION);
+    await creditService.releaseReservation(released);
+
+    expect(storedBalance()).toEqual(expect.objectContaining({ balance: 10, reserved: 0 }));
+    expect(mockDocuments.get(`creditReservations/${released.id}`)?.status).toBe(CreditReservationStatus.RELEASED);
+    await expect(creditService.commitReservation(released)).rejects.toMatchObject({ code: 'RESERVATION_SETTLED' });
+
+    const committed = await creditService.reserveCredits(USER, ORG, AIOperation.CONTENT_GENERATION);
+    await creditService.commitReservation(committed);
+    await creditService.releaseReservation(committed);
+
+    expect(storedBalance()).toEqual(expect.objectContaining({ balance: 5, reserved: 0 }));
+  });
+
+  it('replays an idempotency key onto the same reservation', async () => {
+    const first = await creditService.reserveCredits(USER, ORG, AIOperation.CONTENT_GENERATION, { idempotencyKey: 'req-1' });
+    const replay = await creditService.reserveCredits(USER, ORG, AIOperation.CONTENT_GENERATION, { idempotencyKey: 'req-1' });
+
+    expect(replay.id).toBe(first.id);
+    expect(storedBalance()?.reserved).toBe(5);
+
+    await creditService.commitReservation(first);
+
+    await expect(
+      creditService.reserveCredits(USER, ORG, AIOperation.CONTENT_GENERATION, { idempotencyKey: 'req-1' })
+    ).rejects.toMatchObject({ code: 'IDEMPOTENCY_CONFLICT' });
+    expect(storedBalance()).toEqual(expect.objectContaining({ balance: 5, reserved: 0 }));
+    await expect(
+      creditService.reserveCredits(USER, ORG, AIOperation.CHAT_BASIC, { idempotencyKey: 'req-1' })
+    ).rejects.toMatchObject({ code: 'IDEMPOTENCY_CONFLICT' });
+  });
+
+  it('does not run an operation again for a key that was already charged', async () => {
+    const run = jest.fn().mockResolvedValue('done');
+
+    await creditService.withCredits(USER, ORG, AIOperation.CONTENT_GENERATION, run, { idempotencyKey: 'req-2' });
+    await expect(
+      creditService.withCredits(USER, ORG, AIOperation.CONTENT_GENERATION, run, { idempotencyKey: 'req-2' })
+    ).rejects.toMatchObject({ code: 'IDEMPOTENCY_CONFLICT' });
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(storedBalance()).toEqual(expect.objectContaining({ balance: 5, reserved: 0 }));
+  });
+
+  it('rejects operations the available balance cannot cover', async () => {
+    await creditService.reserveCredits(USER, ORG, AIOperation.CONTENT_GENERATION);
+    const run = jest.fn();
+
+    const error = await creditService.reserveCredits(USER, ORG, AIOperation.CHAT_COMPLEX, { quantity: 2 }).catch(e => e);
+    expect(error).toBeInstanceOf(CreditError);
+    expect(error).toMatchObject({ code: 'INSUFFICIENT_CREDITS', details: { required: 10, available: 5 } });
+
+    await expect(creditService.withCredits(USER, ORG, AIOperation.CHAT_COMPLEX, run, { quantity: 2 }))
+      .rejects.toMatchObject({ code: 'INSUFFICIENT_CREDITS' });
+    expect(run).not.toHaveBeenCalled();
+    expect(storedBalance()).toEqual(expect.objectContaining({ balance: 10, reserved: 5 }));
+  });
+
+  it('releases the reservation when the operation fails', async () => {
+    await expect(
+      creditService.withCredits(USER, ORG, AIOperation.CONTENT_GENERATION, async () => { throw new Error('provider down'); })
+    ).rejects.toThrow('provider down');
+
+    expect(storedBalance()).toEqual(expect.objectContaining({ balance: 10, reserved: 0 }));
+  });
+
+  it('retries a failed commit', async () => {
+    const outcome = await creditService.withCredits(USER, ORG, AIOperation.CONTENT_GENERATION, async () => {
+      mockRunTransaction.mockRejectedValueOnce(new Error('unavailable'));
+      return 'done';
+    });
+
+    expect(outcome).toEqual({ result: 'done', creditsUsed: 5, newBalance: 5 });
+    expect(storedBalance()).toEqual(expect.objectContaining({ balance: 5, reserved: 0 }));
+  });
+
+  it('leaves a commit that keeps failing for reconciliation to charge', async () => {
+    const outcome = await creditService.withCredits(
+      USER,
+      ORG,
+      AIOperation.CONTENT_GENERATION,
+      async () => {
+        mockRunTransaction
+          .mockRejectedValueOnce(new Error('unavailable'))
+          .mockRejectedValueOnce(new Error('unavailable'))
+          .mockRejectedValueOnce(new Error('unavailable'));
+        return 'done';
+      },
+      { describe: () => ({ model: 'test-model' }) }
+    );
+
+    expect(outcome).toEqual({ result: 'done', creditsUsed: 5, newBalance: 0 });
+    const [reservationPath] = Array.from(mockDocuments.keys()).filter(path => path.startsWith('creditReservations/'));
+    expect(mockDocuments.get(reservationPath)).toEqual(
+      expect.objectContaining({ status: CreditReservationStatus.ACTIVE, commitPending: true })
+    );
+
+    // Let the reservation expire
+    const reservation = mockDocuments.get(reservationPath)!;
+    mockDocuments.set(reservationPath, { ...reservation, expiresAt: { toDate: () => new Date(0), toMillis: () => 0 } });
+
+    const result = await creditService.reconcileBalances();
+
+    expect(result).toEqual({ checked: 1, mismatched: 0, expiredReservations: 0, committedReservations: 1 });
+    expect(mockDocuments.get(reservationPath)?.status).toBe(CreditReservationStatus.COMMITTED);
+    expect(storedBalance()).toEqual(expect.objectContaining({ balance: 5, reserved: 0 }));
+    expect(mockDocuments.get(`creditTransactions/${reservationPath.split('/')[1]}`)?.metadata).toEqual({ model: 'test-model' });
+  });
+
+  it('expires reservations that were never committed or released', async () => {
+    const reservation = await creditService.reserveCredits(USER, ORG, AIOperation.CONTENT_GENERATION);
+    const reservationPath = `creditReservations/${reservation.id}`;
+    mockDocuments.set(reservationPath, {
+      ...mockDocuments.get(reservationPath),
+      expiresAt: { toDate: () => new Date(0), toMillis: () => 0 }
+    });
+
+    const result = await creditService.reconcileBalances();
+
+    expect(result).toEqual(expect.objectContaining({ expiredReservations: 1, committedReservations: 0 }));
+    expect(mockDocuments.get(reservationPath)?.status).toBe(CreditReservationStatus.EXPIRED);
+    expect(storedBalance()).toEqual(expect.objectContaining({ balance: 10, reserved: 0 }));
+  });
+});
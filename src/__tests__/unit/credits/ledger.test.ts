@@ -0,0 +1,36 @@
+/**
+ * Unit Tests: Credit ledger
+ *
+ * Covers idempotency key ids and recomputing balances from transaction history
+ */
+
+import { findLedgerMismatches, getLedgerEntryId, summarizeLedger } from '@/lib/features/credits/ledger';
+
+describe('credit ledger', () => {
+  it('derives stable, scoped ids from idempotency keys', () => {
+    const id = getLedgerEntryId('reservation', 'user-1', 'org-1', 'req-42');
+
+    expect(getLedgerEntryId('reservation', 'user-1', 'org-1', 'req-42')).toBe(id);
+    expect(getLedgerEntryId('credit', 'user-1', 'org-1', 'req-42')).not.toBe(id);
+    expect(getLedgerEntryId('reservation', 'user-2', 'org-1', 'req-42')).not.toBe(id);
+  });
+
+  it('recomputes balances and lifetime totals from transactions', () => {
+    expect(summarizeLedger([{ amount: 500 }, { amount: -5 }, { amount: -1 }, { amount: 100 }])).toEqual({
+      balance: 594,
+      lifetimeEarned: 600,
+      lifetimeSpent: 6,
+    });
+    expect(summarizeLedger([])).toEqual({ balance: 0, lifetimeEarned: 0, lifetimeSpent: 0 });
+  });
+
+  it('reports only the fields that drifted', () => {
+    const expected = { balance: 594, reserved: 5, lifetimeEarned: 600, lifetimeSpent: 6 };
+
+    expect(findLedgerMismatches({ ...expected }, expected)).toEqual([]);
+    expect(findLedgerMismatches({ ...expected, balance: 589, reserved: 0 }, expected)).toEqual([
+      { field: 'balance', stored: 589, expected: 594 },
+      { field: 'reserved', stored: 0, expected: 5 },
+    ]);
+  });
+});
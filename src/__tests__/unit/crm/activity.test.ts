@@ -0,0 +1,62 @@
+/**
+ * Unit Tests: CRM activities
+ *
+ * Covers building activities from social engagement, lead qualification and
+ * recognising our own write-backs on the next pull
+ */
+
+import { ActivityUtils, SocialEngagementType } from '@/lib/features/crm/models/Activity';
+import { FieldMapper } from '@/lib/features/crm/utils/FieldMapper';
+import { CRMPlatform } from '@/lib/features/crm/types';
+
+describe('ActivityUtils', () => {
+  const engagement = {
+    type: SocialEngagementType.CONVERSION,
+    organizationId: 'org_1',
+    sourceId: 'conv_1',
+    identity: { email: 'ada@example.com', network: 'twitter' },
+    occurredAt: new Date('2026-03-04T10:15:00Z'),
+    summary: 'purchase conversion from twitter',
+    value: 49,
+    currency: 'USD'
+  };
+
+  it('builds an activity and maps it to each CRM', () => {
+    const activity = ActivityUtils.fromEngagement(engagement);
+
+    expect(activity.subject).toBe('IriSync: Conversion on twitter');
+    expect(activity.body).toBe('purchase conversion from twitter\n\nValue: 49 USD');
+    expect(activity.occurredOn).toBe('2026-03-04');
+
+    expect(FieldMapper.mapActivityToPlatform(activity, CRMPlatform.HUBSPOT)).toEqual({
+      properties: { hs_note_body: activity.body, hs_timestamp: activity.occurredAt }
+    });
+    expect(FieldMapper.mapActivityToPlatform(activity, CRMPlatform.SALESFORCE)).toEqual({
+      Subject: activity.subject,
+      Description: activity.body,
+      ActivityDate: '2026-03-04'
+    });
+  });
+
+  it('qualifies conversations by label or buying intent', () => {
+    expect(ActivityUtils.qualifiesAsLead({ content: 'thanks!', labels: ['Lead'] })).toBe(true);
+    expect(ActivityUtils.qualifiesAsLead({ content: 'Do you offer a free trial?' })).toBe(true);
+    expect(ActivityUtils.qualifiesAsLead({ content: 'Stop trying to sell me a demo', sentiment: 'negative' })).toBe(false);
+    expect(ActivityUtils.qualifiesAsLead({ content: 'Love this post' })).toBe(false);
+  });
+
+  it('normalizes handles and profile URLs', () => {
+    expect(ActivityUtils.normalizeHandle('@IriSync')).toBe('irisync');
+    expect(ActivityUtils.normalizeHandle('https://twitter.com/IriSync/?ref=x')).toBe('irisync');
+    expect(ActivityUtils.normalizeHandle('  ')).toBeUndefined();
+  });
+
+  it('treats remote changes shortly after a push as echoes', () => {
+    const pushedAt = new Date('2026-03-04T10:00:00Z');
+
+    expect(ActivityUtils.isSyncEcho(pushedAt, new Date('2026-03-04T10:02:00Z'))).toBe(true);
+    expect(ActivityUtils.isSyncEcho(pushedAt, new Date('2026-03-04T09:59:30Z'))).toBe(true);
+    expect(ActivityUtils.isSyncEcho(pushedAt, new Date('2026-03-04T11:00:00Z'))).toBe(false);
+    expect(ActivityUtils.isSyncEcho(undefined, new Date())).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit Tests: CRM incremental sync
+ *
+ * Covers advancing sync watermarks across runs and settling queued conflicts
+ */
+
+import { SyncWatermarkUtils } from '@/lib/features/crm/utils/SyncWatermark';
+import { SyncConflictUtils } from '@/lib/features/crm/models/SyncConflict';
+import { CRMPlatform } from '@/lib/features/crm/types';
+
+describe('SyncWatermarkUtils', () => {
+  const now = new Date('2026-05-01T12:00:00Z');
+  const t1 = new Date('2026-05-01T09:00:00Z');
+  const t2 = new Date('2026-05-01T10:00:00Z');
+
+  it('moves modifiedSince to the latest change once a pass completes', () => {
+    const watermark = SyncWatermarkUtils.advance(undefined, { latestModifiedAt: t1, failed: false }, now);
+
+    expect(watermark).toEqual({ modifiedSince: t1, updatedAt: now });
+  });
+
+  it('keeps the pass open across runs and carries its high water', () => {
+    const first = SyncWatermarkUtils.advance(
+      { modifiedSince: t1, updatedAt: now },
+      { latestModifiedAt: t2, nextCursor: 'page-2', failed: false },
+      now
+    );
+    expect(first).toEqual({ modifiedSince: t1, cursor: 'page-2', highWater: t2, updatedAt: now });
+
+    const second = SyncWatermarkUtils.advance(first, { latestModifiedAt: undefined, failed: false }, now);
+    expect(second).toEqual({ modifiedSince: t2, updatedAt: now });
+  });
+
+  it('restarts the pass when a record failed', () => {
+    const watermark = SyncWatermarkUtils.advance(
+      { modifiedSince: t1, cursor: 'page-2', highWater: t2, updatedAt: now },
+      { latestModifiedAt: new Date('2026-05-01T11:00:00Z'), failed: true },
+      now
+    );
+
+    expect(watermark).toEqual({ modifiedSince: t1, updatedAt: now });
+  });
+
+  it('reads the latest valid modification time', () => {
+    const records = [{ modified: '2026-05-01T09:00:00Z' }, { modified: 'not a date' }, { modified: t2.toISOString() }, {}];
+
+    expect(SyncWatermarkUtils.latestModifiedAt(records, record => record.modified)).toEqual(t2);
+    expect(SyncWatermarkUtils.latestModifiedAt([], record => record.modified)).toBeUndefined();
+  });
+});
+
+describe('SyncConflictUtils', () => {
+  const entry = {
+    platform: CRMPlatform.HUBSPOT,
+    conflicts: [
+      { field: 'email', sourceValue: 'ada@crm.example', targetValue: 'ada@example.com', conflictType: 'value_mismatch' as const },
+      { field: 'phone', sourceValue: null, targetValue: '555-0100', conflictType: 'missing_source' as const }
+    ]
+  };
+
+  it('takes every value from one side', () => {
+    expect(SyncConflictUtils.resolvedValues(entry, 'accept_source')).toEqual({ email: 'ada@crm.example', phone: null });
+    expect(SyncConflictUtils.resolvedValues(entry, 'accept_target')).toEqual({ email: 'ada@example.com', phone: '555-0100' });
+  });
+
+  it('merges chosen fields and keeps ours for the rest', () => {
+    expect(SyncConflictUtils.resolvedValues(entry, 'merge', { email: 'ada@crm.example' })).toEqual({
+      email: 'ada@crm.example',
+      phone: '555-0100'
+    });
+    expect(() => SyncConflictUtils.resolvedValues(entry, 'merge', { company: 'Acme' })).toThrow('Fields not in conflict: company');
+  });
+});
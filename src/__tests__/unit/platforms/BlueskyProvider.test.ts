@@ -0,0 +1,75 @@
+/**
+ * Unit Tests: Bluesky provider sessions
+ *
+ * Covers the app password session and the PDS host checks
+ */
+
+import axios from 'axios';
+import { BlueskyProvider } from '@/lib/features/platforms/providers/BlueskyProvider';
+import { UnsafeDestinationError } from '@/lib/core/security/network';
+
+jest.mock('axios');
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'test-id')
+}));
+jest.mock('@/lib/core/logging/logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+function createProvider(baseUrl: string): BlueskyProvider {
+  return new BlueskyProvider({ clientId: '', clientSecret: '', redirectUri: '', baseUrl });
+}
+
+function sessionResponse(serviceEndpoint: string) {
+  return {
+    data: {
+      did: 'did:plc:alice',
+      handle: 'alice.bsky.social',
+      accessJwt: `header.${Buffer.from(JSON.stringify({ exp: 2000000000 })).toString('base64')}.signature`,
+      refreshJwt: 'refresh',
+      didDoc: { service: [{ id: '#atproto_pds', serviceEndpoint }] }
+    }
+  };
+}
+
+describe('BlueskyProvider sessions', () => {
+  beforeEach(() => {
+    mockedAxios.post.mockReset();
+  });
+
+  it('has no authorization redirect', async () => {
+    await expect(createProvider('https://8.8.8.8').getAuthorizationUrl('state')).rejects.toThrow('app password');
+    await expect(createProvider('https://8.8.8.8').exchangeCodeForToken('code')).rejects.toThrow('app password');
+  });
+
+  it('refuses a PDS on a private or plain http host before sending credentials', async () => {
+    await expect(createProvider('https://169.254.169.254').createSession('alice', 'app-password'))
+      .rejects.toBeInstanceOf(UnsafeDestinationError);
+    await expect(createProvider('http://8.8.8.8').createSession('alice', 'app-password'))
+      .rejects.toMatchObject({ code: 'protocol_not_allowed' });
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+  });
+
+  it('uses the PDS from the DID document when it is public', async () => {
+    mockedAxios.post.mockResolvedValue(sessionResponse('https://1.1.1.1'));
+
+    const authState = await createProvider('https://8.8.8.8').createSession('alice', 'app-password');
+
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'https://8.8.8.8/xrpc/com.atproto.server.createSession',
+      { identifier: 'alice', password: 'app-password' },
+      expect.objectContaining({ httpsAgent: expect.anything() })
+    );
+    expect(authState.additionalData?.serviceUrl).toBe('https://1.1.1.1');
+    expect(authState.expiresAt).toBe(2000000000);
+  });
+
+  it('rejects a session whose DID document points at a private PDS', async () => {
+    mockedAxios.post.mockResolvedValue(sessionResponse('https://10.0.0.5'));
+
+    await expect(createProvider('https://8.8.8.8').createSession('alice', 'app-password'))
+      .rejects.toMatchObject({ code: 'private_address' });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Unit Tests: Google Business Profile posts
+ *
+ * Covers post type validation, which runs before any API call
+ */
+
+import {
+  GoogleBusinessPostType,
+  GoogleBusinessProvider,
+  getStarRating
+} from '@/lib/features/platforms/providers/GoogleBusinessProvider';
+import { PlatformType } from '@/lib/features/platforms/PlatformProvider';
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'test-id')
+}));
+
+describe('GoogleBusinessProvider', () => {
+  const provider = new GoogleBusinessProvider(
+    { clientId: 'client', clientSecret: 'secret', redirectUri: 'https://example.com/callback' },
+    {
+      accessToken: 'token',
+      expiresAt: Math.floor(Date.now() / 1000) + 3600,
+      additionalData: { accountName: 'accounts/1', locationName: 'locations/2' }
+    }
+  );
+  const schedule = { publishAt: new Date('2026-11-01T10:00:00Z'), timezone: 'UTC' };
+
+  it('accepts a What\'s New post with a link button', async () => {
+    const response = await provider.schedulePost({
+      platformType: PlatformType.GOOGLE_BUSINESS,
+      content: 'Fresh bread every morning',
+      links: ['https://example.com/menu']
+    }, schedule);
+
+    expect(response.status).toBe('scheduled');
+  });
+
+  it('requires a schedule for events and offers', async () => {
+    await expect(provider.schedulePost({
+      platformType: PlatformType.GOOGLE_BUSINESS,
+      content: '20% off this weekend',
+      title: 'Weekend sale',
+      platformSpecificParams: { postType: GoogleBusinessPostType.OFFER }
+    }, schedule)).rejects.toThrow('offer posts require a title and schedule');
+  });
+
+  it('rejects malformed event dates', async () => {
+    await expect(provider.schedulePost({
+      platformType: PlatformType.GOOGLE_BUSINESS,
+      content: 'Live music',
+      platformSpecificParams: {
+        postType: GoogleBusinessPostType.EVENT,
+        event: { title: 'Jazz night', startDate: '11/01/2026', endDate: '2026-11-01' }
+      }
+    }, schedule)).rejects.toThrow('invalid date');
+  });
+
+  it('converts star ratings', () => {
+    expect(getStarRating({ starRating: 'FOUR' })).toBe(4);
+    expect(getStarRating({ starRating: 'STAR_RATING_UNSPECIFIED' })).toBe(0);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Unit Tests: Bluesky rich text
+ *
+ * Covers grapheme counting and facet byte offsets
+ */
+
+import {
+  buildFacets,
+  countGraphemes,
+  detectRichTextSegments
+} from '@/lib/features/platforms/utils/bluesky-richtext';
+
+describe('Bluesky rich text', () => {
+  it('counts emoji as single graphemes', () => {
+    expect(countGraphemes('hi 👋🏽')).toBe(4);
+  });
+
+  it('uses UTF-8 byte offsets for facets', () => {
+    const text = 'café @alice.bsky.social #launch';
+    const segments = detectRichTextSegments(text);
+
+    expect(segments).toEqual([
+      { type: 'mention', value: 'alice.bsky.social', byteStart: 6, byteEnd: 24 },
+      { type: 'tag', value: 'launch', byteStart: 25, byteEnd: 32 }
+    ]);
+  });
+
+  it('ignores fragments and trailing punctuation in links', () => {
+    const segments = detectRichTextSegments('See https://example.com/page#intro.');
+
+    expect(segments).toEqual([
+      { type: 'link', value: 'https://example.com/page#intro', byteStart: 4, byteEnd: 34 }
+    ]);
+  });
+
+  it('leaves unresolved mentions as plain text', async () => {
+    const facets = await buildFacets('@ghost.example and @bob.bsky.social', async handle =>
+      handle === 'bob.bsky.social' ? 'did:plc:bob' : null
+    );
+
+    expect(facets).toEqual([
+      {
+        index: { byteStart: 19, byteEnd: 35 },
+        features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:bob' }]
+      }
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit Tests: Platform rate limiter
+ *
+ * Covers header parsing and budgets, using the in-memory store
+ */
+
+import {
+  parseRateLimitHeaders,
+  recordRateLimitHeaders,
+  getRateLimitBudget,
+  checkRateLimit,
+  resetRateLimit
+} from '@/lib/features/platforms/utils/rate-limiter';
+import { PlatformType } from '@/lib/features/platforms/PlatformProvider';
+
+describe('parseRateLimitHeaders', () => {
+  const now = Date.UTC(2026, 0, 1);
+
+  it('reads X headers with an epoch reset', () => {
+    const [observation] = parseRateLimitHeaders({
+      'x-rate-limit-limit': '100',
+      'x-rate-limit-remaining': '0',
+      'x-rate-limit-reset': String(now / 1000 + 900)
+    }, now);
+
+    expect(observation).toEqual({ scope: 'account', limit: 100, remaining: 0, resetAt: now + 900000 });
+  });
+
+  it('reads Mastodon ISO resets and retry-after', () => {
+    const observations = parseRateLimitHeaders({
+      'x-ratelimit-limit': '300',
+      'x-ratelimit-remaining': '299',
+      'x-ratelimit-reset': '2026-01-01T00:05:00.000Z',
+      'retry-after': '30'
+    }, now);
+
+    expect(observations[0].resetAt).toBe(now + 5 * 60000);
+    expect(observations[1]).toEqual({ scope: 'account', blockedUntil: now + 30000 });
+  });
+
+  it('turns Meta app usage into an app-wide budget', () => {
+    const [observation] = parseRateLimitHeaders({
+      'x-app-usage': JSON.stringify({ call_count: 80, total_cputime: 95, total_time: 10 })
+    }, now);
+
+    expect(observation.scope).toBe('app');
+    expect(observation.remaining).toBe(5);
+  });
+});
+
+describe('getRateLimitBudget', () => {
+  afterEach(() => resetRateLimit(PlatformType.TWITTER, 'account-1'));
+
+  it('is limited once learned headers show no remaining requests', async () => {
+    const resetAt = Math.floor(Date.now() / 1000) + 600;
+
+    await recordRateLimitHeaders(PlatformType.TWITTER, 'account-1', {
+      'x-rate-limit-limit': '100',
+      'x-rate-limit-remaining': '0',
+      'x-rate-limit-reset': String(resetAt)
+    }, 'POST_tweets');
+
+    const budget = await getRateLimitBudget(PlatformType.TWITTER, 'account-1', 'POST_tweets');
+
+    expect(budget.isLimited).toBe(true);
+    expect(budget.retryAt?.getTime()).toBe(resetAt * 1000);
+    expect(await checkRateLimit(PlatformType.TWITTER, 'account-1', 'POST_tweets')).toBe(false);
+
+    // Other endpoints keep their own window
+    expect((await getRateLimitBudget(PlatformType.TWITTER, 'account-1', 'GET_users_tweets')).isLimited).toBe(false);
+  });
+});
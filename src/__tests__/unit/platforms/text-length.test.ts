@@ -0,0 +1,59 @@
+/**
+ * Unit Tests: Platform text length
+ *
+ * Covers per-platform character counting and thread splitting
+ */
+
+import { countCharacters, splitIntoThread } from '@/lib/features/platforms/utils/text-length';
+import { formatPostForPlatform } from '@/lib/features/platforms/utils/content-formatter';
+import { PlatformType } from '@/lib/features/platforms/PlatformProvider';
+
+describe('countCharacters', () => {
+  it('weights URLs, emoji and CJK text on X', () => {
+    expect(countCharacters('Read https://example.com/a/very/long/path/to/an/article', PlatformType.TWITTER).length).toBe(5 + 23);
+    expect(countCharacters('👍🏽', PlatformType.TWITTER).length).toBe(2);
+    expect(countCharacters('日本語', PlatformType.TWITTER).length).toBe(6);
+  });
+
+  it('counts graphemes on Bluesky', () => {
+    expect(countCharacters('👨‍👩‍👧 family', PlatformType.BLUESKY).length).toBe(8);
+  });
+
+  it('counts remote mentions by username on Mastodon', () => {
+    expect(countCharacters('hi @alice@mastodon.social', PlatformType.MASTODON).length).toBe(9);
+  });
+
+  it('reports where the text overflows', () => {
+    const text = 'a'.repeat(279) + '日本';
+    const count = countCharacters(text, PlatformType.TWITTER);
+
+    expect(count.isValid).toBe(false);
+    expect(count.remaining).toBe(-3);
+    expect(count.overflowIndex).toBe(279);
+  });
+});
+
+describe('splitIntoThread', () => {
+  const sentence = 'This sentence is exactly sixty characters long, give or take. ';
+
+  it('splits at sentence boundaries and numbers the parts', () => {
+    const parts = splitIntoThread(sentence.repeat(8), PlatformType.TWITTER);
+
+    expect(parts).toHaveLength(2);
+    parts.forEach((part, i) => {
+      expect(part.endsWith(`take. (${i + 1}/2)`)).toBe(true);
+      expect(countCharacters(part, PlatformType.TWITTER).isValid).toBe(true);
+    });
+  });
+
+  it('threads formatted posts only when the platform supports threads', () => {
+    const post = { platformType: PlatformType.TWITTER, content: sentence.repeat(8) };
+    const threaded = formatPostForPlatform(post, { supportsThreads: true } as any);
+    const truncated = formatPostForPlatform(post);
+
+    expect(threaded.isThreaded).toBe(true);
+    expect(threaded.platformSpecificParams?.threadParts).toHaveLength(1);
+    expect(truncated.isThreaded).toBeUndefined();
+    expect(truncated.content.endsWith('...')).toBe(true);
+  });
+});
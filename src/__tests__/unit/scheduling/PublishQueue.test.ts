@@ -0,0 +1,219 @@
+/**
+ * Unit Tests: PublishQueue
+ *
+ * Covers error classification, backoff, idempotency keys, and leases, retries,
+ * dead letters and re-drive against an in-memory Firestore
+ */
+
+import {
+  PublishErrorClass,
+  PublishQueue,
+  RETRY_POLICIES,
+  classifyPublishError,
+  computeBackoffDelay,
+  buildPublishKey
+} from '@/lib/features/scheduling/PublishQueue';
+
+// In-memory documents keyed by "collection/id"
+const mockDocuments = new Map<string, Record<string, any>>();
+
+jest.mock('firebase/firestore', () => {
+  const toTimestamp = (date: Date) => ({ toDate: () => date, toMillis: () => date.getTime() });
+  const snapshot = (ref: { path: string }) => ({
+    exists: () => mockDocuments.has(ref.path),
+    data: () => mockDocuments.get(ref.path)
+  });
+  const transaction = {
+    get: async (ref: { path: string }) => snapshot(ref),
+    set: (ref: { path: string }, data: Record<string, any>, options?: { merge?: boolean }) => {
+      mockDocuments.set(ref.path, options?.merge ? { ...mockDocuments.get(ref.path), ...data } : { ...data });
+    },
+    update: (ref: { path: string }, data: Record<string, any>) => {
+      mockDocuments.set(ref.path, { ...mockDocuments.get(ref.path), ...data });
+    }
+  };
+
+  return {
+    doc: (_firestore: unknown, collectionName: string, id: string) => ({ path: `${collectionName}/${id}` }),
+    getDoc: async (ref: { path: string }) => snapshot(ref),
+    deleteDoc: async (ref: { path: string }) => { mockDocuments.delete(ref.path); },
+    runTransaction: async (_firestore: unknown, update: (tx: typeof transaction) => Promise<unknown>) => update(transaction),
+    serverTimestamp: () => toTimestamp(new Date()),
+    Timestamp: { fromDate: toTimestamp },
+    collection: jest.fn(),
+    getDocs: jest.fn(),
+    query: jest.fn(),
+    where: jest.fn(),
+    orderBy: jest.fn(),
+    limit: jest.fn()
+  };
+});
+jest.mock('@/lib/core/firebase', () => ({
+  getFirebaseFirestore: jest.fn(() => ({}))
+}));
+jest.mock('@/lib/core/logging/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('PublishQueue retry policy', () => {
+  describe('classifyPublishError', () => {
+    it('should classify HTTP 429 as rate limit', () => {
+      const error = Object.assign(new Error('Request failed'), { response: { status: 429 } });
+      expect(classifyPublishError(error)).toBe(PublishErrorClass.RATE_LIMIT);
+    });
+
+    it('should classify expired tokens as auth expired', () => {
+      expect(classifyPublishError(new Error('Access token expired'))).toBe(PublishErrorClass.AUTH_EXPIRED);
+      expect(classifyPublishError({ status: 401 })).toBe(PublishErrorClass.AUTH_EXPIRED);
+    });
+
+    it('should classify rejected content as validation', () => {
+      expect(classifyPublishError(new Error('Tweet text is too long'))).toBe(PublishErrorClass.VALIDATION);
+      expect(classifyPublishError({ response: { status: 422 } })).toBe(PublishErrorClass.VALIDATION);
+    });
+
+    it('should classify server and network errors as transient', () => {
+      expect(classifyPublishError({ response: { status: 503 } })).toBe(PublishErrorClass.TRANSIENT);
+      expect(classifyPublishError(new Error('socket hang up'))).toBe(PublishErrorClass.TRANSIENT);
+    });
+
+    it('should fall back to unknown', () => {
+      expect(classifyPublishError(new Error('Something odd happened'))).toBe(PublishErrorClass.UNKNOWN);
+    });
+  });
+
+  describe('computeBackoffDelay', () => {
+    it('should grow exponentially with the attempt number', () => {
+      const first = computeBackoffDelay(PublishErrorClass.TRANSIENT, 1, () => 1);
+      const second = computeBackoffDelay(PublishErrorClass.TRANSIENT, 2, () => 1);
+
+      expect(first).toBe(RETRY_POLICIES[PublishErrorClass.TRANSIENT].baseDelayMs);
+      expect(second).toBe(first * 2);
+    });
+
+    it('should cap the delay at the policy maximum', () => {
+      const delay = computeBackoffDelay(PublishErrorClass.RATE_LIMIT, 20, () => 1);
+      expect(delay).toBe(RETRY_POLICIES[PublishErrorClass.RATE_LIMIT].maxDelayMs);
+    });
+
+    it('should keep at least half of the delay when jittered', () => {
+      const delay = computeBackoffDelay(PublishErrorClass.TRANSIENT, 1, () => 0);
+      expect(delay).toBe(RETRY_POLICIES[PublishErrorClass.TRANSIENT].baseDelayMs / 2);
+    });
+  });
+
+  it('should not retry validation errors', () => {
+    expect(RETRY_POLICIES[PublishErrorClass.VALIDATION].retryable).toBe(false);
+  });
+
+  it('should build stable publish keys per post and account', () => {
+    expect(buildPublishKey('post_1', 'account_1')).toBe('post_1:account_1');
+  });
+});
+
+describe('PublishQueue leases', () => {
+  const queue = new PublishQueue();
+  const now = new Date('2026-10-01T12:00:00Z');
+  const leaseMs = 5 * 60 * 1000;
+  const later = (ms: number) => new Date(now.getTime() + ms);
+
+  beforeEach(async () => {
+    mockDocuments.clear();
+    await queue.enqueue('post_1', now);
+  });
+
+  it('should lease a due entry to one owner at a time', async () => {
+    const lease = await queue.acquireLease('post_1', 'worker_a', leaseMs, now);
+
+    expect(lease).toMatchObject({ status: 'leased', leaseOwner: 'worker_a', leaseExpiresAt: later(leaseMs) });
+    expect(await queue.acquireLease('post_1', 'worker_b', leaseMs, later(1000))).toBeNull();
+  });
+
+  it('should not lease an entry before it is due', async () => {
+    expect(await queue.acquireLease('post_1', 'worker_a', leaseMs, new Date(now.getTime() - 1000))).toBeNull();
+  });
+
+  it('should let another owner take over an expired lease', async () => {
+    await queue.acquireLease('post_1', 'worker_a', leaseMs, now);
+
+    const takeover = await queue.acquireLease('post_1', 'worker_b', leaseMs, later(leaseMs + 1000));
+
+    expect(takeover?.leaseOwner).toBe('worker_b');
+    await expect(queue.complete('post_1', 'worker_a')).rejects.toThrow('Publish lease lost');
+  });
+
+  it('should release the lease and count the attempt when scheduling a retry', async () => {
+    await queue.acquireLease('post_1', 'worker_a', leaseMs, now);
+
+    const retryAt = await queue.scheduleRetry('post_1', 'worker_a', 'Service unavailable', PublishErrorClass.TRANSIENT, 60000, now);
+    const entry = await queue.getEntry('post_1');
+
+    expect(retryAt).toEqual(later(60000));
+    expect(entry).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      availableAt: retryAt,
+      leaseOwner: undefined,
+      lastErrorClass: PublishErrorClass.TRANSIENT
+    });
+    expect(await queue.acquireLease('post_1', 'worker_b', leaseMs, later(30000))).toBeNull();
+    expect(await queue.acquireLease('post_1', 'worker_b', leaseMs, retryAt)).not.toBeNull();
+  });
+
+  it('should refuse to schedule a retry without the lease', async () => {
+    await queue.acquireLease('post_1', 'worker_a', leaseMs, now);
+
+    await expect(
+      queue.scheduleRetry('post_1', 'worker_b', 'Service unavailable', PublishErrorClass.TRANSIENT, 60000, now)
+    ).rejects.toThrow('Publish lease lost');
+  });
+
+  it('should dead-letter an entry and re-drive it once', async () => {
+    await queue.acquireLease('post_1', 'worker_a', leaseMs, now);
+    await queue.deadLetter('worker_a', {
+      postId: 'post_1',
+      userId: 'user_1',
+      organizationId: 'org_1',
+      platformType: 'twitter',
+      attempts: 5,
+      error: 'Tweet text is too long',
+      errorClass: PublishErrorClass.VALIDATION
+    });
+
+    expect((await queue.getEntry('post_1'))?.status).toBe('dead');
+    expect(mockDocuments.get('publishDeadLetters/post_1')).toMatchObject({ errorClass: PublishErrorClass.VALIDATION, redrivenAt: null });
+    expect(await queue.acquireLease('post_1', 'worker_a', leaseMs, later(leaseMs * 2))).toBeNull();
+
+    expect(await queue.redrive('post_1', later(leaseMs * 2))).toBe(true);
+    expect(await queue.redrive('post_1', later(leaseMs * 2))).toBe(false);
+    expect(await queue.getEntry('post_1')).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(await queue.acquireLease('post_1', 'worker_b', leaseMs, later(leaseMs * 2))).not.toBeNull();
+  });
+
+  it('should not dead-letter an entry leased by someone else', async () => {
+    await queue.acquireLease('post_1', 'worker_a', leaseMs, now);
+
+    await expect(queue.deadLetter('worker_b', {
+      postId: 'post_1',
+      userId: 'user_1',
+      organizationId: 'org_1',
+      platformType: 'twitter',
+      attempts: 1,
+      error: 'Tweet text is too long',
+      errorClass: PublishErrorClass.VALIDATION
+    })).rejects.toThrow('Publish lease lost');
+    expect(mockDocuments.has('publishDeadLetters/post_1')).toBe(false);
+  });
+
+  it('should fail instead of reporting an empty queue when the query fails', async () => {
+    const { getDocs } = jest.requireMock('firebase/firestore');
+    getDocs.mockRejectedValueOnce(new Error('FAILED_PRECONDITION: The query requires an index'));
+
+    await expect(queue.getAvailablePostIds(now)).rejects.toThrow('FAILED_PRECONDITION');
+  });
+});
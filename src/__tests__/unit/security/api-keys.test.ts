@@ -0,0 +1,107 @@
+/**
+ * Unit Tests: API keys and the public API
+ *
+ * Covers scope checks, the viewer downgrade, the v1 request schemas and the
+ * generated OpenAPI document
+ */
+
+import { getEffectiveScopes, isApiKeyScope, API_KEY_SCOPES, ApiKeyScope } from '@/lib/api-keys/scopes';
+import { buildOpenApiDocument } from '@/lib/public-api/openapi';
+import { ApiCalendarQuerySchema, ApiCreateScheduledPostSchema, ApiUpdateScheduledPostSchema } from '@/lib/validation/schemas';
+import { OrganizationRole } from '@/lib/team/users/organization';
+
+jest.mock('firebase-admin/firestore', () => ({}));
+jest.mock('@/lib/core/firebase/admin', () => ({
+  getFirestore: jest.fn(),
+  getAuth: jest.fn()
+}));
+
+describe('isApiKeyScope', () => {
+  it('accepts known scopes only', () => {
+    expect(isApiKeyScope('posts:read')).toBe(true);
+    expect(isApiKeyScope('analytics:read')).toBe(true);
+    expect(isApiKeyScope('posts:admin')).toBe(false);
+    expect(isApiKeyScope('toString')).toBe(false);
+    expect(isApiKeyScope(undefined)).toBe(false);
+  });
+});
+
+describe('getEffectiveScopes', () => {
+  const scopes: ApiKeyScope[] = ['posts:read', 'posts:write', 'media:write', 'inbox:read'];
+
+  it('keeps every scope for members and admins', () => {
+    expect(getEffectiveScopes(scopes, OrganizationRole.MEMBER)).toEqual(scopes);
+    expect(getEffectiveScopes(scopes, OrganizationRole.ADMIN)).toEqual(scopes);
+  });
+
+  it('keeps only read scopes for viewers', () => {
+    expect(getEffectiveScopes(scopes, OrganizationRole.VIEWER)).toEqual(['posts:read', 'inbox:read']);
+  });
+});
+
+describe('public API schemas', () => {
+  it('defaults optional fields when scheduling a post', () => {
+    const post = ApiCreateScheduledPostSchema.parse({
+      content: 'Hello',
+      scheduledAt: '2026-11-01T10:00:00Z',
+      platforms: ['twitter']
+    });
+
+    expect(post.mediaIds).toEqual([]);
+    expect(post.timezone).toBe('UTC');
+  });
+
+  it('rejects unknown platforms', () => {
+    const result = ApiCreateScheduledPostSchema.safeParse({
+      content: 'Hello',
+      scheduledAt: '2026-11-01T10:00:00Z',
+      platforms: ['myspace']
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects empty updates', () => {
+    expect(ApiUpdateScheduledPostSchema.safeParse({}).success).toBe(false);
+    expect(ApiUpdateScheduledPostSchema.safeParse({ content: 'Updated' }).success).toBe(true);
+  });
+
+  it('limits calendar ranges to 92 days', () => {
+    expect(ApiCalendarQuerySchema.safeParse({ from: '2026-01-01T00:00:00Z', to: '2026-03-01T00:00:00Z' }).success).toBe(true);
+    expect(ApiCalendarQuerySchema.safeParse({ from: '2026-01-01T00:00:00Z', to: '2026-06-01T00:00:00Z' }).success).toBe(false);
+    expect(ApiCalendarQuerySchema.safeParse({ from: '2026-03-01T00:00:00Z', to: '2026-01-01T00:00:00Z' }).success).toBe(false);
+  });
+});
+
+describe('buildOpenApiDocument', () => {
+  const document = buildOpenApiDocument('https://app.example.com/api/v1');
+
+  it('describes every route with its scope and error responses', () => {
+    expect(document.servers).toEqual([{ url: 'https://app.example.com/api/v1' }]);
+    expect(Object.keys(document.paths)).toEqual(
+      expect.arrayContaining(['/posts', '/posts/{id}', '/media', '/calendar', '/inbox/messages', '/analytics'])
+    );
+
+    const createPost = document.paths['/posts'].post;
+    expect(createPost.description).toContain('posts:write');
+    expect(createPost.responses['201']).toBeDefined();
+    expect(createPost.responses['429']).toBeDefined();
+    expect(document.paths['/posts/{id}'].delete.responses['204']).toEqual({ description: 'Success' });
+  });
+
+  it('generates request and query schemas from the zod schemas', () => {
+    const body = document.paths['/posts'].post.requestBody.content['application/json'].schema;
+    expect(body.required).toEqual(expect.arrayContaining(['content', 'scheduledAt', 'platforms']));
+    expect(body.required).not.toContain('mediaIds');
+
+    const parameters = document.paths['/calendar'].get.parameters;
+    expect(parameters.map((parameter: any) => parameter.name)).toEqual(['from', 'to']);
+    expect(parameters.every((parameter: any) => parameter.required)).toBe(true);
+  });
+
+  it('lists every scope in the description', () => {
+    Object.keys(API_KEY_SCOPES).forEach(scope => {
+      expect(document.info.description).toContain(scope);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit Tests: Encryption
+ *
+ * Covers sealing, key ids across a rotation and context binding, and the
+ * legacy format sharing the same key configuration
+ */
+
+import {
+  decrypt,
+  encrypt,
+  getPrimaryKeyId,
+  getSealedKeyId,
+  isSealedSecret,
+  needsReseal,
+  openJson,
+  openSecret,
+  resealSecret,
+  sealJson,
+  sealSecret
+} from '@/lib/core/security/encryption';
+
+jest.mock('@/lib/core/logging/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}));
+
+describe('envelope encryption', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.PRIMARY_ENCRYPTION_KEY = 'old-primary-key-0123456789abcdef';
+    delete process.env.SECONDARY_ENCRYPTION_KEY;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('round-trips secrets and JSON without exposing them', () => {
+    const sealed = sealSecret('sk_live_secret', 'webhook-signing-secret');
+
+    expect(isSealedSecret(sealed)).toBe(true);
+    expect(sealed).not.toContain('sk_live_secret');
+    expect(sealSecret('sk_live_secret', 'webhook-signing-secret')).not.toBe(sealed);
+    expect(openSecret(sealed, 'webhook-signing-secret')).toBe('sk_live_secret');
+    expect(openJson(sealJson({ apiKey: 'k', nested: [1] }, 'storage'), 'storage')).toEqual({ apiKey: 'k', nested: [1] });
+  });
+
+  it('treats legacy values as needing a reseal', () => {
+    expect(isSealedSecret('{"apiKey":"k"}')).toBe(false);
+    expect(needsReseal('plain-secret')).toBe(true);
+    expect(needsReseal(sealSecret('x', 'ctx'))).toBe(false);
+  });
+
+  it('opens old values during a rotation and reseals them under the new key', () => {
+    const oldKeyId = getPrimaryKeyId();
+    const sealed = sealSecret('token', 'ctx');
+
+    process.env.SECONDARY_ENCRYPTION_KEY = process.env.PRIMARY_ENCRYPTION_KEY;
+    process.env.PRIMARY_ENCRYPTION_KEY = 'new-primary-key-fedcba9876543210';
+
+    expect(getSealedKeyId(sealed)).toBe(oldKeyId);
+    expect(needsReseal(sealed)).toBe(true);
+    expect(openSecret(sealed, 'ctx')).toBe('token');
+
+    const resealed = resealSecret(sealed, 'ctx');
+    expect(getSealedKeyId(resealed)).toBe(getPrimaryKeyId());
+    expect(needsReseal(resealed)).toBe(false);
+
+    delete process.env.SECONDARY_ENCRYPTION_KEY;
+    expect(openSecret(resealed, 'ctx')).toBe('token');
+    expect(() => openSecret(sealed, 'ctx')).toThrow(/unknown key/);
+  });
+
+  it('rejects secrets opened in the wrong context or tampered with', () => {
+    const sealed = sealSecret('token', 'crm-connection-tokens');
+    const parts = sealed.split('.');
+    parts[5] = Buffer.from('tampered').toString('base64url');
+
+    expect(() => openSecret(sealed, 'webhook-signing-secret')).toThrow('Failed to decrypt sealed secret');
+    expect(() => openSecret(parts.join('.'), 'crm-connection-tokens')).toThrow('Failed to decrypt sealed secret');
+  });
+
+  it('decrypts legacy values with the secondary key during a rotation', () => {
+    const encrypted = encrypt('token', 'ctx');
+
+    process.env.SECONDARY_ENCRYPTION_KEY = process.env.PRIMARY_ENCRYPTION_KEY;
+    process.env.PRIMARY_ENCRYPTION_KEY = 'new-primary-key-fedcba9876543210';
+
+    expect(decrypt(encrypted, 'ctx')).toBe('token');
+
+    delete process.env.SECONDARY_ENCRYPTION_KEY;
+    expect(() => decrypt(encrypted, 'ctx')).toThrow('Failed to decrypt data');
+  });
+});
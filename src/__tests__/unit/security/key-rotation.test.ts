@@ -0,0 +1,191 @@
+/**
+ * Unit Tests: Encryption key rotation
+ *
+ * Covers re-sealing records only when they are unchanged since they were
+ * read, and retrying the ones another writer changed in the next batch
+ */
+
+import { getPrimaryKeyId, isSealedSecret, openSecret, sealSecret } from '@/lib/core/security/encryption';
+import type * as KeyRotationModule from '@/lib/features/system/KeyRotationService';
+
+// In-memory documents keyed by path, with a version standing in for the update time
+const mockRecords = new Map<string, { data: Record<string, any>; version: number }>();
+// Runs once after the next page is read, to simulate a concurrent writer
+let mockAfterRead: (() => void) | null = null;
+
+jest.mock('firebase-admin/firestore', () => {
+  const toTimestamp = (millis: number) => ({ toMillis: () => millis, toDate: () => new Date(millis) });
+  return {
+    FieldPath: { documentId: () => '__name__' },
+    FieldValue: { delete: () => '__delete__' },
+    Timestamp: {
+      now: () => toTimestamp(Date.now()),
+      fromMillis: toTimestamp
+    }
+  };
+});
+jest.mock('@/lib/core/firebase/admin', () => {
+  const preconditionFailed = () => Object.assign(new Error('FAILED_PRECONDITION'), { code: 9 });
+  const checkPrecondition = (path: string, precondition?: { lastUpdateTime: { version: number } }) => {
+    if (precondition && mockRecords.get(path)?.version !== precondition.lastUpdateTime.version) {
+      throw preconditionFailed();
+    }
+  };
+  const write = (path: string, data: Record<string, any>) => {
+    const record = mockRecords.get(path)!;
+    const merged = { ...record.data, ...data };
+    Object.keys(merged).forEach(key => merged[key] === '__delete__' && delete merged[key]);
+    mockRecords.set(path, { data: merged, version: record.version + 1 });
+  };
+  const docRef = (path: string): any => ({
+    path,
+    id: path.split('/').pop(),
+    get: async () => snapshot(path),
+    update: async (data: Record<string, any>, precondition?: any) => {
+      checkPrecondition(path, precondition);
+      write(path, data);
+    }
+  });
+  const snapshot = (path: string) => {
+    const record = mockRecords.get(path);
+    return {
+      id: path.split('/').pop(),
+      ref: docRef(path),
+      exists: !!record,
+      data: () => record?.data,
+      updateTime: { version: record?.version }
+    };
+  };
+  const pageQuery = (name: string, limitCount = Infinity, cursor = ''): any => ({
+    orderBy: () => pageQuery(name, limitCount, cursor),
+    limit: (count: number) => pageQuery(name, count, cursor),
+    startAfter: (ref: { path: string }) => pageQuery(name, limitCount, ref.path),
+    get: async () => {
+      const docs = Array.from(mockRecords.keys())
+        .filter(path => path.startsWith(`${name}/`) && path > cursor)
+        .sort()
+        .slice(0, limitCount)
+        .map(snapshot);
+      const afterRead = mockAfterRead;
+      mockAfterRead = null;
+      afterRead?.();
+      return { docs, size: docs.length };
+    }
+  });
+  const firestore = {
+    collection: (name: string) => ({ ...pageQuery(name), doc: (id: string) => docRef(`${name}/${id}`) }),
+    collectionGroup: (name: string) => pageQuery(name),
+    doc: docRef,
+    batch: () => {
+      const updates: Array<[string, Record<string, any>, any]> = [];
+      return {
+        update: (ref: { path: string }, data: Record<string, any>, precondition?: any) => {
+          updates.push([ref.path, data, precondition]);
+        },
+        commit: async () => {
+          // All or nothing
+          updates.forEach(([path, , precondition]) => checkPrecondition(path, precondition));
+          updates.forEach(([path, data]) => write(path, data));
+        }
+      };
+    },
+    runTransaction: async (run: (transaction: any) => Promise<unknown>) => run({
+      get: (ref: any) => ref.get(),
+      update: (ref: any, data: Record<string, any>) => ref.update(data)
+    })
+  };
+  return { getFirestore: () => firestore };
+});
+jest.mock('@/lib/features/storage/StorageService', () => ({ STORAGE_CREDENTIALS_CONTEXT: 'storage-credentials' }));
+jest.mock('@/lib/features/crm/models/CRMConnection', () => ({
+  CRMConnectionUtils: {},
+  CRM_TOKENS_CONTEXT: 'crm-tokens'
+}));
+jest.mock('@/lib/features/platforms/auth/token-manager', () => ({}));
+jest.mock('@/lib/webhooks/WebhookService', () => ({ WEBHOOK_SECRET_CONTEXT: 'webhook-signing-secret' }));
+jest.mock('@/lib/team/activity/audit-export', () => ({ AUDIT_SINK_TOKEN_CONTEXT: 'audit-sink-token' }));
+jest.mock('@/lib/features/user/auth/TwoFactorManager', () => ({ TWO_FACTOR_SECRET_CONTEXT: 'two-factor-secret' }));
+jest.mock('@/lib/core/logging/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}));
+
+const { keyRotationService } = require('@/lib/features/system/KeyRotationService') as typeof KeyRotationModule;
+
+const JOB_PATH = 'encryption_key_rotations/job_1';
+
+function seedJob() {
+  const progress = (status: string) => ({ status, total: 3, scanned: 0, rotated: 0, failed: 0 });
+  mockRecords.set(JOB_PATH, {
+    version: 1,
+    data: {
+      status: 'running',
+      primaryKeyId: getPrimaryKeyId(),
+      requestedBy: { id: 'admin_1', email: 'admin@example.com' },
+      targets: {
+        storage_connections: progress('completed'),
+        crm_connections: progress('completed'),
+        platform_tokens: progress('completed'),
+        webhook_secrets: progress('pending'),
+        audit_sink_tokens: progress('completed'),
+        two_factor_secrets: progress('completed')
+      },
+      errors: [],
+      startedAt: { toDate: () => new Date() },
+      updatedAt: { toDate: () => new Date() }
+    }
+  });
+}
+
+describe('KeyRotationService', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.PRIMARY_ENCRYPTION_KEY = 'test-primary-key-0123456789abcdef';
+    delete process.env.SECONDARY_ENCRYPTION_KEY;
+    mockRecords.clear();
+    mockAfterRead = null;
+    seedJob();
+    ['a', 'b', 'c'].forEach(id => mockRecords.set(`webhooks/${id}`, { version: 1, data: { secret: `whsec_${id}` } }));
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('does not overwrite a record changed after it was read and retries it next batch', async () => {
+    // The webhook's secret is rotated by its owner while the page is being re-sealed
+    const rotatedByOwner = sealSecret('whsec_new', 'webhook-signing-secret');
+    mockAfterRead = () => mockRecords.set('webhooks/b', { version: 2, data: { secret: rotatedByOwner } });
+
+    const first = await keyRotationService.runBatch('job_1', 10);
+
+    expect(first.status).toBe('running');
+    expect(first.targets.webhook_secrets).toEqual(expect.objectContaining({
+      status: 'running',
+      scanned: 1,
+      rotated: 2,
+      failed: 0,
+      cursor: 'webhooks/a'
+    }));
+    expect(mockRecords.get('webhooks/b')?.data.secret).toBe(rotatedByOwner);
+    expect(isSealedSecret(mockRecords.get('webhooks/c')?.data.secret)).toBe(true);
+
+    const second = await keyRotationService.runBatch('job_1', 10);
+
+    expect(second.status).toBe('completed');
+    expect(second.targets.webhook_secrets).toEqual(expect.objectContaining({ status: 'completed', scanned: 3, rotated: 2 }));
+    expect(openSecret(mockRecords.get('webhooks/b')?.data.secret, 'webhook-signing-secret')).toBe('whsec_new');
+  });
+
+  it('re-seals a page in one batch when nothing changed', async () => {
+    const job = await keyRotationService.runBatch('job_1', 10);
+
+    expect(job.status).toBe('completed');
+    expect(job.targets.webhook_secrets).toEqual(expect.objectContaining({ scanned: 3, rotated: 3, cursor: 'webhooks/c' }));
+    ['a', 'b', 'c'].forEach(id => {
+      expect(openSecret(mockRecords.get(`webhooks/${id}`)?.data.secret, 'webhook-signing-secret')).toBe(`whsec_${id}`);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Unit Tests: Single sign-on and SCIM provisioning
+ *
+ * Covers IdP metadata parsing, assertion attribute and role mapping, the
+ * verified domain check, SCIM filters and PATCH operations, and SCIM users
+ * being limited to the verified domains
+ */
+
+import {
+  SamlError,
+  isEmailInVerifiedDomain,
+  mapSamlProfile,
+  normalizeCertificate,
+  parseIdpMetadata,
+  resolveSamlRole,
+  samlService,
+  DEFAULT_SAML_ATTRIBUTE_MAPPING
+} from '@/lib/auth/saml';
+import { ScimError, applyScimPatch, parseScimFilter, scimService } from '@/lib/auth/scim';
+import { getAuth } from '@/lib/core/firebase/admin';
+import { OrganizationRole } from '@/lib/team/users/organization';
+
+jest.mock('firebase-admin/firestore', () => ({}));
+jest.mock('@/lib/core/firebase/admin', () => ({
+  getFirestore: jest.fn(),
+  getAuth: jest.fn()
+}));
+jest.mock('@/lib/core/logging/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}));
+
+describe('parseIdpMetadata', () => {
+  const certificate = 'MIIC' + 'A'.repeat(100);
+  const metadata = `<?xml version="1.0"?>
+    <md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="https://idp.example.com/entity">
+      <md:IDPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+        <md:KeyDescriptor use="signing">
+          <ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#">
+            <ds:X509Data><ds:X509Certificate>${certificate}</ds:X509Certificate></ds:X509Data>
+          </ds:KeyInfo>
+        </md:KeyDescriptor>
+        <md:KeyDescriptor use="encryption">
+          <ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#">
+            <ds:X509Data><ds:X509Certificate>MIIDencryption</ds:X509Certificate></ds:X509Data>
+          </ds:KeyInfo>
+        </md:KeyDescriptor>
+        <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST" Location="https://idp.example.com/post"/>
+        <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect" Location="https://idp.example.com/sso"/>
+      </md:IDPSSODescriptor>
+    </md:EntityDescriptor>`;
+
+  it('reads the entity ID, redirect URL and signing certificates', () => {
+    expect(parseIdpMetadata(metadata)).toEqual({
+      entityId: 'https://idp.example.com/entity',
+      ssoUrl: 'https://idp.example.com/sso',
+      certificates: [normalizeCertificate(certificate)]
+    });
+  });
+
+  it('rejects metadata without an identity provider', () => {
+    expect(() => parseIdpMetadata('<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata"/>'))
+      .toThrow(SamlError);
+  });
+
+  it('wraps bare base64 certificates as PEM', () => {
+    const pem = normalizeCertificate('A'.repeat(70));
+    expect(pem.split('\n')).toEqual([
+      '-----BEGIN CERTIFICATE-----',
+      'A'.repeat(64),
+      'A'.repeat(6),
+      '-----END CERTIFICATE-----'
+    ]);
+    expect(normalizeCertificate(pem)).toBe(pem);
+  });
+});
+
+describe('mapSamlProfile', () => {
+  it('reads mapped attributes and falls back to an email name ID', () => {
+    const identity = mapSamlProfile({
+      nameID: 'Jo@Example.com',
+      attributes: { firstName: 'Jo', lastName: 'Lee', groups: ['Marketing', 'Admins'] }
+    }, DEFAULT_SAML_ATTRIBUTE_MAPPING);
+
+    expect(identity).toEqual({ email: 'jo@example.com', firstName: 'Jo', lastName: 'Lee', groups: ['Marketing', 'Admins'] });
+  });
+
+  it('prefers the email attribute', () => {
+    const identity = mapSamlProfile({
+      nameID: 'opaque-id',
+      attributes: { mail: 'jo@example.com', memberOf: 'Admins' }
+    }, { ...DEFAULT_SAML_ATTRIBUTE_MAPPING, email: 'mail', groups: 'memberOf' });
+
+    expect(identity.email).toBe('jo@example.com');
+    expect(identity.groups).toEqual(['Admins']);
+  });
+});
+
+describe('resolveSamlRole', () => {
+  const mappings = [
+    { group: 'Admins', role: OrganizationRole.ADMIN },
+    { group: 'Staff', role: OrganizationRole.MEMBER },
+    { group: 'Contractors', role: OrganizationRole.VIEWER }
+  ];
+
+  it('gives the strongest mapped role', () => {
+    expect(resolveSamlRole(['contractors', 'staff'], mappings)).toBe(OrganizationRole.MEMBER);
+    expect(resolveSamlRole(['Staff', 'ADMINS'], mappings)).toBe(OrganizationRole.ADMIN);
+  });
+
+  it('returns undefined when no group is mapped', () => {
+    expect(resolveSamlRole(['Sales'], mappings)).toBeUndefined();
+  });
+});
+
+describe('isEmailInVerifiedDomain', () => {
+  const domains = [
+    { domain: 'example.com', verified: true },
+    { domain: 'pending.com', verified: false }
+  ];
+
+  it('accepts only verified domains', () => {
+    expect(isEmailInVerifiedDomain('jo@Example.com', domains)).toBe(true);
+    expect(isEmailInVerifiedDomain('jo@pending.com', domains)).toBe(false);
+    expect(isEmailInVerifiedDomain('jo@sub.example.com', domains)).toBe(false);
+    expect(isEmailInVerifiedDomain('not-an-email', domains)).toBe(false);
+  });
+});
+
+describe('parseScimFilter', () => {
+  it('parses eq filters', () => {
+    expect(parseScimFilter('userName eq "jo@example.com"')).toEqual({ attribute: 'userName', value: 'jo@example.com' });
+    expect(parseScimFilter('displayName eq "Say \\"hi\\""')).toEqual({ attribute: 'displayName', value: 'Say "hi"' });
+    expect(parseScimFilter('')).toBeNull();
+  });
+
+  it('rejects other operators', () => {
+    expect(() => parseScimFilter('userName co "jo"')).toThrow(ScimError);
+  });
+});
+
+describe('applyScimPatch', () => {
+  const user = {
+    userName: 'jo@example.com',
+    active: true,
+    name: { givenName: 'Jo', familyName: 'Lee' },
+    emails: [{ type: 'work', value: 'jo@example.com', primary: true }]
+  };
+
+  it('merges operations without a path', () => {
+    const patched = applyScimPatch(user, [{ op: 'replace', value: { active: false, name: { givenName: 'Joanne' } } }]);
+    expect(patched.active).toBe(false);
+    expect(patched.name).toEqual({ givenName: 'Joanne', familyName: 'Lee' });
+    expect(user.active).toBe(true);
+  });
+
+  it('sets sub-attributes and filtered paths', () => {
+    const patched = applyScimPatch(user, [
+      { op: 'Replace', path: 'name.familyName', value: 'Park' },
+      { op: 'replace', path: 'emails[type eq "work"].value', value: 'jo@new.example.com' }
+    ]);
+    expect(patched.name.familyName).toBe('Park');
+    expect(patched.emails).toEqual([{ type: 'work', value: 'jo@new.example.com', primary: true }]);
+  });
+
+  it('adds and removes listed group members', () => {
+    const group = { displayName: 'Marketing', members: [{ value: 'a' }, { value: 'b' }] };
+    const added = applyScimPatch(group, [{ op: 'add', path: 'members', value: [{ value: 'c' }] }]);
+    expect(added.members.map((member: { value: string }) => member.value)).toEqual(['a', 'b', 'c']);
+
+    const removed = applyScimPatch(added, [{ op: 'remove', path: 'members', value: [{ value: 'a' }] }]);
+    expect(removed.members.map((member: { value: string }) => member.value)).toEqual(['b', 'c']);
+
+    const filtered = applyScimPatch(added, [{ op: 'remove', path: 'members[value eq "b"]' }]);
+    expect(filtered.members.map((member: { value: string }) => member.value)).toEqual(['a', 'c']);
+  });
+
+  it('rejects unknown operations', () => {
+    expect(() => applyScimPatch(user, [{ op: 'move', path: 'active' }])).toThrow(ScimError);
+  });
+});
+
+describe('ScimService.createUser', () => {
+  it('refuses emails outside the verified domains before creating an account', async () => {
+    jest.spyOn(samlService, 'getConnection').mockResolvedValue({
+      emailDomains: [{ domain: 'example.com', verified: true }, { domain: 'pending.com', verified: false }]
+    } as any);
+
+    for (const userName of ['jane@attacker.com', 'jane@pending.com']) {
+      const error = await scimService.createUser('org_1', { userName }).catch(e => e);
+      expect(error).toBeInstanceOf(ScimError);
+      expect(error).toMatchObject({ status: 400, scimType: 'invalidValue' });
+    }
+    expect(getAuth).not.toHaveBeenCalled();
+  });
+});
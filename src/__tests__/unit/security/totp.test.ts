@@ -0,0 +1,228 @@
+/**
+ * Unit Tests: Two-factor authentication
+ *
+ * Covers TOTP against the RFC 6238 vectors, replay protection, recovery
+ * codes, the organization grace period and locking out repeated wrong codes
+ */
+
+import {
+  buildOtpAuthUrl,
+  decodeBase32,
+  encodeBase32,
+  findRecoveryCode,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  hashRecoveryCode,
+  verifyTotp
+} from '@/lib/core/security/totp';
+import { OrganizationSecuritySettings, getTwoFactorRequirement } from '@/lib/core/models/Organization';
+import { sealSecret } from '@/lib/core/security/encryption';
+import { TWO_FACTOR_SECRET_CONTEXT, TwoFactorError, twoFactorManager } from '@/lib/features/user/auth/TwoFactorManager';
+
+// In-memory documents keyed by "collection/id"
+const mockDocuments = new Map<string, Record<string, any>>();
+const mockAuditLog = jest.fn();
+
+jest.mock('firebase-admin/firestore', () => {
+  const toTimestamp = (millis: number) => ({ toMillis: () => millis, toDate: () => new Date(millis) });
+  return {
+    FieldValue: { delete: () => '__delete__' },
+    Timestamp: {
+      now: () => toTimestamp(Date.now()),
+      fromMillis: toTimestamp,
+      fromDate: (date: Date) => toTimestamp(date.getTime())
+    }
+  };
+});
+jest.mock('@/lib/core/firebase/admin', () => {
+  const update = (path: string, data: Record<string, any>) => {
+    const merged = { ...mockDocuments.get(path), ...data };
+    Object.keys(merged).forEach(key => merged[key] === '__delete__' && delete merged[key]);
+    mockDocuments.set(path, merged);
+  };
+  const docRef = (path: string) => ({
+    path,
+    get: async () => ({ exists: mockDocuments.has(path), data: () => mockDocuments.get(path) }),
+    update: async (data: Record<string, any>) => update(path, data)
+  });
+  const firestore = {
+    collection: (name: string) => ({ doc: (id: string) => docRef(`${name}/${id}`) }),
+    runTransaction: async (run: (transaction: any) => Promise<unknown>) => run({
+      get: (ref: { get: () => Promise<unknown> }) => ref.get(),
+      update: (ref: { path: string }, data: Record<string, any>) => update(ref.path, data)
+    })
+  };
+  return { getFirestore: () => firestore };
+});
+jest.mock('@/lib/team/activity/audit-logger', () => ({
+  TeamAuditLogger: jest.fn().mockImplementation(() => ({ log: (...args: unknown[]) => mockAuditLog(...args) })),
+  AuditLogCategory: { SECURITY: 'security' },
+  AuditLogSeverity: { INFO: 'info', WARNING: 'warning', CRITICAL: 'critical' }
+}));
+jest.mock('@/lib/core/logging/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}));
+
+describe('totp', () => {
+  // RFC 6238 SHA1 seed "12345678901234567890"
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  it('round-trips base32', () => {
+    const bytes = Buffer.from('12345678901234567890');
+    expect(encodeBase32(bytes)).toBe(rfcSecret);
+    expect(decodeBase32(rfcSecret).equals(bytes)).toBe(true);
+    expect(decodeBase32(rfcSecret.toLowerCase()).equals(bytes)).toBe(true);
+  });
+
+  it('generates 160-bit secrets', () => {
+    expect(decodeBase32(generateTotpSecret())).toHaveLength(20);
+  });
+
+  it('matches the RFC 6238 test vectors', () => {
+    expect(getTotpStep(59 * 1000)).toBe(1);
+    expect(generateTotp(rfcSecret, getTotpStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(rfcSecret, getTotpStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(rfcSecret, getTotpStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('accepts codes within the window and rejects others', () => {
+    const timeMs = 1234567890 * 1000;
+    const step = getTotpStep(timeMs);
+
+    expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, step), { timeMs })).toBe(step);
+    expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, step - 1), { timeMs })).toBe(step - 1);
+    expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, step - 3), { timeMs })).toBeNull();
+    expect(verifyTotp(rfcSecret, 'abcdef', { timeMs })).toBeNull();
+  });
+
+  it('ignores spaces in codes', () => {
+    const timeMs = 59 * 1000;
+    expect(verifyTotp(rfcSecret, '287 082', { timeMs })).toBe(1);
+  });
+
+  it('rejects a code from a step already used', () => {
+    const timeMs = 1234567890 * 1000;
+    const step = getTotpStep(timeMs);
+    const code = generateTotp(rfcSecret, step);
+
+    expect(verifyTotp(rfcSecret, code, { timeMs, afterStep: step })).toBeNull();
+    expect(verifyTotp(rfcSecret, code, { timeMs, afterStep: step - 1 })).toBe(step);
+  });
+
+  it('builds an otpauth URI', () => {
+    const url = buildOtpAuthUrl('IriSync', 'jo@example.com', rfcSecret);
+    expect(url).toBe(
+      `otpauth://totp/IriSync%3Ajo%40example.com?secret=${rfcSecret}&issuer=IriSync&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
+
+describe('recovery codes', () => {
+  it('generates distinct formatted codes', () => {
+    const codes = generateRecoveryCodes(10);
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach(code => expect(code).toMatch(/^[a-z2-7]{4}-[a-z2-7]{4}$/));
+  });
+
+  it('matches codes regardless of case and dashes', () => {
+    const hashes = ['abcd-efgh', 'ijkl-mnop'].map((code, index) => {
+      const salt = `salt-${index}`;
+      return { hash: hashRecoveryCode(code, salt), salt };
+    });
+
+    expect(findRecoveryCode('IJKL MNOP', hashes)).toBe(1);
+    expect(findRecoveryCode('abcdefgh', hashes)).toBe(0);
+    expect(findRecoveryCode('zzzz-zzzz', hashes)).toBe(-1);
+  });
+});
+
+describe('getTwoFactorRequirement', () => {
+  const requiredSince = new Date('2026-01-01T00:00:00Z');
+  const security = {
+    requireTwoFactor: true,
+    twoFactorGracePeriodDays: 7,
+    twoFactorRequiredSince: { toDate: () => requiredSince }
+  } as unknown as OrganizationSecuritySettings;
+
+  it('does not require two-factor when the policy is off', () => {
+    expect(getTwoFactorRequirement(undefined, false)).toEqual({ required: false, blocked: false });
+    expect(getTwoFactorRequirement({ ...security, requireTwoFactor: false }, false).required).toBe(false);
+  });
+
+  it('allows members without two-factor during the grace period', () => {
+    const requirement = getTwoFactorRequirement(security, false, new Date('2026-01-05T00:00:00Z'));
+    expect(requirement.required).toBe(true);
+    expect(requirement.blocked).toBe(false);
+    expect(requirement.deadline).toEqual(new Date('2026-01-08T00:00:00Z'));
+  });
+
+  it('blocks members without two-factor after the grace period', () => {
+    const now = new Date('2026-01-08T00:00:00Z');
+    expect(getTwoFactorRequirement(security, false, now).blocked).toBe(true);
+    expect(getTwoFactorRequirement(security, true, now).blocked).toBe(false);
+  });
+});
+
+describe('TwoFactorManager failed attempts', () => {
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+  const secretPath = 'twoFactorSecrets/user_1';
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.PRIMARY_ENCRYPTION_KEY = 'test-primary-key-0123456789abcdef';
+    mockDocuments.clear();
+    mockAuditLog.mockReset();
+    mockDocuments.set('users/user_1', { twoFactorEnabled: true });
+    mockDocuments.set(secretPath, {
+      userId: 'user_1',
+      enabled: true,
+      secret: sealSecret(secret, TWO_FACTOR_SECRET_CONTEXT),
+      recoveryCodes: []
+    });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('locks out codes after repeated failures and audits them', async () => {
+    for (let attempt = 1; attempt < 5; attempt++) {
+      const check = await twoFactorManager.checkLogin('user_1', { code: '000000' });
+      expect(check.challengeRequired).toBe(true);
+      expect(check.lockedUntil).toBeUndefined();
+    }
+    const locked = await twoFactorManager.checkLogin('user_1', { code: '000000' });
+
+    expect(locked.challengeRequired).toBe(true);
+    expect(locked.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    expect(mockDocuments.get(secretPath)).toEqual(expect.objectContaining({ failedAttempts: 5 }));
+    expect(mockAuditLog).toHaveBeenCalledTimes(5);
+    expect(mockAuditLog).toHaveBeenLastCalledWith(expect.objectContaining({
+      action: 'lock_two_factor',
+      resourceId: 'user_1',
+      metadata: expect.objectContaining({ failedAttempts: 5 })
+    }));
+
+    // A correct code is refused while locked out, without counting another failure
+    const code = generateTotp(secret);
+    await expect(twoFactorManager.checkLogin('user_1', { code })).resolves.toMatchObject({ challengeRequired: true });
+    await expect(twoFactorManager.verify('user_1', { code })).rejects.toBeInstanceOf(TwoFactorError);
+    expect(mockDocuments.get(secretPath)?.failedAttempts).toBe(5);
+  });
+
+  it('resets the count after a correct code', async () => {
+    await twoFactorManager.checkLogin('user_1', { code: '000000' });
+    expect(mockDocuments.get(secretPath)?.failedAttempts).toBe(1);
+
+    await expect(twoFactorManager.checkLogin('user_1', { code: generateTotp(secret) })).resolves.toMatchObject({
+      challengeRequired: false,
+      method: 'totp'
+    });
+    expect(mockDocuments.get(secretPath)?.failedAttempts).toBeUndefined();
+  });
+});
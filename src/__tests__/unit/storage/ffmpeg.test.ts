@@ -0,0 +1,114 @@
+/**
+ * Unit Tests: ffmpeg command building
+ *
+ * Covers presets, trimming, size limits, probe parsing and timeouts without
+ * running ffmpeg
+ */
+
+import {
+  buildVideoTranscodeArgs,
+  buildInputArgs,
+  fitBitrateToSize,
+  parseProbeOutput,
+  parseLoudnessMeasurement,
+  probeFile,
+  runFfmpeg,
+  MediaProbe
+} from '@/lib/features/storage/media/ffmpeg';
+
+const mockExecFile = jest.fn();
+
+jest.mock('child_process', () => {
+  const { promisify } = jest.requireActual('util');
+  const execFile = () => undefined;
+  (execFile as any)[promisify.custom] = (...args: any[]) => mockExecFile(...args);
+  return { execFile };
+});
+
+describe('ffmpeg command building', () => {
+  const landscape: MediaProbe = {
+    duration: 60,
+    hasVideo: true,
+    hasAudio: true,
+    width: 1920,
+    height: 1080,
+    frameRate: 59.94
+  };
+
+  it('crops landscape video to 9:16 for Reels', () => {
+    const args = buildVideoTranscodeArgs('in', 'out.mp4', landscape, {
+      targetPlatform: 'instagram_reels',
+      video: { aspectMode: 'crop' }
+    });
+
+    expect(args[args.indexOf('-vf') + 1]).toBe(
+      'scale=1080:1920:force_original_aspect_ratio=increase,crop=1080:1920,setsar=1,fps=30'
+    );
+    expect(args).toEqual(expect.arrayContaining(['-c:v', 'libx264', '-b:v', '5000k', '-c:a', 'aac', '-movflags', '+faststart']));
+    expect(args[args.length - 1]).toBe('out.mp4');
+  });
+
+  it('lowers the bitrate to stay under X\'s size limit', () => {
+    const long: MediaProbe = { ...landscape, duration: 140 };
+    const args = buildVideoTranscodeArgs('in', 'out.mp4', long, {
+      targetPlatform: 'twitter',
+      video: { bitrate: 40000 }
+    });
+    const bitrate = parseInt(args[args.indexOf('-b:v') + 1], 10);
+
+    expect(bitrate).toBe(fitBitrateToSize(512 * 1024 * 1024, 140, 128, 40000));
+    expect((bitrate + 128) * 1000 * 140 / 8).toBeLessThan(512 * 1024 * 1024);
+  });
+
+  it('trims with a start and end', () => {
+    expect(buildInputArgs('in', { start: 5, end: 20 })).toEqual(['-ss', '5', '-i', 'in', '-t', '15']);
+    expect(() => buildInputArgs('in', { start: 20, end: 5 })).toThrow('Trim end must be after trim start');
+  });
+
+  it('parses ffprobe and loudnorm output', () => {
+    const probe = parseProbeOutput(JSON.stringify({
+      streams: [
+        { codec_type: 'video', codec_name: 'h264', width: 1080, height: 1920, avg_frame_rate: '30000/1001' },
+        { codec_type: 'audio', codec_name: 'aac', sample_rate: '48000', channels: 2 }
+      ],
+      format: { duration: '12.5', bit_rate: '4000000' }
+    }));
+
+    expect(probe).toMatchObject({ duration: 12.5, width: 1080, height: 1920, frameRate: 29.97, hasAudio: true, sampleRate: 48000 });
+
+    const measurement = parseLoudnessMeasurement(
+      '[Parsed_loudnorm_0 @ 0x1]\n{\n"input_i" : "-23.1",\n"input_tp" : "-4.2",\n"input_lra" : "6.0",\n"input_thresh" : "-33.4",\n"target_offset" : "0.3"\n}'
+    );
+    expect(measurement.inputI).toBe('-23.1');
+  });
+});
+
+describe('ffmpeg processes', () => {
+  beforeEach(() => {
+    mockExecFile.mockReset();
+  });
+
+  it('runs ffmpeg and ffprobe with a timeout', async () => {
+    mockExecFile.mockResolvedValueOnce({ stdout: '', stderr: 'stats' });
+    mockExecFile.mockResolvedValueOnce({ stdout: '{"format":{"duration":"3"}}', stderr: '' });
+
+    await expect(runFfmpeg(['-i', 'in', 'out'], 5000)).resolves.toBe('stats');
+    await expect(probeFile('in')).resolves.toMatchObject({ duration: 3 });
+
+    expect(mockExecFile.mock.calls[0][2]).toMatchObject({ timeout: 5000, killSignal: 'SIGKILL' });
+    expect(mockExecFile.mock.calls[1][2]).toMatchObject({ timeout: 30000, killSignal: 'SIGKILL' });
+  });
+
+  it('reports a killed process as a timeout', async () => {
+    mockExecFile.mockRejectedValue(Object.assign(new Error('Command failed'), { killed: true, signal: 'SIGKILL' }));
+
+    await expect(runFfmpeg(['-i', 'in', 'out'], 5000)).rejects.toThrow('ffmpeg timed out after 5s');
+    await expect(probeFile('in')).rejects.toThrow('ffprobe timed out after 30s');
+  });
+
+  it('passes other failures through', async () => {
+    mockExecFile.mockRejectedValue(Object.assign(new Error('Invalid data found'), { killed: false, code: 1 }));
+
+    await expect(runFfmpeg(['-i', 'in', 'out'])).rejects.toThrow('Invalid data found');
+  });
+});
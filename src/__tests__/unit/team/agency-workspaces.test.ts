@@ -0,0 +1,168 @@
+/**
+ * Unit Tests: Agency client workspaces
+ *
+ * Covers creating client workspaces, the access agency staff inherit (including
+ * when switching workspaces) and usage roll-up
+ */
+
+import {
+  Organization,
+  OrganizationRoleType,
+  OrganizationType,
+  createBusinessOrganization,
+  createClientWorkspace,
+  getAgencyWorkspaceRole,
+  summarizeWorkspaceUsage
+} from '@/lib/core/models/Organization';
+import { SubscriptionTier } from '@/lib/subscription/models/subscription';
+import { validateUserOrganizationConnections } from '@/lib/utils';
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'test-id')
+}));
+
+function createAgency(): Organization {
+  const agency: Organization = {
+    id: 'agency-1',
+    ...createBusinessOrganization('owner-1', 'Acme Agency', 'owner@acme.example', 'Olive', SubscriptionTier.ENTERPRISE),
+    organizationType: OrganizationType.AGENCY
+  };
+  agency.members['admin-1'] = {
+    ...agency.members['owner-1'],
+    userId: 'admin-1',
+    email: 'admin@acme.example',
+    role: OrganizationRoleType.ADMIN
+  };
+  agency.members['staff-1'] = {
+    ...agency.members['owner-1'],
+    userId: 'staff-1',
+    email: 'staff@acme.example',
+    role: OrganizationRoleType.MEMBER
+  };
+  return agency;
+}
+
+describe('createClientWorkspace', () => {
+  it('creates a workspace owned by the agency owner and billed to the agency', () => {
+    const agency = createAgency();
+    const workspace = createClientWorkspace(agency, 'Client Co', {
+      userId: 'admin-1',
+      email: 'admin@acme.example',
+      displayName: 'Ada'
+    });
+
+    expect(workspace.organizationType).toBe(OrganizationType.CLIENT_WORKSPACE);
+    expect(workspace.parentOrganizationId).toBe('agency-1');
+    expect(workspace.ownerUserId).toBe('owner-1');
+    expect(workspace.billing).toEqual({
+      subscriptionTier: SubscriptionTier.ENTERPRISE,
+      subscriptionStatus: 'active',
+      billedToOrganizationId: 'agency-1'
+    });
+    expect(workspace.platformConnections).toEqual({});
+    expect(Object.keys(workspace.members).sort()).toEqual(['admin-1', 'owner-1']);
+    expect(workspace.members['admin-1'].role).toBe(OrganizationRoleType.ADMIN);
+    expect(workspace.usageQuota.teamMembers.used).toBe(2);
+  });
+
+  it('only creates workspaces under an agency', () => {
+    const organization = { ...createAgency(), organizationType: undefined };
+
+    expect(() => createClientWorkspace(organization, 'Client Co', {
+      userId: 'owner-1',
+      email: 'owner@acme.example',
+      displayName: 'Olive'
+    })).toThrow('Client workspaces can only be created under an agency organization');
+  });
+});
+
+describe('getAgencyWorkspaceRole', () => {
+  it('gives agency owners and admins access to every workspace', () => {
+    const agency = createAgency();
+
+    expect(getAgencyWorkspaceRole(agency, 'owner-1')).toBe(OrganizationRoleType.OWNER);
+    expect(getAgencyWorkspaceRole(agency, 'admin-1')).toBe(OrganizationRoleType.ADMIN);
+  });
+
+  it('requires per-client assignments for other staff', () => {
+    const agency = createAgency();
+
+    expect(getAgencyWorkspaceRole(agency, 'staff-1')).toBeNull();
+    expect(getAgencyWorkspaceRole(agency, 'stranger')).toBeNull();
+    expect(getAgencyWorkspaceRole({ ...agency, organizationType: OrganizationType.STANDARD }, 'owner-1')).toBeNull();
+  });
+});
+
+describe('validateUserOrganizationConnections', () => {
+  function createFirestore(organizations: Record<string, Record<string, any>>) {
+    return {
+      collection: () => ({
+        doc: (id: string) => ({
+          get: async () => ({ id, exists: !!organizations[id], data: () => organizations[id] })
+        })
+      })
+    };
+  }
+
+  const workspace = {
+    name: 'Client Co',
+    ownerUserId: 'owner-1',
+    members: {},
+    organizationType: OrganizationType.CLIENT_WORKSPACE,
+    parentOrganizationId: 'agency-1'
+  };
+
+  it('keeps agency owners and admins in client workspaces they are not members of', async () => {
+    const firestore = createFirestore({ 'agency-1': createAgency(), 'personal-1': {}, 'client-1': workspace });
+
+    const result = await validateUserOrganizationConnections(
+      'admin-1',
+      { personalOrganizationId: 'personal-1', currentOrganizationId: 'client-1' },
+      firestore
+    );
+
+    expect(result).toEqual(expect.objectContaining({ currentOrganizationId: 'client-1', isValid: true }));
+  });
+
+  it('does not extend agency access to other staff or to organizations that are not client workspaces', async () => {
+    const firestore = createFirestore({
+      'agency-1': createAgency(),
+      'personal-1': {},
+      'client-1': workspace,
+      'other-1': { ...workspace, organizationType: OrganizationType.STANDARD }
+    });
+
+    const staff = await validateUserOrganizationConnections(
+      'staff-1',
+      { personalOrganizationId: 'personal-1', currentOrganizationId: 'client-1' },
+      firestore
+    );
+    const admin = await validateUserOrganizationConnections(
+      'admin-1',
+      { personalOrganizationId: 'personal-1', currentOrganizationId: 'other-1' },
+      firestore
+    );
+
+    expect(staff.currentOrganizationId).toBe('personal-1');
+    expect(admin.currentOrganizationId).toBe('personal-1');
+  });
+});
+
+describe('summarizeWorkspaceUsage', () => {
+  it('rolls usage up across the agency and its workspaces', () => {
+    const agency = createAgency();
+    const workspace = { id: 'client-1', ...createClientWorkspace(agency, 'Client Co', {
+      userId: 'owner-1',
+      email: 'owner@acme.example',
+      displayName: 'Olive'
+    }) };
+    agency.usageQuota.socialAccounts.used = 2;
+    workspace.usageQuota.socialAccounts.used = 3;
+    workspace.usageQuota.storage.usedMB = 120;
+
+    const { workspaces, totals } = summarizeWorkspaceUsage([agency, workspace]);
+
+    expect(workspaces.map(usage => usage.name)).toEqual(['Acme Agency', 'Client Co']);
+    expect(totals).toEqual({ socialAccounts: 5, teamMembers: 2, storageMB: 120, aiTokens: 0 });
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Unit Tests: Tamper-evident audit log
+ *
+ * Covers keyed hash chaining and verification, export formats, syslog
+ * framing, the export schedule and sink destination checks
+ */
+
+import crypto from 'crypto';
+import {
+  AuditChainHead,
+  ChainedAuditRecord,
+  GENESIS_HASH,
+  PLATFORM_AUDIT_CHAIN,
+  canonicalizeAuditValue,
+  computeAuditHash,
+  getAuditChainId,
+  verifyAuditChain
+} from '@/lib/team/activity/audit-chain';
+import { AuditLogCategory, AuditLogEntry, AuditLogSeverity } from '@/lib/team/activity/audit-logger';
+import { getPrimaryKeyId } from '@/lib/core/security/encryption';
+import {
+  AuditExportConfig,
+  formatAuditExport,
+  isExportDue,
+  normalizeAuditSinks
+} from '@/lib/team/activity/audit-export';
+import { deliverToSink, formatSyslogMessage } from '@/lib/team/activity/audit-sinks';
+
+jest.mock('firebase-admin/firestore', () => ({}));
+jest.mock('@/lib/core/firebase/admin', () => ({
+  getFirestore: jest.fn(),
+  getStorage: jest.fn()
+}));
+
+const PRIMARY_KEY = 'test-primary-key-0123456789abcdef';
+process.env.PRIMARY_ENCRYPTION_KEY = PRIMARY_KEY;
+
+function buildChain(length: number): AuditLogEntry[] {
+  const entries: AuditLogEntry[] = [];
+  let previousHash = GENESIS_HASH;
+
+  for (let sequence = 1; sequence <= length; sequence++) {
+    const contents = {
+      userId: 'user-1',
+      category: AuditLogCategory.TEAM,
+      action: `action_${sequence}`,
+      severity: AuditLogSeverity.INFO,
+      organizationId: 'org-1',
+      metadata: { step: sequence },
+      timestamp: new Date(Date.UTC(2026, 0, 1, 0, sequence)),
+      chainId: 'org-1',
+      chainSequence: sequence,
+      previousHash,
+      hashKeyId: getPrimaryKeyId()
+    };
+    const hash = computeAuditHash(contents) as string;
+    entries.push({ id: `entry-${sequence}`, ...contents, hash });
+    previousHash = hash;
+  }
+
+  return entries;
+}
+
+function headOf(entries: AuditLogEntry[]): AuditChainHead {
+  const last = entries[entries.length - 1];
+  return { sequence: last.chainSequence!, hash: last.hash!, entryId: last.id };
+}
+
+function verify(entries: AuditLogEntry[], head?: AuditChainHead) {
+  return verifyAuditChain('org-1', entries as ChainedAuditRecord[], { head });
+}
+
+describe('audit chain', () => {
+  it('uses one chain per organization and a platform chain otherwise', () => {
+    expect(getAuditChainId('org-1')).toBe('org-1');
+    expect(getAuditChainId()).toBe(PLATFORM_AUDIT_CHAIN);
+  });
+
+  it('hashes independently of key order and ignores the id', () => {
+    const [entry] = buildChain(1);
+    const reordered = Object.fromEntries(Object.entries(entry).reverse());
+
+    expect(computeAuditHash({ ...reordered, id: 'other' })).toBe(entry.hash);
+  });
+
+  it('accepts an untouched chain', () => {
+    const entries = buildChain(4);
+    const report = verify(entries, headOf(entries));
+
+    expect(report.valid).toBe(true);
+    expect(report.checkedEntries).toBe(4);
+    expect(report.lastSequence).toBe(4);
+  });
+
+  it('detects an edited entry', () => {
+    const entries = buildChain(3);
+    entries[1] = { ...entries[1], metadata: { step: 99 } };
+
+    const report = verify(entries, headOf(entries));
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([expect.objectContaining({ type: 'hash_mismatch', sequence: 2 })]);
+  });
+
+  it('detects a removed entry', () => {
+    const entries = buildChain(4);
+    const head = headOf(entries);
+    entries.splice(1, 1);
+
+    expect(verify(entries, head).issues.map(issue => issue.type)).toEqual(['gap']);
+  });
+
+  it('detects an entry rewritten with a recomputed hash', () => {
+    const entries = buildChain(3);
+    const { id, hash, ...contents } = entries[1];
+    const forged = { ...contents, action: 'forged' };
+    entries[1] = { id, ...forged, hash: computeAuditHash(forged) as string };
+
+    expect(verify(entries, headOf(buildChain(3))).issues.map(issue => issue.type)).toEqual(['broken_link']);
+    expect(hash).not.toBe(entries[1].hash);
+  });
+
+  it('detects an entry rewritten without the hash key', () => {
+    const entries = buildChain(3);
+    const { id, hash, ...contents } = entries[2];
+    const forged = { ...contents, action: 'forged' };
+    const unkeyed = crypto.createHash('sha256').update(canonicalizeAuditValue(forged)).digest('hex');
+    entries[2] = { id, ...forged, hash: unkeyed };
+
+    expect(verify(entries).issues).toEqual([expect.objectContaining({ type: 'hash_mismatch', sequence: 3 })]);
+
+    const { hashKeyId, ...withoutKey } = forged;
+    entries[2] = { id, ...withoutKey, hash: unkeyed };
+    expect(verify(entries).issues).toEqual([expect.objectContaining({ type: 'unverifiable', sequence: 3 })]);
+  });
+
+  it('verifies entries hashed with a rotated key while it is the secondary', () => {
+    const entries = buildChain(2);
+
+    try {
+      process.env.PRIMARY_ENCRYPTION_KEY = 'next-primary-key-0123456789abcdef';
+      process.env.SECONDARY_ENCRYPTION_KEY = PRIMARY_KEY;
+      expect(verify(entries, headOf(entries)).valid).toBe(true);
+
+      delete process.env.SECONDARY_ENCRYPTION_KEY;
+      expect(verify(entries).issues.map(issue => issue.type)).toEqual(['unverifiable', 'unverifiable']);
+    } finally {
+      process.env.PRIMARY_ENCRYPTION_KEY = PRIMARY_KEY;
+      delete process.env.SECONDARY_ENCRYPTION_KEY;
+    }
+  });
+
+  it('detects entries removed from the end against the head', () => {
+    const entries = buildChain(5);
+    const head = headOf(entries);
+
+    const report = verify(entries.slice(0, 3), head);
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([expect.objectContaining({ type: 'truncated', sequence: 5 })]);
+  });
+
+  it('continues from an anchor when verifying in pages', () => {
+    const entries = buildChain(4);
+    const report = verifyAuditChain('org-1', entries.slice(2) as ChainedAuditRecord[], {
+      anchor: headOf(entries.slice(0, 2)),
+      head: headOf(entries)
+    });
+
+    expect(report.valid).toBe(true);
+    expect(report.firstSequence).toBe(3);
+  });
+});
+
+describe('audit export', () => {
+  it('writes one JSON entry per line in NDJSON', () => {
+    const entries = buildChain(2);
+    const lines = formatAuditExport(entries, 'ndjson').trim().split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toMatchObject({
+      id: 'entry-2',
+      chainSequence: 2,
+      previousHash: entries[0].hash,
+      hash: entries[1].hash,
+      timestamp: '2026-01-01T00:02:00.000Z'
+    });
+  });
+
+  it('writes a header and nested values as JSON in CSV', () => {
+    const csv = formatAuditExport(buildChain(1), 'csv');
+    const [header, row] = csv.split('\n');
+
+    expect(header.split(',').slice(0, 3)).toEqual(['"id"', '"chainId"', '"chainSequence"']);
+    expect(row).toContain('"{""step"":1}"');
+  });
+
+  it('frames syslog messages as RFC 5424 under the log audit facility', () => {
+    const [entry] = buildChain(1);
+    const message = formatSyslogMessage({ ...entry, severity: AuditLogSeverity.CRITICAL }, 'app-1');
+
+    expect(message.startsWith('<106>1 2026-01-01T00:01:00.000Z app-1 irisync - action_1 - {')).toBe(true);
+    expect(JSON.parse(message.slice(message.indexOf('{'))).hash).toBe(entry.hash);
+  });
+
+  it('runs exports on schedule and while a backlog remains', () => {
+    const now = new Date('2026-01-08T12:00:00Z');
+    const config: AuditExportConfig = {
+      chainId: 'org-1',
+      exportEnabled: true,
+      schedule: 'weekly',
+      format: 'ndjson',
+      sinks: [],
+      lastExportedSequence: 10,
+      lastExportedAt: new Date('2026-01-03T12:00:00Z')
+    };
+
+    expect(isExportDue(config, now)).toBe(false);
+    expect(isExportDue({ ...config, schedule: 'daily' }, now)).toBe(true);
+    expect(isExportDue({ ...config, backlog: true }, now)).toBe(true);
+    expect(isExportDue({ ...config, lastExportedAt: undefined }, now)).toBe(true);
+    expect(isExportDue({ ...config, exportEnabled: false, backlog: true }, now)).toBe(false);
+  });
+});
+
+describe('audit sinks', () => {
+  it('accepts sinks on public hosts and collector ports', async () => {
+    await expect(normalizeAuditSinks([
+      { id: 'splunk', type: 'http', url: 'https://93.184.216.34:8088/services/collector', format: 'splunk_hec' },
+      { id: 'syslog', type: 'syslog', host: '93.184.216.34', port: 6514, protocol: 'tls' }
+    ])).resolves.toEqual([
+      { id: 'splunk', type: 'http', url: 'https://93.184.216.34:8088/services/collector', format: 'splunk_hec', enabled: true },
+      { id: 'syslog', type: 'syslog', host: '93.184.216.34', port: 6514, protocol: 'tls', enabled: true }
+    ]);
+  });
+
+  it('rejects syslog sinks on private hosts or other ports', async () => {
+    await expect(normalizeAuditSinks([{ type: 'syslog', host: '10.0.0.5', port: 514, protocol: 'udp' }]))
+      .rejects.toThrow('Sink sink-1: 10.0.0.5 resolves to a private or reserved address');
+    await expect(normalizeAuditSinks([{ type: 'syslog', host: 'localhost', port: 514, protocol: 'tcp' }]))
+      .rejects.toThrow('private or reserved address');
+    await expect(normalizeAuditSinks([{ type: 'syslog', host: '93.184.216.34', port: 6379, protocol: 'tcp' }]))
+      .rejects.toThrow('Sink sink-1: port must be one of 514, 601, 6514');
+  });
+
+  it('applies the same checks to HTTP sinks', async () => {
+    await expect(normalizeAuditSinks([{ type: 'http', url: 'https://169.254.169.254/latest', format: 'json' }]))
+      .rejects.toThrow('private or reserved address');
+    await expect(normalizeAuditSinks([{ type: 'http', url: 'https://93.184.216.34:9200/_bulk', format: 'json' }]))
+      .rejects.toThrow('Port 9200 is not allowed');
+  });
+
+  it('refuses to deliver to a stored sink that points at a private host', async () => {
+    const [entry] = buildChain(1);
+
+    await expect(deliverToSink(
+      { id: 'legacy', type: 'syslog', host: '127.0.0.1', port: 514, protocol: 'udp', enabled: true },
+      [entry]
+    )).rejects.toMatchObject({ code: 'private_address' });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit Tests: Webhook signatures and delivery policy
+ *
+ * Covers signing, the versioned and legacy signature headers, replay
+ * rejection, retry backoff and auto-disable thresholds
+ */
+
+import crypto from 'crypto';
+import {
+  buildWebhookSignatureHeaders,
+  LEGACY_SIGNATURE_SUNSET,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookVerificationError
+} from '@/lib/webhooks/signature';
+import {
+  getWebhookRetryDelay,
+  shouldDisableWebhook,
+  shouldRetryWebhookDelivery,
+  WEBHOOK_RETRY_POLICY
+} from '@/lib/webhooks/delivery-policy';
+
+describe('webhook signatures', () => {
+  const secret = 'whsec_test';
+  const timestamp = '2026-03-02T10:00:00.000Z';
+  const now = new Date('2026-03-02T10:01:00.000Z');
+  const body = JSON.stringify({ id: 'evt_1', event: 'post.published', timestamp, data: { postId: 'p1' } });
+
+  const verify = (overrides: Partial<Parameters<typeof verifyWebhookSignature>[0]> = {}) =>
+    verifyWebhookSignature({
+      payload: body,
+      signature: `v1=${signWebhookPayload(secret, timestamp, body)}`,
+      timestamp,
+      secret,
+      now,
+      ...overrides
+    });
+
+  const codeOf = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      return (error as WebhookVerificationError).code;
+    }
+    return undefined;
+  };
+
+  it('verifies a signed delivery and returns its event', () => {
+    expect(verify()).toEqual({ id: 'evt_1', event: 'post.published', timestamp, data: { postId: 'p1' } });
+  });
+
+  it('rejects tampered bodies and wrong secrets', () => {
+    expect(codeOf(() => verify({ payload: body.replace('p1', 'p2') }))).toBe('INVALID_SIGNATURE');
+    expect(codeOf(() => verify({ secret: 'other' }))).toBe('INVALID_SIGNATURE');
+    expect(codeOf(() => verify({ signature: null }))).toBe('MISSING_HEADERS');
+  });
+
+  it('rejects replays outside the tolerance or with a mismatched timestamp', () => {
+    expect(codeOf(() => verify({ now: new Date('2026-03-02T10:06:00.000Z') }))).toBe('TIMESTAMP_OUT_OF_TOLERANCE');
+
+    const resigned = '2026-03-02T10:00:30.000Z';
+    expect(codeOf(() => verify({ timestamp: resigned, signature: `v1=${signWebhookPayload(secret, resigned, body)}` })))
+      .toBe('INVALID_PAYLOAD');
+  });
+
+  it('accepts a v1 signature among other schemes and rejects unversioned ones', () => {
+    const v1 = signWebhookPayload(secret, timestamp, body);
+
+    expect(verify({ signature: `v2=abcdef, v1=${v1}` }).id).toBe('evt_1');
+    expect(codeOf(() => verify({ signature: v1 }))).toBe('INVALID_SIGNATURE');
+    expect(codeOf(() => verify({ signature: `v2=${v1}` }))).toBe('INVALID_SIGNATURE');
+  });
+
+  it('sends the legacy body-only signature until the sunset', () => {
+    const legacy = crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+    expect(buildWebhookSignatureHeaders(secret, timestamp, body, now)).toEqual({
+      'X-IriSync-Signature': `v1=${signWebhookPayload(secret, timestamp, body)}`,
+      'X-IriSync-Signature-Legacy': legacy
+    });
+    expect(buildWebhookSignatureHeaders(secret, timestamp, body, LEGACY_SIGNATURE_SUNSET)).toEqual({
+      'X-IriSync-Signature': `v1=${signWebhookPayload(secret, timestamp, body)}`
+    });
+  });
+});
+
+describe('webhook delivery policy', () => {
+  it('backs off exponentially up to the cap', () => {
+    expect(getWebhookRetryDelay(1, () => 1)).toBe(WEBHOOK_RETRY_POLICY.baseDelayMs);
+    expect(getWebhookRetryDelay(3, () => 1)).toBe(WEBHOOK_RETRY_POLICY.baseDelayMs * 4);
+    expect(getWebhookRetryDelay(3, () => 0)).toBe(WEBHOOK_RETRY_POLICY.baseDelayMs * 2);
+    expect(getWebhookRetryDelay(20, () => 1)).toBe(WEBHOOK_RETRY_POLICY.maxDelayMs);
+    expect(shouldRetryWebhookDelivery(WEBHOOK_RETRY_POLICY.maxAttempts - 1)).toBe(true);
+    expect(shouldRetryWebhookDelivery(WEBHOOK_RETRY_POLICY.maxAttempts)).toBe(false);
+  });
+
+  it('disables only endpoints that keep failing for a day', () => {
+    const now = new Date('2026-03-02T10:00:00.000Z');
+    const dayAgo = new Date('2026-03-01T09:00:00.000Z');
+
+    expect(shouldDisableWebhook(20, dayAgo, now)).toBe(true);
+    expect(shouldDisableWebhook(19, dayAgo, now)).toBe(false);
+    expect(shouldDisableWebhook(50, new Date('2026-03-02T08:00:00.000Z'), now)).toBe(false);
+    expect(shouldDisableWebhook(50, undefined, now)).toBe(false);
+  });
+});
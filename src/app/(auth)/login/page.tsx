@@ -307,6 +307,13 @@ export default function LoginPage() {
             </button>
           </form>
 
+          {/* SSO Link */}
+          <div className="mt-6 text-center">
+            <Link href="/login/sso" className="text-gray-900 font-medium underline hover:text-[#00CC44] transition-colors">
+              LOG IN WITH SSO
+            </Link>
+          </div>
+
           {/* Register Link */}
           <div className="mt-6 text-center">
             <p className="text-gray-600">
@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { signIn } from 'next-auth/react';
+import Link from 'next/link';
+
+const ALLOWED_REDIRECT_PATHS = ['/dashboard', '/onboarding', '/settings'];
+
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  not_found: 'Single sign-on is not set up for this organization.',
+  disabled: 'Single sign-on is turned off for this organization.',
+  invalid_response: 'Your identity provider\'s response could not be verified. Please try again.',
+  not_provisioned: 'Your account has not been given access to this organization. Contact your administrator.'
+};
+
+const getSafeRedirect = (url: string | null | undefined) => {
+  // Validate URL is internal and allowed
+  if (!url || !url.startsWith('/') || !ALLOWED_REDIRECT_PATHS.some(path => url.startsWith(path))) {
+    return '/dashboard';
+  }
+  return url;
+};
+
+export default function SsoLoginPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const ticket = searchParams?.get('ticket');
+  const callbackUrl = getSafeRedirect(searchParams?.get('callbackUrl'));
+  const errorCode = searchParams?.get('error');
+
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(!!ticket);
+  const [error, setError] = useState(
+    errorCode ? SSO_ERROR_MESSAGES[errorCode] || 'Single sign-on failed. Please try again.' : ''
+  );
+  const exchanged = useRef(false);
+
+  // Returning from the identity provider: exchange the ticket for a session
+  useEffect(() => {
+    if (!ticket || exchanged.current) {
+      return;
+    }
+    exchanged.current = true;
+
+    signIn('saml', { ticket, redirect: false }).then(result => {
+      if (result?.ok) {
+        router.push(callbackUrl);
+      } else {
+        setError('Your sign-in link has expired. Please sign in again.');
+        setIsLoading(false);
+      }
+    });
+  }, [ticket, callbackUrl, router]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError('');
+
+    if (!/^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(email)) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/auth/saml/discover?email=${encodeURIComponent(email)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Single sign-on is not set up for this email domain');
+        setIsLoading(false);
+        return;
+      }
+
+      window.location.href = `${data.loginUrl}?callbackUrl=${encodeURIComponent(callbackUrl)}`;
+    } catch (err) {
+      console.error('SSO discovery error:', err);
+      setError('An unexpected error occurred. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8 bg-white">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-semibold text-gray-900 mb-2">
+            Single sign-on
+          </h1>
+          <p className="text-gray-600 text-lg">
+            {ticket ? 'Signing you in...' : 'Log in with your work email'}
+          </p>
+        </div>
+
+        {/* Error Messages */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {!ticket && (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <input
+              type="email"
+              name="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Work Email Address"
+              className="w-full px-4 py-4 border border-gray-200 rounded-xl bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#00FF6A] focus:border-transparent transition-all text-gray-900 placeholder-gray-400"
+            />
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full py-4 bg-gradient-to-r from-[#00FF6A] to-[#00CC44] text-white rounded-xl font-medium text-lg hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Redirecting...' : 'Continue'}
+            </button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link href="/login" className="text-gray-900 font-medium underline hover:text-[#00CC44] transition-colors">
+            Log in with a password
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
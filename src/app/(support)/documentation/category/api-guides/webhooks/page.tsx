@@ -52,8 +52,12 @@ app.use(express.json({
 
 app.post('/webhooks/irisync', async (req, res) => {
   try {
-    // Verify webhook signature
-    const signature = req.headers['x-irisync-signature'];
+    // Verify webhook signature; the header looks like "v1=<hex>"
+    const signature = (req.headers['x-irisync-signature'] || '')
+      .split(',')
+      .map(part => part.trim())
+      .find(part => part.startsWith('v1='))
+      ?.slice(3);
     const timestamp = req.headers['x-irisync-timestamp'];
     const webhookSecret = process.env.IRISYNC_WEBHOOK_SECRET;
     
@@ -63,16 +67,22 @@ app.post('/webhooks/irisync', async (req, res) => {
       .update(\`\${timestamp}.\${payload}\`)
       .digest('hex');
     
-    // Compare signatures
-    if (signature !== expectedSignature) {
+    // Compare signatures in constant time
+    const received = Buffer.from(signature || '', 'hex');
+    const expected = Buffer.from(expectedSignature, 'hex');
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
       console.error('Invalid webhook signature');
       return res.status(401).send('Invalid signature');
     }
     
-    // Process the webhook event
+    // Reject replays: the signed timestamp must be recent and match the body
     const event = req.body;
+    if (Math.abs(Date.now() - Date.parse(timestamp)) > 5 * 60 * 1000 || event.timestamp !== timestamp) {
+      return res.status(401).send('Stale webhook');
+    }
     
-    switch (event.type) {
+    // Process the webhook event
+    switch (event.event) {
       case 'content.published':
         await handleContentPublished(event.data);
         break;
@@ -80,7 +90,7 @@ app.post('/webhooks/irisync', async (req, res) => {
         await handleUserSubscribed(event.data);
         break;
       default:
-        console.log(\`Unhandled event type: \${event.type}\`);
+        console.log(\`Unhandled event type: \${event.event}\`);
     }
     
     // Always respond with 200 to acknowledge receipt
@@ -578,8 +588,10 @@ function WebhooksPage() {
             Signature Verification
           </Typography>
           <Typography paragraph>
-            Every webhook request from IriSync includes a signature in the <code>X-IriSync-Signature</code> header.
-            This allows you to verify that the request came from IriSync and not a third party.
+            Every webhook request from IriSync includes a signature in the <code>X-IriSync-Signature</code> header,
+            in the form <code>v1=&lt;hex&gt;</code>. This allows you to verify that the request came from IriSync and
+            not a third party. The <code>v1=</code> prefix names the signing scheme; ignore schemes you do not
+            recognize so a future scheme can be sent alongside it.
           </Typography>
           <Typography paragraph>
             To verify the signature:
@@ -587,7 +599,8 @@ function WebhooksPage() {
           <List>
             <ListItem>
               <ListItemText 
-                primary="Get the signature from the X-IriSync-Signature header" 
+                primary="Get the v1 signature from the X-IriSync-Signature header" 
+                secondary="Take the value after v1= in the comma-separated list"
               />
             </ListItem>
             <ListItem>
@@ -605,7 +618,23 @@ function WebhooksPage() {
                 primary="Compare this hash to the signature in the header" 
               />
             </ListItem>
+            <ListItem>
+              <ListItemText 
+                primary="Reject the request if the timestamp is more than five minutes old or differs from the timestamp in the body" 
+                secondary="This stops anyone who captured a request from replaying it later"
+              />
+            </ListItem>
           </List>
+          <Typography variant="subtitle1" gutterBottom sx={{ mt: 2 }}>
+            Migrating from unversioned signatures
+          </Typography>
+          <Typography paragraph>
+            Earlier deliveries sent an HMAC SHA-256 of the payload alone, without a prefix, in
+            <code>X-IriSync-Signature</code>. The header now carries the v1 signature over [timestamp].[payload].
+            Until January 1, 2027, the old signature is also sent in the <code>X-IriSync-Signature-Legacy</code>
+            header, so an existing receiver keeps working by reading that header instead. Switch to v1 before
+            then; the legacy header is not replay-protected and will stop being sent.
+          </Typography>
         </Box>
         
         <Box>
@@ -694,37 +723,31 @@ function WebhooksPage() {
           </Typography>
           <Typography paragraph>
             If your endpoint returns a non-2xx response code or times out, IriSync will retry the webhook 
-            delivery on the following schedule:
+            delivery up to 7 times with exponential backoff:
           </Typography>
           <List>
             <ListItem>
               <ListItemText 
-                primary="1st retry: 5 minutes after initial failure" 
-              />
-            </ListItem>
-            <ListItem>
-              <ListItemText 
-                primary="2nd retry: 30 minutes after initial failure" 
-              />
-            </ListItem>
-            <ListItem>
-              <ListItemText 
-                primary="3rd retry: 2 hours after initial failure" 
+                primary="1st retry: about 5 minutes after the initial failure" 
               />
             </ListItem>
             <ListItem>
               <ListItemText 
-                primary="4th retry: 5 hours after initial failure" 
+                primary="Later retries: each wait doubles, up to 4 hours between retries" 
               />
             </ListItem>
             <ListItem>
               <ListItemText 
-                primary="5th retry: 10 hours after initial failure" 
+                primary="Last retry: up to about 9 hours after the initial attempt" 
+                secondary="Waits are randomized between half and the full interval"
               />
             </ListItem>
           </List>
           <Typography paragraph>
-            After the 5th retry, the webhook will be marked as failed and will not be retried again.
+            After the last retry, the delivery is marked as failed. An endpoint that keeps failing for more than a day
+            is disabled, and your organization&apos;s owners and admins are emailed. Once the endpoint is fixed, re-enable
+            the webhook and redeliver any failed events from the delivery log. A redelivered event keeps its original
+            <code>id</code>.
           </Typography>
         </Box>
         
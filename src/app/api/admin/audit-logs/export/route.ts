@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/features/auth/route-handlers';
+import { TeamAuditLogger, AuditLogCategory, AuditLogSeverity } from '@/lib/features/team/activity/audit-logger';
+import { getAuditChainId } from '@/lib/features/team/activity/audit-chain';
+import auditExportService, {
+  AuditExportError,
+  redactAuditExportConfig
+} from '@/lib/features/team/activity/audit-export';
+import { logger as appLogger } from '@/lib/core/logging/logger';
+
+// Configure route as fully dynamic to prevent build-time evaluation
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const auditLogger = new TeamAuditLogger();
+
+/**
+ * Scheduled export and SIEM sinks of an audit chain
+ *
+ * GET /api/admin/audit-logs/export?organizationId=... - Current config
+ * PUT /api/admin/audit-logs/export?organizationId=... - Update config.
+ *   Body: { exportEnabled?, schedule?: 'daily' | 'weekly', format?: 'ndjson' | 'csv', sinks? }
+ * Without an organization the platform chain is configured.
+ */
+export const GET = withAdmin(async (request: NextRequest, adminUser: any) => {
+  try {
+    const chainId = getAuditChainId(request.nextUrl.searchParams.get('organizationId') || undefined);
+    const config = await auditExportService.getConfig(chainId);
+
+    return NextResponse.json({ config: config ? redactAuditExportConfig(config) : null });
+  } catch (error) {
+    appLogger.error('Failed to get audit log export config', {
+      error: error instanceof Error ? error.message : String(error),
+      adminId: adminUser?.id
+    });
+    return NextResponse.json({ error: 'Failed to get audit log export config' }, { status: 500 });
+  }
+});
+
+export const PUT = withAdmin(async (request: NextRequest, adminUser: any) => {
+  try {
+    const chainId = getAuditChainId(request.nextUrl.searchParams.get('organizationId') || undefined);
+    const body = await request.json();
+
+    const config = await auditExportService.saveConfig(chainId, body, adminUser.id);
+
+    await auditLogger.log({
+      userId: adminUser.id,
+      category: AuditLogCategory.SECURITY,
+      action: 'update_audit_log_export',
+      severity: AuditLogSeverity.WARNING,
+      resourceId: chainId,
+      resourceType: 'audit_log_chain',
+      newState: redactAuditExportConfig(config),
+      metadata: {}
+    });
+
+    return NextResponse.json({ config: redactAuditExportConfig(config) });
+  } catch (error) {
+    if (error instanceof AuditExportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    appLogger.error('Failed to update audit log export config', {
+      error: error instanceof Error ? error.message : String(error),
+      adminId: adminUser?.id
+    });
+    return NextResponse.json({ error: 'Failed to update audit log export config' }, { status: 500 });
+  }
+});
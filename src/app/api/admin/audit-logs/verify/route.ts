@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/features/auth/route-handlers';
+import { TeamAuditLogger, AuditLogCategory, AuditLogSeverity } from '@/lib/features/team/activity/audit-logger';
+import { getAuditChainId } from '@/lib/features/team/activity/audit-chain';
+import { logger as appLogger } from '@/lib/core/logging/logger';
+
+// Configure route as fully dynamic to prevent build-time evaluation
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const auditLogger = new TeamAuditLogger();
+
+/**
+ * GET /api/admin/audit-logs/verify?organizationId=...
+ * Verify an organization's audit chain, or the platform chain when no
+ * organization is given. Reports edited entries, gaps and missing entries.
+ */
+export const GET = withAdmin(async (request: NextRequest, adminUser: any) => {
+  try {
+    const organizationId = request.nextUrl.searchParams.get('organizationId') || undefined;
+    const chainId = getAuditChainId(organizationId);
+
+    const report = await auditLogger.verifyChain(chainId);
+
+    await auditLogger.log({
+      userId: adminUser.id,
+      category: AuditLogCategory.SECURITY,
+      action: 'verify_audit_log',
+      severity: report.valid ? AuditLogSeverity.INFO : AuditLogSeverity.CRITICAL,
+      resourceId: chainId,
+      resourceType: 'audit_log_chain',
+      metadata: {
+        valid: report.valid,
+        checkedEntries: report.checkedEntries,
+        issueCount: report.issues.length
+      }
+    });
+
+    if (!report.valid) {
+      appLogger.warn('Audit log chain failed verification', {
+        chainId,
+        issues: report.issues.slice(0, 20)
+      });
+    }
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    appLogger.error('Failed to verify audit logs', {
+      error: error instanceof Error ? error.message : String(error),
+      adminId: adminUser?.id
+    });
+
+    return NextResponse.json({ error: 'Failed to verify audit logs' }, { status: 500 });
+  }
+});
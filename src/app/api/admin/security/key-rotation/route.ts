@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withSuperAdmin } from '@/lib/features/auth/route-handlers';
+import { TeamAuditLogger, AuditLogCategory, AuditLogSeverity } from '@/lib/features/team/activity/audit-logger';
+import { keyRotationService, KeyRotationError } from '@/lib/features/system/KeyRotationService';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const auditLogger = new TeamAuditLogger();
+
+// Firestore batches are capped at 500 writes
+const MAX_BATCH_SIZE = 500;
+
+/**
+ * GET /api/admin/security/key-rotation
+ * Progress of one rotation (?jobId=) or the most recent rotations
+ */
+export const GET = withSuperAdmin(async (request: NextRequest) => {
+  try {
+    const jobId = request.nextUrl.searchParams.get('jobId');
+
+    if (jobId) {
+      const job = await keyRotationService.getJob(jobId);
+      if (!job) {
+        return NextResponse.json({ error: 'Key rotation not found' }, { status: 404 });
+      }
+      return NextResponse.json({ job, progress: keyRotationService.getProgress(job) });
+    }
+
+    const jobs = await keyRotationService.listJobs();
+    return NextResponse.json({
+      jobs: jobs.map(job => ({ ...job, progress: keyRotationService.getProgress(job) }))
+    });
+  } catch (error) {
+    logger.error('Error getting key rotation progress', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json({ error: 'Failed to get key rotation progress' }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/admin/security/key-rotation
+ * Start re-encrypting all stored secrets under the current primary key and
+ * run the first batch; the key-rotation cron runs the rest
+ */
+export const POST = withSuperAdmin(async (request: NextRequest, adminUser) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const batchSize = Math.min(Math.max(Number(body.batchSize) || 200, 1), MAX_BATCH_SIZE);
+
+    const started = await keyRotationService.startRotation({ id: adminUser.id, email: adminUser.email });
+
+    await auditLogger.log({
+      userId: adminUser.id,
+      category: AuditLogCategory.SECURITY,
+      action: 'start_encryption_key_rotation',
+      severity: AuditLogSeverity.WARNING,
+      resourceId: started.id,
+      resourceType: 'encryption_key_rotation',
+      metadata: {
+        primaryKeyId: started.primaryKeyId,
+        ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+      }
+    });
+
+    const job = await keyRotationService.runBatch(started.id, batchSize);
+
+    return NextResponse.json(
+      { job, progress: keyRotationService.getProgress(job) },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof KeyRotationError && error.code === 'ROTATION_IN_PROGRESS') {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 409 });
+    }
+
+    logger.error('Error starting key rotation', {
+      error: error instanceof Error ? error.message : String(error),
+      adminId: adminUser.id
+    });
+    return NextResponse.json({ error: 'Failed to start key rotation' }, { status: 500 });
+  }
+});
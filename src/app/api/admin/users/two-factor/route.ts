@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withSuperAdmin } from '@/lib/features/auth/route-handlers';
+import { twoFactorManager } from '@/lib/features/user/auth/TwoFactorManager';
+import { logger as appLogger } from '@/lib/core/logging/logger';
+
+// Configure route as fully dynamic to prevent build-time evaluation
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Reset a user's two-factor authentication, e.g. after they lose their device
+ * and recovery codes. Their remembered devices are forgotten as well.
+ *
+ * POST /api/admin/users/two-factor
+ * Body: { userId, reason? }
+ */
+export const POST = withSuperAdmin(async (request: NextRequest, adminUser: any) => {
+  try {
+    const { userId, reason } = await request.json();
+    if (!userId) {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 });
+    }
+
+    await twoFactorManager.reset(userId, adminUser.id, reason);
+
+    appLogger.info('Two-factor authentication reset', { userId, adminId: adminUser.id });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    appLogger.error('Failed to reset two-factor authentication', {
+      error: error instanceof Error ? error.message : String(error),
+      adminId: adminUser?.id
+    });
+    return NextResponse.json({ error: 'Failed to reset two-factor authentication' }, { status: 500 });
+  }
+});
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { universalBillingService } from '@/lib/subscription/UniversalBillingService';
+import agencyWorkspaceService, { AgencyWorkspaceError } from '@/lib/features/team/AgencyWorkspaceService';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Consolidated billing: the agency subscription with usage per client workspace
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { agencyId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const agency = await agencyWorkspaceService.getAgency(params.agencyId);
+    agencyWorkspaceService.requireAgencyAdmin(agency, session.user.id);
+
+    const billing = await universalBillingService.getConsolidatedBilling(params.agencyId);
+    return NextResponse.json({ billing });
+  } catch (error) {
+    if (error instanceof AgencyWorkspaceError) {
+      const status = error.code === 'not_found' ? 404 : error.code === 'forbidden' ? 403 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    logger.error('Error loading consolidated billing', { agencyId: params.agencyId, error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import agencyWorkspaceService, { AgencyWorkspaceError } from '@/lib/features/team/AgencyWorkspaceService';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Scheduled posts and inbox load across the agency's client workspaces
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { agencyId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const overview = await agencyWorkspaceService.getOverview(params.agencyId, session.user.id);
+    return NextResponse.json(overview);
+  } catch (error) {
+    if (error instanceof AgencyWorkspaceError) {
+      const status = error.code === 'not_found' ? 404 : error.code === 'forbidden' ? 403 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    logger.error('Error loading agency overview', { agencyId: params.agencyId, error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
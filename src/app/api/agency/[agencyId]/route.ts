@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { TeamAuditLogger, AuditLogCategory, AuditLogSeverity } from '@/lib/features/team/activity/audit-logger';
+import agencyWorkspaceService, { AgencyWorkspaceError } from '@/lib/features/team/AgencyWorkspaceService';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Enable agency mode so the organization can own client workspaces
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { agencyId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const agency = await agencyWorkspaceService.enableAgencyMode(params.agencyId, session.user.id);
+
+    await new TeamAuditLogger().log({
+      userId: session.user.id,
+      category: AuditLogCategory.ORGANIZATION,
+      action: 'agency_mode_enabled',
+      severity: AuditLogSeverity.INFO,
+      organizationId: agency.id,
+      resourceId: agency.id,
+      resourceType: 'organization',
+      newState: { organizationType: agency.organizationType },
+      metadata: { organizationName: agency.name }
+    });
+
+    return NextResponse.json({
+      organization: { id: agency.id, name: agency.name, organizationType: agency.organizationType }
+    });
+  } catch (error) {
+    if (error instanceof AgencyWorkspaceError) {
+      const status = error.code === 'not_found' ? 404 : error.code === 'forbidden' ? 403 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    logger.error('Error enabling agency mode', { agencyId: params.agencyId, error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
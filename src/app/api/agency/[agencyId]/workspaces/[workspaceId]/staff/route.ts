@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { OrganizationRoleType } from '@/lib/core/models/Organization';
+import { TeamAuditLogger, AuditLogCategory, AuditLogSeverity } from '@/lib/features/team/activity/audit-logger';
+import agencyWorkspaceService, { AgencyWorkspaceError } from '@/lib/features/team/AgencyWorkspaceService';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Agency staff in a client workspace
+ *
+ * POST /api/agency/[agencyId]/workspaces/[workspaceId]/staff - Assign a staff member.
+ *   Body: { userId, role, customRoleId? }; customRoleId is a RoleManager role created for the workspace
+ * DELETE /api/agency/[agencyId]/workspaces/[workspaceId]/staff?userId=... - Remove a staff member
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { agencyId: string; workspaceId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { userId, role, customRoleId } = await req.json();
+    if (!userId) {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 });
+    }
+
+    const member = await agencyWorkspaceService.assignStaff(
+      params.agencyId,
+      params.workspaceId,
+      userId,
+      (role || OrganizationRoleType.MEMBER) as OrganizationRoleType,
+      session.user.id,
+      customRoleId
+    );
+
+    await new TeamAuditLogger().log({
+      userId: session.user.id,
+      category: AuditLogCategory.ORGANIZATION,
+      action: 'client_workspace_staff_assigned',
+      severity: AuditLogSeverity.INFO,
+      organizationId: params.workspaceId,
+      resourceId: userId,
+      resourceType: 'user',
+      newState: { role: member.role, ...(customRoleId ? { customRoleId } : {}) },
+      metadata: { agencyId: params.agencyId }
+    });
+
+    return NextResponse.json({ member: { userId: member.userId, role: member.role } });
+  } catch (error) {
+    if (error instanceof AgencyWorkspaceError) {
+      const status = error.code === 'not_found' ? 404 : error.code === 'forbidden' ? 403 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    logger.error('Error assigning workspace staff', { ...params, error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { agencyId: string; workspaceId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = req.nextUrl.searchParams.get('userId');
+    if (!userId) {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 });
+    }
+
+    await agencyWorkspaceService.removeStaff(params.agencyId, params.workspaceId, userId, session.user.id);
+
+    await new TeamAuditLogger().log({
+      userId: session.user.id,
+      category: AuditLogCategory.ORGANIZATION,
+      action: 'client_workspace_staff_removed',
+      severity: AuditLogSeverity.INFO,
+      organizationId: params.workspaceId,
+      resourceId: userId,
+      resourceType: 'user',
+      metadata: { agencyId: params.agencyId }
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AgencyWorkspaceError) {
+      const status = error.code === 'not_found' ? 404 : error.code === 'forbidden' ? 403 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    logger.error('Error removing workspace staff', { ...params, error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { TeamAuditLogger, AuditLogCategory, AuditLogSeverity } from '@/lib/features/team/activity/audit-logger';
+import agencyWorkspaceService, { AgencyWorkspaceError } from '@/lib/features/team/AgencyWorkspaceService';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Client workspaces of an agency
+ *
+ * GET /api/agency/[agencyId]/workspaces - Workspaces the caller can switch to
+ * POST /api/agency/[agencyId]/workspaces - Create a client workspace. Body: { name }
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { agencyId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const workspaces = await agencyWorkspaceService.getAccessibleWorkspaces(params.agencyId, session.user.id);
+    return NextResponse.json({ workspaces });
+  } catch (error) {
+    if (error instanceof AgencyWorkspaceError) {
+      const status = error.code === 'not_found' ? 404 : error.code === 'forbidden' ? 403 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    logger.error('Error listing client workspaces', { agencyId: params.agencyId, error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { agencyId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await req.json();
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Workspace name is required' }, { status: 400 });
+    }
+
+    const workspace = await agencyWorkspaceService.createClientWorkspace(params.agencyId, name, {
+      userId: session.user.id,
+      email: session.user.email || '',
+      displayName: session.user.name || ''
+    });
+
+    await new TeamAuditLogger().log({
+      userId: session.user.id,
+      category: AuditLogCategory.ORGANIZATION,
+      action: 'client_workspace_created',
+      severity: AuditLogSeverity.INFO,
+      organizationId: params.agencyId,
+      resourceId: workspace.id,
+      resourceType: 'organization',
+      newState: { name: workspace.name, parentOrganizationId: workspace.parentOrganizationId },
+      metadata: { agencyId: params.agencyId }
+    });
+
+    return NextResponse.json({
+      workspace: {
+        id: workspace.id,
+        name: workspace.name,
+        parentOrganizationId: workspace.parentOrganizationId,
+        members: Object.values(workspace.members).map(member => ({ userId: member.userId, role: member.role }))
+      }
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AgencyWorkspaceError) {
+      const status = error.code === 'not_found' ? 404 : error.code === 'forbidden' ? 403 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    logger.error('Error creating client workspace', { agencyId: params.agencyId, error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
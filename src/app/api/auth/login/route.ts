@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuth, getFirestore } from '@/lib/core/firebase/admin';
-import { signInWithEmailAndPassword } from 'firebase/auth';
-import { getApp } from 'firebase/app';
-import { doc, getDoc } from 'firebase/firestore';
 import { handleApiError } from '@/lib/features/auth/utils';
+import { verifyPassword } from '@/lib/features/auth/password';
+import {
+  twoFactorManager,
+  TRUSTED_DEVICE_COOKIE,
+  TRUSTED_DEVICE_MAX_AGE_DAYS
+} from '@/lib/features/user/auth/TwoFactorManager';
 
 // Force dynamic rendering - required for Firebase/database access
 export const dynamic = 'force-dynamic';
@@ -19,7 +22,7 @@ export async function POST(request: NextRequest) {
   try {
     // Parse request body
     const body = await request.json();
-    const { email, password } = body;
+    const { email, password, twoFactorCode, recoveryCode, rememberDevice } = body;
 
     // Validate required fields
     if (!email || !password) {
@@ -34,8 +37,9 @@ export async function POST(request: NextRequest) {
       const auth = getAuth();
       const firestore = getFirestore();
       
-      // Check if user exists in Firebase Auth
-      const userRecord = await auth.getUserByEmail(email).catch(() => null);
+      // Check the password with Firebase Auth before anything about the account is used
+      const userId = await verifyPassword(email, password);
+      const userRecord = userId ? await auth.getUser(userId).catch(() => null) : null;
       
       if (!userRecord) {
         return NextResponse.json(
@@ -44,10 +48,6 @@ export async function POST(request: NextRequest) {
         );
       }
       
-      // Verify user credentials (We can't directly verify passwords in Admin SDK, 
-      // but we can create a custom token and verify it exists)
-      const customToken = await auth.createCustomToken(userRecord.uid);
-      
       // Get user data from Firestore
       const userDoc = await firestore.collection('users').doc(userRecord.uid).get();
       
@@ -60,6 +60,40 @@ export async function POST(request: NextRequest) {
       
       const userData = userDoc.data();
       
+      // Users with two-factor authentication send a code, a recovery code or a remembered device token
+      const twoFactor = await twoFactorManager.checkLogin(
+        userRecord.uid,
+        { code: twoFactorCode, recoveryCode },
+        request.cookies.get(TRUSTED_DEVICE_COOKIE)?.value
+      );
+      
+      if (twoFactor.lockedUntil) {
+        return NextResponse.json(
+          {
+            error: 'Too many invalid two-factor codes; try again later',
+            twoFactorRequired: true,
+            lockedUntil: twoFactor.lockedUntil.toISOString()
+          },
+          {
+            status: 429,
+            headers: { 'Retry-After': String(Math.ceil((twoFactor.lockedUntil.getTime() - Date.now()) / 1000)) }
+          }
+        );
+      }
+      
+      if (twoFactor.challengeRequired) {
+        return NextResponse.json(
+          {
+            error: twoFactorCode || recoveryCode ? 'Invalid two-factor code' : 'Two-factor authentication required',
+            twoFactorRequired: true
+          },
+          { status: 401 }
+        );
+      }
+      
+      // Create custom token for session
+      const customToken = await auth.createCustomToken(userRecord.uid);
+      
       // Create a user object without sensitive information
       const userResponse = {
         id: userRecord.uid,
@@ -76,9 +110,33 @@ export async function POST(request: NextRequest) {
       const response = NextResponse.json({
         user: userResponse,
         token: customToken,
-        message: 'Login successful'
+        message: 'Login successful',
+        // Organization policy requires enrolling before the deadline
+        ...(twoFactor.requirement.required && !twoFactor.method ? {
+          twoFactorSetupRequired: {
+            organizationId: twoFactor.requirement.organizationId,
+            deadline: twoFactor.requirement.deadline,
+            blocked: twoFactor.requirement.blocked
+          }
+        } : {})
       });
 
+      if (rememberDevice && (twoFactor.method === 'totp' || twoFactor.method === 'recovery_code')) {
+        const device = await twoFactorManager.createTrustedDevice(userRecord.uid, {
+          userAgent: request.headers.get('user-agent') || undefined,
+          ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || undefined
+        });
+        response.cookies.set({
+          name: TRUSTED_DEVICE_COOKIE,
+          value: device.token,
+          httpOnly: true,
+          secure: process.env.NODE_ENV === 'production',
+          sameSite: 'lax',
+          maxAge: TRUSTED_DEVICE_MAX_AGE_DAYS * 24 * 60 * 60,
+          path: '/',
+        });
+      }
+
       // Set a session cookie
       response.cookies.set({
         name: 'session',
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/core/logging/logger';
+import { samlService, SamlError } from '@/lib/features/auth/saml';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * SAML assertion consumer service
+ *
+ * POST /api/auth/saml/:organizationId/acs
+ *   Form post from the identity provider with SAMLResponse and RelayState.
+ *   A valid response redirects to the SSO login page with a single-use ticket,
+ *   which the page exchanges for a session.
+ */
+export async function POST(req: NextRequest, { params }: { params: { organizationId: string } }) {
+  try {
+    const form = await req.formData();
+    const samlResponse = form.get('SAMLResponse');
+    if (typeof samlResponse !== 'string' || !samlResponse) {
+      return NextResponse.redirect(new URL('/login/sso?error=invalid_response', req.url), 303);
+    }
+
+    const relayState = form.get('RelayState');
+    const result = await samlService.handleResponse(
+      params.organizationId,
+      samlResponse,
+      typeof relayState === 'string' ? relayState : undefined
+    );
+
+    const redirectUrl = new URL('/login/sso', req.url);
+    redirectUrl.searchParams.set('ticket', result.ticket);
+    if (result.relayState) {
+      redirectUrl.searchParams.set('callbackUrl', result.relayState);
+    }
+    return NextResponse.redirect(redirectUrl, 303);
+  } catch (error) {
+    const code = error instanceof SamlError ? error.code : 'server_error';
+    if (!(error instanceof SamlError)) {
+      logger.error('Error handling SAML response', { organizationId: params.organizationId, error });
+    }
+    return NextResponse.redirect(new URL(`/login/sso?error=${code}`, req.url), 303);
+  }
+}
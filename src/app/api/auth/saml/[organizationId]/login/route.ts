@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/core/logging/logger';
+import { samlService, SamlError } from '@/lib/features/auth/saml';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Start a SAML sign-in
+ *
+ * GET /api/auth/saml/:organizationId/login?callbackUrl=/dashboard
+ *   Redirects to the organization's identity provider. The callback URL must
+ *   be a path in the app; it travels to the IdP and back as the RelayState.
+ */
+export async function GET(req: NextRequest, { params }: { params: { organizationId: string } }) {
+  const callbackUrl = req.nextUrl.searchParams.get('callbackUrl') || '';
+  const relayState = callbackUrl.startsWith('/') && !callbackUrl.startsWith('//') ? callbackUrl : '';
+
+  try {
+    const loginUrl = await samlService.getLoginUrl(params.organizationId, relayState);
+    return NextResponse.redirect(loginUrl);
+  } catch (error) {
+    const code = error instanceof SamlError ? error.code : 'server_error';
+    if (!(error instanceof SamlError)) {
+      logger.error('Error starting SAML sign-in', { organizationId: params.organizationId, error });
+    }
+    return NextResponse.redirect(new URL(`/login/sso?error=${code}`, req.url));
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/core/logging/logger';
+import { samlService } from '@/lib/features/auth/saml';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Service provider metadata
+ *
+ * GET /api/auth/saml/:organizationId/metadata
+ *   XML to upload to the organization's identity provider
+ */
+export async function GET(req: NextRequest, { params }: { params: { organizationId: string } }) {
+  try {
+    return new NextResponse(samlService.getServiceProviderMetadata(params.organizationId), {
+      headers: { 'Content-Type': 'application/samlmetadata+xml' }
+    });
+  } catch (error) {
+    logger.error('Error generating SAML metadata', { organizationId: params.organizationId, error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
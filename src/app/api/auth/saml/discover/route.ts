@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/core/logging/logger';
+import { samlService } from '@/lib/features/auth/saml';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Find the SSO connection for an email
+ *
+ * GET /api/auth/saml/discover?email=jo@example.com
+ *   Organization and sign-in URL for the email's verified domain, or 404
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const email = req.nextUrl.searchParams.get('email');
+    if (!email || !email.includes('@')) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+
+    const connection = await samlService.findConnectionByEmail(email);
+    if (!connection) {
+      return NextResponse.json({ error: 'Single sign-on is not set up for this email domain' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      organizationId: connection.organizationId,
+      loginUrl: samlService.getServiceProvider(connection.organizationId).loginUrl
+    });
+  } catch (error) {
+    logger.error('Error discovering SSO connection', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
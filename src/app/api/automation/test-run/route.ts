@@ -0,0 +1,158 @@
+/**
+ * Automation Test Run API
+ *
+ * POST /api/automation/test-run
+ *
+ * Test a workflow against a sample event without side effects:
+ *   { "workflowId": "...", "event": { "type"?, "data": {...} }, "mockOutputs"?: { "<stepId>": ... } }
+ *
+ * Replay a past execution with its stored trigger data (dry run by default):
+ *   { "executionId": "...", "execute"?: true }
+ * Only the workflow's creator and organization owners/admins may replay with "execute".
+ *
+ * Responses include a per-step trace of every condition comparison.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/features/auth';
+import { getFirestore } from '@/lib/core/firebase/admin';
+import { logger } from '@/lib/core/logging/logger';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import automationEngine from '@/lib/automation/engine';
+import { Workflow } from '@/lib/automation/models';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const body = await request.json().catch(() => null);
+
+    if (!body || (!body.workflowId && !body.executionId)) {
+      return NextResponse.json(
+        { error: 'Either workflowId or executionId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.executionId) {
+      const execution = await automationEngine.getExecution(body.executionId);
+      const workflow = execution ? await automationEngine.getWorkflow(execution.workflowId) : null;
+
+      if (!execution || !workflow) {
+        return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+      }
+
+      if (!await canAccessWorkflow(userId, workflow)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+
+      if (body.execute === true && !await canExecuteWorkflow(userId, workflow)) {
+        return NextResponse.json(
+          { error: 'Only the workflow owner or an organization admin can execute a replay' },
+          { status: 403 }
+        );
+      }
+
+      const result = await automationEngine.replayExecution(body.executionId, {
+        dryRun: body.execute !== true
+      });
+
+      logger.info('Automation execution replayed', {
+        executionId: body.executionId,
+        workflowId: workflow.id,
+        dryRun: body.execute !== true,
+        userId
+      });
+
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    const workflow = await automationEngine.getWorkflow(body.workflowId);
+
+    if (!workflow) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+    }
+
+    if (!await canAccessWorkflow(userId, workflow)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!body.event || typeof body.event.data !== 'object') {
+      return NextResponse.json(
+        { error: 'event.data must be an object' },
+        { status: 400 }
+      );
+    }
+
+    const dryRun = await automationEngine.dryRunWorkflow(
+      workflow,
+      {
+        type: body.event.type || workflow.trigger.type,
+        data: body.event.data,
+        timestamp: new Date(),
+        userId: body.event.userId || userId,
+        organizationId: body.event.organizationId || workflow.organizationId,
+        metadata: { testRun: true }
+      },
+      { mockOutputs: body.mockOutputs || {} }
+    );
+
+    return NextResponse.json({ success: true, dryRun });
+  } catch (error) {
+    logger.error('Error running automation test', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Users may test workflows they created or that belong to their organization
+ */
+async function canAccessWorkflow(userId: string, workflow: Workflow): Promise<boolean> {
+  if (workflow.createdBy === userId) {
+    return true;
+  }
+
+  if (!workflow.organizationId) {
+    return false;
+  }
+
+  const userDoc = await getFirestore().collection('users').doc(userId).get();
+  const userData = userDoc.exists ? userDoc.data() : null;
+
+  return userData?.currentOrganizationId === workflow.organizationId ||
+    userData?.personalOrganizationId === workflow.organizationId;
+}
+
+/**
+ * Replays with side effects are limited to the workflow's creator and organization owners/admins
+ */
+async function canExecuteWorkflow(userId: string, workflow: Workflow): Promise<boolean> {
+  if (workflow.createdBy === userId) {
+    return true;
+  }
+
+  return !!workflow.organizationId && await hasOrganizationRole(userId, workflow.organizationId, [
+    OrganizationRole.OWNER,
+    OrganizationRole.ADMIN
+  ]);
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import calendarFeedService, { CalendarFeedError } from '@/lib/features/content/calendar/CalendarFeedService';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/calendar/feeds/[token].ics - iCalendar subscription feed
+ *
+ * The token in the URL is the only credential, so this route is public.
+ * Calendar apps poll it; revoked feeds answer 410 so they stop.
+ */
+
+const ERROR_STATUS: Record<CalendarFeedError['code'], number> = {
+  invalid: 400,
+  not_found: 404,
+  revoked: 410,
+  forbidden: 403
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    // Calendar apps expect the URL to end in .ics
+    const token = params.token.replace(/\.ics$/, '');
+    const { feed, ics } = await calendarFeedService.renderFeed(token);
+
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${feed.scope === 'team' ? 'team' : 'my'}-content-calendar.ics"`,
+        'Cache-Control': 'private, max-age=300'
+      }
+    });
+  } catch (error) {
+    if (error instanceof CalendarFeedError) {
+      return NextResponse.json({ error: error.message }, { status: ERROR_STATUS[error.code] });
+    }
+
+    logger.error('Error rendering calendar feed', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@
  *
  * Endpoints for analytics-based posting time recommendations:
  * - GET: Get best time to post recommendations
+ *   ?platform=&timezone=&organizationId=&accountId=&explain=true
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -11,6 +12,8 @@ import { authOptions } from '@/lib/features/auth';
 import { contentGenerationService } from '@/lib/features/content/ContentGenerationService';
 import { logger } from '@/lib/core/logging/logger';
 import { PlatformType } from '@/lib/features/platforms/PlatformProvider';
+import { isValidTimezone } from '@/lib/features/content/calendar/ics';
+import { getUserOrganizationRole } from '@/lib/team/users/organization';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -54,6 +57,9 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const platformType = searchParams.get('platform') as PlatformType | null;
     const timezone = searchParams.get('timezone') || 'America/New_York';
+    const organizationId = searchParams.get('organizationId') || undefined;
+    const accountId = searchParams.get('accountId') || undefined;
+    const explain = searchParams.get('explain') === 'true';
 
     // Validate platform type
     if (!platformType) {
@@ -70,19 +76,41 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (!isValidTimezone(timezone)) {
+      return NextResponse.json(
+        { error: 'Invalid Request', message: `Invalid timezone: ${timezone}` },
+        { status: 400 }
+      );
+    }
+
+    // Organization-wide history is only for members of the organization
+    if (organizationId && !(await getUserOrganizationRole(userId, organizationId))) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'You are not a member of this organization' },
+        { status: 403 }
+      );
+    }
+
     logger.info('Getting best time to post', {
       userId,
       platformType,
-      timezone
+      timezone,
+      accountId
     });
 
     // Get recommendations
     const recommendations = await contentGenerationService.getBestTimeToPost(
       userId,
       platformType,
-      timezone
+      timezone,
+      { organizationId, accountId }
     );
 
+    // The AI only explains the recommendations when asked
+    const explanation = explain
+      ? await contentGenerationService.explainBestTimes(recommendations, platformType, userId, organizationId)
+      : undefined;
+
     logger.info('Best time recommendations generated', {
       userId,
       recommendationsCount: recommendations.length
@@ -91,6 +119,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       recommendations,
+      ...(explanation ? { explanation } : {}),
       platformType,
       timezone
     });
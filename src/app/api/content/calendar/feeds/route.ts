@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import calendarFeedService, {
+  CalendarFeedError,
+  CreateCalendarFeedInput
+} from '@/lib/features/content/calendar/CalendarFeedService';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { getCurrentUser } from '@/lib/auth/token';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Calendar subscription feeds
+ *
+ * GET /api/content/calendar/feeds?organizationId=... - List the user's and the team's feeds
+ * POST /api/content/calendar/feeds - Create a feed and get its secret URL
+ * DELETE /api/content/calendar/feeds?feedId=... - Revoke a feed
+ */
+
+const ALL_ROLES = [OrganizationRole.OWNER, OrganizationRole.ADMIN, OrganizationRole.MEMBER, OrganizationRole.VIEWER];
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = request.nextUrl.searchParams.get('organizationId') || user.organizationId;
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(user.id, organizationId, ALL_ROLES))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const feeds = await calendarFeedService.listFeeds(organizationId, user.id);
+    return NextResponse.json({ feeds });
+  } catch (error) {
+    logger.error('Error listing calendar feeds', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input: CreateCalendarFeedInput = {
+      name: body.name,
+      scope: body.scope || 'user',
+      organizationId: body.organizationId || user.organizationId,
+      teamId: body.teamId,
+      timezone: body.timezone,
+      filters: body.filters
+    };
+
+    if (!input.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    // Anyone in the organization can follow their own items; team feeds expose everyone's
+    const roles = input.scope === 'team'
+      ? [OrganizationRole.OWNER, OrganizationRole.ADMIN, OrganizationRole.MEMBER]
+      : ALL_ROLES;
+    if (!(await hasOrganizationRole(user.id, input.organizationId, roles))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const result = await calendarFeedService.createFeed(input, user.id);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof CalendarFeedError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    logger.error('Error creating calendar feed', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const feedId = request.nextUrl.searchParams.get('feedId');
+    if (!feedId) {
+      return NextResponse.json({ error: 'Feed ID is required' }, { status: 400 });
+    }
+
+    const feed = await calendarFeedService.getFeed(feedId);
+    if (!feed) {
+      return NextResponse.json({ error: 'Feed not found' }, { status: 404 });
+    }
+
+    // Owners revoke their feeds; organization admins can revoke any
+    const canRevoke = feed.userId === user.id ||
+      await hasOrganizationRole(user.id, feed.organizationId, [OrganizationRole.OWNER, OrganizationRole.ADMIN]);
+    if (!canRevoke) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const revoked = await calendarFeedService.revokeFeed(feedId, user.id);
+    return NextResponse.json({ feed: revoked });
+  } catch (error) {
+    if (error instanceof CalendarFeedError) {
+      return NextResponse.json({ error: error.message }, { status: error.code === 'not_found' ? 404 : 400 });
+    }
+
+    logger.error('Error revoking calendar feed', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
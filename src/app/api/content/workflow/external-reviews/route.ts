@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import workflowService, { WorkflowError } from '@/lib/features/content/workflow/WorkflowService';
+import externalReviewService, { ExternalReviewError } from '@/lib/features/content/workflow/ExternalReviewService';
+import { CreateExternalReviewInviteInput } from '@/lib/features/content/models/workflow';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { getCurrentUser, TokenUser } from '@/lib/auth/token';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * External reviewer invites for a content item
+ *
+ * GET /api/content/workflow/external-reviews?contentId=... - List invites
+ * GET /api/content/workflow/external-reviews?contentId=...&export=csv|pdf - Download the approval audit trail
+ * POST /api/content/workflow/external-reviews - Invite a reviewer by email
+ * DELETE /api/content/workflow/external-reviews?inviteId=... - Revoke an invite
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contentId = request.nextUrl.searchParams.get('contentId');
+    if (!contentId) {
+      return NextResponse.json({ error: 'Content ID is required' }, { status: 400 });
+    }
+
+    if (!(await canManageReviews(user, contentId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const exportFormat = request.nextUrl.searchParams.get('export');
+    if (exportFormat) {
+      if (exportFormat !== 'csv' && exportFormat !== 'pdf') {
+        return NextResponse.json({ error: 'Unsupported format' }, { status: 400 });
+      }
+
+      const trail = await externalReviewService.getAuditTrail(contentId);
+      const file = await externalReviewService.exportAuditTrail(trail, exportFormat);
+
+      return new NextResponse(new Uint8Array(file.data), {
+        headers: {
+          'Content-Type': file.contentType,
+          'Content-Disposition': `attachment; filename=${file.filename}`
+        }
+      });
+    }
+
+    const invites = await externalReviewService.listInvites(contentId);
+    return NextResponse.json({ invites });
+  } catch (error) {
+    logger.error('Error listing external review invites', { error });
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (!body.contentId) {
+      return NextResponse.json({ error: 'Content ID is required' }, { status: 400 });
+    }
+
+    if (!(await canManageReviews(user, body.contentId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input: CreateExternalReviewInviteInput = {
+      contentId: body.contentId,
+      reviewerName: body.reviewerName,
+      reviewerEmail: body.reviewerEmail,
+      stageId: body.stageId,
+      message: body.message,
+      expiresInHours: body.expiresInHours
+    };
+
+    const result = await externalReviewService.createInvite(input, user.id, user.displayName || user.email);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    logger.error('Error creating external review invite', { error });
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const inviteId = request.nextUrl.searchParams.get('inviteId');
+    if (!inviteId) {
+      return NextResponse.json({ error: 'Invite ID is required' }, { status: 400 });
+    }
+
+    const invite = await externalReviewService.getInvite(inviteId);
+    if (!invite) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    if (!(await canManageReviews(user, invite.contentId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const revoked = await externalReviewService.revokeInvite(inviteId, user.id, user.displayName || user.email);
+    return NextResponse.json({ invite: revoked });
+  } catch (error) {
+    logger.error('Error revoking external review invite', { error });
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Whether a user may invite external reviewers for, and see the audit trail
+ * of, a content item: members of the organization that owns its workflow
+ */
+async function canManageReviews(user: TokenUser, contentId: string): Promise<boolean> {
+  const workflowStatus = await workflowService.getWorkflowStatus(contentId);
+  if (!workflowStatus) {
+    return false;
+  }
+
+  let organizationId = workflowStatus.organizationId;
+  if (!organizationId) {
+    const template = await workflowService.getTemplate(workflowStatus.templateId);
+    organizationId = template?.organizationId;
+  }
+
+  return !!organizationId && hasOrganizationRole(user.id, organizationId, [
+    OrganizationRole.OWNER,
+    OrganizationRole.ADMIN,
+    OrganizationRole.MEMBER
+  ]);
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof ExternalReviewError) {
+    return NextResponse.json({ error: error.message }, { status: error.code === 'not_found' ? 404 : 400 });
+  }
+  if (error instanceof WorkflowError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
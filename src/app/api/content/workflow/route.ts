@@ -14,6 +14,7 @@ import { OrganizationRole } from '../../../../lib/team/users/organization';
 import { getCurrentUser } from '../../../../lib/auth/token';
 import { hasOrganizationRole } from '../../../../lib/auth/middleware';
 import { Logger, LogLevel } from '../../../../lib/core/logging/logger';
+import slackIntegrationService from '../../../../lib/workflow/SlackIntegrationService';
 
 // Force dynamic rendering - required for Firebase/database access
 export const dynamic = 'force-dynamic';
@@ -217,6 +218,16 @@ export async function POST(request: NextRequest) {
       const teamRole = await getCurrentUserOrganizationRole(user.id, organizationId);
       
       const status = await workflowService.transitionWorkflow(input, user.id, teamRole);
+      
+      // Ask for approval in Slack too; the submission stands if Slack is unreachable
+      if (input.action === WorkflowAction.SUBMIT) {
+        try {
+          await slackIntegrationService.sendApprovalRequest(status, user.displayName || user.email);
+        } catch (slackError) {
+          logger.error('Error sending Slack approval request', { contentId, error: slackError });
+        }
+      }
+      
       return NextResponse.json(status);
     }
     
@@ -232,7 +243,13 @@ export async function POST(request: NextRequest) {
         ...body
       };
       
-      const status = await workflowService.submitReview(input, user.id);
+      // Approval stages can accept reviewers by their role in the content's organization
+      const workflowStatus = await workflowService.getWorkflowStatus(contentId);
+      const teamRole = workflowStatus?.organizationId
+        ? await getCurrentUserOrganizationRole(user.id, workflowStatus.organizationId)
+        : undefined;
+      
+      const status = await workflowService.submitReview(input, user.id, teamRole);
       return NextResponse.json(status);
     }
     
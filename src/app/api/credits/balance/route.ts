@@ -60,6 +60,7 @@ export async function GET(request: NextRequest) {
       success: true,
       balance: {
         current: balance.balance,
+        reserved: balance.reserved,
         isUnlimited: balance.isUnlimited,
         lifetimeEarned: balance.lifetimeEarned,
         lifetimeSpent: balance.lifetimeSpent,
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { TeamAuditLogger, AuditLogCategory, AuditLogSeverity } from '@/lib/features/team/activity/audit-logger';
+import { CRMError } from '@/lib/features/crm/types';
+import { ConflictQueue } from '@/lib/features/crm/sync/ConflictQueue';
+import { SyncConflictAction } from '@/lib/features/crm/models/SyncConflict';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const ACTIONS: SyncConflictAction[] = ['accept_source', 'accept_target', 'merge'];
+
+/**
+ * Resolve a CRM sync conflict
+ * Body: { action: 'accept_source' | 'accept_target' | 'merge', values? }.
+ * accept_source applies the CRM's values, accept_target keeps ours, and merge
+ * takes `values` (field -> value) for the fields given and keeps ours for the rest.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { conflictId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { action, values } = body;
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `action must be one of: ${ACTIONS.join(', ')}` }, { status: 400 });
+    }
+    if (values !== undefined && (action !== 'merge' || typeof values !== 'object' || values === null || Array.isArray(values))) {
+      return NextResponse.json({ error: 'values is only accepted as an object for a merge' }, { status: 400 });
+    }
+
+    const conflictQueue = new ConflictQueue();
+    const conflict = await conflictQueue.get(params.conflictId);
+    if (!conflict) {
+      return NextResponse.json({ error: 'Conflict not found' }, { status: 404 });
+    }
+
+    const isOwner = conflict.userId === session.user.id || conflict.userId === session.user.email;
+    const canReview = isOwner || (!!conflict.organizationId && await hasOrganizationRole(
+      session.user.id,
+      conflict.organizationId,
+      [OrganizationRole.OWNER, OrganizationRole.ADMIN]
+    ));
+    if (!canReview) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { previous, resolved } = await conflictQueue.resolve(params.conflictId, action, session.user.id, values);
+
+    await new TeamAuditLogger().log({
+      userId: session.user.id,
+      category: AuditLogCategory.PLATFORM,
+      action: 'crm_conflict_resolved',
+      severity: AuditLogSeverity.INFO,
+      resourceId: resolved.recordId,
+      resourceType: `crm_${resolved.dataType}`,
+      ...(resolved.organizationId ? { organizationId: resolved.organizationId } : {}),
+      previousState: {
+        status: previous.status,
+        conflicts: previous.conflicts
+      },
+      newState: {
+        status: resolved.status,
+        values: resolved.resolution?.values
+      },
+      metadata: {
+        conflictId: resolved.id,
+        connectionId: resolved.connectionId,
+        platform: resolved.platform,
+        externalId: resolved.externalId,
+        action
+      }
+    });
+
+    return NextResponse.json({ conflict: resolved });
+
+  } catch (error) {
+    if (error instanceof CRMError && error.statusCode && error.statusCode < 500) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error('Error resolving CRM sync conflict', { conflictId: params.conflictId, error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
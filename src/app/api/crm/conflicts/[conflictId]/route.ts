@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { ConflictQueue } from '@/lib/features/crm/sync/ConflictQueue';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Get a CRM sync conflict with its field-level differences
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { conflictId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const conflict = await new ConflictQueue().get(params.conflictId);
+    if (!conflict) {
+      return NextResponse.json({ error: 'Conflict not found' }, { status: 404 });
+    }
+
+    const isOwner = conflict.userId === session.user.id || conflict.userId === session.user.email;
+    const canReview = isOwner || (!!conflict.organizationId && await hasOrganizationRole(
+      session.user.id,
+      conflict.organizationId,
+      [OrganizationRole.OWNER, OrganizationRole.ADMIN]
+    ));
+    if (!canReview) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    return NextResponse.json({ conflict });
+
+  } catch (error) {
+    logger.error('Error getting CRM sync conflict', { conflictId: params.conflictId, error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
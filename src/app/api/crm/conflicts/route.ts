@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { ConflictQueue } from '@/lib/features/crm/sync/ConflictQueue';
+import { SyncConflictStatus } from '@/lib/features/crm/models/SyncConflict';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const STATUSES: SyncConflictStatus[] = ['pending', 'resolved'];
+
+/**
+ * List CRM sync conflicts held for review
+ * Returns the caller's own conflicts, or an organization's when the caller
+ * administers it (?organizationId=). Filter with ?status=pending|resolved.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const organizationId = searchParams.get('organizationId');
+    const status = searchParams.get('status') || 'pending';
+
+    if (!STATUSES.includes(status as SyncConflictStatus)) {
+      return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+    }
+
+    if (organizationId) {
+      const canReview = await hasOrganizationRole(session.user.id, organizationId, [
+        OrganizationRole.OWNER,
+        OrganizationRole.ADMIN
+      ]);
+      if (!canReview) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    const conflictQueue = new ConflictQueue();
+    const conflicts = organizationId
+      ? await conflictQueue.list({ organizationId, status: status as SyncConflictStatus })
+      // CRM connections are owned by either the user id or the email the user connected with
+      : (await Promise.all(
+          [session.user.id, session.user.email]
+            .filter((owner): owner is string => !!owner)
+            .map(userId => conflictQueue.list({ userId, status: status as SyncConflictStatus }))
+        )).flat();
+
+    return NextResponse.json({ conflicts });
+
+  } catch (error) {
+    logger.error('Error listing CRM sync conflicts', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -9,6 +9,7 @@ import { SalesforceAdapter } from '@/lib/features/integrations/SalesforceAdapter
 import { ZohoCRMAdapter } from '@/lib/features/integrations/ZohoCRMAdapter';
 import { handleApiError } from '@/lib/features/auth/utils';
 import { TokenRefreshService } from '@/lib/features/integrations/TokenRefreshService';
+import { CRMConnectionUtils } from '@/lib/features/crm/models/CRMConnection';
 
 // Force dynamic rendering - required for Firebase/database access
 export const dynamic = 'force-dynamic';
@@ -80,7 +81,7 @@ export async function GET(request: NextRequest) {
       const connection = doc.data();
       const platform = connection.platform;
       const connectionId = doc.id;
-      let tokens = connection.tokens;
+      let tokens = CRMConnectionUtils.openTokens(connection.tokens);
       
       try {
         // Check if token is expired and refresh if needed
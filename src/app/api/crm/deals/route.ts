@@ -12,6 +12,7 @@ import { DynamicsCRMAdapter } from '@/lib/features/integrations/DynamicsCRMAdapt
 import { SugarCRMAdapter } from '@/lib/features/integrations/SugarCRMAdapter';
 import { handleApiError } from '@/lib/features/auth/utils';
 import { TokenRefreshService } from '@/lib/features/integrations/TokenRefreshService';
+import { CRMConnectionUtils } from '@/lib/features/crm/models/CRMConnection';
 
 // Force dynamic rendering - required for Firebase/database access
 export const dynamic = 'force-dynamic';
@@ -126,7 +127,7 @@ export async function GET(request: NextRequest) {
       const connection = doc.data();
       const platform = connection.platform;
       const connectionId = doc.id;
-      let tokens = connection.tokens;
+      let tokens = CRMConnectionUtils.openTokens(connection.tokens);
       
       try {
         // Check if token is expired and refresh if needed
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auditExportService } from '@/lib/features/team/activity/audit-export';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Cron endpoint for scheduled audit log exports
+ * Writes each due chain's new entries to storage as NDJSON or CSV; a chain
+ * with more entries than one export holds continues on the next run.
+ *
+ * Security: Verify cron secret to prevent unauthorized access
+ *
+ * Example cron schedule (Vercel):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/audit-export",
+ *     "schedule": "30 * * * *"
+ *   }]
+ * }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      logger.warn('Unauthorized cron request', {
+        hasAuthHeader: !!authHeader,
+        hasCronSecret: !!cronSecret
+      });
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const runs = await auditExportService.runScheduledExports();
+    const duration = Date.now() - startTime;
+
+    logger.info('Audit export job completed', {
+      exports: runs.length,
+      entries: runs.reduce((sum, run) => sum + run.exported, 0),
+      failures: runs.filter(run => run.error).length,
+      durationMs: duration
+    });
+
+    return NextResponse.json({
+      success: true,
+      runs,
+      durationMs: duration
+    });
+  } catch (error: any) {
+    logger.error('Error in audit export job', {
+      error: error.message || error
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'Failed to run audit exports'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Cron Job: Resume Waiting Automation Workflows
+ *
+ * Continues graph workflow executions whose delay step has elapsed.
+ * Waiting executions are stored in Firestore, so delays survive
+ * deployments and restarts.
+ *
+ * Vercel Cron Configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/automation-resume",
+ *     "schedule": "*\/5 * * * *"
+ *   }]
+ * }
+ *
+ * Security: Protected by CRON_SECRET environment variable
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import automationEngine from '@/lib/automation/engine';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+export const maxDuration = 300; // 5 minutes max execution
+
+/**
+ * POST /api/cron/automation-resume
+ * Resume waiting workflow executions that are due
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    // Verify cron secret for security
+    if (!isAuthorized(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    logger.info('Cron job started: automation-resume');
+
+    const stats = await automationEngine.resumeWaitingExecutions();
+
+    const duration = Date.now() - startTime;
+
+    logger.info('Cron job completed: automation-resume', {
+      ...stats,
+      duration
+    });
+
+    return NextResponse.json({
+      success: true,
+      stats: {
+        ...stats,
+        duration
+      },
+      message: `Resumed ${stats.resumed} executions: ${stats.completed} completed, ${stats.failed} failed, ${stats.waiting} waiting`
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error('Cron job error: automation-resume', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      duration
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        duration
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/cron/automation-resume
+ * Health check endpoint
+ */
+export async function GET() {
+  return NextResponse.json({
+    endpoint: 'automation-resume',
+    status: 'ready',
+    description: 'Resumes automation workflows waiting on delay steps',
+    schedule: 'Every 5 minutes (*\/5 * * * *)',
+    security: process.env.CRON_SECRET ? 'Protected with CRON_SECRET' : 'UNPROTECTED - Set CRON_SECRET!',
+    maxDuration: '300 seconds'
+  });
+}
+
+/**
+ * Verify the cron secret bearer token
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    logger.warn('CRON_SECRET not configured - cron endpoint unprotected!');
+    return true;
+  }
+
+  if (!authHeader || authHeader !== `Bearer ${cronSecret}`) {
+    logger.warn('Unauthorized cron access attempt', {
+      ip: request.headers.get('x-forwarded-for') || 'unknown'
+    });
+    return false;
+  }
+
+  return true;
+}
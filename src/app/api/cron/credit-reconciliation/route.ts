@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { creditService } from '@/lib/features/credits/CreditService';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Cron endpoint to reconcile credit balances
+ * Settles expired credit reservations (charging the ones whose operation
+ * succeeded but could not commit, releasing the rest), then recomputes each
+ * balance from its transaction history and flags any that disagree for review.
+ *
+ * Security: Verify cron secret to prevent unauthorized access
+ *
+ * Example cron schedule (Vercel):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/credit-reconciliation",
+ *     "schedule": "0 4 * * *"
+ *   }]
+ * }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      logger.warn('Unauthorized cron request', {
+        hasAuthHeader: !!authHeader,
+        hasCronSecret: !!cronSecret
+      });
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const result = await creditService.reconcileBalances();
+    const duration = Date.now() - startTime;
+
+    logger.info('Credit reconciliation job completed', {
+      ...result,
+      durationMs: duration
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: duration
+    });
+  } catch (error: any) {
+    logger.error('Error in credit reconciliation job', {
+      error: error.message || error
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'Failed to reconcile credit balances'
+      },
+      { status: 500 }
+    );
+  }
+}
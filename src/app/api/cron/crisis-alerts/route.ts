@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import slackIntegrationService from '@/lib/workflow/SlackIntegrationService';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Cron endpoint to send Slack crisis alerts
+ * Organizations routing crisis alerts to Slack get an alert when social
+ * listening shows new or rising crisis indicators.
+ *
+ * Security: Verify cron secret to prevent unauthorized access
+ *
+ * Example cron schedule (Vercel):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/crisis-alerts",
+ *     "schedule": "*\/30 * * * *"
+ *   }]
+ * }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      logger.warn('Unauthorized cron request', {
+        hasAuthHeader: !!authHeader,
+        hasCronSecret: !!cronSecret
+      });
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const result = await slackIntegrationService.checkAllCrisisAlerts();
+    const duration = Date.now() - startTime;
+
+    logger.info('Crisis alert job completed', {
+      ...result,
+      durationMs: duration
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: duration
+    });
+  } catch (error: any) {
+    logger.error('Error in crisis alert job', {
+      error: error.message || error
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'Failed to check crisis alerts'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EngagementSync } from '@/lib/features/crm/sync/EngagementSync';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Cron endpoint to retry deferred CRM engagement pushes
+ * Social engagement held back by a CRM rate limit or outage is pushed once
+ * its backoff has elapsed; pushes that keep failing are marked failed.
+ *
+ * Security: Verify cron secret to prevent unauthorized access
+ *
+ * Example cron schedule (Vercel):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/crm-engagement-push",
+ *     "schedule": "*\/15 * * * *"
+ *   }]
+ * }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      logger.warn('Unauthorized cron request', {
+        hasAuthHeader: !!authHeader,
+        hasCronSecret: !!cronSecret
+      });
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const result = await new EngagementSync().retryDeferred();
+    const duration = Date.now() - startTime;
+
+    logger.info('CRM engagement push job completed', {
+      ...result,
+      durationMs: duration
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: duration
+    });
+  } catch (error: any) {
+    logger.error('Error in CRM engagement push job', {
+      error: error.message || error
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'Failed to retry CRM engagement pushes'
+      },
+      { status: 500 }
+    );
+  }
+}
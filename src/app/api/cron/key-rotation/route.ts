@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { keyRotationService } from '@/lib/features/system/KeyRotationService';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Cron endpoint to continue running encryption key rotations
+ * Each run re-encrypts the next batch of stored secrets for every job an
+ * admin has started.
+ *
+ * Security: Verify cron secret to prevent unauthorized access
+ *
+ * Example cron schedule (Vercel):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/key-rotation",
+ *     "schedule": "*\/5 * * * *"
+ *   }]
+ * }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      logger.warn('Unauthorized cron request', {
+        hasAuthHeader: !!authHeader,
+        hasCronSecret: !!cronSecret
+      });
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const jobs = await keyRotationService.continueRunningJobs();
+    const duration = Date.now() - startTime;
+
+    const results = jobs.map(job => ({
+      jobId: job.id,
+      status: job.status,
+      ...keyRotationService.getProgress(job)
+    }));
+
+    logger.info('Key rotation job completed', {
+      jobs: results,
+      durationMs: duration
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobs: results,
+      durationMs: duration
+    });
+  } catch (error: any) {
+    logger.error('Error in key rotation job', {
+      error: error.message || error
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'Failed to continue key rotations'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -12,11 +12,17 @@
  *   }]
  * }
  *
- * Security: Protected by CRON_SECRET environment variable
+ * Dead-letter queue:
+ * - GET  /api/cron/publish-posts?view=dead-letters  lists dead-lettered posts
+ * - POST /api/cron/publish-posts { "action": "redrive", "postIds": [...] }
+ *
+ * Security: Protected by CRON_SECRET environment variable. The dead-letter
+ * view and re-drive are refused outright while CRON_SECRET is not set.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { publishProcessor } from '@/lib/features/scheduling/PublishProcessor';
+import { publishQueue } from '@/lib/features/scheduling/PublishQueue';
 import { logger } from '@/lib/core/logging/logger';
 
 // Force dynamic rendering
@@ -32,23 +38,32 @@ export async function POST(request: NextRequest) {
   const startTime = Date.now();
 
   try {
-    // Verify cron secret for security
-    const authHeader = request.headers.get('authorization');
-    const cronSecret = process.env.CRON_SECRET;
+    const body = await request.json().catch(() => ({}));
+    const redrive = body?.action === 'redrive';
 
-    if (cronSecret) {
-      if (!authHeader || authHeader !== `Bearer ${cronSecret}`) {
-        logger.warn('Unauthorized cron access attempt', {
-          ip: request.headers.get('x-forwarded-for') || 'unknown'
-        });
+    // Verify cron secret for security
+    if (!isAuthorized(request, redrive)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
 
+    if (redrive) {
+      if (!Array.isArray(body.postIds) || body.postIds.length === 0) {
         return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
+          { error: 'postIds must be a non-empty array' },
+          { status: 400 }
         );
       }
-    } else {
-      logger.warn('CRON_SECRET not configured - cron endpoint unprotected!');
+
+      const redriven = await publishProcessor.redriveDeadLetters(body.postIds);
+
+      return NextResponse.json({
+        success: true,
+        redriven,
+        message: `Re-drove ${redriven.length} of ${body.postIds.length} posts`
+      });
     }
 
     logger.info('Cron job started: publish-posts');
@@ -72,10 +87,11 @@ export async function POST(request: NextRequest) {
         successful: stats.successful,
         failed: stats.failed,
         skipped: stats.skipped,
+        deferred: stats.deferred,
         duration,
         errors: stats.errors
       },
-      message: `Processed ${stats.processed} posts: ${stats.successful} successful, ${stats.failed} failed`
+      message: `Processed ${stats.processed} posts: ${stats.successful} successful, ${stats.failed} failed, ${stats.deferred} deferred`
     });
   } catch (error) {
     const duration = Date.now() - startTime;
@@ -100,9 +116,31 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/cron/publish-posts
- * Health check endpoint
+ * Health check endpoint, or the dead-letter view with ?view=dead-letters
  */
 export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  if (searchParams.get('view') === 'dead-letters') {
+    if (!isAuthorized(request, true)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const deadLetters = await publishQueue.listDeadLetters({
+      organizationId: searchParams.get('organizationId') || undefined,
+      limit: parseInt(searchParams.get('limit') || '100', 10)
+    });
+
+    return NextResponse.json({
+      success: true,
+      count: deadLetters.length,
+      deadLetters
+    });
+  }
+
   return NextResponse.json({
     endpoint: 'publish-posts',
     status: 'ready',
@@ -112,3 +150,30 @@ export async function GET(request: NextRequest) {
     maxDuration: '300 seconds'
   });
 }
+
+/**
+ * Verify the cron secret bearer token
+ * @param adminAction Dead-letter access, which is refused when CRON_SECRET is not set
+ */
+function isAuthorized(request: NextRequest, adminAction: boolean = false): boolean {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    if (adminAction) {
+      logger.error('CRON_SECRET not configured - refusing dead-letter access');
+      return false;
+    }
+    logger.warn('CRON_SECRET not configured - cron endpoint unprotected!');
+    return true;
+  }
+
+  if (!authHeader || authHeader !== `Bearer ${cronSecret}`) {
+    logger.warn('Unauthorized cron access attempt', {
+      ip: request.headers.get('x-forwarded-for') || 'unknown'
+    });
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookService } from '@/lib/webhooks/WebhookService';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Cron endpoint to retry failed outbound webhook deliveries
+ * Deliveries whose backoff has elapsed get another try; endpoints that keep
+ * failing are disabled and their organization's admins emailed.
+ *
+ * Security: Verify cron secret to prevent unauthorized access
+ *
+ * Example cron schedule (Vercel):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/webhook-retries",
+ *     "schedule": "*\/5 * * * *"
+ *   }]
+ * }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      logger.warn('Unauthorized cron request', {
+        hasAuthHeader: !!authHeader,
+        hasCronSecret: !!cronSecret
+      });
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const result = await new WebhookService().retryDueDeliveries();
+    const duration = Date.now() - startTime;
+
+    logger.info('Webhook retry job completed', {
+      ...result,
+      durationMs: duration
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: duration
+    });
+  } catch (error: any) {
+    logger.error('Error in webhook retry job', {
+      error: error.message || error
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'Failed to retry webhook deliveries'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import workflowService from '@/lib/features/content/workflow/WorkflowService';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Cron endpoint to escalate overdue content approval stages
+ * Stages past their due date get the escalation reviewers from their
+ * workflow template.
+ *
+ * Security: Verify cron secret to prevent unauthorized access
+ *
+ * Example cron schedule (Vercel):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/workflow-escalations",
+ *     "schedule": "*\/15 * * * *"
+ *   }]
+ * }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      logger.warn('Unauthorized cron request', {
+        hasAuthHeader: !!authHeader,
+        hasCronSecret: !!cronSecret
+      });
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const result = await workflowService.escalateOverdueWorkflows();
+    const duration = Date.now() - startTime;
+
+    logger.info('Workflow escalation job completed', {
+      ...result,
+      durationMs: duration
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: duration
+    });
+  } catch (error: any) {
+    logger.error('Error in workflow escalation job', {
+      error: error.message || error
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'Failed to escalate workflows'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,8 @@ import { getServerSession } from 'next-auth';
 import { firestore, getFirebaseFirestore } from '@/lib/core/firebase/client';
 import { doc, collection, setDoc, updateDoc, serverTimestamp, arrayUnion } from 'firebase/firestore';
 import { logger } from '@/lib/core/logging/logger';
+import { CRMConnectionUtils } from '@/lib/features/crm/models/CRMConnection';
+import { recordAuditEvent } from '@/lib/team/activity/audit-events';
 
 // Force dynamic rendering - required for Firebase/database access
 export const dynamic = 'force-dynamic';
@@ -59,6 +61,15 @@ export async function GET(request: NextRequest) {
       try {
         await storeCRMConnection(session.user.email, platform, tokens, accountInfo);
         logger.info('CRM connection saved successfully', { platform, userId: session.user.email });
+        await recordAuditEvent({
+          userId: (session.user as any).id || session.user.email,
+          category: 'platform',
+          action: 'connect_crm',
+          severity: 'info',
+          resourceId: `${session.user.email}_${platform}`,
+          resourceType: 'crm_connection',
+          metadata: { platform, scope: tokens.scope || '' }
+        });
       } catch (storageError) {
         logger.error('Failed to store CRM connection', { platform, error: storageError });
         return NextResponse.redirect(
@@ -135,7 +146,8 @@ async function storeCRMConnection(userId: string, platform: string, tokens: any,
     accountId: accountInfo.id,
     accountName: accountInfo.name,
     accountEmail: accountInfo.email,
-    tokens: {
+    tokens: CRMConnectionUtils.sealTokens({
+      access_token: tokens.access_token,
       accessToken: tokens.access_token,
       refreshToken: tokens.refresh_token,
       // Convert expires_in (seconds) to expiry timestamp (milliseconds)
@@ -144,7 +156,7 @@ async function storeCRMConnection(userId: string, platform: string, tokens: any,
       scope: tokens.scope || '',
       // Additional fields specific to certain platforms
       instanceUrl: tokens.instance_url || null, // For Salesforce
-    },
+    }),
     additionalData: accountInfo.accountDetails || {},
     connected: true,
     connectedAt: new Date().toISOString(),
@@ -250,8 +262,11 @@ export async function POST(req: NextRequest) {
       
       await setDoc(connectionRef, {
         platform,
-        accessToken: authData.accessToken,
-        refreshToken: authData.refreshToken,
+        tokens: CRMConnectionUtils.sealTokens({
+          access_token: authData.accessToken,
+          accessToken: authData.accessToken,
+          refreshToken: authData.refreshToken
+        }),
         expiresAt: authData.expiresIn ? new Date(Date.now() + (authData.expiresIn * 1000)) : null,
         scope: authData.scope || '',
         createdAt: serverTimestamp(),
@@ -271,6 +286,16 @@ export async function POST(req: NextRequest) {
         userId,
         status: 'success' 
       }, `CRM platform ${platform} connected successfully via POST`);
+
+      await recordAuditEvent({
+        userId,
+        category: 'platform',
+        action: 'connect_crm',
+        severity: 'info',
+        resourceId: connectionRef.id,
+        resourceType: 'crm_connection',
+        metadata: { platform, scope: authData.scope || '' }
+      });
       
       return NextResponse.json({
         success: true,
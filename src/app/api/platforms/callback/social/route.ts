@@ -4,6 +4,7 @@ import { getFirestore } from '../../../../../lib/core/firebase/admin';
 import { PlatformType } from '../../../../../lib/platforms/models';
 import { PlatformAdapterFactory } from '../../../../../lib/features/platforms/adapters/PlatformAdapterFactory';
 import { FieldValue } from 'firebase-admin/firestore';
+import { recordAuditEvent } from '../../../../../lib/team/activity/audit-events';
 
 // Force dynamic rendering - required for Firebase/database access
 export const dynamic = 'force-dynamic';
@@ -146,6 +147,21 @@ export async function GET(req: NextRequest) {
       connectionId,
       status: 'success' 
     }, `${platform} connected successfully`);
+
+    await recordAuditEvent({
+      userId,
+      category: 'platform',
+      action: 'connect_platform',
+      severity: 'info',
+      organizationId: userData2?.currentOrganizationId || userData2?.personalOrganizationId,
+      resourceId: connectionId,
+      resourceType: 'platform_connection',
+      metadata: {
+        platform,
+        platformAccountId: accountInfo.id,
+        scope: authData.scope
+      }
+    });
     
     // Redirect back to connections page with success message
     return NextResponse.redirect(new URL(`/dashboard/settings/connections?success=true&platform=${platform}`, req.url));
@@ -307,6 +323,21 @@ export async function POST(req: NextRequest) {
         connectionId,
         status: 'success' 
       }, `${platform} connected successfully via POST`);
+
+      await recordAuditEvent({
+        userId,
+        category: 'platform',
+        action: 'connect_platform',
+        severity: 'info',
+        organizationId: userData2?.currentOrganizationId || userData2?.personalOrganizationId,
+        resourceId: connectionId,
+        resourceType: 'platform_connection',
+        metadata: {
+          platform,
+          platformAccountId: accountInfo.id,
+          scope: authData.scope
+        }
+      });
       
       return NextResponse.json({
         success: true,
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { FieldValue } from 'firebase-admin/firestore';
+import { authOptions } from '@/lib/features/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { getFirestore } from '@/lib/core/firebase/admin';
+import { UnsafeDestinationError } from '@/lib/core/security/network';
+import { BlueskyAdapter } from '@/lib/features/platforms/adapters/BlueskyAdapter';
+import { PlatformType } from '@/lib/platforms/models';
+import { recordAuditEvent } from '@/lib/team/activity/audit-events';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Connect a Bluesky account with an app password
+ * POST /api/platforms/connect/bluesky
+ *   { "identifier": "alice.bsky.social", "appPassword": "xxxx-xxxx-xxxx-xxxx", "service"?: "https://pds.example.com" }
+ *
+ * Bluesky has no OAuth redirect, so the credentials are posted here and
+ * exchanged for a session straight away; the app password is never stored.
+ * `service` is only needed for self-hosted PDSes and must be a public https URL.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const body = await req.json().catch(() => null);
+    const identifier = typeof body?.identifier === 'string' ? body.identifier.trim().replace(/^@/, '') : '';
+    const appPassword = typeof body?.appPassword === 'string' ? body.appPassword.trim() : '';
+    const service = typeof body?.service === 'string' && body.service.trim() ? body.service.trim() : undefined;
+
+    if (!identifier || !appPassword) {
+      return NextResponse.json(
+        { error: 'identifier and appPassword are required' },
+        { status: 400 }
+      );
+    }
+
+    const firestore = getFirestore();
+    const userDoc = await firestore.collection('users').doc(userId).get();
+
+    if (!userDoc.exists) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const userData = userDoc.data();
+    const tier = userData?.subscriptionTier || 'creator';
+    const connectionsSnapshot = await firestore.collection('users').doc(userId).collection('platformConnections').get();
+    const maxConnections = tier === 'creator' ? 5 : Infinity; // Creator tier is limited to 5 connections
+
+    if (connectionsSnapshot.size >= maxConnections) {
+      return NextResponse.json(
+        { error: 'You have reached the maximum number of platform connections for your subscription tier' },
+        { status: 403 }
+      );
+    }
+
+    const adapter = new BlueskyAdapter();
+    let authData;
+
+    try {
+      authData = await adapter.connectWithAppPassword(identifier, appPassword, service);
+    } catch (error) {
+      const status = error instanceof UnsafeDestinationError ? 400 : 401;
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to connect Bluesky account' },
+        { status }
+      );
+    }
+
+    const accountInfo = await adapter.getAccountInfo(authData.accessToken, authData);
+    const connectionId = firestore.collection('users').doc(userId).collection('platformConnections').doc().id;
+
+    await firestore.collection('users').doc(userId).collection('platformConnections').doc(connectionId).set({
+      platform: PlatformType.BLUESKY,
+      platformAccountId: accountInfo.id,
+      platformAccountName: accountInfo.name,
+      platformAccountUsername: accountInfo.username,
+      platformAccountAvatar: accountInfo.profileImage || null,
+      accessToken: authData.accessToken,
+      refreshToken: authData.refreshToken,
+      expiresAt: authData.expiresIn ? new Date(Date.now() + (authData.expiresIn * 1000)) : null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      status: 'active',
+      additionalData: accountInfo.additionalData || {}
+    });
+
+    await firestore.collection('users').doc(userId).update({
+      connectedPlatforms: FieldValue.arrayUnion(PlatformType.BLUESKY)
+    });
+
+    logger.info('Bluesky account connected', {
+      userId,
+      connectionId,
+      handle: accountInfo.username
+    });
+
+    await recordAuditEvent({
+      userId,
+      category: 'platform',
+      action: 'connect_platform',
+      severity: 'info',
+      organizationId: userData?.currentOrganizationId || userData?.personalOrganizationId,
+      resourceId: connectionId,
+      resourceType: 'platform_connection',
+      metadata: {
+        platform: PlatformType.BLUESKY,
+        platformAccountId: accountInfo.id
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Successfully connected to bluesky',
+      platform: PlatformType.BLUESKY,
+      accountName: accountInfo.name,
+      accountUsername: accountInfo.username
+    });
+  } catch (error) {
+    logger.error('Error connecting Bluesky account', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    return NextResponse.json(
+      { error: 'Failed to connect Bluesky account' },
+      { status: 500 }
+    );
+  }
+}
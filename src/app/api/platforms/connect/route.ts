@@ -65,6 +65,13 @@ const PLATFORM_CONFIGS: Record<string, {
     redirectUri: `${process.env.NEXT_PUBLIC_APP_URL}/api/platforms/callback/social?platform=pinterest`,
     authUrl: 'https://www.pinterest.com/oauth',
     scopes: ['boards:read', 'boards:write', 'pins:read', 'pins:write', 'user_accounts:read']
+  },
+  google_business: {
+    clientId: process.env.GOOGLE_CLIENT_ID || '',
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+    redirectUri: `${process.env.NEXT_PUBLIC_APP_URL}/api/platforms/callback/social?platform=google_business`,
+    authUrl: 'https://accounts.google.com/o/oauth2/auth',
+    scopes: ['https://www.googleapis.com/auth/business.manage']
   }
 };
 
@@ -86,6 +93,14 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    // Bluesky has no OAuth flow; accounts connect with an app password
+    if (platform.toLowerCase() === PlatformType.BLUESKY) {
+      return NextResponse.json(
+        { error: 'Bluesky accounts connect with an app password: POST /api/platforms/connect/bluesky' },
+        { status: 400 }
+      );
+    }
+
     // Validate platform
     if (!Object.keys(PLATFORM_CONFIGS).includes(platform.toLowerCase())) {
       return NextResponse.json(
@@ -185,7 +200,7 @@ export async function GET(req: NextRequest) {
         // LinkedIn doesn't need additional params
       } else if (platform.toLowerCase() === 'pinterest') {
         url.searchParams.set('response_mode', 'query');
-      } else if (platform.toLowerCase() === 'youtube') {
+      } else if (platform.toLowerCase() === 'youtube' || platform.toLowerCase() === 'google_business') {
         url.searchParams.set('access_type', 'offline');
         url.searchParams.set('prompt', 'consent');
       }
@@ -226,7 +241,8 @@ function getDefaultAuthUrl(platform: string): string {
     linkedin: 'https://www.linkedin.com/oauth/v2/authorization',
     tiktok: 'https://www.tiktok.com/v2/auth/authorize',
     youtube: 'https://accounts.google.com/o/oauth2/auth',
-    pinterest: 'https://www.pinterest.com/oauth'
+    pinterest: 'https://www.pinterest.com/oauth',
+    google_business: 'https://accounts.google.com/o/oauth2/auth'
   };
 
   return baseUrls[platform.toLowerCase()] || '';
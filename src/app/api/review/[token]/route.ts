@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkflowError } from '@/lib/features/content/workflow/WorkflowService';
+import externalReviewService, {
+  ExternalReviewError,
+  ReviewRequestContext
+} from '@/lib/features/content/workflow/ExternalReviewService';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Magic-link review for reviewers outside the organization. The link token
+ * is the only credential, so these routes are public.
+ *
+ * GET /api/review/[token] - Post preview, schedule and the reviewer's earlier decisions
+ * GET /api/review/[token]?export=csv|pdf - Download the reviewer's approval audit trail
+ * POST /api/review/[token] - Approve, reject or request changes
+ */
+
+const ERROR_STATUS: Record<ExternalReviewError['code'], number> = {
+  invalid: 400,
+  not_found: 404,
+  expired: 410,
+  revoked: 410,
+  rate_limited: 429
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const context = getRequestContext(request);
+    const exportFormat = request.nextUrl.searchParams.get('export');
+
+    if (exportFormat) {
+      if (exportFormat !== 'csv' && exportFormat !== 'pdf') {
+        return NextResponse.json({ error: 'Unsupported format' }, { status: 400 });
+      }
+
+      const trail = await externalReviewService.getAuditTrailForLink(params.token, context);
+      const file = await externalReviewService.exportAuditTrail(trail, exportFormat);
+
+      return new NextResponse(new Uint8Array(file.data), {
+        headers: {
+          'Content-Type': file.contentType,
+          'Content-Disposition': `attachment; filename=${file.filename}`
+        }
+      });
+    }
+
+    const review = await externalReviewService.getReview(params.token, context);
+    return NextResponse.json(review);
+  } catch (error) {
+    return errorResponse(error, 'Error loading external review');
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const body = await request.json();
+    const review = await externalReviewService.submitReview(
+      params.token,
+      { status: body.status, comments: body.comments, inlineComments: body.inlineComments },
+      getRequestContext(request)
+    );
+
+    return NextResponse.json(review);
+  } catch (error) {
+    return errorResponse(error, 'Error submitting external review');
+  }
+}
+
+function getRequestContext(request: NextRequest): ReviewRequestContext {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  const ipAddress = forwardedFor ? forwardedFor.split(',')[0].trim() : request.headers.get('x-real-ip');
+  const userAgent = request.headers.get('user-agent');
+
+  return {
+    ...(ipAddress ? { ipAddress } : {}),
+    ...(userAgent ? { userAgent } : {})
+  };
+}
+
+function errorResponse(error: unknown, message: string) {
+  if (error instanceof ExternalReviewError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] });
+  }
+  if (error instanceof WorkflowError) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+
+  logger.error(message, { error });
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
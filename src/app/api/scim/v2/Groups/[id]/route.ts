@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { scimService, scimResponse, withScimAuth } from '@/lib/features/auth/scim';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteContext = { params: { id: string } };
+
+/**
+ * SCIM 2.0 group
+ *
+ * GET /api/scim/v2/Groups/:id
+ * PUT /api/scim/v2/Groups/:id - Replace the name and members
+ * PATCH /api/scim/v2/Groups/:id - Body: { Operations: [...] }
+ * DELETE /api/scim/v2/Groups/:id - Delete the team; members stay in the organization
+ */
+export const GET = withScimAuth(async (req: NextRequest, organizationId: string, { params }: RouteContext) => {
+  return scimResponse(await scimService.getGroup(organizationId, params.id));
+});
+
+export const PUT = withScimAuth(async (req: NextRequest, organizationId: string, { params }: RouteContext) => {
+  return scimResponse(await scimService.replaceGroup(organizationId, params.id, await req.json()));
+});
+
+export const PATCH = withScimAuth(async (req: NextRequest, organizationId: string, { params }: RouteContext) => {
+  const { Operations } = await req.json();
+  return scimResponse(await scimService.patchGroup(organizationId, params.id, Array.isArray(Operations) ? Operations : []));
+});
+
+export const DELETE = withScimAuth(async (req: NextRequest, organizationId: string, { params }: RouteContext) => {
+  await scimService.deleteGroup(organizationId, params.id);
+  return scimResponse(null, 204);
+});
@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { scimService, scimResponse, withScimAuth } from '@/lib/features/auth/scim';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * SCIM 2.0 groups, backed by the organization's teams
+ *
+ * GET /api/scim/v2/Groups?filter=displayName eq "Marketing"&excludedAttributes=members
+ * POST /api/scim/v2/Groups - Create a team
+ */
+export const GET = withScimAuth(async (req: NextRequest, organizationId: string) => {
+  const searchParams = req.nextUrl.searchParams;
+  const groups = await scimService.listGroups(organizationId, {
+    filter: searchParams.get('filter'),
+    startIndex: Number(searchParams.get('startIndex')) || undefined,
+    count: searchParams.has('count') ? Number(searchParams.get('count')) : undefined,
+    excludeMembers: (searchParams.get('excludedAttributes') || '').split(',').some(attribute => attribute.trim() === 'members')
+  });
+  return scimResponse(groups);
+});
+
+export const POST = withScimAuth(async (req: NextRequest, organizationId: string) => {
+  const group = await scimService.createGroup(organizationId, await req.json());
+  return scimResponse(group, 201);
+});
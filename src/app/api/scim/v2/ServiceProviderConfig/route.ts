@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { scimResponse, withScimAuth } from '@/lib/features/auth/scim';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * SCIM 2.0 service provider configuration
+ *
+ * GET /api/scim/v2/ServiceProviderConfig
+ */
+export const GET = withScimAuth(async (req: NextRequest) => {
+  return scimResponse({
+    schemas: ['urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: 200 },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [{
+      type: 'oauthbearertoken',
+      name: 'OAuth Bearer Token',
+      description: 'Token issued in the organization security settings',
+      primary: true
+    }]
+  });
+});
@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { scimService, scimResponse, withScimAuth } from '@/lib/features/auth/scim';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * SCIM 2.0 users
+ *
+ * GET /api/scim/v2/Users?filter=userName eq "jo@example.com"&startIndex=1&count=100
+ * POST /api/scim/v2/Users - Provision a user
+ */
+export const GET = withScimAuth(async (req: NextRequest, organizationId: string) => {
+  const searchParams = req.nextUrl.searchParams;
+  const users = await scimService.listUsers(organizationId, {
+    filter: searchParams.get('filter'),
+    startIndex: Number(searchParams.get('startIndex')) || undefined,
+    count: searchParams.has('count') ? Number(searchParams.get('count')) : undefined
+  });
+  return scimResponse(users);
+});
+
+export const POST = withScimAuth(async (req: NextRequest, organizationId: string) => {
+  const user = await scimService.createUser(organizationId, await req.json());
+  return scimResponse(user, 201);
+});
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { apiKeyService, ApiKeyError } from '@/lib/api-keys/ApiKeyService';
+import { API_KEY_SCOPES } from '@/lib/api-keys/scopes';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const ERROR_STATUS: Record<ApiKeyError['code'], number> = {
+  invalid: 400,
+  forbidden: 403,
+  not_found: 404,
+  limit: 409
+};
+
+/**
+ * Personal API keys
+ *
+ * GET /api/settings/api-keys - The user's keys and the available scopes
+ * POST /api/settings/api-keys - Body: { organizationId, name, scopes, rateLimitPerMinute?, expiresInDays? }.
+ *   The key is only ever returned here.
+ * DELETE /api/settings/api-keys?keyId=...
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const keys = await apiKeyService.listKeys({ userId: session.user.id });
+    return NextResponse.json({ keys, scopes: API_KEY_SCOPES });
+  } catch (error) {
+    logger.error('Error listing API keys', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { organizationId, name, scopes, rateLimitPerMinute, expiresInDays } = await req.json();
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const { key, summary } = await apiKeyService.createKey(
+      { type: 'personal', organizationId, name, scopes, rateLimitPerMinute, expiresInDays },
+      session.user.id
+    );
+    return NextResponse.json({ key, summary }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: ERROR_STATUS[error.code] });
+    }
+    logger.error('Error creating API key', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const keyId = req.nextUrl.searchParams.get('keyId');
+    if (!keyId) {
+      return NextResponse.json({ error: 'keyId is required' }, { status: 400 });
+    }
+
+    await apiKeyService.revokeKey(keyId, { userId: session.user.id }, session.user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: ERROR_STATUS[error.code] });
+    }
+    logger.error('Error revoking API key', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
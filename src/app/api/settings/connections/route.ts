@@ -228,7 +228,8 @@ const PROVIDER_CONFIGS: ProviderConfigs = {
     authUrl: 'https://slack.com/oauth/v2/authorize',
     clientId: process.env.SLACK_CLIENT_ID!,
     redirectUri: process.env.SLACK_CALLBACK_URL!,
-    scope: ['channels:read', 'chat:write', 'files:read', 'files:write'],
+    // users:read.email matches people who act on Slack approvals to their IriSync accounts
+    scope: ['channels:read', 'chat:write', 'files:read', 'files:write', 'users:read', 'users:read.email'],
   },
   microsoft_teams: {
     authUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize',
@@ -948,7 +949,8 @@ async function exchangeSlackToken(code: string, redirectUri: string) {
 }
 
 async function getSlackProfile(accessToken: string) {
-  const response = await fetch('https://slack.com/api/users.identity', {
+  // The token is a bot token, which users.identity does not accept
+  const response = await fetch('https://slack.com/api/auth.test', {
     headers: {
       'Authorization': `Bearer ${accessToken}`
     }
@@ -965,9 +967,10 @@ async function getSlackProfile(accessToken: string) {
   }
   
   return {
-    user_id: data.user.id,
-    user: data.user.name,
-    team: data.team.name
+    user_id: data.user_id,
+    user: data.user,
+    team: data.team,
+    team_id: data.team_id
   };
 }
 
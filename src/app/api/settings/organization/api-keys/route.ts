@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { apiKeyService, ApiKeyError } from '@/lib/api-keys/ApiKeyService';
+import { API_KEY_SCOPES } from '@/lib/api-keys/scopes';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const ERROR_STATUS: Record<ApiKeyError['code'], number> = {
+  invalid: 400,
+  forbidden: 403,
+  not_found: 404,
+  limit: 409
+};
+
+/**
+ * Organization API keys - Owners and admins
+ *
+ * GET /api/settings/organization/api-keys?organizationId=...
+ * POST /api/settings/organization/api-keys - Body: { organizationId, name, scopes, rateLimitPerMinute?, expiresInDays? }.
+ *   The key acts as the admin who creates it and is only ever returned here.
+ * DELETE /api/settings/organization/api-keys?organizationId=...&keyId=...
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = req.nextUrl.searchParams.get('organizationId');
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER, OrganizationRole.ADMIN]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const keys = await apiKeyService.listKeys({ organizationId });
+    return NextResponse.json({ keys, scopes: API_KEY_SCOPES });
+  } catch (error) {
+    logger.error('Error listing organization API keys', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { organizationId, name, scopes, rateLimitPerMinute, expiresInDays } = await req.json();
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER, OrganizationRole.ADMIN]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { key, summary } = await apiKeyService.createKey(
+      { type: 'organization', organizationId, name, scopes, rateLimitPerMinute, expiresInDays },
+      session.user.id
+    );
+    return NextResponse.json({ key, summary }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: ERROR_STATUS[error.code] });
+    }
+    logger.error('Error creating organization API key', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = req.nextUrl.searchParams.get('organizationId');
+    const keyId = req.nextUrl.searchParams.get('keyId');
+    if (!organizationId || !keyId) {
+      return NextResponse.json({ error: 'organizationId and keyId are required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER, OrganizationRole.ADMIN]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await apiKeyService.revokeKey(keyId, { organizationId }, session.user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: ERROR_STATUS[error.code] });
+    }
+    logger.error('Error revoking organization API key', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { TeamAuditLogger, AuditLogCategory, AuditLogSeverity } from '@/lib/features/team/activity/audit-logger';
+import { getAuditChainId } from '@/lib/features/team/activity/audit-chain';
+import { AuditExportFormat, formatAuditExport } from '@/lib/features/team/activity/audit-export';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_ENTRIES = 5000;
+
+/**
+ * Download the organization's audit log in chain order, hashes included
+ * GET /api/settings/organization/audit-logs/download?organizationId=...&format=ndjson|csv&afterSequence=0&limit=1000
+ * Continue from the last chainSequence of the previous download to page through.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = req.nextUrl.searchParams;
+    const organizationId = params.get('organizationId');
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const format = (params.get('format') || 'ndjson') as AuditExportFormat;
+    if (format !== 'ndjson' && format !== 'csv') {
+      return NextResponse.json({ error: 'format must be ndjson or csv' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER, OrganizationRole.ADMIN]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const afterSequence = Math.max(parseInt(params.get('afterSequence') || '0', 10) || 0, 0);
+    const limit = Math.min(Math.max(parseInt(params.get('limit') || '1000', 10) || 1000, 1), MAX_ENTRIES);
+
+    const auditLogger = new TeamAuditLogger();
+    const entries = await auditLogger.getChainEntries(getAuditChainId(organizationId), afterSequence, limit);
+
+    await auditLogger.log({
+      userId: session.user.id,
+      category: AuditLogCategory.SECURITY,
+      action: 'export_audit_log',
+      severity: AuditLogSeverity.INFO,
+      organizationId,
+      resourceId: organizationId,
+      resourceType: 'audit_log_chain',
+      metadata: { format, afterSequence, count: entries.length }
+    });
+
+    const extension = format === 'csv' ? 'csv' : 'ndjson';
+    return new NextResponse(formatAuditExport(entries, format), {
+      status: 200,
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+        'Content-Disposition': `attachment; filename="audit-log-${organizationId}-${afterSequence + 1}.${extension}"`
+      }
+    });
+  } catch (error) {
+    logger.error('Error downloading organization audit log', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { TeamAuditLogger, AuditLogCategory, AuditLogSeverity } from '@/lib/features/team/activity/audit-logger';
+import { getAuditChainId } from '@/lib/features/team/activity/audit-chain';
+import auditExportService, {
+  AuditExportError,
+  redactAuditExportConfig
+} from '@/lib/features/team/activity/audit-export';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Scheduled audit log export and SIEM streaming for an organization
+ *
+ * GET /api/settings/organization/audit-logs/export?organizationId=... - Current config
+ * PUT /api/settings/organization/audit-logs/export - Update config.
+ *   Body: { organizationId, exportEnabled?, schedule?: 'daily' | 'weekly', format?: 'ndjson' | 'csv', sinks? }
+ *   Sinks: { type: 'http', url, format: 'splunk_hec' | 'datadog' | 'json', token? }
+ *   or { type: 'syslog', host, port, protocol: 'udp' | 'tcp' | 'tls' }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = req.nextUrl.searchParams.get('organizationId');
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER, OrganizationRole.ADMIN]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const config = await auditExportService.getConfig(getAuditChainId(organizationId));
+    return NextResponse.json({ config: config ? redactAuditExportConfig(config) : null });
+  } catch (error) {
+    logger.error('Error getting audit log export config', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { organizationId, ...input } = await req.json();
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    // Sinks receive every event of the organization, so only owners configure them
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const config = await auditExportService.saveConfig(getAuditChainId(organizationId), input, session.user.id);
+
+    await new TeamAuditLogger().log({
+      userId: session.user.id,
+      category: AuditLogCategory.SECURITY,
+      action: 'update_audit_log_export',
+      severity: AuditLogSeverity.WARNING,
+      organizationId,
+      resourceId: organizationId,
+      resourceType: 'audit_log_chain',
+      newState: redactAuditExportConfig(config),
+      metadata: {}
+    });
+
+    return NextResponse.json({ config: redactAuditExportConfig(config) });
+  } catch (error) {
+    if (error instanceof AuditExportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    logger.error('Error updating audit log export config', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
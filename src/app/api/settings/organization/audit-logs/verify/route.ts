@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { TeamAuditLogger, AuditLogCategory, AuditLogSeverity } from '@/lib/features/team/activity/audit-logger';
+import { getAuditChainId } from '@/lib/features/team/activity/audit-chain';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Verify the organization's audit log has not been edited or had entries removed
+ * GET /api/settings/organization/audit-logs/verify?organizationId=...
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = req.nextUrl.searchParams.get('organizationId');
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER, OrganizationRole.ADMIN]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const auditLogger = new TeamAuditLogger();
+    const report = await auditLogger.verifyChain(getAuditChainId(organizationId));
+
+    await auditLogger.log({
+      userId: session.user.id,
+      category: AuditLogCategory.SECURITY,
+      action: 'verify_audit_log',
+      severity: report.valid ? AuditLogSeverity.INFO : AuditLogSeverity.CRITICAL,
+      organizationId,
+      resourceId: organizationId,
+      resourceType: 'audit_log_chain',
+      metadata: {
+        valid: report.valid,
+        checkedEntries: report.checkedEntries,
+        issueCount: report.issues.length
+      }
+    });
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    logger.error('Error verifying organization audit log', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { scimService, ScimError } from '@/lib/features/auth/scim';
+import { isEnterpriseOrganization } from '@/lib/features/auth/provisioning';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * SCIM provisioning tokens
+ *
+ * GET /api/settings/organization/scim-tokens?organizationId=... - Owners and admins
+ * POST /api/settings/organization/scim-tokens - Owner only, enterprise plans.
+ *   Body: { organizationId, description? }. The token is only ever returned here.
+ * DELETE /api/settings/organization/scim-tokens?organizationId=...&tokenId=... - Owner only
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = req.nextUrl.searchParams.get('organizationId');
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER, OrganizationRole.ADMIN]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const tokens = await scimService.listTokens(organizationId);
+    return NextResponse.json({ baseUrl: scimService.getBaseUrl(), tokens });
+  } catch (error) {
+    logger.error('Error listing SCIM tokens', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { organizationId, description } = await req.json();
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!(await isEnterpriseOrganization(organizationId))) {
+      return NextResponse.json({ error: 'SCIM provisioning requires an Enterprise plan' }, { status: 403 });
+    }
+
+    const { token, summary } = await scimService.createToken(
+      organizationId,
+      session.user.id,
+      typeof description === 'string' ? description.trim() || undefined : undefined
+    );
+    return NextResponse.json({ token, baseUrl: scimService.getBaseUrl(), summary }, { status: 201 });
+  } catch (error) {
+    logger.error('Error creating SCIM token', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = req.nextUrl.searchParams.get('organizationId');
+    const tokenId = req.nextUrl.searchParams.get('tokenId');
+    if (!organizationId || !tokenId) {
+      return NextResponse.json({ error: 'organizationId and tokenId are required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await scimService.revokeToken(organizationId, tokenId, session.user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ScimError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error revoking SCIM token', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { DocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+import { authOptions } from '@/lib/auth';
+import { getFirestore } from '@/lib/core/firebase/admin';
+import { logger } from '@/lib/core/logging/logger';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { OrganizationSecuritySettings, getTwoFactorRequirement } from '@/lib/core/models/Organization';
+import { TeamAuditLogger, AuditLogCategory, AuditLogSeverity } from '@/lib/features/team/activity/audit-logger';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_GRACE_PERIOD_DAYS = 90;
+
+/**
+ * Ids of an organization's members, from the members array or record
+ */
+function getMemberIds(orgData: Record<string, any>): string[] {
+  const members = orgData.members || {};
+  return Array.isArray(members)
+    ? members.map((member: any) => member.userId).filter(Boolean)
+    : Object.keys(members);
+}
+
+/**
+ * Organization security policy
+ *
+ * GET /api/settings/organization/security?organizationId=...
+ *   Policy, and for owners and admins which members have not enrolled
+ * PUT /api/settings/organization/security - Owner only.
+ *   Body: { organizationId, requireTwoFactor, twoFactorGracePeriodDays? }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = req.nextUrl.searchParams.get('organizationId');
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER, OrganizationRole.ADMIN]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const firestore = getFirestore();
+    const orgDoc = await firestore.collection('organizations').doc(organizationId).get();
+    if (!orgDoc.exists) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    const orgData = orgDoc.data()!;
+    const security = orgData.settings?.security as OrganizationSecuritySettings | undefined;
+
+    const memberIds = getMemberIds(orgData);
+    const userDocs = memberIds.length > 0
+      ? await firestore.getAll(...memberIds.map(memberId => firestore.collection('users').doc(memberId)))
+      : [];
+    const members = userDocs.map((userDoc: DocumentSnapshot) => {
+      const twoFactorEnabled = userDoc.data()?.twoFactorEnabled === true;
+      return {
+        userId: userDoc.id,
+        email: userDoc.data()?.email,
+        twoFactorEnabled,
+        blocked: getTwoFactorRequirement(security, twoFactorEnabled).blocked
+      };
+    });
+
+    return NextResponse.json({
+      security: {
+        requireTwoFactor: security?.requireTwoFactor === true,
+        twoFactorGracePeriodDays: security?.twoFactorGracePeriodDays || 0,
+        twoFactorRequiredSince: security?.twoFactorRequiredSince?.toDate(),
+        deadline: getTwoFactorRequirement(security, true).deadline
+      },
+      members
+    });
+  } catch (error) {
+    logger.error('Error getting organization security settings', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { organizationId, requireTwoFactor, twoFactorGracePeriodDays = 7 } = await req.json();
+    if (!organizationId || typeof requireTwoFactor !== 'boolean') {
+      return NextResponse.json({ error: 'organizationId and requireTwoFactor are required' }, { status: 400 });
+    }
+
+    const gracePeriodDays = Number(twoFactorGracePeriodDays);
+    if (!Number.isInteger(gracePeriodDays) || gracePeriodDays < 0 || gracePeriodDays > MAX_GRACE_PERIOD_DAYS) {
+      return NextResponse.json({ error: `twoFactorGracePeriodDays must be a whole number from 0 to ${MAX_GRACE_PERIOD_DAYS}` }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const orgRef = getFirestore().collection('organizations').doc(organizationId);
+    const orgDoc = await orgRef.get();
+    const previous = orgDoc.data()?.settings?.security as OrganizationSecuritySettings | undefined;
+
+    // The grace period counts from when the requirement was first turned on
+    const security = {
+      requireTwoFactor,
+      twoFactorGracePeriodDays: gracePeriodDays,
+      ...(requireTwoFactor
+        ? { twoFactorRequiredSince: previous?.requireTwoFactor && previous.twoFactorRequiredSince ? previous.twoFactorRequiredSince : Timestamp.now() }
+        : {})
+    };
+
+    await orgRef.update({
+      'settings.security': security,
+      updatedAt: Timestamp.now()
+    });
+
+    await new TeamAuditLogger().log({
+      userId: session.user.id,
+      category: AuditLogCategory.SECURITY,
+      action: 'update_two_factor_policy',
+      severity: AuditLogSeverity.WARNING,
+      organizationId,
+      resourceId: organizationId,
+      resourceType: 'organization',
+      previousState: previous ? { requireTwoFactor: previous.requireTwoFactor, twoFactorGracePeriodDays: previous.twoFactorGracePeriodDays } : null,
+      newState: { requireTwoFactor, twoFactorGracePeriodDays: gracePeriodDays },
+      metadata: {}
+    });
+
+    return NextResponse.json({ security });
+  } catch (error) {
+    logger.error('Error updating organization security settings', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { samlService, SamlConnection, SamlError } from '@/lib/features/auth/saml';
+import { isEnterpriseOrganization } from '@/lib/features/auth/provisioning';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Connection as shown in settings, with the DNS record that verifies its domains
+ */
+function toResponse(organizationId: string, connection: SamlConnection | null) {
+  return {
+    connection,
+    serviceProvider: samlService.getServiceProvider(organizationId),
+    domainVerificationRecord: connection
+      ? { type: 'TXT', value: `irisync-domain-verification=${connection.domainVerificationToken}` }
+      : null
+  };
+}
+
+/**
+ * Organization SAML single sign-on
+ *
+ * GET /api/settings/organization/sso?organizationId=... - Owners and admins
+ * PUT /api/settings/organization/sso - Owner only, enterprise plans.
+ *   Body: { organizationId, ...SamlConnectionInput }
+ * DELETE /api/settings/organization/sso?organizationId=... - Owner only
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = req.nextUrl.searchParams.get('organizationId');
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER, OrganizationRole.ADMIN]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const connection = await samlService.getConnection(organizationId);
+    return NextResponse.json(toResponse(organizationId, connection));
+  } catch (error) {
+    logger.error('Error getting SSO connection', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { organizationId, ...input } = await req.json();
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!(await isEnterpriseOrganization(organizationId))) {
+      return NextResponse.json({ error: 'Single sign-on requires an Enterprise plan' }, { status: 403 });
+    }
+
+    const connection = await samlService.saveConnection(organizationId, input, session.user.id);
+    return NextResponse.json(toResponse(organizationId, connection));
+  } catch (error) {
+    if (error instanceof SamlError) {
+      return NextResponse.json({ error: error.message }, { status: error.code === 'not_found' ? 404 : 400 });
+    }
+    logger.error('Error saving SSO connection', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = req.nextUrl.searchParams.get('organizationId');
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await samlService.deleteConnection(organizationId, session.user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof SamlError) {
+      return NextResponse.json({ error: error.message }, { status: error.code === 'not_found' ? 404 : 400 });
+    }
+    logger.error('Error deleting SSO connection', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { samlService, SamlError } from '@/lib/features/auth/saml';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Check the DNS TXT records of the SSO connection's unverified email domains
+ *
+ * POST /api/settings/organization/sso/verify-domains - Owners and admins.
+ *   Body: { organizationId }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { organizationId } = await req.json();
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await hasOrganizationRole(session.user.id, organizationId, [OrganizationRole.OWNER, OrganizationRole.ADMIN]))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const connection = await samlService.verifyDomains(organizationId, session.user.id);
+    return NextResponse.json({ emailDomains: connection.emailDomains });
+  } catch (error) {
+    if (error instanceof SamlError) {
+      return NextResponse.json({ error: error.message }, { status: error.code === 'not_found' ? 404 : 400 });
+    }
+    logger.error('Error verifying SSO domains', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
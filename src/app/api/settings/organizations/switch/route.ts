@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/features/auth';
 import { getOrganization, isMemberOfOrganization } from '@/lib/features/team/users/organization';
 import { firestore } from '@/lib/core/firebase/admin';
+import agencyWorkspaceService from '@/lib/features/team/AgencyWorkspaceService';
 import { logger } from '@/lib/core/logging/logger';
 import { TeamAuditLogger } from '@/lib/features/team/activity/audit-logger';
 import { AuditLogCategory, AuditLogSeverity } from '@/lib/features/team/activity/audit-logger';
@@ -60,8 +61,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify the user is a member of the organization
-    const isMember = await isMemberOfOrganization(userId, organizationId);
+    // Verify the user is a member of the organization, or agency staff of a client workspace
+    const isMember = await isMemberOfOrganization(userId, organizationId) ||
+      await agencyWorkspaceService.canAccessWorkspace(organizationId, userId);
     if (!isMember) {
       return NextResponse.json(
         { error: 'Forbidden', message: 'You are not a member of this organization' },
@@ -73,6 +75,7 @@ export async function POST(request: NextRequest) {
     const userRef = firestore.collection('users').doc(userId);
     await userRef.update({
       organizationId,
+      currentOrganizationId: organizationId,
       lastOrganizationSwitch: new Date()
     });
 
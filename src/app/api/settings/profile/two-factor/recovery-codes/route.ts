@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/features/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { twoFactorManager, TwoFactorError } from '@/lib/features/user/auth/TwoFactorManager';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Replace the signed-in user's recovery codes; the old ones stop working
+ * POST /api/settings/profile/two-factor/recovery-codes
+ * Body: { code } or { recoveryCode }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { code, recoveryCode } = await req.json();
+    if (!code && !recoveryCode) {
+      return NextResponse.json({ error: 'Verification code or recovery code is required' }, { status: 400 });
+    }
+
+    const recoveryCodes = await twoFactorManager.regenerateRecoveryCodes(session.user.id, { code, recoveryCode });
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.code === 'locked' ? 429 : 400 });
+    }
+    logger.error('Error regenerating recovery codes', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json({ error: 'Failed to regenerate recovery codes' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/features/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { twoFactorManager, TwoFactorError } from '@/lib/features/user/auth/TwoFactorManager';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const ENDPOINT = '/api/settings/profile/two-factor';
+
+/**
+ * Map two-factor errors to responses
+ */
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof TwoFactorError) {
+    const status = error.code === 'required' ? 403
+      : error.code === 'not_found' ? 404
+      : error.code === 'locked' ? 429
+      : 400;
+    return NextResponse.json({ error: error.message, code: error.code, endpoint: ENDPOINT }, { status });
+  }
+  logger.error(`Error ${action} two-factor authentication`, {
+    error: error instanceof Error ? error.message : String(error)
+  });
+  return NextResponse.json({ error: `Failed to ${action} two-factor authentication`, endpoint: ENDPOINT }, { status: 500 });
+}
+
+/**
+ * Two-factor authentication for the signed-in user
+ *
+ * GET    - Status, remaining recovery codes and any organization requirement
+ * POST   - Start enrollment; returns the secret and an otpauth:// URI to show as a QR code
+ * PUT    - Confirm enrollment. Body: { code }. Returns recovery codes, shown once
+ * DELETE - Turn off. Body: { code } or { recoveryCode }
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized', endpoint: ENDPOINT }, { status: 401 });
+    }
+
+    const status = await twoFactorManager.getStatus(session.user.id);
+    return NextResponse.json({ status });
+  } catch (error) {
+    return errorResponse(error, 'get');
+  }
+}
+
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized', endpoint: ENDPOINT }, { status: 401 });
+    }
+
+    const enrollment = await twoFactorManager.startEnrollment(session.user.id, session.user.email || session.user.id);
+    return NextResponse.json(enrollment);
+  } catch (error) {
+    return errorResponse(error, 'start');
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized', endpoint: ENDPOINT }, { status: 401 });
+    }
+
+    const { code } = await req.json();
+    if (!code) {
+      return NextResponse.json({ error: 'Verification code is required', endpoint: ENDPOINT }, { status: 400 });
+    }
+
+    const recoveryCodes = await twoFactorManager.confirmEnrollment(session.user.id, String(code));
+    return NextResponse.json({ enabled: true, recoveryCodes });
+  } catch (error) {
+    return errorResponse(error, 'confirm');
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized', endpoint: ENDPOINT }, { status: 401 });
+    }
+
+    const { code, recoveryCode } = await req.json();
+    if (!code && !recoveryCode) {
+      return NextResponse.json({ error: 'Verification code or recovery code is required', endpoint: ENDPOINT }, { status: 400 });
+    }
+
+    await twoFactorManager.disable(session.user.id, { code, recoveryCode });
+    return NextResponse.json({ enabled: false });
+  } catch (error) {
+    return errorResponse(error, 'disable');
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/features/auth';
+import { logger } from '@/lib/core/logging/logger';
+import { twoFactorManager, TRUSTED_DEVICE_COOKIE } from '@/lib/features/user/auth/TwoFactorManager';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Forget every device the signed-in user chose to remember, so each asks
+ * for a code again
+ * DELETE /api/settings/profile/two-factor/trusted-devices
+ */
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const revoked = await twoFactorManager.revokeTrustedDevices(session.user.id);
+
+    const response = NextResponse.json({ revoked });
+    response.cookies.delete(TRUSTED_DEVICE_COOKIE);
+    return response;
+  } catch (error) {
+    logger.error('Error revoking trusted devices', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json({ error: 'Failed to revoke trusted devices' }, { status: 500 });
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import slackIntegrationService from '@/lib/workflow/SlackIntegrationService';
+import { SlackAlertEvent, SlackRoutingRule } from '@/lib/workflow/slack-messages';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { getCurrentUser } from '@/lib/auth/token';
+import { hasOrganizationRole } from '@/lib/auth/middleware';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Slack workspace and channel routing for an organization
+ *
+ * GET /api/settings/slack?organizationId=... - Connected workspace and routing rules
+ * POST /api/settings/slack - Connect the Slack workspace from the user's connections
+ * PUT /api/settings/slack - Replace routing rules
+ * DELETE /api/settings/slack?organizationId=... - Disconnect Slack
+ */
+
+const ROUTED_EVENTS: SlackAlertEvent[] = ['approval_request', 'inbox_message', 'crisis_alert'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const organizationId = request.nextUrl.searchParams.get('organizationId');
+    const access = await authorize(organizationId);
+    if (access instanceof NextResponse) return access;
+
+    const integration = await slackIntegrationService.getIntegration(organizationId!);
+    if (!integration) {
+      return NextResponse.json({ connected: false, routes: [] });
+    }
+
+    return NextResponse.json({
+      connected: true,
+      teamId: integration.teamId,
+      teamName: integration.teamName,
+      routes: integration.routes
+    });
+  } catch (error) {
+    logger.error('Error loading Slack settings', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const access = await authorize(body.organizationId);
+    if (access instanceof NextResponse) return access;
+
+    const integration = await slackIntegrationService.connectWorkspace(body.organizationId, access.userId);
+    return NextResponse.json({ connected: true, ...integration });
+  } catch (error) {
+    logger.error('Error connecting Slack workspace', { error });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const access = await authorize(body.organizationId);
+    if (access instanceof NextResponse) return access;
+
+    if (!Array.isArray(body.routes) || body.routes.some((rule: any) => !isValidRule(rule))) {
+      return NextResponse.json({ error: 'Each rule needs an id, a channelId and a supported event' }, { status: 400 });
+    }
+
+    const integration = await slackIntegrationService.updateRoutes(body.organizationId, body.routes.map(toRule));
+    return NextResponse.json({ connected: true, ...integration });
+  } catch (error) {
+    logger.error('Error updating Slack routing rules', { error });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const organizationId = request.nextUrl.searchParams.get('organizationId');
+    const access = await authorize(organizationId);
+    if (access instanceof NextResponse) return access;
+
+    await slackIntegrationService.disconnect(organizationId!);
+    return NextResponse.json({ connected: false });
+  } catch (error) {
+    logger.error('Error disconnecting Slack', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Only organization owners and admins manage Slack
+ * @returns The user when allowed, otherwise an error response
+ */
+async function authorize(organizationId: string | null | undefined): Promise<{ userId: string } | NextResponse> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!organizationId) {
+    return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+  }
+
+  const allowed = await hasOrganizationRole(user.id, organizationId, [OrganizationRole.OWNER, OrganizationRole.ADMIN]);
+  return allowed ? { userId: user.id } : NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+}
+
+function isValidRule(rule: any): boolean {
+  return typeof rule?.id === 'string' &&
+    typeof rule.channelId === 'string' && rule.channelId.length > 0 &&
+    ROUTED_EVENTS.indexOf(rule.event) !== -1;
+}
+
+// Keep only the fields a rule defines; Firestore rejects undefined values
+function toRule(rule: any): SlackRoutingRule {
+  return {
+    id: rule.id,
+    channelId: rule.channelId,
+    event: rule.event,
+    ...(typeof rule.channelName === 'string' ? { channelName: rule.channelName } : {}),
+    ...(Array.isArray(rule.platforms) ? { platforms: rule.platforms } : {}),
+    ...(typeof rule.minPriority === 'string' ? { minPriority: rule.minPriority } : {}),
+    ...(typeof rule.minRiskLevel === 'string' ? { minRiskLevel: rule.minRiskLevel } : {})
+  };
+}
@@ -11,6 +11,7 @@ import {
   organizationToFirestore,
   firestoreToOrganization
 } from '@/lib/core/models/Organization';
+import { recordAuditEvent } from '@/lib/team/activity/audit-events';
 
 // Force dynamic rendering - required for Firebase/database access
 export const dynamic = 'force-dynamic';
@@ -186,6 +187,19 @@ export async function POST(req: NextRequest) {
       
       transaction.set(membersRef, updatedMembers);
     });
+
+    await recordAuditEvent({
+      userId: user.id,
+      category: 'team',
+      action: 'change_member_role',
+      severity: 'warning',
+      organizationId,
+      resourceId: memberToUpdate.userId,
+      resourceType: 'user',
+      previousState: { role: memberToUpdate.role },
+      newState: { role: newOrgRole },
+      metadata: { email }
+    });
     
     return NextResponse.json({ 
       success: true,
@@ -10,6 +10,7 @@ import {
   OrganizationRoleType,
   firestoreToOrganization
 } from '@/lib/core/models/Organization';
+import { recordAuditEvent } from '@/lib/team/activity/audit-events';
 
 // Force dynamic rendering - required for Firebase/database access
 export const dynamic = 'force-dynamic';
@@ -213,6 +214,19 @@ export async function POST(req: NextRequest) {
     
     // Log the ownership transfer
     console.log(`Ownership transferred from ${user.id} to ${newOwnerId} for organization ${organizationId}`);
+    await recordAuditEvent({
+      userId: user.id!,
+      category: 'organization',
+      action: 'transfer_ownership',
+      severity: 'critical',
+      organizationId,
+      teamId,
+      resourceId: newOwnerId,
+      resourceType: 'user',
+      previousState: { ownerUserId: user.id },
+      newState: { ownerUserId: newOwnerId },
+      metadata: {}
+    });
     
     return NextResponse.json({ 
       success: true,
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest } from '@/lib/api-handler';
+import { withApiKey } from '@/lib/api-keys/with-api-key';
+import { ApiAnalyticsQuerySchema } from '@/lib/validation/schemas';
+import { postAnalyticsService } from '@/lib/features/analytics/PostAnalyticsService';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Public API: analytics
+ *
+ * GET /api/v1/analytics?platform=linkedin&startDate=...&endDate=... - analytics:read
+ *   Aggregated metrics for posts published by the key's user
+ */
+export const GET = withApiKey('analytics:read', async (request: NextRequest, principal) => {
+  const { platform, startDate, endDate, limit } = validateRequest(
+    ApiAnalyticsQuerySchema,
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  const analytics = await postAnalyticsService.getAggregatedAnalytics(principal.userId, {
+    ...(platform ? { platformType: platform } : {}),
+    ...(startDate ? { startDate: new Date(startDate) } : {}),
+    ...(endDate ? { endDate: new Date(endDate) } : {}),
+    ...(limit ? { limit } : {})
+  });
+
+  return NextResponse.json({
+    data: {
+      totalPosts: analytics.totalPosts,
+      totalEngagement: analytics.totalEngagement,
+      totalReach: analytics.totalReach,
+      totalImpressions: analytics.totalImpressions,
+      avgEngagementRate: analytics.avgEngagementRate,
+      byPlatform: analytics.byPlatform
+    }
+  });
+});
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest } from '@/lib/api-handler';
+import { withApiKey } from '@/lib/api-keys/with-api-key';
+import { ApiCalendarQuerySchema } from '@/lib/validation/schemas';
+import { toApiCalendarEntry } from '@/lib/public-api/serializers';
+import { scheduledPostService } from '@/lib/features/scheduling/ScheduledPostService';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Public API: content calendar
+ *
+ * GET /api/v1/calendar?from=...&to=... - calendar:read
+ *   The organization's posts in any status scheduled within the range, up to 92 days
+ */
+export const GET = withApiKey('calendar:read', async (request: NextRequest, principal) => {
+  const { from, to } = validateRequest(
+    ApiCalendarQuerySchema,
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  const posts = await scheduledPostService.getScheduledPostsInRange(
+    { organizationId: principal.organizationId },
+    new Date(from),
+    new Date(to)
+  );
+  return NextResponse.json({ data: posts.filter(post => post.status !== 'deleted').map(toApiCalendarEntry) });
+});
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest } from '@/lib/api-handler';
+import { withApiKey } from '@/lib/api-keys/with-api-key';
+import { ApiInboxQuerySchema } from '@/lib/validation/schemas';
+import { toApiInboxMessage } from '@/lib/public-api/serializers';
+import { SocialInboxController } from '@/lib/features/content/SocialInboxController';
+import { MessageStatus, MessageType } from '@/lib/features/content/SocialInboxService';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Public API: social inbox
+ *
+ * GET /api/v1/inbox/messages?platform=twitter&status=unread&limit=20&cursor=... - inbox:read
+ *   The key's user's inbox, newest first. Pass nextCursor back as cursor for the next page
+ */
+export const GET = withApiKey('inbox:read', async (request: NextRequest, principal) => {
+  const { platform, type, status, limit, cursor } = validateRequest(
+    ApiInboxQuerySchema,
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  const result = await new SocialInboxController().getUnifiedInboxMessages(
+    principal.userId,
+    {
+      ...(platform ? { platformTypes: [platform] } : {}),
+      ...(type ? { messageTypes: [type as MessageType] } : {}),
+      ...(status ? { statuses: [status as MessageStatus] } : {})
+    },
+    limit,
+    cursor
+  );
+
+  return NextResponse.json({
+    data: result.messages.map(toApiInboxMessage),
+    ...(result.nextCursor ? { nextCursor: result.nextCursor } : {})
+  });
+});
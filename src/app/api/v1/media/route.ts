@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError, validateRequest, ValidationError } from '@/lib/api-handler';
+import { withApiKey } from '@/lib/api-keys/with-api-key';
+import { ApiListMediaQuerySchema, ApiUploadMediaSchema } from '@/lib/validation/schemas';
+import { toApiMediaAsset } from '@/lib/public-api/serializers';
+import { mediaAssetService, MediaType } from '@/lib/features/media/MediaAssetService';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Public API: media assets
+ *
+ * GET /api/v1/media?type=image&limit=50 - media:read. Assets uploaded by the key's user
+ * POST /api/v1/media - media:write. Multipart form with a file and optional
+ *   title, description, altText and comma-separated tags
+ */
+export const GET = withApiKey('media:read', async (request: NextRequest, principal) => {
+  const { type, limit } = validateRequest(
+    ApiListMediaQuerySchema,
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  const assets = await mediaAssetService.searchAssets(principal.userId, principal.organizationId, {
+    ...(type ? { type: type as MediaType } : {}),
+    isArchived: false,
+    limit
+  });
+  return NextResponse.json({ data: assets.map(toApiMediaAsset) });
+});
+
+export const POST = withApiKey('media:write', async (request: NextRequest, principal) => {
+  const formData = await request.formData();
+  const file = formData.get('file');
+  if (!(file instanceof File)) {
+    throw new ValidationError('file is required');
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new AppError(`File size exceeds maximum allowed size of ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`, 413, 'FILE_TOO_LARGE');
+  }
+
+  const fields = validateRequest(ApiUploadMediaSchema, {
+    title: formData.get('title') ?? undefined,
+    description: formData.get('description') ?? undefined,
+    altText: formData.get('altText') ?? undefined,
+    tags: formData.get('tags') ?? undefined
+  });
+
+  const asset = await mediaAssetService.uploadAsset(principal.userId, principal.organizationId, file, {
+    title: fields.title,
+    description: fields.description,
+    altText: fields.altText,
+    tags: fields.tags ? fields.tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined
+  });
+
+  return NextResponse.json({ data: toApiMediaAsset(asset) }, { status: 201 });
+});
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/public-api/openapi';
+
+/**
+ * GET /api/v1/openapi.json - OpenAPI document for the public API; no key needed
+ */
+export async function GET() {
+  const document = buildOpenApiDocument(`${process.env.NEXT_PUBLIC_APP_URL || ''}/api/v1`);
+  return NextResponse.json(document, {
+    headers: { 'Cache-Control': 'public, max-age=3600' }
+  });
+}
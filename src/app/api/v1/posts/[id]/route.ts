@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError, NotFoundError, validateRequest, ValidationError } from '@/lib/api-handler';
+import { withApiKey } from '@/lib/api-keys/with-api-key';
+import { ApiKeyPrincipal } from '@/lib/api-keys/ApiKeyService';
+import { ApiUpdateScheduledPostSchema } from '@/lib/validation/schemas';
+import { toApiScheduledPost } from '@/lib/public-api/serializers';
+import { scheduledPostService, ScheduledPost } from '@/lib/features/scheduling/ScheduledPostService';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteContext = { params: { id: string } };
+
+/**
+ * Scheduled post in the key's organization
+ */
+async function getOrganizationPost(principal: ApiKeyPrincipal, postId: string): Promise<ScheduledPost> {
+  const post = await scheduledPostService.getScheduledPost(postId);
+  if (!post || post.organizationId !== principal.organizationId) {
+    throw new NotFoundError('Scheduled post');
+  }
+  return post;
+}
+
+/**
+ * Public API: scheduled post
+ *
+ * GET /api/v1/posts/:id - posts:read
+ * PATCH /api/v1/posts/:id - posts:write. Only draft and scheduled posts can change
+ * DELETE /api/v1/posts/:id - posts:write. Published posts cannot be deleted
+ */
+export const GET = withApiKey('posts:read', async (request: NextRequest, principal, { params }: RouteContext) => {
+  const post = await getOrganizationPost(principal, params.id);
+  return NextResponse.json({ data: toApiScheduledPost(post) });
+});
+
+export const PATCH = withApiKey('posts:write', async (request: NextRequest, principal, { params }: RouteContext) => {
+  const update = validateRequest(ApiUpdateScheduledPostSchema, await request.json());
+  const post = await getOrganizationPost(principal, params.id);
+
+  if (post.status !== 'draft' && post.status !== 'scheduled') {
+    throw new AppError(`Cannot update ${post.status} posts`, 400, 'INVALID_STATE');
+  }
+
+  const publishAt = update.scheduledAt ? new Date(update.scheduledAt) : post.schedule.publishAt;
+  if (update.scheduledAt && publishAt <= new Date()) {
+    throw new ValidationError('scheduledAt must be in the future');
+  }
+
+  await scheduledPostService.updateScheduledPost(post.id!, {
+    ...(update.content !== undefined || update.title !== undefined
+      ? {
+        post: {
+          ...post.post,
+          ...(update.content !== undefined ? { content: update.content } : {}),
+          ...(update.title !== undefined ? { title: update.title } : {})
+        }
+      }
+      : {}),
+    ...(update.scheduledAt || update.timezone
+      ? { schedule: { ...post.schedule, publishAt, timezone: update.timezone || post.schedule.timezone } }
+      : {}),
+    ...(update.status ? { status: update.status } : {}),
+    ...(update.tags ? { tags: update.tags } : {}),
+    ...(update.notes !== undefined ? { notes: update.notes } : {})
+  });
+
+  const updated = await getOrganizationPost(principal, post.id!);
+  return NextResponse.json({ data: toApiScheduledPost(updated) });
+});
+
+export const DELETE = withApiKey('posts:write', async (request: NextRequest, principal, { params }: RouteContext) => {
+  const post = await getOrganizationPost(principal, params.id);
+
+  if (post.status === 'published') {
+    throw new AppError('Cannot delete published posts', 400, 'INVALID_STATE');
+  }
+
+  await scheduledPostService.deleteScheduledPost(post.id!);
+  return new NextResponse(null, { status: 204 });
+});
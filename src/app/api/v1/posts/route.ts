@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, ValidationError } from '@/lib/api-handler';
+import { withApiKey } from '@/lib/api-keys/with-api-key';
+import { ApiCreateScheduledPostSchema, ApiListScheduledPostsQuerySchema } from '@/lib/validation/schemas';
+import { toApiScheduledPost } from '@/lib/public-api/serializers';
+import { scheduledPostService, ScheduledPost } from '@/lib/features/scheduling/ScheduledPostService';
+import { mediaAssetService } from '@/lib/features/media/MediaAssetService';
+import { AttachmentType, PostAttachment } from '@/lib/features/platforms/models/content';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Public API: scheduled posts
+ *
+ * GET /api/v1/posts?status=scheduled&from=...&to=...&limit=50 - posts:read
+ *   The organization's posts scheduled from 30 days ago to a year ahead by default
+ * POST /api/v1/posts - posts:write. Creates one scheduled post per platform
+ */
+export const GET = withApiKey('posts:read', async (request: NextRequest, principal) => {
+  const { status, from, to, limit } = validateRequest(
+    ApiListScheduledPostsQuerySchema,
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  const startDate = from ? new Date(from) : new Date(Date.now() - 30 * DAY_MS);
+  const endDate = to ? new Date(to) : new Date(Date.now() + 365 * DAY_MS);
+  const posts = await scheduledPostService.getScheduledPostsInRange(
+    { organizationId: principal.organizationId },
+    startDate,
+    endDate,
+    status ? undefined : limit
+  );
+
+  const data = posts.filter(post => !status || post.status === status).slice(0, limit).map(toApiScheduledPost);
+  return NextResponse.json({ data });
+});
+
+export const POST = withApiKey('posts:write', async (request: NextRequest, principal) => {
+  const input = validateRequest(ApiCreateScheduledPostSchema, await request.json());
+
+  const publishAt = new Date(input.scheduledAt);
+  if (publishAt <= new Date()) {
+    throw new ValidationError('scheduledAt must be in the future');
+  }
+
+  const attachments: PostAttachment[] = [];
+  for (const mediaId of input.mediaIds) {
+    const asset = await mediaAssetService.getAsset(mediaId);
+    if (!asset || asset.organizationId !== principal.organizationId) {
+      throw new ValidationError(`Media asset ${mediaId} not found`);
+    }
+    attachments.push({
+      id: mediaId,
+      type: asset.type as unknown as AttachmentType,
+      url: asset.downloadUrl,
+      mimeType: asset.mimeType,
+      ...(asset.width ? { width: asset.width } : {}),
+      ...(asset.height ? { height: asset.height } : {}),
+      ...(asset.altText ? { altText: asset.altText } : {})
+    });
+  }
+
+  const created: ScheduledPost[] = [];
+  for (const platformType of Array.from(new Set(input.platforms))) {
+    const postId = await scheduledPostService.createScheduledPost(
+      principal.userId,
+      principal.organizationId,
+      {
+        platformType,
+        content: input.content,
+        ...(input.title ? { title: input.title } : {}),
+        attachments,
+        metadata: { source: 'api', apiKeyId: principal.keyId }
+      },
+      { publishAt, timezone: input.timezone },
+      { tags: input.tags, notes: input.notes }
+    );
+    const post = await scheduledPostService.getScheduledPost(postId);
+    if (post) {
+      created.push(post);
+    }
+  }
+
+  logger.info('Scheduled posts created through the API', {
+    organizationId: principal.organizationId,
+    keyId: principal.keyId,
+    count: created.length
+  });
+
+  return NextResponse.json({ data: created.map(toApiScheduledPost) }, { status: 201 });
+});
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../../../../lib/auth';
+import { logger } from '../../../../../lib/core/logging/logger';
+import { hasOrganizationRole } from '../../../../../lib/auth/middleware';
+import { OrganizationRole } from '../../../../../lib/team/users/organization';
+import { WebhookService } from '../../../../../lib/webhooks/WebhookService';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Redeliver an outbound webhook event
+ * Sends the event of an earlier delivery attempt again as a new delivery.
+ * The body's event id stays the same so receivers can deduplicate.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { deliveryAttemptId } = body;
+
+    if (!deliveryAttemptId || typeof deliveryAttemptId !== 'string') {
+      return NextResponse.json({ error: 'Missing required field: deliveryAttemptId' }, { status: 400 });
+    }
+
+    const webhookService = new WebhookService();
+    const attempt = await webhookService.getDeliveryAttempt(deliveryAttemptId);
+    const webhook = attempt ? await webhookService.getWebhookById(attempt.webhookId) : null;
+
+    if (!attempt || !webhook) {
+      return NextResponse.json({ error: 'Delivery attempt not found' }, { status: 404 });
+    }
+
+    const canManage = await hasOrganizationRole(session.user.id, webhook.organizationId, [
+      OrganizationRole.OWNER,
+      OrganizationRole.ADMIN
+    ]);
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!webhook.isActive) {
+      return NextResponse.json({
+        error: 'Webhook is disabled; re-enable it before redelivering',
+        disabledReason: webhook.disabledReason
+      }, { status: 409 });
+    }
+
+    const result = await webhookService.redeliver(deliveryAttemptId);
+
+    logger.info('Webhook event redelivered', {
+      userId: session.user.id,
+      webhookId: webhook.id,
+      originalAttemptId: deliveryAttemptId,
+      deliveryAttemptId: result.deliveryAttemptId,
+      success: result.success
+    });
+
+    return NextResponse.json({
+      success: result.success,
+      deliveryAttemptId: result.deliveryAttemptId,
+      eventId: attempt.eventId
+    });
+
+  } catch (error) {
+    logger.error('Error redelivering webhook event', { error });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
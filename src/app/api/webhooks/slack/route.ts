@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import slackIntegrationService, { SlackInteractionPayload } from '@/lib/workflow/SlackIntegrationService';
+import { logger } from '@/lib/core/logging/logger';
+
+// Force dynamic rendering - required for Firebase/database access
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/webhooks/slack - Slack interactivity request URL
+ *
+ * Receives button clicks on approval requests and request-changes modal
+ * submissions. Requests must carry a valid Slack signature.
+ */
+export async function POST(request: NextRequest) {
+  // The signature covers the body exactly as sent, so read it before parsing
+  const rawBody = await request.text();
+
+  const verified = slackIntegrationService.getRequestVerifier().verifyRequestSignature(
+    rawBody,
+    request.headers.get('x-slack-request-timestamp'),
+    request.headers.get('x-slack-signature')
+  );
+
+  if (!verified) {
+    logger.warn('Rejected Slack request with invalid signature');
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  let payload: SlackInteractionPayload;
+  try {
+    payload = JSON.parse(new URLSearchParams(rawBody).get('payload') || '');
+  } catch {
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  try {
+    const response = await slackIntegrationService.handleInteraction(payload);
+    return response ? NextResponse.json(response) : new NextResponse(null, { status: 200 });
+  } catch (error) {
+    logger.error('Error handling Slack interaction', {
+      type: payload.type,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    // Slack shows its own error for non-2xx answers
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -588,7 +588,9 @@ export async function POST(req: NextRequest) {
                   sessionId: session.id,
                   amountPaid: (session.amount_total || 0) / 100,
                   currency: session.currency || 'usd',
-                }
+                },
+                // Stripe redelivers events, so credit each session once
+                session.id
               );
 
               if (result.success) {
@@ -0,0 +1,324 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Layout, Container, Typography, Button, Card, Loading } from '@/components/ui/new';
+import type { ExternalReviewView } from '@/lib/features/content/workflow/ExternalReviewService';
+import type { InlineReviewComment } from '@/lib/features/content/models/workflow';
+
+type ReviewDecision = 'approved' | 'rejected' | 'changes_requested';
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  approved: 'Approve',
+  rejected: 'Reject',
+  changes_requested: 'Request changes'
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  approve: 'Approved',
+  reject: 'Rejected',
+  request_changes: 'Requested changes',
+  review: 'Reviewed'
+};
+
+export default function ExternalReviewPage() {
+  const params = useParams();
+  const token = Array.isArray(params?.token) ? params.token[0] : params?.token;
+
+  const [review, setReview] = useState<ExternalReviewView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activePlatform, setActivePlatform] = useState<string | null>(null);
+  const [comments, setComments] = useState('');
+  const [inlineComments, setInlineComments] = useState<InlineReviewComment[]>([]);
+  const [inlineDraft, setInlineDraft] = useState('');
+  const [submitting, setSubmitting] = useState<ReviewDecision | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+  const postTextRef = useRef<HTMLTextAreaElement>(null);
+
+  const loadReview = useCallback(async () => {
+    if (!token) {
+      setError('Invalid review link.');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/review/${token}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'This review link could not be opened.');
+        return;
+      }
+
+      setReview(data);
+      setActivePlatform(current => current || data.content.previews[0]?.platformType || null);
+    } catch (err) {
+      console.error('Error loading review:', err);
+      setError('An unexpected error occurred. Please try again later.');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadReview();
+  }, [loadReview]);
+
+  const addInlineComment = () => {
+    const text = inlineDraft.trim();
+    const textarea = postTextRef.current;
+    if (!text || !textarea) return;
+
+    const comment: InlineReviewComment = { text };
+    if (activePlatform) {
+      comment.platform = activePlatform as InlineReviewComment['platform'];
+    }
+    if (textarea.selectionEnd > textarea.selectionStart) {
+      comment.start = textarea.selectionStart;
+      comment.end = textarea.selectionEnd;
+      comment.quote = textarea.value.slice(textarea.selectionStart, textarea.selectionEnd);
+    }
+
+    setInlineComments(current => current.concat(comment));
+    setInlineDraft('');
+  };
+
+  const submitDecision = async (status: ReviewDecision) => {
+    setSubmitting(status);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/review/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, comments, inlineComments })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Your review could not be submitted.');
+        return;
+      }
+
+      setReview(data);
+      setComments('');
+      setInlineComments([]);
+      setSubmitted(true);
+    } catch (err) {
+      console.error('Error submitting review:', err);
+      setError('An unexpected error occurred. Please try again later.');
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="min-h-screen flex items-center justify-center">
+          <Loading size="lg" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!review) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+          <Container maxWidth="md">
+            <Card className="p-8">
+              <div className="text-center space-y-4">
+                <Typography variant="h5">Review unavailable</Typography>
+                <Typography variant="body" color="secondary">{error}</Typography>
+              </div>
+            </Card>
+          </Container>
+        </div>
+      </Layout>
+    );
+  }
+
+  const { content, reviewer } = review;
+  const preview = content.previews.find(item => item.platformType === activePlatform) || content.previews[0];
+
+  return (
+    <Layout>
+      <div className="py-10">
+        <Container maxWidth="xl">
+          <div className="space-y-6">
+            <div>
+              <Typography variant="h4">{content.title}</Typography>
+              <Typography variant="caption" color="secondary">
+                Hi {reviewer.name}, {reviewer.invitedByName} asked for your review. This link expires{' '}
+                {new Date(reviewer.expiresAt).toLocaleString()}.
+              </Typography>
+              {reviewer.message && (
+                <p className="mt-3 bg-gray-100 p-3 border-l-4 border-[#00CC44] text-sm italic">{reviewer.message}</p>
+              )}
+            </div>
+
+            {content.schedule && (
+              <Card padding="sm">
+                <Typography variant="caption" color="secondary">Scheduled for</Typography>
+                <Typography variant="body">
+                  {new Date(content.schedule.publishAt).toLocaleString(undefined, { timeZone: content.schedule.timezone })}
+                  {' '}({content.schedule.timezone})
+                </Typography>
+              </Card>
+            )}
+
+            <Card>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {content.previews.map(item => (
+                  <button
+                    key={item.platformType}
+                    type="button"
+                    onClick={() => setActivePlatform(item.platformType)}
+                    className={`px-3 py-1 rounded-full text-sm capitalize ${
+                      item.platformType === preview?.platformType ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700'
+                    }`}
+                  >
+                    {item.platformType.replace('_', ' ')}
+                  </button>
+                ))}
+              </div>
+
+              {preview && (
+                <div className="space-y-3">
+                  {preview.parts.map((part, index) => (
+                    <div key={index} className="rounded-lg border border-gray-200 p-4 whitespace-pre-wrap text-gray-900">
+                      {part}
+                    </div>
+                  ))}
+                  <Typography variant="caption" color={preview.characterCount.isValid ? 'muted' : 'primary'}>
+                    {preview.characterCount.length} / {preview.characterCount.limit} characters
+                    {preview.parts.length > 1 && ` · posted as a thread of ${preview.parts.length}`}
+                    {!preview.characterCount.isValid && preview.parts.length === 1 && ' · over the limit'}
+                  </Typography>
+                </div>
+              )}
+
+              {content.media.length > 0 && (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mt-4">
+                  {content.media.map((media, index) => (
+                    media.type.startsWith('video') ? (
+                      <video key={index} src={media.url} poster={media.thumbnailUrl} controls className="w-full rounded-lg" />
+                    ) : (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img key={index} src={media.url} alt={media.altText || ''} className="w-full rounded-lg object-cover" />
+                    )
+                  ))}
+                </div>
+              )}
+            </Card>
+
+            {review.canReview ? (
+              <Card>
+                <div className="space-y-4">
+                  <Typography variant="h6">Your review</Typography>
+
+                  <div>
+                    <Typography variant="caption" color="secondary">
+                      Select part of the post below to comment on it.
+                    </Typography>
+                    <textarea
+                      ref={postTextRef}
+                      readOnly
+                      value={content.text}
+                      rows={5}
+                      className="mt-1 w-full rounded-lg border border-gray-200 bg-gray-50 p-3 text-sm"
+                    />
+                    <div className="flex gap-2 mt-2">
+                      <input
+                        value={inlineDraft}
+                        onChange={event => setInlineDraft(event.target.value)}
+                        placeholder="Comment on the selection"
+                        className="flex-1 rounded-lg border border-gray-200 p-2 text-sm"
+                      />
+                      <Button type="button" variant="secondary" size="sm" onClick={addInlineComment} disabled={!inlineDraft.trim()}>
+                        Add comment
+                      </Button>
+                    </div>
+                    {inlineComments.length > 0 && (
+                      <ul className="mt-3 space-y-2">
+                        {inlineComments.map((comment, index) => (
+                          <li key={index} className="flex items-start justify-between gap-3 text-sm bg-gray-50 rounded-lg p-2">
+                            <span>
+                              {comment.quote && <span className="text-gray-500">&ldquo;{comment.quote}&rdquo; </span>}
+                              {comment.text}
+                            </span>
+                            <button
+                              type="button"
+                              className="text-gray-500 hover:text-gray-900"
+                              onClick={() => setInlineComments(current => current.filter((_, i) => i !== index))}
+                            >
+                              Remove
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  <textarea
+                    value={comments}
+                    onChange={event => setComments(event.target.value)}
+                    rows={3}
+                    placeholder="Overall comments (optional)"
+                    className="w-full rounded-lg border border-gray-200 p-3 text-sm"
+                  />
+
+                  {error && <Typography variant="caption" className="text-red-600">{error}</Typography>}
+                  {submitted && <Typography variant="caption" color="secondary">Thanks, your review was recorded.</Typography>}
+
+                  <div className="flex flex-wrap gap-3">
+                    {(Object.keys(DECISION_LABELS) as ReviewDecision[]).map(decision => (
+                      <Button
+                        key={decision}
+                        variant={decision === 'approved' ? 'primary' : 'outline'}
+                        isLoading={submitting === decision}
+                        disabled={!!submitting}
+                        onClick={() => submitDecision(decision)}
+                      >
+                        {DECISION_LABELS[decision]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </Card>
+            ) : (
+              <Card>
+                <Typography variant="body" color="secondary">
+                  This post is no longer awaiting review ({review.workflowState.replace('_', ' ')}).
+                </Typography>
+              </Card>
+            )}
+
+            {review.reviews.length > 0 && (
+              <Card>
+                <Typography variant="h6">Your decisions</Typography>
+                <ul className="mt-3 space-y-2 text-sm">
+                  {review.reviews.map((entry, index) => (
+                    <li key={index}>
+                      <span className="font-medium">{ACTION_LABELS[entry.action] || entry.action}</span>
+                      {' '}on {new Date(entry.timestamp).toLocaleString()}
+                      {entry.comments && <span className="text-gray-600"> &mdash; {entry.comments}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            )}
+
+            <div className="flex gap-4 text-sm">
+              <a href={`/api/review/${token}?export=pdf`} className="text-[#00CC44] hover:underline">Download audit trail (PDF)</a>
+              <a href={`/api/review/${token}?export=csv`} className="text-[#00CC44] hover:underline">Download audit trail (CSV)</a>
+            </div>
+          </div>
+        </Container>
+      </div>
+    </Layout>
+  );
+}
@@ -35,7 +35,8 @@ const platformOptions = [
   { value: PlatformType.PINTEREST, label: 'Pinterest', icon: '📌' },
   { value: PlatformType.REDDIT, label: 'Reddit', icon: '👽' },
   { value: PlatformType.MASTODON, label: 'Mastodon', icon: '🐘' },
-  { value: PlatformType.THREADS, label: 'Threads', icon: '🧵' }
+  { value: PlatformType.THREADS, label: 'Threads', icon: '🧵' },
+  { value: PlatformType.GOOGLE_BUSINESS, label: 'Google Business Profile', icon: '📍' }
 ];
 
 interface PlatformConnectorProps {
@@ -1,6 +1,6 @@
 // src/lib/api-handler.ts
 import { NextResponse } from 'next/server';
-import { ZodError, ZodSchema } from 'zod';
+import { ZodError, ZodType, ZodTypeDef } from 'zod';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 
@@ -96,6 +96,6 @@ export function withAuth<T extends (...args: any[]) => Promise<Response>>(
   }) as T;
 }
 
-export function validateRequest<T>(schema: ZodSchema<T>, data: unknown): T {
+export function validateRequest<T>(schema: ZodType<T, ZodTypeDef, unknown>, data: unknown): T {
   return schema.parse(data);
 }
@@ -0,0 +1,299 @@
+/**
+ * API keys
+ *
+ * Keys let scripts and internal tools call the public /api/v1 routes without a
+ * browser session. A personal key belongs to one user in one organization; an
+ * organization key is managed by the organization's owners and admins. Either
+ * way a key acts as a user within an organization — for organization keys, the
+ * admin who created it — and only for the scopes it was given.
+ *
+ * Only a SHA-256 hash of each key is stored. Keys stop working when their user
+ * leaves the organization, and a user whose role drops to viewer keeps only the
+ * read scopes.
+ */
+
+import crypto from 'crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getFirestore } from '../core/firebase/admin';
+import { logger } from '../core/logging/logger';
+import { OrganizationRole } from '../team/users/organization';
+import { recordAuditEvent } from '../team/activity/audit-events';
+import { ApiKeyScope, getEffectiveScopes, isApiKeyScope } from './scopes';
+
+/**
+ * API key error
+ */
+export class ApiKeyError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'invalid' | 'not_found' | 'forbidden' | 'limit'
+  ) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+/**
+ * Who manages a key
+ */
+export type ApiKeyType = 'personal' | 'organization';
+
+/**
+ * Key as listed in settings
+ */
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  // First characters of the key, to tell keys apart
+  prefix: string;
+  type: ApiKeyType;
+  organizationId: string;
+  // User the key acts as
+  userId: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  createdAt: Date;
+  createdBy: string;
+  lastUsedAt?: Date;
+  expiresAt?: Date;
+}
+
+/**
+ * Settings for a new key
+ */
+export interface ApiKeyInput {
+  type: ApiKeyType;
+  organizationId: string;
+  name: string;
+  scopes: string[];
+  rateLimitPerMinute?: number;
+  expiresInDays?: number;
+}
+
+/**
+ * Caller of an authenticated API request
+ */
+export interface ApiKeyPrincipal {
+  keyId: string;
+  type: ApiKeyType;
+  userId: string;
+  organizationId: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+}
+
+const KEYS_COLLECTION = 'apiKeys';
+const KEY_PREFIX = 'irs_';
+const MAX_KEYS_PER_OWNER = 25;
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+const MAX_RATE_LIMIT_PER_MINUTE = 600;
+const MAX_EXPIRY_DAYS = 365;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * API key service
+ */
+export class ApiKeyService {
+  /**
+   * Issue a key
+   * @param createdBy User creating the key, who the key will act as
+   * @returns The key, shown once
+   */
+  async createKey(input: ApiKeyInput, createdBy: string): Promise<{ key: string; summary: ApiKeySummary }> {
+    const name = (input.name || '').trim();
+    if (!name || name.length > 100) {
+      throw new ApiKeyError('Name is required and must be at most 100 characters', 'invalid');
+    }
+
+    const scopes = Array.from(new Set(input.scopes || []));
+    if (scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+      throw new ApiKeyError('Scopes must be a non-empty list of known scopes', 'invalid');
+    }
+
+    const rateLimitPerMinute = input.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE;
+    if (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1 || rateLimitPerMinute > MAX_RATE_LIMIT_PER_MINUTE) {
+      throw new ApiKeyError(`rateLimitPerMinute must be a whole number from 1 to ${MAX_RATE_LIMIT_PER_MINUTE}`, 'invalid');
+    }
+
+    if (input.expiresInDays !== undefined &&
+      (!Number.isInteger(input.expiresInDays) || input.expiresInDays < 1 || input.expiresInDays > MAX_EXPIRY_DAYS)) {
+      throw new ApiKeyError(`expiresInDays must be a whole number from 1 to ${MAX_EXPIRY_DAYS}`, 'invalid');
+    }
+
+    const role = await this.getMemberRole(input.organizationId, createdBy);
+    if (!role) {
+      throw new ApiKeyError('You are not a member of this organization', 'forbidden');
+    }
+    if (input.type === 'organization' && role !== OrganizationRole.OWNER && role !== OrganizationRole.ADMIN) {
+      throw new ApiKeyError('Only owners and admins can create organization keys', 'forbidden');
+    }
+    if (getEffectiveScopes(scopes, role).length !== scopes.length) {
+      throw new ApiKeyError('Viewers can only create keys with read scopes', 'forbidden');
+    }
+
+    const existing = await this.listKeys(input.type === 'organization' ? { organizationId: input.organizationId } : { userId: createdBy });
+    if (existing.length >= MAX_KEYS_PER_OWNER) {
+      throw new ApiKeyError(`A maximum of ${MAX_KEYS_PER_OWNER} keys is allowed; revoke an unused key first`, 'limit');
+    }
+
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const id = this.hash(key);
+    const prefix = key.slice(0, KEY_PREFIX.length + 6);
+    const now = Timestamp.now();
+    const expiresAt = input.expiresInDays
+      ? Timestamp.fromMillis(now.toMillis() + input.expiresInDays * 24 * 60 * 60 * 1000)
+      : undefined;
+
+    await getFirestore().collection(KEYS_COLLECTION).doc(id).set({
+      name,
+      prefix,
+      type: input.type,
+      organizationId: input.organizationId,
+      userId: createdBy,
+      scopes,
+      rateLimitPerMinute,
+      createdAt: now,
+      createdBy,
+      ...(expiresAt ? { expiresAt } : {})
+    });
+
+    await recordAuditEvent({
+      userId: createdBy,
+      category: 'security',
+      action: 'create_api_key',
+      severity: 'warning',
+      organizationId: input.organizationId,
+      resourceId: id,
+      resourceType: 'api_key',
+      metadata: { name, prefix, type: input.type, scopes }
+    });
+
+    return {
+      key,
+      summary: {
+        id,
+        name,
+        prefix,
+        type: input.type,
+        organizationId: input.organizationId,
+        userId: createdBy,
+        scopes,
+        rateLimitPerMinute,
+        createdAt: now.toDate(),
+        createdBy,
+        expiresAt: expiresAt?.toDate()
+      }
+    };
+  }
+
+  /**
+   * A user's personal keys, or an organization's keys
+   */
+  async listKeys(owner: { userId: string } | { organizationId: string }): Promise<ApiKeySummary[]> {
+    const collection = getFirestore().collection(KEYS_COLLECTION);
+    const snapshot = await ('userId' in owner
+      ? collection.where('userId', '==', owner.userId).where('type', '==', 'personal')
+      : collection.where('organizationId', '==', owner.organizationId).where('type', '==', 'organization')
+    ).get();
+
+    return snapshot.docs.map((keyDoc: any) => {
+      const data = keyDoc.data();
+      return {
+        id: keyDoc.id,
+        name: data.name,
+        prefix: data.prefix,
+        type: data.type,
+        organizationId: data.organizationId,
+        userId: data.userId,
+        scopes: data.scopes || [],
+        rateLimitPerMinute: data.rateLimitPerMinute || DEFAULT_RATE_LIMIT_PER_MINUTE,
+        createdAt: data.createdAt.toDate(),
+        createdBy: data.createdBy,
+        lastUsedAt: data.lastUsedAt?.toDate(),
+        expiresAt: data.expiresAt?.toDate()
+      };
+    });
+  }
+
+  /**
+   * Revoke one of a user's personal keys or an organization's keys
+   */
+  async revokeKey(keyId: string, owner: { userId: string } | { organizationId: string }, revokedBy: string): Promise<void> {
+    const keyRef = getFirestore().collection(KEYS_COLLECTION).doc(keyId);
+    const keyDoc = await keyRef.get();
+    const data = keyDoc.exists ? keyDoc.data()! : null;
+    const owned = !!data && ('userId' in owner
+      ? data.type === 'personal' && data.userId === owner.userId
+      : data.type === 'organization' && data.organizationId === owner.organizationId);
+    if (!data || !owned) {
+      throw new ApiKeyError('API key not found', 'not_found');
+    }
+
+    await keyRef.delete();
+    await recordAuditEvent({
+      userId: revokedBy,
+      category: 'security',
+      action: 'revoke_api_key',
+      severity: 'warning',
+      organizationId: data.organizationId,
+      resourceId: keyId,
+      resourceType: 'api_key',
+      metadata: { name: data.name, prefix: data.prefix, type: data.type }
+    });
+  }
+
+  /**
+   * Caller a key belongs to, or null if the key is unknown, expired or its user
+   * has left the organization
+   */
+  async authenticate(key: string | null | undefined): Promise<ApiKeyPrincipal | null> {
+    if (!key || !key.startsWith(KEY_PREFIX)) {
+      return null;
+    }
+
+    const keyRef = getFirestore().collection(KEYS_COLLECTION).doc(this.hash(key));
+    const keyDoc = await keyRef.get();
+    if (!keyDoc.exists) {
+      return null;
+    }
+
+    const data = keyDoc.data()!;
+    if (data.expiresAt && data.expiresAt.toMillis() <= Date.now()) {
+      return null;
+    }
+
+    const role = await this.getMemberRole(data.organizationId, data.userId);
+    if (!role) {
+      logger.warn('API key used after its user left the organization', { keyId: keyDoc.id, organizationId: data.organizationId });
+      return null;
+    }
+
+    if (!data.lastUsedAt || Date.now() - data.lastUsedAt.toMillis() > LAST_USED_RESOLUTION_MS) {
+      await keyRef.update({ lastUsedAt: Timestamp.now() });
+    }
+
+    return {
+      keyId: keyDoc.id,
+      type: data.type,
+      userId: data.userId,
+      organizationId: data.organizationId,
+      scopes: getEffectiveScopes((data.scopes || []).filter(isApiKeyScope), role),
+      rateLimitPerMinute: data.rateLimitPerMinute || DEFAULT_RATE_LIMIT_PER_MINUTE
+    };
+  }
+
+  private async getMemberRole(organizationId: string, userId: string): Promise<OrganizationRole | null> {
+    const memberDoc = await getFirestore()
+      .collection('organizations').doc(organizationId)
+      .collection('members').doc(userId)
+      .get();
+    return memberDoc.exists ? (memberDoc.data()!.role as OrganizationRole) : null;
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
+export default apiKeyService;
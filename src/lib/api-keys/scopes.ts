@@ -0,0 +1,40 @@
+import { OrganizationRole } from '../team/users/organization';
+
+/**
+ * Permission granted to an API key
+ */
+export type ApiKeyScope =
+  | 'posts:read'
+  | 'posts:write'
+  | 'media:read'
+  | 'media:write'
+  | 'calendar:read'
+  | 'inbox:read'
+  | 'analytics:read';
+
+/**
+ * Scopes and what they allow, as shown when creating a key and in the OpenAPI document
+ */
+export const API_KEY_SCOPES: Record<ApiKeyScope, string> = {
+  'posts:read': 'List and read scheduled posts',
+  'posts:write': 'Create, update and delete scheduled posts',
+  'media:read': 'List media assets',
+  'media:write': 'Upload media assets',
+  'calendar:read': 'Read the content calendar',
+  'inbox:read': 'Read social inbox messages',
+  'analytics:read': 'Read post analytics'
+};
+
+/**
+ * Whether a value is a known scope
+ */
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(API_KEY_SCOPES, value);
+}
+
+/**
+ * Scopes a key can use given its user's organization role; viewers only read
+ */
+export function getEffectiveScopes(scopes: ApiKeyScope[], role: OrganizationRole): ApiKeyScope[] {
+  return role === OrganizationRole.VIEWER ? scopes.filter(scope => scope.endsWith(':read')) : scopes;
+}
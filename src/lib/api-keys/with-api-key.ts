@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError, AuthenticationError, AuthorizationError, handleApiError } from '../api-handler';
+import { checkRateLimit, getRateLimitHeaders } from '../core/cache/rate-limiter';
+import { apiKeyService, ApiKeyPrincipal } from './ApiKeyService';
+import { ApiKeyScope } from './scopes';
+
+/**
+ * Key sent as a bearer token or in the X-API-Key header
+ */
+function getRequestKey(request: NextRequest): string | null {
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer || request.headers.get('x-api-key');
+}
+
+/**
+ * Wrap a public API route handler with API key authentication, a scope check
+ * and the key's rate limit. Errors thrown by the handler are answered as
+ * { error, code } like the rest of the API.
+ * @param scope Scope the route needs
+ */
+export function withApiKey<C>(
+  scope: ApiKeyScope,
+  handler: (request: NextRequest, principal: ApiKeyPrincipal, context: C) => Promise<NextResponse>
+) {
+  return async function (request: NextRequest, context: C): Promise<NextResponse> {
+    try {
+      const principal = await apiKeyService.authenticate(getRequestKey(request));
+      if (!principal) {
+        throw new AuthenticationError('Invalid or missing API key');
+      }
+      if (!principal.scopes.includes(scope)) {
+        throw new AuthorizationError(`This API key does not have the ${scope} scope`);
+      }
+
+      const rateLimit = await checkRateLimit(principal.keyId, {
+        windowMs: 60 * 1000,
+        max: principal.rateLimitPerMinute,
+        keyPrefix: 'ratelimit:apikey:'
+      });
+      const headers = getRateLimitHeaders(rateLimit);
+
+      const response = rateLimit.limited
+        ? handleApiError(new AppError('Rate limit exceeded. Please try again later.', 429, 'RATE_LIMITED'))
+        : await handler(request, principal, context).catch(handleApiError);
+
+      Object.entries(headers).forEach(([name, value]) => response.headers.set(name, value));
+      return response;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  };
+}
@@ -6,11 +6,67 @@ import TwitterProvider from "next-auth/providers/twitter";
 import FacebookProvider from "next-auth/providers/facebook";
 import { getFirestore, getAuth } from './core/firebase/admin';
 import { serverTimestamp } from './core/firebase/admin';
-import { compare } from 'bcryptjs';
+import { cookies } from 'next/headers';
+import { JWT } from 'next-auth/jwt';
 import { generateOrganizationId, validateUserOrganizationConnections } from './utils';
 import { UserRole } from './core/models/User';
 import { SubscriptionTier as BaseSubscriptionTier } from './subscription/models/subscription';
 import { getGoogleOAuthClientId } from '@/lib/server/env';
+import { twoFactorManager, TRUSTED_DEVICE_COOKIE } from '@/lib/features/user/auth/TwoFactorManager';
+import { verifyPassword } from './auth/password';
+
+// Sign-in error telling the login form to ask for a two-factor code
+export const TWO_FACTOR_REQUIRED_ERROR = 'TwoFactorRequired';
+// Sign-in error telling the login form that codes are refused for now
+export const TWO_FACTOR_LOCKED_ERROR = 'TwoFactorLocked';
+
+/**
+ * Read a cookie from a raw Cookie header
+ */
+function getCookieValue(cookieHeader: string | undefined, name: string): string | undefined {
+  const match = (cookieHeader || '').split(';').map(part => part.trim()).find(part => part.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : undefined;
+}
+
+/**
+ * Remember-this-device token of the request the NextAuth callbacks run for
+ */
+async function getTrustedDeviceToken(): Promise<string | undefined> {
+  try {
+    const cookieStore = await cookies();
+    return cookieStore.get(TRUSTED_DEVICE_COOKIE)?.value;
+  } catch {
+    // Outside a request there is no remembered device
+    return undefined;
+  }
+}
+
+/**
+ * Second-factor step of an OAuth sign-in. Users with two-factor authentication
+ * get a pending session, without a custom token, until a code is sent through
+ * the session update (useSession().update({ twoFactorCode }) or { recoveryCode }).
+ * @param proof Code or recovery code sent with the session update, if any
+ * @returns Whether the session may be completed
+ */
+async function passOAuthTwoFactor(token: JWT, userId: string, proof: Record<string, unknown> = {}): Promise<boolean> {
+  const twoFactor = await twoFactorManager.checkLogin(
+    userId,
+    {
+      code: typeof proof.twoFactorCode === 'string' ? proof.twoFactorCode : undefined,
+      recoveryCode: typeof proof.recoveryCode === 'string' ? proof.recoveryCode : undefined
+    },
+    await getTrustedDeviceToken()
+  );
+
+  if (twoFactor.challengeRequired) {
+    token.twoFactorPendingUserId = userId;
+    delete token.customToken;
+    return false;
+  }
+
+  delete token.twoFactorPendingUserId;
+  return true;
+}
 
 // Define authentication options
 export const authOptions: NextAuthOptions = {
@@ -27,9 +83,11 @@ export const authOptions: NextAuthOptions = {
       name: "credentials",
       credentials: {
         email: { label: "Email", type: "email" },
-        password: { label: "Password", type: "password" }
+        password: { label: "Password", type: "password" },
+        twoFactorCode: { label: "Authentication code", type: "text" },
+        recoveryCode: { label: "Recovery code", type: "text" }
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) {
           throw new Error("Email and password required");
         }
@@ -39,15 +97,14 @@ export const authOptions: NextAuthOptions = {
           const auth = getAuth();
           const firestore = getFirestore();
           
-          // Check if user exists
-          const userRecord = await auth.getUserByEmail(credentials.email).catch(() => null);
+          // Check the password with Firebase Auth
+          const userId = await verifyPassword(credentials.email, credentials.password);
+          const userRecord = userId ? await auth.getUser(userId).catch(() => null) : null;
           
           if (!userRecord) {
-            throw new Error("User not found");
+            throw new Error("Invalid credentials");
           }
           
-          // We can't verify password directly with Admin SDK, 
-          // but we can get the user data from Firestore and check if it exists
           const userDoc = await firestore.collection('users').doc(userRecord.uid).get();
           
           if (!userDoc.exists) {
@@ -56,6 +113,16 @@ export const authOptions: NextAuthOptions = {
           
           const userData = userDoc.data();
           
+          // Users with two-factor authentication need a code, a recovery code or a remembered device
+          const twoFactor = await twoFactorManager.checkLogin(
+            userRecord.uid,
+            { code: credentials.twoFactorCode, recoveryCode: credentials.recoveryCode },
+            getCookieValue(req?.headers?.cookie, TRUSTED_DEVICE_COOKIE)
+          );
+          if (twoFactor.challengeRequired) {
+            throw new Error(twoFactor.lockedUntil ? TWO_FACTOR_LOCKED_ERROR : TWO_FACTOR_REQUIRED_ERROR);
+          }
+          
           // Create custom token for session
           const customToken = await auth.createCustomToken(userRecord.uid);
           
@@ -69,12 +136,50 @@ export const authOptions: NextAuthOptions = {
             customToken: customToken
           };
         } catch (error) {
+          if (error instanceof Error && [TWO_FACTOR_REQUIRED_ERROR, TWO_FACTOR_LOCKED_ERROR].includes(error.message)) {
+            throw error;
+          }
           console.error("Auth error:", error);
           throw new Error("Authentication failed");
         }
       }
     }),
 
+    // SAML single sign-on: the ACS hands the SSO login page a single-use ticket to exchange here.
+    // The identity provider is responsible for the second factor.
+    CredentialsProvider({
+      id: "saml",
+      name: "SAML SSO",
+      credentials: {
+        ticket: { label: "Sign-in ticket", type: "text" }
+      },
+      async authorize(credentials) {
+        if (!credentials?.ticket) {
+          throw new Error("Sign-in ticket required");
+        }
+
+        const { samlService } = await import('./auth/saml');
+        const login = await samlService.consumeLoginTicket(credentials.ticket);
+        if (!login) {
+          throw new Error("Sign-in link has expired");
+        }
+
+        const userRecord = await getAuth().getUser(login.userId);
+        const userDoc = await getFirestore().collection('users').doc(login.userId).get();
+        const userData = userDoc.data();
+
+        return {
+          id: userRecord.uid,
+          name: userData?.name || userData?.displayName || "",
+          email: userRecord.email,
+          image: userData?.image || "",
+          role: userData?.role || "user",
+          organizationId: login.organizationId,
+          customToken: await getAuth().createCustomToken(userRecord.uid)
+        };
+      }
+    }),
+
     // Google OAuth
     GoogleProvider({
       clientId: process.env.GOOGLE_CLIENT_ID || '',
@@ -123,7 +228,15 @@ export const authOptions: NextAuthOptions = {
   // Callbacks to customize JWT and session
   callbacks: {
     // Add custom claims to JWT
-    async jwt({ token, user, account }) {
+    async jwt({ token, user, account, trigger, session }) {
+      // A pending OAuth sign-in completes once a code is sent through a session update
+      if (trigger === 'update' && token.twoFactorPendingUserId) {
+        const userId = token.twoFactorPendingUserId;
+        if (await passOAuthTwoFactor(token, userId, session)) {
+          token.customToken = await getAuth().createCustomToken(userId);
+        }
+      }
+      
       // Initial sign in
       if (account && user) {
         token.role = user.role || "user";
@@ -139,14 +252,24 @@ export const authOptions: NextAuthOptions = {
           token.customToken = (user as any).customToken;
         }
         
+        // Other OAuth providers do not issue custom tokens, but existing users still pass their second factor
+        if (account.type === 'oauth' && account.provider !== 'google' && account.provider !== 'apple' && user.email) {
+          const userRecord = await getAuth().getUserByEmail(user.email).catch(() => null);
+          if (userRecord) {
+            await passOAuthTwoFactor(token, userRecord.uid);
+          }
+        }
+        
         // If this is the first time the user signs in with OAuth
         if (account.provider === 'google' || account.provider === 'apple') {
+          let existingUserId: string | undefined;
           try {
             const firestore = getFirestore();
             const auth = getAuth();
             
             // Try to find user by email
             const userRecord = await auth.getUserByEmail(user.email as string).catch(() => null);
+            existingUserId = userRecord?.uid;
             
             if (!userRecord) {
               // Create a new user in Firebase if doesn't exist
@@ -188,18 +311,20 @@ export const authOptions: NextAuthOptions = {
                 updatedAt: serverTimestamp(),
                 provider: account.provider,
               });
-              
-              // Generate custom token for session
-              token.customToken = await auth.createCustomToken(userRecord.uid);
             }
           } catch (error) {
             console.error("Error updating user data:", error);
           }
+          
+          // Outside the try so a failed second-factor check fails the sign-in instead of completing it
+          if (existingUserId && (await passOAuthTwoFactor(token, existingUserId))) {
+            token.customToken = await getAuth().createCustomToken(existingUserId);
+          }
         }
       }
       
       // Always fetch latest user data from Firestore to ensure we have the correct role/tier
-      if (token.sub) {
+      if (token.sub && !token.twoFactorPendingUserId) {
         try {
           const firestore = getFirestore();
           const userDoc = await firestore.collection('users').doc(token.sub).get();
@@ -256,6 +381,11 @@ export const authOptions: NextAuthOptions = {
     
     // Add custom data to session
     async session({ session, token }) {
+      // A pending sign-in has no user until its second factor is passed
+      if (token.twoFactorPendingUserId) {
+        return { expires: session.expires, twoFactorPending: true } as unknown as typeof session;
+      }
+      
       if (session.user) {
         session.user.id = token.sub as string;
         session.user.role = token.role as string;
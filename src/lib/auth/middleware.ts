@@ -1,8 +1,9 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { AuthService } from './auth-service';
 import { UserRole, isRegularUser } from '../core/models/User';
+import { Organization, OrganizationType, getAgencyWorkspaceRole, getTwoFactorRequirement } from '../core/models/Organization';
 import { getFirebaseFirestore } from '../core/firebase';
-import { doc, getDoc } from 'firebase/firestore';
+import { Firestore, doc, getDoc } from 'firebase/firestore';
 import { OrganizationRole, getOrganization, getUserOrganizationRole, isMemberOfOrganization } from '../team/users/organization';
 import { getCurrentUser } from './token';
 import { NextRequest, NextResponse } from 'next/server';
@@ -202,6 +203,27 @@ export async function authMiddleware(req: NextRequest) {
   return NextResponse.next();
 }
 
+/**
+ * Members past the grace period of a two-factor policy lose access until they enroll
+ */
+async function isBlockedByTwoFactorPolicy(
+  firestore: Firestore,
+  userId: string,
+  organizationId: string,
+  orgData: Record<string, any>
+): Promise<boolean> {
+  if (!orgData.settings?.security?.requireTwoFactor) {
+    return false;
+  }
+
+  const userDoc = await getDoc(doc(firestore, 'users', userId));
+  const requirement = getTwoFactorRequirement(orgData.settings.security, userDoc.data()?.twoFactorEnabled === true);
+  if (requirement.blocked) {
+    logger.warn('Organization access requires two-factor authentication', { userId, organizationId });
+  }
+  return requirement.blocked;
+}
+
 /**
  * Check if a user has one of the required organization roles
  * 
@@ -234,6 +256,10 @@ export async function hasOrganizationRole(
     
     const orgData = orgDoc.data();
     
+    if (await isBlockedByTwoFactorPolicy(firestore, userId, organizationId, orgData)) {
+      return false;
+    }
+    
     // Check if the user is the owner (highest permission level)
     if (orgData.ownerId === userId) {
       return true;
@@ -251,6 +277,21 @@ export async function hasOrganizationRole(
     );
     
     if (!memberDoc.exists()) {
+      // Agency owners and admins administer every client workspace of the agency
+      if (
+        orgData.organizationType === OrganizationType.CLIENT_WORKSPACE &&
+        orgData.parentOrganizationId &&
+        requiredRoles.includes(OrganizationRole.ADMIN)
+      ) {
+        const agencyDoc = await getDoc(doc(firestore, 'organizations', orgData.parentOrganizationId));
+        if (!agencyDoc.exists()) {
+          return false;
+        }
+        const agencyData = agencyDoc.data();
+        const agency = { ...agencyData, id: agencyDoc.id, members: agencyData.members || {} } as Organization;
+        return getAgencyWorkspaceRole(agency, userId) !== null &&
+          !(await isBlockedByTwoFactorPolicy(firestore, userId, agency.id, agencyData));
+      }
       logger.warn('User is not a member of organization', { userId, organizationId });
       return false;
     }
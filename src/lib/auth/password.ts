@@ -0,0 +1,53 @@
+/**
+ * Server-side password check
+ *
+ * The Admin SDK cannot verify a password, so sign-in routes ask the Firebase
+ * Auth REST API to sign the user in with it and only trust the account id it
+ * returns.
+ */
+
+import { logger } from '@/lib/core/logging/logger';
+
+const SIGN_IN_WITH_PASSWORD_URL = 'https://identitytoolkit.googleapis.com/v1/accounts:signInWithPassword';
+
+// Firebase Auth errors that mean the credentials are wrong rather than the call failing
+const INVALID_CREDENTIAL_ERRORS = [
+  'EMAIL_NOT_FOUND',
+  'INVALID_PASSWORD',
+  'INVALID_LOGIN_CREDENTIALS',
+  'INVALID_EMAIL',
+  'MISSING_PASSWORD',
+  'USER_DISABLED'
+];
+
+/**
+ * Check an email and password against Firebase Auth
+ * @returns Firebase user id, or null when the credentials are wrong
+ * @throws When Firebase Auth cannot be reached or is not configured
+ */
+export async function verifyPassword(email: string, password: string): Promise<string | null> {
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  if (!apiKey) {
+    throw new Error('Firebase API key is not configured');
+  }
+
+  const response = await fetch(`${SIGN_IN_WITH_PASSWORD_URL}?key=${encodeURIComponent(apiKey)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password, returnSecureToken: false })
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (response.ok && typeof body.localId === 'string') {
+    return body.localId;
+  }
+
+  // Messages look like "INVALID_PASSWORD" or "TOO_MANY_ATTEMPTS_TRY_LATER : ..."
+  const reason = String(body.error?.message || '').split(' ')[0];
+  if (INVALID_CREDENTIAL_ERRORS.includes(reason)) {
+    return null;
+  }
+
+  logger.error('Password verification failed', { status: response.status, reason });
+  throw new Error(`Password verification failed: ${reason || response.status}`);
+}
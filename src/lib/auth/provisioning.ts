@@ -0,0 +1,247 @@
+/**
+ * Identity provider provisioning
+ *
+ * Shared by SAML just-in-time provisioning and SCIM: finds or creates the
+ * Firebase user for an identity asserted by an organization's identity
+ * provider, and adds, updates or removes their organization membership.
+ *
+ * Membership is written everywhere the rest of the app reads it: the members
+ * map on the organization, the members subcollection checked by
+ * hasOrganizationRole, and the user's organizations list.
+ */
+
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getAuth, getFirestore } from '../core/firebase/admin';
+import { logger } from '../core/logging/logger';
+import { OrganizationRoleType } from '../core/models/Organization';
+import { OrganizationRole } from '../team/users/organization';
+import { SubscriptionTier } from '../subscription/models/subscription';
+
+/**
+ * Provisioning error
+ */
+export class ProvisioningError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'invalid' | 'not_found' | 'seat_limit' | 'owner'
+  ) {
+    super(message);
+    this.name = 'ProvisioningError';
+  }
+}
+
+/**
+ * Identity asserted by an identity provider
+ */
+export interface ProvisionedIdentity {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  displayName?: string;
+}
+
+/**
+ * Where a provisioned account or membership came from
+ */
+export type ProvisioningSource = 'saml' | 'scim';
+
+// Organization roles as stored in the organization's members map
+const MEMBER_ROLE_TYPES: Record<OrganizationRole, OrganizationRoleType> = {
+  [OrganizationRole.OWNER]: OrganizationRoleType.OWNER,
+  [OrganizationRole.ADMIN]: OrganizationRoleType.ADMIN,
+  [OrganizationRole.MEMBER]: OrganizationRoleType.MEMBER,
+  [OrganizationRole.VIEWER]: OrganizationRoleType.VIEWER,
+};
+
+/**
+ * Display name of an identity, falling back to the email's local part
+ */
+export function getIdentityDisplayName(identity: ProvisionedIdentity): string {
+  const fullName = [identity.firstName, identity.lastName].filter(Boolean).join(' ');
+  return identity.displayName || fullName || identity.email.split('@')[0];
+}
+
+/**
+ * Whether an organization is on the enterprise tier, which SSO and SCIM need
+ */
+export async function isEnterpriseOrganization(organizationId: string): Promise<boolean> {
+  const orgDoc = await getFirestore().collection('organizations').doc(organizationId).get();
+  return orgDoc.exists && orgDoc.data()!.billing?.subscriptionTier === SubscriptionTier.ENTERPRISE;
+}
+
+/**
+ * Find the user with an email, creating the account and user document if there is none
+ * @param options.emailVerified Whether the organization has proven it owns the email's domain
+ * @returns User ID and whether the account was created
+ */
+export async function findOrCreateUser(
+  identity: ProvisionedIdentity,
+  source: ProvisioningSource,
+  options: { emailVerified: boolean }
+): Promise<{ userId: string; created: boolean }> {
+  const email = identity.email.trim().toLowerCase();
+  if (!email.includes('@')) {
+    throw new ProvisioningError('A valid email is required', 'invalid');
+  }
+
+  const auth = getAuth();
+  const existing = await auth.getUserByEmail(email).catch(() => null);
+  if (existing) {
+    return { userId: existing.uid, created: false };
+  }
+
+  const displayName = getIdentityDisplayName(identity);
+  const userRecord = await auth.createUser({ email, emailVerified: options.emailVerified, displayName });
+
+  const now = Timestamp.now();
+  await getFirestore().collection('users').doc(userRecord.uid).set({
+    email,
+    displayName,
+    ...(identity.firstName ? { firstName: identity.firstName } : {}),
+    ...(identity.lastName ? { lastName: identity.lastName } : {}),
+    emailVerified: options.emailVerified,
+    organizations: [],
+    provisionedBy: source,
+    createdAt: now,
+    updatedAt: now
+  });
+
+  logger.info('Provisioned user account', { userId: userRecord.uid, source });
+  return { userId: userRecord.uid, created: true };
+}
+
+/**
+ * Add a user to an organization or update their membership
+ * @param role Role to give; when omitted, existing members keep their role and new members get defaultRole
+ * @returns Whether the user was newly added, and their role
+ */
+export async function upsertOrganizationMember(
+  organizationId: string,
+  userId: string,
+  identity: ProvisionedIdentity,
+  options: { role?: OrganizationRole; defaultRole: OrganizationRole; source: ProvisioningSource }
+): Promise<{ added: boolean; role: OrganizationRole }> {
+  const firestore = getFirestore();
+  const orgRef = firestore.collection('organizations').doc(organizationId);
+  const userRef = firestore.collection('users').doc(userId);
+
+  return firestore.runTransaction(async (transaction: any) => {
+    const [orgDoc, userDoc] = await Promise.all([transaction.get(orgRef), transaction.get(userRef)]);
+    if (!orgDoc.exists) {
+      throw new ProvisioningError('Organization not found', 'not_found');
+    }
+
+    const orgData = orgDoc.data()!;
+    const members = orgData.members || {};
+    const existing = members[userId];
+
+    // Owners are managed in the app, never by the identity provider
+    if (existing?.role === OrganizationRoleType.OWNER || orgData.ownerUserId === userId || orgData.ownerId === userId) {
+      return { added: false, role: OrganizationRole.OWNER };
+    }
+
+    if (!existing) {
+      const seatLimit = orgData.usageQuota?.teamMembers?.limit;
+      if (seatLimit && Object.keys(members).length >= seatLimit) {
+        throw new ProvisioningError('Organization has reached the maximum number of team members', 'seat_limit');
+      }
+    }
+
+    const currentRole = existing
+      ? (Object.keys(MEMBER_ROLE_TYPES) as OrganizationRole[]).find(key => MEMBER_ROLE_TYPES[key] === existing.role)
+      : undefined;
+    const role = options.role || currentRole || options.defaultRole;
+    if (role === OrganizationRole.OWNER) {
+      throw new ProvisioningError('The owner role cannot be provisioned', 'invalid');
+    }
+
+    const now = Timestamp.now();
+    const joinedAt = existing?.joinedAt || now;
+    const email = identity.email.trim().toLowerCase();
+
+    transaction.update(orgRef, {
+      [`members.${userId}`]: {
+        userId,
+        email,
+        displayName: getIdentityDisplayName(identity),
+        role: MEMBER_ROLE_TYPES[role],
+        joinedAt,
+        invitedBy: existing?.invitedBy || options.source
+      },
+      'usageQuota.teamMembers.used': Object.keys({ ...members, [userId]: true }).length,
+      updatedAt: now
+    });
+    transaction.set(orgRef.collection('members').doc(userId), { userId, email, role, joinedAt });
+    transaction.set(userRef, {
+      organizations: FieldValue.arrayUnion(organizationId),
+      ...(!userDoc.data()?.currentOrganizationId ? { currentOrganizationId: organizationId } : {}),
+      updatedAt: now
+    }, { merge: true });
+
+    return { added: !existing, role };
+  });
+}
+
+/**
+ * Remove a user from an organization and its teams
+ * @returns Whether the user was a member
+ */
+export async function removeOrganizationMember(organizationId: string, userId: string): Promise<boolean> {
+  const firestore = getFirestore();
+  const orgRef = firestore.collection('organizations').doc(organizationId);
+
+  const removed = await firestore.runTransaction(async (transaction: any) => {
+    const orgDoc = await transaction.get(orgRef);
+    if (!orgDoc.exists) {
+      throw new ProvisioningError('Organization not found', 'not_found');
+    }
+
+    const orgData = orgDoc.data()!;
+    if (orgData.ownerUserId === userId || orgData.ownerId === userId) {
+      throw new ProvisioningError('The organization owner cannot be removed', 'owner');
+    }
+
+    const members = { ...(orgData.members || {}) };
+    if (!members[userId]) {
+      return false;
+    }
+    delete members[userId];
+
+    const now = Timestamp.now();
+    transaction.update(orgRef, {
+      [`members.${userId}`]: FieldValue.delete(),
+      'usageQuota.teamMembers.used': Object.keys(members).length,
+      updatedAt: now
+    });
+    transaction.delete(orgRef.collection('members').doc(userId));
+    transaction.set(firestore.collection('users').doc(userId), {
+      organizations: FieldValue.arrayRemove(organizationId),
+      updatedAt: now
+    }, { merge: true });
+
+    return true;
+  });
+
+  // Teams hold their own member lists
+  const teamsSnapshot = await firestore.collection('teams').where('organizationId', '==', organizationId).get();
+  const batch = firestore.batch();
+  let teamUpdates = 0;
+  teamsSnapshot.docs.forEach((teamDoc: any) => {
+    const teamMembers: Array<{ userId: string; status?: string }> = teamDoc.data().members || [];
+    if (teamMembers.some(member => member.userId === userId)) {
+      const remaining = teamMembers.filter(member => member.userId !== userId);
+      batch.update(teamDoc.ref, {
+        members: remaining,
+        'activity.totalMembers': remaining.length,
+        'activity.activeMembers': remaining.filter(member => member.status === 'active').length,
+        updatedAt: Timestamp.now()
+      });
+      teamUpdates++;
+    }
+  });
+  if (teamUpdates > 0) {
+    await batch.commit();
+  }
+
+  return removed;
+}
@@ -0,0 +1,769 @@
+/**
+ * SAML 2.0 single sign-on
+ *
+ * Each organization can connect one identity provider (Okta, Azure AD, Google
+ * Workspace, ...). The IdP's metadata gives its entity ID, sign-in URL and
+ * signing certificates; IriSync acts as a service provider with a per-organization
+ * entity ID and assertion consumer service (ACS) URL.
+ *
+ * Responses must carry an assertion signed by one of the IdP's certificates,
+ * addressed to the organization's entity ID, within its validity window, and not
+ * seen before. Only emails in domains the organization has verified through DNS
+ * are accepted, so an IdP cannot sign in accounts it does not own.
+ *
+ * A validated sign-in provisions the user just in time: the account is created
+ * if needed and the organization membership is added or updated, with the role
+ * taken from the IdP's group attribute. The ACS then hands the browser a short-lived,
+ * single-use ticket that the SSO login page exchanges for a NextAuth session.
+ */
+
+import crypto from 'crypto';
+import { promises as dns } from 'dns';
+import { DOMParser } from '@xmldom/xmldom';
+import {
+  CacheItem,
+  CacheProvider,
+  Profile,
+  SAML,
+  SamlConfig,
+  ValidateInResponseTo,
+  generateServiceProviderMetadata
+} from '@node-saml/node-saml';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getFirestore } from '../core/firebase/admin';
+import { logger } from '../core/logging/logger';
+import { OrganizationRole } from '../team/users/organization';
+import { recordAuditEvent } from '../team/activity/audit-events';
+import { findOrCreateUser, upsertOrganizationMember, ProvisionedIdentity, ProvisioningError } from './provisioning';
+
+/**
+ * SAML error
+ */
+export class SamlError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'invalid' | 'not_found' | 'disabled' | 'invalid_response' | 'not_provisioned'
+  ) {
+    super(message);
+    this.name = 'SamlError';
+  }
+}
+
+/**
+ * Assertion attributes holding the user's details
+ */
+export interface SamlAttributeMapping {
+  email: string;
+  firstName: string;
+  lastName: string;
+  groups: string;
+}
+
+/**
+ * Organization role given to members of an IdP group
+ */
+export interface SamlRoleMapping {
+  group: string;
+  role: OrganizationRole;
+}
+
+/**
+ * Email domain claimed by a connection and whether its DNS record was found
+ */
+export interface SamlEmailDomain {
+  domain: string;
+  verified: boolean;
+  verifiedAt?: Date;
+}
+
+/**
+ * Organization's SAML connection
+ */
+export interface SamlConnection {
+  organizationId: string;
+  enabled: boolean;
+  idpEntityId: string;
+  idpSsoUrl: string;
+  idpCertificates: string[];
+  emailDomains: SamlEmailDomain[];
+  // Value of the DNS TXT record proving control of the email domains
+  domainVerificationToken: string;
+  attributeMapping: SamlAttributeMapping;
+  roleMappings: SamlRoleMapping[];
+  defaultRole: OrganizationRole;
+  jitProvisioning: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  updatedBy: string;
+}
+
+/**
+ * Connection settings as submitted by an organization owner
+ */
+export interface SamlConnectionInput {
+  enabled?: boolean;
+  // IdP metadata XML; fills in the entity ID, sign-in URL and certificates
+  metadataXml?: string;
+  idpEntityId?: string;
+  idpSsoUrl?: string;
+  idpCertificates?: string[];
+  emailDomains?: string[];
+  attributeMapping?: Partial<SamlAttributeMapping>;
+  roleMappings?: SamlRoleMapping[];
+  defaultRole?: OrganizationRole;
+  jitProvisioning?: boolean;
+}
+
+/**
+ * Service provider details to enter in the IdP
+ */
+export interface SamlServiceProvider {
+  entityId: string;
+  acsUrl: string;
+  metadataUrl: string;
+  loginUrl: string;
+}
+
+/**
+ * Identity provider details read from its metadata
+ */
+export interface IdpMetadata {
+  entityId: string;
+  ssoUrl: string;
+  certificates: string[];
+}
+
+/**
+ * Outcome of a validated sign-in
+ */
+export interface SamlLoginResult {
+  userId: string;
+  organizationId: string;
+  // Single-use ticket exchanged for a session
+  ticket: string;
+  relayState?: string;
+}
+
+export const DEFAULT_SAML_ATTRIBUTE_MAPPING: SamlAttributeMapping = {
+  email: 'email',
+  firstName: 'firstName',
+  lastName: 'lastName',
+  groups: 'groups'
+};
+
+const CONNECTIONS_COLLECTION = 'samlConnections';
+const REQUESTS_COLLECTION = 'samlRequests';
+const ASSERTIONS_COLLECTION = 'samlAssertions';
+const TICKETS_COLLECTION = 'samlLoginTickets';
+const DOMAIN_VERIFICATION_PREFIX = 'irisync-domain-verification=';
+const EMAIL_NAME_ID_FORMAT = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+const METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+const REQUEST_TTL_MS = 10 * 60 * 1000;
+const TICKET_TTL_MS = 2 * 60 * 1000;
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+const ASSERTION_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Highest privilege first, so the strongest mapped role wins
+const ROLE_PRECEDENCE = [OrganizationRole.ADMIN, OrganizationRole.MEMBER, OrganizationRole.VIEWER];
+
+/**
+ * Read the entity ID, redirect sign-in URL and signing certificates from IdP metadata
+ */
+export function parseIdpMetadata(xml: string): IdpMetadata {
+  let parseError: string | undefined;
+  const document = new DOMParser({
+    errorHandler: {
+      warning: () => undefined,
+      error: (message: string) => { parseError = message; },
+      fatalError: (message: string) => { parseError = message; }
+    }
+  }).parseFromString(xml, 'text/xml');
+  if (parseError || !document?.documentElement) {
+    throw new SamlError('IdP metadata is not valid XML', 'invalid');
+  }
+
+  const entities = Array.from(document.getElementsByTagNameNS(METADATA_NS, 'EntityDescriptor'));
+  const entity = entities.find(element => element.getElementsByTagNameNS(METADATA_NS, 'IDPSSODescriptor').length > 0);
+  if (!entity) {
+    throw new SamlError('IdP metadata has no identity provider descriptor', 'invalid');
+  }
+  const descriptor = entity.getElementsByTagNameNS(METADATA_NS, 'IDPSSODescriptor')[0];
+
+  const services = Array.from(descriptor.getElementsByTagNameNS(METADATA_NS, 'SingleSignOnService'));
+  const service = services.find(element => element.getAttribute('Binding') === REDIRECT_BINDING);
+  if (!service?.getAttribute('Location')) {
+    throw new SamlError('IdP metadata has no HTTP-Redirect sign-in URL', 'invalid');
+  }
+
+  const certificates = Array.from(descriptor.getElementsByTagNameNS(METADATA_NS, 'KeyDescriptor'))
+    .filter(key => !key.getAttribute('use') || key.getAttribute('use') === 'signing')
+    .map(key => key.getElementsByTagNameNS(XMLDSIG_NS, 'X509Certificate')[0]?.textContent || '')
+    .filter(Boolean)
+    .map(normalizeCertificate);
+
+  return {
+    entityId: entity.getAttribute('entityID') || '',
+    ssoUrl: service.getAttribute('Location')!,
+    certificates: Array.from(new Set(certificates))
+  };
+}
+
+/**
+ * PEM form of a certificate given as PEM or bare base64
+ */
+export function normalizeCertificate(certificate: string): string {
+  const body = certificate
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '');
+  const lines = body.match(/.{1,64}/g) || [];
+  return ['-----BEGIN CERTIFICATE-----', ...lines, '-----END CERTIFICATE-----'].join('\n');
+}
+
+/**
+ * Values of an assertion attribute as strings
+ */
+export function getSamlAttributeValues(attributes: Record<string, unknown>, name: string): string[] {
+  const value = attributes[name];
+  const values = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  return values
+    .map(item => (typeof item === 'object' && item !== null ? (item as Record<string, unknown>)._ : item))
+    .filter((item): item is string | number => typeof item === 'string' || typeof item === 'number')
+    .map(String);
+}
+
+/**
+ * Identity and groups asserted for a user
+ */
+export function mapSamlProfile(
+  profile: { nameID?: string; attributes?: Record<string, unknown> },
+  mapping: SamlAttributeMapping
+): ProvisionedIdentity & { groups: string[] } {
+  const attributes = profile.attributes || {};
+  const email = getSamlAttributeValues(attributes, mapping.email)[0] ||
+    (profile.nameID && profile.nameID.includes('@') ? profile.nameID : '');
+
+  return {
+    email: email.trim().toLowerCase(),
+    firstName: getSamlAttributeValues(attributes, mapping.firstName)[0],
+    lastName: getSamlAttributeValues(attributes, mapping.lastName)[0],
+    groups: getSamlAttributeValues(attributes, mapping.groups)
+  };
+}
+
+/**
+ * Strongest role mapped from a user's IdP groups, or undefined when none match
+ */
+export function resolveSamlRole(groups: string[], mappings: SamlRoleMapping[]): OrganizationRole | undefined {
+  const memberOf = new Set(groups.map(group => group.toLowerCase()));
+  const matched = mappings
+    .filter(mapping => memberOf.has(mapping.group.toLowerCase()))
+    .map(mapping => mapping.role);
+  return ROLE_PRECEDENCE.find(role => matched.includes(role));
+}
+
+/**
+ * Whether an email belongs to one of the verified domains
+ */
+export function isEmailInVerifiedDomain(email: string, domains: SamlEmailDomain[]): boolean {
+  const domain = email.split('@')[1]?.toLowerCase();
+  return !!domain && domains.some(entry => entry.verified && entry.domain === domain);
+}
+
+/**
+ * Keeps AuthnRequest IDs in Firestore so InResponseTo can be checked on any instance
+ */
+class FirestoreRequestCache implements CacheProvider {
+  async saveAsync(key: string, value: string): Promise<CacheItem | null> {
+    const createdAt = Date.now();
+    await getFirestore().collection(REQUESTS_COLLECTION).doc(key).set({
+      value,
+      createdAt: Timestamp.fromMillis(createdAt),
+      expiresAt: Timestamp.fromMillis(createdAt + REQUEST_TTL_MS)
+    });
+    return { value, createdAt };
+  }
+
+  async getAsync(key: string): Promise<string | null> {
+    const requestDoc = await getFirestore().collection(REQUESTS_COLLECTION).doc(key).get();
+    const data = requestDoc.exists ? requestDoc.data()! : null;
+    return data && data.expiresAt.toMillis() > Date.now() ? data.value : null;
+  }
+
+  async removeAsync(key: string | null): Promise<string | null> {
+    if (!key) {
+      return null;
+    }
+    const requestRef = getFirestore().collection(REQUESTS_COLLECTION).doc(key);
+    const requestDoc = await requestRef.get();
+    if (!requestDoc.exists) {
+      return null;
+    }
+    await requestRef.delete();
+    return key;
+  }
+}
+
+/**
+ * SAML service
+ */
+export class SamlService {
+  private requestCache = new FirestoreRequestCache();
+
+  /**
+   * Service provider URLs for an organization
+   */
+  getServiceProvider(organizationId: string): SamlServiceProvider {
+    const base = `${process.env.NEXT_PUBLIC_APP_URL || ''}/api/auth/saml/${encodeURIComponent(organizationId)}`;
+    return {
+      entityId: `${base}/metadata`,
+      acsUrl: `${base}/acs`,
+      metadataUrl: `${base}/metadata`,
+      loginUrl: `${base}/login`
+    };
+  }
+
+  /**
+   * Organization's connection, or null if none is configured
+   */
+  async getConnection(organizationId: string): Promise<SamlConnection | null> {
+    const connectionDoc = await getFirestore().collection(CONNECTIONS_COLLECTION).doc(organizationId).get();
+    if (!connectionDoc.exists) {
+      return null;
+    }
+
+    const data = connectionDoc.data()!;
+    return {
+      ...data,
+      emailDomains: (data.emailDomains || []).map((entry: any) => ({
+        domain: entry.domain,
+        verified: entry.verified === true,
+        ...(entry.verifiedAt ? { verifiedAt: entry.verifiedAt.toDate() } : {})
+      })),
+      createdAt: data.createdAt?.toDate(),
+      updatedAt: data.updatedAt?.toDate()
+    } as SamlConnection;
+  }
+
+  /**
+   * Create or update an organization's connection
+   */
+  async saveConnection(organizationId: string, input: SamlConnectionInput, updatedBy: string): Promise<SamlConnection> {
+    const existing = await this.getConnection(organizationId);
+    const metadata = input.metadataXml ? parseIdpMetadata(input.metadataXml) : null;
+
+    const idpEntityId = (metadata?.entityId || input.idpEntityId || existing?.idpEntityId || '').trim();
+    const idpSsoUrl = (metadata?.ssoUrl || input.idpSsoUrl || existing?.idpSsoUrl || '').trim();
+    const idpCertificates = (metadata?.certificates || input.idpCertificates?.map(normalizeCertificate) || existing?.idpCertificates || []);
+
+    if (!idpEntityId) {
+      throw new SamlError('IdP entity ID is required', 'invalid');
+    }
+    if (!/^https:\/\//i.test(idpSsoUrl)) {
+      throw new SamlError('IdP sign-in URL must use https', 'invalid');
+    }
+    if (idpCertificates.length === 0) {
+      throw new SamlError('At least one IdP signing certificate is required', 'invalid');
+    }
+    for (const certificate of idpCertificates) {
+      try {
+        new crypto.X509Certificate(certificate);
+      } catch {
+        throw new SamlError('IdP signing certificate is not valid', 'invalid');
+      }
+    }
+
+    const roleMappings = input.roleMappings ?? existing?.roleMappings ?? [];
+    const defaultRole = input.defaultRole ?? existing?.defaultRole ?? OrganizationRole.MEMBER;
+    const assignableRoles = [OrganizationRole.ADMIN, OrganizationRole.MEMBER, OrganizationRole.VIEWER];
+    if (!assignableRoles.includes(defaultRole) || roleMappings.some(mapping => !mapping.group || !assignableRoles.includes(mapping.role))) {
+      throw new SamlError('Roles must be admin, member or viewer', 'invalid');
+    }
+
+    const emailDomains = input.emailDomains
+      ? await this.claimDomains(organizationId, input.emailDomains, existing?.emailDomains || [])
+      : existing?.emailDomains || [];
+
+    const now = Timestamp.now();
+    const connection = {
+      organizationId,
+      enabled: input.enabled ?? existing?.enabled ?? false,
+      idpEntityId,
+      idpSsoUrl,
+      idpCertificates,
+      emailDomains: emailDomains.map(entry => ({
+        domain: entry.domain,
+        verified: entry.verified,
+        ...(entry.verifiedAt ? { verifiedAt: Timestamp.fromDate(entry.verifiedAt) } : {})
+      })),
+      // Flat list for array-contains lookups
+      domainNames: emailDomains.map(entry => entry.domain),
+      domainVerificationToken: existing?.domainVerificationToken || crypto.randomBytes(16).toString('hex'),
+      attributeMapping: {
+        ...DEFAULT_SAML_ATTRIBUTE_MAPPING,
+        ...existing?.attributeMapping,
+        ...input.attributeMapping
+      },
+      roleMappings: roleMappings.map(mapping => ({ group: mapping.group.trim(), role: mapping.role })),
+      defaultRole,
+      jitProvisioning: input.jitProvisioning ?? existing?.jitProvisioning ?? true,
+      createdAt: existing?.createdAt ? Timestamp.fromDate(existing.createdAt) : now,
+      updatedAt: now,
+      updatedBy
+    };
+
+    await getFirestore().collection(CONNECTIONS_COLLECTION).doc(organizationId).set(connection);
+
+    await recordAuditEvent({
+      userId: updatedBy,
+      category: 'security',
+      action: existing ? 'update_sso_connection' : 'create_sso_connection',
+      severity: 'warning',
+      organizationId,
+      resourceId: organizationId,
+      resourceType: 'saml_connection',
+      metadata: {
+        enabled: connection.enabled,
+        idpEntityId,
+        emailDomains: connection.domainNames,
+        jitProvisioning: connection.jitProvisioning
+      }
+    });
+
+    return (await this.getConnection(organizationId))!;
+  }
+
+  /**
+   * Remove an organization's connection; members keep their accounts
+   */
+  async deleteConnection(organizationId: string, deletedBy: string): Promise<void> {
+    const connectionRef = getFirestore().collection(CONNECTIONS_COLLECTION).doc(organizationId);
+    const connectionDoc = await connectionRef.get();
+    if (!connectionDoc.exists) {
+      throw new SamlError('SSO is not configured for this organization', 'not_found');
+    }
+
+    await connectionRef.delete();
+    await recordAuditEvent({
+      userId: deletedBy,
+      category: 'security',
+      action: 'delete_sso_connection',
+      severity: 'warning',
+      organizationId,
+      resourceId: organizationId,
+      resourceType: 'saml_connection',
+      metadata: {}
+    });
+  }
+
+  /**
+   * Look up the TXT records of the connection's unverified domains
+   * @returns The connection with updated verification state
+   */
+  async verifyDomains(organizationId: string, verifiedBy: string): Promise<SamlConnection> {
+    const connection = await this.getConnection(organizationId);
+    if (!connection) {
+      throw new SamlError('SSO is not configured for this organization', 'not_found');
+    }
+
+    const expected = `${DOMAIN_VERIFICATION_PREFIX}${connection.domainVerificationToken}`;
+    const emailDomains = await Promise.all(connection.emailDomains.map(async entry => {
+      if (entry.verified) {
+        return entry;
+      }
+      const records = await dns.resolveTxt(entry.domain).catch(() => [] as string[][]);
+      const verified = records.some(record => record.join('').trim() === expected);
+      return verified ? { ...entry, verified, verifiedAt: new Date() } : entry;
+    }));
+
+    const newlyVerified = emailDomains.filter((entry, index) => entry.verified && !connection.emailDomains[index].verified);
+    if (newlyVerified.length > 0) {
+      await getFirestore().collection(CONNECTIONS_COLLECTION).doc(organizationId).update({
+        emailDomains: emailDomains.map(entry => ({
+          domain: entry.domain,
+          verified: entry.verified,
+          ...(entry.verifiedAt ? { verifiedAt: Timestamp.fromDate(entry.verifiedAt) } : {})
+        })),
+        updatedAt: Timestamp.now()
+      });
+      await recordAuditEvent({
+        userId: verifiedBy,
+        category: 'security',
+        action: 'verify_sso_domain',
+        severity: 'info',
+        organizationId,
+        resourceId: organizationId,
+        resourceType: 'saml_connection',
+        metadata: { domains: newlyVerified.map(entry => entry.domain) }
+      });
+    }
+
+    return { ...connection, emailDomains };
+  }
+
+  /**
+   * Enabled connection whose verified domains include an email's domain
+   */
+  async findConnectionByEmail(email: string): Promise<SamlConnection | null> {
+    const domain = email.split('@')[1]?.trim().toLowerCase();
+    if (!domain) {
+      return null;
+    }
+
+    const snapshot = await getFirestore().collection(CONNECTIONS_COLLECTION)
+      .where('domainNames', 'array-contains', domain)
+      .get();
+    for (const connectionDoc of snapshot.docs) {
+      const connection = await this.getConnection(connectionDoc.id);
+      if (connection?.enabled && isEmailInVerifiedDomain(`user@${domain}`, connection.emailDomains)) {
+        return connection;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * IdP URL that starts a sign-in
+   * @param relayState Path to return to after signing in
+   */
+  async getLoginUrl(organizationId: string, relayState: string = ''): Promise<string> {
+    const connection = await this.requireEnabledConnection(organizationId);
+    return this.createClient(connection).getAuthorizeUrlAsync(relayState, undefined, {});
+  }
+
+  /**
+   * Service provider metadata XML for an organization; available before the
+   * connection is configured, since IdPs ask for it first
+   */
+  getServiceProviderMetadata(organizationId: string): string {
+    const serviceProvider = this.getServiceProvider(organizationId);
+    return generateServiceProviderMetadata({
+      issuer: serviceProvider.entityId,
+      callbackUrl: serviceProvider.acsUrl,
+      identifierFormat: EMAIL_NAME_ID_FORMAT,
+      wantAssertionsSigned: true
+    });
+  }
+
+  /**
+   * Validate a SAML response posted to the ACS and sign the user in
+   */
+  async handleResponse(organizationId: string, samlResponse: string, relayState?: string): Promise<SamlLoginResult> {
+    const connection = await this.requireEnabledConnection(organizationId);
+
+    let profile: Profile | null;
+    try {
+      ({ profile } = await this.createClient(connection).validatePostResponseAsync({ SAMLResponse: samlResponse }));
+    } catch (error) {
+      logger.warn('Rejected SAML response', {
+        organizationId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new SamlError('SAML response could not be validated', 'invalid_response');
+    }
+    if (!profile) {
+      throw new SamlError('SAML response has no assertion', 'invalid_response');
+    }
+
+    await this.recordAssertion(organizationId, profile);
+
+    const identity = mapSamlProfile(profile as { nameID?: string; attributes?: Record<string, unknown> }, connection.attributeMapping);
+    if (!identity.email) {
+      throw new SamlError('SAML assertion has no email', 'invalid_response');
+    }
+    if (!isEmailInVerifiedDomain(identity.email, connection.emailDomains)) {
+      logger.warn('SAML sign-in for an unverified email domain', { organizationId, domain: identity.email.split('@')[1] });
+      throw new SamlError('Email domain is not verified for this organization', 'not_provisioned');
+    }
+
+    const userId = await this.provision(connection, identity);
+    const ticket = await this.issueTicket(userId, organizationId);
+
+    await recordAuditEvent({
+      userId,
+      category: 'auth',
+      action: 'sso_login',
+      severity: 'info',
+      organizationId,
+      resourceId: userId,
+      resourceType: 'user',
+      metadata: { idpEntityId: connection.idpEntityId, groups: identity.groups }
+    });
+
+    return { userId, organizationId, ticket, ...(relayState ? { relayState } : {}) };
+  }
+
+  /**
+   * Exchange a sign-in ticket; each ticket works once, for two minutes
+   */
+  async consumeLoginTicket(ticket: string): Promise<{ userId: string; organizationId: string } | null> {
+    const firestore = getFirestore();
+    const ticketRef = firestore.collection(TICKETS_COLLECTION).doc(this.hash(ticket));
+
+    return firestore.runTransaction(async (transaction: any) => {
+      const ticketDoc = await transaction.get(ticketRef);
+      const data = ticketDoc.exists ? ticketDoc.data()! : null;
+      if (!data || data.usedAt || data.expiresAt.toMillis() <= Date.now()) {
+        return null;
+      }
+
+      transaction.update(ticketRef, { usedAt: Timestamp.now() });
+      return { userId: data.userId, organizationId: data.organizationId };
+    });
+  }
+
+  private async requireEnabledConnection(organizationId: string): Promise<SamlConnection> {
+    const connection = await this.getConnection(organizationId);
+    if (!connection) {
+      throw new SamlError('SSO is not configured for this organization', 'not_found');
+    }
+    if (!connection.enabled) {
+      throw new SamlError('SSO is disabled for this organization', 'disabled');
+    }
+    return connection;
+  }
+
+  private createClient(connection: SamlConnection): SAML {
+    const serviceProvider = this.getServiceProvider(connection.organizationId);
+    const config: SamlConfig = {
+      issuer: serviceProvider.entityId,
+      audience: serviceProvider.entityId,
+      callbackUrl: serviceProvider.acsUrl,
+      entryPoint: connection.idpSsoUrl,
+      idpIssuer: connection.idpEntityId,
+      idpCert: connection.idpCertificates,
+      identifierFormat: EMAIL_NAME_ID_FORMAT,
+      wantAssertionsSigned: true,
+      wantAuthnResponseSigned: false,
+      acceptedClockSkewMs: CLOCK_SKEW_MS,
+      // IdP-initiated sign-ins carry no InResponseTo
+      validateInResponseTo: ValidateInResponseTo.ifPresent,
+      requestIdExpirationPeriodMs: REQUEST_TTL_MS,
+      cacheProvider: this.requestCache,
+      disableRequestedAuthnContext: true
+    };
+    return new SAML(config);
+  }
+
+  /**
+   * Refuse an assertion that was already used
+   */
+  private async recordAssertion(organizationId: string, profile: Profile): Promise<void> {
+    const assertion = profile.getAssertion?.() as { Assertion?: { $?: { ID?: string } } } | undefined;
+    const assertionId = assertion?.Assertion?.$?.ID;
+    if (!assertionId) {
+      throw new SamlError('SAML assertion has no ID', 'invalid_response');
+    }
+
+    try {
+      await getFirestore().collection(ASSERTIONS_COLLECTION).doc(this.hash(`${organizationId}:${assertionId}`)).create({
+        organizationId,
+        usedAt: Timestamp.now(),
+        expiresAt: Timestamp.fromMillis(Date.now() + ASSERTION_RETENTION_MS)
+      });
+    } catch (error: any) {
+      // ALREADY_EXISTS
+      if (error?.code === 6) {
+        logger.warn('Replayed SAML assertion', { organizationId });
+        throw new SamlError('SAML assertion was already used', 'invalid_response');
+      }
+      throw error;
+    }
+  }
+
+  private async provision(connection: SamlConnection, identity: ProvisionedIdentity & { groups: string[] }): Promise<string> {
+    const { organizationId } = connection;
+    const mappedRole = resolveSamlRole(identity.groups, connection.roleMappings);
+
+    // Without just-in-time provisioning, members come from SCIM or invitations
+    if (!connection.jitProvisioning) {
+      const memberId = await this.findMember(organizationId, identity.email);
+      if (!memberId) {
+        throw new SamlError('User has not been provisioned for this organization', 'not_provisioned');
+      }
+      return memberId;
+    }
+
+    try {
+      const { userId } = await findOrCreateUser(identity, 'saml', { emailVerified: true });
+      await upsertOrganizationMember(organizationId, userId, identity, {
+        ...(mappedRole ? { role: mappedRole } : {}),
+        defaultRole: connection.defaultRole,
+        source: 'saml'
+      });
+      return userId;
+    } catch (error) {
+      if (error instanceof ProvisioningError) {
+        throw new SamlError(error.message, 'not_provisioned');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * ID of the organization member with an email, or null
+   */
+  private async findMember(organizationId: string, email: string): Promise<string | null> {
+    const snapshot = await getFirestore().collection('organizations').doc(organizationId)
+      .collection('members')
+      .where('email', '==', email)
+      .limit(1)
+      .get();
+    return snapshot.empty ? null : snapshot.docs[0].id;
+  }
+
+  private async issueTicket(userId: string, organizationId: string): Promise<string> {
+    const ticket = crypto.randomBytes(32).toString('base64url');
+    await getFirestore().collection(TICKETS_COLLECTION).doc(this.hash(ticket)).set({
+      userId,
+      organizationId,
+      createdAt: Timestamp.now(),
+      expiresAt: Timestamp.fromMillis(Date.now() + TICKET_TTL_MS)
+    });
+    return ticket;
+  }
+
+  /**
+   * Normalize requested domains, keeping verification of ones already claimed.
+   * A domain verified by another organization cannot be claimed.
+   */
+  private async claimDomains(
+    organizationId: string,
+    domains: string[],
+    existing: SamlEmailDomain[]
+  ): Promise<SamlEmailDomain[]> {
+    const normalized = Array.from(new Set(domains.map(domain => domain.trim().toLowerCase()).filter(Boolean)));
+    for (const domain of normalized) {
+      if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) {
+        throw new SamlError(`Invalid email domain: ${domain}`, 'invalid');
+      }
+    }
+
+    const snapshot = normalized.length > 0
+      ? await getFirestore().collection(CONNECTIONS_COLLECTION).where('domainNames', 'array-contains-any', normalized.slice(0, 30)).get()
+      : null;
+    const claimedElsewhere = new Set<string>();
+    snapshot?.docs
+      .filter((connectionDoc: any) => connectionDoc.id !== organizationId)
+      .forEach((connectionDoc: any) => {
+        (connectionDoc.data().emailDomains || [])
+          .filter((entry: any) => entry.verified)
+          .forEach((entry: any) => claimedElsewhere.add(entry.domain));
+      });
+
+    return normalized.map(domain => {
+      if (claimedElsewhere.has(domain)) {
+        throw new SamlError(`Email domain ${domain} is verified by another organization`, 'invalid');
+      }
+      return existing.find(entry => entry.domain === domain) || { domain, verified: false };
+    });
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+}
+
+export const samlService = new SamlService();
+export default samlService;
@@ -0,0 +1,924 @@
+/**
+ * SCIM 2.0 provisioning
+ *
+ * Identity providers create, update and deactivate organization members through
+ * /api/scim/v2/Users and keep teams in step with their groups through
+ * /api/scim/v2/Groups. Each request carries a bearer token issued to one
+ * organization; only a hash of the token is stored.
+ *
+ * Users are keyed by their IriSync user ID. Deactivating a user (active: false
+ * or DELETE) removes their organization membership and team places but keeps
+ * their account, which may belong to other organizations. Groups are the
+ * organization's teams, in the same documents TeamManager reads.
+ */
+
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getFirestore } from '../core/firebase/admin';
+import { logger } from '../core/logging/logger';
+import { OrganizationRoleType } from '../core/models/Organization';
+import { OrganizationRole } from '../team/users/organization';
+import { TeamRole } from '../features/user/types';
+import { TeamUtils } from '../features/user/models/Team';
+import { recordAuditEvent } from '../team/activity/audit-events';
+import {
+  findOrCreateUser,
+  getIdentityDisplayName,
+  removeOrganizationMember,
+  upsertOrganizationMember,
+  ProvisionedIdentity,
+  ProvisioningError
+} from './provisioning';
+import { isEmailInVerifiedDomain, samlService } from './saml';
+
+export const SCIM_USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
+export const SCIM_GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group';
+export const SCIM_LIST_RESPONSE_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+export const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+const TOKENS_COLLECTION = 'scimTokens';
+const USERS_SUBCOLLECTION = 'scimUsers';
+const TOKEN_PREFIX = 'scim_';
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 200;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * SCIM error, reported to the client in the SCIM error format
+ */
+export class ScimError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly scimType?: 'invalidFilter' | 'invalidValue' | 'invalidSyntax' | 'uniqueness' | 'mutability' | 'noTarget'
+  ) {
+    super(message);
+    this.name = 'ScimError';
+  }
+}
+
+/**
+ * Simple filter, the only kind identity providers send: attribute eq "value"
+ */
+export interface ScimFilter {
+  attribute: string;
+  value: string;
+}
+
+/**
+ * One operation of a PATCH request
+ */
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: any;
+}
+
+/**
+ * SCIM user resource
+ */
+export interface ScimUser {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  userName: string;
+  name?: { givenName?: string; familyName?: string; formatted?: string };
+  displayName?: string;
+  emails?: Array<{ value: string; type?: string; primary?: boolean }>;
+  roles?: Array<{ value: string }>;
+  active: boolean;
+  meta: ScimMeta;
+}
+
+/**
+ * SCIM group resource
+ */
+export interface ScimGroup {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  displayName: string;
+  members: Array<{ value: string; display?: string; $ref?: string }>;
+  meta: ScimMeta;
+}
+
+/**
+ * SCIM list response
+ */
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
+interface ScimMeta {
+  resourceType: 'User' | 'Group';
+  created?: string;
+  lastModified?: string;
+  location: string;
+}
+
+/**
+ * Issued token as listed to organization owners
+ */
+export interface ScimTokenSummary {
+  id: string;
+  description?: string;
+  // First characters of the token, to tell tokens apart
+  prefix: string;
+  createdAt: Date;
+  createdBy: string;
+  lastUsedAt?: Date;
+}
+
+/**
+ * Parse a filter of the form: attribute eq "value"
+ * @returns The filter, or null when none was given
+ */
+export function parseScimFilter(filter?: string | null): ScimFilter | null {
+  if (!filter || !filter.trim()) {
+    return null;
+  }
+
+  const match = filter.trim().match(/^([A-Za-z][\w.:]*)\s+eq\s+"((?:[^"\\]|\\.)*)"$/i);
+  if (!match) {
+    throw new ScimError('Only filters of the form: attribute eq "value" are supported', 400, 'invalidFilter');
+  }
+  return { attribute: match[1], value: match[2].replace(/\\(.)/g, '$1') };
+}
+
+/**
+ * Apply PATCH operations to a resource's attributes. Supports the forms identity
+ * providers send: whole-resource values without a path, simple and sub-attribute
+ * paths, emails[type eq "work"].value style paths and removal of listed
+ * members. Attribute names are matched case-insensitively.
+ */
+export function applyScimPatch(resource: Record<string, any>, operations: ScimPatchOperation[]): Record<string, any> {
+  const result = JSON.parse(JSON.stringify(resource));
+
+  for (const operation of operations) {
+    const op = (operation.op || '').toLowerCase();
+    if (!['add', 'replace', 'remove'].includes(op)) {
+      throw new ScimError(`Unsupported patch operation: ${operation.op}`, 400, 'invalidSyntax');
+    }
+
+    if (!operation.path) {
+      if (op === 'remove' || typeof operation.value !== 'object' || operation.value === null) {
+        throw new ScimError('Patch operations without a path need an object value', 400, 'noTarget');
+      }
+      Object.entries(operation.value).forEach(([key, value]) => setAttribute(result, key, value));
+      continue;
+    }
+
+    const filtered = operation.path.match(/^(\w+)\[(\w+) eq "([^"]*)"\](?:\.(\w+))?$/i);
+    if (filtered) {
+      const [, attribute, filterAttribute, filterValue, subAttribute] = filtered;
+      const key = findKey(result, attribute) || attribute;
+      const items: Record<string, any>[] = Array.isArray(result[key]) ? result[key] : [];
+      const matches = (item: Record<string, any>) => String(item[filterAttribute] ?? '').toLowerCase() === filterValue.toLowerCase();
+
+      if (op === 'remove') {
+        result[key] = items.filter(item => !matches(item));
+      } else {
+        const target = items.find(matches);
+        const value = subAttribute ? { [subAttribute]: operation.value } : operation.value;
+        result[key] = target
+          ? items.map(item => (item === target ? { ...item, ...value } : item))
+          : [...items, { [filterAttribute]: filterValue, ...value }];
+      }
+      continue;
+    }
+
+    if (op === 'remove' && Array.isArray(operation.value)) {
+      // Removes the listed entries, e.g. { path: 'members', value: [{ value: id }] }
+      const key = findKey(result, operation.path) || operation.path;
+      const removed = new Set(operation.value.map((item: { value?: string }) => item?.value));
+      result[key] = (Array.isArray(result[key]) ? result[key] : []).filter((item: { value?: string }) => !removed.has(item?.value));
+    } else if (op === 'remove') {
+      removeAttribute(result, operation.path);
+    } else if (op === 'add' && Array.isArray(operation.value)) {
+      const key = findKey(result, operation.path) || operation.path;
+      result[key] = [...(Array.isArray(result[key]) ? result[key] : []), ...operation.value];
+    } else {
+      setAttribute(result, operation.path, operation.value);
+    }
+  }
+
+  return result;
+}
+
+function findKey(resource: Record<string, any>, attribute: string): string | undefined {
+  return Object.keys(resource).find(key => key.toLowerCase() === attribute.toLowerCase());
+}
+
+function setAttribute(resource: Record<string, any>, path: string, value: any): void {
+  const [attribute, subAttribute] = path.split('.');
+  const key = findKey(resource, attribute) || attribute;
+  if (subAttribute) {
+    resource[key] = { ...(resource[key] || {}), [subAttribute]: value };
+  } else if (typeof value === 'object' && value !== null && !Array.isArray(value) && typeof resource[key] === 'object' && !Array.isArray(resource[key])) {
+    resource[key] = { ...resource[key], ...value };
+  } else {
+    resource[key] = value;
+  }
+}
+
+function removeAttribute(resource: Record<string, any>, path: string): void {
+  const [attribute, subAttribute] = path.split('.');
+  const key = findKey(resource, attribute);
+  if (!key) {
+    return;
+  }
+  if (subAttribute && typeof resource[key] === 'object') {
+    delete resource[key][subAttribute];
+  } else {
+    delete resource[key];
+  }
+}
+
+/**
+ * Identity providers send active as a boolean or as "True"/"False"
+ */
+function toBoolean(value: unknown, fallback: boolean): boolean {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return value.toLowerCase() === 'true';
+  }
+  return fallback;
+}
+
+/**
+ * Organization role requested through the roles attribute, if any
+ */
+function getRequestedRole(resource: Record<string, any>): OrganizationRole | undefined {
+  const roles: Array<{ value?: string }> = Array.isArray(resource.roles) ? resource.roles : [];
+  const assignable = [OrganizationRole.ADMIN, OrganizationRole.MEMBER, OrganizationRole.VIEWER];
+  return assignable.find(role => roles.some(entry => String(entry?.value || '').toLowerCase() === role));
+}
+
+/**
+ * JSON response with the SCIM content type
+ */
+export function scimResponse(body: unknown, status: number = 200): NextResponse {
+  return new NextResponse(status === 204 ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': SCIM_CONTENT_TYPE }
+  });
+}
+
+/**
+ * Error response in the SCIM format
+ */
+export function scimErrorResponse(error: unknown): NextResponse {
+  if (error instanceof ScimError) {
+    return scimResponse({
+      schemas: [SCIM_ERROR_SCHEMA],
+      status: String(error.status),
+      ...(error.scimType ? { scimType: error.scimType } : {}),
+      detail: error.message
+    }, error.status);
+  }
+
+  logger.error('SCIM request failed', { error: error instanceof Error ? error.message : String(error) });
+  return scimResponse({ schemas: [SCIM_ERROR_SCHEMA], status: '500', detail: 'Internal server error' }, 500);
+}
+
+/**
+ * Wrap a SCIM route handler with bearer token authentication
+ */
+export function withScimAuth<C>(
+  handler: (request: NextRequest, organizationId: string, context: C) => Promise<NextResponse>
+) {
+  return async function (request: NextRequest, context: C): Promise<NextResponse> {
+    try {
+      const organizationId = await scimService.authenticate(request.headers.get('authorization'));
+      if (!organizationId) {
+        return scimErrorResponse(new ScimError('Invalid or missing bearer token', 401));
+      }
+      return await handler(request, organizationId, context);
+    } catch (error) {
+      return scimErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * SCIM service
+ */
+export class ScimService {
+  /**
+   * Issue a token for an organization's identity provider
+   * @returns The token, shown once
+   */
+  async createToken(organizationId: string, createdBy: string, description?: string): Promise<{ token: string; summary: ScimTokenSummary }> {
+    const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const id = this.hash(token);
+    const now = Timestamp.now();
+    const prefix = token.slice(0, TOKEN_PREFIX.length + 4);
+
+    await getFirestore().collection(TOKENS_COLLECTION).doc(id).set({
+      organizationId,
+      prefix,
+      ...(description ? { description } : {}),
+      createdAt: now,
+      createdBy
+    });
+
+    await recordAuditEvent({
+      userId: createdBy,
+      category: 'security',
+      action: 'create_scim_token',
+      severity: 'warning',
+      organizationId,
+      resourceId: id,
+      resourceType: 'scim_token',
+      metadata: { prefix }
+    });
+
+    return { token, summary: { id, prefix, description, createdAt: now.toDate(), createdBy } };
+  }
+
+  /**
+   * Tokens issued to an organization
+   */
+  async listTokens(organizationId: string): Promise<ScimTokenSummary[]> {
+    const snapshot = await getFirestore().collection(TOKENS_COLLECTION).where('organizationId', '==', organizationId).get();
+    return snapshot.docs.map((tokenDoc: any) => {
+      const data = tokenDoc.data();
+      return {
+        id: tokenDoc.id,
+        prefix: data.prefix,
+        description: data.description,
+        createdAt: data.createdAt.toDate(),
+        createdBy: data.createdBy,
+        lastUsedAt: data.lastUsedAt?.toDate()
+      };
+    });
+  }
+
+  /**
+   * Revoke one of an organization's tokens
+   */
+  async revokeToken(organizationId: string, tokenId: string, revokedBy: string): Promise<void> {
+    const tokenRef = getFirestore().collection(TOKENS_COLLECTION).doc(tokenId);
+    const tokenDoc = await tokenRef.get();
+    if (!tokenDoc.exists || tokenDoc.data()!.organizationId !== organizationId) {
+      throw new ScimError('Token not found', 404);
+    }
+
+    await tokenRef.delete();
+    await recordAuditEvent({
+      userId: revokedBy,
+      category: 'security',
+      action: 'revoke_scim_token',
+      severity: 'warning',
+      organizationId,
+      resourceId: tokenId,
+      resourceType: 'scim_token',
+      metadata: { prefix: tokenDoc.data()!.prefix }
+    });
+  }
+
+  /**
+   * Organization a bearer token was issued to, or null
+   */
+  async authenticate(authorization: string | null): Promise<string | null> {
+    const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (!token || !token.startsWith(TOKEN_PREFIX)) {
+      return null;
+    }
+
+    const tokenRef = getFirestore().collection(TOKENS_COLLECTION).doc(this.hash(token));
+    const tokenDoc = await tokenRef.get();
+    if (!tokenDoc.exists) {
+      return null;
+    }
+
+    const data = tokenDoc.data()!;
+    if (!data.lastUsedAt || Date.now() - data.lastUsedAt.toMillis() > LAST_USED_RESOLUTION_MS) {
+      await tokenRef.update({ lastUsedAt: Timestamp.now() });
+    }
+    return data.organizationId;
+  }
+
+  /**
+   * List provisioned users
+   */
+  async listUsers(
+    organizationId: string,
+    options: { filter?: string | null; startIndex?: number; count?: number } = {}
+  ): Promise<ScimListResponse<ScimUser>> {
+    const filter = parseScimFilter(options.filter);
+    let query: any = this.usersCollection(organizationId);
+
+    if (filter) {
+      switch (filter.attribute.toLowerCase()) {
+        case 'username':
+          query = query.where('userNameLower', '==', filter.value.toLowerCase());
+          break;
+        case 'externalid':
+          query = query.where('externalId', '==', filter.value);
+          break;
+        case 'id':
+          query = query.where('userId', '==', filter.value);
+          break;
+        default:
+          throw new ScimError(`Filtering on ${filter.attribute} is not supported`, 400, 'invalidFilter');
+      }
+    }
+
+    const snapshot = await query.get();
+    const users = snapshot.docs.map((userDoc: any) => this.toScimUser(userDoc.data()));
+    return this.toListResponse(users, options.startIndex, options.count);
+  }
+
+  /**
+   * A provisioned user
+   */
+  async getUser(organizationId: string, userId: string): Promise<ScimUser> {
+    const userDoc = await this.usersCollection(organizationId).doc(userId).get();
+    if (!userDoc.exists) {
+      throw new ScimError('User not found', 404);
+    }
+    return this.toScimUser(userDoc.data());
+  }
+
+  /**
+   * Provision a user, creating their account if needed
+   */
+  async createUser(organizationId: string, resource: Record<string, any>): Promise<ScimUser> {
+    const userName = String(resource.userName || '').trim();
+    if (!userName) {
+      throw new ScimError('userName is required', 400, 'invalidValue');
+    }
+
+    const identity = this.toIdentity(resource);
+    await this.assertVerifiedDomain(organizationId, identity);
+
+    const existing = await this.usersCollection(organizationId).where('userNameLower', '==', userName.toLowerCase()).limit(1).get();
+    if (!existing.empty) {
+      throw new ScimError('A user with this userName already exists', 409, 'uniqueness');
+    }
+
+    const { userId } = await this.runProvisioning(() => findOrCreateUser(identity, 'scim', { emailVerified: true }));
+
+    const userRef = this.usersCollection(organizationId).doc(userId);
+    if ((await userRef.get()).exists) {
+      throw new ScimError('This user is already provisioned', 409, 'uniqueness');
+    }
+
+    const active = toBoolean(resource.active, true);
+    if (active) {
+      await this.activate(organizationId, userId, identity, getRequestedRole(resource));
+    }
+
+    const now = Timestamp.now();
+    const record = { ...this.toRecord(userId, resource, active), createdAt: now, updatedAt: now };
+    await userRef.set(record);
+
+    await this.audit(organizationId, 'scim_provision_user', userId, { userName, active });
+    return this.toScimUser(record);
+  }
+
+  /**
+   * Replace a user's attributes (PUT)
+   */
+  async replaceUser(organizationId: string, userId: string, resource: Record<string, any>): Promise<ScimUser> {
+    const userRef = this.usersCollection(organizationId).doc(userId);
+    const userDoc = await userRef.get();
+    if (!userDoc.exists) {
+      throw new ScimError('User not found', 404);
+    }
+
+    const previous = userDoc.data()!;
+    const userName = String(resource.userName || previous.userName).trim();
+    if (userName.toLowerCase() !== previous.userNameLower) {
+      const duplicate = await this.usersCollection(organizationId).where('userNameLower', '==', userName.toLowerCase()).limit(1).get();
+      if (!duplicate.empty) {
+        throw new ScimError('A user with this userName already exists', 409, 'uniqueness');
+      }
+    }
+
+    const active = toBoolean(resource.active, true);
+    const identity = this.toIdentity({ ...resource, userName });
+    if (identity.email !== previous.emails?.[0]?.value) {
+      await this.assertVerifiedDomain(organizationId, identity);
+    }
+    if (active) {
+      await this.activate(organizationId, userId, identity, getRequestedRole(resource));
+    } else if (previous.active) {
+      await this.runProvisioning(() => removeOrganizationMember(organizationId, userId));
+    }
+
+    const record = {
+      ...this.toRecord(userId, { ...resource, userName }, active),
+      createdAt: previous.createdAt,
+      updatedAt: Timestamp.now()
+    };
+    await userRef.set(record);
+
+    if (active !== previous.active) {
+      await this.audit(organizationId, active ? 'scim_reactivate_user' : 'scim_deactivate_user', userId, { userName });
+    }
+    return this.toScimUser(record);
+  }
+
+  /**
+   * Update some of a user's attributes (PATCH)
+   */
+  async patchUser(organizationId: string, userId: string, operations: ScimPatchOperation[]): Promise<ScimUser> {
+    const current = await this.getUser(organizationId, userId);
+    const { schemas, id, meta, ...attributes } = current;
+    return this.replaceUser(organizationId, userId, applyScimPatch(attributes, operations));
+  }
+
+  /**
+   * Deprovision a user: their membership ends and the SCIM record is removed
+   */
+  async deleteUser(organizationId: string, userId: string): Promise<void> {
+    const userRef = this.usersCollection(organizationId).doc(userId);
+    const userDoc = await userRef.get();
+    if (!userDoc.exists) {
+      throw new ScimError('User not found', 404);
+    }
+
+    await this.runProvisioning(() => removeOrganizationMember(organizationId, userId));
+    await userRef.delete();
+    await this.audit(organizationId, 'scim_deprovision_user', userId, { userName: userDoc.data()!.userName });
+  }
+
+  /**
+   * List the organization's teams as groups
+   */
+  async listGroups(
+    organizationId: string,
+    options: { filter?: string | null; startIndex?: number; count?: number; excludeMembers?: boolean } = {}
+  ): Promise<ScimListResponse<ScimGroup>> {
+    const filter = parseScimFilter(options.filter);
+    if (filter && !['displayname', 'externalid', 'id'].includes(filter.attribute.toLowerCase())) {
+      throw new ScimError(`Filtering on ${filter.attribute} is not supported`, 400, 'invalidFilter');
+    }
+
+    const snapshot = await getFirestore().collection('teams').where('organizationId', '==', organizationId).get();
+    const groups = snapshot.docs
+      .map((teamDoc: any) => this.toScimGroup(teamDoc.id, teamDoc.data(), options.excludeMembers))
+      .filter((group: ScimGroup) => {
+        if (!filter) {
+          return true;
+        }
+        const value = filter.attribute.toLowerCase() === 'displayname'
+          ? group.displayName
+          : filter.attribute.toLowerCase() === 'externalid' ? group.externalId : group.id;
+        return (value || '').toLowerCase() === filter.value.toLowerCase();
+      });
+
+    return this.toListResponse(groups, options.startIndex, options.count);
+  }
+
+  /**
+   * A team as a group
+   */
+  async getGroup(organizationId: string, groupId: string): Promise<ScimGroup> {
+    const teamDoc = await this.getTeamDoc(organizationId, groupId);
+    return this.toScimGroup(teamDoc.id, teamDoc.data());
+  }
+
+  /**
+   * Create a team for a group
+   */
+  async createGroup(organizationId: string, resource: Record<string, any>): Promise<ScimGroup> {
+    const displayName = String(resource.displayName || '').trim();
+    if (!displayName) {
+      throw new ScimError('displayName is required', 400, 'invalidValue');
+    }
+
+    const firestore = getFirestore();
+    const [orgDoc, existing] = await Promise.all([
+      firestore.collection('organizations').doc(organizationId).get(),
+      this.listGroups(organizationId, { filter: `displayName eq "${displayName.replace(/"/g, '\\"')}"`, excludeMembers: true })
+    ]);
+    if (existing.totalResults > 0) {
+      throw new ScimError('A group with this displayName already exists', 409, 'uniqueness');
+    }
+
+    const orgData = orgDoc.data() || {};
+    const members = this.toTeamMembers(orgData, this.getMemberIds(resource.members));
+    const now = Timestamp.now();
+    const teamRef = firestore.collection('teams').doc();
+    const team = {
+      name: displayName,
+      description: '',
+      organizationId,
+      isDefault: false,
+      isPublic: false,
+      members,
+      pendingInvites: [],
+      defaultTeamRole: TeamRole.CONTRIBUTOR,
+      defaultPermissions: [],
+      customRoles: [],
+      settings: TeamUtils.createDefaultSettings(),
+      activity: {
+        ...TeamUtils.createDefaultActivity(),
+        totalMembers: members.length,
+        activeMembers: members.length
+      },
+      tags: [],
+      customFields: {
+        scimManaged: true,
+        ...(resource.externalId ? { scimExternalId: String(resource.externalId) } : {})
+      },
+      ownerId: orgData.ownerUserId || orgData.ownerId || '',
+      managers: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    await teamRef.set(team);
+
+    await this.audit(organizationId, 'scim_create_group', teamRef.id, { displayName, members: members.length }, 'team');
+    return this.toScimGroup(teamRef.id, team);
+  }
+
+  /**
+   * Replace a group's name and members (PUT)
+   */
+  async replaceGroup(organizationId: string, groupId: string, resource: Record<string, any>): Promise<ScimGroup> {
+    const teamDoc = await this.getTeamDoc(organizationId, groupId);
+    const current = teamDoc.data();
+    const displayName = String(resource.displayName || current.name).trim();
+
+    const orgDoc = await getFirestore().collection('organizations').doc(organizationId).get();
+    const memberIds = this.getMemberIds(resource.members);
+    const previousMembers: Array<{ userId: string }> = current.members || [];
+
+    // Existing entries keep their team role and join date
+    const kept = previousMembers.filter(member => memberIds.includes(member.userId));
+    const added = this.toTeamMembers(orgDoc.data() || {}, memberIds.filter(userId => !kept.some(member => member.userId === userId)));
+    const members = [...kept, ...added];
+
+    const updates = {
+      name: displayName,
+      members,
+      'activity.totalMembers': members.length,
+      'activity.activeMembers': members.filter((member: any) => member.status === 'active').length,
+      ...(resource.externalId ? { 'customFields.scimExternalId': String(resource.externalId) } : {}),
+      updatedAt: Timestamp.now()
+    };
+    await teamDoc.ref.update(updates);
+
+    const removedCount = previousMembers.length - kept.length;
+    if (added.length > 0 || removedCount > 0 || displayName !== current.name) {
+      await this.audit(organizationId, 'scim_update_group', groupId, {
+        displayName,
+        added: added.map(member => member.userId),
+        removed: removedCount
+      }, 'team');
+    }
+
+    return this.toScimGroup(groupId, {
+      ...current,
+      name: displayName,
+      members,
+      customFields: {
+        ...current.customFields,
+        ...(resource.externalId ? { scimExternalId: String(resource.externalId) } : {})
+      },
+      updatedAt: updates.updatedAt
+    });
+  }
+
+  /**
+   * Update a group's name or add and remove members (PATCH)
+   */
+  async patchGroup(organizationId: string, groupId: string, operations: ScimPatchOperation[]): Promise<ScimGroup> {
+    const current = await this.getGroup(organizationId, groupId);
+    const { schemas, id, meta, ...attributes } = current;
+
+    // members[value eq "id"] removes one member; the generic patch handles the rest
+    return this.replaceGroup(organizationId, groupId, applyScimPatch(attributes, operations));
+  }
+
+  /**
+   * Delete the team behind a group
+   */
+  async deleteGroup(organizationId: string, groupId: string): Promise<void> {
+    const teamDoc = await this.getTeamDoc(organizationId, groupId);
+    await teamDoc.ref.delete();
+    await this.audit(organizationId, 'scim_delete_group', groupId, { displayName: teamDoc.data().name }, 'team');
+  }
+
+  /**
+   * Base URL to enter in the identity provider
+   */
+  getBaseUrl(): string {
+    return `${process.env.NEXT_PUBLIC_APP_URL || ''}/api/scim/v2`;
+  }
+
+  private usersCollection(organizationId: string) {
+    return getFirestore().collection('organizations').doc(organizationId).collection(USERS_SUBCOLLECTION);
+  }
+
+  private async getTeamDoc(organizationId: string, groupId: string): Promise<any> {
+    const teamDoc = await getFirestore().collection('teams').doc(groupId).get();
+    if (!teamDoc.exists || teamDoc.data()!.organizationId !== organizationId) {
+      throw new ScimError('Group not found', 404);
+    }
+    return teamDoc;
+  }
+
+  /**
+   * Add or update an active user's membership; new members get the SSO default role
+   */
+  private async activate(
+    organizationId: string,
+    userId: string,
+    identity: ProvisionedIdentity,
+    role?: OrganizationRole
+  ): Promise<void> {
+    const connection = await samlService.getConnection(organizationId);
+    await this.runProvisioning(() => upsertOrganizationMember(organizationId, userId, identity, {
+      ...(role ? { role } : {}),
+      defaultRole: connection?.defaultRole || OrganizationRole.MEMBER,
+      source: 'scim'
+    }));
+  }
+
+  /**
+   * SCIM may only provision emails in the organization's verified SSO domains, as SAML sign-in does
+   */
+  private async assertVerifiedDomain(organizationId: string, identity: ProvisionedIdentity): Promise<void> {
+    const connection = await samlService.getConnection(organizationId);
+    if (!isEmailInVerifiedDomain(identity.email, connection?.emailDomains || [])) {
+      logger.warn('SCIM email is outside the verified domains', { organizationId });
+      throw new ScimError('The email domain is not verified for this organization', 400, 'invalidValue');
+    }
+  }
+
+  /**
+   * Run a provisioning step, reporting its errors as SCIM errors
+   */
+  private async runProvisioning<T>(step: () => Promise<T>): Promise<T> {
+    try {
+      return await step();
+    } catch (error) {
+      if (error instanceof ProvisioningError) {
+        const status = error.code === 'not_found' ? 404 : error.code === 'seat_limit' ? 403 : 400;
+        throw new ScimError(error.message, status, error.code === 'owner' ? 'mutability' : undefined);
+      }
+      throw error;
+    }
+  }
+
+  private toIdentity(resource: Record<string, any>): ProvisionedIdentity {
+    const emails: Array<{ value?: string; primary?: boolean }> = Array.isArray(resource.emails) ? resource.emails : [];
+    const email = (emails.find(entry => entry.primary)?.value || emails[0]?.value ||
+      (String(resource.userName).includes('@') ? resource.userName : '')) as string;
+    if (!email) {
+      throw new ScimError('An email address or email userName is required', 400, 'invalidValue');
+    }
+
+    return {
+      email: email.trim().toLowerCase(),
+      ...(resource.name?.givenName ? { firstName: resource.name.givenName } : {}),
+      ...(resource.name?.familyName ? { lastName: resource.name.familyName } : {}),
+      ...(resource.displayName ? { displayName: resource.displayName } : {})
+    };
+  }
+
+  private toRecord(userId: string, resource: Record<string, any>, active: boolean): Record<string, any> {
+    const userName = String(resource.userName).trim();
+    const identity = this.toIdentity(resource);
+    const role = getRequestedRole(resource);
+    return {
+      userId,
+      userName,
+      userNameLower: userName.toLowerCase(),
+      ...(resource.externalId ? { externalId: String(resource.externalId) } : {}),
+      name: {
+        ...(identity.firstName ? { givenName: identity.firstName } : {}),
+        ...(identity.lastName ? { familyName: identity.lastName } : {})
+      },
+      displayName: getIdentityDisplayName(identity),
+      emails: [{ value: identity.email, type: 'work', primary: true }],
+      ...(role ? { roles: [{ value: role }] } : {}),
+      active
+    };
+  }
+
+  private toScimUser(record: Record<string, any>): ScimUser {
+    return {
+      schemas: [SCIM_USER_SCHEMA],
+      id: record.userId,
+      ...(record.externalId ? { externalId: record.externalId } : {}),
+      userName: record.userName,
+      name: record.name,
+      displayName: record.displayName,
+      emails: record.emails,
+      ...(record.roles ? { roles: record.roles } : {}),
+      active: record.active === true,
+      meta: {
+        resourceType: 'User',
+        created: record.createdAt?.toDate().toISOString(),
+        lastModified: record.updatedAt?.toDate().toISOString(),
+        location: `${this.getBaseUrl()}/Users/${record.userId}`
+      }
+    };
+  }
+
+  private toScimGroup(teamId: string, team: Record<string, any>, excludeMembers: boolean = false): ScimGroup {
+    return {
+      schemas: [SCIM_GROUP_SCHEMA],
+      id: teamId,
+      ...(team.customFields?.scimExternalId ? { externalId: team.customFields.scimExternalId } : {}),
+      displayName: team.name,
+      members: excludeMembers ? [] : (team.members || []).map((member: any) => ({
+        value: member.userId,
+        display: member.email,
+        $ref: `${this.getBaseUrl()}/Users/${member.userId}`
+      })),
+      meta: {
+        resourceType: 'Group',
+        created: team.createdAt?.toDate?.().toISOString(),
+        lastModified: team.updatedAt?.toDate?.().toISOString(),
+        location: `${this.getBaseUrl()}/Groups/${teamId}`
+      }
+    };
+  }
+
+  private getMemberIds(members: unknown): string[] {
+    const entries: Array<{ value?: string }> = Array.isArray(members) ? members : [];
+    return Array.from(new Set(entries.map(entry => String(entry?.value || '')).filter(Boolean)));
+  }
+
+  /**
+   * Team member entries for organization members; users outside the organization are skipped
+   */
+  private toTeamMembers(orgData: Record<string, any>, userIds: string[]): Array<Record<string, any>> {
+    const orgMembers = orgData.members || {};
+    const skipped = userIds.filter(userId => !orgMembers[userId]);
+    if (skipped.length > 0) {
+      logger.warn('SCIM group members are not organization members', { skipped: skipped.length });
+    }
+
+    const now = Timestamp.now();
+    return userIds.filter(userId => orgMembers[userId]).map(userId => {
+      const member = orgMembers[userId];
+      return {
+        userId,
+        email: member.email,
+        displayName: member.displayName,
+        // Team entries use the same role values as the organization's members map
+        organizationRole: member.role,
+        ...(member.role === OrganizationRoleType.MEMBER ? { teamRole: TeamRole.CONTRIBUTOR } : {}),
+        permissions: [],
+        joinedAt: now,
+        invitedBy: 'scim',
+        status: 'active'
+      };
+    });
+  }
+
+  private toListResponse<T>(resources: T[], startIndex: number = 1, count: number = DEFAULT_PAGE_SIZE): ScimListResponse<T> {
+    const start = Math.max(1, Math.floor(startIndex) || 1);
+    const size = Math.min(MAX_PAGE_SIZE, Math.max(0, Math.floor(count) || 0));
+    const page = resources.slice(start - 1, start - 1 + size);
+    return {
+      schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+      totalResults: resources.length,
+      startIndex: start,
+      itemsPerPage: page.length,
+      Resources: page
+    };
+  }
+
+  private async audit(
+    organizationId: string,
+    action: string,
+    resourceId: string,
+    metadata: Record<string, any>,
+    resourceType: string = 'user'
+  ): Promise<void> {
+    await recordAuditEvent({
+      userId: 'scim',
+      category: 'user_management',
+      action,
+      severity: action.includes('deprovision') || action.includes('deactivate') ? 'warning' : 'info',
+      organizationId,
+      resourceId,
+      resourceType,
+      metadata
+    });
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+}
+
+export const scimService = new ScimService();
+export default scimService;
@@ -10,10 +10,18 @@ import {
   WorkflowExecution,
   WorkflowStatus,
   TriggerType,
-  ActionType
+  ActionType,
+  StepType,
+  WorkflowStep,
+  StepDelay,
+  ConditionTrace,
+  DryRunResult,
+  DryRunStepTrace,
+  validateWorkflowGraph
 } from './models';
 import { ActionHandler, TriggerHandler } from './handlers';
 import { getActionHandler, getTriggerHandler } from './registry';
+import { resolveTemplateValue } from './templates';
 import logger from '../core/logging/logger';
 
 /**
@@ -40,6 +48,60 @@ export interface ExecutionConfig {
   executeSequentially?: boolean;
 }
 
+/**
+ * Mutable state for a graph workflow run
+ */
+interface GraphRunState {
+  // Trigger context plus the latest output per action type
+  context: Record<string, any>;
+  // Outputs of steps run on this path, keyed by step ID
+  stepOutputs: Record<string, any>;
+  // Outputs visible from enclosing paths (loop bodies)
+  outerOutputs?: Record<string, any>;
+  actionResults: ActionResult[];
+  budget: { stepsRun: number };
+  loop?: { item: any; index: number };
+  // This worker's lease on the execution record, shared with loop bodies
+  lease?: ExecutionLease;
+}
+
+/**
+ * A worker's claim on a graph execution; owner is a random token written to
+ * the execution record
+ */
+interface ExecutionLease {
+  executionId: string;
+  owner: string;
+  expiresAt: number;
+}
+
+/**
+ * Thrown when another worker has reclaimed an execution this worker was running
+ */
+export class ExecutionLeaseLostError extends Error {
+  constructor(executionId: string) {
+    super(`Lease on workflow execution ${executionId} is held by another worker`);
+    this.name = 'ExecutionLeaseLostError';
+  }
+}
+
+/**
+ * Outcome of running a graph path
+ */
+interface GraphRunResult {
+  status: 'completed' | 'failed' | 'waiting';
+  error?: string;
+  nextStepId?: string;
+  resumeAt?: Date;
+}
+
+// Guards against cycles in a graph
+const MAX_GRAPH_STEPS = 500;
+const DEFAULT_MAX_LOOP_ITERATIONS = 100;
+const DEFAULT_MAX_BACKOFF_MS = 60000;
+// How long a running graph execution is claimed before another worker may take it
+const RESUME_LEASE_MS = 5 * 60 * 1000;
+
 /**
  * Automation Engine for processing events and executing workflows
  */
@@ -176,7 +238,10 @@ export class AutomationEngine {
       triggerData: executionConfig.includeInputData ? event.data : { type: event.type },
       startTime: new Date(),
       status: 'running',
-      actionResults: []
+      actionResults: [],
+      // Graph runs can be reclaimed if this worker dies
+      ...(workflow.graph ? { leaseOwner: uuidv4(), leaseExpiresAt: new Date(Date.now() + RESUME_LEASE_MS) } : {}),
+      ...(event.metadata?.replayOf ? { metadata: { replayOf: event.metadata.replayOf } } : {})
     };
     
     try {
@@ -191,7 +256,11 @@ export class AutomationEngine {
       }
       
       // Process trigger to get initial context
-      const context = await triggerHandler.process(event, workflow.trigger.parameters);
+      const context = this.withActingUser(workflow, await triggerHandler.process(event, workflow.trigger.parameters));
+      
+      if (workflow.graph) {
+        return await this.executeGraph(workflow, execution, context);
+      }
       
       // Sort actions by order
       const sortedActions = [...workflow.actions].sort((a, b) => a.order - b.order);
@@ -252,15 +321,7 @@ export class AutomationEngine {
       
       // Update workflow execution count and success rate
       const successCount = actionResults.filter(result => result.success).length;
-      const newExecutionCount = (workflow.executionCount || 0) + 1;
-      const newSuccessRate = ((workflow.successRate || 0) * (newExecutionCount - 1) + 
-        (successCount === actionResults.length ? 1 : 0)) / newExecutionCount;
-      
-      await this.workflowsCollection.doc(workflow.id).update({
-        executionCount: newExecutionCount,
-        successRate: newSuccessRate,
-        lastExecuted: new Date()
-      });
+      await this.updateWorkflowStats(workflow, successCount === actionResults.length);
       
       // Determine overall execution status
       const status = actionResults.some(result => !result.success) ? 'failed' : 'completed';
@@ -280,6 +341,15 @@ export class AutomationEngine {
         actionResults
       } as WorkflowExecution;
     } catch (error) {
+      if (error instanceof ExecutionLeaseLostError) {
+        // The worker that reclaimed the run owns its record now
+        logger.warn('Stopped workflow execution taken over by another worker', {
+          workflowId: workflow.id,
+          executionId
+        });
+        return execution;
+      }
+      
       logger.error('Error executing workflow', { 
         error, 
         workflowId: workflow.id,
@@ -302,6 +372,24 @@ export class AutomationEngine {
     }
   }
   
+  /**
+   * Give the trigger context an acting user. Triggers that carry none run as
+   * the workflow's creator within the workflow's organization.
+   * @param workflow Workflow being run
+   * @param context Context from the trigger handler
+   * @returns Context with a user
+   */
+  private withActingUser(workflow: Workflow, context: Record<string, any>): Record<string, any> {
+    if (context.user?.id) {
+      return context;
+    }
+
+    return {
+      ...context,
+      user: { id: workflow.createdBy, organizationId: workflow.organizationId }
+    };
+  }
+
   /**
    * Execute a single action with context
    * @param action Action to execute
@@ -343,6 +431,915 @@ export class AutomationEngine {
     }
   }
   
+  /**
+   * Run a graph workflow from its start step
+   * @param workflow Workflow with a graph definition
+   * @param execution Execution record
+   * @param context Initial context from the trigger handler
+   * @returns Execution result
+   */
+  private async executeGraph(
+    workflow: Workflow,
+    execution: WorkflowExecution,
+    context: Record<string, any>
+  ): Promise<WorkflowExecution> {
+    const state: GraphRunState = {
+      context: { ...context },
+      stepOutputs: {},
+      actionResults: [],
+      budget: { stepsRun: 0 },
+      lease: { executionId: execution.id, owner: execution.leaseOwner!, expiresAt: 0 }
+    };
+    
+    const result = await this.runGraphPath(workflow, workflow.graph!.startStepId, state);
+    
+    return this.recordGraphResult(workflow, execution, state, result);
+  }
+  
+  /**
+   * Run graph steps from a step until the path ends, fails or waits
+   * @param workflow Workflow with a graph definition
+   * @param startStepId First step to run
+   * @param state Run state
+   * @returns Path outcome
+   */
+  private async runGraphPath(
+    workflow: Workflow,
+    startStepId: string | undefined,
+    state: GraphRunState
+  ): Promise<GraphRunResult> {
+    const steps = workflow.graph!.steps;
+    let stepId = startStepId;
+    
+    while (stepId) {
+      if (++state.budget.stepsRun > MAX_GRAPH_STEPS) {
+        return { status: 'failed', error: `Workflow exceeded ${MAX_GRAPH_STEPS} steps` };
+      }
+      
+      const step: WorkflowStep | undefined = steps[stepId];
+      
+      if (!step) {
+        return { status: 'failed', error: `Workflow step not found: ${stepId}` };
+      }
+      
+      await this.renewLease(state, stepId);
+      
+      const scope = this.buildGraphScope(state);
+      
+      switch (step.type) {
+        case StepType.ACTION: {
+          const result = await this.executeActionStep(step, scope);
+          
+          if (!result) {
+            // Disabled or conditions not met
+            stepId = step.next;
+            break;
+          }
+          
+          state.actionResults.push(result);
+          
+          if (result.success) {
+            state.stepOutputs[step.id] = { output: result.data };
+            state.context[step.action!.type] = result.data;
+            stepId = step.next;
+          } else if (step.onError) {
+            state.stepOutputs[step.id] = { error: result.error };
+            stepId = step.onError;
+          } else {
+            return { status: 'failed', error: `Step ${step.id} failed: ${result.error}` };
+          }
+          break;
+        }
+        
+        case StepType.BRANCH: {
+          const matched = await this.evaluateConditions(step.conditions || [], scope);
+          state.stepOutputs[step.id] = { output: { matched } };
+          stepId = matched ? step.onTrue : step.onFalse;
+          break;
+        }
+        
+        case StepType.DELAY: {
+          const resumeAt = this.computeResumeAt(step.delay, scope);
+          
+          if (!resumeAt) {
+            return { status: 'failed', error: `Step ${step.id} has an invalid delay` };
+          }
+          
+          state.stepOutputs[step.id] = { output: { resumeAt: resumeAt.toISOString() } };
+          
+          // Nothing to wait for if the time has passed or nothing follows
+          if (resumeAt.getTime() <= Date.now() || !step.next) {
+            stepId = step.next;
+            break;
+          }
+          
+          return { status: 'waiting', nextStepId: step.next, resumeAt };
+        }
+        
+        case StepType.LOOP: {
+          const loopResult = await this.executeLoopStep(workflow, step, scope, state);
+          
+          if (loopResult.status !== 'completed') {
+            return loopResult;
+          }
+          
+          stepId = step.next;
+          break;
+        }
+        
+        default:
+          return { status: 'failed', error: `Unknown step type: ${(step as WorkflowStep).type}` };
+      }
+    }
+    
+    return { status: 'completed' };
+  }
+  
+  /**
+   * Run an action step, applying its retry policy
+   * @param step Action step
+   * @param scope Template and condition scope
+   * @returns Action result, or null when the step was skipped
+   */
+  private async executeActionStep(
+    step: WorkflowStep,
+    scope: Record<string, any>
+  ): Promise<ActionResult | null> {
+    const action = step.action!;
+    
+    if (!action.enabled) {
+      return null;
+    }
+    
+    if (action.conditions && action.conditions.length > 0) {
+      const conditionsMatch = await this.evaluateConditions(action.conditions, scope);
+      
+      if (!conditionsMatch) {
+        return null;
+      }
+    }
+    
+    const resolvedAction: Action = {
+      ...action,
+      parameters: resolveTemplateValue(action.parameters || {}, scope)
+    };
+    
+    const policy = step.retryPolicy;
+    const maxAttempts = Math.max(1, policy?.maxAttempts || 1);
+    let result: ActionResult | null = null;
+    
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      result = await this.executeAction(resolvedAction, scope);
+      
+      if (result.success || attempt === maxAttempts) {
+        return { ...result, stepId: step.id, attempts: attempt };
+      }
+      
+      const delayMs = Math.min(
+        (policy?.backoffMs || 0) * Math.pow(policy?.backoffMultiplier || 2, attempt - 1),
+        policy?.maxBackoffMs || DEFAULT_MAX_BACKOFF_MS
+      );
+      
+      logger.info(`Retrying step ${step.id} in ${delayMs}ms`, { stepId: step.id, attempt });
+      
+      if (delayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Run a loop body once per item
+   * @param workflow Workflow with a graph definition
+   * @param step Loop step
+   * @param scope Template scope
+   * @param state Run state
+   * @returns Loop outcome
+   */
+  private async executeLoopStep(
+    workflow: Workflow,
+    step: WorkflowStep,
+    scope: Record<string, any>,
+    state: GraphRunState
+  ): Promise<GraphRunResult> {
+    const loop = step.loop!;
+    const items = resolveTemplateValue(loop.items, scope);
+    
+    if (!Array.isArray(items)) {
+      return { status: 'failed', error: `Loop step ${step.id} items did not resolve to an array` };
+    }
+    
+    const maxIterations = loop.maxIterations || DEFAULT_MAX_LOOP_ITERATIONS;
+    const iterations: Record<string, any>[] = [];
+    
+    for (let index = 0; index < items.length && index < maxIterations; index++) {
+      const iterationState: GraphRunState = {
+        ...state,
+        stepOutputs: {},
+        outerOutputs: { ...state.outerOutputs, ...state.stepOutputs },
+        loop: { item: items[index], index }
+      };
+      
+      const result = await this.runGraphPath(workflow, loop.bodyStepId, iterationState);
+      iterations.push(iterationState.stepOutputs);
+      
+      if (result.status === 'waiting') {
+        return { status: 'failed', error: `Loop step ${step.id} body cannot contain delays` };
+      }
+      
+      if (result.status === 'failed') {
+        return result;
+      }
+    }
+    
+    state.stepOutputs[step.id] = { output: { count: iterations.length, iterations } };
+    
+    return { status: 'completed' };
+  }
+  
+  /**
+   * Extend this worker's lease on the execution before running a step. Top-level
+   * steps are also checkpointed, so a worker that reclaims an abandoned run
+   * continues from that step; inside loop bodies the lease is only extended.
+   * @param state Run state
+   * @param stepId Step about to run
+   * @throws ExecutionLeaseLostError when another worker has reclaimed the run
+   */
+  private async renewLease(state: GraphRunState, stepId: string): Promise<void> {
+    const lease = state.lease;
+    const now = Date.now();
+    
+    if (!lease || (state.loop && lease.expiresAt - now > RESUME_LEASE_MS / 2)) {
+      return;
+    }
+    
+    lease.expiresAt = now + RESUME_LEASE_MS;
+    
+    await this.updateLeasedExecution(lease, {
+      leaseExpiresAt: new Date(lease.expiresAt),
+      ...(state.loop ? {} : {
+        currentStepId: stepId,
+        context: toStorable(state.context),
+        stepOutputs: toStorable(state.stepOutputs)
+      })
+    });
+  }
+  
+  /**
+   * Update an execution record only while this worker still holds its lease
+   * @param lease This worker's lease
+   * @param updates Fields to write
+   * @throws ExecutionLeaseLostError when another worker has reclaimed the run
+   */
+  private async updateLeasedExecution(lease: ExecutionLease, updates: Record<string, any>): Promise<void> {
+    const docRef = this.executionsCollection.doc(lease.executionId);
+    
+    await firestore.runTransaction(async (transaction: any) => {
+      const doc = await transaction.get(docRef);
+      
+      if (!doc.exists || doc.data().leaseOwner !== lease.owner) {
+        throw new ExecutionLeaseLostError(lease.executionId);
+      }
+      
+      transaction.update(docRef, updates);
+    });
+  }
+  
+  /**
+   * Build the scope used for templates and conditions
+   * @param state Run state
+   * @returns Scope object
+   */
+  private buildGraphScope(state: GraphRunState): Record<string, any> {
+    return {
+      ...state.context,
+      steps: { ...state.outerOutputs, ...state.stepOutputs },
+      ...(state.loop ? { loop: state.loop } : {})
+    };
+  }
+  
+  /**
+   * Work out when a delay step should resume
+   * @param delay Delay configuration
+   * @param scope Template scope
+   * @returns Resume time, or null when the delay is invalid
+   */
+  private computeResumeAt(delay: StepDelay | undefined, scope: Record<string, any>): Date | null {
+    if (!delay) {
+      return null;
+    }
+    
+    if (delay.until) {
+      const until: any = resolveTemplateValue(delay.until, scope);
+      const date = until?.toDate ? until.toDate() : new Date(until);
+      
+      return isNaN(date.getTime()) ? null : date;
+    }
+    
+    const delayMs = ((delay.days || 0) * 24 * 60 + (delay.hours || 0) * 60 + (delay.minutes || 0)) * 60 * 1000;
+    
+    return delayMs > 0 ? new Date(Date.now() + delayMs) : null;
+  }
+  
+  /**
+   * Persist the outcome of a graph run
+   * @param workflow Workflow
+   * @param execution Execution record
+   * @param state Run state
+   * @param result Run outcome
+   * @returns Updated execution
+   */
+  private async recordGraphResult(
+    workflow: Workflow,
+    execution: WorkflowExecution,
+    state: GraphRunState,
+    result: GraphRunResult
+  ): Promise<WorkflowExecution> {
+    const actionResults = [...(execution.actionResults || []), ...state.actionResults]
+      .map(actionResult => ({
+        ...toStorable({ ...actionResult, timestamp: undefined }),
+        timestamp: toDate(actionResult.timestamp) || new Date()
+      }));
+    
+    let updates: Partial<WorkflowExecution>;
+    
+    if (result.status === 'waiting') {
+      // Context and outputs are stored so the run can continue after a restart
+      updates = {
+        status: 'waiting',
+        actionResults,
+        currentStepId: result.nextStepId,
+        resumeAt: result.resumeAt,
+        context: toStorable(state.context),
+        stepOutputs: toStorable(state.stepOutputs)
+      };
+      
+      logger.info('Workflow execution waiting', {
+        workflowId: workflow.id,
+        executionId: execution.id,
+        resumeAt: result.resumeAt
+      });
+    } else {
+      updates = {
+        status: result.status,
+        endTime: new Date(),
+        actionResults,
+        stepOutputs: toStorable(state.stepOutputs),
+        ...(result.error ? { error: result.error } : {})
+      };
+    }
+    
+    if (state.lease) {
+      await this.updateLeasedExecution(state.lease, updates);
+    } else {
+      await this.executionsCollection.doc(execution.id).update(updates);
+    }
+    
+    if (result.status !== 'waiting') {
+      await this.updateWorkflowStats(workflow, result.status === 'completed');
+    }
+    
+    return { ...execution, ...updates } as WorkflowExecution;
+  }
+  
+  /**
+   * Update a workflow's execution count and success rate
+   * @param workflow Workflow
+   * @param succeeded Whether the execution succeeded
+   */
+  private async updateWorkflowStats(workflow: Workflow, succeeded: boolean): Promise<void> {
+    const newExecutionCount = (workflow.executionCount || 0) + 1;
+    const newSuccessRate = ((workflow.successRate || 0) * (newExecutionCount - 1) + 
+      (succeeded ? 1 : 0)) / newExecutionCount;
+    
+    await this.workflowsCollection.doc(workflow.id).update({
+      executionCount: newExecutionCount,
+      successRate: newSuccessRate,
+      lastExecuted: new Date()
+    });
+  }
+  
+  /**
+   * Resume graph executions whose delay has elapsed. Executions are claimed
+   * with a lease so concurrent workers do not resume the same run twice;
+   * a run whose worker died is picked up again once its lease expires.
+   * @param limit Maximum number of executions to resume
+   * @returns Resume counts
+   */
+  async resumeWaitingExecutions(limit: number = 50): Promise<{
+    resumed: number;
+    completed: number;
+    failed: number;
+    waiting: number;
+  }> {
+    const stats = { resumed: 0, completed: 0, failed: 0, waiting: 0 };
+    const now = new Date();
+    
+    const [waitingSnapshot, staleSnapshot] = await Promise.all([
+      this.executionsCollection
+        .where('status', '==', 'waiting')
+        .where('resumeAt', '<=', now)
+        .limit(limit)
+        .get(),
+      this.executionsCollection
+        .where('status', '==', 'running')
+        .where('leaseExpiresAt', '<=', now)
+        .limit(limit)
+        .get()
+    ]);
+    
+    const executionIds = [...waitingSnapshot.docs, ...staleSnapshot.docs]
+      .map((doc: any) => doc.id)
+      .slice(0, limit);
+    
+    for (const executionId of executionIds) {
+      try {
+        const execution = await this.claimExecution(executionId);
+        
+        if (!execution) {
+          continue;
+        }
+        
+        stats.resumed++;
+        const result = await this.resumeExecution(execution);
+        
+        if (result.status === 'completed') stats.completed++;
+        else if (result.status === 'failed') stats.failed++;
+        else if (result.status === 'waiting') stats.waiting++;
+      } catch (error) {
+        if (error instanceof ExecutionLeaseLostError) {
+          logger.warn('Stopped resumed workflow execution taken over by another worker', { executionId });
+          continue;
+        }
+        
+        stats.failed++;
+        logger.error('Error resuming workflow execution', {
+          error: error instanceof Error ? error.message : String(error),
+          executionId
+        });
+      }
+    }
+    
+    return stats;
+  }
+  
+  /**
+   * Claim a waiting (or abandoned) execution for this worker
+   * @param executionId Execution ID
+   * @returns Claimed execution, or null if another worker holds it
+   */
+  private async claimExecution(executionId: string): Promise<WorkflowExecution | null> {
+    const docRef = this.executionsCollection.doc(executionId);
+    
+    return firestore.runTransaction(async (transaction: any) => {
+      const doc = await transaction.get(docRef);
+      
+      if (!doc.exists) {
+        return null;
+      }
+      
+      const execution = doc.data() as WorkflowExecution;
+      const now = Date.now();
+      const resumeAt = toDate(execution.resumeAt);
+      const leaseExpiresAt = toDate(execution.leaseExpiresAt);
+      
+      const isDue = execution.status === 'waiting' && (!resumeAt || resumeAt.getTime() <= now);
+      const isAbandoned = execution.status === 'running' && !!leaseExpiresAt && leaseExpiresAt.getTime() <= now;
+      
+      if (!isDue && !isAbandoned) {
+        return null;
+      }
+      
+      // A fresh owner token fences off the previous worker if it is still running
+      const leaseOwner = uuidv4();
+      
+      transaction.update(docRef, {
+        status: 'running',
+        leaseOwner,
+        leaseExpiresAt: new Date(now + RESUME_LEASE_MS)
+      });
+      
+      return { ...execution, id: executionId, leaseOwner };
+    });
+  }
+  
+  /**
+   * Continue a claimed graph execution from its saved step
+   * @param execution Claimed execution
+   * @returns Updated execution
+   */
+  private async resumeExecution(execution: WorkflowExecution): Promise<WorkflowExecution> {
+    const workflow = await this.getWorkflow(execution.workflowId);
+    
+    if (!workflow || !workflow.graph || !workflow.enabled || workflow.status !== WorkflowStatus.ACTIVE) {
+      const updates: Partial<WorkflowExecution> = {
+        status: 'failed',
+        endTime: new Date(),
+        error: 'Workflow is no longer active'
+      };
+      
+      await this.executionsCollection.doc(execution.id).update(updates);
+      return { ...execution, ...updates } as WorkflowExecution;
+    }
+    
+    // A run abandoned before its first checkpoint has no trigger context to continue with
+    if (!execution.currentStepId) {
+      const updates: Partial<WorkflowExecution> = {
+        status: 'failed',
+        endTime: new Date(),
+        error: 'Execution was interrupted before its first step'
+      };
+      
+      await this.executionsCollection.doc(execution.id).update(updates);
+      return { ...execution, ...updates } as WorkflowExecution;
+    }
+    
+    logger.info('Resuming workflow execution', {
+      workflowId: workflow.id,
+      executionId: execution.id,
+      stepId: execution.currentStepId
+    });
+    
+    const state: GraphRunState = {
+      context: execution.context || {},
+      stepOutputs: execution.stepOutputs || {},
+      actionResults: [],
+      budget: { stepsRun: 0 },
+      lease: { executionId: execution.id, owner: execution.leaseOwner!, expiresAt: Date.now() + RESUME_LEASE_MS }
+    };
+    
+    const result = await this.runGraphPath(workflow, execution.currentStepId, state);
+    
+    return this.recordGraphResult(workflow, execution, state, result);
+  }
+  
+  /**
+   * Dry-run a workflow against a sample event. Trigger and action
+   * conditions are evaluated and parameters resolved, but no action
+   * handler runs and nothing is written.
+   * @param workflow Workflow to test
+   * @param event Sample event
+   * @param options Simulated outputs keyed by step or action ID
+   * @returns Dry run result with a per-step trace
+   */
+  async dryRunWorkflow(
+    workflow: Workflow,
+    event: EventData,
+    options: {
+      mockOutputs?: Record<string, any>;
+      mode?: 'test' | 'replay';
+      sourceExecutionId?: string;
+    } = {}
+  ): Promise<DryRunResult> {
+    const mockOutputs = options.mockOutputs || {};
+    const warnings: string[] = [];
+    
+    if (event.type !== workflow.trigger.type) {
+      warnings.push(`Event type ${event.type} does not match trigger type ${workflow.trigger.type}`);
+    }
+    
+    if (!workflow.enabled || workflow.status !== WorkflowStatus.ACTIVE) {
+      warnings.push('Workflow is not enabled and active, so live events will not run it');
+    }
+    
+    if (workflow.organizationId && event.organizationId && workflow.organizationId !== event.organizationId) {
+      warnings.push('Event organization does not match the workflow organization');
+    }
+    
+    const triggerConditions = (workflow.trigger.conditions || [])
+      .map(condition => this.traceCondition(condition, event.data || {}));
+    
+    const wouldTrigger = event.type === workflow.trigger.type &&
+      triggerConditions.every(trace => trace.passed);
+    
+    const triggerHandler = getTriggerHandler(workflow.trigger.type);
+    let context: Record<string, any> = {};
+    
+    if (!triggerHandler) {
+      warnings.push(`No handler found for trigger type: ${workflow.trigger.type}`);
+    } else {
+      try {
+        context = this.withActingUser(workflow, await triggerHandler.process(event, workflow.trigger.parameters));
+      } catch (error) {
+        warnings.push(`Trigger handler failed: ${(error as Error).message}`);
+      }
+    }
+    
+    const steps = workflow.graph
+      ? this.dryRunGraph(workflow, context, mockOutputs, warnings)
+      : this.dryRunActions(workflow, context, mockOutputs, warnings);
+    
+    return {
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      mode: options.mode || 'test',
+      ...(options.sourceExecutionId ? { sourceExecutionId: options.sourceExecutionId } : {}),
+      wouldTrigger,
+      triggerConditions,
+      steps,
+      warnings,
+      evaluatedAt: new Date()
+    };
+  }
+  
+  /**
+   * Dry-run a stored workflow by ID
+   * @param workflowId Workflow ID
+   * @param event Sample event
+   * @param mockOutputs Simulated outputs keyed by step or action ID
+   * @returns Dry run result, or null if the workflow does not exist
+   */
+  async testWorkflow(
+    workflowId: string,
+    event: EventData,
+    mockOutputs: Record<string, any> = {}
+  ): Promise<DryRunResult | null> {
+    const workflow = await this.getWorkflow(workflowId);
+    
+    if (!workflow) {
+      return null;
+    }
+    
+    return this.dryRunWorkflow(workflow, event, { mockOutputs });
+  }
+  
+  /**
+   * Re-run a past execution with its stored trigger data. In dry-run mode
+   * the stored action results stand in for action outputs; otherwise the
+   * workflow is executed again for real.
+   * @param executionId Execution to replay
+   * @param options Replay options
+   * @returns Dry run result or new execution, or null if not found
+   */
+  async replayExecution(
+    executionId: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<{ dryRun?: DryRunResult; execution?: WorkflowExecution } | null> {
+    const execution = await this.getExecution(executionId);
+    
+    if (!execution) {
+      return null;
+    }
+    
+    const workflow = await this.getWorkflow(execution.workflowId);
+    
+    if (!workflow) {
+      return null;
+    }
+    
+    const event: EventData = {
+      type: workflow.trigger.type,
+      data: execution.triggerData || {},
+      timestamp: new Date(),
+      userId: execution.context?.user?.id,
+      organizationId: workflow.organizationId,
+      metadata: { replayOf: executionId }
+    };
+    
+    if (options.dryRun === false) {
+      return { execution: await this.executeWorkflow(workflow, event) };
+    }
+    
+    const mockOutputs: Record<string, any> = {};
+    
+    for (const result of execution.actionResults || []) {
+      if (result.success && result.data !== undefined) {
+        mockOutputs[result.stepId || result.actionId] = result.data;
+      }
+    }
+    
+    const dryRun = await this.dryRunWorkflow(workflow, event, {
+      mockOutputs,
+      mode: 'replay',
+      sourceExecutionId: executionId
+    });
+    
+    if (execution.triggerData && Object.keys(execution.triggerData).length === 1 && execution.triggerData.type) {
+      dryRun.warnings.push('Execution stored only the event type; trigger data was not recorded');
+    }
+    
+    return { dryRun };
+  }
+  
+  /**
+   * Trace a flat actions list the way the sequential executor runs it
+   */
+  private dryRunActions(
+    workflow: Workflow,
+    context: Record<string, any>,
+    mockOutputs: Record<string, any>,
+    warnings: string[]
+  ): DryRunStepTrace[] {
+    const traces: DryRunStepTrace[] = [];
+    const sortedActions = [...workflow.actions].sort((a, b) => a.order - b.order);
+    let currentContext = { ...context };
+    
+    for (const action of sortedActions) {
+      const trace: DryRunStepTrace = {
+        stepId: action.id,
+        name: action.name,
+        stepType: StepType.ACTION,
+        actionType: action.type,
+        outcome: 'would_execute',
+        conditions: (action.conditions || []).map(condition => this.traceCondition(condition, currentContext)),
+        resolvedParameters: action.parameters
+      };
+      traces.push(trace);
+      
+      if (!action.enabled) {
+        trace.outcome = 'skipped';
+        trace.note = 'Action is disabled';
+        trace.conditions = [];
+        continue;
+      }
+      
+      if (trace.conditions.some(condition => !condition.passed)) {
+        trace.outcome = 'skipped';
+        trace.note = 'Action conditions not met';
+        continue;
+      }
+      
+      if (!getActionHandler(action.type)) {
+        trace.outcome = 'error';
+        trace.note = `No handler found for action type: ${action.type}`;
+        break;
+      }
+      
+      if (action.id in mockOutputs) {
+        trace.simulatedOutput = mockOutputs[action.id];
+        currentContext = { ...currentContext, [action.type]: mockOutputs[action.id] };
+      } else {
+        warnings.push(`No output available for action ${action.id}; later conditions see no ${action.type} result`);
+      }
+    }
+    
+    return traces;
+  }
+  
+  /**
+   * Walk a workflow graph without executing it. Delays are treated as
+   * elapsed and every loop item is traced.
+   */
+  private dryRunGraph(
+    workflow: Workflow,
+    context: Record<string, any>,
+    mockOutputs: Record<string, any>,
+    warnings: string[]
+  ): DryRunStepTrace[] {
+    const traces: DryRunStepTrace[] = [];
+    const steps = workflow.graph!.steps;
+    const state: GraphRunState = {
+      context: { ...context },
+      stepOutputs: {},
+      actionResults: [],
+      budget: { stepsRun: 0 }
+    };
+    
+    const walk = (startStepId: string | undefined, pathState: GraphRunState): boolean => {
+      let stepId = startStepId;
+      
+      while (stepId) {
+        if (++pathState.budget.stepsRun > MAX_GRAPH_STEPS) {
+          warnings.push(`Workflow exceeded ${MAX_GRAPH_STEPS} steps`);
+          return false;
+        }
+        
+        const step: WorkflowStep | undefined = steps[stepId];
+        
+        if (!step) {
+          warnings.push(`Workflow step not found: ${stepId}`);
+          return false;
+        }
+        
+        const scope = this.buildGraphScope(pathState);
+        const trace: DryRunStepTrace = {
+          stepId: step.id,
+          name: step.name,
+          stepType: step.type,
+          outcome: 'would_execute',
+          conditions: [],
+          ...(pathState.loop ? { iteration: pathState.loop.index } : {})
+        };
+        traces.push(trace);
+        
+        switch (step.type) {
+          case StepType.ACTION: {
+            const action = step.action!;
+            trace.actionType = action.type;
+            trace.conditions = (action.conditions || []).map(condition => this.traceCondition(condition, scope));
+            trace.nextStepId = step.next;
+            
+            if (!action.enabled || trace.conditions.some(condition => !condition.passed)) {
+              trace.outcome = 'skipped';
+              trace.note = action.enabled ? 'Action conditions not met' : 'Action is disabled';
+              break;
+            }
+            
+            trace.resolvedParameters = resolveTemplateValue(action.parameters || {}, scope);
+            
+            if (JSON.stringify(trace.resolvedParameters).includes('{{')) {
+              warnings.push(`Step ${step.id} has unresolved placeholders in its parameters`);
+            }
+            
+            if (!getActionHandler(action.type)) {
+              trace.outcome = 'error';
+              trace.note = `No handler found for action type: ${action.type}`;
+              trace.nextStepId = step.onError;
+              
+              if (!step.onError) {
+                return false;
+              }
+              
+              stepId = step.onError;
+              continue;
+            }
+            
+            if (step.id in mockOutputs) {
+              trace.simulatedOutput = mockOutputs[step.id];
+              pathState.stepOutputs[step.id] = { output: mockOutputs[step.id] };
+              pathState.context[action.type] = mockOutputs[step.id];
+            } else {
+              warnings.push(`No output available for step ${step.id}; later references to it resolve to nothing`);
+            }
+            break;
+          }
+          
+          case StepType.BRANCH: {
+            trace.conditions = (step.conditions || []).map(condition => this.traceCondition(condition, scope));
+            const matched = trace.conditions.every(condition => condition.passed);
+            trace.outcome = matched ? 'branch_true' : 'branch_false';
+            trace.nextStepId = matched ? step.onTrue : step.onFalse;
+            pathState.stepOutputs[step.id] = { output: { matched } };
+            stepId = trace.nextStepId;
+            continue;
+          }
+          
+          case StepType.DELAY: {
+            const resumeAt = this.computeResumeAt(step.delay, scope);
+            trace.nextStepId = step.next;
+            
+            if (!resumeAt) {
+              trace.outcome = 'error';
+              trace.note = 'Invalid delay';
+              return false;
+            }
+            
+            trace.outcome = 'would_wait';
+            trace.resumeAt = resumeAt;
+            trace.note = 'Delay treated as elapsed for the dry run';
+            pathState.stepOutputs[step.id] = { output: { resumeAt: resumeAt.toISOString() } };
+            break;
+          }
+          
+          case StepType.LOOP: {
+            const loop = step.loop!;
+            const items = resolveTemplateValue(loop.items, scope);
+            trace.outcome = 'loop';
+            trace.nextStepId = step.next;
+            
+            if (!Array.isArray(items)) {
+              trace.outcome = 'error';
+              trace.note = `Items ${loop.items} did not resolve to an array`;
+              return false;
+            }
+            
+            const iterationCount = Math.min(items.length, loop.maxIterations || DEFAULT_MAX_LOOP_ITERATIONS);
+            trace.note = `${iterationCount} of ${items.length} items would be processed`;
+            
+            for (let index = 0; index < iterationCount; index++) {
+              const iterationState: GraphRunState = {
+                ...pathState,
+                stepOutputs: {},
+                outerOutputs: { ...pathState.outerOutputs, ...pathState.stepOutputs },
+                loop: { item: items[index], index }
+              };
+              
+              if (!walk(loop.bodyStepId, iterationState)) {
+                return false;
+              }
+            }
+            break;
+          }
+          
+          default:
+            trace.outcome = 'error';
+            trace.note = `Unknown step type: ${(step as WorkflowStep).type}`;
+            return false;
+        }
+        
+        stepId = step.next;
+      }
+      
+      return true;
+    };
+    
+    walk(workflow.graph!.startStepId, state);
+    
+    return traces;
+  }
+  
   /**
    * Evaluate conditions against data
    * @param conditions Conditions to evaluate
@@ -382,84 +1379,122 @@ export class AutomationEngine {
     condition: Condition, 
     data: Record<string, any>
   ): boolean {
+    return this.traceCondition(condition, data).passed;
+  }
+  
+  /**
+   * Evaluate a single condition and explain the outcome
+   * @param condition Condition to evaluate
+   * @param data Data to check against
+   * @returns Condition trace
+   */
+  private traceCondition(
+    condition: Condition, 
+    data: Record<string, any>
+  ): ConditionTrace {
     const { field, operator, value, negate } = condition;
     
     // Extract field value using dot notation
     const fieldValue = this.getNestedValue(data, field);
+    const actual = describeValue(fieldValue);
+    const expected = describeValue(value);
     let result = false;
+    let reason: string;
     
     switch (operator) {
       case OperatorType.EQUALS:
         result = fieldValue === value;
+        reason = `${actual} ${result ? '===' : '!=='} ${expected}`;
         break;
         
       case OperatorType.NOT_EQUALS:
         result = fieldValue !== value;
+        reason = `${actual} ${result ? '!==' : '==='} ${expected}`;
         break;
         
       case OperatorType.CONTAINS:
-        if (typeof fieldValue === 'string') {
-          result = fieldValue.includes(value);
-        } else if (Array.isArray(fieldValue)) {
-          result = fieldValue.includes(value);
-        }
-        break;
-        
       case OperatorType.NOT_CONTAINS:
-        if (typeof fieldValue === 'string') {
-          result = !fieldValue.includes(value);
-        } else if (Array.isArray(fieldValue)) {
-          result = !fieldValue.includes(value);
+        if (typeof fieldValue === 'string' || Array.isArray(fieldValue)) {
+          const contains = fieldValue.includes(value);
+          result = operator === OperatorType.CONTAINS ? contains : !contains;
+          reason = `${actual} ${contains ? 'contains' : 'does not contain'} ${expected}`;
+        } else {
+          reason = `${actual} is not a string or array`;
         }
         break;
         
       case OperatorType.GREATER_THAN:
         result = fieldValue > value;
+        reason = `${actual} is ${result ? '' : 'not '}greater than ${expected}`;
         break;
         
       case OperatorType.LESS_THAN:
         result = fieldValue < value;
+        reason = `${actual} is ${result ? '' : 'not '}less than ${expected}`;
         break;
         
       case OperatorType.REGEX_MATCH:
         if (typeof fieldValue === 'string') {
-          const regex = new RegExp(value);
-          result = regex.test(fieldValue);
+          try {
+            const regex = new RegExp(value);
+            result = regex.test(fieldValue);
+            reason = `${actual} ${result ? 'matches' : 'does not match'} /${value}/`;
+          } catch (error) {
+            reason = `Invalid pattern ${expected}: ${(error as Error).message}`;
+          }
+        } else {
+          reason = `${actual} is not a string`;
         }
         break;
         
       case OperatorType.IN_LIST:
-        if (Array.isArray(value)) {
-          result = value.includes(fieldValue);
-        }
-        break;
-        
       case OperatorType.NOT_IN_LIST:
         if (Array.isArray(value)) {
-          result = !value.includes(fieldValue);
+          const inList = value.includes(fieldValue);
+          result = operator === OperatorType.IN_LIST ? inList : !inList;
+          reason = `${actual} is ${inList ? '' : 'not '}in ${expected}`;
+        } else {
+          reason = `Expected value ${expected} is not a list`;
         }
         break;
         
       case OperatorType.EXISTS:
         result = fieldValue !== undefined && fieldValue !== null;
+        reason = result ? `${field} exists (${actual})` : `${field} is ${actual}`;
         break;
         
       case OperatorType.NOT_EXISTS:
         result = fieldValue === undefined || fieldValue === null;
+        reason = result ? `${field} is ${actual}` : `${field} exists (${actual})`;
         break;
         
       case OperatorType.BETWEEN:
         if (Array.isArray(value) && value.length === 2) {
           result = fieldValue >= value[0] && fieldValue <= value[1];
+          reason = `${actual} is ${result ? '' : 'not '}between ${describeValue(value[0])} and ${describeValue(value[1])}`;
+        } else {
+          reason = `Expected value ${expected} is not a [min, max] pair`;
         }
         break;
         
       default:
         result = false;
+        reason = `Unknown operator: ${operator}`;
     }
     
     // Apply negation if needed
-    return negate ? !result : result;
+    const passed = negate ? !result : result;
+    
+    return {
+      conditionId: condition.id,
+      field,
+      operator,
+      expected: value,
+      actual: fieldValue,
+      negate: !!negate,
+      passed,
+      reason: negate ? `NOT (${reason})` : reason
+    };
   }
   
   /**
@@ -494,12 +1529,34 @@ export class AutomationEngine {
     }
   }
   
+  /**
+   * Get a workflow execution by ID
+   * @param executionId Execution ID
+   * @returns Execution or null if not found
+   */
+  async getExecution(executionId: string): Promise<WorkflowExecution | null> {
+    try {
+      const doc = await this.executionsCollection.doc(executionId).get();
+      
+      if (!doc.exists) {
+        return null;
+      }
+      
+      return doc.data() as WorkflowExecution;
+    } catch (error) {
+      logger.error('Error getting workflow execution', { error, executionId });
+      throw error;
+    }
+  }
+  
   /**
    * Create a new workflow
    * @param workflow Workflow data
    * @returns Created workflow
    */
   async createWorkflow(workflow: Workflow): Promise<Workflow> {
+    this.assertValidGraph(workflow);
+    
     try {
       await this.workflowsCollection.doc(workflow.id).set(workflow);
       return workflow;
@@ -532,6 +1589,8 @@ export class AutomationEngine {
         updatedAt: new Date()
       };
       
+      this.assertValidGraph(updatedWorkflow);
+      
       await this.workflowsCollection.doc(workflowId).update(updatedWorkflow);
       return updatedWorkflow;
     } catch (error) {
@@ -540,6 +1599,22 @@ export class AutomationEngine {
     }
   }
   
+  /**
+   * Reject workflows whose graph is malformed
+   * @param workflow Workflow to check
+   */
+  private assertValidGraph(workflow: Workflow): void {
+    if (!workflow.graph) {
+      return;
+    }
+    
+    const errors = validateWorkflowGraph(workflow.graph);
+    
+    if (errors.length > 0) {
+      throw new Error(`Invalid workflow graph: ${errors.join('; ')}`);
+    }
+  }
+  
   /**
    * Delete a workflow
    * @param workflowId Workflow ID
@@ -672,4 +1747,34 @@ export class AutomationEngine {
   }
 }
 
+/**
+ * Make a value safe to store in Firestore (drops undefined, flattens dates)
+ */
+function toStorable<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Format a value for a condition trace reason
+ */
+function describeValue(value: any): string {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'string') return `"${value}"`;
+  
+  try {
+    const json = JSON.stringify(value);
+    return json.length > 100 ? `${json.slice(0, 97)}...` : json;
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Convert a stored Firestore timestamp or date to a Date
+ */
+function toDate(value: any): Date | undefined {
+  if (!value) return undefined;
+  return value.toDate ? value.toDate() : new Date(value);
+}
+
 export default new AutomationEngine(); 
\ No newline at end of file
@@ -113,4 +113,25 @@ export abstract class BaseActionHandler implements ActionHandler {
     
     return true;
   }
+  
+  /**
+   * Interpolate template strings with values from context
+   * @param template Template string with {{variable}} placeholders
+   * @param context Context object with values
+   * @returns Interpolated string
+   */
+  protected interpolateTemplateString(
+    template: string,
+    context: Record<string, any>
+  ): string {
+    if (!template) return '';
+    
+    return template.replace(/\{\{([^}]+)\}\}/g, (match, key) => {
+      const value = key.trim().split('.').reduce((obj: any, part: any) => {
+        return obj && obj[part] !== undefined ? obj[part] : undefined;
+      }, context);
+      
+      return value !== undefined ? String(value) : match;
+    });
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,270 @@
+import { firestore } from '../../../core/firebase/admin';
+import { PlatformProvider, PlatformType } from '../../../features/platforms/PlatformProvider';
+import { PlatformProviderFactory } from '../../../features/platforms/providers/PlatformProviderFactory';
+import { PlatformPost } from '../../../features/platforms/models/content';
+import { createToolkit } from '../../../features/ai/toolkit';
+import { ActionType } from '../../models';
+
+/**
+ * Shared helpers for action handlers
+ */
+
+/**
+ * User and organization an action runs as
+ */
+export interface ActingUser {
+  userId: string;
+  organizationId?: string;
+}
+
+/**
+ * Get the acting user and organization from the execution context.
+ * Parameters may restate them but never switch to another user or organization.
+ * @param parameters Action parameters
+ * @param context Execution context
+ * @returns User and organization IDs
+ */
+export function getActingUser(
+  parameters: Record<string, any>,
+  context: Record<string, any>
+): ActingUser {
+  const userId: string | undefined = context.user?.id;
+  const organizationId: string | undefined = context.user?.organizationId;
+
+  if (!userId) {
+    throw new Error('No user available in the execution context');
+  }
+
+  if (
+    (parameters.userId && parameters.userId !== userId) ||
+    (parameters.organizationId && parameters.organizationId !== organizationId)
+  ) {
+    throw new Error('Actions can only act as the workflow\'s own user and organization');
+  }
+
+  return { userId, organizationId };
+}
+
+/**
+ * Check that a record belongs to the acting user or their organization
+ * @param record Record with its owner fields
+ * @param actingUser Acting user
+ * @param description Record description for the error message, e.g. "Connected account abc"
+ */
+export function assertOwnedByActingUser<T extends { userId?: string; organizationId?: string }>(
+  record: T | null | undefined,
+  actingUser: ActingUser,
+  description: string
+): asserts record is T {
+  const owned = !!record && (
+    record.userId === actingUser.userId ||
+    (!!actingUser.organizationId && record.organizationId === actingUser.organizationId)
+  );
+
+  // Records of other tenants are reported exactly like missing ones
+  if (!owned) {
+    throw new Error(`${description} not found`);
+  }
+}
+
+/**
+ * Resolve the text an action should operate on. An explicit `text`
+ * parameter wins, then the trigger's content, mention or message.
+ * @param text Already-interpolated text parameter
+ * @param context Execution context
+ * @returns Source text
+ */
+export function resolveSourceText(
+  text: string | undefined,
+  context: Record<string, any>
+): string {
+  const resolved = text ||
+    context.content?.body ||
+    context.content?.description ||
+    context.mention?.text ||
+    context.message?.content ||
+    '';
+
+  if (!resolved) {
+    throw new Error('No text found in parameters or execution context');
+  }
+
+  return resolved;
+}
+
+/**
+ * Build a platform post from action parameters. Post text falls back to
+ * content produced by an earlier generate/translate step.
+ * @param parameters Action parameters
+ * @param context Execution context
+ * @param interpolate Template interpolation function
+ * @returns Platform post
+ */
+export function buildPlatformPost(
+  parameters: Record<string, any>,
+  context: Record<string, any>,
+  interpolate: (template: string, context: Record<string, any>) => string
+): PlatformPost {
+  if (!parameters.platformType) {
+    throw new Error('Missing required parameter: platformType');
+  }
+
+  const content = interpolate(parameters.content || '', context) ||
+    context[ActionType.TRANSLATE_CONTENT]?.translation ||
+    context[ActionType.GENERATE_CONTENT]?.content;
+
+  if (!content) {
+    throw new Error('No post content in parameters or previous action results');
+  }
+
+  return {
+    platformType: parameters.platformType as PlatformType,
+    content,
+    title: parameters.title ? interpolate(parameters.title, context) : undefined,
+    attachments: parameters.attachments || [],
+    hashtags: parameters.hashtags || context[ActionType.GENERATE_TAGS]?.tags || [],
+    mentions: parameters.mentions || [],
+    links: parameters.links || [],
+    metadata: {
+      ...(parameters.metadata || {}),
+      fromAutomation: true,
+      workflowId: context.workflowId
+    }
+  };
+}
+
+/**
+ * Create a platform provider for one of the acting user's connected accounts
+ * @param accountId Connected account ID
+ * @param actingUser Acting user; the account must be theirs or their organization's
+ * @returns Provider and the account's platform type
+ */
+export async function getAccountProvider(
+  accountId: string,
+  actingUser: ActingUser
+): Promise<{ provider: PlatformProvider; platformType: PlatformType }> {
+  const accountDoc = await firestore.collection('connectedAccounts').doc(accountId).get();
+  const account = accountDoc.exists ? accountDoc.data() : null;
+
+  assertOwnedByActingUser(account, actingUser, `Connected account ${accountId}`);
+
+  if (!account.isActive) {
+    throw new Error(`Connected account is not active: ${accountId}`);
+  }
+
+  const platformType = account.platformType as PlatformType;
+  const envPrefix = platformType.toUpperCase();
+
+  const provider = PlatformProviderFactory.getProvider(
+    platformType,
+    {
+      clientId: process.env[`${envPrefix}_CLIENT_ID`] || '',
+      clientSecret: process.env[`${envPrefix}_CLIENT_SECRET`] || '',
+      redirectUri: process.env.NEXT_PUBLIC_BASE_URL + `/api/platforms/callback/${platformType}`
+    },
+    {
+      accessToken: account.accessToken,
+      refreshToken: account.refreshToken,
+      expiresAt: account.expiresAt?.toDate?.() || account.expiresAt,
+      scope: account.scope || []
+    }
+  );
+
+  return { provider, platformType };
+}
+
+/**
+ * Provider that can like posts
+ */
+export interface LikeCapableProvider {
+  likePost(postId: string): Promise<unknown>;
+}
+
+/**
+ * Provider that can retweet posts
+ */
+export interface RetweetCapableProvider {
+  retweetPost(postId: string): Promise<unknown>;
+}
+
+/**
+ * Provider that can repost posts
+ */
+export interface RepostCapableProvider {
+  repostPost(postId: string): Promise<unknown>;
+}
+
+/**
+ * Provider that can follow accounts
+ */
+export interface FollowCapableProvider {
+  followUser(userId: string): Promise<unknown>;
+}
+
+/**
+ * Provider that can send direct messages
+ */
+export interface DirectMessageCapableProvider {
+  sendDirectMessage(recipientId: string, message: string): Promise<{ id?: string }>;
+}
+
+// Engagement operations are not part of PlatformProvider, so support varies per platform
+function hasMethod(provider: PlatformProvider, method: string): boolean {
+  return typeof Reflect.get(provider, method) === 'function';
+}
+
+export function canLike(provider: PlatformProvider): provider is PlatformProvider & LikeCapableProvider {
+  return hasMethod(provider, 'likePost');
+}
+
+export function canRetweet(provider: PlatformProvider): provider is PlatformProvider & RetweetCapableProvider {
+  return hasMethod(provider, 'retweetPost');
+}
+
+export function canRepost(provider: PlatformProvider): provider is PlatformProvider & RepostCapableProvider {
+  return hasMethod(provider, 'repostPost');
+}
+
+export function canFollow(provider: PlatformProvider): provider is PlatformProvider & FollowCapableProvider {
+  return hasMethod(provider, 'followUser');
+}
+
+export function canSendDirectMessage(provider: PlatformProvider): provider is PlatformProvider & DirectMessageCapableProvider {
+  return hasMethod(provider, 'sendDirectMessage');
+}
+
+/**
+ * Error for an engagement operation a platform does not support
+ * @param operation Operation description, e.g. "Liking posts"
+ * @param platformType Platform type
+ */
+export function unsupportedOperation(operation: string, platformType: PlatformType): Error {
+  return new Error(`${operation} is not supported on ${platformType}`);
+}
+
+/**
+ * Create an AI toolkit for the acting user
+ * @param userId User ID
+ * @param organizationId Organization ID
+ * @returns AI toolkit
+ */
+export async function getToolkit(userId: string, organizationId?: string) {
+  return createToolkit(userId, organizationId);
+}
+
+/**
+ * Unwrap an AI toolkit result, throwing on failure
+ * @param result Toolkit task result
+ * @param operation Operation name for the error message
+ * @returns Result data
+ */
+export function unwrapToolkitResult<T>(
+  result: { success: boolean; data?: T; error?: string },
+  operation: string
+): T {
+  if (!result.success || result.data === undefined) {
+    throw new Error(`${operation} failed: ${result.error || 'no result returned'}`);
+  }
+
+  return result.data;
+}
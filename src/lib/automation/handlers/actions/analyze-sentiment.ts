@@ -1,28 +1,42 @@
-// Analyze Sentiment Action Handler
-import { AutomationAction } from '../../types';
+import { BaseActionHandler } from '../../handlers';
+import { getActingUser, getToolkit, resolveSourceText, unwrapToolkitResult } from './action-utils';
 import logger from '../../../../lib/logging/logger';
 
-export interface AnalyzeSentimentData {
-  text: string;
-  postId?: string;
-  userId: string;
-}
-
-export async function handleAnalyzeSentiment(
-  action: AutomationAction,
-  data: AnalyzeSentimentData
-): Promise<{ sentiment: string; score: number } | null> {
-  try {
-    logger.info('Analyze sentiment action', { action, data });
-    // Implement sentiment analysis logic here
+/**
+ * Action handler for AI sentiment analysis
+ */
+export default class AnalyzeSentimentAction extends BaseActionHandler {
+  /**
+   * Execute the sentiment analysis action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Sentiment, score and confidence
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const { userId, organizationId } = getActingUser(parameters, context);
+    const text = resolveSourceText(
+      this.interpolateTemplateString(this.getParameter<string>(parameters, 'text', ''), context),
+      context
+    );
+    
+    const toolkit = await getToolkit(userId, organizationId);
+    const analysis = unwrapToolkitResult(
+      await toolkit.analysis.analyzeSentiment(text, { userId, organizationId }),
+      'Sentiment analysis'
+    );
+    
+    logger.info('Analyzed sentiment via automation', {
+      sentiment: analysis.sentiment,
+      workflowId: context.workflowId
+    });
+    
     return {
-      sentiment: 'neutral',
-      score: 0.5
+      sentiment: analysis.sentiment,
+      score: analysis.score,
+      confidence: analysis.confidence
     };
-  } catch (error) {
-    logger.error('Error handling analyze sentiment action', { error });
-    return null;
   }
 }
-
-export default handleAnalyzeSentiment;
@@ -0,0 +1,64 @@
+import { BaseActionHandler } from '../../handlers';
+import calendarService from '../../../features/content/CalendarService';
+import socialInboxService from '../../../features/content/SocialInboxService';
+import { assertOwnedByActingUser, getActingUser, getToolkit, resolveSourceText, unwrapToolkitResult } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for AI categorization of content or inbox messages
+ */
+export default class CategorizeContentAction extends BaseActionHandler {
+  /**
+   * Execute the categorize content action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Primary category and alternatives
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const actingUser = getActingUser(parameters, context);
+    const { userId, organizationId } = actingUser;
+    const text = resolveSourceText(
+      this.interpolateTemplateString(this.getParameter<string>(parameters, 'text', ''), context),
+      context
+    );
+    
+    const toolkit = await getToolkit(userId, organizationId);
+    const analysis = unwrapToolkitResult(
+      await toolkit.analysis.categorizeContent(text, { userId, organizationId }),
+      'Categorization'
+    );
+    
+    // Optionally persist the category on the source record
+    if (this.getParameter<boolean>(parameters, 'apply', true)) {
+      const contentId = this.getParameter<string>(parameters, 'contentId', context.content?.id);
+      const messageId = this.getParameter<string>(parameters, 'messageId', context.message?.id);
+      
+      if (contentId) {
+        const content = await calendarService.getContent(contentId);
+        assertOwnedByActingUser(content, actingUser, `Content ${contentId}`);
+        await calendarService.updateContent(contentId, {
+          metadata: { ...(content.metadata || {}), category: analysis.primaryCategory }
+        });
+      } else if (messageId) {
+        const message = await socialInboxService.getMessage(messageId);
+        assertOwnedByActingUser(message, actingUser, `Message ${messageId}`);
+        const labels = Array.from(new Set([...(message.labels || []), analysis.primaryCategory]));
+        await socialInboxService.updateLabels(messageId, labels);
+      }
+    }
+    
+    logger.info('Categorized content via automation', {
+      category: analysis.primaryCategory,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      category: analysis.primaryCategory,
+      confidence: analysis.confidence,
+      categories: analysis.categories
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { BaseActionHandler } from '../../handlers';
+import calendarService, { PostStatus } from '../../../features/content/CalendarService';
+import { ActionType } from '../../models';
+import { getActingUser } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for creating a draft content item
+ */
+export default class CreateContentAction extends BaseActionHandler {
+  /**
+   * Execute the create content action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Created content details
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const { userId, organizationId } = getActingUser(parameters, context);
+    
+    // Fall back to content generated by an earlier step
+    const body = this.interpolateTemplateString(this.getParameter<string>(parameters, 'content', ''), context) ||
+      context[ActionType.GENERATE_CONTENT]?.content;
+    
+    if (!body) {
+      throw new Error('No content in parameters or previous action results');
+    }
+    
+    const created = await calendarService.createContent({
+      userId,
+      organizationId,
+      title: this.interpolateTemplateString(this.getParameter<string>(parameters, 'title', 'Automated draft'), context),
+      content: body,
+      platformTargets: this.getParameter<any[]>(parameters, 'platformTargets', []),
+      attachments: [],
+      status: PostStatus.DRAFT,
+      tags: this.getParameter<string[]>(parameters, 'tags', []),
+      hashtags: context[ActionType.GENERATE_TAGS]?.tags,
+      isRecurring: false,
+      metadata: {
+        fromAutomation: true,
+        workflowId: context.workflowId
+      }
+    });
+    
+    logger.info('Created content via automation', {
+      contentId: created.id,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      contentId: created.id,
+      title: created.title,
+      status: created.status
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { BaseActionHandler } from '../../handlers';
+import { firestore } from '../../../core/firebase/admin';
+import { getActingUser } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for creating a follow-up task for the team
+ */
+export default class CreateTaskAction extends BaseActionHandler {
+  /**
+   * Execute the create task action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Created task details
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    if (!this.validateParameters(parameters, ['title'])) {
+      throw new Error('Missing required parameters for CreateTaskAction');
+    }
+    
+    const { userId, organizationId } = getActingUser(parameters, context);
+    const dueInHours = this.getParameter<number>(parameters, 'dueInHours', 24);
+    
+    const taskRef = firestore.collection('tasks').doc();
+    const task = {
+      type: this.getParameter<string>(parameters, 'taskType', 'automation'),
+      status: 'pending',
+      priority: this.getParameter<string>(parameters, 'priority', 'medium'),
+      title: this.interpolateTemplateString(parameters.title, context),
+      description: this.interpolateTemplateString(this.getParameter<string>(parameters, 'description', ''), context),
+      assignedTo: this.getParameter<string>(parameters, 'assignedTo', 'unassigned'),
+      deadline: new Date(Date.now() + dueInHours * 60 * 60 * 1000),
+      createdAt: new Date(),
+      metadata: {
+        createdBy: userId,
+        organizationId,
+        workflowId: context.workflowId,
+        fromAutomation: true
+      }
+    };
+    
+    await taskRef.set(task);
+    
+    logger.info('Created task via automation', {
+      taskId: taskRef.id,
+      assignedTo: task.assignedTo,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      taskId: taskRef.id,
+      assignedTo: task.assignedTo,
+      deadline: task.deadline.toISOString()
+    };
+  }
+}
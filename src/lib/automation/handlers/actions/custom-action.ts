@@ -0,0 +1,43 @@
+import { BaseActionHandler } from '../../handlers';
+import { getActionHandler } from '../../registry';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Prefix for custom handlers registered with registerActionHandler
+ */
+export const CUSTOM_ACTION_PREFIX = 'custom:';
+
+/**
+ * Action handler that dispatches to a custom handler registered as
+ * `custom:<handlerName>` in the action registry
+ */
+export default class CustomAction extends BaseActionHandler {
+  /**
+   * Execute the custom action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Result of the custom handler
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    if (!this.validateParameters(parameters, ['handlerName'])) {
+      throw new Error('Missing required parameters for CustomAction');
+    }
+    
+    const handlerName = this.getParameter<string>(parameters, 'handlerName', '');
+    const handler = getActionHandler(`${CUSTOM_ACTION_PREFIX}${handlerName}`);
+    
+    if (!handler) {
+      throw new Error(`No custom action handler registered for: ${handlerName}`);
+    }
+    
+    logger.debug('Dispatching custom automation action', {
+      handlerName,
+      workflowId: context.workflowId
+    });
+    
+    return handler.execute(this.getParameter<Record<string, any>>(parameters, 'options', {}), context);
+  }
+}
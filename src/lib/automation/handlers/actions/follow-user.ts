@@ -0,0 +1,48 @@
+import { BaseActionHandler } from '../../handlers';
+import { canFollow, getAccountProvider, getActingUser, unsupportedOperation } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for following a user from a connected account
+ */
+export default class FollowUserAction extends BaseActionHandler {
+  /**
+   * Execute the follow user action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Action result
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const accountId = this.getParameter<string>(parameters, 'accountId', context.message?.accountId);
+    const platformUserId = this.getParameter<string>(parameters, 'platformUserId', context.message?.sender?.id);
+    
+    if (!accountId || !platformUserId) {
+      throw new Error('Missing required parameters for FollowUserAction');
+    }
+    
+    const { provider, platformType } = await getAccountProvider(accountId, getActingUser(parameters, context));
+    
+    if (!canFollow(provider)) {
+      throw unsupportedOperation('Following accounts', platformType);
+    }
+    
+    const result = await provider.followUser(platformUserId);
+    
+    logger.info('Followed user via automation', {
+      accountId,
+      platformType,
+      platformUserId,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      accountId,
+      platformType,
+      platformUserId,
+      success: result !== false
+    };
+  }
+}
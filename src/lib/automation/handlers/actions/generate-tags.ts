@@ -0,0 +1,42 @@
+import { BaseActionHandler } from '../../handlers';
+import { getActingUser, getToolkit, resolveSourceText, unwrapToolkitResult } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for AI hashtag/tag generation
+ */
+export default class GenerateTagsAction extends BaseActionHandler {
+  /**
+   * Execute the generate tags action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Generated tags
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const { userId, organizationId } = getActingUser(parameters, context);
+    const text = resolveSourceText(
+      this.interpolateTemplateString(this.getParameter<string>(parameters, 'text', ''), context),
+      context
+    );
+    const platform = this.getParameter<string>(parameters, 'platform', context.mention?.platform || 'general');
+    const count = this.getParameter<number>(parameters, 'count', 5);
+    
+    const toolkit = await getToolkit(userId, organizationId);
+    const hashtags = unwrapToolkitResult(
+      await toolkit.content.generateHashtags(text, platform, count, { userId, organizationId }),
+      'Tag generation'
+    );
+    
+    const tags = hashtags.map(tag => tag.replace(/^#/, '').trim()).filter(Boolean);
+    
+    logger.info('Generated tags via automation', {
+      count: tags.length,
+      workflowId: context.workflowId
+    });
+    
+    return { tags };
+  }
+}
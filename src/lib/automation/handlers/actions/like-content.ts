@@ -0,0 +1,48 @@
+import { BaseActionHandler } from '../../handlers';
+import { canLike, getAccountProvider, getActingUser, unsupportedOperation } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for liking a post from a connected account
+ */
+export default class LikeContentAction extends BaseActionHandler {
+  /**
+   * Execute the like content action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Action result
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const accountId = this.getParameter<string>(parameters, 'accountId', context.message?.accountId);
+    const postId = this.getParameter<string>(parameters, 'postId', context.mention?.postId || context.message?.platformPostId);
+    
+    if (!accountId || !postId) {
+      throw new Error('Missing required parameters for LikeContentAction');
+    }
+    
+    const { provider, platformType } = await getAccountProvider(accountId, getActingUser(parameters, context));
+    
+    if (!canLike(provider)) {
+      throw unsupportedOperation('Liking posts', platformType);
+    }
+    
+    const result = await provider.likePost(postId);
+    
+    logger.info('Liked post via automation', {
+      accountId,
+      platformType,
+      postId,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      accountId,
+      platformType,
+      postId,
+      success: result !== false
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { BaseActionHandler } from '../../handlers';
+import { firestore } from '../../../core/firebase/admin';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for recording a custom event in the automation event log
+ */
+export default class LogEventAction extends BaseActionHandler {
+  /**
+   * Execute the log event action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Logged event details
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    if (!this.validateParameters(parameters, ['eventName'])) {
+      throw new Error('Missing required parameters for LogEventAction');
+    }
+    
+    const eventRef = firestore.collection('automationEventLogs').doc();
+    const event = {
+      eventName: this.interpolateTemplateString(parameters.eventName, context),
+      message: this.interpolateTemplateString(this.getParameter<string>(parameters, 'message', ''), context),
+      level: this.getParameter<string>(parameters, 'level', 'info'),
+      workflowId: context.workflowId || null,
+      userId: context.user?.id || null,
+      organizationId: context.user?.organizationId || null,
+      data: this.getParameter<Record<string, any>>(parameters, 'data', {}),
+      createdAt: new Date()
+    };
+    
+    await eventRef.set(event);
+    
+    logger.info('Logged automation event', {
+      eventId: eventRef.id,
+      eventName: event.eventName,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      eventId: eventRef.id,
+      eventName: event.eventName
+    };
+  }
+}
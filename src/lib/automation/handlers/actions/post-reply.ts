@@ -0,0 +1,57 @@
+import { BaseActionHandler } from '../../handlers';
+import socialInboxService from '../../../features/content/SocialInboxService';
+import { ActionType } from '../../models';
+import { assertOwnedByActingUser, getActingUser } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for replying to an inbox message, comment or mention
+ */
+export default class PostReplyAction extends BaseActionHandler {
+  /**
+   * Execute the post reply action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Reply details
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const actingUser = getActingUser(parameters, context);
+    const messageId = this.getParameter<string>(
+      parameters,
+      'messageId',
+      context.message?.id || context.mention?.id
+    );
+    
+    if (!messageId) {
+      throw new Error('Missing required parameters for PostReplyAction');
+    }
+    
+    // Fall back to a reply drafted by an earlier generate step
+    const content = this.interpolateTemplateString(this.getParameter<string>(parameters, 'content', ''), context) ||
+      context[ActionType.GENERATE_CONTENT]?.content;
+    
+    if (!content) {
+      throw new Error('No reply content in parameters or previous action results');
+    }
+    
+    assertOwnedByActingUser(await socialInboxService.getMessage(messageId), actingUser, `Message ${messageId}`);
+    
+    const reply = await socialInboxService.replyToMessage(messageId, content, actingUser.userId);
+    
+    logger.info('Posted reply via automation', {
+      messageId,
+      replyId: reply.id,
+      platformType: reply.platformType,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      messageId,
+      replyId: reply.id,
+      platformType: reply.platformType
+    };
+  }
+}
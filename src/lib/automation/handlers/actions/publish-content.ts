@@ -0,0 +1,74 @@
+import { BaseActionHandler } from '../../handlers';
+import { scheduledPostService } from '../../../features/scheduling/ScheduledPostService';
+import { publishProcessor } from '../../../features/scheduling/PublishProcessor';
+import { buildPlatformPost, getActingUser } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for publishing a post immediately. The post goes through
+ * the publish queue so leases, idempotency and retries still apply. A failed
+ * attempt is reported as queued rather than thrown: the queue owns the retry,
+ * and an engine retry would create and publish a second post.
+ */
+export default class PublishContentAction extends BaseActionHandler {
+  /**
+   * Execute the publish content action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Publish outcome
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const { userId, organizationId } = getActingUser(parameters, context);
+    const post = buildPlatformPost(parameters, context, this.interpolateTemplateString.bind(this));
+    
+    const scheduledPostId = await scheduledPostService.createScheduledPost(
+      userId,
+      organizationId || '',
+      post,
+      {
+        publishAt: new Date(),
+        timezone: 'UTC'
+      },
+      {
+        notes: `Published by automation workflow ${context.workflowId || ''}`.trim()
+      }
+    );
+    
+    const outcome = await publishProcessor.publishNow(scheduledPostId);
+    
+    if (outcome === 'failed') {
+      // The queue retries the post according to its backoff policy
+      logger.warn('Automation publish failed; left to the publish queue to retry', {
+        scheduledPostId,
+        platformType: post.platformType,
+        workflowId: context.workflowId
+      });
+      
+      return {
+        scheduledPostId,
+        status: 'queued',
+        platformType: post.platformType
+      };
+    }
+    
+    const scheduledPost = await scheduledPostService.getScheduledPost(scheduledPostId);
+    
+    logger.info('Published content via automation', {
+      scheduledPostId,
+      outcome,
+      platformType: post.platformType,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      scheduledPostId,
+      status: outcome,
+      platformType: post.platformType,
+      platformPostId: scheduledPost?.platformPostIds?.[post.platformType],
+      url: scheduledPost?.publishUrls?.[post.platformType]
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { BaseActionHandler } from '../../handlers';
+import { scheduledPostService } from '../../../features/scheduling/ScheduledPostService';
+import { buildPlatformPost, getActingUser } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for scheduling a post through the scheduled post queue
+ */
+export default class ScheduleContentAction extends BaseActionHandler {
+  /**
+   * Execute the schedule content action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Scheduled post details
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const { userId, organizationId } = getActingUser(parameters, context);
+    const post = buildPlatformPost(parameters, context, this.interpolateTemplateString.bind(this));
+    const publishAt = this.resolvePublishTime(parameters);
+    
+    const scheduledPostId = await scheduledPostService.createScheduledPost(
+      userId,
+      organizationId || '',
+      post,
+      {
+        publishAt,
+        timezone: this.getParameter<string>(parameters, 'timezone', 'UTC')
+      },
+      {
+        tags: this.getParameter<string[]>(parameters, 'tags', []),
+        notes: `Scheduled by automation workflow ${context.workflowId || ''}`.trim()
+      }
+    );
+    
+    logger.info('Scheduled content via automation', {
+      scheduledPostId,
+      platformType: post.platformType,
+      publishAt,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      scheduledPostId,
+      platformType: post.platformType,
+      publishAt: publishAt.toISOString()
+    };
+  }
+  
+  /**
+   * Resolve the publish time from an absolute `publishAt` or a relative `delayMinutes`
+   * @param parameters Action parameters
+   * @returns Publish time
+   */
+  private resolvePublishTime(parameters: Record<string, any>): Date {
+    if (parameters.publishAt) {
+      const publishAt = new Date(parameters.publishAt);
+      if (isNaN(publishAt.getTime())) {
+        throw new Error(`Invalid publishAt: ${parameters.publishAt}`);
+      }
+      return publishAt;
+    }
+    
+    const delayMinutes = this.getParameter<number>(parameters, 'delayMinutes', 0);
+    return new Date(Date.now() + delayMinutes * 60 * 1000);
+  }
+}
@@ -1,26 +1,56 @@
-// Send Email Action Handler
-import { AutomationAction } from '../../types';
+import { BaseActionHandler } from '../../handlers';
+import unifiedEmailService from '../../../core/notifications/unified-email-service';
 import logger from '../../../../lib/logging/logger';
 
-export interface SendEmailData {
-  to: string;
-  subject: string;
-  body: string;
-  userId: string;
-}
-
-export async function handleSendEmail(
-  action: AutomationAction,
-  data: SendEmailData
-): Promise<boolean> {
-  try {
-    logger.info('Send email action', { action, data });
-    // Implement email sending logic here
-    return true;
-  } catch (error) {
-    logger.error('Error handling send email action', { error });
-    return false;
+/**
+ * Action handler for sending emails
+ */
+export default class SendEmailAction extends BaseActionHandler {
+  /**
+   * Execute the send email action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Action result
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    if (!this.validateParameters(parameters, ['to', 'subject'])) {
+      throw new Error('Missing required parameters for SendEmailAction');
+    }
+    
+    const to = this.getParameter<string | string[]>(parameters, 'to', '');
+    const subject = this.interpolateTemplateString(this.getParameter<string>(parameters, 'subject', ''), context);
+    const body = this.interpolateTemplateString(this.getParameter<string>(parameters, 'body', ''), context);
+    const html = this.getParameter<string>(parameters, 'html', '');
+    
+    const recipients = (Array.isArray(to) ? to : [to])
+      .map(recipient => this.interpolateTemplateString(recipient, context));
+    
+    const result = await unifiedEmailService.sendEmail({
+      to: recipients,
+      subject,
+      htmlContent: html ? this.interpolateTemplateString(html, context) : body.replace(/\n/g, '<br>'),
+      textContent: body,
+      category: 'automation',
+      tags: ['automation', context.workflowId].filter(Boolean)
+    });
+    
+    if (!result.success) {
+      throw new Error(`Failed to send email: ${result.error || 'unknown error'}`);
+    }
+    
+    logger.info('Sent email from automation', {
+      recipients: recipients.length,
+      messageId: result.messageId,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      messageId: result.messageId,
+      provider: result.provider,
+      recipients
+    };
   }
 }
-
-export default handleSendEmail;
@@ -0,0 +1,51 @@
+import { BaseActionHandler } from '../../handlers';
+import { ActionType } from '../../models';
+import { canSendDirectMessage, getAccountProvider, getActingUser, unsupportedOperation } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for sending a direct message from a connected account
+ */
+export default class SendMessageAction extends BaseActionHandler {
+  /**
+   * Execute the send message action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Sent message details
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const accountId = this.getParameter<string>(parameters, 'accountId', context.message?.accountId);
+    const recipientId = this.getParameter<string>(parameters, 'recipientId', context.message?.sender?.id);
+    const message = this.interpolateTemplateString(this.getParameter<string>(parameters, 'message', ''), context) ||
+      context[ActionType.GENERATE_CONTENT]?.content;
+    
+    if (!accountId || !recipientId || !message) {
+      throw new Error('Missing required parameters for SendMessageAction');
+    }
+    
+    const { provider, platformType } = await getAccountProvider(accountId, getActingUser(parameters, context));
+    
+    if (!canSendDirectMessage(provider)) {
+      throw unsupportedOperation('Sending direct messages', platformType);
+    }
+    
+    const result = await provider.sendDirectMessage(recipientId, message);
+    
+    logger.info('Sent direct message via automation', {
+      accountId,
+      platformType,
+      recipientId,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      accountId,
+      platformType,
+      recipientId,
+      messageId: result?.id
+    };
+  }
+}
@@ -71,25 +71,4 @@ export default class SendNotificationAction extends BaseActionHandler {
       throw new Error(`Failed to send notification: ${(error as Error).message}`);
     }
   }
-  
-  /**
-   * Interpolate template strings with values from context
-   * @param template Template string with {{variable}} placeholders
-   * @param context Context object with values
-   * @returns Interpolated string
-   */
-  private interpolateTemplateString(
-    template: string,
-    context: Record<string, any>
-  ): string {
-    if (!template) return '';
-    
-    return template.replace(/\{\{([^}]+)\}\}/g, (match, key) => {
-      const value = key.split('.').reduce((obj: any, part: any) => {
-        return obj && obj[part] !== undefined ? obj[part] : undefined;
-      }, context);
-      
-      return value !== undefined ? String(value) : match;
-    });
-  }
 } 
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { BaseActionHandler } from '../../handlers';
+import { WebhookService, WebhookEventType } from '../../../webhooks/WebhookService';
+import { getActingUser } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for delivering a payload to a registered webhook
+ */
+export default class SendWebhookAction extends BaseActionHandler {
+  private webhookService = new WebhookService();
+  
+  /**
+   * Execute the send webhook action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Delivery attempt details
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    if (!this.validateParameters(parameters, ['webhookId', 'payload'])) {
+      throw new Error('Missing required parameters for SendWebhookAction');
+    }
+    
+    const { organizationId } = getActingUser(parameters, context);
+    
+    if (!organizationId) {
+      throw new Error('Webhooks can only be sent from workflows in an organization');
+    }
+    
+    const webhookId = this.getParameter<string>(parameters, 'webhookId', '');
+    const payloadTemplate = this.getParameter<Record<string, any> | null>(parameters, 'payload', null);
+    
+    // Only what the workflow spells out is sent, never the raw execution context
+    if (!payloadTemplate || typeof payloadTemplate !== 'object' || Array.isArray(payloadTemplate)) {
+      throw new Error('SendWebhookAction payload must be an object');
+    }
+    
+    const { deliveryAttemptId, success } = await this.webhookService.sendToWebhook(
+      webhookId,
+      organizationId,
+      WebhookEventType.AUTOMATION_TRIGGERED,
+      {
+        workflowId: context.workflowId,
+        trigger: context.trigger,
+        data: this.interpolatePayload(payloadTemplate, context)
+      }
+    );
+    
+    if (!success) {
+      throw new Error(`Webhook delivery failed (attempt ${deliveryAttemptId})`);
+    }
+    
+    logger.info('Sent webhook from automation', {
+      webhookId,
+      deliveryAttemptId,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      webhookId,
+      deliveryAttemptId
+    };
+  }
+  
+  /**
+   * Interpolate every string value in a payload template
+   * @param value Payload template value
+   * @param context Execution context
+   * @returns Interpolated payload
+   */
+  private interpolatePayload(value: any, context: Record<string, any>): any {
+    if (typeof value === 'string') {
+      return this.interpolateTemplateString(value, context);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.interpolatePayload(item, context));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.interpolatePayload(item, context)])
+      );
+    }
+    return value;
+  }
+}
@@ -0,0 +1,51 @@
+import { BaseActionHandler } from '../../handlers';
+import { canRepost, canRetweet, getAccountProvider, getActingUser, unsupportedOperation } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for sharing (reposting) a post from a connected account
+ */
+export default class ShareContentAction extends BaseActionHandler {
+  /**
+   * Execute the share content action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Action result
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const accountId = this.getParameter<string>(parameters, 'accountId', context.message?.accountId);
+    const postId = this.getParameter<string>(parameters, 'postId', context.mention?.postId || context.message?.platformPostId);
+    
+    if (!accountId || !postId) {
+      throw new Error('Missing required parameters for ShareContentAction');
+    }
+    
+    const { provider, platformType } = await getAccountProvider(accountId, getActingUser(parameters, context));
+    
+    let result: unknown;
+    if (canRetweet(provider)) {
+      result = await provider.retweetPost(postId);
+    } else if (canRepost(provider)) {
+      result = await provider.repostPost(postId);
+    } else {
+      throw unsupportedOperation('Sharing posts', platformType);
+    }
+    
+    logger.info('Shared post via automation', {
+      accountId,
+      platformType,
+      postId,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      accountId,
+      platformType,
+      postId,
+      success: result !== false
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { BaseActionHandler } from '../../handlers';
+import { getActingUser, getToolkit, resolveSourceText, unwrapToolkitResult } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for AI summarization
+ */
+export default class SummarizeContentAction extends BaseActionHandler {
+  /**
+   * Execute the summarize content action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Summary text
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const { userId, organizationId } = getActingUser(parameters, context);
+    const text = resolveSourceText(
+      this.interpolateTemplateString(this.getParameter<string>(parameters, 'text', ''), context),
+      context
+    );
+    const maxSentences = this.getParameter<number>(parameters, 'maxSentences', 3);
+    
+    const toolkit = await getToolkit(userId, organizationId);
+    const summary = unwrapToolkitResult(
+      await toolkit.content.improveContent(
+        text,
+        `Summarize this text in at most ${maxSentences} sentences. Return only the summary.`,
+        { userId, organizationId }
+      ),
+      'Summarization'
+    );
+    
+    logger.info('Summarized content via automation', {
+      sourceLength: text.length,
+      summaryLength: summary.length,
+      workflowId: context.workflowId
+    });
+    
+    return { summary };
+  }
+}
@@ -0,0 +1,61 @@
+import { BaseActionHandler } from '../../handlers';
+import calendarService from '../../../features/content/CalendarService';
+import socialInboxService from '../../../features/content/SocialInboxService';
+import { ActionType } from '../../models';
+import { assertOwnedByActingUser, getActingUser } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for adding tags to a content item, or labels to an inbox message
+ */
+export default class TagContentAction extends BaseActionHandler {
+  /**
+   * Execute the tag content action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Applied tags
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    // Fall back to tags produced by an earlier generate-tags step
+    const tags = this.getParameter<string[]>(parameters, 'tags', context[ActionType.GENERATE_TAGS]?.tags || [])
+      .map(tag => this.interpolateTemplateString(tag, context))
+      .filter(Boolean);
+    
+    if (tags.length === 0) {
+      throw new Error('No tags in parameters or previous action results');
+    }
+    
+    const actingUser = getActingUser(parameters, context);
+    const messageId = this.getParameter<string>(parameters, 'messageId', context.message?.id);
+    const contentId = this.getParameter<string>(parameters, 'contentId', context.content?.id);
+    
+    if (contentId) {
+      const content = await calendarService.getContent(contentId);
+      assertOwnedByActingUser(content, actingUser, `Content ${contentId}`);
+      
+      const merged = Array.from(new Set([...(content.tags || []), ...tags]));
+      await calendarService.updateContent(contentId, { tags: merged });
+      
+      logger.info('Tagged content via automation', { contentId, tags, workflowId: context.workflowId });
+      
+      return { target: 'content', contentId, tags: merged };
+    }
+    
+    if (messageId) {
+      const message = await socialInboxService.getMessage(messageId);
+      assertOwnedByActingUser(message, actingUser, `Message ${messageId}`);
+      
+      const merged = Array.from(new Set([...(message.labels || []), ...tags]));
+      await socialInboxService.updateLabels(messageId, merged);
+      
+      logger.info('Labelled inbox message via automation', { messageId, tags, workflowId: context.workflowId });
+      
+      return { target: 'message', messageId, tags: merged };
+    }
+    
+    throw new Error('Missing required parameters for TagContentAction');
+  }
+}
@@ -0,0 +1,50 @@
+import { BaseActionHandler } from '../../handlers';
+import { getActingUser, getToolkit, resolveSourceText, unwrapToolkitResult } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for AI translation
+ */
+export default class TranslateContentAction extends BaseActionHandler {
+  /**
+   * Execute the translate content action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Translated text
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    if (!this.validateParameters(parameters, ['targetLanguage'])) {
+      throw new Error('Missing required parameters for TranslateContentAction');
+    }
+    
+    const { userId, organizationId } = getActingUser(parameters, context);
+    const text = resolveSourceText(
+      this.interpolateTemplateString(this.getParameter<string>(parameters, 'text', ''), context),
+      context
+    );
+    const targetLanguage = this.getParameter<string>(parameters, 'targetLanguage', '');
+    
+    const toolkit = await getToolkit(userId, organizationId);
+    const translation = unwrapToolkitResult(
+      await toolkit.content.improveContent(
+        text,
+        `Translate this text into ${targetLanguage}. Keep hashtags, mentions and URLs unchanged. Return only the translation.`,
+        { userId, organizationId }
+      ),
+      'Translation'
+    );
+    
+    logger.info('Translated content via automation', {
+      targetLanguage,
+      workflowId: context.workflowId
+    });
+    
+    return {
+      translation,
+      targetLanguage
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { BaseActionHandler } from '../../handlers';
+import calendarService from '../../../features/content/CalendarService';
+import { assertOwnedByActingUser, getActingUser } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for updating an existing content item
+ */
+export default class UpdateContentAction extends BaseActionHandler {
+  /**
+   * Execute the update content action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Updated content details
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const contentId = this.getParameter<string>(parameters, 'contentId', context.content?.id);
+    
+    if (!contentId) {
+      throw new Error('Missing required parameters for UpdateContentAction');
+    }
+    
+    const updates: Record<string, any> = {};
+    
+    if (parameters.title !== undefined) {
+      updates.title = this.interpolateTemplateString(parameters.title, context);
+    }
+    if (parameters.content !== undefined) {
+      updates.content = this.interpolateTemplateString(parameters.content, context);
+    }
+    if (parameters.status !== undefined) {
+      updates.status = parameters.status;
+    }
+    if (parameters.metadata !== undefined) {
+      updates.metadata = parameters.metadata;
+    }
+    
+    if (Object.keys(updates).length === 0) {
+      throw new Error('UpdateContentAction requires at least one field to update');
+    }
+    
+    assertOwnedByActingUser(
+      await calendarService.getContent(contentId),
+      getActingUser(parameters, context),
+      `Content ${contentId}`
+    );
+    
+    const updated = await calendarService.updateContent(contentId, updates);
+    
+    logger.info('Updated content via automation', {
+      contentId,
+      fields: Object.keys(updates),
+      workflowId: context.workflowId
+    });
+    
+    return {
+      contentId: updated.id,
+      updatedFields: Object.keys(updates),
+      status: updated.status
+    };
+  }
+}
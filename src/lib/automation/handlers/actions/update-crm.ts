@@ -0,0 +1,99 @@
+import { BaseActionHandler } from '../../handlers';
+import { CRMService } from '../../../features/crm/CRMService';
+import { CRMPlatform } from '../../../features/crm/types';
+import { ContactData } from '../../../features/crm/models/Contact';
+import { getActingUser } from './action-utils';
+import logger from '../../../../lib/logging/logger';
+
+/**
+ * Action handler for creating or updating a contact in connected CRMs
+ */
+export default class UpdateCRMAction extends BaseActionHandler {
+  /**
+   * Execute the update CRM action
+   * @param parameters Action parameters
+   * @param context Execution context
+   * @returns Created or updated contact IDs
+   */
+  async execute(
+    parameters: Record<string, any>,
+    context: Record<string, any>
+  ): Promise<Record<string, any>> {
+    if (!this.validateParameters(parameters, ['contact'])) {
+      throw new Error('Missing required parameters for UpdateCRMAction');
+    }
+    
+    const { userId } = getActingUser(parameters, context);
+    const crmService = CRMService.getInstance();
+    const contactData = this.interpolateContact(parameters.contact, context);
+    const externalId = this.getParameter<string>(parameters, 'externalId', '');
+    const platform = this.getParameter<CRMPlatform | ''>(parameters, 'platform', '');
+    
+    // Update when we know the CRM record, otherwise create it
+    if (externalId) {
+      if (!platform) {
+        throw new Error('UpdateCRMAction requires platform when externalId is set');
+      }
+      
+      const response = await crmService.updateContact(userId, platform, externalId, contactData);
+      if (!response.success || !response.data) {
+        throw new Error(`Failed to update CRM contact: ${response.error || 'unknown error'}`);
+      }
+      
+      logger.info('Updated CRM contact via automation', {
+        platform,
+        externalId,
+        workflowId: context.workflowId
+      });
+      
+      return {
+        operation: 'update',
+        contacts: [{ platform, externalId: response.data.externalId }]
+      };
+    }
+    
+    const response = await crmService.createContact(
+      userId,
+      contactData as ContactData,
+      platform ? [platform] : undefined
+    );
+    
+    if (!response.success || !response.data || response.data.length === 0) {
+      throw new Error(`Failed to create CRM contact: ${response.error || 'no CRM accepted the contact'}`);
+    }
+    
+    logger.info('Created CRM contact via automation', {
+      platforms: response.data.map(contact => contact.platform),
+      workflowId: context.workflowId
+    });
+    
+    return {
+      operation: 'create',
+      contacts: response.data.map(contact => ({
+        platform: contact.platform,
+        externalId: contact.externalId
+      }))
+    };
+  }
+  
+  /**
+   * Interpolate string fields of the contact template
+   * @param contact Contact template
+   * @param context Execution context
+   * @returns Contact data
+   */
+  private interpolateContact(
+    contact: Record<string, any>,
+    context: Record<string, any>
+  ): Partial<ContactData> {
+    const result: Record<string, any> = {};
+    
+    for (const [key, value] of Object.entries(contact || {})) {
+      result[key] = typeof value === 'string'
+        ? this.interpolateTemplateString(value, context)
+        : value;
+    }
+    
+    return result;
+  }
+}
@@ -10,8 +10,27 @@ import ScheduledTimeTrigger from './triggers/scheduled-time';
 // Import action handlers
 import SendEmailAction from './actions/send-email';
 import SendNotificationAction from './actions/send-notification';
+import SendWebhookAction from './actions/send-webhook';
+import CreateContentAction from './actions/create-content';
+import ScheduleContentAction from './actions/schedule-content';
+import PublishContentAction from './actions/publish-content';
 import GenerateContentAction from './actions/generate-content';
+import UpdateContentAction from './actions/update-content';
+import PostReplyAction from './actions/post-reply';
+import LikeContentAction from './actions/like-content';
+import ShareContentAction from './actions/share-content';
+import FollowUserAction from './actions/follow-user';
+import SendMessageAction from './actions/send-message';
+import CreateTaskAction from './actions/create-task';
+import UpdateCRMAction from './actions/update-crm';
+import LogEventAction from './actions/log-event';
+import TagContentAction from './actions/tag-content';
+import CategorizeContentAction from './actions/categorize-content';
 import AnalyzeSentimentAction from './actions/analyze-sentiment';
+import GenerateTagsAction from './actions/generate-tags';
+import SummarizeContentAction from './actions/summarize-content';
+import TranslateContentAction from './actions/translate-content';
+import CustomAction from './actions/custom-action';
 
 // Register trigger handlers
 registerTriggerHandler(TriggerType.CONTENT_CREATED, new ContentCreatedTrigger());
@@ -22,8 +41,27 @@ registerTriggerHandler(TriggerType.SCHEDULED_TIME, new ScheduledTimeTrigger());
 // Register action handlers
 registerActionHandler(ActionType.SEND_EMAIL, new SendEmailAction());
 registerActionHandler(ActionType.SEND_NOTIFICATION, new SendNotificationAction());
+registerActionHandler(ActionType.SEND_WEBHOOK, new SendWebhookAction());
+registerActionHandler(ActionType.CREATE_CONTENT, new CreateContentAction());
+registerActionHandler(ActionType.SCHEDULE_CONTENT, new ScheduleContentAction());
+registerActionHandler(ActionType.PUBLISH_CONTENT, new PublishContentAction());
 registerActionHandler(ActionType.GENERATE_CONTENT, new GenerateContentAction());
+registerActionHandler(ActionType.UPDATE_CONTENT, new UpdateContentAction());
+registerActionHandler(ActionType.POST_REPLY, new PostReplyAction());
+registerActionHandler(ActionType.LIKE_CONTENT, new LikeContentAction());
+registerActionHandler(ActionType.SHARE_CONTENT, new ShareContentAction());
+registerActionHandler(ActionType.FOLLOW_USER, new FollowUserAction());
+registerActionHandler(ActionType.SEND_MESSAGE, new SendMessageAction());
+registerActionHandler(ActionType.CREATE_TASK, new CreateTaskAction());
+registerActionHandler(ActionType.UPDATE_CRM, new UpdateCRMAction());
+registerActionHandler(ActionType.LOG_EVENT, new LogEventAction());
+registerActionHandler(ActionType.TAG_CONTENT, new TagContentAction());
+registerActionHandler(ActionType.CATEGORIZE_CONTENT, new CategorizeContentAction());
 registerActionHandler(ActionType.ANALYZE_SENTIMENT, new AnalyzeSentimentAction());
+registerActionHandler(ActionType.GENERATE_TAGS, new GenerateTagsAction());
+registerActionHandler(ActionType.SUMMARIZE_CONTENT, new SummarizeContentAction());
+registerActionHandler(ActionType.TRANSLATE_CONTENT, new TranslateContentAction());
+registerActionHandler(ActionType.CUSTOM, new CustomAction());
 
 // Export all handlers
 export * from './triggers/content-created';
@@ -33,5 +71,24 @@ export * from './triggers/scheduled-time';
 
 export * from './actions/send-email';
 export * from './actions/send-notification';
+export * from './actions/send-webhook';
+export * from './actions/create-content';
+export * from './actions/schedule-content';
+export * from './actions/publish-content';
 export * from './actions/generate-content';
-export * from './actions/analyze-sentiment'; 
\ No newline at end of file
+export * from './actions/update-content';
+export * from './actions/post-reply';
+export * from './actions/like-content';
+export * from './actions/share-content';
+export * from './actions/follow-user';
+export * from './actions/send-message';
+export * from './actions/create-task';
+export * from './actions/update-crm';
+export * from './actions/log-event';
+export * from './actions/tag-content';
+export * from './actions/categorize-content';
+export * from './actions/analyze-sentiment';
+export * from './actions/generate-tags';
+export * from './actions/summarize-content';
+export * from './actions/translate-content';
+export * from './actions/custom-action'; 
\ No newline at end of file
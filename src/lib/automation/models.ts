@@ -130,10 +130,85 @@ export interface Action {
  */
 export interface ActionResult {
   actionId: string;
+  stepId?: string;
   success: boolean;
   timestamp: Date;
   data?: any;
   error?: string;
+  attempts?: number;
+}
+
+/**
+ * Step types for graph-based workflows
+ */
+export enum StepType {
+  ACTION = 'action',
+  BRANCH = 'branch',
+  DELAY = 'delay',
+  LOOP = 'loop'
+}
+
+/**
+ * Retry policy for a workflow step
+ */
+export interface StepRetryPolicy {
+  maxAttempts: number;
+  backoffMs: number;
+  backoffMultiplier?: number;
+  maxBackoffMs?: number;
+}
+
+/**
+ * Delay configuration. Either a relative duration or an absolute time;
+ * `until` may be a template such as "{{content.scheduledFor}}".
+ */
+export interface StepDelay {
+  minutes?: number;
+  hours?: number;
+  days?: number;
+  until?: string;
+}
+
+/**
+ * Loop configuration. `items` is a template resolving to an array; each
+ * item is exposed as `{{loop.item}}` (and `{{loop.index}}`) to the body.
+ */
+export interface StepLoop {
+  items: string;
+  bodyStepId: string;
+  maxIterations?: number;
+}
+
+/**
+ * A single node in a workflow graph
+ */
+export interface WorkflowStep {
+  id: string;
+  type: StepType;
+  name: string;
+  // ACTION: the action to run; parameters may reference {{steps.<id>.output...}}
+  action?: Action;
+  // BRANCH: conditions evaluated against the execution context
+  conditions?: Condition[];
+  onTrue?: string;
+  onFalse?: string;
+  // DELAY
+  delay?: StepDelay;
+  // LOOP
+  loop?: StepLoop;
+  // Next step for ACTION, DELAY and LOOP steps; omitted at the end of a path
+  next?: string;
+  // Step to continue with when an ACTION step fails after all retries
+  onError?: string;
+  retryPolicy?: StepRetryPolicy;
+}
+
+/**
+ * Graph-based workflow definition
+ */
+export interface WorkflowGraph {
+  startStepId: string;
+  steps: Record<string, WorkflowStep>;
 }
 
 /**
@@ -155,6 +230,8 @@ export interface Workflow {
   description?: string;
   trigger: Trigger;
   actions: Action[];
+  // When present the engine runs the graph instead of the flat actions list
+  graph?: WorkflowGraph;
   createdAt: Date;
   updatedAt: Date;
   createdBy: string;
@@ -178,10 +255,68 @@ export interface WorkflowExecution {
   triggerData: any;
   startTime: Date;
   endTime?: Date;
-  status: 'running' | 'completed' | 'failed';
+  status: 'running' | 'waiting' | 'completed' | 'failed';
   actionResults: ActionResult[];
   error?: string;
   metadata?: Record<string, any>;
+  // Graph execution state, persisted so waiting executions survive restarts
+  currentStepId?: string;
+  stepOutputs?: Record<string, any>;
+  context?: Record<string, any>;
+  resumeAt?: Date;
+  // Token of the worker holding the lease; writes from any other worker are refused
+  leaseOwner?: string;
+  leaseExpiresAt?: Date;
+}
+
+/**
+ * Trace of a single condition evaluation
+ */
+export interface ConditionTrace {
+  conditionId: string;
+  field: string;
+  operator: OperatorType;
+  expected: any;
+  actual: any;
+  negate: boolean;
+  passed: boolean;
+  reason: string;
+}
+
+/**
+ * What a dry run determined for one step or action
+ */
+export interface DryRunStepTrace {
+  // Graph step ID, or the action ID for flat workflows
+  stepId: string;
+  name: string;
+  stepType: StepType;
+  actionType?: ActionType;
+  outcome: 'would_execute' | 'skipped' | 'branch_true' | 'branch_false' | 'would_wait' | 'loop' | 'error';
+  conditions: ConditionTrace[];
+  resolvedParameters?: Record<string, any>;
+  // Output fed to later steps, taken from mock or replayed results
+  simulatedOutput?: any;
+  resumeAt?: Date;
+  iteration?: number;
+  nextStepId?: string;
+  note?: string;
+}
+
+/**
+ * Result of a workflow dry run. Nothing is executed or written.
+ */
+export interface DryRunResult {
+  workflowId: string;
+  workflowName: string;
+  mode: 'test' | 'replay';
+  sourceExecutionId?: string;
+  // Whether the event would start the workflow at all
+  wouldTrigger: boolean;
+  triggerConditions: ConditionTrace[];
+  steps: DryRunStepTrace[];
+  warnings: string[];
+  evaluatedAt: Date;
 }
 
 /**
@@ -289,4 +424,107 @@ export function createWorkflow(
     executionCount: 0,
     successRate: 0
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * Create a new workflow step
+ * @param type Step type
+ * @param name Step name
+ * @param config Step configuration
+ * @returns New workflow step
+ */
+export function createWorkflowStep(
+  type: StepType,
+  name: string,
+  config: Partial<Omit<WorkflowStep, 'id' | 'type' | 'name'>> = {}
+): WorkflowStep {
+  return {
+    id: uuidv4(),
+    type,
+    name,
+    ...config
+  };
+}
+
+/**
+ * Validate a workflow graph
+ * @param graph Workflow graph
+ * @returns List of validation errors (empty when valid)
+ */
+export function validateWorkflowGraph(graph: WorkflowGraph): string[] {
+  const errors: string[] = [];
+  const steps = graph.steps || {};
+  
+  const checkRef = (stepId: string, field: string, target?: string) => {
+    if (target && !steps[target]) {
+      errors.push(`Step ${stepId} references unknown ${field} step: ${target}`);
+    }
+  };
+  
+  if (!steps[graph.startStepId]) {
+    errors.push(`Start step not found: ${graph.startStepId}`);
+  }
+  
+  for (const [stepId, step] of Object.entries(steps)) {
+    if (step.id !== stepId) {
+      errors.push(`Step key ${stepId} does not match step id ${step.id}`);
+    }
+    
+    checkRef(stepId, 'next', step.next);
+    checkRef(stepId, 'onError', step.onError);
+    
+    switch (step.type) {
+      case StepType.ACTION:
+        if (!step.action) {
+          errors.push(`Action step ${stepId} has no action`);
+        }
+        break;
+      case StepType.BRANCH:
+        if (!step.conditions || step.conditions.length === 0) {
+          errors.push(`Branch step ${stepId} has no conditions`);
+        }
+        checkRef(stepId, 'onTrue', step.onTrue);
+        checkRef(stepId, 'onFalse', step.onFalse);
+        break;
+      case StepType.DELAY:
+        if (!step.delay || (!step.delay.until && !step.delay.minutes && !step.delay.hours && !step.delay.days)) {
+          errors.push(`Delay step ${stepId} has no delay`);
+        }
+        break;
+      case StepType.LOOP:
+        if (!step.loop || !step.loop.items || !step.loop.bodyStepId) {
+          errors.push(`Loop step ${stepId} needs items and bodyStepId`);
+        } else {
+          checkRef(stepId, 'loop body', step.loop.bodyStepId);
+        }
+        break;
+      default:
+        errors.push(`Step ${stepId} has unknown type: ${(step as WorkflowStep).type}`);
+    }
+  }
+  
+  // Delays persist the execution and resume from a single step, which a
+  // loop body cannot do mid-iteration
+  for (const step of Object.values(steps)) {
+    if (step.type !== StepType.LOOP || !step.loop) continue;
+    
+    const visited = new Set<string>();
+    const pending = [step.loop.bodyStepId];
+    
+    while (pending.length > 0) {
+      const current = steps[pending.pop() as string];
+      if (!current || visited.has(current.id)) continue;
+      visited.add(current.id);
+      
+      if (current.type === StepType.DELAY) {
+        errors.push(`Loop step ${step.id} contains delay step ${current.id}`);
+      }
+      
+      [current.next, current.onTrue, current.onFalse, current.onError, current.loop?.bodyStepId]
+        .filter((id): id is string => !!id)
+        .forEach(id => pending.push(id));
+    }
+  }
+  
+  return errors;
+}
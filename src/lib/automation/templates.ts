@@ -0,0 +1,78 @@
+/**
+ * Template resolution for workflow step parameters
+ *
+ * Parameters may reference the execution scope with `{{path}}` placeholders,
+ * e.g. `{{user.id}}`, `{{steps.generate.output.content}}` or `{{loop.item}}`.
+ * A string that is exactly one placeholder resolves to the raw value so
+ * objects and arrays can be passed between steps unchanged; placeholders
+ * embedded in longer strings are interpolated as text.
+ */
+
+const EXACT_PLACEHOLDER = /^\{\{\s*([^}]+?)\s*\}\}$/;
+const PLACEHOLDER = /\{\{([^}]+)\}\}/g;
+
+/**
+ * Get a value from an object using dot notation. Numeric segments index
+ * into arrays (e.g. "steps.search.output.items.0.id").
+ * @param obj Source object
+ * @param path Path using dot notation
+ * @returns Value at the path, or undefined
+ */
+export function getValueAtPath(obj: any, path: string): any {
+  return path.trim().split('.').reduce((current, part) => {
+    return current !== undefined && current !== null ? current[part] : undefined;
+  }, obj);
+}
+
+/**
+ * Resolve placeholders in a string
+ * @param template Template string
+ * @param scope Execution scope
+ * @returns Raw value for a single placeholder, otherwise the interpolated string
+ */
+export function resolveTemplateString(template: string, scope: Record<string, any>): any {
+  const exact = template.match(EXACT_PLACEHOLDER);
+
+  if (exact) {
+    return getValueAtPath(scope, exact[1]);
+  }
+
+  // Unresolved placeholders are left in place, matching BaseActionHandler
+  return template.replace(PLACEHOLDER, (match, path) => {
+    const value = getValueAtPath(scope, path);
+
+    if (value === undefined || value === null) {
+      return match;
+    }
+
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * Resolve placeholders in a value, recursing into arrays and plain objects
+ * @param value Parameter value
+ * @param scope Execution scope
+ * @returns Resolved value
+ */
+export function resolveTemplateValue<T = any>(value: T, scope: Record<string, any>): T {
+  if (typeof value === 'string') {
+    return resolveTemplateString(value, scope);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => resolveTemplateValue(item, scope)) as unknown as T;
+  }
+
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const resolved: Record<string, any> = {};
+
+    for (const [key, item] of Object.entries(value as Record<string, any>)) {
+      resolved[key] = resolveTemplateValue(item, scope);
+    }
+
+    return resolved as T;
+  }
+
+  return value;
+}
@@ -11,6 +11,16 @@ export interface RateLimitConfig {
   keyPrefix: string; // Prefix for Redis keys
 }
 
+/**
+ * Outcome of counting a request against a limit
+ */
+export interface RateLimitResult {
+  limited: boolean;
+  limit: number;
+  remaining: number;
+  reset: Date;
+}
+
 /**
  * Type for API handler function
  */
@@ -26,6 +36,50 @@ const defaultConfig: RateLimitConfig = {
   keyPrefix: 'ratelimit:'
 };
 
+let sharedRedis: RedisService | null = null;
+
+/**
+ * Count a request from an identifier against a limit. Used directly by App
+ * Router handlers, which cannot use the middleware below.
+ * @param identifier Client identifier, e.g. an IP address or API key ID
+ * @param customConfig Rate limit configuration
+ * @returns Whether the request is over the limit, with values for the rate limit headers
+ */
+export async function checkRateLimit(
+  identifier: string,
+  customConfig?: Partial<RateLimitConfig>
+): Promise<RateLimitResult> {
+  const config = { ...defaultConfig, ...customConfig };
+  if (!sharedRedis) {
+    sharedRedis = new RedisService();
+  }
+
+  // Redis errors count as zero requests, so the limiter fails open
+  const currentRequests = await sharedRedis.increment(
+    `${config.keyPrefix}${identifier}`,
+    1,
+    Math.ceil(config.windowMs / 1000)
+  );
+
+  return {
+    limited: currentRequests > config.max,
+    limit: config.max,
+    remaining: Math.max(0, config.max - currentRequests),
+    reset: new Date(Date.now() + config.windowMs)
+  };
+}
+
+/**
+ * Standard rate limit headers for a result
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(result.reset.getTime() / 1000).toString()
+  };
+}
+
 /**
  * Middleware for rate limiting API requests
  * @param config Rate limit configuration
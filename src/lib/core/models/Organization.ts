@@ -22,6 +22,15 @@ export enum OrganizationStatus {
   DELETED = 'deleted'
 }
 
+/**
+ * Organization types
+ */
+export enum OrganizationType {
+  STANDARD = 'standard',
+  AGENCY = 'agency', // Owns client workspaces
+  CLIENT_WORKSPACE = 'client_workspace'
+}
+
 /**
  * Interface for organization member
  */
@@ -73,6 +82,8 @@ export interface Organization {
   usageQuota: UsageQuota;
   settings: OrganizationSettings;
   customDomain?: string;
+  organizationType?: OrganizationType; // Absent for standard organizations
+  parentOrganizationId?: string; // Agency that owns a client workspace
   metadata?: Record<string, any>; // Additional organization metadata
 }
 
@@ -97,6 +108,8 @@ export interface FirestoreOrganization {
   usageQuota: UsageQuota;
   settings: OrganizationSettings;
   customDomain?: string;
+  organizationType?: OrganizationType;
+  parentOrganizationId?: string;
   metadata?: Record<string, any>;
 }
 
@@ -171,6 +184,7 @@ export interface BillingInfo {
     country?: string;
   };
   taxId?: string;
+  billedToOrganizationId?: string; // Agency whose subscription pays for a client workspace
 }
 
 /**
@@ -238,6 +252,53 @@ export interface OrganizationSettings {
     slack?: boolean;
     slackWebhookUrl?: string;
   };
+  security?: OrganizationSecuritySettings;
+}
+
+/**
+ * Organization security policy
+ */
+export interface OrganizationSecuritySettings {
+  requireTwoFactor: boolean;
+  // Days members without two-factor authentication keep access once required
+  twoFactorGracePeriodDays: number;
+  twoFactorRequiredSince?: Timestamp;
+}
+
+/**
+ * Two-factor requirement an organization places on a member
+ */
+export interface TwoFactorRequirement {
+  required: boolean;
+  deadline?: Date;
+  // Past the grace period without two-factor authentication
+  blocked: boolean;
+}
+
+/**
+ * Whether an organization's policy requires a member to use two-factor
+ * authentication, and whether their grace period has run out
+ * @param security Organization security settings
+ * @param twoFactorEnabled Whether the member has two-factor authentication
+ * @param now Current time
+ */
+export function getTwoFactorRequirement(
+  security: OrganizationSecuritySettings | undefined,
+  twoFactorEnabled: boolean,
+  now: Date = new Date()
+): TwoFactorRequirement {
+  if (!security?.requireTwoFactor) {
+    return { required: false, blocked: false };
+  }
+
+  const requiredSince = security.twoFactorRequiredSince?.toDate() || now;
+  const deadline = new Date(requiredSince.getTime() + (security.twoFactorGracePeriodDays || 0) * 24 * 60 * 60 * 1000);
+
+  return {
+    required: true,
+    deadline,
+    blocked: !twoFactorEnabled && now.getTime() >= deadline.getTime()
+  };
 }
 
 /**
@@ -375,6 +436,156 @@ export function createBusinessOrganization(
   };
 }
 
+/**
+ * Creates a client workspace owned by an agency organization
+ * @param agency Agency organization
+ * @param name Client workspace name
+ * @param createdBy Agency staff member creating the workspace
+ * @returns Client workspace organization object
+ */
+export function createClientWorkspace(
+  agency: Organization,
+  name: string,
+  createdBy: { userId: string; email: string; displayName: string }
+): Omit<Organization, 'id'> {
+  if (agency.organizationType !== OrganizationType.AGENCY) {
+    throw new Error('Client workspaces can only be created under an agency organization');
+  }
+
+  const now = Timestamp.now();
+  const tier = agency.billing.subscriptionTier;
+  const quotaLimits = getTierQuotaLimits(tier);
+  const owner = agency.members[agency.ownerUserId];
+
+  const members: Record<string, TeamMember> = {
+    [agency.ownerUserId]: {
+      userId: agency.ownerUserId,
+      email: owner?.email || '',
+      displayName: owner?.displayName || '',
+      role: OrganizationRoleType.OWNER,
+      joinedAt: now,
+      invitedBy: createdBy.userId
+    }
+  };
+  if (createdBy.userId !== agency.ownerUserId) {
+    members[createdBy.userId] = {
+      userId: createdBy.userId,
+      email: createdBy.email,
+      displayName: createdBy.displayName,
+      role: OrganizationRoleType.ADMIN,
+      joinedAt: now,
+      invitedBy: createdBy.userId
+    };
+  }
+
+  return {
+    name,
+    displayName: name,
+    isPersonalOrg: false,
+    // The agency owner owns every client workspace so ownership follows the agency
+    ownerUserId: agency.ownerUserId,
+    createdAt: now,
+    updatedAt: now,
+    status: OrganizationStatus.ACTIVE,
+    members,
+    billing: {
+      subscriptionTier: tier,
+      subscriptionStatus: agency.billing.subscriptionStatus,
+      billedToOrganizationId: agency.id
+    },
+    platformConnections: {},
+    usageQuota: {
+      aiTokens: {
+        limit: quotaLimits.aiTokens,
+        used: 0,
+        resetDate: Timestamp.fromDate(new Date(new Date().setMonth(new Date().getMonth() + 1)))
+      },
+      storage: {
+        limitMB: quotaLimits.storageMB,
+        usedMB: 0
+      },
+      socialAccounts: {
+        limit: quotaLimits.socialAccounts,
+        used: 0
+      },
+      teamMembers: {
+        limit: quotaLimits.teamMembers,
+        used: Object.keys(members).length
+      }
+    },
+    settings: {
+      timezone: agency.settings?.timezone || 'UTC',
+      defaultContentApproval: agency.settings?.defaultContentApproval ?? true,
+      autoSchedulingEnabled: agency.settings?.autoSchedulingEnabled ?? true
+    },
+    organizationType: OrganizationType.CLIENT_WORKSPACE,
+    parentOrganizationId: agency.id
+  };
+}
+
+/**
+ * Role an agency staff member holds in every client workspace of the agency
+ * Agency owners and admins administer all client workspaces; other staff
+ * need a per-client assignment.
+ * @param agency Agency organization
+ * @param userId User ID
+ * @returns Inherited role, or null when the user has none
+ */
+export function getAgencyWorkspaceRole(
+  agency: Organization,
+  userId: string
+): OrganizationRoleType | null {
+  if (agency.organizationType !== OrganizationType.AGENCY) {
+    return null;
+  }
+  if (agency.ownerUserId === userId) {
+    return OrganizationRoleType.OWNER;
+  }
+  return hasOrganizationRole(agency, userId, OrganizationRoleType.ADMIN) ? OrganizationRoleType.ADMIN : null;
+}
+
+/**
+ * Usage of one client workspace, as rolled up into the agency's billing
+ */
+export interface WorkspaceUsage {
+  organizationId: string;
+  name: string;
+  socialAccounts: number;
+  teamMembers: number;
+  storageMB: number;
+  aiTokens: number;
+}
+
+/**
+ * Roll up the usage of an agency and its client workspaces
+ * @param organizations Agency and client workspaces
+ * @returns Usage per organization and totals
+ */
+export function summarizeWorkspaceUsage(
+  organizations: Array<Pick<Organization, 'id' | 'name' | 'displayName' | 'usageQuota'>>
+): { workspaces: WorkspaceUsage[]; totals: Omit<WorkspaceUsage, 'organizationId' | 'name'> } {
+  const workspaces = organizations.map(org => ({
+    organizationId: org.id,
+    name: org.displayName || org.name,
+    socialAccounts: org.usageQuota?.socialAccounts?.used || 0,
+    teamMembers: org.usageQuota?.teamMembers?.used || 0,
+    storageMB: org.usageQuota?.storage?.usedMB || 0,
+    aiTokens: org.usageQuota?.aiTokens?.used || 0
+  }));
+
+  const totals = workspaces.reduce(
+    (sum, usage) => ({
+      socialAccounts: sum.socialAccounts + usage.socialAccounts,
+      teamMembers: sum.teamMembers + usage.teamMembers,
+      storageMB: sum.storageMB + usage.storageMB,
+      aiTokens: sum.aiTokens + usage.aiTokens
+    }),
+    { socialAccounts: 0, teamMembers: 0, storageMB: 0, aiTokens: 0 }
+  );
+
+  return { workspaces, totals };
+}
+
 /**
  * Get usage quota limits based on subscription tier
  * @param tier Subscription tier
@@ -670,6 +881,8 @@ export function firestoreToOrganization(
     usageQuota: data.usageQuota,
     settings: data.settings,
     customDomain: data.customDomain,
+    organizationType: data.organizationType,
+    parentOrganizationId: data.parentOrganizationId,
     metadata: data.metadata
   };
 }
@@ -734,6 +947,8 @@ export function organizationToFirestore(organization: Organization): {
       usageQuota: organization.usageQuota,
       settings: organization.settings,
       customDomain: organization.customDomain,
+      ...(organization.organizationType ? { organizationType: organization.organizationType } : {}),
+      ...(organization.parentOrganizationId ? { parentOrganizationId: organization.parentOrganizationId } : {}),
       metadata: organization.metadata
     },
     members,
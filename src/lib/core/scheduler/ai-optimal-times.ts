@@ -8,6 +8,15 @@ import { NotificationService } from '../notifications/NotificationService';
 import { logger } from '../logging/logger';
 import { SocialPlatform } from '../models/SocialAccount';
 import { PlatformType } from '../../platforms/models';
+import { bestTimeService } from '../../features/analytics/BestTimeService';
+import {
+  BestTimeModel,
+  BestTimeSlot,
+  DAY_NAMES,
+  describeBestTime,
+  rankBestTimes,
+  rankBestTimesByDay
+} from '../../features/analytics/best-time-model';
 
 /**
  * Interface for AI-analyzed optimal posting time
@@ -101,7 +110,8 @@ export interface AIAnalysisContext {
 }
 
 /**
- * AI-powered optimal posting time analyzer and scheduler integration
+ * Optimal posting time recommendations and scheduler integration. Times come
+ * from the engagement model learned from post metrics; AI explains them.
  */
 export class AIOptimalPostingTimeService {
   private getFirestore() {
@@ -363,148 +373,164 @@ export class AIOptimalPostingTimeService {
   }
 
   /**
-   * Generate AI recommendation using tiered model system
+   * Recommend times from the engagement model learned from the user's post
+   * metrics. The tiered model only explains the result; it never picks times.
    */
   private async generateAIRecommendation(
     analysisData: any,
     context: AIAnalysisContext
   ): Promise<AIScheduleRecommendation> {
+    const model = await bestTimeService.getModel({
+      userId: context.userId,
+      organizationId: context.organizationId,
+      platformType: context.platform as string as PlatformType,
+      timezone: context.userTimezone
+    });
+    const recommendation = this.buildModelRecommendation(model, analysisData.historical || [], context);
+
     try {
-      const prompt = this.buildAnalysisPrompt(analysisData, context);
-      
-      // Use tiered model based on subscription
       const modelResponse = await this.tieredModelRouter.routeRequest(
-        prompt,
+        this.buildExplanationPrompt(recommendation, model, context),
         TaskCategory.STRATEGIC_INSIGHTS,
         context.subscriptionTier,
         {
-          maxTokens: 2000,
+          maxTokens: 800,
           temperature: 0.3,
           responseFormat: { type: 'json_object' }
         }
       );
 
-      const aiResponse = JSON.parse(modelResponse.content);
-      
-      return this.parseAIResponse(aiResponse, context);
+      const explanation = JSON.parse(modelResponse.content);
+      const strings = (values: unknown) =>
+        Array.isArray(values) ? values.filter((value): value is string => typeof value === 'string') : [];
+
+      if (typeof explanation.reasoning === 'string' && explanation.reasoning) {
+        recommendation.primaryRecommendation.reasoning = explanation.reasoning;
+      }
+      if (strings(explanation.insights).length > 0) {
+        recommendation.aiInsights = strings(explanation.insights);
+      }
+      if (strings(explanation.platformTips).length > 0) {
+        recommendation.contentTypeOptimization.platformSpecificTips = strings(explanation.platformTips);
+      }
     } catch (error) {
-      logger.error('Error generating AI recommendation', {
+      // The recommendation stands on its own; it just keeps its plain reasoning
+      logger.warn('Error generating AI explanation for optimal times', {
         error: error instanceof Error ? error.message : String(error)
       });
-      
-      return this.getFallbackRecommendation(context);
-    }
-  }
-
-  /**
-   * Build comprehensive analysis prompt for AI
-   */
-  private buildAnalysisPrompt(analysisData: any, context: AIAnalysisContext): string {
-    const { historical, audience, competitive, platformPatterns } = analysisData;
-    
-    return `You are an expert social media strategist analyzing optimal posting times. 
-
-Platform: ${context.platform}
-Content Type: ${context.contentType}
-User Timezone: ${context.userTimezone}
-Target Date: ${context.targetDate ? context.targetDate.toISOString() : 'Not specified'}
-
-Historical Performance Data:
-${historical.length > 0 ? JSON.stringify(historical.slice(-20)) : 'Limited historical data'}
-
-Audience Insights:
-${audience ? JSON.stringify(audience) : 'Limited audience data'}
-
-Platform Engagement Patterns:
-${platformPatterns ? JSON.stringify(platformPatterns) : 'Using general platform data'}
-
-Competitive Analysis:
-${competitive ? JSON.stringify(competitive) : 'No competitive data available'}
-
-Please analyze this data and provide optimal posting time recommendations in the following JSON format:
-
-{
-  "primaryRecommendation": {
-    "dayOfWeek": 1,
-    "hour": 18,
-    "minute": 30,
-    "score": 0.95,
-    "reasoning": "Based on your historical data, Tuesday evenings show 40% higher engagement...",
-    "audienceFactors": {
-      "timezone": "EST",
-      "activeHours": [17, 18, 19, 20],
-      "peakEngagementTime": "6:30 PM",
-      "audienceSize": 15000,
-      "demographicInsights": "Your audience is primarily 25-35 year olds who are most active after work"
-    },
-    "engagementPrediction": {
-      "expectedLikes": 250,
-      "expectedComments": 15,
-      "expectedShares": 8,
-      "confidenceLevel": 0.85
-    },
-    "competitiveAnalysis": {
-      "competitorPostingFrequency": 3,
-      "optimalGapFromCompetitors": 2,
-      "marketSaturation": 0.4
     }
-  },
-  "alternativeSlots": [
-    // 2-4 alternative time slots in same format
-  ],
-  "dayOfWeekAnalysis": {
-    "bestDay": 1,
-    "worstDay": 6,
-    "weekendPerformance": 0.7,
-    "workdayPerformance": 0.85
-  },
-  "contentTypeOptimization": {
-    "contentType": "${context.contentType}",
-    "bestTimes": [
-      // Best times specific to this content type
-    ],
-    "platformSpecificTips": [
-      "For ${context.platform}, ${context.contentType} content performs best when...",
-      "Consider adding hashtags relevant to..."
-    ]
-  },
-  "aiInsights": [
-    "Your audience is most active during evening commute hours",
-    "Tuesday and Wednesday show consistently higher engagement",
-    "Visual content performs 30% better than text-only posts"
-  ]
-}
 
-Focus on actionable insights based on the actual data provided. If data is limited, clearly state assumptions and provide general best practices.`;
+    return recommendation;
   }
 
   /**
-   * Parse AI response into structured recommendation
+   * Turn the hour-of-week model into a recommendation: the best hour on each
+   * day, best day first
    */
-  private parseAIResponse(aiResponse: any, context: AIAnalysisContext): AIScheduleRecommendation {
+  private buildModelRecommendation(
+    model: BestTimeModel,
+    historical: PostingPerformanceData[],
+    context: AIAnalysisContext
+  ): AIScheduleRecommendation {
     const now = new Date();
-    const validUntil = new Date(now.getTime() + this.CACHE_DURATION);
+    const byDay = rankBestTimesByDay(model);
+    const toOptimalTime = (slot: BestTimeSlot) => this.toOptimalTime(slot, model, historical, context);
+
+    const dayScores = DAY_NAMES.map((_, dayOfWeek) => average(
+      model.cells.filter(cell => cell.dayOfWeek === dayOfWeek).map(cell => cell.mean)
+    ));
+    const bestDayScore = Math.max(...dayScores) || 1;
 
     return {
-      primaryRecommendation: aiResponse.primaryRecommendation || this.getDefaultOptimalTime(context),
-      alternativeSlots: aiResponse.alternativeSlots || [],
-      dayOfWeekAnalysis: aiResponse.dayOfWeekAnalysis || {
-        bestDay: 1,
-        worstDay: 6,
-        weekendPerformance: 0.7,
-        workdayPerformance: 0.85
+      primaryRecommendation: toOptimalTime(byDay[0]),
+      alternativeSlots: byDay.slice(1).map(toOptimalTime),
+      dayOfWeekAnalysis: {
+        bestDay: byDay[0].dayOfWeek,
+        worstDay: dayScores.indexOf(Math.min(...dayScores)),
+        weekendPerformance: round2(average([dayScores[0], dayScores[6]]) / bestDayScore),
+        workdayPerformance: round2(average(dayScores.slice(1, 6)) / bestDayScore)
       },
-      contentTypeOptimization: aiResponse.contentTypeOptimization || {
+      contentTypeOptimization: {
         contentType: context.contentType,
-        bestTimes: [],
+        bestTimes: rankBestTimes(model, 3).map(toOptimalTime),
         platformSpecificTips: []
       },
-      aiInsights: aiResponse.aiInsights || ['Analysis based on general platform best practices'],
+      aiInsights: [describeBestTime(model, byDay[0])],
       lastUpdated: now,
-      validUntil
+      validUntil: new Date(now.getTime() + this.CACHE_DURATION)
+    };
+  }
+
+  private toOptimalTime(
+    slot: BestTimeSlot,
+    model: BestTimeModel,
+    historical: PostingPerformanceData[],
+    context: AIAnalysisContext
+  ): AIOptimalTime {
+    // Scale the user's typical post by how this hour compares with their overall level
+    const typicalRate = average(model.cells.map(cell => cell.mean)) || 1;
+    const lift = slot.expectedEngagementRate / typicalRate;
+    const expected = (values: number[]) => Math.round(average(values) * lift);
+    const activeHours = rankBestTimes(model, 4).map(best => best.hour);
+
+    return {
+      dayOfWeek: slot.dayOfWeek,
+      hour: slot.hour,
+      minute: 0,
+      score: slot.confidence,
+      reasoning: describeBestTime(model, slot),
+      audienceFactors: {
+        timezone: context.userTimezone,
+        activeHours,
+        peakEngagementTime: `${slot.hour}:00`,
+        audienceSize: Math.round(average(historical.map(post => post.audienceReach))),
+        demographicInsights: `Learned from ${model.postCount} posts`
+      },
+      engagementPrediction: {
+        expectedLikes: expected(historical.map(post => post.engagement.likes)),
+        expectedComments: expected(historical.map(post => post.engagement.comments)),
+        expectedShares: expected(historical.map(post => post.engagement.shares)),
+        confidenceLevel: slot.confidence
+      },
+      competitiveAnalysis: {
+        competitorPostingFrequency: 0,
+        optimalGapFromCompetitors: 0,
+        marketSaturation: 0
+      }
     };
   }
 
+  /**
+   * Ask for an explanation of times that are already chosen
+   */
+  private buildExplanationPrompt(
+    recommendation: AIScheduleRecommendation,
+    model: BestTimeModel,
+    context: AIAnalysisContext
+  ): string {
+    const slots = [recommendation.primaryRecommendation, ...recommendation.alternativeSlots.slice(0, 3)]
+      .map(slot => `- ${DAY_NAMES[slot.dayOfWeek]} ${slot.hour}:00: ${slot.reasoning}`)
+      .join('\n');
+
+    return `You are a social media strategist explaining posting times that a statistical model has already chosen.
+
+Platform: ${context.platform}
+Content Type: ${context.contentType}
+Timezone: ${context.userTimezone}
+Posts in history: ${model.postCount}
+
+Recommended times, best first:
+${slots}
+
+Explain these results using only the facts above. Do not suggest other times. Respond in this JSON format:
+
+{
+  "reasoning": "One or two sentences on why the first time is recommended",
+  "insights": ["2-3 short observations about the pattern"],
+  "platformTips": ["1-2 tips for ${context.contentType} content on ${context.platform}"]
+}`;
+  }
+
   /**
    * Get user's historical posting performance
    */
@@ -890,5 +916,13 @@ Focus on actionable insights based on the actual data provided. If data is limit
   }
 }
 
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 // Export singleton instance
 export const aiOptimalPostingTimeService = new AIOptimalPostingTimeService(); 
\ No newline at end of file
@@ -1,41 +1,59 @@
 /**
  * Production-ready encryption utility for sensitive data
  * Uses AES-256-GCM for authenticated encryption with associated data (AEAD)
+ *
+ * Stored secrets use the versioned envelope format (sealSecret/openSecret):
+ * each secret is encrypted with its own random data key, and the data key is
+ * wrapped with a key-encryption key derived from PRIMARY_ENCRYPTION_KEY. A
+ * sealed value names the key that wrapped it, so values wrapped under
+ * SECONDARY_ENCRYPTION_KEY keep opening while a rotation is under way, and
+ * the rotation sweep can tell which values still need re-encrypting.
+ *
+ * Envelope format: env1.<key id>.<wrapped data key>.<iv>.<auth tag>.<ciphertext>
  */
 
 import crypto from 'crypto';
 import logger from '../logging/logger';
 
-// Environment variables for keys (must be set in production)
-const PRIMARY_ENCRYPTION_KEY = process.env.PRIMARY_ENCRYPTION_KEY;
-const SECONDARY_ENCRYPTION_KEY = process.env.SECONDARY_ENCRYPTION_KEY; // For key rotation
-
 // Constants for encryption
 const ALGORITHM = 'aes-256-gcm';
-const IV_LENGTH = 16; // For AES, this is always 16 bytes
+const IV_LENGTH = 16; // IV length of the salt:iv:authTag:data format
+const ENVELOPE_IV_LENGTH = 12; // Standard GCM nonce, used by sealed secrets
+const ENVELOPE_VERSION = 'env1';
 const AUTH_TAG_LENGTH = 16; // GCM auth tag length
 const KEY_LENGTH = 32; // 256 bits
 const SALT_LENGTH = 64; // Salt for key derivation
 const KEY_ITERATIONS = 100000; // PBKDF2 iterations for key derivation
 
+const keyEncryptionKeys: Record<string, Buffer> = {};
+
+interface MasterKey {
+  id: string;
+  secret: string;
+}
+
 /**
- * Validate encryption configuration
+ * Configured master keys, primary first. Read on every call so a rotation
+ * (SECONDARY_ENCRYPTION_KEY set to the old primary) applies without a reload.
  * @throws Error if encryption is not properly configured
  */
-function validateEncryptionConfig() {
-  const missingKeys = [];
-  
-  if (!PRIMARY_ENCRYPTION_KEY) {
-    missingKeys.push('PRIMARY_ENCRYPTION_KEY');
-  }
-  
-  // SECONDARY_ENCRYPTION_KEY is optional
-  
-  if (missingKeys.length > 0) {
-    const error = `Missing required encryption environment variables: ${missingKeys.join(', ')}`;
+function getMasterKeys(): MasterKey[] {
+  const primaryKey = process.env.PRIMARY_ENCRYPTION_KEY;
+  const secondaryKey = process.env.SECONDARY_ENCRYPTION_KEY; // Optional, for key rotation
+
+  if (!primaryKey) {
+    const error = 'Missing required encryption environment variables: PRIMARY_ENCRYPTION_KEY';
     logger.error(error);
     throw new Error(error);
   }
+
+  return [primaryKey, secondaryKey]
+    .filter((secret): secret is string => !!secret)
+    .map(secret => ({
+      // Ids are fingerprints, so no key id needs configuring and the key itself never leaks
+      id: crypto.createHmac('sha256', secret).update('irisync-key-id').digest('hex').slice(0, 16),
+      secret
+    }));
 }
 
 /**
@@ -64,14 +82,14 @@ export function encrypt(text: string, additionalData?: string): string {
   try {
     if (!text) return '';
     
-    validateEncryptionConfig();
+    const [primary] = getMasterKeys();
     
     // Generate random salt and IV
     const salt = crypto.randomBytes(SALT_LENGTH);
     const iv = crypto.randomBytes(IV_LENGTH);
     
     // Derive encryption key from primary key and salt
-    const key = deriveKey(PRIMARY_ENCRYPTION_KEY!, salt);
+    const key = deriveKey(primary.secret, salt);
     
     // Create cipher with key and iv
     const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
@@ -114,7 +132,7 @@ export function decrypt(encryptedText: string, additionalData?: string): string
   try {
     if (!encryptedText) return '';
     
-    validateEncryptionConfig();
+    const [primary, secondary] = getMasterKeys();
     
     // Split encrypted text into components
     const parts = encryptedText.split(':');
@@ -132,7 +150,7 @@ export function decrypt(encryptedText: string, additionalData?: string): string
     // Try with primary key first
     try {
       // Derive key from primary key and salt
-      const key = deriveKey(PRIMARY_ENCRYPTION_KEY!, salt);
+      const key = deriveKey(primary.secret, salt);
       
       // Create decipher
       const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
@@ -153,9 +171,9 @@ export function decrypt(encryptedText: string, additionalData?: string): string
     } catch (primaryKeyError) {
       // If primary key fails and we have a secondary key (key rotation scenario),
       // try with the secondary key
-      if (SECONDARY_ENCRYPTION_KEY) {
+      if (secondary) {
         // Derive key from secondary key and salt
-        const secondaryKey = deriveKey(SECONDARY_ENCRYPTION_KEY, salt);
+        const secondaryKey = deriveKey(secondary.secret, salt);
         
         // Create decipher
         const decipher = crypto.createDecipheriv(ALGORITHM, secondaryKey, iv);
@@ -203,6 +221,153 @@ export function reEncryptWithPrimaryKey(encryptedText: string, additionalData?:
   return encrypt(decrypted, additionalData);
 }
 
+/**
+ * Whether a stored value is a sealed secret, as opposed to a legacy
+ * plaintext or differently encrypted value
+ */
+export function isSealedSecret(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(`${ENVELOPE_VERSION}.`) && value.split('.').length === 6;
+}
+
+/**
+ * Id of the master key that wrapped a sealed secret
+ */
+export function getSealedKeyId(sealed: string): string | null {
+  return isSealedSecret(sealed) ? sealed.split('.')[1] : null;
+}
+
+/**
+ * Id of the key new secrets are sealed with
+ */
+export function getPrimaryKeyId(): string {
+  return getMasterKeys()[0].id;
+}
+
+/**
+ * Whether a stored value should be re-sealed: legacy values and values
+ * wrapped by a key other than the primary
+ */
+export function needsReseal(value: unknown): boolean {
+  return !isSealedSecret(value) || getSealedKeyId(value) !== getPrimaryKeyId();
+}
+
+/**
+ * Encrypt a secret under a fresh data key wrapped by the primary key
+ * @param plaintext Secret to seal
+ * @param context What the secret belongs to, e.g. 'storage-connection'; authenticated, not encrypted
+ * @returns Sealed secret
+ */
+export function sealSecret(plaintext: string, context: string): string {
+  const [primary] = getMasterKeys();
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+
+  const wrappedKey = encryptBytes(getKeyEncryptionKey(primary), dataKey, `${ENVELOPE_VERSION}:${primary.id}:${context}`);
+  const payload = encryptBytes(dataKey, Buffer.from(plaintext, 'utf8'), context);
+
+  return [
+    ENVELOPE_VERSION,
+    primary.id,
+    wrappedKey.toString('base64url'),
+    payload.subarray(0, ENVELOPE_IV_LENGTH).toString('base64url'),
+    payload.subarray(ENVELOPE_IV_LENGTH, ENVELOPE_IV_LENGTH + AUTH_TAG_LENGTH).toString('base64url'),
+    payload.subarray(ENVELOPE_IV_LENGTH + AUTH_TAG_LENGTH).toString('base64url')
+  ].join('.');
+}
+
+/**
+ * Decrypt a sealed secret with whichever configured key wrapped it
+ * @param sealed Sealed secret
+ * @param context Context the secret was sealed with
+ * @returns Decrypted secret
+ */
+export function openSecret(sealed: string, context: string): string {
+  if (!isSealedSecret(sealed)) {
+    throw new Error('Value is not a sealed secret');
+  }
+
+  const [, keyId, wrappedKey, iv, authTag, ciphertext] = sealed.split('.');
+  const master = getMasterKeys().find(candidate => candidate.id === keyId);
+  if (!master) {
+    throw new Error(`Secret was sealed with unknown key ${keyId}`);
+  }
+
+  try {
+    const dataKey = decryptBytes(getKeyEncryptionKey(master), Buffer.from(wrappedKey, 'base64url'), `${ENVELOPE_VERSION}:${keyId}:${context}`);
+    const payload = Buffer.concat([
+      Buffer.from(iv, 'base64url'),
+      Buffer.from(authTag, 'base64url'),
+      Buffer.from(ciphertext, 'base64url')
+    ]);
+    return decryptBytes(dataKey, payload, context).toString('utf8');
+  } catch {
+    throw new Error('Failed to decrypt sealed secret');
+  }
+}
+
+/**
+ * Re-seal a secret under the current primary key
+ */
+export function resealSecret(sealed: string, context: string): string {
+  return sealSecret(openSecret(sealed, context), context);
+}
+
+export function sealJson(value: unknown, context: string): string {
+  return sealSecret(JSON.stringify(value), context);
+}
+
+export function openJson<T>(sealed: string, context: string): T {
+  return JSON.parse(openSecret(sealed, context)) as T;
+}
+
+function getKeyEncryptionKey(master: MasterKey): Buffer {
+  if (!keyEncryptionKeys[master.id]) {
+    keyEncryptionKeys[master.id] = Buffer.from(
+      crypto.hkdfSync('sha256', Buffer.from(master.secret, 'utf8'), 'irisync-envelope', 'key-encryption-key', KEY_LENGTH)
+    );
+  }
+  return keyEncryptionKeys[master.id];
+}
+
+// iv | auth tag | ciphertext
+function encryptBytes(key: Buffer, plaintext: Buffer, additionalData: string): Buffer {
+  const iv = crypto.randomBytes(ENVELOPE_IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(additionalData, 'utf8'));
+
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function decryptBytes(key: Buffer, payload: Buffer, additionalData: string): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, payload.subarray(0, ENVELOPE_IV_LENGTH));
+  decipher.setAAD(Buffer.from(additionalData, 'utf8'));
+  decipher.setAuthTag(payload.subarray(ENVELOPE_IV_LENGTH, ENVELOPE_IV_LENGTH + AUTH_TAG_LENGTH));
+
+  return Buffer.concat([decipher.update(payload.subarray(ENVELOPE_IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * HMAC-SHA256 under a key derived from a master key, for digests that whoever
+ * can write the data must not be able to recompute
+ * @param context What the digest is for, e.g. 'audit-chain'; each context gets its own key
+ * @param keyId Master key to use; defaults to the primary
+ * @returns Id of the key used and the hex digest, or null when that key is no longer configured
+ */
+export function computeKeyedDigest(
+  data: string,
+  context: string,
+  keyId?: string
+): { keyId: string; digest: string } | null {
+  const masterKeys = getMasterKeys();
+  const master = keyId ? masterKeys.find(key => key.id === keyId) : masterKeys[0];
+  if (!master) {
+    return null;
+  }
+
+  const key = Buffer.from(crypto.hkdfSync('sha256', Buffer.from(master.secret, 'utf8'), 'irisync-digest', context, KEY_LENGTH));
+  return { keyId: master.id, digest: crypto.createHmac('sha256', key).update(data, 'utf8').digest('hex') };
+}
+
 /**
  * Generate a random secure token (for API tokens, reset tokens, etc.)
  * @param length Length of the token in bytes (output will be in base64 and longer)
@@ -0,0 +1,221 @@
+/**
+ * Outbound destination checks
+ *
+ * Servers and URLs supplied by users (sink hosts, PDS URLs, image sources)
+ * must not reach the internal network. Hostnames are resolved and every
+ * address must be public; publicLookup repeats the check when the socket
+ * connects, so a name cannot resolve to a public address for the check and
+ * a private one for the request.
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+export class UnsafeDestinationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'invalid_url' | 'protocol_not_allowed' | 'port_not_allowed' | 'private_address' | 'unresolvable'
+  ) {
+    super(message);
+    this.name = 'UnsafeDestinationError';
+  }
+}
+
+// [first address, prefix length] of IPv4 ranges that are not publicly routable
+const NON_PUBLIC_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + parseInt(octet, 10), 0);
+}
+
+function isPublicIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+
+  return !NON_PUBLIC_IPV4_RANGES.some(([start, prefix]) => {
+    const size = Math.pow(2, 32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(start) / size);
+  });
+}
+
+/**
+ * Expand an IPv6 address to its eight 16-bit groups
+ */
+function expandIPv6(address: string): number[] {
+  let text = address.toLowerCase().split('%')[0];
+  const embeddedIPv4 = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+
+  if (embeddedIPv4) {
+    const value = ipv4ToNumber(embeddedIPv4[1]);
+    text = text.slice(0, -embeddedIPv4[1].length) +
+      `${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail !== '' ? tail.split(':') : [];
+  const missing = tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+
+  return [...headGroups, ...Array(missing).fill('0'), ...tailGroups].map(group => parseInt(group, 16));
+}
+
+function isPublicIPv6(address: string): boolean {
+  const groups = expandIPv6(address);
+  const embeddedIPv4 = () => `${groups[6] >> 8}.${groups[6] & 255}.${groups[7] >> 8}.${groups[7] & 255}`;
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach IPv4 hosts
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+    return isPublicIPv4(embeddedIPv4());
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPublicIPv4(embeddedIPv4());
+  }
+
+  // Unspecified, loopback and the deprecated IPv4-compatible range
+  if (groups.slice(0, 6).every(group => group === 0)) {
+    return false;
+  }
+
+  return !(
+    (groups[0] & 0xfe00) === 0xfc00 || // Unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // Link-local
+    (groups[0] & 0xff00) === 0xff00 || // Multicast
+    (groups[0] === 0x2001 && groups[1] === 0x0db8) // Documentation
+  );
+}
+
+/**
+ * Whether an IP address is publicly routable. Private, loopback,
+ * link-local, shared (CGNAT), multicast, reserved and documentation
+ * addresses are not.
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = net.isIP(address);
+
+  if (version === 4) {
+    return isPublicIPv4(address);
+  }
+
+  if (version === 6) {
+    return isPublicIPv6(address);
+  }
+
+  return false;
+}
+
+/**
+ * Resolve a hostname (or IP literal) and require every address to be public
+ * @returns The resolved addresses
+ */
+export async function resolvePublicAddresses(hostname: string): Promise<string[]> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  let addresses: dns.LookupAddress[];
+
+  try {
+    addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new UnsafeDestinationError(`Could not resolve ${host}`, 'unresolvable');
+  }
+
+  if (addresses.length === 0) {
+    throw new UnsafeDestinationError(`Could not resolve ${host}`, 'unresolvable');
+  }
+
+  if (addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new UnsafeDestinationError(`${host} resolves to a private or reserved address`, 'private_address');
+  }
+
+  return addresses.map(({ address }) => address);
+}
+
+/**
+ * Validate a user-supplied URL before requesting it
+ * @param value URL to check
+ * @param options Allowed protocols (https only by default) and ports (any by default)
+ * @returns The parsed URL
+ */
+export async function assertPublicUrl(
+  value: string,
+  options: { protocols?: string[]; ports?: number[] } = {}
+): Promise<URL> {
+  let url: URL;
+
+  try {
+    url = new URL(value);
+  } catch {
+    throw new UnsafeDestinationError('Invalid URL', 'invalid_url');
+  }
+
+  const protocols = options.protocols || ['https:'];
+
+  if (!protocols.includes(url.protocol)) {
+    throw new UnsafeDestinationError(`URL must use ${protocols.map(protocol => protocol.replace(':', '')).join(' or ')}`, 'protocol_not_allowed');
+  }
+
+  if (url.username || url.password) {
+    throw new UnsafeDestinationError('URL must not contain credentials', 'invalid_url');
+  }
+
+  const port = url.port ? parseInt(url.port, 10) : (url.protocol === 'https:' ? 443 : 80);
+
+  if (options.ports && !options.ports.includes(port)) {
+    throw new UnsafeDestinationError(`Port ${port} is not allowed`, 'port_not_allowed');
+  }
+
+  await resolvePublicAddresses(url.hostname);
+
+  return url;
+}
+
+/**
+ * dns.lookup replacement for sockets and HTTP agents that refuses to
+ * connect to non-public addresses
+ */
+export function publicLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses: dns.LookupAddress[]) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+      callback(new UnsafeDestinationError(`${hostname} resolves to a private or reserved address`, 'private_address'), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+/**
+ * Agents for axios requests to user-supplied URLs. Both protocols are set
+ * so redirects are checked too.
+ */
+export const publicAgents = {
+  httpAgent: new http.Agent({ lookup: publicLookup }),
+  httpsAgent: new https.Agent({ lookup: publicLookup })
+};
@@ -0,0 +1,26 @@
+/**
+ * Retry backoff shared by the publish queue and webhook deliveries
+ */
+
+export interface BackoffPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Exponential backoff delay for the given attempt (1-based), capped and jittered
+ * @param policy Delay of the first retry and the cap
+ * @param attempt Tries made so far, starting at 1
+ * @param random Jitter source, for tests
+ */
+export function computeExponentialBackoff(
+  policy: BackoffPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+  const capped = Math.min(exponential, policy.maxDelayMs);
+
+  // Keep at least half the delay so retries never bunch up immediately
+  return Math.round(capped / 2 + (capped / 2) * random());
+}
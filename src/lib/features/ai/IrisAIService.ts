@@ -6,7 +6,7 @@
  *
  * Features:
  * - Cost-based model selection (lowest cost for task complexity)
- * - Credit deduction for AI operations
+ * - Credits reserved before each AI call, charged on success and released on failure
  * - Unified "Iris" branding across all AI interactions
  * - Automatic model routing based on task requirements
  */
@@ -148,6 +148,7 @@ class IrisAIService {
       context?: any[];
       taskType?: string;
       preferredModel?: AIProvider;
+      idempotencyKey?: string;
     } = {}
   ): Promise<IrisResponse> {
     try {
@@ -157,49 +158,45 @@ class IrisAIService {
       // Select optimal model (unless user prefers specific one)
       const selectedModel = options.preferredModel || this.selectOptimalModel(complexity, options.taskType);
 
-      // Calculate operation type and check credits
+      // Hold credits for the call; they are returned if the provider fails
       const operation = this.calculateOperationCost(complexity);
-      const creditCheck = await creditService.hasCredits(userId, organizationId, operation);
-
-      if (!creditCheck.hasCredits) {
-        throw new Error(
-          `Insufficient credits. Required: ${creditCheck.required}, Available: ${creditCheck.balance}`
-        );
-      }
-
-      // Call AI service with selected model
-      const aiResponse = await aiService.processChatbotRequest({
-        userId,
-        organizationId,
-        message,
-        conversationHistory: options.conversationHistory || [],
-        context: options.context || [],
-        preferredProvider: selectedModel,
-      });
-
-      // Deduct credits
-      const deductResult = await creditService.deductCredits(
+      const { result: aiResponse, creditsUsed } = await creditService.withCredits(
         userId,
         organizationId,
         operation,
-        1,
+        async () => {
+          const response = await aiService.processChatbotRequest({
+            userId,
+            organizationId,
+            message,
+            conversationHistory: options.conversationHistory || [],
+            context: options.context || [],
+            preferredProvider: selectedModel,
+          });
+          // A provider failure comes back unsuccessful rather than thrown
+          if (!response.success) {
+            throw new Error(response.error || 'AI request failed');
+          }
+          return response;
+        },
         {
-          model: aiResponse.model,
-          tokens: aiResponse.totalTokens,
-          complexity,
+          idempotencyKey: options.idempotencyKey,
+          describe: (response) => ({
+            model: response.model,
+            tokens: response.tokenUsage?.total,
+            complexity,
+          }),
         }
       );
 
-      if (!deductResult.success) {
-        console.error('Failed to deduct credits:', deductResult.error);
-      }
+      const output = aiResponse.output || '';
 
       // Brand response as "Iris"
       return {
-        response: aiResponse.output,
-        modelUsed: this.getProviderFromModel(aiResponse.model),
-        creditsUsed: deductResult.success ? creditCheck.required : 0,
-        tokenCount: aiResponse.totalTokens || this.estimateTokens(aiResponse.output),
+        response: output,
+        modelUsed: this.getProviderFromModel(aiResponse.model || ''),
+        creditsUsed,
+        tokenCount: aiResponse.tokenUsage?.total || this.estimateTokens(output),
         complexity,
       };
     } catch (error) {
@@ -223,185 +220,104 @@ class IrisAIService {
   }
 
   /**
-   * Generate content with Iris (with credit deduction)
+   * Generate content with Iris (charged only on success)
    */
   async generateContent(
     userId: string,
     organizationId: string,
-    request: any
+    request: any,
+    idempotencyKey?: string
   ): Promise<{ content: any; creditsUsed: number }> {
-    // Check credits
-    const creditCheck = await creditService.hasCredits(
-      userId,
-      organizationId,
-      AIOperation.CONTENT_GENERATION
-    );
-
-    if (!creditCheck.hasCredits) {
-      throw new Error(
-        `Insufficient credits. Required: ${creditCheck.required}, Available: ${creditCheck.balance}`
-      );
-    }
-
-    // Generate content (using existing content generation service)
     const contentGenerationService = await import('../content/ContentGenerationService');
-    const content = await contentGenerationService.contentGenerationService.generateContent(
-      request,
-      userId,
-      organizationId
-    );
-
-    // Deduct credits
-    await creditService.deductCredits(
+    const { result: content, creditsUsed } = await creditService.withCredits(
       userId,
       organizationId,
       AIOperation.CONTENT_GENERATION,
-      1,
-      { platformType: request.platformType, topic: request.topic }
+      () => contentGenerationService.contentGenerationService.generateContent(request, userId, organizationId),
+      { idempotencyKey, metadata: { platformType: request.platformType, topic: request.topic } }
     );
 
-    return {
-      content,
-      creditsUsed: creditCheck.required,
-    };
+    return { content, creditsUsed };
   }
 
   /**
-   * Optimize content with Iris (with credit deduction)
+   * Optimize content with Iris (charged only on success)
    */
   async optimizeContent(
     userId: string,
     organizationId: string,
     caption: string,
     fromPlatform: string,
-    toPlatform: string
+    toPlatform: string,
+    idempotencyKey?: string
   ): Promise<{ content: any; creditsUsed: number }> {
-    // Check credits
-    const creditCheck = await creditService.hasCredits(
-      userId,
-      organizationId,
-      AIOperation.CONTENT_OPTIMIZATION
-    );
-
-    if (!creditCheck.hasCredits) {
-      throw new Error(
-        `Insufficient credits. Required: ${creditCheck.required}, Available: ${creditCheck.balance}`
-      );
-    }
-
-    // Optimize content
     const contentGenerationService = await import('../content/ContentGenerationService');
-    const content = await contentGenerationService.contentGenerationService.optimizeContent(
-      caption,
-      fromPlatform as any,
-      toPlatform as any,
-      userId,
-      organizationId
-    );
-
-    // Deduct credits
-    await creditService.deductCredits(
+    const { result: content, creditsUsed } = await creditService.withCredits(
       userId,
       organizationId,
       AIOperation.CONTENT_OPTIMIZATION,
-      1,
-      { fromPlatform, toPlatform }
+      () =>
+        contentGenerationService.contentGenerationService.optimizeContent(
+          caption,
+          fromPlatform as any,
+          toPlatform as any,
+          userId,
+          organizationId
+        ),
+      { idempotencyKey, metadata: { fromPlatform, toPlatform } }
     );
 
-    return {
-      content,
-      creditsUsed: creditCheck.required,
-    };
+    return { content, creditsUsed };
   }
 
   /**
-   * Get hashtag suggestions with Iris (with credit deduction)
+   * Get hashtag suggestions with Iris (charged only on success)
    */
   async getHashtagSuggestions(
     userId: string,
     organizationId: string,
     content: string,
     platformType: string,
-    count: number = 10
+    count: number = 10,
+    idempotencyKey?: string
   ): Promise<{ hashtags: string[]; creditsUsed: number }> {
-    // Check credits
-    const creditCheck = await creditService.hasCredits(
-      userId,
-      organizationId,
-      AIOperation.HASHTAG_SUGGESTIONS
-    );
-
-    if (!creditCheck.hasCredits) {
-      throw new Error(
-        `Insufficient credits. Required: ${creditCheck.required}, Available: ${creditCheck.balance}`
-      );
-    }
-
-    // Get hashtags
     const contentGenerationService = await import('../content/ContentGenerationService');
-    const hashtags = await contentGenerationService.contentGenerationService.getHashtagSuggestions(
-      content,
-      platformType as any,
-      count
-    );
-
-    // Deduct credits
-    await creditService.deductCredits(
+    const { result: hashtags, creditsUsed } = await creditService.withCredits(
       userId,
       organizationId,
       AIOperation.HASHTAG_SUGGESTIONS,
-      1,
-      { platformType, count }
+      () =>
+        contentGenerationService.contentGenerationService.getHashtagSuggestions(
+          content,
+          platformType as any,
+          count
+        ),
+      { idempotencyKey, metadata: { platformType, count } }
     );
 
-    return {
-      hashtags,
-      creditsUsed: creditCheck.required,
-    };
+    return { hashtags, creditsUsed };
   }
 
   /**
-   * Analyze sentiment with Iris (with credit deduction)
+   * Analyze sentiment with Iris (charged only on success)
    */
   async analyzeSentiment(
     userId: string,
     organizationId: string,
     text: string,
-    context?: any
+    context?: any,
+    idempotencyKey?: string
   ): Promise<{ sentiment: any; creditsUsed: number }> {
-    // Check credits
-    const creditCheck = await creditService.hasCredits(
-      userId,
-      organizationId,
-      AIOperation.SENTIMENT_ANALYSIS
-    );
-
-    if (!creditCheck.hasCredits) {
-      throw new Error(
-        `Insufficient credits. Required: ${creditCheck.required}, Available: ${creditCheck.balance}`
-      );
-    }
-
-    // Analyze sentiment
     const sentimentAnalysisService = await import('../monitoring/SentimentAnalysisService');
-    const sentiment = await sentimentAnalysisService.sentimentAnalysisService.analyzeSentiment(
-      text,
-      context
-    );
-
-    // Deduct credits
-    await creditService.deductCredits(
+    const { result: sentiment, creditsUsed } = await creditService.withCredits(
       userId,
       organizationId,
       AIOperation.SENTIMENT_ANALYSIS,
-      1,
-      { textLength: text.length }
+      () => sentimentAnalysisService.sentimentAnalysisService.analyzeSentiment(text, context),
+      { idempotencyKey, metadata: { textLength: text.length } }
     );
 
-    return {
-      sentiment,
-      creditsUsed: creditCheck.required,
-    };
+    return { sentiment, creditsUsed };
   }
 
   /**
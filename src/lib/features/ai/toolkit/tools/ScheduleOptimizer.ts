@@ -4,6 +4,9 @@ import { TokenService } from '../../../tokens/token-service';
 import { logger } from '../../../../core/logging/logger';
 import { PlatformService } from '../../../platforms/providers/platform-service';
 import { v4 as uuidv4 } from 'uuid';
+import { bestTimeService } from '../../../analytics/BestTimeService';
+import { DAY_NAMES, describeBestTime, rankBestTimes } from '../../../analytics/best-time-model';
+import { PlatformType } from '../../../platforms/PlatformProvider';
 
 /**
  * Implementation of the ScheduleOptimizer tool
@@ -51,17 +54,23 @@ export class ScheduleOptimizer extends BaseTool implements ScheduleOptimizerTool
         return this.createInsufficientTokensResponse(this.tokenCost);
       }
       
-      // Get platform engagement data
-      const engagementData = await this.platformService.getEngagementData(platform, contentType);
-      
       // Determine timezone to use
       const timezone = audienceData?.timezone || 'UTC';
       
-      // Get audience timezone distribution
-      const audienceTimezones = audienceData?.timezoneDistribution || { 'UTC': 1.0 };
-      
-      // Calculate optimal time
-      const result = this.calculateOptimalTime(engagementData, timezone, audienceTimezones);
+      let result: OptimalTimeResult;
+      if (userId) {
+        // Learn from the user's own post history
+        result = await this.calculateLearnedOptimalTime(userId, orgId, platform, timezone);
+      } else {
+        // Get platform engagement data
+        const engagementData = await this.platformService.getEngagementData(platform, contentType);
+        
+        // Get audience timezone distribution
+        const audienceTimezones = audienceData?.timezoneDistribution || { 'UTC': 1.0 };
+        
+        // Calculate optimal time
+        result = this.calculateOptimalTime(engagementData, timezone, audienceTimezones);
+      }
       
       // Deduct tokens if needed - fixed cost of 1
       if (userId) {
@@ -335,6 +344,40 @@ export class ScheduleOptimizer extends BaseTool implements ScheduleOptimizerTool
     }
   }
   
+  /**
+   * Optimal time from the hour-of-week engagement model built on the user's
+   * post metrics
+   */
+  private async calculateLearnedOptimalTime(
+    userId: string,
+    organizationId: string | undefined,
+    platform: string,
+    timezone: string
+  ): Promise<OptimalTimeResult> {
+    const model = await bestTimeService.getModel({
+      userId,
+      organizationId,
+      platformType: platform.toLowerCase() as PlatformType,
+      timezone
+    });
+    const [best, ...alternatives] = rankBestTimes(model, 4);
+    const formatTime = (hour: number) => `${hour < 10 ? '0' : ''}${hour}:00`;
+
+    return {
+      optimalTime: formatTime(best.hour),
+      dayOfWeek: DAY_NAMES[best.dayOfWeek],
+      expectedEngagement: best.expectedEngagementRate,
+      confidence: best.confidence,
+      alternativeTimes: alternatives.map(slot => ({
+        time: formatTime(slot.hour),
+        dayOfWeek: DAY_NAMES[slot.dayOfWeek],
+        expectedEngagement: slot.expectedEngagementRate
+      })),
+      timezone,
+      reasoning: describeBestTime(model, best)
+    };
+  }
+  
   /**
    * Calculate optimal time for posting
    */
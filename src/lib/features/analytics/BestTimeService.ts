@@ -0,0 +1,130 @@
+import { getFirebaseFirestore } from '../../core/firebase';
+import {
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  where,
+  Timestamp
+} from 'firebase/firestore';
+import { logger } from '../../core/logging/logger';
+import { PlatformType } from '../platforms/PlatformProvider';
+import type { PostMetrics } from './PostAnalyticsService';
+import {
+  BestTimeModel,
+  BestTimeSlot,
+  EngagementSample,
+  buildBestTimeModel,
+  rankBestTimes
+} from './best-time-model';
+
+// Posts older than this carry almost no weight at the default half-life
+const HISTORY_DAYS = 730;
+const MAX_METRICS = 2000;
+
+/**
+ * Whose history a model is built from
+ */
+export interface BestTimeQuery {
+  userId: string;
+  // Learn from everyone's posts in the organization rather than the user's own
+  organizationId?: string;
+  platformType: PlatformType;
+  // One connected account; smoothed toward the platform-wide model
+  accountId?: string;
+  timezone: string;
+}
+
+/**
+ * Builds best-time-to-post models from stored post metrics
+ */
+export class BestTimeService {
+  private getFirestore() {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) throw new Error('Firestore not configured');
+    return firestore;
+  }
+
+  /**
+   * Hour-of-week model for a platform, or for one account on it. An account's
+   * cells shrink toward the platform-wide model, which in turn shrinks toward
+   * platform benchmarks.
+   */
+  async getModel(bestTimeQuery: BestTimeQuery, now: Date = new Date()): Promise<BestTimeModel> {
+    const metrics = await this.getLatestMetrics(bestTimeQuery, now);
+    const platformModel = buildBestTimeModel(bestTimeQuery.platformType, metrics.map(toSample), {
+      timezone: bestTimeQuery.timezone,
+      now
+    });
+
+    if (!bestTimeQuery.accountId) {
+      return platformModel;
+    }
+
+    const accountMetrics = metrics.filter(metric => metric.accountId === bestTimeQuery.accountId);
+    return buildBestTimeModel(bestTimeQuery.platformType, accountMetrics.map(toSample), {
+      timezone: bestTimeQuery.timezone,
+      now,
+      prior: platformModel.cells.map(cell => cell.mean)
+    });
+  }
+
+  /**
+   * The best hours of the week to post
+   */
+  async getBestTimes(bestTimeQuery: BestTimeQuery, count: number = 3): Promise<{ model: BestTimeModel; slots: BestTimeSlot[] }> {
+    const model = await this.getModel(bestTimeQuery);
+    return { model, slots: rankBestTimes(model, count) };
+  }
+
+  /**
+   * The latest snapshot of each post's metrics; metrics are fetched
+   * repeatedly while a post is young
+   */
+  private async getLatestMetrics(bestTimeQuery: BestTimeQuery, now: Date): Promise<PostMetrics[]> {
+    const since = new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const snapshot = await getDocs(query(
+      collection(this.getFirestore(), 'postMetrics'),
+      bestTimeQuery.organizationId
+        ? where('organizationId', '==', bestTimeQuery.organizationId)
+        : where('userId', '==', bestTimeQuery.userId),
+      where('platformType', '==', bestTimeQuery.platformType),
+      where('publishedAt', '>=', Timestamp.fromDate(since)),
+      orderBy('publishedAt', 'desc'),
+      limit(MAX_METRICS)
+    ));
+
+    const latest = new Map<string, PostMetrics>();
+    for (const metricsDoc of snapshot.docs) {
+      const data = metricsDoc.data();
+      const metrics = {
+        ...data,
+        id: metricsDoc.id,
+        publishedAt: data.publishedAt.toDate(),
+        fetchedAt: data.fetchedAt.toDate()
+      } as PostMetrics;
+
+      // A post published to several accounts has metrics for each
+      const key = `${metrics.postId}:${metrics.accountId || metrics.platformPostId}`;
+      const existing = latest.get(key);
+      if (!existing || metrics.fetchedAt > existing.fetchedAt) {
+        latest.set(key, metrics);
+      }
+    }
+
+    logger.debug('Loaded post metrics for best time model', {
+      platformType: bestTimeQuery.platformType,
+      snapshots: snapshot.size,
+      posts: latest.size
+    });
+
+    return Array.from(latest.values());
+  }
+}
+
+function toSample(metrics: PostMetrics): EngagementSample {
+  return { publishedAt: metrics.publishedAt, engagementRate: metrics.engagementRate };
+}
+
+export const bestTimeService = new BestTimeService();
@@ -272,6 +272,11 @@ export class MetricsFetcher {
         return false;
       }
 
+      // The publish result with this platform post ID is keyed by the account it went out from
+      const publishKey = Object.keys(post.publishKeys || {}).find(key =>
+        post.publishKeys[key]?.platformPostId === platformPostId
+      );
+
       // Fetch metrics
       const metrics = await postAnalyticsService.fetchPostMetrics(
         post.id,
@@ -279,7 +284,8 @@ export class MetricsFetcher {
         platformPostId,
         post.userId,
         post.organizationId,
-        connection.accessToken
+        connection.accessToken,
+        publishKey ? publishKey.slice(publishKey.indexOf(':') + 1) : undefined
       );
 
       if (metrics) {
@@ -37,6 +37,8 @@ export interface PostMetrics {
   organizationId: string;
   platformType: PlatformType;
   platformPostId: string;
+  // Connected account the post was published from, when known
+  accountId?: string;
 
   // Engagement metrics
   likes: number;
@@ -146,7 +148,8 @@ export class PostAnalyticsService {
     platformPostId: string,
     userId: string,
     organizationId: string,
-    accessToken: string
+    accessToken: string,
+    accountId?: string
   ): Promise<PostMetrics | null> {
     try {
       logger.info('Fetching post metrics', {
@@ -177,6 +180,7 @@ export class PostAnalyticsService {
         organizationId,
         platformType,
         platformPostId,
+        ...(accountId ? { accountId } : {}),
         likes: platformMetrics.likes || 0,
         comments: platformMetrics.comments || 0,
         shares: platformMetrics.shares || 0,
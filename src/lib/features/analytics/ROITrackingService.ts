@@ -2,6 +2,8 @@ import { getFirebaseFirestore } from '../../core/firebase';
 import { v4 as uuidv4 } from 'uuid';
 import { Timestamp } from 'firebase/firestore';
 import { firestore } from '@/lib/core/firebase';
+import { pushSocialEngagement } from '../crm/events';
+import { EngagementIdentity, SocialEngagementType } from '../crm/models/Activity';
 
 /**
  * Interface for ROI campaign data
@@ -126,6 +128,8 @@ export interface ConversionEvent {
   }[];
   timestamp: Date;
   metadata?: Record<string, any>;
+  // Who converted, when known; the conversion is then logged on their CRM contact
+  contact?: EngagementIdentity;
 }
 
 /**
@@ -280,6 +284,22 @@ export class ROITrackingService {
           timestamp: Timestamp.fromDate(tp.timestamp)
         }))
       });
+
+    if (newConversion.contact) {
+      const campaign = await this.getCampaign(newConversion.campaignId);
+      if (campaign) {
+        void pushSocialEngagement({
+          type: SocialEngagementType.CONVERSION,
+          organizationId: campaign.organizationId,
+          sourceId: conversionId,
+          identity: newConversion.contact,
+          occurredAt: now,
+          summary: `${newConversion.type} conversion from ${newConversion.platform} (campaign "${campaign.name}")`,
+          value: newConversion.value,
+          currency: newConversion.currency
+        });
+      }
+    }
     
     return newConversion;
   }
@@ -0,0 +1,379 @@
+import type { PlatformType } from '../platforms/PlatformProvider';
+
+/**
+ * Best time to post model
+ *
+ * A deterministic hour-of-week engagement model built from our own post
+ * metrics. Each of the 168 local hours of the week gets a posterior mean
+ * engagement rate: observed rates, weighted toward recent posts, shrunk toward
+ * a prior that carries the platform's typical weekly pattern. Accounts with
+ * little history therefore get platform benchmarks adjusted to their overall
+ * level, and cells fill in with their own data as it accumulates.
+ */
+
+export const HOURS_PER_WEEK = 168;
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SLOT_STEP_MS = 15 * 60 * 1000;
+// Two-sided 95% interval
+const Z_95 = 1.96;
+// Spread of engagement rates around the prior, relative to the prior
+const PRIOR_COEFFICIENT_OF_VARIATION = 0.5;
+const MAX_SLOT_SEARCH_DAYS = 366;
+
+// Relative audience activity by local hour of day, shared by all platforms
+const HOURLY_ACTIVITY = [
+  0.35, 0.25, 0.2, 0.2, 0.25, 0.35, 0.5, 0.7, 0.85, 0.95, 1, 1,
+  1, 0.95, 0.95, 0.9, 0.9, 0.9, 0.95, 1, 0.95, 0.85, 0.65, 0.5
+];
+
+interface PlatformPriorConfig {
+  // Typical engagement rate in percent
+  baseRate: number;
+  weekendFactor: number;
+  peaks: Array<{ dayOfWeek: number; hour: number }>;
+}
+
+const DEFAULT_PRIOR: PlatformPriorConfig = { baseRate: 3.0, weekendFactor: 0.85, peaks: [{ dayOfWeek: 3, hour: 12 }] };
+
+// Industry benchmarks; days are 0 (Sunday) to 6 (Saturday)
+const PLATFORM_PRIORS: Record<string, PlatformPriorConfig> = {
+  instagram: { baseRate: 3.5, weekendFactor: 0.9, peaks: [{ dayOfWeek: 3, hour: 11 }, { dayOfWeek: 5, hour: 14 }] },
+  twitter: { baseRate: 2.8, weekendFactor: 0.8, peaks: [{ dayOfWeek: 2, hour: 9 }] },
+  facebook: { baseRate: 3.0, weekendFactor: 0.85, peaks: [{ dayOfWeek: 4, hour: 13 }] },
+  linkedin: { baseRate: 4.0, weekendFactor: 0.5, peaks: [{ dayOfWeek: 2, hour: 10 }] },
+  tiktok: { baseRate: 5.0, weekendFactor: 1.05, peaks: [{ dayOfWeek: 5, hour: 19 }] },
+  youtube: { baseRate: 4.5, weekendFactor: 1.1, peaks: [{ dayOfWeek: 6, hour: 15 }] }
+};
+
+/**
+ * One post's engagement, as recorded by PostAnalyticsService
+ */
+export interface EngagementSample {
+  publishedAt: Date;
+  // Engagement rate in percent
+  engagementRate: number;
+}
+
+export interface BestTimeModelOptions {
+  // IANA timezone the hours of the week are in
+  timezone: string;
+  now?: Date;
+  // A post's weight halves every this many days
+  halfLifeDays?: number;
+  // How many posts' worth of weight the prior carries in each cell
+  priorStrength?: number;
+  // Prior mean per hour of week; the platform's benchmark pattern when omitted
+  prior?: number[];
+}
+
+export interface HourOfWeekCell {
+  dayOfWeek: number;
+  hour: number;
+  prior: number;
+  // Posterior mean engagement rate
+  mean: number;
+  lower: number;
+  upper: number;
+  postCount: number;
+  // Sum of decayed post weights in this cell
+  weight: number;
+}
+
+export interface BestTimeModel {
+  platformType: PlatformType | string;
+  timezone: string;
+  builtAt: Date;
+  cells: HourOfWeekCell[];
+  postCount: number;
+  // Decay-weighted number of posts
+  effectiveSampleSize: number;
+  // The account's overall engagement relative to the prior, shrunk toward 1
+  level: number;
+}
+
+/**
+ * A recommended hour of the week
+ */
+export interface BestTimeSlot {
+  dayOfWeek: number;
+  hour: number;
+  expectedEngagementRate: number;
+  confidenceInterval: { lower: number; upper: number };
+  // 0-1, from the width of the interval relative to the estimate
+  confidence: number;
+  postCount: number;
+}
+
+export interface SlotSearchOptions {
+  // Local hours to post in, inclusive start and exclusive end
+  startHour?: number;
+  endHour?: number;
+  // Minimum minutes between slots
+  minTimeBetween?: number;
+  // Maximum slots on one local day
+  postsPerDay?: number;
+  now?: Date;
+}
+
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+/**
+ * Index of the local hour of the week, 0 (Sunday 00:00) to 167
+ */
+export function getHourOfWeek(date: Date, timezone: string): number {
+  const local = getLocalTime(date, timezone);
+  return local.dayOfWeek * 24 + local.hour;
+}
+
+/**
+ * Benchmark engagement rate for each hour of the week on a platform
+ */
+export function getPlatformPrior(platformType: PlatformType | string): number[] {
+  const config = PLATFORM_PRIORS[String(platformType).toLowerCase()] || DEFAULT_PRIOR;
+  const prior: number[] = [];
+
+  for (let cell = 0; cell < HOURS_PER_WEEK; cell++) {
+    const dayOfWeek = Math.floor(cell / 24);
+    const hour = cell % 24;
+    const dayFactor = dayOfWeek === 0 || dayOfWeek === 6 ? config.weekendFactor : 1;
+
+    // Peaks lift their own hour most and the same hour on other days a little
+    let peakBoost = 0;
+    for (const peak of config.peaks) {
+      const distance = Math.min(Math.abs(hour - peak.hour), 24 - Math.abs(hour - peak.hour));
+      const closeness = Math.exp(-(distance * distance) / (2 * 1.5 * 1.5));
+      peakBoost += (peak.dayOfWeek === dayOfWeek ? 0.3 : 0.1) * closeness;
+    }
+
+    prior.push(config.baseRate * (0.6 + 0.4 * HOURLY_ACTIVITY[hour]) * dayFactor * (1 + peakBoost));
+  }
+
+  return prior;
+}
+
+/**
+ * Build the hour-of-week model from a platform's (or one account's) posts
+ */
+export function buildBestTimeModel(
+  platformType: PlatformType | string,
+  samples: EngagementSample[],
+  options: BestTimeModelOptions
+): BestTimeModel {
+  const now = options.now || new Date();
+  const halfLifeDays = options.halfLifeDays || 90;
+  const priorStrength = options.priorStrength || 3;
+  const basePrior = options.prior && options.prior.length === HOURS_PER_WEEK
+    ? options.prior
+    : getPlatformPrior(platformType);
+
+  const observations = samples
+    .filter(sample => isFinite(sample.engagementRate) && sample.engagementRate >= 0 && !isNaN(sample.publishedAt.getTime()))
+    .map(sample => {
+      const ageDays = Math.max(0, (now.getTime() - sample.publishedAt.getTime()) / DAY_MS);
+      return {
+        cell: getHourOfWeek(sample.publishedAt, options.timezone),
+        rate: sample.engagementRate,
+        weight: Math.pow(0.5, ageDays / halfLifeDays)
+      };
+    });
+
+  // How the account performs overall relative to the prior pattern
+  let ratioSum = 0;
+  let totalWeight = 0;
+  let totalSquaredWeight = 0;
+  for (const observation of observations) {
+    ratioSum += observation.weight * (observation.rate / Math.max(basePrior[observation.cell], 1e-6));
+    totalWeight += observation.weight;
+    totalSquaredWeight += observation.weight * observation.weight;
+  }
+  const level = (priorStrength + ratioSum) / (priorStrength + totalWeight);
+
+  const sums = basePrior.map(() => ({ weight: 0, weightedRate: 0, count: 0 }));
+  for (const observation of observations) {
+    const sum = sums[observation.cell];
+    sum.weight += observation.weight;
+    sum.weightedRate += observation.weight * observation.rate;
+    sum.count++;
+  }
+
+  const means = basePrior.map((prior, cell) =>
+    (priorStrength * prior * level + sums[cell].weightedRate) / (priorStrength + sums[cell].weight)
+  );
+
+  // Residual variance around the cell means, pooled with the prior's spread
+  let residualSum = 0;
+  for (const observation of observations) {
+    residualSum += observation.weight * Math.pow(observation.rate - means[observation.cell], 2);
+  }
+  const priorVariance = Math.pow(PRIOR_COEFFICIENT_OF_VARIATION * average(basePrior) * level, 2);
+  const variance = (priorStrength * priorVariance + residualSum) / (priorStrength + totalWeight);
+
+  const cells = means.map((mean, cell) => {
+    const standardError = Math.sqrt(variance / (priorStrength + sums[cell].weight));
+    return {
+      dayOfWeek: Math.floor(cell / 24),
+      hour: cell % 24,
+      prior: round(basePrior[cell] * level),
+      mean: round(mean),
+      lower: round(Math.max(0, mean - Z_95 * standardError)),
+      upper: round(mean + Z_95 * standardError),
+      postCount: sums[cell].count,
+      weight: round(sums[cell].weight)
+    };
+  });
+
+  return {
+    platformType,
+    timezone: options.timezone,
+    builtAt: now,
+    cells,
+    postCount: observations.length,
+    effectiveSampleSize: totalSquaredWeight > 0 ? round((totalWeight * totalWeight) / totalSquaredWeight) : 0,
+    level: round(level)
+  };
+}
+
+/**
+ * The best hours of the week, highest expected engagement first
+ */
+export function rankBestTimes(
+  model: BestTimeModel,
+  count: number = 3,
+  options: { startHour?: number; endHour?: number } = {}
+): BestTimeSlot[] {
+  return model.cells
+    .filter(cell => isWithinHours(cell.hour, options.startHour, options.endHour))
+    .sort((a, b) => b.mean - a.mean || b.lower - a.lower)
+    .slice(0, count)
+    .map(toSlot);
+}
+
+/**
+ * The best hour on each day of the week, best day first
+ */
+export function rankBestTimesByDay(model: BestTimeModel): BestTimeSlot[] {
+  return DAY_NAMES
+    .map((_, dayOfWeek) => rankBestTimes({ ...model, cells: model.cells.filter(cell => cell.dayOfWeek === dayOfWeek) }, 1)[0])
+    .sort((a, b) => b.expectedEngagementRate - a.expectedEngagementRate);
+}
+
+/**
+ * Pick the highest-scoring local hours between two dates, in chronological
+ * order. Ties go to the earlier slot, so the result is stable.
+ */
+export function findBestSlotDates(
+  model: BestTimeModel,
+  startDate: Date,
+  endDate: Date,
+  count: number,
+  options: SlotSearchOptions = {}
+): Date[] {
+  const from = Math.max(startDate.getTime(), (options.now || new Date()).getTime());
+  const to = Math.min(endDate.getTime(), from + MAX_SLOT_SEARCH_DAYS * DAY_MS);
+  const minGapMs = (options.minTimeBetween || 0) * 60 * 1000;
+
+  // Candidates start on the hour in local time; stepping by 15 minutes covers half-hour offsets
+  const candidates: Array<{ time: number; score: number; day: string }> = [];
+  for (let time = Math.ceil(from / SLOT_STEP_MS) * SLOT_STEP_MS; time <= to; time += SLOT_STEP_MS) {
+    const local = getLocalTime(new Date(time), model.timezone);
+    if (local.minute !== 0 || !isWithinHours(local.hour, options.startHour, options.endHour)) {
+      continue;
+    }
+    candidates.push({ time, score: model.cells[local.dayOfWeek * 24 + local.hour].mean, day: local.date });
+  }
+
+  candidates.sort((a, b) => b.score - a.score || a.time - b.time);
+
+  const chosen: typeof candidates = [];
+  const perDay: Record<string, number> = {};
+  for (const candidate of candidates) {
+    if (chosen.length >= count) break;
+    if (options.postsPerDay && (perDay[candidate.day] || 0) >= options.postsPerDay) continue;
+    if (chosen.some(slot => Math.abs(slot.time - candidate.time) < minGapMs)) continue;
+
+    chosen.push(candidate);
+    perDay[candidate.day] = (perDay[candidate.day] || 0) + 1;
+  }
+
+  return chosen.map(slot => new Date(slot.time)).sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Plain-language reason for a slot, from the numbers alone
+ */
+export function describeBestTime(model: BestTimeModel, slot: BestTimeSlot): string {
+  const when = `${DAY_NAMES[slot.dayOfWeek]}s at ${formatHour(slot.hour)}`;
+  const range = `${slot.confidenceInterval.lower.toFixed(2)}-${slot.confidenceInterval.upper.toFixed(2)}%`;
+
+  if (model.postCount === 0) {
+    return `No post history yet; ${when} is a ${model.platformType} benchmark (expected engagement ${range})`;
+  }
+
+  if (slot.postCount === 0) {
+    return `None of your ${model.postCount} posts went out ${when}; the estimate (${range}) combines ${model.platformType} benchmarks with your overall engagement`;
+  }
+
+  return `${slot.postCount} of your ${model.postCount} posts went out ${when}; expected engagement is ${slot.expectedEngagementRate.toFixed(2)}% (95% interval ${range}), weighting recent posts most`;
+}
+
+function toSlot(cell: HourOfWeekCell): BestTimeSlot {
+  const halfWidth = (cell.upper - cell.lower) / 2;
+  return {
+    dayOfWeek: cell.dayOfWeek,
+    hour: cell.hour,
+    expectedEngagementRate: cell.mean,
+    confidenceInterval: { lower: cell.lower, upper: cell.upper },
+    confidence: cell.mean > 0 ? round(Math.min(1, Math.max(0, 1 - halfWidth / cell.mean))) : 0,
+    postCount: cell.postCount
+  };
+}
+
+function isWithinHours(hour: number, startHour?: number, endHour?: number): boolean {
+  if (startHour === undefined || endHour === undefined || startHour === endHour) {
+    return true;
+  }
+  // Windows may wrap past midnight, e.g. 20 to 2
+  return startHour < endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour;
+}
+
+function getLocalTime(date: Date, timezone: string): { dayOfWeek: number; hour: number; minute: number; date: string } {
+  if (!formatters[timezone]) {
+    formatters[timezone] = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      weekday: 'long',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  }
+
+  const parts = formatters[timezone].formatToParts(date);
+  const value = (type: string) => parts.find(part => part.type === type)?.value || '';
+
+  return {
+    dayOfWeek: DAY_NAMES.indexOf(value('weekday')),
+    hour: Number(value('hour')) % 24,
+    minute: Number(value('minute')),
+    date: `${value('year')}-${value('month')}-${value('day')}`
+  };
+}
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'am' : 'pm';
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,236 @@
+import { BlueskyProvider, BlueskyNotification } from '../platforms/providers/BlueskyProvider';
+import { SocialInboxService, InboxMessage, MessageType, MessageStatus, MessagePriority } from './SocialInboxService';
+import { PlatformType } from '../platforms/PlatformProvider';
+import { logger } from '../../core/logging/logger';
+import { getFirebaseFirestore } from '../../core/firebase';
+import { collection, query, where, limit, getDocs } from 'firebase/firestore';
+
+/**
+ * Bluesky Social Inbox Adapter
+ * Polls Bluesky notifications (mentions, replies, quotes, likes, reposts,
+ * follows) into the unified social inbox and sends replies
+ */
+export class BlueskySocialInboxAdapter {
+  private blueskyProvider: BlueskyProvider;
+  private socialInboxService: SocialInboxService;
+
+  constructor(blueskyProvider: BlueskyProvider) {
+    this.blueskyProvider = blueskyProvider;
+    this.socialInboxService = new SocialInboxService();
+  }
+
+  /**
+   * Sync Bluesky notifications to unified inbox
+   */
+  async syncNotificationsToInbox(
+    userId: string,
+    accountId: string,
+    organizationId?: string
+  ): Promise<InboxMessage[]> {
+    try {
+      if (!this.blueskyProvider.isAuthenticated()) {
+        throw new Error('Bluesky provider not authenticated');
+      }
+
+      const { notifications } = await this.blueskyProvider.getNotifications(100);
+      const inboxMessages: InboxMessage[] = [];
+
+      for (const notification of notifications) {
+        // Notifications already marked seen were synced on an earlier poll
+        if (notification.isRead) {
+          continue;
+        }
+
+        // Guards against duplicates when an earlier poll failed before marking seen
+        if (await this.messageExists(notification.uri)) {
+          continue;
+        }
+
+        const inboxMessage = this.convertNotificationToInboxMessage(
+          notification,
+          accountId,
+          userId,
+          organizationId
+        );
+
+        if (!inboxMessage) {
+          continue;
+        }
+
+        inboxMessages.push(await this.socialInboxService.addMessage(inboxMessage));
+      }
+
+      if (notifications.length > 0) {
+        await this.blueskyProvider.updateSeenNotifications(new Date(notifications[0].indexedAt));
+      }
+
+      logger.info('Bluesky notifications synced to inbox', {
+        accountId,
+        newNotifications: inboxMessages.length
+      });
+
+      return inboxMessages;
+    } catch (error) {
+      logger.error('Error syncing Bluesky notifications to inbox', {
+        error: error instanceof Error ? error.message : String(error),
+        accountId
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Reply to a Bluesky post from the social inbox
+   * @returns URI of the reply
+   */
+  async replyToMessage(
+    messageId: string,
+    replyContent: string,
+    userId: string
+  ): Promise<string> {
+    try {
+      const originalMessage = await this.socialInboxService.getMessage(messageId);
+      if (!originalMessage || originalMessage.platformType !== PlatformType.BLUESKY) {
+        throw new Error('Original message not found or not from Bluesky');
+      }
+
+      // Follows, likes and reposts have no post to reply to
+      if (!originalMessage.platformPostId) {
+        throw new Error('This Bluesky notification cannot be replied to');
+      }
+
+      const reply = await this.blueskyProvider.replyToPost(originalMessage.platformPostId, replyContent);
+
+      await this.socialInboxService.updateMessageStatus(messageId, MessageStatus.REPLIED);
+
+      logger.info('Successfully replied to Bluesky message from inbox', {
+        messageId,
+        replyUri: reply.uri,
+        userId
+      });
+
+      return reply.uri;
+    } catch (error) {
+      logger.error('Error replying to Bluesky message from inbox', {
+        error: error instanceof Error ? error.message : String(error),
+        messageId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Start background sync for Bluesky notifications
+   */
+  async startBackgroundSync(
+    accounts: Array<{
+      userId: string;
+      accountId: string;
+      organizationId?: string;
+    }>,
+    intervalMinutes: number = 10
+  ): Promise<void> {
+    logger.info('Starting Bluesky background sync', {
+      accountCount: accounts.length,
+      intervalMinutes
+    });
+
+    setInterval(async () => {
+      for (const account of accounts) {
+        await this.syncNotificationsToInbox(account.userId, account.accountId, account.organizationId);
+      }
+    }, intervalMinutes * 60 * 1000);
+  }
+
+  private async messageExists(platformId: string): Promise<boolean> {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) throw new Error('Database not configured');
+
+    const snapshot = await getDocs(query(
+      collection(firestore, 'inbox'),
+      where('platformType', '==', PlatformType.BLUESKY),
+      where('platformId', '==', platformId),
+      limit(1)
+    ));
+
+    return !snapshot.empty;
+  }
+
+  private convertNotificationToInboxMessage(
+    notification: BlueskyNotification,
+    accountId: string,
+    userId: string,
+    organizationId?: string
+  ): Omit<InboxMessage, 'id'> | null {
+    const text: string = notification.record?.text || '';
+    let type: MessageType;
+    let content: string;
+    let priority: MessagePriority;
+    // The post that a reply would target
+    let platformPostId: string | undefined;
+
+    switch (notification.reason) {
+      case 'mention':
+        type = MessageType.MENTION;
+        content = text;
+        priority = MessagePriority.HIGH;
+        platformPostId = notification.uri;
+        break;
+      case 'reply':
+        type = MessageType.REPLY;
+        content = text;
+        priority = MessagePriority.HIGH;
+        platformPostId = notification.uri;
+        break;
+      case 'quote':
+        type = MessageType.MENTION;
+        content = text;
+        priority = MessagePriority.MEDIUM;
+        platformPostId = notification.uri;
+        break;
+      case 'like':
+        type = MessageType.MENTION;
+        content = 'Liked your post';
+        priority = MessagePriority.LOW;
+        break;
+      case 'repost':
+        type = MessageType.MENTION;
+        content = 'Reposted your post';
+        priority = MessagePriority.LOW;
+        break;
+      case 'follow':
+        type = MessageType.MENTION;
+        content = 'Started following you';
+        priority = MessagePriority.LOW;
+        break;
+      default:
+        return null; // Skip unsupported notification types
+    }
+
+    const createdAt = new Date(notification.record?.createdAt || notification.indexedAt);
+
+    return {
+      platformType: PlatformType.BLUESKY,
+      platformId: notification.uri,
+      accountId,
+      userId,
+      organizationId,
+      type,
+      status: MessageStatus.UNREAD,
+      priority,
+      sender: {
+        id: notification.author.did,
+        name: notification.author.displayName || notification.author.handle,
+        username: notification.author.handle,
+        profilePicture: notification.author.avatar
+      },
+      content,
+      // For likes and reposts, the post of ours that was engaged with
+      contentId: notification.reasonSubject,
+      platformPostId,
+      parentId: notification.record?.reply?.parent?.uri,
+      receivedAt: new Date(notification.indexedAt),
+      sentAt: createdAt
+    };
+  }
+}
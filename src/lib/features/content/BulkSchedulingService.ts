@@ -16,6 +16,8 @@ import { Firestore,
 import { v4 as uuidv4 } from 'uuid';
 import calendarService, { ContentItem, ContentSchedule, PostStatus } from './CalendarService';
 import { PlatformType } from '../platforms/PlatformProvider';
+import { bestTimeService } from '../analytics/BestTimeService';
+import { BestTimeModel, buildBestTimeModel, findBestSlotDates } from '../analytics/best-time-model';
 import Papa from 'papaparse';
 
 export interface BulkScheduleItem {
@@ -69,6 +71,8 @@ export interface TimeSlotConfig {
   postsPerDay?: number;    // For SPREAD strategy
   minTimeBetween?: number; // Minimum minutes between posts
   timezone: string;        // Timezone for scheduling
+  platformType?: PlatformType; // Platform benchmarks for OPTIMIZED strategy
+  model?: BestTimeModel;   // Learned engagement model for OPTIMIZED strategy
 }
 
 /**
@@ -402,6 +406,27 @@ export class BulkSchedulingService {
     return Papa.unparse(csvData);
   }
   
+  /**
+   * Generate OPTIMIZED time slots from the engagement model learned from
+   * the account's post history
+   */
+  async generateOptimizedTimeSlots(
+    startDate: Date,
+    endDate: Date,
+    count: number,
+    config: Omit<TimeSlotConfig, 'strategy' | 'model'>,
+    history: { userId: string; organizationId?: string; platformType: PlatformType; accountId?: string }
+  ): Promise<Date[]> {
+    const model = await bestTimeService.getModel({ ...history, timezone: config.timezone });
+
+    return this.generateTimeSlots(startDate, endDate, count, {
+      ...config,
+      strategy: TimeSlotStrategy.OPTIMIZED,
+      platformType: history.platformType,
+      model
+    });
+  }
+
   /**
    * Generate optimized time slots for scheduling
    */
@@ -516,42 +541,15 @@ export class BulkSchedulingService {
         break;
         
       case TimeSlotStrategy.OPTIMIZED:
-        // For a real implementation, this would use engagement data
-        // For now, we'll use some reasonable defaults
-        // Morning peak (9-11 AM), lunch (12-1 PM), evening peak (7-9 PM)
-        const peakHours = [
-          { start: 9, end: 11 },  // Morning
-          { start: 12, end: 13 }, // Lunch
-          { start: 19, end: 21 }  // Evening
-        ];
-        
-        let currentDay = new Date(startDate);
-        let slotCount = 0;
-        
-        while (slots.length < count && currentDay <= endDate) {
-          // Distribute posts among peak hours
-          for (const peak of peakHours) {
-            if (slots.length >= count) break;
-            
-            const peakSpan = peak.end - peak.start;
-            const randomOffset = Math.random() * peakSpan;
-            const hour = peak.start + randomOffset;
-            const hourPart = Math.floor(hour);
-            const minutePart = Math.round((hour - hourPart) * 60);
-            
-            const slotDate = new Date(currentDay);
-            slotDate.setHours(hourPart, minutePart, 0, 0);
-            
-            // Skip slots in the past
-            if (slotDate > new Date()) {
-              slots.push(slotDate);
-              slotCount++;
-            }
-          }
-          
-          // Move to next day
-          currentDay.setDate(currentDay.getDate() + 1);
-        }
+        // Highest expected engagement first, from the learned model or the platform's benchmarks
+        const model = config.model || buildBestTimeModel(config.platformType || 'default', [], { timezone: config.timezone });
+
+        slots.push(...findBestSlotDates(model, startDate, endDate, count, {
+          startHour: config.startHour,
+          endHour: config.endHour,
+          postsPerDay: config.postsPerDay,
+          minTimeBetween: config.minTimeBetween || 60
+        }));
         break;
     }
     
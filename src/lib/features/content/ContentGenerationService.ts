@@ -12,7 +12,15 @@
 
 import { aiService } from '../../ai/AIService';
 import { PlatformType } from '../platforms/PlatformProvider';
-import { postAnalyticsService } from '../analytics/PostAnalyticsService';
+import { bestTimeService } from '../analytics/BestTimeService';
+import {
+  BestTimeModel,
+  BestTimeSlot,
+  DAY_NAMES,
+  buildBestTimeModel,
+  describeBestTime,
+  rankBestTimes
+} from '../analytics/best-time-model';
 import { logger } from '../../core/logging/logger';
 
 /**
@@ -78,6 +86,10 @@ export interface BestTimeRecommendation {
   timezone: string;
   confidence: number; // 0-1
   expectedEngagementRate: number;
+  // 95% interval of the expected engagement rate
+  confidenceInterval?: { lower: number; upper: number };
+  // Posts in the history at this hour of the week
+  postCount?: number;
   reasoning: string;
 }
 
@@ -689,172 +701,109 @@ Example: socialmedia|high|high|high|marketing`;
   }
 
   /**
-   * Get best time to post recommendations based on analytics
+   * Get best time to post recommendations from the hour-of-week model built
+   * on the user's (or organization's) post metrics. Recommendations are
+   * deterministic; no AI is involved. Without post history, or when the
+   * metrics cannot be loaded, the platform's benchmark times are returned.
    */
   async getBestTimeToPost(
     userId: string,
     platformType: PlatformType,
-    timezone: string = 'America/New_York'
+    timezone: string = 'America/New_York',
+    options: { organizationId?: string; accountId?: string; count?: number } = {}
   ): Promise<BestTimeRecommendation[]> {
+    const count = options.count || 3;
+
     try {
       logger.info('Analyzing best time to post', {
         userId,
         platform: platformType,
-        timezone
+        timezone,
+        accountId: options.accountId
       });
 
-      // Get user's historical analytics
-      const analytics = await postAnalyticsService.getAggregatedAnalytics(userId, {
+      const { model, slots } = await bestTimeService.getBestTimes({
+        userId,
+        organizationId: options.organizationId,
         platformType,
-        limit: 100
-      });
+        accountId: options.accountId,
+        timezone
+      }, count);
 
-      if (analytics.totalPosts === 0) {
-        // No historical data, return general recommendations
-        return this.getDefaultTimeRecommendations(platformType, timezone);
+      if (model.postCount === 0 || slots.length === 0) {
+        return this.getDefaultTimeRecommendations(platformType, timezone, count);
       }
 
-      // Analyze time series data for patterns
-      const timePatterns = this.analyzeTimePatterns(analytics.timeSeries);
-
-      // Generate recommendations
-      const recommendations: BestTimeRecommendation[] = timePatterns
-        .sort((a, b) => b.engagementRate - a.engagementRate)
-        .slice(0, 3)
-        .map((pattern, index) => ({
-          dayOfWeek: pattern.dayOfWeek,
-          hour: pattern.hour,
-          timezone,
-          confidence: Math.max(0.5, 1 - (index * 0.15)),
-          expectedEngagementRate: pattern.engagementRate,
-          reasoning: `Based on ${pattern.postCount} posts, your average engagement rate at this time is ${pattern.engagementRate.toFixed(2)}%`
-        }));
-
-      return recommendations;
+      return this.toTimeRecommendations(model, slots);
     } catch (error) {
       logger.error('Failed to get best time to post', {
         error: error instanceof Error ? error.message : String(error)
       });
-      return this.getDefaultTimeRecommendations(platformType, timezone);
+      return this.getDefaultTimeRecommendations(platformType, timezone, count);
     }
   }
 
   /**
-   * Analyze time patterns from analytics data
+   * Benchmark times for a platform, from the model with no post history
    */
-  private analyzeTimePatterns(timeSeries: any[]): any[] {
-    // Group by day of week and hour
-    const patterns: Record<string, any> = {};
-
-    timeSeries.forEach(entry => {
-      const date = new Date(entry.date);
-      const dayOfWeek = date.toLocaleDateString('en-US', { weekday: 'long' });
-      const hour = date.getHours();
-      const key = `${dayOfWeek}_${hour}`;
-
-      if (!patterns[key]) {
-        patterns[key] = {
-          dayOfWeek,
-          hour,
-          postCount: 0,
-          totalEngagement: 0,
-          totalReach: 0
-        };
-      }
-
-      patterns[key].postCount += entry.posts;
-      patterns[key].totalEngagement += entry.engagement;
-      patterns[key].totalReach += entry.reach;
-    });
+  private getDefaultTimeRecommendations(
+    platformType: PlatformType,
+    timezone: string,
+    count: number = 3
+  ): BestTimeRecommendation[] {
+    const model = buildBestTimeModel(platformType, [], { timezone });
+    return this.toTimeRecommendations(model, rankBestTimes(model, count));
+  }
 
-    // Calculate engagement rates
-    return Object.values(patterns).map(pattern => ({
-      ...pattern,
-      engagementRate: pattern.totalReach > 0
-        ? (pattern.totalEngagement / pattern.totalReach) * 100
-        : 0
+  private toTimeRecommendations(model: BestTimeModel, slots: BestTimeSlot[]): BestTimeRecommendation[] {
+    return slots.map(slot => ({
+      dayOfWeek: DAY_NAMES[slot.dayOfWeek],
+      hour: slot.hour,
+      timezone: model.timezone,
+      confidence: slot.confidence,
+      expectedEngagementRate: slot.expectedEngagementRate,
+      confidenceInterval: slot.confidenceInterval,
+      postCount: slot.postCount,
+      reasoning: describeBestTime(model, slot)
     }));
   }
 
   /**
-   * Get default time recommendations for a platform
+   * Explain best time recommendations in plain language. The AI only words
+   * the explanation; it does not change the recommended times.
    */
-  private getDefaultTimeRecommendations(
+  async explainBestTimes(
+    recommendations: BestTimeRecommendation[],
     platformType: PlatformType,
-    timezone: string
-  ): BestTimeRecommendation[] {
-    const recommendations: Record<PlatformType, BestTimeRecommendation[]> = {
-      [PlatformType.INSTAGRAM]: [
-        {
-          dayOfWeek: 'Wednesday',
-          hour: 11,
-          timezone,
-          confidence: 0.7,
-          expectedEngagementRate: 3.5,
-          reasoning: 'Industry average shows high engagement on Wednesday mornings'
-        },
-        {
-          dayOfWeek: 'Friday',
-          hour: 14,
-          timezone,
-          confidence: 0.7,
-          expectedEngagementRate: 3.2,
-          reasoning: 'Friday afternoons typically see good engagement'
-        }
-      ],
-      [PlatformType.TWITTER]: [
-        {
-          dayOfWeek: 'Tuesday',
-          hour: 9,
-          timezone,
-          confidence: 0.7,
-          expectedEngagementRate: 2.8,
-          reasoning: 'Weekday mornings are optimal for Twitter engagement'
-        }
-      ],
-      [PlatformType.FACEBOOK]: [
-        {
-          dayOfWeek: 'Thursday',
-          hour: 13,
-          timezone,
-          confidence: 0.7,
-          expectedEngagementRate: 3.0,
-          reasoning: 'Midweek lunch hours show strong engagement'
-        }
-      ],
-      [PlatformType.LINKEDIN]: [
-        {
-          dayOfWeek: 'Tuesday',
-          hour: 10,
-          timezone,
-          confidence: 0.75,
-          expectedEngagementRate: 4.0,
-          reasoning: 'Business hours on weekdays are best for LinkedIn'
-        }
-      ],
-      [PlatformType.TIKTOK]: [
-        {
-          dayOfWeek: 'Friday',
-          hour: 19,
-          timezone,
-          confidence: 0.7,
-          expectedEngagementRate: 5.0,
-          reasoning: 'Evening hours on weekends see peak TikTok activity'
-        }
-      ],
-      [PlatformType.YOUTUBE]: [
-        {
-          dayOfWeek: 'Saturday',
-          hour: 15,
-          timezone,
-          confidence: 0.7,
-          expectedEngagementRate: 4.5,
-          reasoning: 'Weekend afternoons are popular for video consumption'
-        }
-      ]
-    };
-
-    return recommendations[platformType] || [];
+    userId: string,
+    organizationId?: string
+  ): Promise<string> {
+    const facts = recommendations.map(recommendation =>
+      `- ${recommendation.dayOfWeek} ${recommendation.hour}:00 (${recommendation.timezone}): ${recommendation.reasoning}`
+    ).join('\n');
+
+    try {
+      const prompt = `Explain to a social media manager why these are their best times to post on ${platformType}.
+
+${facts}
+
+Use only the facts above. Do not suggest other times. Keep it under 100 words.`;
+
+      const aiResponse = await aiService.processChatbotRequest({
+        userId,
+        organizationId: organizationId || 'system',
+        message: prompt,
+        conversationHistory: [],
+        context: []
+      });
+
+      return aiResponse.output.trim();
+    } catch (error) {
+      logger.error('Failed to explain best times', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return recommendations.map(recommendation => recommendation.reasoning).join('. ');
+    }
   }
 }
 
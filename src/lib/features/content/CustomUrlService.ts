@@ -2,6 +2,8 @@ import { getFirestore, FieldValue } from 'firebase-admin/firestore';
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
 import { SubscriptionService } from '../subscription/SubscriptionService';
+import { pushSocialEngagement } from '../crm/events';
+import { EngagementIdentity, SocialEngagementType } from '../crm/models/Activity';
 
 // Get Firestore instance
 const firestore = getFirestore();
@@ -347,6 +349,8 @@ export class CustomUrlService {
       userAgent: string;
       referrer?: string;
       utm?: Record<string, string>;
+      // Who clicked, when known (e.g. a tracked link sent in a DM); the click is then logged on their CRM contact
+      contact?: EngagementIdentity;
     }
   ): Promise<void> {
     // Get URL details
@@ -403,6 +407,18 @@ export class CustomUrlService {
         clickCount: FieldValue.increment(1),
         updatedAt: new Date()
       });
+
+    if (clickData.contact && customUrl.organizationId) {
+      void pushSocialEngagement({
+        type: SocialEngagementType.LINK_CLICK,
+        organizationId: customUrl.organizationId,
+        sourceId: clickId,
+        identity: clickData.contact,
+        occurredAt: clickRecord.timestamp,
+        summary: `Clicked ${customUrl.title ? `"${customUrl.title}"` : 'a tracked link'}${clickData.utm?.campaign ? ` from campaign ${clickData.utm.campaign}` : ''}`,
+        url: customUrl.originalUrl
+      });
+    }
   }
   
   /**
@@ -22,6 +22,11 @@ import { firestore, storage } from '../../core/firebase';
 import { tieredModelRouter, TaskType } from '../../ai/models/tiered-model-router';
 import { User } from '../../core/models/User';
 import { logger } from '../../core/logging/logger';
+import { StorageService } from '../storage/StorageService';
+import { StorageConnectionStatus } from '../storage/types';
+import { AttachmentType, PostAttachment } from '../platforms/models/content';
+import { renderDesign, DesignExportFormat } from './design/renderer';
+import { DesignFont } from './design/fonts';
 
 /**
  * Design Template
@@ -168,6 +173,18 @@ export interface IconProperties {
   strokeWidth?: number;
 }
 
+/**
+ * A page of a multi-page design. Pages share the project's dimensions and
+ * default to its background.
+ */
+export interface DesignPage {
+  id: string;
+  name?: string;
+  elements: DesignElement[];
+  backgroundColor?: string;
+  backgroundImage?: string;
+}
+
 /**
  * Design Project
  */
@@ -186,6 +203,10 @@ export interface DesignProject {
       width: number;
       height: number;
     };
+    // Additional pages after the first; the first page is the elements above
+    pages?: DesignPage[];
+    // Font files for families not on Google Fonts
+    fonts?: DesignFont[];
   };
   
   // Export settings
@@ -287,6 +308,34 @@ export interface AIDesignSuggestion {
   applicationSteps?: string[];
 }
 
+/**
+ * Design Export Options
+ */
+export interface DesignExportOptions {
+  // Output size multiplier (default 1)
+  scale?: number;
+  // Page to export for PNG, JPG and SVG (default 0); PDFs include every page
+  pageIndex?: number;
+  // Storage connection to save to; defaults to the organization's first connected storage
+  connectionId?: string;
+}
+
+/**
+ * Exported design, ready to attach to a post
+ */
+export interface DesignExport {
+  url: string;
+  format: DesignExportFormat;
+  mimeType: string;
+  size: number;
+  width: number;
+  height: number;
+  pageCount: number;
+  // Media library record, when saved through a storage connection
+  mediaFileId?: string;
+  attachment: PostAttachment;
+}
+
 /**
  * Design Studio Service
  * Provides in-app design tools for creating visuals with AI assistance
@@ -746,36 +795,65 @@ export class DesignStudioService {
   
   /**
    * Export design project
+   * Renders the design server-side and saves it through the organization's
+   * storage, so the result can be attached to a scheduled post.
    */
   async exportProject(
     projectId: string,
-    format: 'png' | 'jpg' | 'svg' | 'pdf' = 'png',
-    userId: string
-  ): Promise<string> {
+    format: DesignExportFormat = 'png',
+    userId: string,
+    options: DesignExportOptions = {}
+  ): Promise<DesignExport> {
     try {
       const project = await this.getProject(projectId, userId);
       if (!project) {
         throw new Error('Project not found');
       }
       
-      // Generate export data (this would typically use a canvas library or service)
-      const exportData = await this.generateExportData(project, format);
+      const settings = project.exportSettings || ({} as Partial<DesignProject['exportSettings']>);
+      const rendered = await renderDesign(project.designData, {
+        format,
+        scale: options.scale,
+        pageIndex: options.pageIndex,
+        quality: settings.quality,
+        dpi: settings.dpi,
+        transparent: settings.transparent,
+        title: project.name
+      });
       
-      // Upload to storage
-      const fileName = `exports/${projectId}_${Date.now()}.${format}`;
-      const storageRef = ref(storage, fileName);
+      const fileName = `${projectId}_${Date.now()}.${format}`;
+      const stored = await this.storeExport(project, fileName, rendered.data, rendered.mimeType, options.connectionId);
       
-      const uploadResult = await uploadBytes(storageRef, exportData);
-      const downloadURL = await getDownloadURL(uploadResult.ref);
+      const designExport: DesignExport = {
+        url: stored.url,
+        format,
+        mimeType: rendered.mimeType,
+        size: rendered.data.length,
+        width: rendered.width,
+        height: rendered.height,
+        pageCount: rendered.pageCount,
+        mediaFileId: stored.mediaFileId,
+        attachment: {
+          id: stored.mediaFileId,
+          type: format === 'pdf' ? AttachmentType.DOCUMENT : AttachmentType.IMAGE,
+          url: stored.url,
+          mimeType: rendered.mimeType,
+          width: rendered.width,
+          height: rendered.height,
+          size: rendered.data.length,
+          title: project.name,
+          metadata: { designProjectId: projectId, pageCount: rendered.pageCount }
+        }
+      };
       
       logger.info('Design project exported', {
         projectId,
         format,
         userId,
-        downloadURL
+        downloadURL: stored.url
       });
       
-      return downloadURL;
+      return designExport;
     } catch (error) {
       logger.error('Error exporting design project', { error, projectId, userId });
       throw error;
@@ -891,48 +969,44 @@ export class DesignStudioService {
   }
   
   /**
-   * Generate export data (placeholder implementation)
+   * Save an export to the organization's storage connection, falling back to
+   * Firebase Storage for organizations without one
    */
-  private async generateExportData(project: DesignProject, format: string): Promise<Uint8Array> {
-    // This is a placeholder implementation
-    // In a real application, you would use a canvas library or service to render the design
+  private async storeExport(
+    project: DesignProject,
+    fileName: string,
+    data: Buffer,
+    mimeType: string,
+    connectionId?: string
+  ): Promise<{ url: string; mediaFileId?: string }> {
+    const storageService = StorageService.getInstance();
     
-    const canvas = document.createElement('canvas');
-    canvas.width = project.designData.dimensions.width;
-    canvas.height = project.designData.dimensions.height;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      throw new Error('Could not get canvas context');
+    if (!connectionId) {
+      const connections = await storageService.getConnections(project.organizationId);
+      const connected = connections.find(connection =>
+        connection.status === StorageConnectionStatus.CONNECTED ||
+        connection.status === StorageConnectionStatus.ACTIVE
+      );
+      connectionId = connected?.id;
     }
     
-    // Set background
-    ctx.fillStyle = project.designData.backgroundColor;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    // Render elements (simplified)
-    for (const element of project.designData.elements) {
-      if (element.type === 'text') {
-        const textProps = element.properties as TextProperties;
-        ctx.fillStyle = textProps.color;
-        ctx.font = `${textProps.fontSize}px ${textProps.fontFamily}`;
-        ctx.fillText(textProps.content, element.position.x, element.position.y);
-      }
-      // Add other element types as needed
+    if (connectionId) {
+      const mediaFile = await storageService.uploadFile(connectionId, data, {
+        filename: fileName,
+        folder: 'design-exports',
+        mimeType,
+        makePublic: true,
+        tags: ['design-export'],
+        metadata: { designProjectId: project.id }
+      });
+      
+      return { url: mediaFile.cdnUrl || mediaFile.url, mediaFileId: mediaFile.id };
     }
     
-    // Convert to blob
-    return new Promise((resolve, reject) => {
-      canvas.toBlob((blob) => {
-        if (blob) {
-          blob.arrayBuffer().then(buffer => {
-            resolve(new Uint8Array(buffer));
-          });
-        } else {
-          reject(new Error('Failed to generate export data'));
-        }
-      }, `image/${format}`, 0.9);
-    });
+    const storageRef = ref(storage, `exports/${fileName}`);
+    const uploadResult = await uploadBytes(storageRef, new Uint8Array(data), { contentType: mimeType });
+    
+    return { url: await getDownloadURL(uploadResult.ref) };
   }
   
   /**
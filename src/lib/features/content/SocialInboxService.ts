@@ -17,6 +17,8 @@ import {
 import { v4 as uuidv4 } from 'uuid';
 import { PlatformType } from '../platforms/PlatformProvider';
 import { firestore } from '@/lib/core/firebase';
+import { pushSocialEngagement } from '../crm/events';
+import { ActivityUtils, SocialEngagementType } from '../crm/models/Activity';
 
 // Lazy getter for firestore - avoids build-time initialization
 let _firestoreInstance: any = null;
@@ -33,7 +35,8 @@ export enum MessageType {
   COMMENT = 'comment',
   MENTION = 'mention',
   TAG = 'tag',
-  REPLY = 'reply'
+  REPLY = 'reply',
+  REVIEW = 'review'
 }
 
 export enum MessageStatus {
@@ -383,6 +386,14 @@ export class SocialInboxService {
       case PlatformType.MASTODON:
         platformReplyId = await this.handleMastodonReply(originalMessage, content, userId);
         break;
+
+      case PlatformType.BLUESKY:
+        platformReplyId = await this.handleBlueskyReply(originalMessage, content, userId);
+        break;
+
+      case PlatformType.GOOGLE_BUSINESS:
+        platformReplyId = await this.handleGoogleBusinessReply(originalMessage, content, userId);
+        break;
         
       default:
         // Fallback to legacy platform adapter if provided
@@ -422,6 +433,23 @@ export class SocialInboxService {
     };
     
     await setDoc(doc(collection(getFirestoreInstance(), 'inboxReplies'), replyRecord.id), replyRecord);
+
+    if (originalMessage.organizationId) {
+      void pushSocialEngagement({
+        type: SocialEngagementType.INBOX_REPLY,
+        organizationId: originalMessage.organizationId,
+        sourceId: replyRecord.id,
+        identity: {
+          handle: originalMessage.sender.username,
+          network: originalMessage.platformType,
+          name: originalMessage.sender.name
+        },
+        occurredAt: replyRecord.createdAt,
+        summary: `Replied to a ${originalMessage.type} from ${originalMessage.sender.name}`,
+        content: `They wrote: ${originalMessage.content}\n\nWe replied: ${content}`,
+        qualified: ActivityUtils.qualifiesAsLead(originalMessage)
+      });
+    }
     
     return updatedMessage;
   }
@@ -711,6 +739,79 @@ export class SocialInboxService {
     return replyId;
   }
   
+  /**
+   * Handle Bluesky replies using BlueskySocialInboxAdapter
+   */
+  private async handleBlueskyReply(
+    originalMessage: InboxMessage, 
+    content: string, 
+    userId: string
+  ): Promise<string | undefined> {
+    // Dynamic import to avoid circular dependencies
+    const { BlueskyProvider } = await import('../platforms/providers/BlueskyProvider');
+    const { BlueskySocialInboxAdapter } = await import('./BlueskySocialInboxAdapter');
+    
+    // Get Bluesky account credentials
+    const accountDoc = await getDoc(doc(collection(getFirestoreInstance(), 'connectedAccounts'), originalMessage.accountId));
+      
+    if (!accountDoc.exists()) {
+      throw new Error('Bluesky account not found');
+    }
+    
+    const accountData = accountDoc.data();
+    
+    const blueskyProvider = new BlueskyProvider(undefined, {
+      accessToken: accountData?.accessToken,
+      refreshToken: accountData?.refreshToken,
+      expiresAt: accountData?.expiresAt,
+      additionalData: accountData?.additionalData
+    });
+    
+    const adapter = new BlueskySocialInboxAdapter(blueskyProvider);
+    
+    return adapter.replyToMessage(originalMessage.id, content, userId);
+  }
+  
+  /**
+   * Handle Google Business review replies using GoogleBusinessSocialInboxAdapter
+   */
+  private async handleGoogleBusinessReply(
+    originalMessage: InboxMessage, 
+    content: string, 
+    userId: string
+  ): Promise<string | undefined> {
+    // Dynamic import to avoid circular dependencies
+    const { GoogleBusinessProvider } = await import('../platforms/providers/GoogleBusinessProvider');
+    const { GoogleBusinessSocialInboxAdapter } = await import('./GoogleBusinessSocialInboxAdapter');
+    
+    // Get Google Business account credentials
+    const accountDoc = await getDoc(doc(collection(getFirestoreInstance(), 'connectedAccounts'), originalMessage.accountId));
+      
+    if (!accountDoc.exists()) {
+      throw new Error('Google Business account not found');
+    }
+    
+    const accountData = accountDoc.data();
+    
+    const googleBusinessProvider = new GoogleBusinessProvider(
+      {
+        clientId: process.env.GOOGLE_CLIENT_ID || '',
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+        redirectUri: process.env.NEXT_PUBLIC_APP_URL + '/api/platforms/callback/social?platform=google_business' || ''
+      },
+      {
+        accessToken: accountData?.accessToken,
+        refreshToken: accountData?.refreshToken,
+        expiresAt: accountData?.expiresAt,
+        additionalData: accountData?.additionalData
+      }
+    );
+    
+    const adapter = new GoogleBusinessSocialInboxAdapter(googleBusinessProvider);
+    
+    return adapter.replyToMessage(originalMessage.id, content, userId);
+  }
+  
   /**
    * Handle legacy platform replies (fallback)
    */
@@ -771,6 +872,7 @@ export class SocialInboxService {
     };
     
     await setDoc(doc(collection(getFirestoreInstance(), 'inbox'), id), newMessage);
+    await this.notifySlack(newMessage);
     
     return newMessage;
   }
@@ -897,7 +999,29 @@ export class SocialInboxService {
     });
     
     const updatedDoc = await getDoc(messageRef);
-    return updatedDoc.data() as InboxMessage;
+    const updatedMessage = updatedDoc.data() as InboxMessage;
+
+    // Labelling a conversation as a lead creates it in the CRM when nobody matches
+    const previousLabels = (messageDoc.data() as InboxMessage).labels || [];
+    const isLead = (label: string) => label.toLowerCase() === 'lead';
+    if (updatedMessage.organizationId && labels.some(isLead) && !previousLabels.some(isLead)) {
+      void pushSocialEngagement({
+        type: SocialEngagementType.QUALIFIED_CONVERSATION,
+        organizationId: updatedMessage.organizationId,
+        sourceId: messageId,
+        identity: {
+          handle: updatedMessage.sender.username,
+          network: updatedMessage.platformType,
+          name: updatedMessage.sender.name
+        },
+        occurredAt: new Date(),
+        summary: `Conversation with ${updatedMessage.sender.name} marked as a lead`,
+        content: updatedMessage.content,
+        qualified: true
+      });
+    }
+
+    return updatedMessage;
   }
   
   /**
@@ -919,7 +1043,28 @@ export class SocialInboxService {
     });
     
     const updatedDoc = await getDoc(messageRef);
-    return updatedDoc.data() as InboxMessage;
+    const updatedMessage = updatedDoc.data() as InboxMessage;
+    await this.notifySlack(updatedMessage, (messageDoc.data() as InboxMessage).priority);
+    
+    return updatedMessage;
+  }
+  
+  /**
+   * Alert the organization's Slack channels routed for this message.
+   * Alerts never block the inbox, so failures are only logged.
+   */
+  private async notifySlack(message: InboxMessage, previousPriority?: MessagePriority): Promise<void> {
+    if (!message.organizationId) {
+      return;
+    }
+    
+    try {
+      // Lazy require - the Slack integration is server-only
+      const { default: slackIntegrationService } = require('@/lib/workflow/SlackIntegrationService');
+      await slackIntegrationService.notifyInboxMessage(message, previousPriority);
+    } catch (error) {
+      console.error('Error sending Slack inbox alert:', error);
+    }
   }
   
   /**
@@ -9,6 +9,8 @@ import { TikTokSocialInboxAdapter } from './TikTokSocialInboxAdapter';
 import { YouTubeSocialInboxAdapter } from './YouTubeSocialInboxAdapter';
 import { RedditSocialInboxAdapter } from './RedditSocialInboxAdapter';
 import { MastodonSocialInboxAdapter, createMastodonSocialInboxAdapter } from './MastodonSocialInboxAdapter';
+import { BlueskySocialInboxAdapter } from './BlueskySocialInboxAdapter';
+import { GoogleBusinessSocialInboxAdapter } from './GoogleBusinessSocialInboxAdapter';
 
 // Import providers
 import { TwitterProvider } from '../platforms/providers/TwitterProvider';
@@ -17,6 +19,8 @@ import { TikTokProvider } from '../platforms/providers/TikTokProvider';
 import { YouTubeProvider } from '../platforms/providers/YouTubeProvider';
 import { RedditProvider } from '../platforms/providers/RedditProvider';
 import { MastodonProvider } from '../platforms/providers/MastodonProvider';
+import { BlueskyProvider } from '../platforms/providers/BlueskyProvider';
+import { GoogleBusinessProvider } from '../platforms/providers/GoogleBusinessProvider';
 
 export interface SocialAccount {
   userId: string;
@@ -284,6 +288,12 @@ export class UnifiedSocialInboxManager {
         case PlatformType.MASTODON:
           await this.initializeMastodonAdapter(account);
           break;
+        case PlatformType.BLUESKY:
+          await this.initializeBlueskyAdapter(account);
+          break;
+        case PlatformType.GOOGLE_BUSINESS:
+          await this.initializeGoogleBusinessAdapter(account);
+          break;
         default:
           logger.warn('Unsupported platform type for social inbox', { 
             platformType: account.platformType 
@@ -427,6 +437,37 @@ export class UnifiedSocialInboxManager {
     this.adapters.set(PlatformType.MASTODON, adapter);
   }
 
+  private async initializeBlueskyAdapter(account: SocialAccount): Promise<void> {
+    const provider = new BlueskyProvider(undefined, {
+      accessToken: account.accessToken,
+      refreshToken: account.refreshToken,
+      expiresAt: account.expiresAt,
+      additionalData: account.additionalData
+    });
+
+    const adapter = new BlueskySocialInboxAdapter(provider);
+    this.adapters.set(PlatformType.BLUESKY, adapter);
+  }
+
+  private async initializeGoogleBusinessAdapter(account: SocialAccount): Promise<void> {
+    const provider = new GoogleBusinessProvider(
+      {
+        clientId: process.env.GOOGLE_CLIENT_ID || '',
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+        redirectUri: process.env.NEXT_PUBLIC_APP_URL + '/api/platforms/callback/social?platform=google_business' || ''
+      },
+      {
+        accessToken: account.accessToken,
+        refreshToken: account.refreshToken,
+        expiresAt: account.expiresAt,
+        additionalData: account.additionalData
+      }
+    );
+
+    const adapter = new GoogleBusinessSocialInboxAdapter(provider);
+    this.adapters.set(PlatformType.GOOGLE_BUSINESS, adapter);
+  }
+
   private async startPlatformSync(
     platformType: PlatformType,
     accounts: SocialAccount[],
@@ -492,6 +533,16 @@ export class UnifiedSocialInboxManager {
         messages.push(...notificationMessages);
       }
 
+      // Sync reviews (Google Business Profile)
+      if (adapter.syncReviewsToInbox) {
+        const reviewMessages = await adapter.syncReviewsToInbox(
+          account.userId,
+          account.accountId,
+          account.organizationId
+        );
+        messages.push(...reviewMessages);
+      }
+
       // Sync direct messages/conversations
       if (adapter.syncConversationsToInbox) {
         const conversationMessages = await adapter.syncConversationsToInbox(
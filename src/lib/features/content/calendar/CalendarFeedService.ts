@@ -0,0 +1,307 @@
+import { getFirebaseFirestore } from '../../../core/firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+  Timestamp
+} from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger, LogLevel } from '../../../core/logging/logger';
+import { scheduledPostService } from '../../scheduling/ScheduledPostService';
+import { campaignService } from '../../campaigns/CampaignService';
+import workflowService from '../workflow/WorkflowService';
+import { getUserOrganizationRole } from '../../../team/users/organization';
+import { PlatformType } from '../../platforms/PlatformProvider';
+import { CalendarManager } from './calendar-manager';
+import {
+  CalendarFeed,
+  CalendarFeedFilters,
+  CalendarFeedItem,
+  CalendarFeedScope,
+  calendarEventToFeedItem,
+  generateFeedToken,
+  hashFeedToken,
+  matchesFeedFilters,
+  scheduledPostToFeedItem,
+  toIcsEvent
+} from './calendar-feed';
+import { buildIcsCalendar, isValidTimezone } from './ics';
+
+// Feeds show a month of history and six months ahead
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 180;
+const FEED_REFRESH_MINUTES = 60;
+const MAX_FEED_ITEMS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PLATFORM_TYPES = Object.values(PlatformType) as string[];
+
+/**
+ * Error with a code the feed routes map to a status
+ */
+export class CalendarFeedError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'invalid' | 'not_found' | 'revoked' | 'forbidden'
+  ) {
+    super(message);
+    this.name = 'CalendarFeedError';
+  }
+}
+
+export interface CreateCalendarFeedInput {
+  name?: string;
+  scope: CalendarFeedScope;
+  organizationId: string;
+  teamId?: string;
+  timezone?: string;
+  filters?: CalendarFeedFilters;
+}
+
+export type CalendarFeedSummary = Omit<CalendarFeed, 'tokenHash'> & { status: 'active' | 'revoked' };
+
+/**
+ * Secret iCalendar feeds of scheduled posts and calendar events
+ */
+export class CalendarFeedService {
+  private logger = new Logger({
+    minLevel: LogLevel.INFO,
+    enableConsole: true,
+    enableRemote: process.env.NODE_ENV === 'production'
+  });
+  private calendarManager = new CalendarManager();
+
+  private getFirestore() {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) throw new Error('Firestore not configured');
+    return firestore;
+  }
+
+  /**
+   * Create a feed. The URL carries the only copy of the token, so it is
+   * returned here and never again.
+   */
+  async createFeed(
+    input: CreateCalendarFeedInput,
+    userId: string
+  ): Promise<{ feed: CalendarFeedSummary; url: string; webcalUrl: string }> {
+    if (input.scope !== 'user' && input.scope !== 'team') {
+      throw new CalendarFeedError('Scope must be user or team', 'invalid');
+    }
+
+    const timezone = input.timezone || 'UTC';
+    if (!isValidTimezone(timezone)) {
+      throw new CalendarFeedError(`Unknown timezone: ${timezone}`, 'invalid');
+    }
+
+    const filters = sanitizeFilters(input.filters);
+    const token = generateFeedToken();
+    const feed: CalendarFeed = {
+      id: uuidv4(),
+      name: input.name?.trim() || (input.scope === 'team' ? 'Team content calendar' : 'My content calendar'),
+      scope: input.scope,
+      organizationId: input.organizationId,
+      userId,
+      ...(input.scope === 'team' && input.teamId ? { teamId: input.teamId } : {}),
+      timezone,
+      filters,
+      tokenHash: hashFeedToken(token),
+      createdAt: Timestamp.now(),
+      accessCount: 0
+    };
+
+    await setDoc(doc(this.getFirestore(), 'calendar_feeds', feed.id), feed);
+    this.logger.info('Created calendar feed', { feedId: feed.id, scope: feed.scope, organizationId: feed.organizationId });
+
+    const url = `${process.env.NEXT_PUBLIC_APP_URL || ''}/api/calendar/feeds/${token}.ics`;
+    return { feed: toSummary(feed), url, webcalUrl: url.replace(/^https?:\/\//, 'webcal://') };
+  }
+
+  async getFeed(feedId: string): Promise<CalendarFeedSummary | null> {
+    const feedSnap = await getDoc(doc(this.getFirestore(), 'calendar_feeds', feedId));
+    return feedSnap.exists() ? toSummary(feedSnap.data() as CalendarFeed) : null;
+  }
+
+  /**
+   * Feeds a user can see in an organization: their own and the team's
+   */
+  async listFeeds(organizationId: string, userId: string): Promise<CalendarFeedSummary[]> {
+    const feedSnap = await getDocs(
+      query(collection(this.getFirestore(), 'calendar_feeds'), where('organizationId', '==', organizationId))
+    );
+
+    return feedSnap.docs
+      .map(feedDoc => feedDoc.data() as CalendarFeed)
+      .filter(feed => feed.scope === 'team' || feed.userId === userId)
+      .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis())
+      .map(toSummary);
+  }
+
+  /**
+   * Revoke a feed; calendars subscribed to it stop updating
+   */
+  async revokeFeed(feedId: string, userId: string): Promise<CalendarFeedSummary> {
+    const feedRef = doc(this.getFirestore(), 'calendar_feeds', feedId);
+    const feedSnap = await getDoc(feedRef);
+    if (!feedSnap.exists()) {
+      throw new CalendarFeedError('Feed not found', 'not_found');
+    }
+
+    const feed = feedSnap.data() as CalendarFeed;
+    if (feed.revokedAt) {
+      return toSummary(feed);
+    }
+
+    const revokedAt = Timestamp.now();
+    await updateDoc(feedRef, { revokedAt, revokedBy: userId });
+    this.logger.info('Revoked calendar feed', { feedId, userId });
+
+    return toSummary({ ...feed, revokedAt, revokedBy: userId });
+  }
+
+  /**
+   * Render the iCalendar document for a feed token
+   */
+  async renderFeed(token: string, now: Date = new Date()): Promise<{ feed: CalendarFeedSummary; ics: string }> {
+    const feedSnap = await getDocs(
+      query(collection(this.getFirestore(), 'calendar_feeds'), where('tokenHash', '==', hashFeedToken(token)))
+    );
+    if (feedSnap.empty) {
+      throw new CalendarFeedError('Feed not found', 'not_found');
+    }
+
+    const feed = feedSnap.docs[0].data() as CalendarFeed;
+    if (feed.revokedAt) {
+      throw new CalendarFeedError('This feed has been revoked', 'revoked');
+    }
+
+    // A feed stops working when its owner leaves the organization
+    if (!(await getUserOrganizationRole(feed.userId, feed.organizationId))) {
+      throw new CalendarFeedError('The owner of this feed no longer has access', 'forbidden');
+    }
+
+    const items = await this.getFeedItems(feed, now);
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+    const ics = buildIcsCalendar({
+      name: feed.name,
+      timezone: feed.timezone,
+      refreshMinutes: FEED_REFRESH_MINUTES,
+      events: items.map(item => toIcsEvent(item, appUrl))
+    }, now);
+
+    updateDoc(feedSnap.docs[0].ref, { lastAccessedAt: Timestamp.fromDate(now), accessCount: increment(1) })
+      .catch(error => this.logger.warn('Failed to record calendar feed access', { feedId: feed.id, error }));
+
+    return { feed: toSummary(feed), ics };
+  }
+
+  /**
+   * Scheduled posts and calendar events in the feed's window, filtered, with
+   * each item's approval state
+   */
+  private async getFeedItems(feed: CalendarFeed, now: Date): Promise<CalendarFeedItem[]> {
+    const startDate = new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS);
+    const endDate = new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS);
+
+    const [posts, eventResult, campaignPostIds] = await Promise.all([
+      scheduledPostService.getScheduledPostsInRange(
+        feed.scope === 'user' ? { userId: feed.userId } : { organizationId: feed.organizationId },
+        startDate,
+        endDate,
+        MAX_FEED_ITEMS
+      ),
+      this.calendarManager.getOrganizationEvents(feed.organizationId, startDate, endDate, {
+        limit: MAX_FEED_ITEMS,
+        ...(feed.teamId ? { team: feed.teamId } : {})
+      }),
+      this.getCampaignPostIds(feed)
+    ]);
+
+    const events = feed.scope === 'user'
+      ? eventResult.events.filter(event => event.createdByUserId === feed.userId || event.assignedToUserId === feed.userId)
+      : eventResult.events;
+
+    const items = posts
+      // Posts of other organizations the user belongs to stay out of the feed
+      .filter(post => post.organizationId === feed.organizationId && post.status !== 'deleted')
+      .map(scheduledPostToFeedItem)
+      .concat(events.map(calendarEventToFeedItem))
+      .filter(item => matchesFeedFilters(item, feed.filters, campaignPostIds))
+      .sort((a, b) => a.start.getTime() - b.start.getTime())
+      .slice(0, MAX_FEED_ITEMS);
+
+    for (const item of items) {
+      if (item.timezone && !isValidTimezone(item.timezone)) {
+        delete item.timezone;
+      }
+    }
+
+    await this.attachApprovalStates(items);
+    return items;
+  }
+
+  private async attachApprovalStates(items: CalendarFeedItem[]): Promise<void> {
+    const contentIds = items
+      .map(item => item.contentId)
+      .filter((id, index, ids): id is string => !!id && ids.indexOf(id) === index);
+
+    const statuses = await Promise.all(contentIds.map(contentId =>
+      workflowService.getWorkflowStatus(contentId).catch(() => null)
+    ));
+
+    const states: Record<string, CalendarFeedItem['approvalState']> = {};
+    statuses.forEach((status, index) => {
+      if (status) states[contentIds[index]] = status.currentState;
+    });
+
+    for (const item of items) {
+      const state = item.contentId ? states[item.contentId] : undefined;
+      if (state) item.approvalState = state;
+    }
+  }
+
+  private async getCampaignPostIds(feed: CalendarFeed): Promise<string[]> {
+    if (!feed.filters.campaignIds || feed.filters.campaignIds.length === 0) {
+      return [];
+    }
+
+    const campaigns = await Promise.all(feed.filters.campaignIds.map(id => campaignService.getCampaign(id)));
+    return campaigns
+      .filter(campaign => campaign && campaign.organizationId === feed.organizationId)
+      .reduce<string[]>((ids, campaign) => ids.concat(
+        campaign!.posts.map(post => post.postId).filter((id): id is string => !!id)
+      ), []);
+  }
+}
+
+/**
+ * Keep only known platforms and well-formed ids; Firestore rejects undefined
+ */
+function sanitizeFilters(filters: CalendarFeedFilters | undefined): CalendarFeedFilters {
+  const strings = (values: unknown) =>
+    Array.isArray(values) ? values.filter((value): value is string => typeof value === 'string' && value.length > 0) : [];
+
+  const platforms = strings(filters?.platforms).filter(platform => PLATFORM_TYPES.indexOf(platform) !== -1) as PlatformType[];
+  const campaignIds = strings(filters?.campaignIds);
+  const statuses = strings(filters?.statuses);
+
+  return {
+    ...(platforms.length > 0 ? { platforms } : {}),
+    ...(campaignIds.length > 0 ? { campaignIds } : {}),
+    ...(statuses.length > 0 ? { statuses } : {})
+  };
+}
+
+function toSummary(feed: CalendarFeed): CalendarFeedSummary {
+  const { tokenHash, ...summary } = feed;
+  return { ...summary, status: feed.revokedAt ? 'revoked' : 'active' };
+}
+
+const calendarFeedService = new CalendarFeedService();
+
+export default calendarFeedService;
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import type { Timestamp } from 'firebase/firestore';
+import type { ScheduledPost } from '../../scheduling/ScheduledPostService';
+import type { CalendarEvent } from './calendar-manager';
+import type { WorkflowState } from '../models/workflow';
+import type { PlatformType } from '../../platforms/PlatformProvider';
+import { IcsEvent } from './ics';
+
+/**
+ * Calendar feeds
+ *
+ * Secret iCalendar subscription URLs for the content calendar. Feeds cover
+ * one user's items or their whole team's, with optional filters. Only a hash
+ * of the feed token is stored.
+ */
+
+// Posts take a slot this long in subscribers' calendars
+const POST_DURATION_MINUTES = 15;
+const DEFAULT_EVENT_DURATION_MINUTES = 30;
+const MAX_DESCRIPTION_TEXT = 1000;
+
+/**
+ * Whose items a feed shows: the feed owner's, or everyone's in the organization
+ */
+export type CalendarFeedScope = 'user' | 'team';
+
+export interface CalendarFeedFilters {
+  platforms?: PlatformType[];
+  campaignIds?: string[];
+  // Post or calendar event statuses, e.g. scheduled, published
+  statuses?: string[];
+}
+
+export interface CalendarFeed {
+  id: string;
+  name: string;
+  scope: CalendarFeedScope;
+  organizationId: string;
+  userId: string;
+  // Narrows a team feed to calendar events of one team within the organization
+  teamId?: string;
+  timezone: string;
+  filters: CalendarFeedFilters;
+  tokenHash: string;
+  createdAt: Timestamp;
+  revokedAt?: Timestamp;
+  revokedBy?: string;
+  lastAccessedAt?: Timestamp;
+  accessCount: number;
+}
+
+/**
+ * A scheduled post or calendar event, ready to filter and render
+ */
+export interface CalendarFeedItem {
+  kind: 'post' | 'event';
+  id: string;
+  title: string;
+  start: Date;
+  durationMinutes: number;
+  timezone?: string;
+  platforms: string[];
+  status: string;
+  campaignIds: string[];
+  contentId?: string;
+  approvalState?: WorkflowState;
+  text?: string;
+  rrule?: string;
+  updatedAt?: Date;
+}
+
+export function generateFeedToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function hashFeedToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function scheduledPostToFeedItem(post: ScheduledPost): CalendarFeedItem {
+  const campaignId = post.metadata?.campaignId;
+
+  return {
+    kind: 'post',
+    id: post.id || '',
+    title: post.post.title || excerpt(post.post.content, 60) || 'Untitled post',
+    start: toDate(post.scheduledFor || post.schedule.publishAt),
+    durationMinutes: POST_DURATION_MINUTES,
+    timezone: post.schedule?.timezone,
+    platforms: [post.post.platformType],
+    status: post.status,
+    campaignIds: typeof campaignId === 'string' ? [campaignId] : [],
+    contentId: typeof post.metadata?.contentId === 'string' ? post.metadata.contentId : post.id,
+    text: post.post.content,
+    updatedAt: post.updatedAt ? toDate(post.updatedAt) : undefined
+  };
+}
+
+export function calendarEventToFeedItem(event: CalendarEvent): CalendarFeedItem {
+  const campaignId = event.metadata?.campaignId;
+
+  return {
+    kind: 'event',
+    id: event.id || '',
+    title: event.title,
+    start: toDate(event.scheduledTime),
+    durationMinutes: event.duration || DEFAULT_EVENT_DURATION_MINUTES,
+    platforms: event.platforms.map(platform => platform.platformId.toLowerCase()),
+    status: event.status,
+    campaignIds: typeof campaignId === 'string' ? [campaignId] : [],
+    contentId: event.contentId,
+    text: event.description,
+    rrule: event.recurrenceRule,
+    updatedAt: event.updatedAt ? toDate(event.updatedAt) : undefined
+  };
+}
+
+/**
+ * Whether an item passes a feed's filters. Campaign posts are matched by the
+ * campaign's own post list as well as by the item's campaign metadata.
+ * @param campaignPostIds Post and content ids belonging to the filtered campaigns
+ */
+export function matchesFeedFilters(
+  item: CalendarFeedItem,
+  filters: CalendarFeedFilters,
+  campaignPostIds: string[] = []
+): boolean {
+  if (filters.platforms && filters.platforms.length > 0 &&
+    !item.platforms.some(platform => filters.platforms!.indexOf(platform as PlatformType) !== -1)) {
+    return false;
+  }
+
+  if (filters.statuses && filters.statuses.length > 0 && filters.statuses.indexOf(item.status) === -1) {
+    return false;
+  }
+
+  if (filters.campaignIds && filters.campaignIds.length > 0) {
+    const inCampaign = item.campaignIds.some(id => filters.campaignIds!.indexOf(id) !== -1) ||
+      campaignPostIds.indexOf(item.id) !== -1 ||
+      (!!item.contentId && campaignPostIds.indexOf(item.contentId) !== -1);
+    if (!inCampaign) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Render an item as an iCalendar event, with platform, status and approval
+ * state in the description
+ */
+export function toIcsEvent(item: CalendarFeedItem, appUrl: string): IcsEvent {
+  const details = [
+    `Platform: ${item.platforms.length > 0 ? item.platforms.map(humanize).join(', ') : 'None'}`,
+    `Status: ${humanize(item.status)}`
+  ];
+  if (item.approvalState) {
+    details.push(`Approval: ${humanize(item.approvalState)}`);
+  }
+
+  const url = item.kind === 'post' && item.contentId
+    ? `${appUrl}/dashboard/content/editor?id=${encodeURIComponent(item.contentId)}`
+    : `${appUrl}/dashboard/content/calendar`;
+
+  return {
+    uid: `${item.kind}-${item.id}@irisync`,
+    start: item.start,
+    end: new Date(item.start.getTime() + item.durationMinutes * 60 * 1000),
+    summary: item.kind === 'post' ? `[${item.platforms.map(humanize).join(', ')}] ${item.title}` : item.title,
+    description: [details.join('\n'), item.text ? excerpt(item.text, MAX_DESCRIPTION_TEXT) : '', url]
+      .filter(part => part.length > 0)
+      .join('\n\n'),
+    url,
+    categories: item.platforms.map(humanize),
+    status: item.status === 'cancelled' || item.status === 'deleted'
+      ? 'CANCELLED'
+      : item.status === 'draft' ? 'TENTATIVE' : 'CONFIRMED',
+    ...(item.timezone ? { timezone: item.timezone } : {}),
+    ...(item.rrule ? { rrule: item.rrule } : {}),
+    ...(item.updatedAt ? { lastModified: item.updatedAt } : {})
+  };
+}
+
+function humanize(value: string): string {
+  const text = value.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function excerpt(text: string, length: number): string {
+  const trimmed = (text || '').trim();
+  return trimmed.length > length ? `${trimmed.slice(0, length - 1)}…` : trimmed;
+}
+
+// Dates come back from Firestore as Timestamps
+function toDate(value: any): Date {
+  if (value instanceof Date) return value;
+  if (typeof value?.toDate === 'function') return value.toDate();
+  return new Date(value);
+}
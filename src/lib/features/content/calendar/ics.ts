@@ -0,0 +1,287 @@
+/**
+ * iCalendar (RFC 5545) generation
+ *
+ * Builds VCALENDAR documents for calendar subscriptions. Event times are
+ * written as local times in an IANA timezone with a matching VTIMEZONE,
+ * derived from the runtime's Intl timezone data, so Google Calendar and
+ * Outlook place them correctly across daylight saving changes.
+ */
+
+const CRLF = '\r\n';
+// Content lines are folded at 75 octets
+const MAX_LINE_OCTETS = 75;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const UTC_TIMEZONES = ['UTC', 'Etc/UTC', 'GMT', 'Etc/GMT'];
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  url?: string;
+  categories?: string[];
+  status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  // IANA timezone to write the event's times in; the calendar timezone when omitted
+  timezone?: string;
+  rrule?: string;
+  lastModified?: Date;
+}
+
+export interface IcsCalendar {
+  name: string;
+  timezone: string;
+  events: IcsEvent[];
+  // Suggested refresh interval in minutes
+  refreshMinutes?: number;
+}
+
+export interface TimezoneTransition {
+  at: Date;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+/**
+ * Whether the runtime knows an IANA timezone
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * UTC offset of a timezone at an instant, in minutes east of UTC
+ */
+export function getTimezoneOffset(timezone: string, at: Date): number {
+  const parts = getFormatter(timezone).formatToParts(at);
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+
+  return Math.round((wallClock - Math.floor(at.getTime() / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Offset changes of a timezone between two instants, to the minute
+ */
+export function getTimezoneTransitions(timezone: string, from: Date, to: Date): TimezoneTransition[] {
+  const transitions: TimezoneTransition[] = [];
+  let previous = from.getTime();
+  let previousOffset = getTimezoneOffset(timezone, from);
+
+  for (let time = previous + DAY_MS; previous < to.getTime(); time += DAY_MS) {
+    const offset = getTimezoneOffset(timezone, new Date(time));
+
+    if (offset !== previousOffset) {
+      // Narrow the change down to the minute it happens
+      let low = previous;
+      let high = time;
+      while (high - low > MINUTE_MS) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (getTimezoneOffset(timezone, new Date(middle)) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+
+      transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+      previousOffset = offset;
+    }
+
+    previous = time;
+  }
+
+  return transitions;
+}
+
+/**
+ * VTIMEZONE describing a timezone's offsets between two instants
+ */
+export function buildVTimezone(timezone: string, from: Date, to: Date): string[] {
+  const initialOffset = getTimezoneOffset(timezone, from);
+  const transitions = getTimezoneTransitions(timezone, from, to);
+  const standardOffset = Math.min(initialOffset, ...transitions.map(transition => transition.offsetTo));
+
+  const observance = (start: string, offsetFrom: number, offsetTo: number) => {
+    const kind = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${start}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`
+    ];
+  };
+
+  const lines = [`BEGIN:VTIMEZONE`, `TZID:${timezone}`, `X-LIC-LOCATION:${timezone}`];
+  // The offset in force when the range starts, as an observance from long before it
+  lines.push(...observance('19700101T000000', initialOffset, initialOffset));
+  for (const transition of transitions) {
+    // Onsets are local times in the offset that applied before the change
+    lines.push(...observance(formatLocal(transition.at, transition.offsetFrom), transition.offsetFrom, transition.offsetTo));
+  }
+  lines.push('END:VTIMEZONE');
+
+  return lines;
+}
+
+/**
+ * Build a VCALENDAR document
+ * @param now Used for DTSTAMP and as the start of the timezone range
+ */
+export function buildIcsCalendar(calendar: IcsCalendar, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//IriSync//Content Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendar.name)}`,
+    `X-WR-TIMEZONE:${calendar.timezone}`
+  ];
+
+  if (calendar.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`);
+  }
+
+  // One VTIMEZONE per local timezone used, covering every event
+  const ranges: Record<string, { from: number; to: number }> = {};
+  for (const event of calendar.events) {
+    const timezone = event.timezone || calendar.timezone;
+    if (isUtc(timezone)) continue;
+
+    const range = ranges[timezone] || { from: now.getTime(), to: now.getTime() };
+    range.from = Math.min(range.from, event.start.getTime());
+    range.to = Math.max(range.to, event.end.getTime());
+    ranges[timezone] = range;
+  }
+  for (const timezone of Object.keys(ranges)) {
+    lines.push(...buildVTimezone(timezone, new Date(ranges[timezone].from - DAY_MS), new Date(ranges[timezone].to + DAY_MS)));
+  }
+
+  const stamp = formatUtc(now);
+  for (const event of calendar.events) {
+    const timezone = event.timezone || calendar.timezone;
+
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${event.uid}`);
+    lines.push(`DTSTAMP:${stamp}`);
+    lines.push(formatDateProperty('DTSTART', event.start, timezone));
+    lines.push(formatDateProperty('DTEND', event.end, timezone));
+    if (event.rrule) {
+      lines.push(`RRULE:${event.rrule.replace(/^RRULE:/, '')}`);
+    }
+    lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    if (event.categories && event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(',')}`);
+    }
+    if (event.status) {
+      lines.push(`STATUS:${event.status}`);
+    }
+    if (event.lastModified) {
+      lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join(CRLF) + CRLF;
+}
+
+/**
+ * Escape a TEXT value
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into 75-octet pieces without splitting characters
+ */
+export function foldIcsLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const pieces: string[] = [];
+  let piece = '';
+  let pieceOctets = 0;
+
+  for (const char of Array.from(line)) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts toward their length
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (pieceOctets + octets > limit) {
+      pieces.push(piece);
+      piece = '';
+      pieceOctets = 0;
+    }
+    piece += char;
+    pieceOctets += octets;
+  }
+  pieces.push(piece);
+
+  return pieces.join(`${CRLF} `);
+}
+
+function formatDateProperty(name: string, date: Date, timezone: string): string {
+  return isUtc(timezone)
+    ? `${name}:${formatUtc(date)}`
+    : `${name};TZID=${timezone}:${formatLocal(date, getTimezoneOffset(timezone, date))}`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Wall-clock time at a UTC offset, as a floating DATE-TIME
+function formatLocal(date: Date, offsetMinutes: number): string {
+  return formatUtc(new Date(date.getTime() + offsetMinutes * MINUTE_MS)).replace('Z', '');
+}
+
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const minutes = Math.abs(offsetMinutes);
+  const pad = (value: number) => (value < 10 ? '0' : '') + value;
+  return `${sign}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+function isUtc(timezone: string): boolean {
+  return UTC_TIMEZONES.indexOf(timezone) !== -1;
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  if (!formatters[timezone]) {
+    formatters[timezone] = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  }
+  return formatters[timezone];
+}
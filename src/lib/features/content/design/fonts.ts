@@ -0,0 +1,180 @@
+import axios from 'axios';
+import * as fontkit from 'fontkit';
+import { logger } from '../../../core/logging/logger';
+import { assertPublicUrl, publicAgents } from '../../../core/security/network';
+
+/**
+ * Web fonts for server-side design rendering
+ *
+ * librsvg (used by sharp) only sees system fonts, so design text is laid out
+ * with fontkit and drawn as glyph outlines. Fonts come from the project's own
+ * font assets first, then Google Fonts. Text in a font that can't be loaded
+ * falls back to an SVG <text> element.
+ */
+
+const GOOGLE_FONTS_CSS_URL = 'https://fonts.googleapis.com/css2';
+const FONT_REQUEST_TIMEOUT_MS = 10000;
+const MAX_FONT_BYTES = 10 * 1024 * 1024;
+
+// Families Google Fonts doesn't serve; these render with system fonts
+const SYSTEM_FAMILIES = [
+  'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui',
+  'arial', 'helvetica', 'times', 'times new roman', 'georgia', 'verdana', 'courier', 'courier new'
+];
+
+/**
+ * A font file supplied with a design, e.g. an uploaded font asset
+ */
+export interface DesignFont {
+  family: string;
+  url: string;
+  weight?: number | string;
+  style?: 'normal' | 'italic';
+}
+
+/**
+ * A font face needed to render text
+ */
+export interface FontRequest {
+  family: string;
+  weight: number;
+  style: 'normal' | 'italic';
+}
+
+/**
+ * Look up a loaded font face
+ */
+export type FontLookup = (request: FontRequest) => fontkit.Font | undefined;
+
+// Font files by URL, shared across renders
+const fontCache = new Map<string, Promise<fontkit.Font | null>>();
+
+/**
+ * Convert a CSS font weight to a number
+ */
+export function normalizeFontWeight(weight?: number | string): number {
+  if (weight === 'bold') {
+    return 700;
+  }
+
+  const numeric = typeof weight === 'number' ? weight : parseInt(weight || '', 10);
+  return numeric >= 100 && numeric <= 900 ? Math.round(numeric / 100) * 100 : 400;
+}
+
+/**
+ * Lookup key for a font face
+ */
+export function getFontKey(request: FontRequest): string {
+  return `${request.family.trim().toLowerCase()}|${request.weight}|${request.style}`;
+}
+
+/**
+ * Load the font faces a design uses
+ * @param requests Faces used by text elements
+ * @param customFonts Font files supplied with the design; these win over Google Fonts
+ * @returns Lookup returning undefined for faces that couldn't be loaded
+ */
+export async function loadFonts(requests: FontRequest[], customFonts: DesignFont[] = []): Promise<FontLookup> {
+  const unique = new Map<string, FontRequest>();
+  for (const request of requests) {
+    unique.set(getFontKey(request), request);
+  }
+
+  const loaded = new Map<string, fontkit.Font>();
+
+  await Promise.all(Array.from(unique.entries()).map(async ([key, request]) => {
+    const custom = findCustomFont(request, customFonts);
+    const url = custom ? custom.url : await resolveGoogleFontUrl(request);
+    const font = url ? await loadFontFile(url) : null;
+
+    if (font) {
+      loaded.set(key, font);
+    }
+  }));
+
+  return request => loaded.get(getFontKey(request));
+}
+
+/**
+ * Pick the supplied font closest to the requested face
+ */
+function findCustomFont(request: FontRequest, customFonts: DesignFont[]): DesignFont | undefined {
+  const family = request.family.trim().toLowerCase();
+  const candidates = customFonts.filter(font => font.family.trim().toLowerCase() === family);
+
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  const distance = (font: DesignFont) =>
+    Math.abs(normalizeFontWeight(font.weight) - request.weight) +
+    ((font.style || 'normal') === request.style ? 0 : 1000);
+
+  return candidates.slice().sort((a, b) => distance(a) - distance(b))[0];
+}
+
+/**
+ * Find the font file for a face on Google Fonts
+ */
+async function resolveGoogleFontUrl(request: FontRequest): Promise<string | null> {
+  const family = request.family.trim();
+  if (SYSTEM_FAMILIES.indexOf(family.toLowerCase()) !== -1) {
+    return null;
+  }
+
+  const familyParam = family.split(/\s+/).map(encodeURIComponent).join('+');
+  const italic = request.style === 'italic' ? 1 : 0;
+  const urls = [
+    `${GOOGLE_FONTS_CSS_URL}?family=${familyParam}:ital,wght@${italic},${request.weight}`,
+    // Not every family has every weight; fall back to its default face
+    `${GOOGLE_FONTS_CSS_URL}?family=${familyParam}`
+  ];
+
+  for (const url of urls) {
+    try {
+      const response = await axios.get<string>(url, { responseType: 'text', timeout: FONT_REQUEST_TIMEOUT_MS });
+      const match = /src:\s*url\(([^)]+)\)/.exec(response.data);
+
+      if (match) {
+        return match[1].replace(/['"]/g, '');
+      }
+    } catch (error) {
+      // Try the next form, then fall back to system fonts
+    }
+  }
+
+  logger.warn('Web font not found, falling back to system fonts', { family, weight: request.weight });
+  return null;
+}
+
+/**
+ * Download and parse a font file
+ */
+function loadFontFile(url: string): Promise<fontkit.Font | null> {
+  let font = fontCache.get(url);
+
+  if (!font) {
+    // Custom font URLs come from design documents
+    font = assertPublicUrl(url)
+      .then(() => axios.get<ArrayBuffer>(url, {
+        responseType: 'arraybuffer',
+        timeout: FONT_REQUEST_TIMEOUT_MS,
+        maxContentLength: MAX_FONT_BYTES,
+        ...publicAgents
+      }))
+      .then(response => {
+        const parsed = fontkit.create(Buffer.from(response.data));
+        return 'fonts' in parsed ? parsed.fonts[0] : parsed;
+      })
+      .catch(error => {
+        logger.warn('Failed to load font', { url, error: error instanceof Error ? error.message : String(error) });
+        // Allow a later render to retry
+        fontCache.delete(url);
+        return null;
+      });
+
+    fontCache.set(url, font);
+  }
+
+  return font;
+}
@@ -0,0 +1,1004 @@
+import axios from 'axios';
+import sharp from 'sharp';
+import PDFDocument from 'pdfkit';
+import * as fontkit from 'fontkit';
+import { logger } from '../../../core/logging/logger';
+import { assertPublicUrl, publicAgents } from '../../../core/security/network';
+import {
+  DesignElement,
+  DesignPage,
+  DesignProject,
+  TextProperties,
+  ImageProperties,
+  ShapeProperties,
+  IconProperties
+} from '../DesignStudioService';
+import { DesignFont, FontLookup, FontRequest, loadFonts, normalizeFontWeight } from './fonts';
+
+/**
+ * Server-side design rendering
+ *
+ * Each page of a design is built as an SVG document, which is exported as
+ * is, rasterized with sharp for PNG/JPG, or rasterized per page into a PDF.
+ * Remote images and icons are inlined so the SVG renders without network
+ * access, and text is drawn as glyph outlines so web fonts render exactly.
+ */
+
+export type DesignExportFormat = 'png' | 'jpg' | 'svg' | 'pdf';
+
+/**
+ * Render options
+ */
+export interface DesignRenderOptions {
+  format: DesignExportFormat;
+  // Output size multiplier (default 1)
+  scale?: number;
+  // Page to render for single-page formats (default 0)
+  pageIndex?: number;
+  // JPG quality, 1-100
+  quality?: number;
+  // PDF raster resolution (default 150)
+  dpi?: number;
+  // Leave the background out of PNG and SVG output
+  transparent?: boolean;
+  // PDF document title
+  title?: string;
+}
+
+/**
+ * A rendered design
+ */
+export interface RenderedDesign {
+  data: Buffer;
+  mimeType: string;
+  // Output size in pixels
+  width: number;
+  height: number;
+  pageCount: number;
+}
+
+/**
+ * Icon markup without its outer <svg> element
+ */
+export interface IconSvg {
+  viewBox: string;
+  body: string;
+}
+
+/**
+ * Remote resources a page needs, loaded ahead of building its SVG
+ */
+export interface RenderResources {
+  // Image URL to data URI
+  images: Map<string, string>;
+  // "iconSet:iconName" to icon markup
+  icons: Map<string, IconSvg>;
+  fonts: FontLookup;
+}
+
+type DesignData = DesignProject['designData'];
+type Dimensions = DesignData['dimensions'];
+
+export const DESIGN_EXPORT_MIME_TYPES: Record<DesignExportFormat, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf'
+};
+
+// Cairo can't allocate surfaces beyond this many pixels per side
+const MAX_RASTER_DIMENSION = 16384;
+const DEFAULT_PDF_DPI = 150;
+// CSS pixels per PDF point
+const PX_PER_POINT = 96 / 72;
+const ASSET_REQUEST_TIMEOUT_MS = 15000;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const ICONIFY_API_URL = process.env.ICONIFY_API_URL || 'https://api.iconify.design';
+
+// Icon set names used by the editor that differ from Iconify prefixes
+const ICON_SET_ALIASES: Record<string, string> = {
+  material: 'mdi',
+  'material-icons': 'ic',
+  fontawesome: 'fa6-solid',
+  'font-awesome': 'fa6-solid'
+};
+
+/**
+ * Context shared while building one page
+ */
+interface SvgContext {
+  resources: RenderResources;
+  dimensions: Dimensions;
+  defs: string[];
+  nextId: (prefix: string) => string;
+}
+
+/**
+ * Rectangular area of the canvas
+ */
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A line of wrapped text
+ */
+interface TextLine {
+  text: string;
+  // Whether the line was broken by wrapping rather than ending a paragraph
+  wrapped: boolean;
+}
+
+/**
+ * Get the pages of a design; the first page is the design's own elements
+ */
+export function getDesignPages(designData: DesignData): DesignPage[] {
+  const first: DesignPage = {
+    id: 'page-1',
+    elements: designData.elements || [],
+    backgroundColor: designData.backgroundColor,
+    backgroundImage: designData.backgroundImage
+  };
+
+  return [first].concat((designData.pages || []).map(page => ({
+    ...page,
+    backgroundColor: page.backgroundColor ?? designData.backgroundColor,
+    backgroundImage: page.backgroundImage ?? designData.backgroundImage
+  })));
+}
+
+/**
+ * Render a design for export
+ * @param designData Design to render
+ * @param options Format, scale and page options
+ * @returns Rendered file; PDFs contain every page, other formats one page
+ */
+export async function renderDesign(designData: DesignData, options: DesignRenderOptions): Promise<RenderedDesign> {
+  const { dimensions } = designData;
+  const scale = options.scale ?? 1;
+  const width = Math.round(dimensions.width * scale);
+  const height = Math.round(dimensions.height * scale);
+
+  if (!(scale > 0) || width < 1 || height < 1) {
+    throw new Error('Export scale must produce an image of at least 1x1 pixels');
+  }
+
+  const pages = getDesignPages(designData);
+  const pageIndex = options.pageIndex ?? 0;
+
+  if (options.format !== 'pdf' && !pages[pageIndex]) {
+    throw new Error(`Design has no page ${pageIndex + 1}`);
+  }
+
+  const selected = options.format === 'pdf' ? pages : [pages[pageIndex]];
+  const resources = await loadRenderResources(selected, designData.fonts);
+  const mimeType = DESIGN_EXPORT_MIME_TYPES[options.format];
+
+  if (options.format === 'svg') {
+    const svg = buildDesignSvg(selected[0], dimensions, resources, { scale, transparent: options.transparent });
+    return { data: Buffer.from(svg), mimeType, width, height, pageCount: 1 };
+  }
+
+  if (options.format === 'pdf') {
+    const data = await renderPdf(selected, dimensions, resources, scale, options.dpi || DEFAULT_PDF_DPI, options.title);
+    return { data, mimeType, width, height, pageCount: selected.length };
+  }
+
+  assertRasterSize(width, height);
+
+  if (options.format === 'png') {
+    const svg = buildDesignSvg(selected[0], dimensions, resources, { scale, transparent: options.transparent });
+    const data = await sharp(Buffer.from(svg)).png().toBuffer();
+    return { data, mimeType, width, height, pageCount: 1 };
+  }
+
+  const svg = buildDesignSvg(selected[0], dimensions, resources, { scale });
+  const data = await sharp(Buffer.from(svg))
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: normalizeQuality(options.quality) })
+    .toBuffer();
+
+  return { data, mimeType, width, height, pageCount: 1 };
+}
+
+/**
+ * Load the images, icons and fonts used by pages
+ * @param pages Pages to render
+ * @param customFonts Font files supplied with the design
+ */
+export async function loadRenderResources(pages: DesignPage[], customFonts: DesignFont[] = []): Promise<RenderResources> {
+  const imageUrls = new Set<string>();
+  const icons = new Map<string, IconProperties>();
+  const fontRequests: FontRequest[] = [];
+
+  for (const page of pages) {
+    if (page.backgroundImage) {
+      imageUrls.add(page.backgroundImage);
+    }
+
+    for (const element of page.elements) {
+      const properties = element.properties as any;
+
+      if ((element.type === 'image' || element.type === 'background') && properties?.src) {
+        imageUrls.add(properties.src);
+      } else if (element.type === 'icon' && properties?.iconName) {
+        icons.set(getIconKey(properties), properties);
+      } else if (element.type === 'text' && properties) {
+        fontRequests.push(getFontRequest(properties));
+      }
+    }
+  }
+
+  const [images, iconSvgs, fonts] = await Promise.all([
+    loadImages(Array.from(imageUrls)),
+    loadIcons(Array.from(icons.values())),
+    loadFonts(fontRequests, customFonts)
+  ]);
+
+  return { images, icons: iconSvgs, fonts };
+}
+
+/**
+ * Build the SVG document for a page
+ * @param page Page to build
+ * @param dimensions Design size in pixels
+ * @param resources Preloaded images, icons and fonts
+ * @param options.scale Output size multiplier
+ * @param options.transparent Leave out the background color
+ */
+export function buildDesignSvg(
+  page: DesignPage,
+  dimensions: Dimensions,
+  resources: RenderResources,
+  options: { scale?: number; transparent?: boolean } = {}
+): string {
+  const scale = options.scale ?? 1;
+  let idCounter = 0;
+  const context: SvgContext = {
+    resources,
+    dimensions,
+    defs: [],
+    nextId: prefix => `${prefix}-${++idCounter}`
+  };
+
+  const body: string[] = [];
+  const canvas = { x: 0, y: 0, width: dimensions.width, height: dimensions.height };
+
+  if (!options.transparent) {
+    body.push(`<rect width="${num(canvas.width)}" height="${num(canvas.height)}" fill="${escapeXml(page.backgroundColor || '#ffffff')}"/>`);
+  }
+
+  if (page.backgroundImage) {
+    body.push(renderImageSource(page.backgroundImage, canvas, 'cover', context));
+  }
+
+  // Lower layers first; elements on the same layer keep their order
+  const ordered = page.elements
+    .map((element, index) => ({ element, index }))
+    .sort((a, b) => ((a.element.position?.z || 0) - (b.element.position?.z || 0)) || (a.index - b.index));
+
+  for (const { element } of ordered) {
+    body.push(renderElement(element, context));
+  }
+
+  const defs = context.defs.length > 0 ? `<defs>${context.defs.join('')}</defs>` : '';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${num(dimensions.width * scale)}" height="${num(dimensions.height * scale)}" ` +
+    `viewBox="0 0 ${num(dimensions.width)} ${num(dimensions.height)}">${defs}${body.join('')}</svg>`;
+}
+
+/**
+ * Render one element with its rotation, opacity and shadow
+ */
+function renderElement(element: DesignElement, context: SvgContext): string {
+  const content = renderElementContent(element, context);
+  if (!content) {
+    return '';
+  }
+
+  const { x, y } = element.position;
+  const { width, height } = element.size;
+  const style = element.style || ({} as DesignElement['style']);
+  const attributes: string[] = [];
+
+  if (element.rotation) {
+    attributes.push(`transform="rotate(${num(element.rotation)} ${num(x + width / 2)} ${num(y + height / 2)})"`);
+  }
+
+  if (style.opacity !== undefined && style.opacity !== null) {
+    // Accept both 0-1 and percentage opacities
+    const opacity = clamp(style.opacity > 1 ? style.opacity / 100 : style.opacity, 0, 1);
+    if (opacity < 1) {
+      attributes.push(`opacity="${num(opacity)}"`);
+    }
+  }
+
+  if (style.shadow) {
+    const id = context.nextId('shadow');
+    context.defs.push(
+      `<filter id="${id}" x="-50%" y="-50%" width="200%" height="200%">` +
+      `<feDropShadow dx="${num(style.shadow.x)}" dy="${num(style.shadow.y)}" stdDeviation="${num(style.shadow.blur / 2)}" ` +
+      `flood-color="${escapeXml(style.shadow.color)}"/></filter>`
+    );
+    attributes.push(`filter="url(#${id})"`);
+  }
+
+  return `<g${attributes.length > 0 ? ' ' + attributes.join(' ') : ''}>${content}</g>`;
+}
+
+/**
+ * Render an element's content and border
+ */
+function renderElementContent(element: DesignElement, context: SvgContext): string {
+  const box = { x: element.position.x, y: element.position.y, width: element.size.width, height: element.size.height };
+  const properties = element.properties as any;
+
+  if (!properties) {
+    return '';
+  }
+
+  switch (element.type) {
+    case 'text':
+      return renderText(box, properties as TextProperties, context) + renderBorder(element, box);
+
+    case 'image':
+      return renderImage(box, properties as ImageProperties, element.style?.borderRadius, context) + renderBorder(element, box);
+
+    case 'shape':
+      return renderShape(element, box, properties as ShapeProperties, context);
+
+    case 'line':
+      return renderLine(element, box, properties as ShapeProperties);
+
+    case 'icon':
+      return renderIcon(box, properties as IconProperties, context);
+
+    case 'background': {
+      const canvas = { x: 0, y: 0, width: context.dimensions.width, height: context.dimensions.height };
+      return properties.src
+        ? renderImage(canvas, properties as ImageProperties, undefined, context)
+        : renderShape(element, canvas, { shapeType: 'rectangle', ...properties } as ShapeProperties, context);
+    }
+
+    default:
+      return '';
+  }
+}
+
+/**
+ * Render wrapped, aligned text
+ */
+function renderText(box: Box, properties: TextProperties, context: SvgContext): string {
+  const text = applyTextTransform(properties.content || '', properties.textTransform);
+  if (!text.trim()) {
+    return '';
+  }
+
+  const fontSize = properties.fontSize || 16;
+  const letterSpacing = properties.letterSpacing || 0;
+  const request = getFontRequest(properties);
+  const font = context.resources.fonts(request);
+  const measure = font
+    ? (value: string) => measureGlyphRun(font, value, fontSize, letterSpacing)
+    : (value: string) => estimateTextWidth(value, fontSize, letterSpacing);
+
+  const lines = wrapText(text, box.width, measure);
+  const lineHeight = resolveLineHeight(properties.lineHeight, fontSize);
+  const ascent = font ? (font.ascent / font.unitsPerEm) * fontSize : fontSize * 0.8;
+  const descent = font ? (-font.descent / font.unitsPerEm) * fontSize : fontSize * 0.2;
+  // Center the glyph box in each line box, as CSS does
+  const baselineOffset = (lineHeight - (ascent + descent)) / 2 + ascent;
+  const color = properties.color || '#000000';
+  const align = properties.textAlign || 'left';
+  const parts: string[] = [];
+
+  lines.forEach((line, index) => {
+    const baseline = box.y + index * lineHeight + baselineOffset;
+    const lineWidth = measure(line.text);
+    const spaces = line.text.split(' ').length - 1;
+    const justify = align === 'justify' && line.wrapped && spaces > 0;
+    const wordSpacing = justify ? Math.max(0, box.width - lineWidth) / spaces : 0;
+    const renderedWidth = justify ? box.width : lineWidth;
+
+    let lineX = box.x;
+    if (align === 'center') {
+      lineX = box.x + (box.width - lineWidth) / 2;
+    } else if (align === 'right') {
+      lineX = box.x + box.width - lineWidth;
+    }
+
+    if (font) {
+      parts.push(renderGlyphRun(font, line.text, lineX, baseline, fontSize, letterSpacing, wordSpacing, color));
+    } else {
+      parts.push(renderSystemText(line.text, box, align, baseline, properties, wordSpacing));
+    }
+
+    if (properties.textDecoration === 'underline' || properties.textDecoration === 'line-through') {
+      const thickness = Math.max(1, fontSize / 15);
+      const offset = properties.textDecoration === 'underline' ? fontSize * 0.1 : -fontSize * 0.3;
+      parts.push(
+        `<rect x="${num(lineX)}" y="${num(baseline + offset - thickness / 2)}" width="${num(renderedWidth)}" ` +
+        `height="${num(thickness)}" fill="${escapeXml(color)}"/>`
+      );
+    }
+  });
+
+  return parts.join('');
+}
+
+/**
+ * Draw a line of text as glyph outlines
+ */
+function renderGlyphRun(
+  font: fontkit.Font,
+  text: string,
+  x: number,
+  baseline: number,
+  fontSize: number,
+  letterSpacing: number,
+  wordSpacing: number,
+  color: string
+): string {
+  const run = font.layout(text);
+  const unitScale = fontSize / font.unitsPerEm;
+  const paths: string[] = [];
+  let penX = x;
+
+  run.glyphs.forEach((glyph, index) => {
+    const position = run.positions[index];
+    const path = glyph.path.toSVG();
+
+    if (path) {
+      // Glyph outlines are y-up in font units
+      paths.push(
+        `<path transform="translate(${num(penX + position.xOffset * unitScale)} ${num(baseline - position.yOffset * unitScale)}) ` +
+        `scale(${num(unitScale, 5)} ${num(-unitScale, 5)})" d="${path}"/>`
+      );
+    }
+
+    penX += position.xAdvance * unitScale + letterSpacing;
+    if (glyph.codePoints.indexOf(32) !== -1) {
+      penX += wordSpacing;
+    }
+  });
+
+  return `<g fill="${escapeXml(color)}">${paths.join('')}</g>`;
+}
+
+/**
+ * Draw a line of text with an SVG <text> element, for fonts that couldn't be loaded
+ */
+function renderSystemText(
+  text: string,
+  box: Box,
+  align: TextProperties['textAlign'],
+  baseline: number,
+  properties: TextProperties,
+  wordSpacing: number
+): string {
+  let x = box.x;
+  let anchor = 'start';
+
+  if (align === 'center') {
+    x = box.x + box.width / 2;
+    anchor = 'middle';
+  } else if (align === 'right') {
+    x = box.x + box.width;
+    anchor = 'end';
+  }
+
+  const family = (properties.fontFamily || 'sans-serif').replace(/["']/g, '');
+  const attributes = [
+    `x="${num(x)}"`,
+    `y="${num(baseline)}"`,
+    `font-family="${escapeXml(`'${family}', sans-serif`)}"`,
+    `font-size="${num(properties.fontSize || 16)}"`,
+    `font-weight="${normalizeFontWeight(properties.fontWeight)}"`,
+    `font-style="${properties.fontStyle === 'italic' ? 'italic' : 'normal'}"`,
+    `fill="${escapeXml(properties.color || '#000000')}"`,
+    `text-anchor="${anchor}"`,
+    'xml:space="preserve"'
+  ];
+
+  if (properties.letterSpacing) {
+    attributes.push(`letter-spacing="${num(properties.letterSpacing)}"`);
+  }
+
+  if (wordSpacing) {
+    attributes.push(`word-spacing="${num(wordSpacing)}"`);
+  }
+
+  return `<text ${attributes.join(' ')}>${escapeXml(text)}</text>`;
+}
+
+/**
+ * Render an image element, clipped to its border radius
+ */
+function renderImage(box: Box, properties: ImageProperties, borderRadius: number | undefined, context: SvgContext): string {
+  const filterId = buildImageFilter(properties.filter, context);
+  const image = renderImageSource(properties.src, box, properties.fit || 'cover', context, filterId);
+
+  if (!image || !borderRadius) {
+    return image;
+  }
+
+  const clipId = context.nextId('clip');
+  context.defs.push(`<clipPath id="${clipId}">${rectMarkup(box, borderRadius)}</clipPath>`);
+
+  return `<g clip-path="url(#${clipId})">${image}</g>`;
+}
+
+/**
+ * Render a loaded image into a box
+ */
+function renderImageSource(
+  src: string,
+  box: Box,
+  fit: ImageProperties['fit'],
+  context: SvgContext,
+  filterId?: string
+): string {
+  const dataUri = context.resources.images.get(src);
+  if (!dataUri) {
+    return '';
+  }
+
+  // scale-down is drawn like contain; designs rarely place images larger than their box
+  const preserveAspectRatio = fit === 'fill' ? 'none' : fit === 'cover' ? 'xMidYMid slice' : 'xMidYMid meet';
+  const filter = filterId ? ` filter="url(#${filterId})"` : '';
+
+  return `<image x="${num(box.x)}" y="${num(box.y)}" width="${num(box.width)}" height="${num(box.height)}" ` +
+    `preserveAspectRatio="${preserveAspectRatio}"${filter} xlink:href="${escapeXml(dataUri)}"/>`;
+}
+
+/**
+ * Build an SVG filter for CSS-style image adjustments
+ * @returns Filter id, or undefined when the image is unadjusted
+ */
+function buildImageFilter(filter: ImageProperties['filter'], context: SvgContext): string | undefined {
+  if (!filter) {
+    return undefined;
+  }
+
+  const primitives: string[] = [];
+  const linear = (slope: number, intercept: number) => {
+    const func = `type="linear" slope="${num(slope)}" intercept="${num(intercept)}"`;
+    return `<feComponentTransfer><feFuncR ${func}/><feFuncG ${func}/><feFuncB ${func}/></feComponentTransfer>`;
+  };
+
+  // Brightness, contrast and saturation are percentages where 100 is unchanged
+  if (filter.brightness !== undefined && filter.brightness !== 100) {
+    primitives.push(linear(filter.brightness / 100, 0));
+  }
+  if (filter.contrast !== undefined && filter.contrast !== 100) {
+    const contrast = filter.contrast / 100;
+    primitives.push(linear(contrast, 0.5 - contrast / 2));
+  }
+  if (filter.saturation !== undefined && filter.saturation !== 100) {
+    primitives.push(`<feColorMatrix type="saturate" values="${num(filter.saturation / 100)}"/>`);
+  }
+  if (filter.hue) {
+    primitives.push(`<feColorMatrix type="hueRotate" values="${num(filter.hue)}"/>`);
+  }
+  if (filter.blur) {
+    primitives.push(`<feGaussianBlur stdDeviation="${num(filter.blur)}"/>`);
+  }
+
+  if (primitives.length === 0) {
+    return undefined;
+  }
+
+  const id = context.nextId('filter');
+  context.defs.push(`<filter id="${id}" color-interpolation-filters="sRGB">${primitives.join('')}</filter>`);
+  return id;
+}
+
+/**
+ * Render a shape element
+ */
+function renderShape(element: DesignElement, box: Box, properties: ShapeProperties, context: SvgContext): string {
+  const fill = properties.gradient ? `url(#${buildGradient(properties.gradient, context)})` : (properties.fill || 'none');
+  const attributes = `fill="${escapeXml(fill)}"${strokeAttributes(element, properties)}`;
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+
+  switch (properties.shapeType) {
+    case 'circle':
+      return `<ellipse cx="${num(cx)}" cy="${num(cy)}" rx="${num(box.width / 2)}" ry="${num(box.height / 2)}" ${attributes}/>`;
+
+    case 'triangle':
+      return polygonMarkup([[cx, box.y], [box.x + box.width, box.y + box.height], [box.x, box.y + box.height]], attributes);
+
+    case 'polygon':
+      return polygonMarkup(radialPoints(box, 6, () => 1), attributes);
+
+    case 'star':
+      return polygonMarkup(radialPoints(box, 10, index => (index % 2 === 0 ? 1 : 0.5)), attributes);
+
+    case 'rectangle':
+    default:
+      return rectMarkup(box, element.style?.borderRadius, attributes);
+  }
+}
+
+/**
+ * Render a horizontal line across an element's box
+ */
+function renderLine(element: DesignElement, box: Box, properties: ShapeProperties): string {
+  const border = element.style?.border;
+  const color = properties.stroke?.color || properties.fill || border?.color || '#000000';
+  const width = properties.stroke?.width || border?.width || Math.max(box.height, 1);
+  const y = box.y + box.height / 2;
+  const dash = border ? dashArray(border.style, width) : '';
+
+  return `<line x1="${num(box.x)}" y1="${num(y)}" x2="${num(box.x + box.width)}" y2="${num(y)}" ` +
+    `stroke="${escapeXml(color)}" stroke-width="${num(width)}"${dash}/>`;
+}
+
+/**
+ * Render an icon scaled into its box
+ */
+function renderIcon(box: Box, properties: IconProperties, context: SvgContext): string {
+  const icon = context.resources.icons.get(getIconKey(properties));
+  if (!icon) {
+    return '';
+  }
+
+  let body = icon.body;
+  if (properties.strokeWidth) {
+    body = body.replace(/stroke-width="[^"]*"/g, `stroke-width="${num(properties.strokeWidth)}"`);
+  }
+
+  const color = escapeXml(properties.color || '#000000');
+
+  // Icon markup draws with currentColor
+  return `<svg x="${num(box.x)}" y="${num(box.y)}" width="${num(box.width)}" height="${num(box.height)}" ` +
+    `viewBox="${escapeXml(icon.viewBox)}" preserveAspectRatio="xMidYMid meet" color="${color}" fill="${color}">${body}</svg>`;
+}
+
+/**
+ * Render the border of a text or image element
+ */
+function renderBorder(element: DesignElement, box: Box): string {
+  const border = element.style?.border;
+  if (!border || !border.width) {
+    return '';
+  }
+
+  const attributes = `fill="none" stroke="${escapeXml(border.color)}" stroke-width="${num(border.width)}"${dashArray(border.style, border.width)}`;
+  return rectMarkup(box, element.style.borderRadius, attributes);
+}
+
+/**
+ * Stroke attributes for a shape, from its stroke or the element border
+ */
+function strokeAttributes(element: DesignElement, properties: ShapeProperties): string {
+  if (properties.stroke && properties.stroke.width) {
+    return ` stroke="${escapeXml(properties.stroke.color)}" stroke-width="${num(properties.stroke.width)}"`;
+  }
+
+  const border = element.style?.border;
+  if (border && border.width) {
+    return ` stroke="${escapeXml(border.color)}" stroke-width="${num(border.width)}"${dashArray(border.style, border.width)}`;
+  }
+
+  return '';
+}
+
+/**
+ * Add a gradient definition
+ * @returns Gradient id
+ */
+function buildGradient(gradient: NonNullable<ShapeProperties['gradient']>, context: SvgContext): string {
+  const id = context.nextId('gradient');
+  const stops = gradient.colors
+    .map(({ color, stop }) => {
+      // Accept both 0-1 and percentage stops
+      const offset = clamp(stop > 1 ? stop / 100 : stop, 0, 1);
+      return `<stop offset="${num(offset)}" stop-color="${escapeXml(color)}"/>`;
+    })
+    .join('');
+
+  if (gradient.type === 'radial') {
+    context.defs.push(`<radialGradient id="${id}" cx="0.5" cy="0.5" r="0.5">${stops}</radialGradient>`);
+    return id;
+  }
+
+  // CSS angles: 0deg points up, 90deg points right
+  const angle = ((gradient.angle ?? 180) * Math.PI) / 180;
+  const dx = Math.sin(angle) / 2;
+  const dy = -Math.cos(angle) / 2;
+
+  context.defs.push(
+    `<linearGradient id="${id}" x1="${num(0.5 - dx)}" y1="${num(0.5 - dy)}" x2="${num(0.5 + dx)}" y2="${num(0.5 + dy)}">${stops}</linearGradient>`
+  );
+  return id;
+}
+
+/**
+ * Rasterize pages into a PDF, one page each
+ */
+async function renderPdf(
+  pages: DesignPage[],
+  dimensions: Dimensions,
+  resources: RenderResources,
+  scale: number,
+  dpi: number,
+  title?: string
+): Promise<Buffer> {
+  const pageWidth = (dimensions.width * scale) / PX_PER_POINT;
+  const pageHeight = (dimensions.height * scale) / PX_PER_POINT;
+  const rasterScale = scale * (dpi / 72) / PX_PER_POINT;
+
+  assertRasterSize(dimensions.width * rasterScale, dimensions.height * rasterScale);
+
+  const doc = new PDFDocument({ autoFirstPage: false, margin: 0, info: title ? { Title: title } : undefined });
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  // One page at a time keeps a single raster in memory
+  for (const page of pages) {
+    const svg = buildDesignSvg(page, dimensions, resources, { scale: rasterScale });
+    const png = await sharp(Buffer.from(svg)).png().toBuffer();
+
+    doc.addPage({ size: [pageWidth, pageHeight], margin: 0 });
+    doc.image(png, 0, 0, { width: pageWidth, height: pageHeight });
+  }
+
+  doc.end();
+  return finished;
+}
+
+/**
+ * Fetch images as data URIs; images that fail to load are left out
+ */
+async function loadImages(urls: string[]): Promise<Map<string, string>> {
+  const images = new Map<string, string>();
+
+  await Promise.all(urls.map(async url => {
+    if (url.startsWith('data:')) {
+      if (/^data:image\/[\w.+-]+[;,]/i.test(url)) {
+        images.set(url, url);
+      } else {
+        logger.warn('Skipping design image data URI that is not an image');
+      }
+      return;
+    }
+
+    try {
+      // Sources come from design documents; only public https images are fetched
+      await assertPublicUrl(url);
+
+      const response = await axios.get<ArrayBuffer>(url, {
+        responseType: 'arraybuffer',
+        timeout: ASSET_REQUEST_TIMEOUT_MS,
+        maxContentLength: MAX_IMAGE_BYTES,
+        ...publicAgents
+      });
+      const contentType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+
+      // The bytes are inlined into the output, and SVG exports return them to the user as is
+      if (!/^image\/[\w.+-]+$/.test(contentType)) {
+        logger.warn('Skipping design image that is not an image', { url, contentType });
+        return;
+      }
+
+      images.set(url, `data:${contentType};base64,${Buffer.from(response.data).toString('base64')}`);
+    } catch (error) {
+      logger.warn('Failed to load design image', { url, error: error instanceof Error ? error.message : String(error) });
+    }
+  }));
+
+  return images;
+}
+
+/**
+ * Fetch icons from Iconify; icons that fail to load are left out
+ */
+async function loadIcons(icons: IconProperties[]): Promise<Map<string, IconSvg>> {
+  const loaded = new Map<string, IconSvg>();
+
+  await Promise.all(icons.map(async icon => {
+    const prefix = ICON_SET_ALIASES[icon.iconSet] || icon.iconSet || 'mdi';
+    const url = `${ICONIFY_API_URL}/${encodeURIComponent(prefix)}/${encodeURIComponent(icon.iconName)}.svg`;
+
+    try {
+      const response = await axios.get<string>(url, { responseType: 'text', timeout: ASSET_REQUEST_TIMEOUT_MS });
+      const parsed = parseIconSvg(response.data);
+
+      if (parsed) {
+        loaded.set(getIconKey(icon), parsed);
+      }
+    } catch (error) {
+      logger.warn('Failed to load design icon', { url, error: error instanceof Error ? error.message : String(error) });
+    }
+  }));
+
+  return loaded;
+}
+
+/**
+ * Split an icon's SVG into its viewBox and inner markup
+ */
+export function parseIconSvg(svg: string): IconSvg | null {
+  const match = /<svg\b([^>]*)>([\s\S]*)<\/svg>\s*$/.exec(svg.trim());
+  if (!match) {
+    return null;
+  }
+
+  const viewBox = /viewBox="([^"]+)"/.exec(match[1]);
+  return { viewBox: viewBox ? viewBox[1] : '0 0 24 24', body: match[2] };
+}
+
+/**
+ * Break text into lines that fit a width, at spaces where possible
+ */
+export function wrapText(text: string, maxWidth: number, measure: (value: string) => number): TextLine[] {
+  const lines: TextLine[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    const words = paragraph.split(' ');
+    let current = '';
+
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+
+      if (!current || measure(candidate) <= maxWidth) {
+        current = candidate;
+      } else {
+        lines.push({ text: current, wrapped: true });
+        current = word;
+      }
+
+      // Break words wider than the box
+      while (measure(current) > maxWidth && Array.from(current).length > 1) {
+        const characters = Array.from(current);
+        let fit = characters.length - 1;
+
+        while (fit > 1 && measure(characters.slice(0, fit).join('')) > maxWidth) {
+          fit--;
+        }
+
+        lines.push({ text: characters.slice(0, fit).join(''), wrapped: false });
+        current = characters.slice(fit).join('');
+      }
+    }
+
+    lines.push({ text: current, wrapped: false });
+  }
+
+  return lines;
+}
+
+/**
+ * Measure text laid out in a font, in pixels
+ */
+function measureGlyphRun(font: fontkit.Font, text: string, fontSize: number, letterSpacing: number): number {
+  const run = font.layout(text);
+  const advance = run.positions.reduce((total, position) => total + position.xAdvance, 0);
+  return (advance * fontSize) / font.unitsPerEm + letterSpacing * run.glyphs.length;
+}
+
+/**
+ * Approximate text width when the font isn't available
+ */
+function estimateTextWidth(text: string, fontSize: number, letterSpacing: number): number {
+  const length = Array.from(text).length;
+  return length * (fontSize * 0.55 + letterSpacing);
+}
+
+/**
+ * Resolve a line height to pixels; small values are multiples of the font size, like CSS unitless line heights
+ */
+function resolveLineHeight(lineHeight: number | undefined, fontSize: number): number {
+  if (!lineHeight || lineHeight <= 0) {
+    return fontSize * 1.2;
+  }
+
+  return lineHeight < 4 ? lineHeight * fontSize : lineHeight;
+}
+
+function applyTextTransform(text: string, transform: TextProperties['textTransform']): string {
+  switch (transform) {
+    case 'uppercase':
+      return text.toUpperCase();
+    case 'lowercase':
+      return text.toLowerCase();
+    case 'capitalize':
+      return text.replace(/(^|\s)(\S)/g, (_match, space: string, letter: string) => space + letter.toUpperCase());
+    default:
+      return text;
+  }
+}
+
+function getFontRequest(properties: TextProperties): FontRequest {
+  return {
+    family: properties.fontFamily || 'sans-serif',
+    weight: normalizeFontWeight(properties.fontWeight),
+    style: properties.fontStyle === 'italic' ? 'italic' : 'normal'
+  };
+}
+
+function getIconKey(icon: IconProperties): string {
+  return `${icon.iconSet}:${icon.iconName}`;
+}
+
+function rectMarkup(box: Box, radius?: number, attributes: string = ''): string {
+  const rounded = radius ? ` rx="${num(radius)}" ry="${num(radius)}"` : '';
+  return `<rect x="${num(box.x)}" y="${num(box.y)}" width="${num(box.width)}" height="${num(box.height)}"${rounded}${attributes ? ' ' + attributes : ''}/>`;
+}
+
+function polygonMarkup(points: Array<[number, number]>, attributes: string): string {
+  return `<polygon points="${points.map(([x, y]) => `${num(x)},${num(y)}`).join(' ')}" ${attributes}/>`;
+}
+
+/**
+ * Points around the center of a box, starting at the top
+ * @param radius Fraction of the box's half-size for each point
+ */
+function radialPoints(box: Box, count: number, radius: (index: number) => number): Array<[number, number]> {
+  const points: Array<[number, number]> = [];
+
+  for (let i = 0; i < count; i++) {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / count;
+    points.push([
+      box.x + box.width / 2 + (box.width / 2) * radius(i) * Math.cos(angle),
+      box.y + box.height / 2 + (box.height / 2) * radius(i) * Math.sin(angle)
+    ]);
+  }
+
+  return points;
+}
+
+function dashArray(style: 'solid' | 'dashed' | 'dotted', width: number): string {
+  if (style === 'dashed') {
+    return ` stroke-dasharray="${num(width * 3)} ${num(width * 2)}"`;
+  }
+  if (style === 'dotted') {
+    return ` stroke-dasharray="${num(width)} ${num(width)}"`;
+  }
+  return '';
+}
+
+function assertRasterSize(width: number, height: number): void {
+  if (width > MAX_RASTER_DIMENSION || height > MAX_RASTER_DIMENSION) {
+    throw new Error(`Export is too large to render (maximum ${MAX_RASTER_DIMENSION}px per side); use a smaller scale`);
+  }
+}
+
+function normalizeQuality(quality?: number): number {
+  if (!quality) {
+    return 90;
+  }
+
+  // Accept both 0-1 and 1-100 quality settings
+  return Math.round(clamp(quality <= 1 ? quality * 100 : quality, 1, 100));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Format a number for SVG attributes
+ */
+function num(value: number, precision: number = 3): string {
+  return String(Number(value.toFixed(precision)));
+}
+
+function escapeXml(value: string): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
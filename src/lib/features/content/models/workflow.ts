@@ -1,5 +1,6 @@
 import { Timestamp } from 'firebase/firestore';
 import { TeamRole } from '../../auth/roles';
+import { PlatformType } from '../../platforms/PlatformProvider';
 
 /**
  * Defines the possible states in a content workflow
@@ -29,7 +30,8 @@ export enum WorkflowAction {
   SCHEDULE = 'schedule',
   PUBLISH = 'publish',
   ARCHIVE = 'archive',
-  RESTORE = 'restore'
+  RESTORE = 'restore',
+  ESCALATE = 'escalate'
 }
 
 /**
@@ -42,6 +44,137 @@ export interface WorkflowTransition {
   allowedRoles: TeamRole[];
 }
 
+/**
+ * Status of an approval stage
+ */
+export enum ApprovalStageStatus {
+  // Waiting for earlier stages
+  PENDING = 'pending',
+  ACTIVE = 'active',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  CHANGES_REQUESTED = 'changes_requested',
+  // Conditions didn't match the content
+  SKIPPED = 'skipped'
+}
+
+/**
+ * How many approvals complete a stage
+ * - all: every named reviewer (or one approval for role-only stages)
+ * - any: a single approval
+ * - count: at least `count` approvals
+ * - percentage: at least `percentage`% of named reviewers
+ */
+export interface ApprovalQuorum {
+  type: 'all' | 'any' | 'count' | 'percentage';
+  count?: number;
+  percentage?: number;
+}
+
+/**
+ * Rule deciding whether a stage applies to a content item
+ */
+export type ApprovalStageCondition =
+  | { type: 'mentions_price' }
+  | { type: 'keywords'; keywords: string[] }
+  | { type: 'platform'; platforms: PlatformType[] }
+  | { type: 'tags'; tags: string[] }
+  // Brand compliance score (0-100) from BrandGuidelinesService.checkBrandCompliance
+  | { type: 'brand_score_below'; threshold: number };
+
+/**
+ * What happens when a stage passes its due date
+ */
+export interface ApprovalStageEscalation {
+  // Hours past the due date before escalating (default 0)
+  afterHours?: number;
+  // Reviewers added to the stage; a review from any of them decides the stage
+  escalateTo?: string[];
+  escalateToRoles?: TeamRole[];
+  // Hours added to the due date after escalating
+  extendHours?: number;
+}
+
+/**
+ * A stage in a multi-stage approval chain. Stages run in `order`; stages
+ * sharing an order run in parallel and must all approve before the next
+ * order starts.
+ */
+export interface ApprovalStageDefinition {
+  id: string;
+  name: string;
+  order: number;
+  reviewers?: string[];
+  // Any organization member with one of these roles may review
+  reviewerRoles?: TeamRole[];
+  quorum?: ApprovalQuorum;
+  // Hours from activation until the stage is overdue
+  dueInHours?: number;
+  // The stage is only included when these match; no conditions means always
+  conditions?: ApprovalStageCondition[];
+  conditionMode?: 'all' | 'any';
+  escalation?: ApprovalStageEscalation;
+}
+
+/**
+ * A reviewer's decision within a workflow or stage
+ */
+export interface ReviewerStatus {
+  userId: string;
+  status: 'pending' | 'approved' | 'rejected' | 'changes_requested';
+  comments?: string;
+  timestamp?: Timestamp;
+  // How a stage reviewer who wasn't named on the stage came to review it;
+  // external reviewers are invited by link and count as named reviewers
+  via?: 'role' | 'escalation' | 'external';
+}
+
+/**
+ * A reviewer outside the organization, invited to review by magic link
+ */
+export interface ExternalReviewerIdentity {
+  inviteId: string;
+  name: string;
+  email: string;
+  // Stage the reviewer was invited to; active stages when omitted
+  stageId?: string;
+}
+
+/**
+ * A review comment anchored to part of the post
+ */
+export interface InlineReviewComment {
+  text: string;
+  // Platform preview the comment was left on
+  platform?: PlatformType;
+  // Commented span of the post text
+  start?: number;
+  end?: number;
+  quote?: string;
+}
+
+/**
+ * Progress of an approval stage for a content item
+ */
+export interface ApprovalStageState {
+  stageId: string;
+  name: string;
+  order: number;
+  status: ApprovalStageStatus;
+  reviewers: ReviewerStatus[];
+  reviewerRoles: TeamRole[];
+  // Roles added by escalation; their reviews decide the stage on their own
+  escalationRoles?: TeamRole[];
+  quorum: ApprovalQuorum;
+  dueInHours?: number;
+  escalation?: ApprovalStageEscalation;
+  skipReason?: string;
+  activatedAt?: Timestamp;
+  dueAt?: Timestamp;
+  completedAt?: Timestamp;
+  escalatedAt?: Timestamp;
+}
+
 /**
  * Defines a workflow template that can be applied to content
  */
@@ -54,6 +187,9 @@ export interface WorkflowTemplate {
   isDefault: boolean;
   transitions: WorkflowTransition[];
   requiredApprovals: number;
+  // Multi-stage approval chain; when set, reviews are collected per stage
+  // and requiredApprovals is ignored
+  stages?: ApprovalStageDefinition[];
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -71,6 +207,9 @@ export interface WorkflowHistoryEntry {
   toState: WorkflowState;
   action: WorkflowAction;
   comments?: string;
+  inlineComments?: InlineReviewComment[];
+  // Set when the entry was made by an external reviewer
+  externalReviewer?: ExternalReviewerIdentity;
   timestamp: Timestamp;
 }
 
@@ -80,15 +219,13 @@ export interface WorkflowHistoryEntry {
 export interface WorkflowStatus {
   contentId: string;
   templateId: string;
+  organizationId?: string;
   currentState: WorkflowState;
-  assignedReviewers: {
-    userId: string;
-    status: 'pending' | 'approved' | 'rejected' | 'changes_requested';
-    comments?: string;
-    timestamp?: Timestamp;
-  }[];
+  // Reviewers of the active stages when the template has stages
+  assignedReviewers: ReviewerStatus[];
   approvalsReceived: number;
   requiredApprovals: number;
+  stages?: ApprovalStageState[];
   lastUpdatedBy: string;
   lastUpdateAction: WorkflowAction;
   createdAt: Timestamp;
@@ -104,6 +241,7 @@ export interface CreateWorkflowTemplateInput {
   organizationId: string;
   transitions: WorkflowTransition[];
   requiredApprovals: number;
+  stages?: ApprovalStageDefinition[];
   isDefault?: boolean;
 }
 
@@ -115,6 +253,7 @@ export interface UpdateWorkflowTemplateInput {
   description?: string;
   transitions?: WorkflowTransition[];
   requiredApprovals?: number;
+  stages?: ApprovalStageDefinition[];
   isDefault?: boolean;
 }
 
@@ -135,6 +274,66 @@ export interface ReviewSubmissionInput {
   contentId: string;
   status: 'approved' | 'rejected' | 'changes_requested';
   comments?: string;
+  inlineComments?: InlineReviewComment[];
+}
+
+/**
+ * A magic-link invite for a reviewer outside the organization. Only a hash
+ * of the link token is stored.
+ */
+export interface ExternalReviewInvite {
+  id: string;
+  contentId: string;
+  organizationId?: string;
+  reviewerName: string;
+  reviewerEmail: string;
+  stageId?: string;
+  message?: string;
+  tokenHash: string;
+  invitedBy: string;
+  invitedByName: string;
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+  revokedAt?: Timestamp;
+  revokedBy?: string;
+  viewCount: number;
+  lastViewedAt?: Timestamp;
+  lastReviewStatus?: ReviewSubmissionInput['status'];
+  lastReviewedAt?: Timestamp;
+}
+
+/**
+ * Input for inviting an external reviewer
+ */
+export interface CreateExternalReviewInviteInput {
+  contentId: string;
+  reviewerName: string;
+  reviewerEmail: string;
+  stageId?: string;
+  message?: string;
+  // Link lifetime; defaults to 72 hours
+  expiresInHours?: number;
+}
+
+/**
+ * Kinds of event recorded against an external review invite
+ * - denied: the link was used after it expired or was revoked
+ */
+export type ExternalReviewEventType = 'invited' | 'viewed' | 'reviewed' | 'revoked' | 'denied';
+
+/**
+ * Access and decision log entry for an external review invite
+ */
+export interface ExternalReviewEvent {
+  id: string;
+  inviteId: string;
+  contentId: string;
+  type: ExternalReviewEventType;
+  actor: string;
+  details?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  timestamp: Timestamp;
 }
 
 /**
@@ -0,0 +1,592 @@
+import { getFirebaseFirestore } from '../../../core/firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where
+} from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import PDFDocument from 'pdfkit';
+import { Parser } from '@json2csv/plainjs';
+import {
+  CreateExternalReviewInviteInput,
+  ExternalReviewerIdentity,
+  ExternalReviewEvent,
+  ExternalReviewEventType,
+  ExternalReviewInvite,
+  InlineReviewComment,
+  ReviewSubmissionInput,
+  WorkflowAction,
+  WorkflowState
+} from '../models/workflow';
+import { ContentItem } from '../CalendarService';
+import { Logger, LogLevel } from '../../../core/logging/logger';
+import unifiedEmailService from '../../../core/notifications/unified-email-service';
+import { externalReviewRatelimit } from '../../../rate-limit';
+import workflowService, { externalReviewerId } from './WorkflowService';
+import {
+  AuditTrailRow,
+  InviteStatus,
+  PlatformPreview,
+  buildAuditTrailRows,
+  buildPlatformPreviews,
+  generateReviewToken,
+  getInviteStatus,
+  hashReviewToken,
+  sanitizeInlineComments
+} from './external-review';
+
+const DEFAULT_EXPIRY_HOURS = 72;
+const MAX_EXPIRY_HOURS = 30 * 24;
+const MAX_COMMENTS_LENGTH = 5000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const REVIEW_STATUSES: ReviewSubmissionInput['status'][] = ['approved', 'rejected', 'changes_requested'];
+
+/**
+ * Error for external review links; code tells API routes how to respond
+ */
+export class ExternalReviewError extends Error {
+  constructor(
+    message: string,
+    public code: 'invalid' | 'not_found' | 'expired' | 'revoked' | 'rate_limited'
+  ) {
+    super(message);
+    this.name = 'ExternalReviewError';
+  }
+}
+
+/**
+ * Who is using a review link, for rate limiting and the access log
+ */
+export interface ReviewRequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * An invite as shown to the team; the token hash never leaves the server
+ */
+export type ExternalReviewInviteSummary = Omit<ExternalReviewInvite, 'tokenHash'> & { status: InviteStatus };
+
+/**
+ * Everything the external review page shows
+ */
+export interface ExternalReviewView {
+  reviewer: {
+    name: string;
+    email: string;
+    invitedByName: string;
+    message?: string;
+    expiresAt: string;
+  };
+  content: {
+    id: string;
+    title: string;
+    text: string;
+    previews: PlatformPreview[];
+    media: Array<{ type: string; url: string; thumbnailUrl?: string; altText?: string }>;
+    schedule?: { publishAt: string; timezone: string };
+  };
+  workflowState: WorkflowState;
+  canReview: boolean;
+  // This reviewer's earlier decisions, newest first
+  reviews: Array<{
+    action: WorkflowAction;
+    comments?: string;
+    inlineComments?: InlineReviewComment[];
+    timestamp: string;
+  }>;
+}
+
+/**
+ * An approval audit trail for a content item
+ */
+export interface ApprovalAuditTrail {
+  contentId: string;
+  title: string;
+  generatedAt: string;
+  rows: AuditTrailRow[];
+}
+
+/**
+ * Service for magic-link reviews by clients without an IriSync seat
+ *
+ * Reviewers are invited by email to a token-scoped page. Links are
+ * time-limited, revocable and rate-limited, and every use is logged for the
+ * approval audit trail. Decisions go through WorkflowService.submitReview as
+ * the external reviewer.
+ */
+export class ExternalReviewService {
+  private getFirestore() {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) throw new Error('Firestore not configured');
+    return firestore;
+  }
+
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger({
+      minLevel: LogLevel.INFO,
+      enableConsole: true,
+      enableRemote: process.env.NODE_ENV === 'production'
+    });
+  }
+
+  /**
+   * Invite an external reviewer and email them their review link
+   * @returns The invite, its link, and whether the email went out
+   */
+  async createInvite(
+    input: CreateExternalReviewInviteInput,
+    invitedBy: string,
+    invitedByName: string
+  ): Promise<{ invite: ExternalReviewInviteSummary; reviewUrl: string; emailSent: boolean }> {
+    const reviewerName = (input.reviewerName || '').trim();
+    const reviewerEmail = (input.reviewerEmail || '').trim().toLowerCase();
+    const expiresInHours = input.expiresInHours ?? DEFAULT_EXPIRY_HOURS;
+
+    if (!reviewerName) {
+      throw new ExternalReviewError('Reviewer name is required', 'invalid');
+    }
+    if (!EMAIL_PATTERN.test(reviewerEmail)) {
+      throw new ExternalReviewError('A valid reviewer email is required', 'invalid');
+    }
+    if (!(expiresInHours >= 1 && expiresInHours <= MAX_EXPIRY_HOURS)) {
+      throw new ExternalReviewError(`Links must expire within 1 to ${MAX_EXPIRY_HOURS} hours`, 'invalid');
+    }
+
+    const workflowStatus = await workflowService.getWorkflowStatus(input.contentId);
+    if (!workflowStatus) {
+      throw new ExternalReviewError('Content workflow not found', 'not_found');
+    }
+
+    const id = uuidv4();
+    const token = generateReviewToken();
+    const now = Timestamp.now();
+
+    const invite: ExternalReviewInvite = {
+      id,
+      contentId: input.contentId,
+      ...(workflowStatus.organizationId ? { organizationId: workflowStatus.organizationId } : {}),
+      reviewerName,
+      reviewerEmail,
+      ...(input.stageId ? { stageId: input.stageId } : {}),
+      ...(input.message ? { message: input.message.trim() } : {}),
+      tokenHash: hashReviewToken(token),
+      invitedBy,
+      invitedByName,
+      createdAt: now,
+      expiresAt: Timestamp.fromMillis(now.toMillis() + expiresInHours * 60 * 60 * 1000),
+      viewCount: 0
+    };
+
+    // Seat the reviewer first; it fails when the content isn't awaiting review
+    await workflowService.addExternalReviewer(input.contentId, getReviewerIdentity(invite));
+    await setDoc(doc(this.getFirestore(), 'external_review_invites', id), invite);
+    await this.recordEvent(invite, 'invited', invitedByName, {}, `Invited ${reviewerName} <${reviewerEmail}>`);
+
+    const reviewUrl = `${process.env.NEXT_PUBLIC_APP_URL || ''}/review/${token}`;
+    const emailSent = await this.sendInviteEmail(invite, reviewUrl, expiresInHours);
+
+    this.logger.info('Created external review invite', { inviteId: id, contentId: input.contentId, emailSent });
+
+    return { invite: toSummary(invite), reviewUrl, emailSent };
+  }
+
+  /**
+   * Get an invite by id
+   */
+  async getInvite(inviteId: string): Promise<ExternalReviewInviteSummary | null> {
+    const inviteSnap = await getDoc(doc(this.getFirestore(), 'external_review_invites', inviteId));
+    return inviteSnap.exists() ? toSummary(inviteSnap.data() as ExternalReviewInvite) : null;
+  }
+
+  /**
+   * List a content item's invites, newest first
+   */
+  async listInvites(contentId: string): Promise<ExternalReviewInviteSummary[]> {
+    const invites = await this.getInvitesForContent(contentId);
+    return invites
+      .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis())
+      .map(toSummary);
+  }
+
+  /**
+   * Revoke an invite so its link stops working. Reviews already submitted
+   * through it stay on record.
+   */
+  async revokeInvite(inviteId: string, userId: string, userName: string): Promise<ExternalReviewInviteSummary> {
+    const inviteRef = doc(this.getFirestore(), 'external_review_invites', inviteId);
+    const inviteSnap = await getDoc(inviteRef);
+
+    if (!inviteSnap.exists()) {
+      throw new ExternalReviewError('Invite not found', 'not_found');
+    }
+
+    const invite = inviteSnap.data() as ExternalReviewInvite;
+    if (invite.revokedAt) {
+      return toSummary(invite);
+    }
+
+    const revokedAt = Timestamp.now();
+    await updateDoc(inviteRef, { revokedAt, revokedBy: userId });
+    await workflowService.removeExternalReviewer(invite.contentId, inviteId);
+    await this.recordEvent(invite, 'revoked', userName, {}, 'Link revoked');
+
+    this.logger.info('Revoked external review invite', { inviteId, contentId: invite.contentId });
+
+    return toSummary({ ...invite, revokedAt, revokedBy: userId });
+  }
+
+  /**
+   * Load the review page for a link, logging the view
+   */
+  async getReview(token: string, context: ReviewRequestContext): Promise<ExternalReviewView> {
+    const invite = await this.resolveInvite(token, context);
+
+    await updateDoc(doc(this.getFirestore(), 'external_review_invites', invite.id), {
+      viewCount: increment(1),
+      lastViewedAt: Timestamp.now()
+    });
+    await this.recordEvent(invite, 'viewed', invite.reviewerName, context);
+
+    return this.buildView(invite);
+  }
+
+  /**
+   * Submit the external reviewer's decision through the content's workflow
+   */
+  async submitReview(
+    token: string,
+    submission: { status?: unknown; comments?: unknown; inlineComments?: unknown },
+    context: ReviewRequestContext
+  ): Promise<ExternalReviewView> {
+    const invite = await this.resolveInvite(token, context);
+    const status = submission.status as ReviewSubmissionInput['status'];
+
+    if (REVIEW_STATUSES.indexOf(status) === -1) {
+      throw new ExternalReviewError('Review status must be approved, rejected or changes_requested', 'invalid');
+    }
+
+    const content = await this.getContent(invite.contentId);
+    const comments = typeof submission.comments === 'string'
+      ? submission.comments.trim().slice(0, MAX_COMMENTS_LENGTH)
+      : '';
+    const inlineComments = sanitizeInlineComments(submission.inlineComments, content ? content.content : '');
+
+    const input: ReviewSubmissionInput = {
+      contentId: invite.contentId,
+      status,
+      ...(comments ? { comments } : {}),
+      ...(inlineComments.length > 0 ? { inlineComments } : {})
+    };
+
+    await workflowService.submitReview(input, externalReviewerId(invite.id), undefined, getReviewerIdentity(invite));
+
+    const reviewedAt = Timestamp.now();
+    await updateDoc(doc(this.getFirestore(), 'external_review_invites', invite.id), {
+      lastReviewStatus: status,
+      lastReviewedAt: reviewedAt
+    });
+    await this.recordEvent(
+      invite,
+      'reviewed',
+      invite.reviewerName,
+      context,
+      inlineComments.length > 0 ? `${status} with ${inlineComments.length} inline comment(s)` : status
+    );
+
+    this.logger.info('External reviewer submitted review', { inviteId: invite.id, contentId: invite.contentId, status });
+
+    return this.buildView({ ...invite, lastReviewStatus: status, lastReviewedAt: reviewedAt });
+  }
+
+  /**
+   * Build the full approval audit trail for a content item
+   */
+  async getAuditTrail(contentId: string): Promise<ApprovalAuditTrail> {
+    const [invites, events, history, content] = await Promise.all([
+      this.getInvitesForContent(contentId),
+      this.getEvents(where('contentId', '==', contentId)),
+      workflowService.getWorkflowHistory(contentId),
+      this.getContent(contentId)
+    ]);
+
+    return {
+      contentId,
+      title: content ? content.title : contentId,
+      generatedAt: new Date().toISOString(),
+      rows: buildAuditTrailRows(invites, events, history)
+    };
+  }
+
+  /**
+   * Build the audit trail a link's reviewer may download: their own access
+   * log and decisions
+   */
+  async getAuditTrailForLink(token: string, context: ReviewRequestContext): Promise<ApprovalAuditTrail> {
+    const invite = await this.resolveInvite(token, context);
+
+    const [events, history, content] = await Promise.all([
+      this.getEvents(where('inviteId', '==', invite.id)),
+      workflowService.getWorkflowHistory(invite.contentId),
+      this.getContent(invite.contentId)
+    ]);
+    const ownHistory = history.filter(entry => entry.externalReviewer?.inviteId === invite.id);
+
+    return {
+      contentId: invite.contentId,
+      title: content ? content.title : invite.contentId,
+      generatedAt: new Date().toISOString(),
+      rows: buildAuditTrailRows([invite], events, ownHistory)
+    };
+  }
+
+  /**
+   * Render an audit trail as a downloadable file
+   */
+  async exportAuditTrail(
+    trail: ApprovalAuditTrail,
+    format: 'csv' | 'pdf'
+  ): Promise<{ data: Buffer; contentType: string; filename: string }> {
+    const filename = `approval-audit-${trail.contentId}.${format}`;
+
+    if (format === 'csv') {
+      const parser = new Parser({ fields: ['timestamp', 'event', 'actor', 'email', 'details', 'ipAddress', 'userAgent'] });
+      return { data: Buffer.from(parser.parse(trail.rows)), contentType: 'text/csv', filename };
+    }
+
+    return { data: await renderAuditTrailPdf(trail), contentType: 'application/pdf', filename };
+  }
+
+  /**
+   * Find the invite for a link token, enforcing rate limits and validity.
+   * Uses of expired or revoked links are logged.
+   */
+  private async resolveInvite(token: string, context: ReviewRequestContext): Promise<ExternalReviewInvite> {
+    const tokenHash = hashReviewToken(token || '');
+    await this.enforceRateLimit(tokenHash, context);
+
+    const inviteSnap = await getDocs(
+      query(collection(this.getFirestore(), 'external_review_invites'), where('tokenHash', '==', tokenHash))
+    );
+
+    if (inviteSnap.empty) {
+      throw new ExternalReviewError('Review link not found', 'not_found');
+    }
+
+    const invite = inviteSnap.docs[0].data() as ExternalReviewInvite;
+    const status = getInviteStatus(invite, Date.now());
+
+    if (status !== 'active') {
+      await this.recordEvent(invite, 'denied', invite.reviewerName, context, `Link ${status}`);
+      throw new ExternalReviewError(
+        status === 'revoked' ? 'This review link has been revoked' : 'This review link has expired',
+        status
+      );
+    }
+
+    return invite;
+  }
+
+  /**
+   * Limit requests per link and per IP; a no-op when Redis isn't configured
+   */
+  private async enforceRateLimit(tokenHash: string, context: ReviewRequestContext): Promise<void> {
+    if (!externalReviewRatelimit) {
+      return;
+    }
+
+    const keys = [`link:${tokenHash}`, `ip:${context.ipAddress || 'unknown'}`];
+    for (const key of keys) {
+      const { success } = await externalReviewRatelimit.limit(key);
+      if (!success) {
+        throw new ExternalReviewError('Too many requests, please try again shortly', 'rate_limited');
+      }
+    }
+  }
+
+  private async buildView(invite: ExternalReviewInvite): Promise<ExternalReviewView> {
+    const [content, workflowStatus, history] = await Promise.all([
+      this.getContent(invite.contentId),
+      workflowService.getWorkflowStatus(invite.contentId),
+      workflowService.getWorkflowHistory(invite.contentId)
+    ]);
+
+    if (!content || !workflowStatus) {
+      throw new ExternalReviewError('The content for this review is no longer available', 'not_found');
+    }
+
+    const publishAt = content.schedule ? toDate(content.schedule.publishAt) : null;
+
+    return {
+      reviewer: {
+        name: invite.reviewerName,
+        email: invite.reviewerEmail,
+        invitedByName: invite.invitedByName,
+        ...(invite.message ? { message: invite.message } : {}),
+        expiresAt: new Date(invite.expiresAt.toMillis()).toISOString()
+      },
+      content: {
+        id: content.id,
+        title: content.title,
+        text: content.content,
+        previews: buildPlatformPreviews(content),
+        media: (content.attachments || []).map(attachment => ({
+          type: attachment.type,
+          url: attachment.url,
+          ...(attachment.thumbnailUrl ? { thumbnailUrl: attachment.thumbnailUrl } : {}),
+          ...(attachment.altText ? { altText: attachment.altText } : {})
+        })),
+        ...(publishAt && content.schedule
+          ? { schedule: { publishAt: publishAt.toISOString(), timezone: content.schedule.timezone } }
+          : {})
+      },
+      workflowState: workflowStatus.currentState,
+      canReview: workflowStatus.currentState === WorkflowState.SUBMITTED ||
+        workflowStatus.currentState === WorkflowState.IN_REVIEW,
+      reviews: history
+        .filter(entry => entry.externalReviewer?.inviteId === invite.id)
+        .map(entry => ({
+          action: entry.action,
+          ...(entry.comments ? { comments: entry.comments } : {}),
+          ...(entry.inlineComments ? { inlineComments: entry.inlineComments } : {}),
+          timestamp: new Date(entry.timestamp.toMillis()).toISOString()
+        }))
+    };
+  }
+
+  private async getContent(contentId: string): Promise<ContentItem | null> {
+    const contentSnap = await getDoc(doc(this.getFirestore(), 'content', contentId));
+    return contentSnap.exists() ? ({ id: contentSnap.id, ...contentSnap.data() } as ContentItem) : null;
+  }
+
+  private async getInvitesForContent(contentId: string): Promise<ExternalReviewInvite[]> {
+    const inviteSnap = await getDocs(
+      query(collection(this.getFirestore(), 'external_review_invites'), where('contentId', '==', contentId))
+    );
+    return inviteSnap.docs.map(inviteDoc => inviteDoc.data() as ExternalReviewInvite);
+  }
+
+  private async getEvents(constraint: ReturnType<typeof where>): Promise<ExternalReviewEvent[]> {
+    const eventSnap = await getDocs(query(collection(this.getFirestore(), 'external_review_events'), constraint));
+    return eventSnap.docs.map(eventDoc => eventDoc.data() as ExternalReviewEvent);
+  }
+
+  private async recordEvent(
+    invite: ExternalReviewInvite,
+    type: ExternalReviewEventType,
+    actor: string,
+    context: ReviewRequestContext,
+    details?: string
+  ): Promise<void> {
+    const event: ExternalReviewEvent = {
+      id: uuidv4(),
+      inviteId: invite.id,
+      contentId: invite.contentId,
+      type,
+      actor,
+      ...(details ? { details } : {}),
+      ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}),
+      ...(context.userAgent ? { userAgent: context.userAgent.slice(0, 500) } : {}),
+      timestamp: Timestamp.now()
+    };
+
+    try {
+      await setDoc(doc(this.getFirestore(), 'external_review_events', event.id), event);
+    } catch (error) {
+      // The access log must not block the review itself
+      this.logger.error('Failed to record external review event', { error, inviteId: invite.id, type });
+    }
+  }
+
+  private async sendInviteEmail(invite: ExternalReviewInvite, reviewUrl: string, expiresInHours: number): Promise<boolean> {
+    const expiresIn = expiresInHours % 24 === 0 ? `${expiresInHours / 24} day(s)` : `${expiresInHours} hour(s)`;
+    const message = [
+      `${invite.invitedByName} has asked you to review a post before it's published.`,
+      invite.message ? `"${invite.message}"` : '',
+      `You can approve it, reject it or request changes. This link expires in ${expiresIn}.`
+    ].filter(Boolean).join('\n\n');
+
+    try {
+      const result = await unifiedEmailService.sendNotificationEmail({
+        to: invite.reviewerEmail,
+        subject: `${invite.invitedByName} requested your review`,
+        message,
+        actionUrl: reviewUrl,
+        actionText: 'Review post'
+      });
+      return result.success;
+    } catch (error) {
+      this.logger.error('Failed to send external review invite email', { error, inviteId: invite.id });
+      return false;
+    }
+  }
+}
+
+function getReviewerIdentity(invite: ExternalReviewInvite): ExternalReviewerIdentity {
+  return {
+    inviteId: invite.id,
+    name: invite.reviewerName,
+    email: invite.reviewerEmail,
+    ...(invite.stageId ? { stageId: invite.stageId } : {})
+  };
+}
+
+function toSummary(invite: ExternalReviewInvite): ExternalReviewInviteSummary {
+  const { tokenHash, ...summary } = invite;
+  return { ...summary, status: getInviteStatus(invite, Date.now()) };
+}
+
+// Content dates come back from Firestore as Timestamps
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === 'function') return value.toDate();
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+async function renderAuditTrailPdf(trail: ApprovalAuditTrail): Promise<Buffer> {
+  const pdf = new PDFDocument({ margin: 50 });
+  const chunks: Buffer[] = [];
+
+  return new Promise<Buffer>((resolve, reject) => {
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+
+    pdf.fontSize(18).text('Approval Audit Trail', { align: 'center' });
+    pdf.moveDown();
+    pdf.fontSize(11).text(`Content: ${trail.title}`);
+    pdf.text(`Content ID: ${trail.contentId}`);
+    pdf.text(`Generated: ${trail.generatedAt}`);
+    pdf.moveDown();
+
+    for (const row of trail.rows) {
+      pdf.fontSize(10).font('Helvetica-Bold').text(`${row.timestamp}  ${row.event}`);
+      pdf.font('Helvetica').text(row.email ? `${row.actor} <${row.email}>` : row.actor);
+      if (row.details) {
+        pdf.text(row.details);
+      }
+      if (row.ipAddress || row.userAgent) {
+        pdf.fillColor('#666666').text([row.ipAddress, row.userAgent].filter(Boolean).join(' | ')).fillColor('#000000');
+      }
+      pdf.moveDown(0.5);
+    }
+
+    pdf.end();
+  });
+}
+
+// Create a singleton instance
+const externalReviewService = new ExternalReviewService();
+
+export default externalReviewService;
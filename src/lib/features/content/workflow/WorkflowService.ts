@@ -17,6 +17,7 @@ import { Firestore,
   DocumentReference,
   DocumentSnapshot,
   QueryDocumentSnapshot,
+  Transaction,
   writeBatch
 } from 'firebase/firestore';
 import { v4 as uuidv4 } from 'uuid';
@@ -31,12 +32,33 @@ import {
   UpdateWorkflowTemplateInput,
   WorkflowTransitionInput,
   ReviewSubmissionInput,
-  WorkflowFilter
+  WorkflowFilter,
+  ApprovalStageDefinition,
+  ApprovalStageState,
+  ApprovalStageStatus,
+  ExternalReviewerIdentity,
+  ReviewerStatus
 } from '../models/workflow';
 import { TeamRole } from '../../auth/roles';
 import { Logger } from '../../../core/logging/logger';
 import { ContentItem } from '../CalendarService';
 import { getUserProfile } from '../../auth/userProfile';
+import { BrandGuidelinesService } from '../BrandGuidelinesService';
+import { emitWebhookEvent } from '../../../webhooks/events';
+import { WebhookEventType } from '../../../webhooks/event-types';
+import {
+  StageConditionContext,
+  StageReviewResult,
+  activateNextStages,
+  addStageReviewer,
+  applyStageReview,
+  buildStageStates,
+  escalateOverdueStages,
+  getActiveReviewers,
+  needsBrandScore,
+  removePendingStageReviewer,
+  usesApprovalStages
+} from './approval-stages';
 
 export class WorkflowError extends Error {
   constructor(message: string) {
@@ -45,6 +67,15 @@ export class WorkflowError extends Error {
   }
 }
 
+// Workflow state and history action for each outcome of a staged review
+const STAGE_REVIEW_OUTCOMES: Record<StageReviewResult['outcome'], { state: WorkflowState; action: WorkflowAction }> = {
+  pending: { state: WorkflowState.IN_REVIEW, action: WorkflowAction.REVIEW },
+  advanced: { state: WorkflowState.IN_REVIEW, action: WorkflowAction.REVIEW },
+  approved: { state: WorkflowState.APPROVED, action: WorkflowAction.APPROVE },
+  rejected: { state: WorkflowState.REJECTED, action: WorkflowAction.REJECT },
+  changes_requested: { state: WorkflowState.CHANGES_REQUESTED, action: WorkflowAction.REQUEST_CHANGES }
+};
+
 export class WorkflowService {
   private getFirestore() {
     const firestore = getFirebaseFirestore();
@@ -87,6 +118,7 @@ export class WorkflowService {
         isDefault: input.isDefault || false,
         transitions: input.transitions,
         requiredApprovals: input.requiredApprovals,
+        ...(input.stages && input.stages.length > 0 ? { stages: input.stages } : {}),
         createdAt: now,
         updatedAt: now
       };
@@ -140,6 +172,10 @@ export class WorkflowService {
         this.validateTransitions(input.transitions);
       }
       
+      if (input.stages) {
+        this.validateStages(input.stages);
+      }
+      
       await updateDoc(templateRef, updates);
       
       this.logger.info('Updated workflow template', { templateId, organizationId: template.organizationId });
@@ -302,6 +338,9 @@ export class WorkflowService {
       
       const now = Timestamp.now();
       
+      // Decide which approval stages apply; they start when the content is submitted
+      const stages = await this.planApprovalStages(template, content);
+      
       // Create workflow status
       const status: WorkflowStatus = {
         contentId,
@@ -310,6 +349,8 @@ export class WorkflowService {
         assignedReviewers: [],
         approvalsReceived: 0,
         requiredApprovals: template.requiredApprovals,
+        ...(content.organizationId ? { organizationId: content.organizationId } : {}),
+        ...(stages ? { stages } : {}),
         lastUpdatedBy: userId,
         lastUpdateAction: WorkflowAction.CREATE,
         createdAt: now,
@@ -395,7 +436,13 @@ export class WorkflowService {
     try {
       const { contentId, action, comments, assignReviewers } = input;
       
-      return await runTransaction(this.getFirestore(), async (transaction) => {
+      // Content may have changed since the last submission, so re-evaluate
+      // stage conditions (brand checks can't run inside the transaction)
+      const stagePlan = action === WorkflowAction.SUBMIT
+        ? await this.replanApprovalStages(contentId)
+        : undefined;
+      
+      const transitioned = await runTransaction(this.getFirestore(), async (transaction) => {
         // Get current workflow status
         const statusRef = doc(this.getFirestore(), 'workflow_status', contentId);
         const statusSnap = await transaction.get(statusRef);
@@ -431,9 +478,15 @@ export class WorkflowService {
         const toState = transition.toState;
         const now = Timestamp.now();
         
-        // Update assignedReviewers if specified and action is SUBMIT
+        // Submitting starts the first approval stages, or assigns reviewers
+        // directly when the template has no stages for this content
         let updatedStatus = { ...status };
-        if (action === WorkflowAction.SUBMIT && assignReviewers && assignReviewers.length > 0) {
+        const startsStages = action === WorkflowAction.SUBMIT && usesApprovalStages(stagePlan);
+        if (startsStages) {
+          const activated = activateNextStages(stagePlan!, now);
+          updatedStatus.stages = activated.stages;
+          updatedStatus.assignedReviewers = getActiveReviewers(activated.stages);
+        } else if (action === WorkflowAction.SUBMIT && assignReviewers && assignReviewers.length > 0) {
           updatedStatus.assignedReviewers = assignReviewers.map(reviewerId => ({
             userId: reviewerId,
             status: 'pending',
@@ -447,7 +500,8 @@ export class WorkflowService {
           lastUpdatedBy: userId,
           lastUpdateAction: action,
           updatedAt: now,
-          assignedReviewers: updatedStatus.assignedReviewers
+          assignedReviewers: updatedStatus.assignedReviewers,
+          ...(startsStages ? { stages: updatedStatus.stages, approvalsReceived: 0 } : {})
         };
         
         transaction.update(statusRef, statusUpdates);
@@ -497,6 +551,9 @@ export class WorkflowService {
           ...statusUpdates
         } as WorkflowStatus;
       });
+      
+      this.emitApprovalEvent(transitioned, userId, comments);
+      return transitioned;
     } catch (error) {
       this.logger.error('Failed to transition workflow', { error, input });
       if (error instanceof WorkflowError) {
@@ -508,15 +565,21 @@ export class WorkflowService {
   
   /**
    * Submit a review for content
+   * For staged workflows the review counts towards every active stage the
+   * user reviews by name, role or escalation.
+   * @param externalReviewer Set for reviews made through an external review
+   *   link; userId must then be the reviewer's externalReviewerId
    */
   async submitReview(
     input: ReviewSubmissionInput, 
-    userId: string
+    userId: string,
+    userRole?: TeamRole,
+    externalReviewer?: ExternalReviewerIdentity
   ): Promise<WorkflowStatus> {
     try {
-      const { contentId, status: reviewStatus, comments } = input;
+      const { contentId, status: reviewStatus, comments, inlineComments } = input;
       
-      return await runTransaction(this.getFirestore(), async (transaction) => {
+      const reviewed = await runTransaction(this.getFirestore(), async (transaction) => {
         // Get current workflow status
         const statusRef = doc(this.getFirestore(), 'workflow_status', contentId);
         const statusSnap = await transaction.get(statusRef);
@@ -525,7 +588,16 @@ export class WorkflowService {
           throw new WorkflowError('Content workflow not found');
         }
         
-        const workflowStatus = statusSnap.data() as WorkflowStatus;
+        let workflowStatus = statusSnap.data() as WorkflowStatus;
+        
+        if (externalReviewer) {
+          // Resubmission replans the reviewers, so make sure the invite still has its seat
+          workflowStatus = { ...workflowStatus, ...this.seatExternalReviewer(workflowStatus, externalReviewer) };
+        }
+        
+        if (usesApprovalStages(workflowStatus.stages)) {
+          return this.submitStageReview(transaction, statusRef, workflowStatus, input, userId, userRole, externalReviewer);
+        }
         
         // Check if user is an assigned reviewer
         const reviewerIndex = workflowStatus.assignedReviewers.findIndex(r => r.userId === userId);
@@ -588,11 +660,13 @@ export class WorkflowService {
           id: uuidv4(),
           contentId,
           userId,
-          userName: await getUserDisplayName(userId),
+          userName: externalReviewer ? externalReviewer.name : await getUserDisplayName(userId),
           fromState: workflowStatus.currentState,
           toState: newState,
           action,
           comments,
+          ...(inlineComments && inlineComments.length > 0 ? { inlineComments } : {}),
+          ...(externalReviewer ? { externalReviewer } : {}),
           timestamp: now
         };
         
@@ -628,6 +702,9 @@ export class WorkflowService {
           ...updates
         } as WorkflowStatus;
       });
+      
+      this.emitApprovalEvent(reviewed, userId, comments);
+      return reviewed;
     } catch (error) {
       this.logger.error('Failed to submit review', { error, input });
       if (error instanceof WorkflowError) {
@@ -637,6 +714,159 @@ export class WorkflowService {
     }
   }
   
+  /**
+   * Escalate approval stages that are past their due date
+   * Called periodically by the workflow escalation cron job.
+   */
+  async escalateOverdueWorkflows(): Promise<{ checked: number; escalated: number }> {
+    try {
+      const activeQuery = query(
+        collection(this.getFirestore(), 'workflow_status'),
+        where('currentState', 'in', [WorkflowState.SUBMITTED, WorkflowState.IN_REVIEW])
+      );
+      
+      const activeSnap = await getDocs(activeQuery);
+      let escalated = 0;
+      
+      for (const statusDoc of activeSnap.docs) {
+        if (!usesApprovalStages((statusDoc.data() as WorkflowStatus).stages)) {
+          continue;
+        }
+        
+        try {
+          const escalatedStages = await runTransaction(this.getFirestore(), async (transaction) => {
+            // Re-read so a review submitted meanwhile isn't overwritten
+            const freshSnap = await transaction.get(statusDoc.ref);
+            const status = freshSnap.data() as WorkflowStatus | undefined;
+            
+            if (!status || !usesApprovalStages(status.stages)) {
+              return [];
+            }
+            
+            const now = Timestamp.now();
+            const result = escalateOverdueStages(status.stages, now);
+            
+            if (result.escalatedStageIds.length === 0) {
+              return [];
+            }
+            
+            const stageNames = result.stages
+              .filter(stage => result.escalatedStageIds.indexOf(stage.stageId) !== -1)
+              .map(stage => stage.name);
+            
+            transaction.update(statusDoc.ref, {
+              stages: result.stages,
+              assignedReviewers: getActiveReviewers(result.stages),
+              updatedAt: now
+            });
+            
+            const historyEntry: WorkflowHistoryEntry = {
+              id: uuidv4(),
+              contentId: status.contentId,
+              userId: 'system',
+              userName: 'System',
+              fromState: status.currentState,
+              toState: status.currentState,
+              action: WorkflowAction.ESCALATE,
+              comments: `Escalated overdue approval stages: ${stageNames.join(', ')}`,
+              timestamp: now
+            };
+            
+            transaction.set(doc(collection(this.getFirestore(), 'workflow_history')), historyEntry);
+            
+            return stageNames;
+          });
+          
+          if (escalatedStages.length > 0) {
+            escalated++;
+            this.logger.info('Escalated overdue approval stages', { contentId: statusDoc.id, stages: escalatedStages });
+          }
+        } catch (error) {
+          // Keep going; the next run retries this item
+          this.logger.error('Failed to escalate approval stages', { error, contentId: statusDoc.id });
+        }
+      }
+      
+      return { checked: activeSnap.size, escalated };
+    } catch (error) {
+      this.logger.error('Failed to escalate overdue workflows', { error });
+      throw new WorkflowError('Failed to escalate overdue workflows');
+    }
+  }
+  
+  /**
+   * Give an external reviewer a seat on a content item's review, on the
+   * invite's stage or the active stages
+   */
+  async addExternalReviewer(contentId: string, reviewer: ExternalReviewerIdentity): Promise<WorkflowStatus> {
+    try {
+      return await runTransaction(this.getFirestore(), async (transaction) => {
+        const statusRef = doc(this.getFirestore(), 'workflow_status', contentId);
+        const statusSnap = await transaction.get(statusRef);
+        
+        if (!statusSnap.exists()) {
+          throw new WorkflowError('Content workflow not found');
+        }
+        
+        const workflowStatus = statusSnap.data() as WorkflowStatus;
+        const updates: Partial<WorkflowStatus> = {
+          ...this.seatExternalReviewer(workflowStatus, reviewer),
+          updatedAt: Timestamp.now()
+        };
+        
+        transaction.update(statusRef, updates);
+        
+        this.logger.info('Added external reviewer', { contentId, inviteId: reviewer.inviteId });
+        
+        return {
+          ...workflowStatus,
+          ...updates
+        } as WorkflowStatus;
+      });
+    } catch (error) {
+      this.logger.error('Failed to add external reviewer', { error, contentId });
+      if (error instanceof WorkflowError) {
+        throw error;
+      }
+      throw new WorkflowError('Failed to add external reviewer');
+    }
+  }
+  
+  /**
+   * Take an external reviewer off a content item's review; reviews they
+   * already submitted stay on record
+   */
+  async removeExternalReviewer(contentId: string, inviteId: string): Promise<void> {
+    try {
+      await runTransaction(this.getFirestore(), async (transaction) => {
+        const statusRef = doc(this.getFirestore(), 'workflow_status', contentId);
+        const statusSnap = await transaction.get(statusRef);
+        
+        if (!statusSnap.exists()) {
+          return;
+        }
+        
+        const workflowStatus = statusSnap.data() as WorkflowStatus;
+        const reviewerId = externalReviewerId(inviteId);
+        const isPendingReviewer = (reviewer: ReviewerStatus) =>
+          reviewer.userId === reviewerId && reviewer.status === 'pending';
+        
+        const updates: Partial<WorkflowStatus> = {
+          assignedReviewers: workflowStatus.assignedReviewers.filter(reviewer => !isPendingReviewer(reviewer)),
+          updatedAt: Timestamp.now()
+        };
+        if (workflowStatus.stages) {
+          updates.stages = removePendingStageReviewer(workflowStatus.stages, reviewerId);
+        }
+        
+        transaction.update(statusRef, updates);
+      });
+    } catch (error) {
+      this.logger.error('Failed to remove external reviewer', { error, contentId, inviteId });
+      throw new WorkflowError('Failed to remove external reviewer');
+    }
+  }
+  
   /**
    * Find content items in specific workflow states
    */
@@ -755,6 +985,10 @@ export class WorkflowService {
     
     // Validate transitions
     this.validateTransitions(template.transitions);
+    
+    if (template.stages) {
+      this.validateStages(template.stages);
+    }
   }
   
   /**
@@ -791,6 +1025,278 @@ export class WorkflowService {
     }
   }
   
+  /**
+   * Validate approval stage definitions
+   */
+  private validateStages(stages: ApprovalStageDefinition[]): void {
+    const ids = new Set<string>();
+    
+    for (const stage of stages) {
+      if (!stage.id || ids.has(stage.id)) {
+        throw new WorkflowError('Approval stages must have unique IDs');
+      }
+      ids.add(stage.id);
+      
+      if (!stage.name || stage.name.trim() === '') {
+        throw new WorkflowError('Approval stage name is required');
+      }
+      
+      if (typeof stage.order !== 'number' || !isFinite(stage.order)) {
+        throw new WorkflowError(`Approval stage "${stage.name}" must have a numeric order`);
+      }
+      
+      const reviewers = stage.reviewers || [];
+      const roles = stage.reviewerRoles || [];
+      
+      if (reviewers.length === 0 && roles.length === 0) {
+        throw new WorkflowError(`Approval stage "${stage.name}" must have reviewers or reviewer roles`);
+      }
+      
+      const quorum = stage.quorum;
+      if (quorum?.type === 'count' && (!quorum.count || quorum.count < 1 || (roles.length === 0 && quorum.count > reviewers.length))) {
+        throw new WorkflowError(`Approval stage "${stage.name}" quorum count must be between 1 and the number of reviewers`);
+      }
+      
+      if (quorum?.type === 'percentage' && (!quorum.percentage || quorum.percentage <= 0 || quorum.percentage > 100)) {
+        throw new WorkflowError(`Approval stage "${stage.name}" quorum percentage must be between 1 and 100`);
+      }
+      
+      if (stage.dueInHours !== undefined && stage.dueInHours <= 0) {
+        throw new WorkflowError(`Approval stage "${stage.name}" due time must be positive`);
+      }
+      
+      if (stage.escalation) {
+        if (!stage.dueInHours) {
+          throw new WorkflowError(`Approval stage "${stage.name}" needs a due time to escalate`);
+        }
+        
+        if (!stage.escalation.escalateTo?.length && !stage.escalation.escalateToRoles?.length) {
+          throw new WorkflowError(`Approval stage "${stage.name}" escalation needs reviewers or roles to escalate to`);
+        }
+      }
+    }
+  }
+  
+  /**
+   * Work out which approval stages apply to a content item
+   * @returns Stage states, or undefined when the template has no stages
+   */
+  private async planApprovalStages(
+    template: WorkflowTemplate,
+    content: ContentItem
+  ): Promise<ApprovalStageState[] | undefined> {
+    if (!template.stages || template.stages.length === 0) {
+      return undefined;
+    }
+    
+    const context: StageConditionContext = {
+      text: [content.title, content.content].filter(Boolean).join('\n'),
+      platforms: (content.platformTargets || []).map(target => target.platformType),
+      tags: content.tags || []
+    };
+    
+    if (needsBrandScore(template.stages)) {
+      context.brandScore = await this.getBrandComplianceScore(content);
+    }
+    
+    return buildStageStates(template.stages, context);
+  }
+  
+  /**
+   * Re-plan the approval stages of a content item already in a workflow
+   */
+  private async replanApprovalStages(contentId: string): Promise<ApprovalStageState[] | undefined> {
+    const statusSnap = await getDoc(doc(this.getFirestore(), 'workflow_status', contentId));
+    if (!statusSnap.exists()) {
+      return undefined;
+    }
+    
+    const status = statusSnap.data() as WorkflowStatus;
+    const [templateSnap, contentSnap] = await Promise.all([
+      getDoc(doc(this.getFirestore(), 'workflow_templates', status.templateId)),
+      getDoc(doc(this.getFirestore(), 'content', contentId))
+    ]);
+    
+    if (!templateSnap.exists() || !contentSnap.exists()) {
+      return undefined;
+    }
+    
+    return this.planApprovalStages(templateSnap.data() as WorkflowTemplate, contentSnap.data() as ContentItem);
+  }
+  
+  /**
+   * Score content against the organization's brand guidelines
+   * @returns Score from 0-100, or undefined when it can't be checked
+   */
+  private async getBrandComplianceScore(content: ContentItem): Promise<number | undefined> {
+    if (!content.organizationId) {
+      return undefined;
+    }
+    
+    try {
+      const brandGuidelinesService = BrandGuidelinesService.getInstance();
+      const guidelines = await brandGuidelinesService.getBrandGuidelines(content.organizationId);
+      
+      if (!guidelines) {
+        return undefined;
+      }
+      
+      const result = await brandGuidelinesService.checkBrandCompliance({
+        text: content.content,
+        platform: content.platformTargets?.[0]?.platformType,
+        contentType: 'post',
+        hashtags: content.hashtags,
+        mentions: content.mentions
+      }, guidelines);
+      
+      return result.overallScore;
+    } catch (error) {
+      this.logger.warn('Brand compliance check failed; brand review stages will apply', { error, contentId: content.id });
+      return undefined;
+    }
+  }
+  
+  /**
+   * Reviewer updates that seat an external reviewer on content awaiting review
+   */
+  private seatExternalReviewer(
+    workflowStatus: WorkflowStatus,
+    reviewer: ExternalReviewerIdentity
+  ): Pick<WorkflowStatus, 'assignedReviewers'> & Partial<Pick<WorkflowStatus, 'stages'>> {
+    if (
+      workflowStatus.currentState !== WorkflowState.SUBMITTED &&
+      workflowStatus.currentState !== WorkflowState.IN_REVIEW
+    ) {
+      throw new WorkflowError('Content is not awaiting review');
+    }
+    
+    const seat: ReviewerStatus = { userId: externalReviewerId(reviewer.inviteId), status: 'pending', via: 'external' };
+    
+    if (usesApprovalStages(workflowStatus.stages)) {
+      const stages = addStageReviewer(workflowStatus.stages, seat, reviewer.stageId);
+      if (!stages) {
+        throw new WorkflowError('No open approval stage for this reviewer');
+      }
+      return { stages, assignedReviewers: getActiveReviewers(stages) };
+    }
+    
+    if (workflowStatus.assignedReviewers.some(existing => existing.userId === seat.userId)) {
+      return { assignedReviewers: workflowStatus.assignedReviewers };
+    }
+    return { assignedReviewers: workflowStatus.assignedReviewers.concat(seat) };
+  }
+  
+  /**
+   * Record a review in a staged workflow and advance its stages
+   */
+  private async submitStageReview(
+    transaction: Transaction,
+    statusRef: DocumentReference,
+    workflowStatus: WorkflowStatus,
+    input: ReviewSubmissionInput,
+    userId: string,
+    userRole?: TeamRole,
+    externalReviewer?: ExternalReviewerIdentity
+  ): Promise<WorkflowStatus> {
+    const { contentId, status: reviewStatus, comments, inlineComments } = input;
+    const now = Timestamp.now();
+    
+    const result = applyStageReview(workflowStatus.stages || [], { userId, userRole, status: reviewStatus, comments }, now);
+    
+    if (!result) {
+      throw new WorkflowError('User is not a reviewer for an active approval stage');
+    }
+    
+    const { state: newState, action } = STAGE_REVIEW_OUTCOMES[result.outcome];
+    const approvalsReceived = result.stages.reduce(
+      (total, stage) => total + stage.reviewers.filter(reviewer => reviewer.status === 'approved').length,
+      0
+    );
+    
+    // Transactions need every read before the first write
+    const contentRef = doc(this.getFirestore(), 'content', contentId);
+    const finished = newState === WorkflowState.APPROVED || newState === WorkflowState.REJECTED;
+    const contentSnap = finished ? await transaction.get(contentRef) : null;
+    const userName = externalReviewer ? externalReviewer.name : await getUserDisplayName(userId);
+    
+    const updates: Partial<WorkflowStatus> = {
+      stages: result.stages,
+      assignedReviewers: getActiveReviewers(result.stages),
+      approvalsReceived,
+      currentState: newState,
+      lastUpdatedBy: userId,
+      lastUpdateAction: action,
+      updatedAt: now
+    };
+    
+    transaction.update(statusRef, updates);
+    
+    const stageNames = result.stages
+      .filter(stage => result.reviewedStageIds.indexOf(stage.stageId) !== -1)
+      .map(stage => stage.name);
+    
+    const historyEntry: WorkflowHistoryEntry = {
+      id: uuidv4(),
+      contentId,
+      userId,
+      userName,
+      fromState: workflowStatus.currentState,
+      toState: newState,
+      action,
+      comments: comments ? `[${stageNames.join(', ')}] ${comments}` : `[${stageNames.join(', ')}]`,
+      ...(inlineComments && inlineComments.length > 0 ? { inlineComments } : {}),
+      ...(externalReviewer ? { externalReviewer } : {}),
+      timestamp: now
+    };
+    
+    transaction.set(doc(collection(this.getFirestore(), 'workflow_history')), historyEntry);
+    
+    if (contentSnap && contentSnap.exists()) {
+      transaction.update(contentRef, {
+        status: newState === WorkflowState.APPROVED ? 'scheduled' : 'draft',
+        updatedAt: now
+      });
+    }
+    
+    this.logger.info('Submitted approval stage review', {
+      contentId,
+      reviewStatus,
+      stages: stageNames,
+      outcome: result.outcome,
+      newState
+    });
+    
+    return {
+      ...workflowStatus,
+      ...updates
+    } as WorkflowStatus;
+  }
+  
+  /**
+   * Tell the organization's webhooks that approval was requested or decided
+   */
+  private emitApprovalEvent(status: WorkflowStatus, userId: string, comments?: string): void {
+    if (status.lastUpdateAction === WorkflowAction.SUBMIT) {
+      void emitWebhookEvent(WebhookEventType.APPROVAL_REQUESTED, {
+        contentId: status.contentId,
+        requestedBy: userId,
+        reviewers: status.assignedReviewers.map(reviewer => reviewer.userId),
+        stages: (status.stages || []).filter(stage => stage.status === ApprovalStageStatus.ACTIVE).map(stage => stage.name)
+      }, status.organizationId);
+      return;
+    }
+    
+    const decisions = [WorkflowAction.APPROVE, WorkflowAction.REJECT, WorkflowAction.REQUEST_CHANGES];
+    if (decisions.indexOf(status.lastUpdateAction) !== -1) {
+      void emitWebhookEvent(WebhookEventType.APPROVAL_DECIDED, {
+        contentId: status.contentId,
+        decision: status.currentState,
+        decidedBy: userId,
+        ...(comments ? { comments } : {})
+      }, status.organizationId);
+    }
+  }
+  
   /**
    * Unset any existing default template for an organization
    */
@@ -830,6 +1336,13 @@ const workflowService = new WorkflowService();
 // Export the singleton as the default export
 export default workflowService;
 
+/**
+ * Reviewer id used in workflows for an external review invite
+ */
+export function externalReviewerId(inviteId: string): string {
+  return `external:${inviteId}`;
+}
+
 // Helper function to extract display name from user profile
 async function getUserDisplayName(userId: string): Promise<string> {
   try {
@@ -0,0 +1,439 @@
+import { Timestamp } from 'firebase/firestore';
+import { TeamRole } from '../../auth/roles';
+import { PlatformType } from '../../platforms/PlatformProvider';
+import {
+  ApprovalQuorum,
+  ApprovalStageCondition,
+  ApprovalStageDefinition,
+  ApprovalStageState,
+  ApprovalStageStatus,
+  ReviewerStatus,
+  ReviewSubmissionInput
+} from '../models/workflow';
+
+/**
+ * Multi-stage approval chains
+ *
+ * Pure stage logic used by WorkflowService: deciding which stages apply to a
+ * content item, activating stages in order, counting reviews against each
+ * stage's quorum and escalating overdue stages. Returned stage arrays are
+ * new copies, ready to write to the workflow status document.
+ */
+
+// Currency amounts ("$49", "€10", "25 USD"), discounts ("20% off") and pricing words
+const PRICE_PATTERN = /[$€£¥₹]\s?\d|\d\s?(?:usd|eur|gbp|dollars?|euros?|pounds?)\b|\d+\s?%\s?off\b|\b(?:price[sd]?|pricing|discount(?:ed)?|per month|\/mo)\b/i;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Stage status set by a review that decides the stage on its own
+const DECISION_STATUS: Record<ReviewSubmissionInput['status'], ApprovalStageStatus> = {
+  approved: ApprovalStageStatus.APPROVED,
+  rejected: ApprovalStageStatus.REJECTED,
+  changes_requested: ApprovalStageStatus.CHANGES_REQUESTED
+};
+
+/**
+ * Content facts stage conditions are evaluated against
+ */
+export interface StageConditionContext {
+  text: string;
+  platforms: PlatformType[];
+  tags: string[];
+  // Brand compliance score (0-100); undefined when it couldn't be checked
+  brandScore?: number;
+}
+
+/**
+ * Result of applying a review to the active stages
+ * - pending: the active stages still need reviews
+ * - advanced: the active stages approved and the next stages started
+ * - approved: every stage approved
+ * - rejected / changes_requested: a stage ended the chain
+ */
+export interface StageReviewResult {
+  stages: ApprovalStageState[];
+  outcome: 'pending' | 'advanced' | 'approved' | 'rejected' | 'changes_requested';
+  reviewedStageIds: string[];
+}
+
+/**
+ * Whether any stage is conditional on the brand compliance score
+ */
+export function needsBrandScore(stages: ApprovalStageDefinition[]): boolean {
+  return stages.some(stage => (stage.conditions || []).some(condition => condition.type === 'brand_score_below'));
+}
+
+/**
+ * Whether a content item matches a stage condition
+ */
+export function matchesStageCondition(condition: ApprovalStageCondition, context: StageConditionContext): boolean {
+  switch (condition.type) {
+    case 'mentions_price':
+      return PRICE_PATTERN.test(context.text);
+
+    case 'keywords': {
+      const text = context.text.toLowerCase();
+      return condition.keywords.some(keyword => keyword && text.indexOf(keyword.toLowerCase()) !== -1);
+    }
+
+    case 'platform':
+      return context.platforms.some(platform => condition.platforms.indexOf(platform) !== -1);
+
+    case 'tags': {
+      const tags = context.tags.map(tag => tag.toLowerCase());
+      return condition.tags.some(tag => tags.indexOf(tag.toLowerCase()) !== -1);
+    }
+
+    case 'brand_score_below':
+      // Content that couldn't be scored gets the review rather than skipping it
+      return context.brandScore === undefined || context.brandScore < condition.threshold;
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Build the stage states for a content item, skipping stages whose
+ * conditions don't match. No stage is active until the content is submitted.
+ */
+export function buildStageStates(stages: ApprovalStageDefinition[], context: StageConditionContext): ApprovalStageState[] {
+  return stages
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .map(stage => {
+      const conditions = stage.conditions || [];
+      const matches = conditions.map(condition => matchesStageCondition(condition, context));
+      const applies = conditions.length === 0 ||
+        (stage.conditionMode === 'any' ? matches.some(Boolean) : matches.every(Boolean));
+
+      const state: ApprovalStageState = {
+        stageId: stage.id,
+        name: stage.name,
+        order: stage.order,
+        status: applies ? ApprovalStageStatus.PENDING : ApprovalStageStatus.SKIPPED,
+        reviewers: (stage.reviewers || []).map(userId => ({ userId, status: 'pending' as const })),
+        reviewerRoles: stage.reviewerRoles || [],
+        quorum: stage.quorum || { type: 'all' }
+      };
+
+      // Firestore rejects undefined fields
+      if (stage.dueInHours) {
+        state.dueInHours = stage.dueInHours;
+      }
+      if (stage.escalation) {
+        state.escalation = stage.escalation;
+      }
+      if (!applies) {
+        state.skipReason = 'Stage conditions did not match the content';
+      }
+
+      return state;
+    });
+}
+
+/**
+ * Whether a workflow is driven by approval stages rather than a flat
+ * approval count. Workflows where every stage was skipped fall back to the
+ * flat count.
+ */
+export function usesApprovalStages(stages?: ApprovalStageState[]): stages is ApprovalStageState[] {
+  return !!stages && stages.some(stage => stage.status !== ApprovalStageStatus.SKIPPED);
+}
+
+/**
+ * Start the next group of pending stages once no stage is active
+ * @returns Updated stages, and whether every stage has finished
+ */
+export function activateNextStages(
+  stages: ApprovalStageState[],
+  now: Timestamp
+): { stages: ApprovalStageState[]; completed: boolean } {
+  if (stages.some(stage => stage.status === ApprovalStageStatus.ACTIVE)) {
+    return { stages, completed: false };
+  }
+
+  const pending = stages.filter(stage => stage.status === ApprovalStageStatus.PENDING);
+  if (pending.length === 0) {
+    return { stages, completed: true };
+  }
+
+  const nextOrder = Math.min(...pending.map(stage => stage.order));
+
+  return {
+    completed: false,
+    stages: stages.map(stage => {
+      if (stage.status !== ApprovalStageStatus.PENDING || stage.order !== nextOrder) {
+        return stage;
+      }
+
+      const activated: ApprovalStageState = { ...stage, status: ApprovalStageStatus.ACTIVE, activatedAt: now };
+      if (stage.dueInHours) {
+        activated.dueAt = Timestamp.fromMillis(now.toMillis() + stage.dueInHours * HOUR_MS);
+      }
+      return activated;
+    })
+  };
+}
+
+/**
+ * Add a named reviewer to a stage, or to the active stages when no stage is
+ * given (the next pending stages before the chain starts). Finished stages
+ * can't take new reviewers.
+ * @returns Updated stages, or null when no stage could take the reviewer
+ */
+export function addStageReviewer(
+  stages: ApprovalStageState[],
+  reviewer: ReviewerStatus,
+  stageId?: string
+): ApprovalStageState[] | null {
+  const open = stages.filter(stage =>
+    stage.status === ApprovalStageStatus.ACTIVE || stage.status === ApprovalStageStatus.PENDING
+  );
+
+  let targets: ApprovalStageState[];
+  if (stageId) {
+    targets = open.filter(stage => stage.stageId === stageId);
+  } else {
+    targets = open.filter(stage => stage.status === ApprovalStageStatus.ACTIVE);
+    if (targets.length === 0 && open.length > 0) {
+      const nextOrder = Math.min(...open.map(stage => stage.order));
+      targets = open.filter(stage => stage.order === nextOrder);
+    }
+  }
+
+  if (targets.length === 0) {
+    return null;
+  }
+
+  return stages.map(stage => {
+    if (targets.indexOf(stage) === -1 || stage.reviewers.some(existing => existing.userId === reviewer.userId)) {
+      return stage;
+    }
+    return { ...stage, reviewers: stage.reviewers.concat(reviewer) };
+  });
+}
+
+/**
+ * Remove a reviewer from every stage they haven't reviewed yet
+ */
+export function removePendingStageReviewer(stages: ApprovalStageState[], userId: string): ApprovalStageState[] {
+  return stages.map(stage => {
+    const reviewers = stage.reviewers.filter(reviewer => reviewer.userId !== userId || reviewer.status !== 'pending');
+    return reviewers.length === stage.reviewers.length ? stage : { ...stage, reviewers };
+  });
+}
+
+/**
+ * Whether a user may review a stage, by name, role or escalation
+ */
+export function isStageReviewer(stage: ApprovalStageState, userId: string, userRole?: TeamRole): boolean {
+  const roles = stage.reviewerRoles.concat(stage.escalationRoles || []);
+  return stage.reviewers.some(reviewer => reviewer.userId === userId) ||
+    (!!userRole && roles.indexOf(userRole) !== -1);
+}
+
+/**
+ * Approvals a stage needs to pass
+ */
+export function getRequiredApprovals(quorum: ApprovalQuorum, namedReviewers: number): number {
+  switch (quorum.type) {
+    case 'any':
+      return 1;
+    case 'count':
+      return Math.max(1, quorum.count || 1);
+    case 'percentage':
+      return Math.max(1, Math.ceil((namedReviewers * (quorum.percentage ?? 100)) / 100));
+    case 'all':
+    default:
+      return Math.max(1, namedReviewers);
+  }
+}
+
+/**
+ * Record a review on every active stage the user can review, then advance
+ * the chain
+ * @returns Updated stages and the overall outcome, or null when the user
+ *   isn't a reviewer of any active stage
+ */
+export function applyStageReview(
+  stages: ApprovalStageState[],
+  review: { userId: string; userRole?: TeamRole; status: ReviewSubmissionInput['status']; comments?: string },
+  now: Timestamp
+): StageReviewResult | null {
+  const reviewedStageIds: string[] = [];
+
+  const updated = stages.map(stage => {
+    if (stage.status !== ApprovalStageStatus.ACTIVE || !isStageReviewer(stage, review.userId, review.userRole)) {
+      return stage;
+    }
+
+    reviewedStageIds.push(stage.stageId);
+
+    const existing = stage.reviewers.filter(reviewer => reviewer.userId === review.userId)[0];
+    const entry: ReviewerStatus = { userId: review.userId, status: review.status, timestamp: now };
+    const via = existing ? existing.via : getReviewerVia(stage, review.userRole);
+    if (via) {
+      entry.via = via;
+    }
+    if (review.comments) {
+      entry.comments = review.comments;
+    }
+
+    const reviewers = existing
+      ? stage.reviewers.map(reviewer => (reviewer.userId === review.userId ? entry : reviewer))
+      : stage.reviewers.concat(entry);
+
+    // Whoever the stage escalated to decides it alone
+    const status = via === 'escalation'
+      ? DECISION_STATUS[review.status]
+      : evaluateStage({ ...stage, reviewers });
+
+    const reviewed: ApprovalStageState = { ...stage, reviewers, status };
+    if (status !== ApprovalStageStatus.ACTIVE) {
+      reviewed.completedAt = now;
+    }
+    return reviewed;
+  });
+
+  if (reviewedStageIds.length === 0) {
+    return null;
+  }
+
+  if (updated.some(stage => stage.status === ApprovalStageStatus.CHANGES_REQUESTED)) {
+    return { stages: updated, outcome: 'changes_requested', reviewedStageIds };
+  }
+
+  if (updated.some(stage => stage.status === ApprovalStageStatus.REJECTED)) {
+    return { stages: updated, outcome: 'rejected', reviewedStageIds };
+  }
+
+  if (updated.some(stage => stage.status === ApprovalStageStatus.ACTIVE)) {
+    return { stages: updated, outcome: 'pending', reviewedStageIds };
+  }
+
+  const next = activateNextStages(updated, now);
+  return { stages: next.stages, outcome: next.completed ? 'approved' : 'advanced', reviewedStageIds };
+}
+
+/**
+ * How an unnamed reviewer qualifies for a stage
+ */
+function getReviewerVia(stage: ApprovalStageState, userRole?: TeamRole): ReviewerStatus['via'] {
+  if (userRole && stage.reviewerRoles.indexOf(userRole) !== -1) {
+    return 'role';
+  }
+  return 'escalation';
+}
+
+/**
+ * Work out an active stage's status from its reviews. A change request ends
+ * the stage. A rejection ends it once the quorum can no longer be reached;
+ * stages open to a role can't count the remaining pool, so any rejection
+ * ends them. Reviewers reviewing by role count towards the quorum but don't
+ * raise it; invited external reviewers count as named reviewers.
+ */
+function evaluateStage(stage: ApprovalStageState): ApprovalStageStatus {
+  const counted = stage.reviewers.filter(reviewer => reviewer.via !== 'escalation');
+
+  if (counted.some(reviewer => reviewer.status === 'changes_requested')) {
+    return ApprovalStageStatus.CHANGES_REQUESTED;
+  }
+
+  const named = counted.filter(reviewer => !reviewer.via || reviewer.via === 'external');
+  const approvals = counted.filter(reviewer => reviewer.status === 'approved').length;
+  const rejections = counted.filter(reviewer => reviewer.status === 'rejected').length;
+
+  if (stage.quorum.type === 'all') {
+    if (rejections > 0) {
+      return ApprovalStageStatus.REJECTED;
+    }
+    const met = named.length > 0 ? named.every(reviewer => reviewer.status === 'approved') : approvals > 0;
+    return met ? ApprovalStageStatus.APPROVED : ApprovalStageStatus.ACTIVE;
+  }
+
+  const required = getRequiredApprovals(stage.quorum, named.length);
+  if (approvals >= required) {
+    return ApprovalStageStatus.APPROVED;
+  }
+
+  const namedRejections = named.filter(reviewer => reviewer.status === 'rejected').length;
+  if (rejections > 0 && (stage.reviewerRoles.length > 0 || named.length - namedRejections < required)) {
+    return ApprovalStageStatus.REJECTED;
+  }
+
+  return ApprovalStageStatus.ACTIVE;
+}
+
+/**
+ * Reviewers of the active stages
+ */
+export function getActiveReviewers(stages: ApprovalStageState[]): ReviewerStatus[] {
+  const reviewers = new Map<string, ReviewerStatus>();
+
+  for (const stage of stages) {
+    if (stage.status === ApprovalStageStatus.ACTIVE) {
+      for (const reviewer of stage.reviewers) {
+        reviewers.set(reviewer.userId, reviewer);
+      }
+    }
+  }
+
+  return Array.from(reviewers.values());
+}
+
+/**
+ * Escalate active stages that are past their due date plus grace period.
+ * Escalation adds reviewers and roles whose review decides the stage, and can
+ * push the due date out; a stage escalates again only after its extended due
+ * date passes.
+ * @returns Updated stages and the ids of stages that escalated
+ */
+export function escalateOverdueStages(
+  stages: ApprovalStageState[],
+  now: Timestamp
+): { stages: ApprovalStageState[]; escalatedStageIds: string[] } {
+  const escalatedStageIds: string[] = [];
+
+  const updated = stages.map(stage => {
+    if (stage.status !== ApprovalStageStatus.ACTIVE || !stage.dueAt || !stage.escalation) {
+      return stage;
+    }
+
+    const escalation = stage.escalation;
+    const escalateAt = stage.dueAt.toMillis() + (escalation.afterHours || 0) * HOUR_MS;
+    const alreadyEscalated = stage.escalatedAt && stage.escalatedAt.toMillis() >= stage.dueAt.toMillis();
+
+    if (now.toMillis() < escalateAt || alreadyEscalated) {
+      return stage;
+    }
+
+    escalatedStageIds.push(stage.stageId);
+
+    const existing = stage.reviewers.map(reviewer => reviewer.userId);
+    const added: ReviewerStatus[] = (escalation.escalateTo || [])
+      .filter(userId => existing.indexOf(userId) === -1)
+      .map(userId => ({ userId, status: 'pending', via: 'escalation' }));
+    const escalationRoles = stage.escalationRoles || [];
+
+    const escalated: ApprovalStageState = {
+      ...stage,
+      reviewers: stage.reviewers.concat(added),
+      escalatedAt: now
+    };
+
+    if (escalation.escalateToRoles && escalation.escalateToRoles.length > 0) {
+      escalated.escalationRoles = escalationRoles.concat(
+        escalation.escalateToRoles.filter(role => escalationRoles.indexOf(role) === -1)
+      );
+    }
+
+    if (escalation.extendHours) {
+      escalated.dueAt = Timestamp.fromMillis(now.toMillis() + escalation.extendHours * HOUR_MS);
+    }
+
+    return escalated;
+  });
+
+  return { stages: updated, escalatedStageIds };
+}
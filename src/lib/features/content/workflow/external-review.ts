@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { Timestamp } from 'firebase/firestore';
+import { PlatformType } from '../../platforms/PlatformProvider';
+import { CharacterCount, countCharacters, splitIntoThread } from '../../platforms/utils/text-length';
+import { ContentItem } from '../CalendarService';
+import {
+  ExternalReviewEvent,
+  ExternalReviewInvite,
+  InlineReviewComment,
+  WorkflowHistoryEntry
+} from '../models/workflow';
+
+/**
+ * External review links
+ *
+ * Pure helpers for magic-link reviews by people outside the organization:
+ * link tokens, invite validity, the per-platform post preview shown on the
+ * review page, inline comment validation and the approval audit trail.
+ */
+
+// Platforms that publish over-long posts as a thread rather than truncating
+const THREADED_PLATFORMS: PlatformType[] = [
+  PlatformType.TWITTER,
+  PlatformType.THREADS,
+  PlatformType.BLUESKY,
+  PlatformType.MASTODON
+];
+
+const MAX_INLINE_COMMENTS = 50;
+const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Whether an invite's link can still be used
+ */
+export type InviteStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * How a post will appear on one of its target platforms
+ */
+export interface PlatformPreview {
+  platformType: PlatformType;
+  // Post text, split into parts where the platform threads long posts
+  parts: string[];
+  characterCount: CharacterCount;
+}
+
+/**
+ * One line of an approval audit trail
+ */
+export interface AuditTrailRow {
+  timestamp: string;
+  event: string;
+  actor: string;
+  email: string;
+  details: string;
+  ipAddress: string;
+  userAgent: string;
+}
+
+/**
+ * Generate a link token; 256 bits, URL safe
+ */
+export function generateReviewToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hash a link token for storage and lookup
+ */
+export function hashReviewToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Whether an invite's link can still be used at the given time
+ */
+export function getInviteStatus(invite: Pick<ExternalReviewInvite, 'expiresAt' | 'revokedAt'>, now: number): InviteStatus {
+  if (invite.revokedAt) {
+    return 'revoked';
+  }
+  return invite.expiresAt.toMillis() <= now ? 'expired' : 'active';
+}
+
+/**
+ * Preview a post on each of its target platforms
+ */
+export function buildPlatformPreviews(content: Pick<ContentItem, 'content' | 'platformTargets'>): PlatformPreview[] {
+  const platforms: PlatformType[] = [];
+  for (const target of content.platformTargets || []) {
+    if (platforms.indexOf(target.platformType) === -1) {
+      platforms.push(target.platformType);
+    }
+  }
+
+  return platforms.map(platformType => {
+    const characterCount = countCharacters(content.content, platformType);
+    const threaded = !characterCount.isValid && THREADED_PLATFORMS.indexOf(platformType) !== -1;
+
+    return {
+      platformType,
+      parts: threaded ? splitIntoThread(content.content, platformType) : [content.content],
+      characterCount
+    };
+  });
+}
+
+/**
+ * Validate inline comments sent from the review page. Comments anchored to a
+ * span of the post get their quote from the post itself, so the audit trail
+ * shows what the reviewer actually selected.
+ * @returns Cleaned comments; malformed entries are dropped
+ */
+export function sanitizeInlineComments(value: unknown, text: string): InlineReviewComment[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const platforms = Object.values(PlatformType) as string[];
+  const comments: InlineReviewComment[] = [];
+
+  for (const raw of value.slice(0, MAX_INLINE_COMMENTS)) {
+    if (!raw || typeof raw.text !== 'string' || !raw.text.trim()) {
+      continue;
+    }
+
+    const comment: InlineReviewComment = { text: raw.text.trim().slice(0, MAX_COMMENT_LENGTH) };
+
+    if (typeof raw.platform === 'string' && platforms.indexOf(raw.platform) !== -1) {
+      comment.platform = raw.platform as PlatformType;
+    }
+
+    const { start, end } = raw;
+    if (Number.isInteger(start) && Number.isInteger(end) && start >= 0 && start < end && end <= text.length) {
+      comment.start = start;
+      comment.end = end;
+      comment.quote = text.slice(start, end);
+    }
+
+    comments.push(comment);
+  }
+
+  return comments;
+}
+
+/**
+ * Build the approval audit trail for a content item: every invite's access
+ * log merged with the workflow history, oldest first
+ */
+export function buildAuditTrailRows(
+  invites: ExternalReviewInvite[],
+  events: ExternalReviewEvent[],
+  history: WorkflowHistoryEntry[]
+): AuditTrailRow[] {
+  const invitesById = new Map(invites.map(invite => [invite.id, invite] as [string, ExternalReviewInvite]));
+  const rows: Array<{ millis: number; row: AuditTrailRow }> = [];
+
+  for (const event of events) {
+    const invite = invitesById.get(event.inviteId);
+    rows.push({
+      millis: event.timestamp.toMillis(),
+      row: {
+        timestamp: formatTimestamp(event.timestamp),
+        event: `external_${event.type}`,
+        actor: event.actor,
+        email: invite ? invite.reviewerEmail : '',
+        details: event.details || '',
+        ipAddress: event.ipAddress || '',
+        userAgent: event.userAgent || ''
+      }
+    });
+  }
+
+  for (const entry of history) {
+    const inline = (entry.inlineComments || []).map(comment =>
+      comment.quote ? `"${comment.quote}": ${comment.text}` : comment.text
+    );
+    const details = [`${entry.fromState} -> ${entry.toState}`, entry.comments || '']
+      .concat(inline)
+      .filter(Boolean)
+      .join(' | ');
+
+    rows.push({
+      millis: entry.timestamp.toMillis(),
+      row: {
+        timestamp: formatTimestamp(entry.timestamp),
+        event: entry.action,
+        actor: entry.userName,
+        email: entry.externalReviewer ? entry.externalReviewer.email : '',
+        details,
+        ipAddress: '',
+        userAgent: ''
+      }
+    });
+  }
+
+  return rows
+    .sort((a, b) => a.millis - b.millis)
+    .map(({ row }) => row);
+}
+
+function formatTimestamp(timestamp: Timestamp): string {
+  return new Date(timestamp.toMillis()).toISOString();
+}
@@ -5,6 +5,12 @@
  * Credits are consumed when using AI features (chat, content generation, etc.)
  * Admin users have unlimited credits.
  *
+ * Every charge runs through a reservation: credits are held before the AI
+ * call (reserve), charged when it succeeds (commit) and returned when it
+ * fails (release), each step in a Firestore transaction. The transaction
+ * history is the ledger; a daily job recomputes balances from it and flags
+ * any that have drifted.
+ *
  * Pricing Structure:
  * - Starter: 100 credits - $10 ($0.10/credit)
  * - Growth: 500 credits - $40 ($0.08/credit)
@@ -20,17 +26,28 @@ import { getFirebaseFirestore } from '@/lib/core/firebase';
 import {
   doc,
   getDoc,
+  setDoc,
   updateDoc,
-  increment,
   Timestamp,
   collection,
-  addDoc,
   query,
   where,
   orderBy,
   limit as firestoreLimit,
   getDocs,
+  runTransaction,
+  documentId,
+  startAfter,
+  Firestore,
 } from 'firebase/firestore';
+import {
+  CREDIT_RESERVATION_TTL_MS,
+  findLedgerMismatches,
+  getLedgerEntryId,
+  summarizeLedger,
+} from './ledger';
+import { recordAuditEvent } from '@/lib/team/activity/audit-events';
+import { logger } from '@/lib/core/logging/logger';
 
 /**
  * Credit bundle tiers
@@ -134,6 +151,8 @@ export interface CreditTransaction {
   balance: number; // Balance after transaction
   operation?: AIOperation;
   bundle?: CreditBundle;
+  reservationId?: string;
+  idempotencyKey?: string;
   description: string;
   metadata?: Record<string, any>;
   createdAt: Date;
@@ -146,6 +165,7 @@ export interface CreditBalance {
   userId: string;
   organizationId: string;
   balance: number;
+  reserved: number; // Held by in-flight operations; not spendable until released
   isUnlimited: boolean; // True for admin users
   lifetimeEarned: number;
   lifetimeSpent: number;
@@ -153,9 +173,81 @@ export interface CreditBalance {
   updatedAt: Date;
 }
 
+/**
+ * Credit reservation lifecycle
+ */
+export enum CreditReservationStatus {
+  ACTIVE = 'active',
+  COMMITTED = 'committed',
+  RELEASED = 'released',
+  EXPIRED = 'expired',
+}
+
+/**
+ * Credits held for one AI operation until it succeeds (commit) or fails (release)
+ */
+export interface CreditReservation {
+  id: string;
+  userId: string;
+  organizationId: string;
+  operation: AIOperation;
+  quantity: number;
+  amount: number;
+  status: CreditReservationStatus;
+  metered: boolean; // False when nothing is held: the system is inactive or the user is unlimited
+  idempotencyKey?: string;
+  metadata?: Record<string, any>;
+  // The operation succeeded but committing failed; reconciliation commits it instead of expiring it
+  commitPending?: boolean;
+  commitMetadata?: Record<string, any>;
+  createdAt: Date;
+  expiresAt: Date;
+  settledAt?: Date;
+}
+
+export interface ReserveCreditsOptions {
+  quantity?: number;
+  // Retried requests with the same key reuse one reservation and are charged once;
+  // a key whose operation already succeeded is rejected rather than run again
+  idempotencyKey?: string;
+  metadata?: Record<string, any>;
+}
+
+export type CreditErrorCode =
+  | 'INSUFFICIENT_CREDITS'
+  | 'RESERVATION_NOT_FOUND'
+  | 'RESERVATION_SETTLED'
+  | 'IDEMPOTENCY_CONFLICT';
+
+export class CreditError extends Error {
+  constructor(
+    message: string,
+    public readonly code: CreditErrorCode,
+    public readonly details?: { required?: number; available?: number }
+  ) {
+    super(message);
+    this.name = 'CreditError';
+  }
+}
+
+/**
+ * Outcome of a reconciliation run
+ */
+export interface CreditReconciliationResult {
+  checked: number;
+  mismatched: number;
+  expiredReservations: number;
+  committedReservations: number;
+}
+
 class CreditService {
   private readonly BALANCES_COLLECTION = 'creditBalances';
   private readonly TRANSACTIONS_COLLECTION = 'creditTransactions';
+  private readonly RESERVATIONS_COLLECTION = 'creditReservations';
+  private readonly RECONCILIATION_ISSUES_COLLECTION = 'creditReconciliationIssues';
+  private readonly RECONCILIATION_PAGE_SIZE = 100;
+  private readonly COMMIT_ATTEMPTS = 3;
+  private readonly COMMIT_RETRY_DELAY_MS = 200;
 
   /**
    * Credit system active status
@@ -180,23 +272,11 @@ class CreditService {
         throw new Error('Database not configured');
       }
       const balanceDoc = await getDoc(
-        doc(firestore, this.BALANCES_COLLECTION, `${userId}_${organizationId}`)
+        doc(firestore, this.BALANCES_COLLECTION, this.getBalanceId(userId, organizationId))
       );
 
       if (!balanceDoc.exists()) {
-        // Create initial balance
-        const initialBalance: CreditBalance = {
-          userId,
-          organizationId,
-          balance: 0,
-          isUnlimited: false,
-          lifetimeEarned: 0,
-          lifetimeSpent: 0,
-          updatedAt: new Date(),
-        };
-
-        await this.createBalance(userId, organizationId);
-        return initialBalance;
+        return this.createBalance(userId, organizationId);
       }
 
       const data = balanceDoc.data();
@@ -204,6 +284,7 @@ class CreditService {
         userId: data.userId,
         organizationId: data.organizationId,
         balance: data.balance || 0,
+        reserved: data.reserved || 0,
         isUnlimited: data.isUnlimited || false,
         lifetimeEarned: data.lifetimeEarned || 0,
         lifetimeSpent: data.lifetimeSpent || 0,
@@ -219,44 +300,36 @@ class CreditService {
   /**
    * Create initial balance for user
    */
-  private async createBalance(userId: string, organizationId: string): Promise<void> {
-    try {
-      const firestore = getFirebaseFirestore();
-      if (!firestore) {
-        throw new Error('Database not configured');
-      }
-      // Check if user is admin (has admin role in Firestore)
-      const userDoc = await getDoc(doc(firestore, 'users', userId));
-      const isAdmin = userDoc.exists() && userDoc.data().role === 'super_admin';
+  private async createBalance(userId: string, organizationId: string): Promise<CreditBalance> {
+    const firestore = this.getFirestore();
 
-      await updateDoc(
-        doc(firestore, this.BALANCES_COLLECTION, `${userId}_${organizationId}`),
-        {
-          userId,
-          organizationId,
-          balance: 0,
-          isUnlimited: isAdmin,
-          lifetimeEarned: 0,
-          lifetimeSpent: 0,
-          updatedAt: Timestamp.now(),
-        }
-      );
-    } catch (error) {
-      const firestore = getFirebaseFirestore();
-      if (!firestore) {
-        throw new Error('Database not configured');
-      }
-      // Document doesn't exist, create it
-      await addDoc(collection(firestore, this.BALANCES_COLLECTION), {
+    // Check if user is admin (has admin role in Firestore)
+    const userDoc = await getDoc(doc(firestore, 'users', userId));
+    const isAdmin = userDoc.exists() && userDoc.data().role === 'super_admin';
+    const now = new Date();
+
+    // Merge so a balance credited concurrently is not reset to zero
+    await setDoc(
+      doc(firestore, this.BALANCES_COLLECTION, this.getBalanceId(userId, organizationId)),
+      {
         userId,
         organizationId,
-        balance: 0,
-        isUnlimited: false,
-        lifetimeEarned: 0,
-        lifetimeSpent: 0,
-        updatedAt: Timestamp.now(),
-      });
-    }
+        isUnlimited: isAdmin,
+        updatedAt: Timestamp.fromDate(now),
+      },
+      { merge: true }
+    );
+
+    return {
+      userId,
+      organizationId,
+      balance: 0,
+      reserved: 0,
+      isUnlimited: isAdmin,
+      lifetimeEarned: 0,
+      lifetimeSpent: 0,
+      updatedAt: now,
+    };
   }
 
   /**
@@ -281,9 +354,10 @@ class CreditService {
     }
 
     const required = this.calculateCost(operation, quantity);
+    const available = balance.balance - balance.reserved;
     return {
-      hasCredits: balance.balance >= required,
-      balance: balance.balance,
+      hasCredits: available >= required,
+      balance: available,
       required,
     };
   }
@@ -305,67 +379,301 @@ class CreditService {
   }
 
   /**
-   * Deduct credits for operation
+   * Hold credits for an operation before running it
+   * @throws CreditError INSUFFICIENT_CREDITS when the available balance cannot cover it
+   * @throws CreditError IDEMPOTENCY_CONFLICT when the key belongs to another operation or one already charged
    */
-  async deductCredits(
+  async reserveCredits(
     userId: string,
     organizationId: string,
     operation: AIOperation,
-    quantity: number = 1,
-    metadata?: Record<string, any>
-  ): Promise<{ success: boolean; newBalance: number; error?: string }> {
-    try {
-      // If credit system is not active, skip deduction
-      if (!this.ACTIVE) {
-        return { success: true, newBalance: Infinity };
+    options: ReserveCreditsOptions = {}
+  ): Promise<CreditReservation> {
+    const quantity = options.quantity ?? 1;
+    const amount = this.calculateCost(operation, quantity);
+    const now = new Date();
+    const reservation: CreditReservation = {
+      id: '',
+      userId,
+      organizationId,
+      operation,
+      quantity,
+      amount,
+      status: CreditReservationStatus.ACTIVE,
+      metered: false,
+      ...(options.idempotencyKey && { idempotencyKey: options.idempotencyKey }),
+      ...(options.metadata && { metadata: options.metadata }),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + CREDIT_RESERVATION_TTL_MS),
+    };
+
+    // If credit system is not active, or the user is unlimited, nothing is held
+    if (!this.ACTIVE) {
+      return reservation;
+    }
+    const current = await this.getBalance(userId, organizationId);
+    if (current.isUnlimited) {
+      return reservation;
+    }
+
+    const firestore = this.getFirestore();
+    const balanceRef = doc(firestore, this.BALANCES_COLLECTION, this.getBalanceId(userId, organizationId));
+    const reservationRef = options.idempotencyKey
+      ? doc(
+          firestore,
+          this.RESERVATIONS_COLLECTION,
+          getLedgerEntryId('reservation', userId, organizationId, options.idempotencyKey)
+        )
+      : doc(collection(firestore, this.RESERVATIONS_COLLECTION));
+
+    return runTransaction(firestore, async (transaction) => {
+      const balanceDoc = await transaction.get(balanceRef);
+      const reservationDoc = await transaction.get(reservationRef);
+
+      if (reservationDoc.exists()) {
+        const existing = this.toReservation(reservationDoc.id, reservationDoc.data());
+        if (existing.operation !== operation || existing.amount !== amount) {
+          throw new CreditError('Idempotency key was already used for a different operation', 'IDEMPOTENCY_CONFLICT');
+        }
+        // The operation already succeeded under this key; returning the reservation would run it again for free
+        if (existing.status === CreditReservationStatus.COMMITTED || existing.commitPending) {
+          throw new CreditError('Idempotency key was already used for a completed operation', 'IDEMPOTENCY_CONFLICT');
+        }
+        // Already holding under this key; a released or expired one may be held again
+        if (existing.status === CreditReservationStatus.ACTIVE) {
+          return existing;
+        }
+      }
+
+      const data = balanceDoc.exists() ? balanceDoc.data() : {};
+      const available = (data.balance || 0) - (data.reserved || 0);
+      if (available < amount) {
+        throw new CreditError(
+          `Insufficient credits. Required: ${amount}, Available: ${available}`,
+          'INSUFFICIENT_CREDITS',
+          { required: amount, available }
+        );
       }
 
-      const balance = await this.getBalance(userId, organizationId);
+      transaction.set(
+        balanceRef,
+        { reserved: (data.reserved || 0) + amount, updatedAt: Timestamp.fromDate(now) },
+        { merge: true }
+      );
+
+      const held: CreditReservation = { ...reservation, id: reservationRef.id, metered: true };
+      transaction.set(reservationRef, this.reservationToFirestore(held));
+      return held;
+    });
+  }
+
+  /**
+   * Charge a reservation once its operation has succeeded. Committing the
+   * same reservation twice charges once.
+   */
+  async commitReservation(
+    reservation: CreditReservation,
+    metadata?: Record<string, any>
+  ): Promise<{ newBalance: number; creditsUsed: number }> {
+    if (!reservation.metered) {
+      return { newBalance: Infinity, creditsUsed: 0 };
+    }
+
+    const firestore = this.getFirestore();
+    const reservationRef = doc(firestore, this.RESERVATIONS_COLLECTION, reservation.id);
+    const balanceRef = doc(
+      firestore,
+      this.BALANCES_COLLECTION,
+      this.getBalanceId(reservation.userId, reservation.organizationId)
+    );
+    // The ledger entry shares the reservation's id, so it can only be written once
+    const transactionRef = doc(firestore, this.TRANSACTIONS_COLLECTION, reservation.id);
 
-      // Admin has unlimited credits
-      if (balance.isUnlimited) {
-        return { success: true, newBalance: Infinity };
+    return runTransaction(firestore, async (transaction) => {
+      const reservationDoc = await transaction.get(reservationRef);
+      const balanceDoc = await transaction.get(balanceRef);
+
+      if (!reservationDoc.exists()) {
+        throw new CreditError('Credit reservation not found', 'RESERVATION_NOT_FOUND');
       }
 
-      const cost = this.calculateCost(operation, quantity);
+      const current = this.toReservation(reservationDoc.id, reservationDoc.data());
+      const data = balanceDoc.exists() ? balanceDoc.data() : {};
 
-      if (balance.balance < cost) {
-        return {
-          success: false,
-          newBalance: balance.balance,
-          error: `Insufficient credits. Required: ${cost}, Available: ${balance.balance}`,
-        };
+      if (current.status === CreditReservationStatus.COMMITTED) {
+        return { newBalance: data.balance || 0, creditsUsed: current.amount };
+      }
+      if (current.status !== CreditReservationStatus.ACTIVE) {
+        throw new CreditError(`Credit reservation was already ${current.status}`, 'RESERVATION_SETTLED');
       }
 
-      // Deduct credits
-      const firestore = getFirebaseFirestore();
-      if (!firestore) {
-        throw new Error('Database not configured');
+      const now = new Date();
+      const newBalance = (data.balance || 0) - current.amount;
+
+      transaction.set(
+        balanceRef,
+        {
+          balance: newBalance,
+          reserved: Math.max(0, (data.reserved || 0) - current.amount),
+          lifetimeSpent: (data.lifetimeSpent || 0) + current.amount,
+          updatedAt: Timestamp.fromDate(now),
+        },
+        { merge: true }
+      );
+      transaction.update(reservationRef, {
+        status: CreditReservationStatus.COMMITTED,
+        settledAt: Timestamp.fromDate(now),
+      });
+      transaction.set(
+        transactionRef,
+        this.transactionToFirestore({
+          userId: current.userId,
+          organizationId: current.organizationId,
+          type: 'deduction',
+          amount: -current.amount,
+          balance: newBalance,
+          operation: current.operation,
+          reservationId: current.id,
+          idempotencyKey: current.idempotencyKey,
+          description: `Used ${current.amount} credits for ${current.operation}`,
+          metadata: { ...current.metadata, ...metadata },
+          createdAt: now,
+        })
+      );
+
+      return { newBalance, creditsUsed: current.amount };
+    });
+  }
+
+  /**
+   * Return a reservation's credits after its operation failed. Releasing a
+   * committed reservation does nothing.
+   */
+  async releaseReservation(reservation: CreditReservation): Promise<void> {
+    if (!reservation.metered) {
+      return;
+    }
+    await this.settleReservation(reservation.id, CreditReservationStatus.RELEASED);
+  }
+
+  /**
+   * Run an operation inside a reservation: commit when it resolves, release
+   * when it throws so provider failures cost nothing. A commit that keeps
+   * failing after the operation succeeded is left for reconciliation to
+   * charge, so newBalance is 0 (unknown) in that case.
+   */
+  async withCredits<T>(
+    userId: string,
+    organizationId: string,
+    operation: AIOperation,
+    run: () => Promise<T>,
+    options: ReserveCreditsOptions & { describe?: (result: T) => Record<string, any> } = {}
+  ): Promise<{ result: T; creditsUsed: number; newBalance: number }> {
+    const reservation = await this.reserveCredits(userId, organizationId, operation, options);
+
+    let result: T;
+    try {
+      result = await run();
+    } catch (error) {
+      try {
+        await this.releaseReservation(reservation);
+      } catch (releaseError) {
+        // Reconciliation releases it once it expires
+        logger.error('Error releasing credit reservation', {
+          reservationId: reservation.id,
+          error: releaseError instanceof Error ? releaseError.message : String(releaseError),
+        });
       }
-      const balanceRef = doc(firestore, this.BALANCES_COLLECTION, `${userId}_${organizationId}`);
-      await updateDoc(balanceRef, {
-        balance: increment(-cost),
-        lifetimeSpent: increment(cost),
-        updatedAt: Timestamp.now(),
+      throw error;
+    }
+
+    const metadata = options.describe?.(result);
+    try {
+      const committed = await this.commitWithRetry(reservation, metadata);
+      return { result, ...committed };
+    } catch (error) {
+      logger.error('Failed to commit credit reservation', {
+        reservationId: reservation.id,
+        error: error instanceof Error ? error.message : String(error),
       });
+      if (error instanceof CreditError) {
+        // Settled already (it expired while the operation ran), so nothing is left to charge
+        return { result, creditsUsed: 0, newBalance: 0 };
+      }
+      await this.markCommitPending(reservation, metadata);
+      return { result, creditsUsed: reservation.amount, newBalance: 0 };
+    }
+  }
 
-      const newBalance = balance.balance - cost;
+  /**
+   * Commit a reservation, retrying failures other than CreditErrors
+   */
+  private async commitWithRetry(
+    reservation: CreditReservation,
+    metadata?: Record<string, any>
+  ): Promise<{ newBalance: number; creditsUsed: number }> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.commitReservation(reservation, metadata);
+      } catch (error) {
+        if (error instanceof CreditError || attempt >= this.COMMIT_ATTEMPTS) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, this.COMMIT_RETRY_DELAY_MS * attempt));
+      }
+    }
+  }
 
-      // Record transaction
-      await this.recordTransaction({
-        userId,
-        organizationId,
-        type: 'deduction',
-        amount: -cost,
-        balance: newBalance,
-        operation,
-        description: `Used ${cost} credits for ${operation}`,
+  /**
+   * Flag a reservation whose operation succeeded so reconciliation commits
+   * it rather than returning its credits
+   */
+  private async markCommitPending(reservation: CreditReservation, metadata?: Record<string, any>): Promise<void> {
+    try {
+      await updateDoc(doc(this.getFirestore(), this.RESERVATIONS_COLLECTION, reservation.id), {
+        commitPending: true,
+        ...(metadata && { commitMetadata: this.withoutUndefined(metadata) }),
+      });
+    } catch (error) {
+      logger.error('Error flagging credit reservation for commit; it will expire uncharged', {
+        reservationId: reservation.id,
+        userId: reservation.userId,
+        organizationId: reservation.organizationId,
+        amount: reservation.amount,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Deduct credits for operation
+   */
+  async deductCredits(
+    userId: string,
+    organizationId: string,
+    operation: AIOperation,
+    quantity: number = 1,
+    metadata?: Record<string, any>,
+    idempotencyKey?: string
+  ): Promise<{ success: boolean; newBalance: number; error?: string }> {
+    try {
+      const reservation = await this.reserveCredits(userId, organizationId, operation, {
+        quantity,
         metadata,
-        createdAt: new Date(),
+        idempotencyKey,
       });
+      const { newBalance } = await this.commitReservation(reservation);
 
       return { success: true, newBalance };
     } catch (error) {
+      if (error instanceof CreditError && error.code === 'INSUFFICIENT_CREDITS') {
+        return {
+          success: false,
+          newBalance: error.details?.available ?? 0,
+          error: error.message,
+        };
+      }
+
       console.error('Error deducting credits:', error);
       return {
         success: false,
@@ -377,6 +685,7 @@ class CreditService {
 
   /**
    * Add credits to user account (from purchase or bonus)
+   * @param idempotencyKey e.g. the Stripe checkout session id, so a redelivered event credits once
    */
   async addCredits(
     userId: string,
@@ -384,41 +693,85 @@ class CreditService {
     amount: number,
     type: 'purchase' | 'bonus' | 'refund',
     bundle?: CreditBundle,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    idempotencyKey?: string
   ): Promise<{ success: boolean; newBalance: number }> {
     try {
-      const firestore = getFirebaseFirestore();
-      if (!firestore) {
-        throw new Error('Database not configured');
-      }
-      const balanceRef = doc(firestore, this.BALANCES_COLLECTION, `${userId}_${organizationId}`);
+      const firestore = this.getFirestore();
+      const balanceRef = doc(firestore, this.BALANCES_COLLECTION, this.getBalanceId(userId, organizationId));
+      const transactionRef = idempotencyKey
+        ? doc(
+            firestore,
+            this.TRANSACTIONS_COLLECTION,
+            getLedgerEntryId('credit', userId, organizationId, idempotencyKey)
+          )
+        : doc(collection(firestore, this.TRANSACTIONS_COLLECTION));
 
-      // Update balance
-      await updateDoc(balanceRef, {
-        balance: increment(amount),
-        lifetimeEarned: increment(amount),
-        lastPurchaseAt: type === 'purchase' ? Timestamp.now() : undefined,
-        updatedAt: Timestamp.now(),
-      });
+      let credited = false;
+      const newBalance = await runTransaction(firestore, async (transaction) => {
+        const balanceDoc = await transaction.get(balanceRef);
+        const existingDoc = await transaction.get(transactionRef);
+        const data = balanceDoc.exists() ? balanceDoc.data() : {};
+
+        credited = !existingDoc.exists();
+        if (!credited) {
+          return data.balance || 0;
+        }
 
-      const balance = await this.getBalance(userId, organizationId);
-      const newBalance = balance.balance + amount;
+        const now = new Date();
+        const updatedBalance = (data.balance || 0) + amount;
 
-      // Record transaction
-      await this.recordTransaction({
-        userId,
-        organizationId,
-        type,
-        amount,
-        balance: newBalance,
-        bundle,
-        description: bundle
-          ? `Purchased ${CREDIT_BUNDLES[bundle].credits} credits (${bundle} bundle)`
-          : `Added ${amount} credits (${type})`,
-        metadata,
-        createdAt: new Date(),
+        transaction.set(
+          balanceRef,
+          {
+            userId,
+            organizationId,
+            balance: updatedBalance,
+            lifetimeEarned: (data.lifetimeEarned || 0) + amount,
+            ...(type === 'purchase' && { lastPurchaseAt: Timestamp.fromDate(now) }),
+            updatedAt: Timestamp.fromDate(now),
+          },
+          { merge: true }
+        );
+        transaction.set(
+          transactionRef,
+          this.transactionToFirestore({
+            userId,
+            organizationId,
+            type,
+            amount,
+            balance: updatedBalance,
+            bundle,
+            idempotencyKey,
+            description: bundle
+              ? `Purchased ${CREDIT_BUNDLES[bundle].credits} credits (${bundle} bundle)`
+              : `Added ${amount} credits (${type})`,
+            metadata,
+            createdAt: now,
+          })
+        );
+
+        return updatedBalance;
       });
 
+      if (credited) {
+        void recordAuditEvent({
+          userId,
+          category: 'subscription',
+          action: 'add_credits',
+          severity: 'info',
+          organizationId,
+          resourceId: transactionRef.id,
+          resourceType: 'credit_transaction',
+          metadata: {
+            type,
+            amount,
+            newBalance,
+            ...(bundle ? { bundle } : {}),
+          },
+        });
+      }
+
       return { success: true, newBalance };
     } catch (error) {
       console.error('Error adding credits:', error);
@@ -427,21 +780,204 @@ class CreditService {
   }
 
   /**
-   * Record credit transaction
+   * Recompute every balance from its transaction history and flag the ones
+   * that disagree. Expired reservations are settled first. Mismatches are
+   * recorded for review rather than corrected.
    */
-  private async recordTransaction(transaction: CreditTransaction): Promise<void> {
-    try {
-      const firestore = getFirebaseFirestore();
-      if (!firestore) {
-        throw new Error('Database not configured');
+  async reconcileBalances(): Promise<CreditReconciliationResult> {
+    const firestore = this.getFirestore();
+    const result: CreditReconciliationResult = {
+      checked: 0,
+      mismatched: 0,
+      ...(await this.settleExpiredReservations()),
+    };
+
+    let cursor: string | undefined;
+    for (;;) {
+      const page = await getDocs(
+        query(
+          collection(firestore, this.BALANCES_COLLECTION),
+          orderBy(documentId()),
+          ...(cursor ? [startAfter(cursor)] : []),
+          firestoreLimit(this.RECONCILIATION_PAGE_SIZE)
+        )
+      );
+
+      for (const balanceDoc of page.docs) {
+        try {
+          if (await this.reconcileBalance(balanceDoc.id, balanceDoc.data())) {
+            result.mismatched++;
+          }
+          result.checked++;
+        } catch (error) {
+          logger.error('Error reconciling credit balance', {
+            balanceId: balanceDoc.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
       }
-      await addDoc(collection(firestore, this.TRANSACTIONS_COLLECTION), {
-        ...transaction,
-        createdAt: Timestamp.fromDate(transaction.createdAt),
+
+      if (page.docs.length < this.RECONCILIATION_PAGE_SIZE) {
+        break;
+      }
+      cursor = page.docs[page.docs.length - 1].id;
+    }
+
+    return result;
+  }
+
+  /**
+   * Compare one balance with its ledger; returns whether it was flagged
+   */
+  private async reconcileBalance(balanceId: string, data: Record<string, any>): Promise<boolean> {
+    const firestore = this.getFirestore();
+
+    const [transactionsSnapshot, reservationsSnapshot] = await Promise.all([
+      getDocs(
+        query(
+          collection(firestore, this.TRANSACTIONS_COLLECTION),
+          where('userId', '==', data.userId),
+          where('organizationId', '==', data.organizationId)
+        )
+      ),
+      getDocs(
+        query(
+          collection(firestore, this.RESERVATIONS_COLLECTION),
+          where('userId', '==', data.userId),
+          where('organizationId', '==', data.organizationId),
+          where('status', '==', CreditReservationStatus.ACTIVE)
+        )
+      ),
+    ]);
+
+    const expected = {
+      ...summarizeLedger(transactionsSnapshot.docs.map((transactionDoc) => transactionDoc.data() as { amount: number })),
+      reserved: reservationsSnapshot.docs.reduce((sum, reservationDoc) => sum + (reservationDoc.data().amount || 0), 0),
+    };
+    const mismatches = findLedgerMismatches(
+      {
+        balance: data.balance || 0,
+        reserved: data.reserved || 0,
+        lifetimeEarned: data.lifetimeEarned || 0,
+        lifetimeSpent: data.lifetimeSpent || 0,
+      },
+      expected
+    );
+
+    const issueRef = doc(firestore, this.RECONCILIATION_ISSUES_COLLECTION, balanceId);
+    if (mismatches.length > 0) {
+      logger.warn('Credit balance does not match its ledger', {
+        userId: data.userId,
+        organizationId: data.organizationId,
+        mismatches,
       });
-    } catch (error) {
-      console.error('Error recording transaction:', error);
+      await setDoc(issueRef, {
+        userId: data.userId,
+        organizationId: data.organizationId,
+        mismatches,
+        status: 'open',
+        detectedAt: Timestamp.now(),
+      });
+      void recordAuditEvent({
+        userId: data.userId,
+        category: 'subscription',
+        action: 'credit_balance_mismatch',
+        severity: 'warning',
+        organizationId: data.organizationId,
+        resourceId: balanceId,
+        resourceType: 'credit_balance',
+        metadata: { mismatches },
+      });
+      return true;
     }
+
+    // Clear an issue a previous run raised once the balance agrees again
+    const issueDoc = await getDoc(issueRef);
+    if (issueDoc.exists() && issueDoc.data().status === 'open') {
+      await updateDoc(issueRef, { status: 'resolved', resolvedAt: Timestamp.now() });
+    }
+    return false;
+  }
+
+  /**
+   * Settle reservations whose operation never committed or released them:
+   * ones flagged commitPending are charged, the rest are released
+   */
+  private async settleExpiredReservations(): Promise<{ expiredReservations: number; committedReservations: number }> {
+    const firestore = this.getFirestore();
+    const expired = await getDocs(
+      query(
+        collection(firestore, this.RESERVATIONS_COLLECTION),
+        where('status', '==', CreditReservationStatus.ACTIVE),
+        where('expiresAt', '<=', Timestamp.now()),
+        firestoreLimit(500)
+      )
+    );
+
+    const settled = { expiredReservations: 0, committedReservations: 0 };
+    for (const reservationDoc of expired.docs) {
+      try {
+        const reservation = this.toReservation(reservationDoc.id, reservationDoc.data());
+        if (reservation.commitPending) {
+          await this.commitReservation(reservation, reservation.commitMetadata);
+          settled.committedReservations++;
+        } else if (await this.settleReservation(reservation.id, CreditReservationStatus.EXPIRED)) {
+          settled.expiredReservations++;
+        }
+      } catch (error) {
+        logger.error('Error settling expired credit reservation', {
+          reservationId: reservationDoc.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return settled;
+  }
+
+  /**
+   * Return an active reservation's credits; returns whether anything was released
+   */
+  private async settleReservation(
+    reservationId: string,
+    status: CreditReservationStatus.RELEASED | CreditReservationStatus.EXPIRED
+  ): Promise<boolean> {
+    const firestore = this.getFirestore();
+    const reservationRef = doc(firestore, this.RESERVATIONS_COLLECTION, reservationId);
+
+    return runTransaction(firestore, async (transaction) => {
+      const reservationDoc = await transaction.get(reservationRef);
+      if (!reservationDoc.exists()) {
+        return false;
+      }
+
+      const reservation = this.toReservation(reservationDoc.id, reservationDoc.data());
+      // A reservation flagged for commit while this ran is charged on the next run
+      if (
+        reservation.status !== CreditReservationStatus.ACTIVE ||
+        (reservation.commitPending && status === CreditReservationStatus.EXPIRED)
+      ) {
+        return false;
+      }
+
+      const balanceRef = doc(
+        firestore,
+        this.BALANCES_COLLECTION,
+        this.getBalanceId(reservation.userId, reservation.organizationId)
+      );
+      const balanceDoc = await transaction.get(balanceRef);
+      const now = Timestamp.now();
+
+      transaction.set(
+        balanceRef,
+        {
+          reserved: Math.max(0, ((balanceDoc.exists() && balanceDoc.data().reserved) || 0) - reservation.amount),
+          updatedAt: now,
+        },
+        { merge: true }
+      );
+      transaction.update(reservationRef, { status, settledAt: now });
+      return true;
+    });
   }
 
   /**
@@ -479,6 +1015,8 @@ class CreditService {
           balance: data.balance,
           operation: data.operation,
           bundle: data.bundle,
+          reservationId: data.reservationId,
+          idempotencyKey: data.idempotencyKey,
           description: data.description,
           metadata: data.metadata,
           createdAt: data.createdAt?.toDate() || new Date(),
@@ -506,6 +1044,16 @@ class CreditService {
         isUnlimited: true,
         updatedAt: Timestamp.now(),
       });
+      void recordAuditEvent({
+        userId,
+        category: 'subscription',
+        action: 'set_unlimited_credits',
+        severity: 'warning',
+        organizationId,
+        resourceId: balanceRef.id,
+        resourceType: 'credit_balance',
+        metadata: {},
+      });
     } catch (error) {
       console.error('Error setting unlimited credits:', error);
       throw new Error('Failed to set unlimited credits');
@@ -538,6 +1086,65 @@ class CreditService {
       return CreditBundle.ENTERPRISE;
     }
   }
+
+  private getFirestore(): Firestore {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) {
+      throw new Error('Database not configured');
+    }
+    return firestore;
+  }
+
+  private getBalanceId(userId: string, organizationId: string): string {
+    return `${userId}_${organizationId}`;
+  }
+
+  private toReservation(id: string, data: Record<string, any>): CreditReservation {
+    return {
+      id,
+      userId: data.userId,
+      organizationId: data.organizationId,
+      operation: data.operation,
+      quantity: data.quantity || 1,
+      amount: data.amount || 0,
+      status: data.status,
+      metered: true,
+      idempotencyKey: data.idempotencyKey,
+      metadata: data.metadata,
+      commitPending: data.commitPending || undefined,
+      commitMetadata: data.commitMetadata,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      expiresAt: data.expiresAt?.toDate() || new Date(),
+      settledAt: data.settledAt?.toDate(),
+    };
+  }
+
+  private reservationToFirestore(reservation: CreditReservation): Record<string, any> {
+    const { id: _id, metered: _metered, createdAt, expiresAt, settledAt, metadata, ...rest } = reservation;
+    return {
+      ...this.withoutUndefined(rest),
+      ...(metadata && { metadata: this.withoutUndefined(metadata) }),
+      createdAt: Timestamp.fromDate(createdAt),
+      expiresAt: Timestamp.fromDate(expiresAt),
+      ...(settledAt && { settledAt: Timestamp.fromDate(settledAt) }),
+    };
+  }
+
+  private transactionToFirestore(transaction: CreditTransaction): Record<string, any> {
+    const { id: _id, createdAt, metadata, ...rest } = transaction;
+    return {
+      ...this.withoutUndefined(rest),
+      ...(metadata && { metadata: this.withoutUndefined(metadata) }),
+      createdAt: Timestamp.fromDate(createdAt),
+    };
+  }
+
+  // Firestore rejects undefined field values
+  private withoutUndefined<T extends Record<string, any>>(value: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, fieldValue]) => fieldValue !== undefined)
+    ) as Partial<T>;
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,73 @@
+/**
+ * Credit ledger helpers
+ *
+ * Pure functions shared by CreditService and its reconciliation job. The
+ * transaction history is the source of truth: a balance should always equal
+ * the sum of its transactions, and its reserved amount the sum of its active
+ * reservations.
+ */
+
+import crypto from 'crypto';
+
+// How long a reservation holds credits before reconciliation releases it
+export const CREDIT_RESERVATION_TTL_MS = 15 * 60 * 1000;
+
+export interface LedgerTotals {
+  balance: number;
+  lifetimeEarned: number;
+  lifetimeSpent: number;
+}
+
+export interface CreditLedgerMismatch {
+  field: 'balance' | 'reserved' | 'lifetimeEarned' | 'lifetimeSpent';
+  stored: number;
+  expected: number;
+}
+
+/**
+ * Document id for a ledger entry keyed by a caller's idempotency key, so a
+ * retried request lands on the same reservation or credit instead of a new one
+ */
+export function getLedgerEntryId(
+  scope: 'reservation' | 'credit',
+  userId: string,
+  organizationId: string,
+  idempotencyKey: string
+): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${scope}:${userId}:${organizationId}:${idempotencyKey}`)
+    .digest('hex')
+    .slice(0, 40);
+}
+
+/**
+ * Balance and lifetime totals implied by a transaction history
+ */
+export function summarizeLedger(transactions: Array<{ amount: number }>): LedgerTotals {
+  return transactions.reduce<LedgerTotals>(
+    (totals, transaction) => {
+      const amount = Number(transaction.amount) || 0;
+      return {
+        balance: totals.balance + amount,
+        lifetimeEarned: totals.lifetimeEarned + Math.max(0, amount),
+        lifetimeSpent: totals.lifetimeSpent + Math.max(0, -amount)
+      };
+    },
+    { balance: 0, lifetimeEarned: 0, lifetimeSpent: 0 }
+  );
+}
+
+/**
+ * Fields where a stored balance disagrees with its ledger
+ */
+export function findLedgerMismatches(
+  stored: LedgerTotals & { reserved: number },
+  expected: LedgerTotals & { reserved: number }
+): CreditLedgerMismatch[] {
+  const fields: CreditLedgerMismatch['field'][] = ['balance', 'reserved', 'lifetimeEarned', 'lifetimeSpent'];
+
+  return fields
+    .filter(field => (stored[field] || 0) !== expected[field])
+    .map(field => ({ field, stored: stored[field] || 0, expected: expected[field] }));
+}
@@ -206,6 +206,7 @@ export class CRMService {
       const docRef = doc(this.getFirestore(), 'crmConnections', connectionId);
       const updateData = {
         ...updates,
+        ...(updates.tokens ? { tokens: CRMConnectionUtils.sealTokens(updates.tokens) } : {}),
         updatedAt: Timestamp.now()
       };
 
@@ -375,6 +376,63 @@ export class CRMService {
     }
   }
 
+  /**
+   * Update an existing contact in a CRM platform
+   */
+  async updateContact(
+    userId: string,
+    platform: CRMPlatform,
+    externalId: string,
+    contactData: Partial<ContactData>
+  ): Promise<CRMApiResponse<Contact>> {
+    try {
+      logger.info('Updating CRM contact', { userId, platform, externalId });
+
+      const [connection] = await this.getActiveConnections(userId, [platform]);
+      if (!connection) {
+        return {
+          success: false,
+          error: `No active ${platform} connection found`,
+          statusCode: 400
+        };
+      }
+
+      const adapter = this.getAdapter(connection.platform);
+      if (typeof adapter.updateContact !== 'function') {
+        throw new CRMError(
+          `Contact updates are not supported for ${platform}`,
+          CRMErrorType.VALIDATION_ERROR,
+          platform,
+          400
+        );
+      }
+
+      await this.rateLimiter.checkLimit(connection.platform);
+
+      const platformContact = await adapter.updateContact(
+        connection.tokens.access_token,
+        externalId,
+        contactData
+      );
+
+      const standardizedContact = this.transformContactFromPlatform(
+        platformContact,
+        connection
+      );
+
+      await this.storeContact(standardizedContact);
+
+      return { success: true, data: standardizedContact };
+    } catch (error) {
+      logger.error('Error updating CRM contact', { userId, platform, externalId, error });
+      return {
+        success: false,
+        error: error instanceof CRMError ? error.message : 'Failed to update contact',
+        statusCode: error instanceof CRMError ? error.statusCode : 500
+      };
+    }
+  }
+
   // ==================== DEAL OPERATIONS ====================
 
   /**
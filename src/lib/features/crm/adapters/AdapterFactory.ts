@@ -0,0 +1,53 @@
+// CRM Adapter Factory
+// Creates the platform adapter used by the sync handlers
+
+import { CRMPlatform, CRMError, CRMErrorType, CRMDataType, ModifiedRecordsQuery, ModifiedRecordsPage } from '../types';
+import { CRMActivityTarget } from '../models/Activity';
+
+import { HubSpotAdapter } from './HubSpotAdapter';
+import { SalesforceAdapter } from './SalesforceAdapter';
+import { ZohoAdapter } from './ZohoAdapter';
+import { PipedriveAdapter } from './PipedriveAdapter';
+import { DynamicsAdapter } from './DynamicsAdapter';
+import { SugarCRMAdapter } from './SugarCRMAdapter';
+
+/**
+ * Sync operations every adapter implements
+ */
+export interface CRMAdapter {
+  getModifiedRecords(
+    accessToken: string,
+    dataType: CRMDataType,
+    request: ModifiedRecordsQuery,
+    instanceUrl?: string
+  ): Promise<ModifiedRecordsPage>;
+  createActivity(accessToken: string, target: CRMActivityTarget, fields: Record<string, any>, instanceUrl?: string): Promise<string>;
+  createLeadRecord(accessToken: string, fields: Record<string, any>, instanceUrl?: string): Promise<string>;
+}
+
+/**
+ * Create the adapter for a CRM platform
+ */
+export function createCRMAdapter(platform: CRMPlatform): CRMAdapter {
+  switch (platform) {
+    case CRMPlatform.HUBSPOT:
+      return new HubSpotAdapter();
+    case CRMPlatform.SALESFORCE:
+      return new SalesforceAdapter();
+    case CRMPlatform.ZOHO:
+      return new ZohoAdapter();
+    case CRMPlatform.PIPEDRIVE:
+      return new PipedriveAdapter();
+    case CRMPlatform.DYNAMICS:
+      return new DynamicsAdapter();
+    case CRMPlatform.SUGARCRM:
+      return new SugarCRMAdapter();
+    default:
+      throw new CRMError(
+        `Unsupported CRM platform: ${platform}`,
+        CRMErrorType.VALIDATION_ERROR,
+        platform,
+        400
+      );
+  }
+}
@@ -2,7 +2,9 @@
 // Integration with Microsoft Dynamics 365 CRM API for data synchronization
 
 import { logger } from '@/lib/core/logging/logger';
-import { CRMPlatform, CRMError, CRMErrorType, CRMTokens } from '../types';
+import { CRMPlatform, CRMError, CRMErrorType, CRMTokens, CRMDataType, ModifiedRecordsQuery, ModifiedRecordsPage } from '../types';
+import { CRMActivityTarget } from '../models/Activity';
+import { SyncWatermarkUtils } from '../utils/SyncWatermark';
 
 export class DynamicsAdapter {
   private config = {
@@ -131,6 +133,84 @@ export class DynamicsAdapter {
     }
   }
 
+  async getModifiedRecords(accessToken: string, dataType: CRMDataType, request: ModifiedRecordsQuery): Promise<ModifiedRecordsPage> {
+    try {
+      let url = request.cursor;
+
+      if (!url) {
+        const entitySet = dataType === CRMDataType.DEALS ? 'opportunities' : dataType === CRMDataType.LEADS ? 'leads' : 'contacts';
+        const params = new URLSearchParams({ $orderby: 'modifiedon asc' });
+        if (request.since) {
+          params.set('$filter', `modifiedon ge ${request.since.toISOString()}`);
+        }
+        url = `${this.config.resource}/api/data/v9.2/${entitySet}?${params.toString()}`;
+      }
+
+      // Dynamics sizes the pages itself; the next link carries the rest of the query
+      const response = await this.makeRequest(url, 'GET', accessToken);
+      const records = response.value || [];
+
+      return {
+        records,
+        nextCursor: response['@odata.nextLink'],
+        latestModifiedAt: SyncWatermarkUtils.latestModifiedAt(records, record => record.modifiedon)
+      };
+    } catch (error) {
+      logger.error('Error fetching modified Dynamics records', { dataType, error });
+      if (error instanceof CRMError) throw error;
+      throw new CRMError(
+        `Failed to fetch modified ${dataType} from Dynamics`,
+        CRMErrorType.API_ERROR,
+        CRMPlatform.DYNAMICS,
+        500,
+        error
+      );
+    }
+  }
+
+  async createActivity(accessToken: string, target: CRMActivityTarget, fields: Record<string, any>): Promise<string> {
+    try {
+      const entitySet = target.type === 'lead' ? 'leads' : 'contacts';
+      const response = await this.makeRequest(`${this.config.resource}/api/data/v9.2/annotations`, 'POST', accessToken, {
+        ...fields,
+        [`objectid_${target.type}@odata.bind`]: `/${entitySet}(${target.id})`
+      });
+      return response.annotationid;
+    } catch (error) {
+      logger.error('Error creating Dynamics note', { target, error });
+      if (error instanceof CRMError) throw error;
+      throw new CRMError(
+        'Failed to create note in Dynamics',
+        CRMErrorType.API_ERROR,
+        CRMPlatform.DYNAMICS,
+        500,
+        error
+      );
+    }
+  }
+
+  async createLeadRecord(accessToken: string, fields: Record<string, any>): Promise<string> {
+    try {
+      // Formatted-value annotations are read-only and rejected on create
+      const writable = Object.fromEntries(Object.entries(fields).filter(([key]) => !key.includes('@')));
+      const response = await this.makeRequest(`${this.config.resource}/api/data/v9.2/leads`, 'POST', accessToken, {
+        subject: 'Social lead',
+        ...writable
+      });
+      return response.leadid;
+    } catch (error) {
+      logger.error('Error creating Dynamics lead', { error });
+      if (error instanceof CRMError) throw error;
+      throw new CRMError(
+        'Failed to create lead in Dynamics',
+        CRMErrorType.API_ERROR,
+        CRMPlatform.DYNAMICS,
+        500,
+        error
+      );
+    }
+  }
+
   async testConnection(accessToken: string): Promise<boolean> {
     try {
       await this.makeRequest(`${this.config.resource}/api/data/v9.2/WhoAmI`, 'GET', accessToken);
@@ -149,7 +229,9 @@ export class DynamicsAdapter {
           'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
           'OData-MaxVersion': '4.0',
-          'OData-Version': '4.0'
+          'OData-Version': '4.0',
+          // Creates answer 204 without a body unless asked for the record
+          'Prefer': 'return=representation'
         }
       };
 
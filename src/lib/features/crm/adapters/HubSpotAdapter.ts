@@ -7,11 +7,28 @@ import {
   CRMError, 
   CRMErrorType, 
   CRMApiResponse,
-  CRMTokens 
+  CRMTokens,
+  CRMDataType,
+  ModifiedRecordsQuery,
+  ModifiedRecordsPage
 } from '../types';
 import { ContactData } from '../models/Contact';
 import { DealData } from '../models/Deal';
 import { LeadData } from '../models/Lead';
+import { CRMActivityTarget } from '../models/Activity';
+import { SyncWatermarkUtils } from '../utils/SyncWatermark';
+
+const HUBSPOT_CONTACT_PROPERTIES = [
+  'firstname', 'lastname', 'email', 'phone', 'mobilephone', 'company', 'jobtitle',
+  'lifecyclestage', 'hs_lead_status', 'hubspotscore', 'createdate', 'lastmodifieddate'
+];
+const HUBSPOT_DEAL_PROPERTIES = [
+  'dealname', 'amount', 'dealstage', 'pipeline', 'closedate', 'createdate', 'hs_lastmodifieddate',
+  'dealtype', 'description', 'hubspot_owner_id'
+];
+
+// CRM search stops paging after this many results
+const HUBSPOT_SEARCH_RESULT_LIMIT = 10000;
 
 /**
  * HubSpot API configuration
@@ -385,6 +402,118 @@ export class HubSpotAdapter {
     }
   }
 
+  // ==================== INCREMENTAL SYNC ====================
+
+  /**
+   * Get a page of contacts, deals or leads modified since the last sync, oldest change first
+   */
+  async getModifiedRecords(accessToken: string, dataType: CRMDataType, request: ModifiedRecordsQuery): Promise<ModifiedRecordsPage> {
+    try {
+      const isDeal = dataType === CRMDataType.DEALS;
+      const modifiedProperty = isDeal ? 'hs_lastmodifieddate' : 'lastmodifieddate';
+      const filters: Array<{ propertyName: string; operator: string; value: string }> = [];
+
+      if (request.since) {
+        filters.push({ propertyName: modifiedProperty, operator: 'GTE', value: String(request.since.getTime()) });
+      }
+      if (dataType === CRMDataType.LEADS) {
+        filters.push({ propertyName: 'lifecyclestage', operator: 'EQ', value: 'lead' });
+      }
+
+      const url = `${this.config.apiUrl}/crm/v3/objects/${isDeal ? 'deals' : 'contacts'}/search`;
+      const response = await this.makeRequest(url, 'POST', accessToken, {
+        filterGroups: filters.length ? [{ filters }] : [],
+        sorts: [{ propertyName: modifiedProperty, direction: 'ASCENDING' }],
+        properties: isDeal ? HUBSPOT_DEAL_PROPERTIES : HUBSPOT_CONTACT_PROPERTIES,
+        limit: Math.min(request.limit, 100),
+        ...(request.cursor ? { after: request.cursor } : {})
+      });
+
+      const records = response.results || [];
+      const after = response.paging?.next?.after;
+
+      return {
+        records,
+        // Ending the pass at the search limit lets the next pass start from the latest change seen
+        nextCursor: after && Number(after) < HUBSPOT_SEARCH_RESULT_LIMIT ? after : undefined,
+        latestModifiedAt: SyncWatermarkUtils.latestModifiedAt(records, record => record.properties?.[modifiedProperty])
+      };
+    } catch (error) {
+      logger.error('Error fetching modified HubSpot records', { dataType, error });
+      if (error instanceof CRMError) {
+        throw error;
+      }
+      throw new CRMError(
+        `Failed to fetch modified ${dataType} from HubSpot`,
+        CRMErrorType.API_ERROR,
+        CRMPlatform.HUBSPOT,
+        500,
+        error
+      );
+    }
+  }
+
+  // ==================== ACTIVITY OPERATIONS ====================
+
+  /**
+   * Record an activity as a note on a contact (HubSpot leads are contacts)
+   * @returns Id of the created note
+   */
+  async createActivity(accessToken: string, target: CRMActivityTarget, fields: Record<string, any>): Promise<string> {
+    try {
+      const url = `${this.config.apiUrl}/crm/v3/objects/notes`;
+
+      const response = await this.makeRequest(url, 'POST', accessToken, {
+        ...fields,
+        associations: [{
+          to: { id: target.id },
+          // HubSpot-defined note to contact association
+          types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 202 }]
+        }]
+      });
+      return response.id;
+    } catch (error) {
+      logger.error('Error creating HubSpot note', { target, error });
+      if (error instanceof CRMError) {
+        throw error;
+      }
+      throw new CRMError(
+        'Failed to create note in HubSpot',
+        CRMErrorType.API_ERROR,
+        CRMPlatform.HUBSPOT,
+        500,
+        error
+      );
+    }
+  }
+
+  /**
+   * Create a lead from fields mapped by FieldMapper.mapLeadToPlatform
+   * @returns Id of the created contact
+   */
+  async createLeadRecord(accessToken: string, fields: Record<string, any>): Promise<string> {
+    try {
+      const url = `${this.config.apiUrl}/crm/v3/objects/contacts`;
+
+      const response = await this.makeRequest(url, 'POST', accessToken, {
+        properties: { ...fields, lifecyclestage: 'lead' }
+      });
+      return response.id;
+    } catch (error) {
+      logger.error('Error creating HubSpot lead', { error });
+      if (error instanceof CRMError) {
+        throw error;
+      }
+      throw new CRMError(
+        'Failed to create lead in HubSpot',
+        CRMErrorType.API_ERROR,
+        CRMPlatform.HUBSPOT,
+        500,
+        error
+      );
+    }
+  }
+
   // ==================== UTILITY METHODS ====================
 
   /**
@@ -2,9 +2,15 @@
 // Integration with Pipedrive CRM API for data synchronization
 
 import { logger } from '@/lib/core/logging/logger';
-import { CRMPlatform, CRMError, CRMErrorType, CRMTokens } from '../types';
+import { CRMPlatform, CRMError, CRMErrorType, CRMTokens, CRMDataType, ModifiedRecordsQuery, ModifiedRecordsPage } from '../types';
 import { ContactData } from '../models/Contact';
 import { DealData } from '../models/Deal';
+import { CRMActivityTarget } from '../models/Activity';
+import { SyncWatermarkUtils } from '../utils/SyncWatermark';
+
+// Pipedrive writes person and deal times as 'YYYY-MM-DD HH:MM:SS' in UTC
+const toPipedriveTime = (date: Date) => date.toISOString().slice(0, 19).replace('T', ' ');
+const fromPipedriveTime = (value?: string) => (value && !value.includes('T') ? `${value.replace(' ', 'T')}Z` : value);
 
 export class PipedriveAdapter {
   private config = {
@@ -128,6 +134,102 @@ export class PipedriveAdapter {
     }
   }
 
+  async getModifiedRecords(accessToken: string, dataType: CRMDataType, request: ModifiedRecordsQuery): Promise<ModifiedRecordsPage> {
+    try {
+      const start = Number(request.cursor) || 0;
+      const limit = Math.min(request.limit, 500);
+      let records: any[];
+      let response: any;
+
+      if (dataType === CRMDataType.LEADS) {
+        // Leads are not in the recents feed, so page them in update order and skip older ones
+        const params = new URLSearchParams({ start: String(start), limit: String(limit), sort: 'update_time ASC' });
+        response = await this.makeRequest(`${this.config.apiUrl}/leads?${params.toString()}`, 'GET', accessToken);
+        records = (response.data || []).filter((lead: any) => !request.since || new Date(lead.update_time) >= request.since);
+      } else {
+        const params = new URLSearchParams({
+          since_timestamp: toPipedriveTime(request.since || new Date(0)),
+          items: dataType === CRMDataType.DEALS ? 'deal' : 'person',
+          start: String(start),
+          limit: String(limit)
+        });
+        response = await this.makeRequest(`${this.config.apiUrl}/recents?${params.toString()}`, 'GET', accessToken);
+        records = (response.data || []).map((item: any) => item.data).filter(Boolean);
+      }
+
+      const pagination = response.additional_data?.pagination;
+
+      return {
+        records,
+        nextCursor: pagination?.more_items_in_collection ? String(pagination.next_start) : undefined,
+        latestModifiedAt: SyncWatermarkUtils.latestModifiedAt(records, record => fromPipedriveTime(record.update_time))
+      };
+    } catch (error) {
+      logger.error('Error fetching modified Pipedrive records', { dataType, error });
+      if (error instanceof CRMError) throw error;
+      throw new CRMError(
+        `Failed to fetch modified ${dataType} from Pipedrive`,
+        CRMErrorType.API_ERROR,
+        CRMPlatform.PIPEDRIVE,
+        500,
+        error
+      );
+    }
+  }
+
+  async createActivity(accessToken: string, target: CRMActivityTarget, fields: Record<string, any>): Promise<string> {
+    try {
+      // Persons have numeric ids, leads have UUIDs
+      const owner = target.type === 'lead' ? { lead_id: target.id } : { person_id: Number(target.id) };
+      const response = await this.makeRequest(`${this.config.apiUrl}/notes`, 'POST', accessToken, { ...fields, ...owner });
+      return String(response.data?.id);
+    } catch (error) {
+      logger.error('Error creating Pipedrive note', { target, error });
+      if (error instanceof CRMError) throw error;
+      throw new CRMError(
+        'Failed to create note in Pipedrive',
+        CRMErrorType.API_ERROR,
+        CRMPlatform.PIPEDRIVE,
+        500,
+        error
+      );
+    }
+  }
+
+  async createLeadRecord(accessToken: string, fields: Record<string, any>): Promise<string> {
+    try {
+      // Pipedrive leads hang off a person, so create the person first
+      const { person_name, email, phone, organization_name, note, ...leadFields } = fields;
+      const name = person_name || email || 'Unknown';
+      const person = await this.makeRequest(`${this.config.apiUrl}/persons`, 'POST', accessToken, {
+        name,
+        ...(email ? { email } : {}),
+        ...(phone ? { phone } : {})
+      });
+
+      const response = await this.makeRequest(`${this.config.apiUrl}/leads`, 'POST', accessToken, {
+        ...leadFields,
+        title: organization_name ? `${name} (${organization_name})` : name,
+        person_id: person.data?.id
+      });
+
+      if (note && response.data?.id) {
+        await this.makeRequest(`${this.config.apiUrl}/notes`, 'POST', accessToken, { content: note, lead_id: response.data.id });
+      }
+      return String(response.data?.id);
+    } catch (error) {
+      logger.error('Error creating Pipedrive lead', { error });
+      if (error instanceof CRMError) throw error;
+      throw new CRMError(
+        'Failed to create lead in Pipedrive',
+        CRMErrorType.API_ERROR,
+        CRMPlatform.PIPEDRIVE,
+        500,
+        error
+      );
+    }
+  }
+
   async testConnection(accessToken: string): Promise<boolean> {
     try {
       await this.makeRequest(`${this.config.apiUrl}/users/me`, 'GET', accessToken);
@@ -7,11 +7,20 @@ import {
   CRMError, 
   CRMErrorType, 
   CRMApiResponse,
-  CRMTokens 
+  CRMTokens,
+  CRMDataType,
+  ModifiedRecordsQuery,
+  ModifiedRecordsPage
 } from '../types';
 import { ContactData } from '../models/Contact';
 import { DealData } from '../models/Deal';
 import { LeadData } from '../models/Lead';
+import { CRMActivityTarget } from '../models/Activity';
+import { SyncWatermarkUtils } from '../utils/SyncWatermark';
+
+const SOQL_CONTACT_FIELDS = 'Id, FirstName, LastName, Email, Phone, MobilePhone, Account.Name, Title, Department, MailingStreet, MailingCity, MailingState, MailingPostalCode, MailingCountry, LeadSource, OwnerId, Owner.Name, CreatedDate, LastModifiedDate';
+const SOQL_OPPORTUNITY_FIELDS = 'Id, Name, Description, Amount, StageName, Probability, CloseDate, CreatedDate, LastModifiedDate, LastActivityDate, AccountId, Account.Name, ContactId, Contact.Name, OwnerId, Owner.Name, LeadSource, Type, CurrencyIsoCode';
+const SOQL_LEAD_FIELDS = 'Id, FirstName, LastName, Name, Email, Phone, MobilePhone, Company, Title, Industry, Website, Street, City, State, PostalCode, Country, Status, LeadSource, Rating, IsConverted, ConvertedDate, ConvertedContactId, ConvertedAccountId, ConvertedOpportunityId, OwnerId, Owner.Name, CreatedDate, LastModifiedDate';
 
 /**
  * Salesforce API configuration
@@ -162,7 +171,7 @@ export class SalesforceAdapter {
   async getContacts(accessToken: string, limit: number = 100, instanceUrl?: string): Promise<any[]> {
     try {
       const baseUrl = instanceUrl || this.extractInstanceUrl(accessToken);
-      const query = `SELECT Id, FirstName, LastName, Email, Phone, MobilePhone, Account.Name, Title, Department, MailingStreet, MailingCity, MailingState, MailingPostalCode, MailingCountry, LeadSource, OwnerId, Owner.Name, CreatedDate, LastModifiedDate FROM Contact LIMIT ${limit}`;
+      const query = `SELECT ${SOQL_CONTACT_FIELDS} FROM Contact LIMIT ${limit}`;
       
       const url = `${baseUrl}/services/data/${this.config.apiVersion}/query/?q=${encodeURIComponent(query)}`;
       
@@ -278,7 +287,7 @@ export class SalesforceAdapter {
   async getDeals(accessToken: string, limit: number = 100, instanceUrl?: string): Promise<any[]> {
     try {
       const baseUrl = instanceUrl || this.extractInstanceUrl(accessToken);
-      const query = `SELECT Id, Name, Description, Amount, StageName, Probability, CloseDate, CreatedDate, LastModifiedDate, LastActivityDate, AccountId, Account.Name, ContactId, Contact.Name, OwnerId, Owner.Name, LeadSource, Type, CurrencyIsoCode FROM Opportunity LIMIT ${limit}`;
+      const query = `SELECT ${SOQL_OPPORTUNITY_FIELDS} FROM Opportunity LIMIT ${limit}`;
       
       const url = `${baseUrl}/services/data/${this.config.apiVersion}/query/?q=${encodeURIComponent(query)}`;
       
@@ -346,7 +355,7 @@ export class SalesforceAdapter {
   async getLeads(accessToken: string, limit: number = 100, instanceUrl?: string): Promise<any[]> {
     try {
       const baseUrl = instanceUrl || this.extractInstanceUrl(accessToken);
-      const query = `SELECT Id, FirstName, LastName, Name, Email, Phone, MobilePhone, Company, Title, Industry, Website, Street, City, State, PostalCode, Country, Status, LeadSource, Rating, IsConverted, ConvertedDate, ConvertedContactId, ConvertedAccountId, ConvertedOpportunityId, OwnerId, Owner.Name, CreatedDate, LastModifiedDate FROM Lead LIMIT ${limit}`;
+      const query = `SELECT ${SOQL_LEAD_FIELDS} FROM Lead LIMIT ${limit}`;
       
       const url = `${baseUrl}/services/data/${this.config.apiVersion}/query/?q=${encodeURIComponent(query)}`;
       
@@ -414,6 +423,126 @@ export class SalesforceAdapter {
     }
   }
 
+  // ==================== INCREMENTAL SYNC ====================
+
+  /**
+   * Get a page of contacts, opportunities or leads modified since the last sync, oldest change first.
+   * Salesforce sizes the pages itself.
+   */
+  async getModifiedRecords(
+    accessToken: string,
+    dataType: CRMDataType,
+    request: ModifiedRecordsQuery,
+    instanceUrl?: string
+  ): Promise<ModifiedRecordsPage> {
+    try {
+      const baseUrl = instanceUrl || this.extractInstanceUrl(accessToken);
+      let url: string;
+
+      if (request.cursor) {
+        url = `${baseUrl}${request.cursor}`;
+      } else {
+        const [object, fields] = dataType === CRMDataType.DEALS
+          ? ['Opportunity', SOQL_OPPORTUNITY_FIELDS]
+          : dataType === CRMDataType.LEADS
+            ? ['Lead', SOQL_LEAD_FIELDS]
+            : ['Contact', SOQL_CONTACT_FIELDS];
+        // SOQL datetime literals take no milliseconds
+        const where = request.since ? ` WHERE LastModifiedDate >= ${request.since.toISOString().replace(/\.\d{3}Z$/, 'Z')}` : '';
+        const query = `SELECT ${fields} FROM ${object}${where} ORDER BY LastModifiedDate ASC`;
+        url = `${baseUrl}/services/data/${this.config.apiVersion}/query/?q=${encodeURIComponent(query)}`;
+      }
+
+      const response = await this.makeRequest(url, 'GET', accessToken);
+      const records = response.records || [];
+
+      return {
+        records,
+        nextCursor: response.done === false ? response.nextRecordsUrl : undefined,
+        latestModifiedAt: SyncWatermarkUtils.latestModifiedAt(records, record => record.LastModifiedDate)
+      };
+    } catch (error) {
+      logger.error('Error fetching modified Salesforce records', { dataType, error });
+      if (error instanceof CRMError) {
+        throw error;
+      }
+      throw new CRMError(
+        `Failed to fetch modified ${dataType} from Salesforce`,
+        CRMErrorType.API_ERROR,
+        CRMPlatform.SALESFORCE,
+        500,
+        error
+      );
+    }
+  }
+
+  // ==================== ACTIVITY OPERATIONS ====================
+
+  /**
+   * Record an activity as a completed task on a contact or lead
+   * @returns Id of the created task
+   */
+  async createActivity(
+    accessToken: string,
+    target: CRMActivityTarget,
+    fields: Record<string, any>,
+    instanceUrl?: string
+  ): Promise<string> {
+    try {
+      const baseUrl = instanceUrl || this.extractInstanceUrl(accessToken);
+      const url = `${baseUrl}/services/data/${this.config.apiVersion}/sobjects/Task/`;
+
+      const response = await this.makeRequest(url, 'POST', accessToken, {
+        ...fields,
+        WhoId: target.id,
+        Status: 'Completed'
+      });
+      return response.id;
+    } catch (error) {
+      logger.error('Error creating Salesforce task', { target, error });
+      if (error instanceof CRMError) {
+        throw error;
+      }
+      throw new CRMError(
+        'Failed to create task in Salesforce',
+        CRMErrorType.API_ERROR,
+        CRMPlatform.SALESFORCE,
+        500,
+        error
+      );
+    }
+  }
+
+  /**
+   * Create a lead from fields mapped by FieldMapper.mapLeadToPlatform
+   * @returns Id of the created lead
+   */
+  async createLeadRecord(accessToken: string, fields: Record<string, any>, instanceUrl?: string): Promise<string> {
+    try {
+      const baseUrl = instanceUrl || this.extractInstanceUrl(accessToken);
+      const url = `${baseUrl}/services/data/${this.config.apiVersion}/sobjects/Lead/`;
+
+      // Company is required on Salesforce leads; this is the placeholder web-to-lead uses
+      const response = await this.makeRequest(url, 'POST', accessToken, {
+        Company: '[not provided]',
+        ...fields
+      });
+      return response.id;
+    } catch (error) {
+      logger.error('Error creating Salesforce lead', { error });
+      if (error instanceof CRMError) {
+        throw error;
+      }
+      throw new CRMError(
+        'Failed to create lead in Salesforce',
+        CRMErrorType.API_ERROR,
+        CRMPlatform.SALESFORCE,
+        500,
+        error
+      );
+    }
+  }
+
   // ==================== UTILITY METHODS ====================
 
   /**
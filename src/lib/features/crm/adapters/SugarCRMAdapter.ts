@@ -2,7 +2,9 @@
 // Integration with SugarCRM API for data synchronization
 
 import { logger } from '@/lib/core/logging/logger';
-import { CRMPlatform, CRMError, CRMErrorType, CRMTokens } from '../types';
+import { CRMPlatform, CRMError, CRMErrorType, CRMTokens, CRMDataType, ModifiedRecordsQuery, ModifiedRecordsPage } from '../types';
+import { CRMActivityTarget } from '../models/Activity';
+import { SyncWatermarkUtils } from '../utils/SyncWatermark';
 
 export class SugarCRMAdapter {
   private config = {
@@ -128,6 +130,77 @@ export class SugarCRMAdapter {
     }
   }
 
+  async getModifiedRecords(accessToken: string, dataType: CRMDataType, request: ModifiedRecordsQuery): Promise<ModifiedRecordsPage> {
+    try {
+      const moduleName = dataType === CRMDataType.DEALS ? 'Opportunities' : dataType === CRMDataType.LEADS ? 'Leads' : 'Contacts';
+      const params = new URLSearchParams({
+        max_num: String(request.limit),
+        offset: request.cursor || '0',
+        order_by: 'date_modified:asc'
+      });
+      if (request.since) {
+        params.set('filter[0][date_modified][$gte]', request.since.toISOString());
+      }
+
+      const response = await this.makeRequest(`${this.config.baseUrl}/rest/v11_1/${moduleName}?${params.toString()}`, 'GET', accessToken);
+      const records = response.records || [];
+
+      return {
+        records,
+        nextCursor: response.next_offset > 0 ? String(response.next_offset) : undefined,
+        latestModifiedAt: SyncWatermarkUtils.latestModifiedAt(records, record => record.date_modified)
+      };
+    } catch (error) {
+      logger.error('Error fetching modified SugarCRM records', { dataType, error });
+      if (error instanceof CRMError) throw error;
+      throw new CRMError(
+        `Failed to fetch modified ${dataType} from SugarCRM`,
+        CRMErrorType.API_ERROR,
+        CRMPlatform.SUGARCRM,
+        500,
+        error
+      );
+    }
+  }
+
+  async createActivity(accessToken: string, target: CRMActivityTarget, fields: Record<string, any>): Promise<string> {
+    try {
+      const response = await this.makeRequest(`${this.config.baseUrl}/rest/v11_1/Notes`, 'POST', accessToken, {
+        ...fields,
+        parent_type: target.type === 'lead' ? 'Leads' : 'Contacts',
+        parent_id: target.id
+      });
+      return response.id;
+    } catch (error) {
+      logger.error('Error creating SugarCRM note', { target, error });
+      if (error instanceof CRMError) throw error;
+      throw new CRMError(
+        'Failed to create note in SugarCRM',
+        CRMErrorType.API_ERROR,
+        CRMPlatform.SUGARCRM,
+        500,
+        error
+      );
+    }
+  }
+
+  async createLeadRecord(accessToken: string, fields: Record<string, any>): Promise<string> {
+    try {
+      const response = await this.makeRequest(`${this.config.baseUrl}/rest/v11_1/Leads`, 'POST', accessToken, fields);
+      return response.id;
+    } catch (error) {
+      logger.error('Error creating SugarCRM lead', { error });
+      if (error instanceof CRMError) throw error;
+      throw new CRMError(
+        'Failed to create lead in SugarCRM',
+        CRMErrorType.API_ERROR,
+        CRMPlatform.SUGARCRM,
+        500,
+        error
+      );
+    }
+  }
+
   async testConnection(accessToken: string): Promise<boolean> {
     try {
       await this.makeRequest(`${this.config.baseUrl}/rest/v11_1/me`, 'GET', accessToken);
@@ -6,11 +6,19 @@ import {
   CRMPlatform, 
   CRMError, 
   CRMErrorType, 
-  CRMTokens 
+  CRMTokens,
+  CRMDataType,
+  ModifiedRecordsQuery,
+  ModifiedRecordsPage
 } from '../types';
 import { ContactData } from '../models/Contact';
 import { DealData } from '../models/Deal';
 import { LeadData } from '../models/Lead';
+import { CRMActivityTarget } from '../models/Activity';
+import { SyncWatermarkUtils } from '../utils/SyncWatermark';
+
+// Record search stops paging after this many results
+const ZOHO_SEARCH_RESULT_LIMIT = 2000;
 
 /**
  * Zoho CRM Adapter
@@ -233,6 +241,86 @@ export class ZohoAdapter {
     }
   }
 
+  // ==================== INCREMENTAL SYNC ====================
+
+  async getModifiedRecords(accessToken: string, dataType: CRMDataType, request: ModifiedRecordsQuery): Promise<ModifiedRecordsPage> {
+    try {
+      const moduleName = dataType === CRMDataType.DEALS ? 'Deals' : dataType === CRMDataType.LEADS ? 'Leads' : 'Contacts';
+      const page = Number(request.cursor) || 1;
+      const perPage = Math.min(request.limit, 200);
+      const params = new URLSearchParams({ page: String(page), per_page: String(perPage) });
+      let url: string;
+
+      if (request.since) {
+        const since = request.since.toISOString().replace(/\.\d{3}Z$/, '+00:00');
+        params.set('criteria', `(Modified_Time:greater_equal:${since})`);
+        url = `${this.config.apiUrl}/${moduleName}/search?${params.toString()}`;
+      } else {
+        params.set('sort_by', 'Modified_Time');
+        params.set('sort_order', 'asc');
+        url = `${this.config.apiUrl}/${moduleName}?${params.toString()}`;
+      }
+
+      const response = await this.makeRequest(url, 'GET', accessToken);
+      const records = response.data || [];
+      const hasMore = !!response.info?.more_records && (!request.since || page * perPage < ZOHO_SEARCH_RESULT_LIMIT);
+
+      return {
+        records,
+        nextCursor: hasMore ? String(page + 1) : undefined,
+        latestModifiedAt: SyncWatermarkUtils.latestModifiedAt(records, record => record.Modified_Time)
+      };
+    } catch (error) {
+      logger.error('Error fetching modified Zoho records', { dataType, error });
+      if (error instanceof CRMError) throw error;
+      throw new CRMError(
+        `Failed to fetch modified ${dataType} from Zoho`,
+        CRMErrorType.API_ERROR,
+        CRMPlatform.ZOHO,
+        500,
+        error
+      );
+    }
+  }
+
+  // ==================== ACTIVITY OPERATIONS ====================
+
+  async createActivity(accessToken: string, target: CRMActivityTarget, fields: Record<string, any>): Promise<string> {
+    try {
+      const moduleName = target.type === 'lead' ? 'Leads' : 'Contacts';
+      const url = `${this.config.apiUrl}/${moduleName}/${target.id}/Notes`;
+      const response = await this.makeRequest(url, 'POST', accessToken, { data: [fields] });
+      return response.data?.[0]?.details?.id;
+    } catch (error) {
+      logger.error('Error creating Zoho note', { target, error });
+      if (error instanceof CRMError) throw error;
+      throw new CRMError(
+        'Failed to create note in Zoho',
+        CRMErrorType.API_ERROR,
+        CRMPlatform.ZOHO,
+        500,
+        error
+      );
+    }
+  }
+
+  async createLeadRecord(accessToken: string, fields: Record<string, any>): Promise<string> {
+    try {
+      const response = await this.makeRequest(`${this.config.apiUrl}/Leads`, 'POST', accessToken, { data: [fields] });
+      return response.data?.[0]?.details?.id;
+    } catch (error) {
+      logger.error('Error creating Zoho lead', { error });
+      if (error instanceof CRMError) throw error;
+      throw new CRMError(
+        'Failed to create lead in Zoho',
+        CRMErrorType.API_ERROR,
+        CRMPlatform.ZOHO,
+        500,
+        error
+      );
+    }
+  }
+
   // ==================== UTILITY METHODS ====================
 
   async testConnection(accessToken: string): Promise<boolean> {
@@ -296,6 +384,11 @@ export class ZohoAdapter {
         );
       }
 
+      // Searches with no matches answer 204 No Content
+      if (response.status === 204) {
+        return {};
+      }
+
       return await response.json();
     } catch (error) {
       if (error instanceof CRMError) throw error;
@@ -0,0 +1,33 @@
+import { logger } from '@/lib/core/logging/logger';
+import type { SocialEngagement } from './models/Activity';
+import type { EngagementSync } from './sync/EngagementSync';
+
+let engagementSync: EngagementSync | undefined;
+
+/**
+ * Write a social engagement back to the organization's bidirectional CRM
+ * connections without holding up or failing the caller; pushes deferred by
+ * rate limits are retried by the crm-engagement-push cron
+ * @param engagement Engagement to record on the matching contact or lead
+ */
+export async function pushSocialEngagement(engagement: SocialEngagement): Promise<void> {
+  if (!engagement.organizationId) {
+    return;
+  }
+
+  try {
+    // Loaded on first use so social features do not pull in every CRM adapter;
+    // one instance is kept so its rate limiter sees every push
+    if (!engagementSync) {
+      const { EngagementSync } = await import('./sync/EngagementSync');
+      engagementSync = new EngagementSync();
+    }
+    await engagementSync.push(engagement);
+  } catch (error) {
+    logger.error(`Error pushing ${engagement.type} engagement to CRM`, {
+      organizationId: engagement.organizationId,
+      sourceId: engagement.sourceId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
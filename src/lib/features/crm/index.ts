@@ -15,6 +15,8 @@ export type {
   CRMConnectionConfig,
   SyncResult,
   BatchResult,
+  ModifiedRecordsQuery,
+  ModifiedRecordsPage,
   FirestoreCRMConnection
 } from './types';
 
@@ -23,6 +25,10 @@ export type { CRMConnection } from './models/CRMConnection';
 export type { Contact, ContactData, FirestoreContact } from './models/Contact';
 export type { Deal, DealData, FirestoreDeal } from './models/Deal';
 export type { Lead, LeadData, FirestoreLead } from './models/Lead';
+export { ActivityUtils, SocialEngagementType, SYNC_ECHO_WINDOW_MS } from './models/Activity';
+export type { ActivityData, CRMActivityTarget, EngagementIdentity, SocialEngagement } from './models/Activity';
+export { SyncConflictUtils } from './models/SyncConflict';
+export type { SyncConflict, SyncConflictAction, SyncConflictStatus, SyncConflictResolution } from './models/SyncConflict';
 
 // Main Service
 export { CRMService } from './CRMService';
@@ -34,17 +40,28 @@ export { ZohoAdapter } from './adapters/ZohoAdapter';
 export { PipedriveAdapter } from './adapters/PipedriveAdapter';
 export { DynamicsAdapter } from './adapters/DynamicsAdapter';
 export { SugarCRMAdapter } from './adapters/SugarCRMAdapter';
+export { createCRMAdapter } from './adapters/AdapterFactory';
+export type { CRMAdapter } from './adapters/AdapterFactory';
 
 // Sync Engine
 export { SyncEngine } from './sync/SyncEngine';
 export { ContactSync } from './sync/ContactSync';
 export { DealSync } from './sync/DealSync';
 export { LeadSync } from './sync/LeadSync';
+export { EngagementSync } from './sync/EngagementSync';
+export type { EngagementPushResult, EngagementPushStatus } from './sync/EngagementSync';
+export { pushSocialEngagement } from './events';
 export { ConflictResolver, ConflictResolutionStrategy } from './sync/ConflictResolver';
 export type { ConflictInfo, ConflictResolution } from './sync/ConflictResolver';
+export { IncrementalSync } from './sync/IncrementalSync';
+export type { IncrementalFetch } from './sync/IncrementalSync';
+export { ConflictQueue } from './sync/ConflictQueue';
+export type { ConflictQueueFilter, ConflictResolutionOutcome } from './sync/ConflictQueue';
 
 // Utilities
 export { RateLimiter } from './utils/RateLimiter';
 export { CRMValidator } from './utils/CRMValidator';
 export type { ValidationResult, ValidationError, ValidationWarning } from './utils/CRMValidator';
-export { FieldMapper } from './utils/FieldMapper'; 
\ No newline at end of file
+export { FieldMapper } from './utils/FieldMapper';
+export { SyncWatermarkUtils } from './utils/SyncWatermark';
+export type { SyncWatermark, SyncRunProgress } from './utils/SyncWatermark'; 
\ No newline at end of file
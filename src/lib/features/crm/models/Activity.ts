@@ -0,0 +1,152 @@
+// CRM Activity Model
+// Social engagement written back to a CRM as an activity or note on a contact or lead
+
+/**
+ * Kinds of social engagement pushed to connected CRMs
+ */
+export enum SocialEngagementType {
+  INBOX_REPLY = 'inbox_reply',
+  MENTION = 'mention',
+  LINK_CLICK = 'link_click',
+  CONVERSION = 'conversion',
+  QUALIFIED_CONVERSATION = 'qualified_conversation'
+}
+
+/**
+ * Who engaged, as far as the social source knows
+ */
+export interface EngagementIdentity {
+  email?: string;
+  handle?: string;
+  network?: string;
+  name?: string;
+}
+
+/**
+ * A social interaction to record against the matching CRM contact
+ */
+export interface SocialEngagement {
+  type: SocialEngagementType;
+  organizationId: string;
+  // Id of the inbox message, mention, click or conversion; with the type it makes a push idempotent
+  sourceId: string;
+  identity: EngagementIdentity;
+  occurredAt: Date;
+  summary: string;
+  content?: string;
+  url?: string;
+  value?: number;
+  currency?: string;
+  // Create a lead when no contact or lead matches the identity
+  qualified?: boolean;
+}
+
+/**
+ * Platform-neutral activity, mapped to each CRM's note or task fields by FieldMapper
+ */
+export interface ActivityData {
+  subject: string;
+  body: string;
+  occurredAt: string;
+  // Date only, for CRMs that store activity dates without a time
+  occurredOn: string;
+  engagementType: SocialEngagementType;
+}
+
+/**
+ * CRM record an activity is attached to
+ */
+export interface CRMActivityTarget {
+  type: 'contact' | 'lead';
+  id: string;
+}
+
+/**
+ * How long after a push a remote change to the same record is treated as our own write
+ */
+export const SYNC_ECHO_WINDOW_MS = 10 * 60 * 1000;
+
+const ENGAGEMENT_SUBJECTS: Record<SocialEngagementType, string> = {
+  [SocialEngagementType.INBOX_REPLY]: 'Social inbox reply',
+  [SocialEngagementType.MENTION]: 'Social mention',
+  [SocialEngagementType.LINK_CLICK]: 'Link click',
+  [SocialEngagementType.CONVERSION]: 'Conversion',
+  [SocialEngagementType.QUALIFIED_CONVERSATION]: 'Qualified social conversation'
+};
+
+const PURCHASE_INTENT_PATTERN = /\b(pricing|price|quote|demo|trial|buy|purchase|interested|sign up|contact me|call me)\b/i;
+
+/**
+ * Activity utility functions
+ */
+export class ActivityUtils {
+  /**
+   * Build the activity recorded for an engagement
+   */
+  static fromEngagement(engagement: SocialEngagement): ActivityData {
+    const network = engagement.identity.network ? ` on ${engagement.identity.network}` : '';
+    const lines = [engagement.summary];
+
+    if (engagement.content) {
+      lines.push('', engagement.content);
+    }
+    if (engagement.url) {
+      lines.push('', `Link: ${engagement.url}`);
+    }
+    if (engagement.value !== undefined) {
+      lines.push('', `Value: ${engagement.value}${engagement.currency ? ` ${engagement.currency}` : ''}`);
+    }
+
+    const occurredAt = engagement.occurredAt.toISOString();
+
+    return {
+      subject: `IriSync: ${ENGAGEMENT_SUBJECTS[engagement.type]}${network}`,
+      body: lines.join('\n'),
+      occurredAt,
+      occurredOn: occurredAt.slice(0, 10),
+      engagementType: engagement.type
+    };
+  }
+
+  /**
+   * Reduce a handle or profile URL to a comparable username
+   */
+  static normalizeHandle(handle?: string): string | undefined {
+    if (!handle) return undefined;
+
+    // Profile URLs end in the username: https://twitter.com/irisync/ -> irisync
+    const lastSegment = handle.trim().replace(/[?#].*$/, '').split('/').filter(Boolean).pop();
+    const normalized = lastSegment?.replace(/^@/, '').toLowerCase();
+
+    return normalized || undefined;
+  }
+
+  /**
+   * Whether an inbox conversation shows enough buying intent to become a lead
+   */
+  static qualifiesAsLead(message: { content?: string; labels?: string[]; sentiment?: string }): boolean {
+    if (message.labels?.some(label => label.toLowerCase() === 'lead')) {
+      return true;
+    }
+    if (message.sentiment === 'negative') {
+      return false;
+    }
+    return PURCHASE_INTENT_PATTERN.test(message.content || '');
+  }
+
+  /**
+   * Whether a remote change to a record is the echo of our own push rather than an edit made in the CRM
+   */
+  static isSyncEcho(
+    pushedAt: Date | undefined,
+    remoteUpdatedAt: Date | undefined,
+    windowMs: number = SYNC_ECHO_WINDOW_MS
+  ): boolean {
+    if (!pushedAt || !remoteUpdatedAt) {
+      return false;
+    }
+    const delta = remoteUpdatedAt.getTime() - pushedAt.getTime();
+    // Allow a minute of clock skew between us and the CRM
+    return delta >= -60 * 1000 && delta <= windowMs;
+  }
+}
@@ -9,6 +9,13 @@ import {
   SyncConfig,
   CRMDataType
 } from '../types';
+import { isSealedSecret, openJson, sealJson } from '../../../core/security/encryption';
+import { SyncWatermark } from '../utils/SyncWatermark';
+
+/**
+ * Encryption context for CRM OAuth tokens
+ */
+export const CRM_TOKENS_CONTEXT = 'crm-connection-tokens';
 
 /**
  * CRM Connection interface for application use
@@ -25,6 +32,8 @@ export interface CRMConnection {
   tokens: CRMTokens;
   config: SyncConfig;
   lastSyncAt?: Date;
+  // Incremental sync position per data type
+  syncWatermarks?: Partial<Record<CRMDataType, SyncWatermark>>;
   connectedAt: Date;
   updatedAt: Date;
   errorMessage?: string;
@@ -58,9 +67,11 @@ export interface FirestoreCRMConnection {
   accountName: string;
   accountEmail: string;
   status: CRMConnectionStatus;
-  tokens: CRMTokens;
+  // Sealed; connections saved before encryption hold the plain object
+  tokens: string | CRMTokens;
   config: SyncConfig;
   lastSyncAt?: Timestamp;
+  syncWatermarks?: Partial<Record<CRMDataType, FirestoreSyncWatermark>>;
   connectedAt: Timestamp;
   updatedAt: Timestamp;
   errorMessage?: string;
@@ -83,6 +94,16 @@ export interface FirestoreCRMConnection {
   };
 }
 
+/**
+ * Firestore sync watermark structure
+ */
+export interface FirestoreSyncWatermark {
+  modifiedSince?: Timestamp;
+  cursor?: string;
+  highWater?: Timestamp;
+  updatedAt: Timestamp;
+}
+
 /**
  * Default sync configuration
  */
@@ -160,6 +181,20 @@ export const PLATFORM_FEATURES: Record<CRMPlatform, CRMConnection['features']> =
  * Utility functions for CRM connections
  */
 export class CRMConnectionUtils {
+  /**
+   * Encrypt tokens for storage
+   */
+  static sealTokens(tokens: CRMTokens): string {
+    return sealJson(tokens, CRM_TOKENS_CONTEXT);
+  }
+
+  /**
+   * Decrypt stored tokens; legacy plain objects pass through
+   */
+  static openTokens(tokens: string | CRMTokens): CRMTokens {
+    return isSealedSecret(tokens) ? openJson<CRMTokens>(tokens, CRM_TOKENS_CONTEXT) : tokens as CRMTokens;
+  }
+
   /**
    * Convert Firestore document to CRM connection
    */
@@ -173,9 +208,10 @@ export class CRMConnectionUtils {
       accountName: doc.accountName,
       accountEmail: doc.accountEmail,
       status: doc.status,
-      tokens: doc.tokens,
+      tokens: this.openTokens(doc.tokens),
       config: doc.config,
       lastSyncAt: doc.lastSyncAt?.toDate(),
+      syncWatermarks: doc.syncWatermarks ? this.watermarksFromFirestore(doc.syncWatermarks) : undefined,
       connectedAt: doc.connectedAt.toDate(),
       updatedAt: doc.updatedAt.toDate(),
       errorMessage: doc.errorMessage,
@@ -201,7 +237,7 @@ export class CRMConnectionUtils {
       accountName: connection.accountName,
       accountEmail: connection.accountEmail,
       status: connection.status,
-      tokens: connection.tokens,
+      tokens: this.sealTokens(connection.tokens),
       config: connection.config,
       lastSyncAt: connection.lastSyncAt ? Timestamp.fromDate(connection.lastSyncAt) : undefined,
       connectedAt: connection.connectedAt ? Timestamp.fromDate(connection.connectedAt) : Timestamp.now(),
@@ -213,6 +249,34 @@ export class CRMConnectionUtils {
     };
   }
 
+  /**
+   * Convert a sync watermark to its Firestore form, leaving out unset fields
+   */
+  static watermarkToFirestore(watermark: SyncWatermark): FirestoreSyncWatermark {
+    return {
+      ...(watermark.modifiedSince ? { modifiedSince: Timestamp.fromDate(watermark.modifiedSince) } : {}),
+      ...(watermark.cursor ? { cursor: watermark.cursor } : {}),
+      ...(watermark.highWater ? { highWater: Timestamp.fromDate(watermark.highWater) } : {}),
+      updatedAt: Timestamp.fromDate(watermark.updatedAt)
+    };
+  }
+
+  /**
+   * Convert stored sync watermarks
+   */
+  static watermarksFromFirestore(
+    watermarks: Partial<Record<CRMDataType, FirestoreSyncWatermark>>
+  ): Partial<Record<CRMDataType, SyncWatermark>> {
+    return Object.fromEntries(
+      Object.entries(watermarks).map(([dataType, watermark]) => [dataType, {
+        modifiedSince: watermark?.modifiedSince?.toDate(),
+        cursor: watermark?.cursor,
+        highWater: watermark?.highWater?.toDate(),
+        updatedAt: watermark?.updatedAt?.toDate() || new Date(0)
+      }])
+    );
+  }
+
   /**
    * Check if connection is active and valid
    */
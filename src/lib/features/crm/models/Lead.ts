@@ -167,6 +167,7 @@ export interface LeadData {
   platform?: CRMPlatform;
   firstName?: string;
   lastName?: string;
+  fullName?: string;
   email?: string;
   phone?: string;
   mobilePhone?: string;
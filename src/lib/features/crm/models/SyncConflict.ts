@@ -0,0 +1,153 @@
+// CRM Sync Conflict Model
+// A record change held back for review when a connection resolves conflicts manually
+
+import { Timestamp } from 'firebase/firestore';
+import { CRMPlatform, CRMDataType, CRMError, CRMErrorType } from '../types';
+import type { ConflictInfo } from '../sync/ConflictResolver';
+
+export type SyncConflictStatus = 'pending' | 'resolved';
+
+/**
+ * How a reviewer settles a conflict: keep the CRM's values, keep ours, or pick per field
+ */
+export type SyncConflictAction = 'accept_source' | 'accept_target' | 'merge';
+
+export interface SyncConflictResolution {
+  action: SyncConflictAction;
+  // Values written to the local record, by field
+  values: Record<string, any>;
+  resolvedBy: string;
+  resolvedAt: Date;
+}
+
+/**
+ * Conflicting fields between a CRM record (source) and our copy (target)
+ */
+export interface SyncConflict {
+  id: string;
+  connectionId: string;
+  userId: string;
+  organizationId?: string;
+  platform: CRMPlatform;
+  dataType: CRMDataType;
+  // Local record id and CRM record id
+  recordId: string;
+  externalId: string;
+  conflicts: ConflictInfo[];
+  // When the CRM last changed the record
+  sourceUpdatedAt?: Date;
+  status: SyncConflictStatus;
+  resolution?: SyncConflictResolution;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Firestore sync conflict structure
+ */
+export interface FirestoreSyncConflict {
+  connectionId: string;
+  userId: string;
+  organizationId?: string;
+  platform: string;
+  dataType: string;
+  recordId: string;
+  externalId: string;
+  conflicts: ConflictInfo[];
+  sourceUpdatedAt?: Timestamp;
+  status: SyncConflictStatus;
+  resolution?: {
+    action: SyncConflictAction;
+    values: Record<string, any>;
+    resolvedBy: string;
+    resolvedAt: Timestamp;
+  };
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Sync conflict utility functions
+ */
+export class SyncConflictUtils {
+  /**
+   * Conflict id; one open conflict per record, replaced when the CRM changes it again
+   */
+  static getId(connectionId: string, dataType: CRMDataType, externalId: string): string {
+    return `${connectionId}_${dataType}_${externalId}`;
+  }
+
+  /**
+   * Values to write to the local record for a resolution
+   * @param mergeValues For a merge, the value to keep per conflicting field; other fields keep our value
+   */
+  static resolvedValues(
+    entry: Pick<SyncConflict, 'conflicts' | 'platform'>,
+    action: SyncConflictAction,
+    mergeValues: Record<string, any> = {}
+  ): Record<string, any> {
+    const fields = new Set(entry.conflicts.map(conflict => conflict.field));
+    const unknown = Object.keys(mergeValues).filter(field => !fields.has(field));
+
+    if (action === 'merge' && unknown.length > 0) {
+      throw new CRMError(
+        `Fields not in conflict: ${unknown.join(', ')}`,
+        CRMErrorType.VALIDATION_ERROR,
+        entry.platform,
+        400
+      );
+    }
+
+    return Object.fromEntries(entry.conflicts.map(conflict => {
+      if (action === 'accept_source') {
+        return [conflict.field, conflict.sourceValue];
+      }
+      if (action === 'merge' && conflict.field in mergeValues) {
+        return [conflict.field, mergeValues[conflict.field]];
+      }
+      return [conflict.field, conflict.targetValue];
+    }));
+  }
+
+  /**
+   * Firestore rejects undefined, so missing values are stored as null
+   */
+  static conflictsToFirestore(conflicts: ConflictInfo[]): ConflictInfo[] {
+    return conflicts.map(conflict => ({
+      ...conflict,
+      sourceValue: conflict.sourceValue ?? null,
+      targetValue: conflict.targetValue ?? null
+    }));
+  }
+
+  /**
+   * Convert Firestore document to SyncConflict
+   */
+  static fromFirestore(doc: FirestoreSyncConflict, id: string): SyncConflict {
+    const toValue = (value: any) => (value instanceof Timestamp ? value.toDate() : value);
+
+    return {
+      id,
+      connectionId: doc.connectionId,
+      userId: doc.userId,
+      organizationId: doc.organizationId,
+      platform: doc.platform as CRMPlatform,
+      dataType: doc.dataType as CRMDataType,
+      recordId: doc.recordId,
+      externalId: doc.externalId,
+      conflicts: (doc.conflicts || []).map(conflict => ({
+        ...conflict,
+        sourceValue: toValue(conflict.sourceValue),
+        targetValue: toValue(conflict.targetValue)
+      })),
+      sourceUpdatedAt: doc.sourceUpdatedAt?.toDate(),
+      status: doc.status,
+      resolution: doc.resolution ? {
+        ...doc.resolution,
+        resolvedAt: doc.resolution.resolvedAt.toDate()
+      } : undefined,
+      createdAt: doc.createdAt.toDate(),
+      updatedAt: doc.updatedAt.toDate()
+    };
+  }
+}
@@ -0,0 +1,195 @@
+// Conflict Queue Implementation
+// Holds conflicting record changes for review and applies the reviewer's decision
+
+import { logger } from '@/lib/core/logging/logger';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  orderBy,
+  limit as firestoreLimit,
+  runTransaction,
+  Timestamp
+} from 'firebase/firestore';
+import { getFirebaseFirestore } from '@/lib/core/firebase/client';
+
+import { CRMDataType, CRMError, CRMErrorType } from '../types';
+import { CRMConnection } from '../models/CRMConnection';
+import {
+  SyncConflict,
+  SyncConflictAction,
+  SyncConflictStatus,
+  SyncConflictUtils,
+  FirestoreSyncConflict
+} from '../models/SyncConflict';
+import { ConflictInfo } from './ConflictResolver';
+
+export interface ConflictQueueFilter {
+  userId?: string;
+  organizationId?: string;
+  status?: SyncConflictStatus;
+  limit?: number;
+}
+
+export interface ConflictResolutionOutcome {
+  previous: SyncConflict;
+  resolved: SyncConflict;
+}
+
+const CONFLICTS_COLLECTION = 'crmConflicts';
+
+const RECORD_COLLECTIONS: Partial<Record<CRMDataType, string>> = {
+  [CRMDataType.CONTACTS]: 'crmContacts',
+  [CRMDataType.LEADS]: 'crmLeads',
+  [CRMDataType.DEALS]: 'crmDeals'
+};
+
+/**
+ * Queue of sync conflicts awaiting manual review
+ */
+export class ConflictQueue {
+  /**
+   * Hold a record change for review instead of applying it
+   */
+  async enqueue(
+    connection: CRMConnection,
+    dataType: CRMDataType,
+    recordId: string,
+    externalId: string,
+    conflicts: ConflictInfo[],
+    sourceUpdatedAt?: Date
+  ): Promise<string> {
+    const connectionId = connection.id as string;
+    const conflictId = SyncConflictUtils.getId(connectionId, dataType, externalId);
+    const now = Timestamp.now();
+
+    const entry: FirestoreSyncConflict = {
+      connectionId,
+      userId: connection.userId,
+      ...(connection.organizationId ? { organizationId: connection.organizationId } : {}),
+      platform: connection.platform,
+      dataType,
+      recordId,
+      externalId,
+      conflicts: SyncConflictUtils.conflictsToFirestore(conflicts),
+      ...(sourceUpdatedAt ? { sourceUpdatedAt: Timestamp.fromDate(sourceUpdatedAt) } : {}),
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    // A newer change to the same record replaces the pending review
+    await setDoc(doc(this.getFirestore(), CONFLICTS_COLLECTION, conflictId), entry);
+
+    logger.info('Sync conflict queued for review', {
+      conflictId,
+      connectionId,
+      dataType,
+      fields: conflicts.map(conflict => conflict.field)
+    });
+
+    return conflictId;
+  }
+
+  /**
+   * List conflicts, newest first
+   */
+  async list(filter: ConflictQueueFilter): Promise<SyncConflict[]> {
+    const constraints = [
+      ...(filter.userId ? [where('userId', '==', filter.userId)] : []),
+      ...(filter.organizationId ? [where('organizationId', '==', filter.organizationId)] : []),
+      ...(filter.status ? [where('status', '==', filter.status)] : []),
+      orderBy('createdAt', 'desc'),
+      firestoreLimit(filter.limit || 50)
+    ];
+
+    const snapshot = await getDocs(query(collection(this.getFirestore(), CONFLICTS_COLLECTION), ...constraints));
+    return snapshot.docs.map(conflictDoc =>
+      SyncConflictUtils.fromFirestore(conflictDoc.data() as FirestoreSyncConflict, conflictDoc.id)
+    );
+  }
+
+  /**
+   * Get a conflict by id
+   */
+  async get(conflictId: string): Promise<SyncConflict | null> {
+    const snapshot = await getDoc(doc(this.getFirestore(), CONFLICTS_COLLECTION, conflictId));
+    if (!snapshot.exists()) {
+      return null;
+    }
+    return SyncConflictUtils.fromFirestore(snapshot.data() as FirestoreSyncConflict, snapshot.id);
+  }
+
+  /**
+   * Apply a reviewer's decision to the local record and close the conflict
+   * @param mergeValues For a merge, the value to keep per conflicting field
+   */
+  async resolve(
+    conflictId: string,
+    action: SyncConflictAction,
+    resolvedBy: string,
+    mergeValues?: Record<string, any>
+  ): Promise<ConflictResolutionOutcome> {
+    const firestore = this.getFirestore();
+    const conflictRef = doc(firestore, CONFLICTS_COLLECTION, conflictId);
+
+    const outcome = await runTransaction(firestore, async (transaction): Promise<ConflictResolutionOutcome> => {
+      const snapshot = await transaction.get(conflictRef);
+      if (!snapshot.exists()) {
+        throw new Error(`Conflict ${conflictId} not found`);
+      }
+
+      const previous = SyncConflictUtils.fromFirestore(snapshot.data() as FirestoreSyncConflict, snapshot.id);
+      if (previous.status !== 'pending') {
+        throw new CRMError('Conflict is already resolved', CRMErrorType.CONFLICT_ERROR, previous.platform, 409);
+      }
+
+      const recordCollection = RECORD_COLLECTIONS[previous.dataType];
+      if (!recordCollection) {
+        throw new CRMError(
+          `Conflicts on ${previous.dataType} cannot be resolved`,
+          CRMErrorType.VALIDATION_ERROR,
+          previous.platform,
+          400
+        );
+      }
+
+      const values = SyncConflictUtils.resolvedValues(previous, action, mergeValues);
+      const now = new Date();
+      const resolution = { action, values, resolvedBy, resolvedAt: now };
+
+      // Stamping the record now keeps the reviewed CRM version from conflicting again on the next sync
+      transaction.update(doc(firestore, recordCollection, previous.recordId), {
+        ...values,
+        updatedAt: Timestamp.fromDate(now)
+      });
+      transaction.update(conflictRef, {
+        status: 'resolved',
+        resolution: { ...resolution, resolvedAt: Timestamp.fromDate(now) },
+        updatedAt: Timestamp.fromDate(now)
+      });
+
+      const resolved: SyncConflict = { ...previous, status: 'resolved', resolution, updatedAt: now };
+      return { previous, resolved };
+    });
+
+    logger.info('Sync conflict resolved', {
+      conflictId,
+      action,
+      resolvedBy,
+      fields: Object.keys(outcome.resolved.resolution?.values || {})
+    });
+
+    return outcome;
+  }
+
+  private getFirestore() {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) throw new Error('Firestore not configured');
+    return firestore;
+  }
+}
@@ -248,6 +248,11 @@ export class ConflictResolver {
     // One is null/undefined, other has value - potential conflict
     if (!sourceValue || !targetValue) return true;
     
+    // Dates are equal when they name the same instant
+    if (sourceValue instanceof Date && targetValue instanceof Date) {
+      return sourceValue.getTime() !== targetValue.getTime();
+    }
+
     // Different values - conflict
     if (sourceValue !== targetValue) return true;
     
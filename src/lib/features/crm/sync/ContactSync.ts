@@ -8,18 +8,25 @@ import { firestore } from '@/lib/core/firebase';
 import {
   CRMDataType,
   SyncStatus,
-  SyncResult,
-  CRMError,
-  CRMErrorType
+  SyncResult
 } from '../types';
 
 import { CRMConnection } from '../models/CRMConnection';
 import { Contact, ContactUtils } from '../models/Contact';
+import { IncrementalSync } from './IncrementalSync';
+import { ConflictQueue } from './ConflictQueue';
+import { ConflictResolver, ConflictResolutionStrategy } from './ConflictResolver';
+import { EngagementSync } from './EngagementSync';
 
 /**
  * Contact synchronization handler
  */
 export class ContactSync {
+  private engagementSync = new EngagementSync();
+  private incrementalSync = new IncrementalSync();
+  private conflictQueue = new ConflictQueue();
+  private conflictResolver = new ConflictResolver();
+
   /**
    * Sync contacts for a CRM connection
    */
@@ -39,8 +46,9 @@ export class ContactSync {
     });
 
     try {
-      // Get contacts from CRM platform
-      const platformContacts = await this.fetchContactsFromPlatform(connection);
+      // Get contacts changed since the last sync from CRM platform
+      const fetched = await this.incrementalSync.fetch(connection, CRMDataType.CONTACTS);
+      const platformContacts = fetched.records;
       recordsProcessed = platformContacts.length;
 
       if (platformContacts.length === 0) {
@@ -49,6 +57,8 @@ export class ContactSync {
           platform: connection.platform
         });
 
+        await this.incrementalSync.commit(connection, CRMDataType.CONTACTS, fetched, false);
+
         return {
           dataType: CRMDataType.CONTACTS,
           status: SyncStatus.SUCCESS,
@@ -65,7 +75,7 @@ export class ContactSync {
       }
 
       // Get existing contacts from our database
-      const externalIds = platformContacts.map(contact => contact.id || contact.Id);
+      const externalIds = platformContacts.map(contact => contact.id || contact.Id || contact.contactid);
       const existingContacts = await this.getExistingContacts(
         connection.userId,
         connection.platform,
@@ -75,17 +85,25 @@ export class ContactSync {
       // Process each contact
       for (const platformContact of platformContacts) {
         try {
-          const externalId = platformContact.id || platformContact.Id;
+          const externalId = platformContact.id || platformContact.Id || platformContact.contactid;
           const standardizedContact = this.transformContact(platformContact, connection);
           
           const existingContact = existingContacts.get(externalId);
 
           if (existingContact) {
-            // Update existing contact if needed
-            if (this.needsUpdate(existingContact, standardizedContact)) {
-              await this.updateContact(existingContact.id, standardizedContact);
-              recordsUpdated++;
-              logger.debug('Contact updated', { externalId, contactId: existingContact.id });
+            // Update existing contact if needed, unless the change is our own write-back
+            if (await this.engagementSync.isEcho(connection, externalId, standardizedContact.updatedAt)) {
+              recordsSkipped++;
+              logger.debug('Contact skipped (own write-back)', { externalId });
+            } else if (this.needsUpdate(existingContact, standardizedContact)) {
+              if (await this.holdForReview(connection, existingContact, standardizedContact)) {
+                recordsSkipped++;
+                logger.debug('Contact held for conflict review', { externalId });
+              } else {
+                await this.updateContact(existingContact.id, standardizedContact);
+                recordsUpdated++;
+                logger.debug('Contact updated', { externalId, contactId: existingContact.id });
+              }
             } else {
               recordsSkipped++;
               logger.debug('Contact skipped (no changes)', { externalId });
@@ -100,17 +118,19 @@ export class ContactSync {
           recordsErrored++;
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           errors.push({
-            recordId: platformContact.id || platformContact.Id || 'unknown',
+            recordId: platformContact.id || platformContact.Id || platformContact.contactid || 'unknown',
             error: errorMessage
           });
           
           logger.error('Error processing contact', {
-            contactId: platformContact.id || platformContact.Id,
+            contactId: platformContact.id || platformContact.Id || platformContact.contactid,
             error: errorMessage
           });
         }
       }
 
+      await this.incrementalSync.commit(connection, CRMDataType.CONTACTS, fetched, recordsErrored > 0);
+
       const endTime = Date.now();
       const status = recordsErrored > 0 ? 
         (recordsErrored === recordsProcessed ? SyncStatus.ERROR : SyncStatus.PARTIAL) :
@@ -168,38 +188,6 @@ export class ContactSync {
 
   // ==================== PRIVATE METHODS ====================
 
-  /**
-   * Fetch contacts from CRM platform
-   */
-  private async fetchContactsFromPlatform(connection: CRMConnection): Promise<any[]> {
-    try {
-      // This would use the appropriate adapter based on platform
-      // For now, returning empty array as adapters are not fully implemented
-      logger.debug('Fetching contacts from platform', {
-        platform: connection.platform,
-        connectionId: connection.id
-      });
-
-      // In a real implementation, this would call:
-      // const adapter = this.getAdapter(connection.platform);
-      // return await adapter.getContacts(connection.tokens.access_token, 1000);
-
-      return [];
-    } catch (error) {
-      logger.error('Error fetching contacts from platform', {
-        platform: connection.platform,
-        error
-      });
-      throw new CRMError(
-        `Failed to fetch contacts from ${connection.platform}`,
-        CRMErrorType.API_ERROR,
-        connection.platform,
-        500,
-        error
-      );
-    }
-  }
-
   /**
    * Transform platform-specific contact to standardized format
    */
@@ -208,7 +196,7 @@ export class ContactSync {
 
     // Basic transformation - would be more sophisticated in production
     const contact: Contact = {
-      externalId: platformContact.id || platformContact.Id,
+      externalId: platformContact.id || platformContact.Id || platformContact.contactid,
       platform: connection.platform,
       userId: connection.userId,
       organizationId: connection.organizationId,
@@ -301,6 +289,35 @@ export class ContactSync {
     }
   }
 
+  /**
+   * Queue a changed contact for review when the connection resolves conflicts manually
+   * @returns Whether the change was held back
+   */
+  private async holdForReview(connection: CRMConnection, existingContact: any, contact: Contact): Promise<boolean> {
+    if (connection.config?.conflictResolution !== 'manual') {
+      return false;
+    }
+
+    const resolution = await this.conflictResolver.resolveContactConflicts(
+      contact,
+      ContactUtils.fromFirestore(existingContact, existingContact.id),
+      ConflictResolutionStrategy.MANUAL
+    );
+    if (resolution.conflicts.length === 0) {
+      return false;
+    }
+
+    await this.conflictQueue.enqueue(
+      connection,
+      CRMDataType.CONTACTS,
+      existingContact.id,
+      contact.externalId,
+      resolution.conflicts,
+      contact.updatedAt
+    );
+    return true;
+  }
+
   /**
    * Determine if contact needs update
    */
@@ -384,6 +401,9 @@ export class ContactSync {
     const updated = platformContact.updatedAt || 
                    platformContact.LastModifiedDate || 
                    platformContact.Modified_Time ||
+                   platformContact.modifiedon ||
+                   platformContact.date_modified ||
+                   platformContact.update_time ||
                    platformContact.properties?.lastmodifieddate;
     
     return updated ? new Date(updated) : undefined;
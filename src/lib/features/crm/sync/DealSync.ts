@@ -8,18 +8,23 @@ import { firestore } from '@/lib/core/firebase';
 import {
   CRMDataType,
   SyncStatus,
-  SyncResult,
-  CRMError,
-  CRMErrorType
+  SyncResult
 } from '../types';
 
 import { CRMConnection } from '../models/CRMConnection';
 import { Deal, DealUtils } from '../models/Deal';
+import { IncrementalSync } from './IncrementalSync';
+import { ConflictQueue } from './ConflictQueue';
+import { ConflictResolver, ConflictResolutionStrategy } from './ConflictResolver';
 
 /**
  * Deal synchronization handler
  */
 export class DealSync {
+  private incrementalSync = new IncrementalSync();
+  private conflictQueue = new ConflictQueue();
+  private conflictResolver = new ConflictResolver();
+
   /**
    * Sync deals for a CRM connection
    */
@@ -39,8 +44,9 @@ export class DealSync {
     });
 
     try {
-      // Get deals from CRM platform
-      const platformDeals = await this.fetchDealsFromPlatform(connection);
+      // Get deals changed since the last sync from CRM platform
+      const fetched = await this.incrementalSync.fetch(connection, CRMDataType.DEALS);
+      const platformDeals = fetched.records;
       recordsProcessed = platformDeals.length;
 
       if (platformDeals.length === 0) {
@@ -49,6 +55,8 @@ export class DealSync {
           platform: connection.platform
         });
 
+        await this.incrementalSync.commit(connection, CRMDataType.DEALS, fetched, false);
+
         return {
           dataType: CRMDataType.DEALS,
           status: SyncStatus.SUCCESS,
@@ -83,9 +91,14 @@ export class DealSync {
           if (existingDeal) {
             // Update existing deal if needed
             if (this.needsUpdate(existingDeal, standardizedDeal)) {
-              await this.updateDeal(existingDeal.id, standardizedDeal);
-              recordsUpdated++;
-              logger.debug('Deal updated', { externalId, dealId: existingDeal.id });
+              if (await this.holdForReview(connection, existingDeal, standardizedDeal)) {
+                recordsSkipped++;
+                logger.debug('Deal held for conflict review', { externalId });
+              } else {
+                await this.updateDeal(existingDeal.id, standardizedDeal);
+                recordsUpdated++;
+                logger.debug('Deal updated', { externalId, dealId: existingDeal.id });
+              }
             } else {
               recordsSkipped++;
               logger.debug('Deal skipped (no changes)', { externalId });
@@ -111,6 +124,8 @@ export class DealSync {
         }
       }
 
+      await this.incrementalSync.commit(connection, CRMDataType.DEALS, fetched, recordsErrored > 0);
+
       const endTime = Date.now();
       const status = recordsErrored > 0 ? 
         (recordsErrored === recordsProcessed ? SyncStatus.ERROR : SyncStatus.PARTIAL) :
@@ -168,38 +183,6 @@ export class DealSync {
 
   // ==================== PRIVATE METHODS ====================
 
-  /**
-   * Fetch deals from CRM platform
-   */
-  private async fetchDealsFromPlatform(connection: CRMConnection): Promise<any[]> {
-    try {
-      // This would use the appropriate adapter based on platform
-      // For now, returning empty array as adapters are not fully implemented
-      logger.debug('Fetching deals from platform', {
-        platform: connection.platform,
-        connectionId: connection.id
-      });
-
-      // In a real implementation, this would call:
-      // const adapter = this.getAdapter(connection.platform);
-      // return await adapter.getDeals(connection.tokens.access_token, 1000);
-
-      return [];
-    } catch (error) {
-      logger.error('Error fetching deals from platform', {
-        platform: connection.platform,
-        error
-      });
-      throw new CRMError(
-        `Failed to fetch deals from ${connection.platform}`,
-        CRMErrorType.API_ERROR,
-        connection.platform,
-        500,
-        error
-      );
-    }
-  }
-
   /**
    * Transform platform-specific deal to standardized format
    */
@@ -303,6 +286,35 @@ export class DealSync {
     }
   }
 
+  /**
+   * Queue a changed deal for review when the connection resolves conflicts manually
+   * @returns Whether the change was held back
+   */
+  private async holdForReview(connection: CRMConnection, existingDeal: any, deal: Deal): Promise<boolean> {
+    if (connection.config?.conflictResolution !== 'manual') {
+      return false;
+    }
+
+    const resolution = await this.conflictResolver.resolveDealConflicts(
+      deal,
+      DealUtils.fromFirestore(existingDeal, existingDeal.id),
+      ConflictResolutionStrategy.MANUAL
+    );
+    if (resolution.conflicts.length === 0) {
+      return false;
+    }
+
+    await this.conflictQueue.enqueue(
+      connection,
+      CRMDataType.DEALS,
+      existingDeal.id,
+      deal.externalId,
+      resolution.conflicts,
+      deal.updatedAt
+    );
+    return true;
+  }
+
   /**
    * Determine if deal needs update
    */
@@ -474,6 +486,7 @@ export class DealSync {
                    platformDeal.LastModifiedDate || 
                    platformDeal.Modified_Time ||
                    platformDeal.modifiedon ||
+                   platformDeal.date_modified ||
                    platformDeal.update_time ||
                    platformDeal.properties?.hs_lastmodifieddate;
     
@@ -0,0 +1,445 @@
+// Engagement Sync Implementation
+// Writes social engagement back to connected CRMs as activities on the matching contact or lead
+
+import crypto from 'crypto';
+import { logger } from '@/lib/core/logging/logger';
+import { getFirebaseFirestore } from '@/lib/core/firebase/client';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  addDoc,
+  setDoc,
+  query,
+  where,
+  limit as firestoreLimit,
+  Timestamp
+} from 'firebase/firestore';
+
+import { CRMPlatform, CRMError, CRMErrorType } from '../types';
+import { CRMConnection, CRMConnectionUtils, FirestoreCRMConnection } from '../models/CRMConnection';
+import { Lead, LeadData, LeadUtils } from '../models/Lead';
+import { ActivityUtils, CRMActivityTarget, SocialEngagement } from '../models/Activity';
+import { FieldMapper } from '../utils/FieldMapper';
+import { RateLimiter } from '../utils/RateLimiter';
+
+import { CRMAdapter, createCRMAdapter } from '../adapters/AdapterFactory';
+
+export type EngagementPushStatus = 'pushed' | 'unmatched' | 'deferred' | 'failed' | 'skipped';
+
+export interface EngagementPushResult {
+  connectionId: string;
+  platform: CRMPlatform;
+  status: EngagementPushStatus;
+  target?: CRMActivityTarget;
+  leadCreated?: boolean;
+  error?: string;
+}
+
+// Social networks a CRM contact can hold a profile for
+const PROFILE_NETWORKS = ['linkedin', 'twitter', 'facebook', 'instagram'];
+
+const MAX_PUSH_ATTEMPTS = 5;
+const DEFAULT_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+/**
+ * Engagement synchronization handler
+ *
+ * Pushes only to connections with bidirectional sync enabled. Each push is
+ * recorded in crmEngagementPushes under a stable id so retries never add a
+ * second activity, and every record we write is noted in crmOutboundWrites so
+ * the pull side can recognise the change as its own and not sync it back.
+ */
+export class EngagementSync {
+  private static readonly PUSHES_COLLECTION = 'crmEngagementPushes';
+  private static readonly OUTBOUND_WRITES_COLLECTION = 'crmOutboundWrites';
+
+  private rateLimiter: RateLimiter;
+
+  constructor(rateLimiter: RateLimiter = new RateLimiter()) {
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Push an engagement to every bidirectional CRM connection of its organization
+   */
+  async push(engagement: SocialEngagement): Promise<EngagementPushResult[]> {
+    const connections = await this.getBidirectionalConnections(engagement.organizationId);
+    const results: EngagementPushResult[] = [];
+
+    for (const connection of connections) {
+      results.push(await this.pushToConnection(connection, engagement));
+    }
+
+    return results;
+  }
+
+  /**
+   * Retry pushes deferred by rate limits or CRM outages
+   */
+  async retryDeferred(maxPushes: number = 100): Promise<{ retried: number; pushed: number; failed: number }> {
+    const firestore = this.getFirestore();
+    const dueQuery = query(
+      collection(firestore, EngagementSync.PUSHES_COLLECTION),
+      where('status', '==', 'deferred'),
+      where('nextAttemptAt', '<=', Timestamp.now()),
+      firestoreLimit(maxPushes)
+    );
+    const snapshot = await getDocs(dueQuery);
+
+    let pushed = 0;
+    let failed = 0;
+
+    for (const pushDoc of snapshot.docs) {
+      const data = pushDoc.data();
+      const connection = await this.getConnection(data.connectionId);
+
+      if (!connection || !this.acceptsPushes(connection)) {
+        await setDoc(pushDoc.ref, {
+          status: 'failed',
+          lastError: 'CRM connection is no longer active or bidirectional',
+          updatedAt: Timestamp.now()
+        }, { merge: true });
+        failed++;
+        continue;
+      }
+
+      const result = await this.pushToConnection(connection, {
+        ...data.engagement,
+        occurredAt: new Date(data.engagement.occurredAt)
+      });
+
+      if (result.status === 'pushed') pushed++;
+      if (result.status === 'failed') failed++;
+    }
+
+    return { retried: snapshot.size, pushed, failed };
+  }
+
+  /**
+   * Whether a remote change to a record is the echo of our own write
+   */
+  async isEcho(connection: CRMConnection, externalId: string, remoteUpdatedAt?: Date): Promise<boolean> {
+    if (!connection.id || !externalId || !remoteUpdatedAt) {
+      return false;
+    }
+
+    try {
+      const writeDoc = await getDoc(doc(
+        this.getFirestore(),
+        EngagementSync.OUTBOUND_WRITES_COLLECTION,
+        this.getOutboundWriteId(connection.id, externalId)
+      ));
+      if (!writeDoc.exists()) {
+        return false;
+      }
+
+      return ActivityUtils.isSyncEcho(writeDoc.data().pushedAt?.toDate(), remoteUpdatedAt);
+    } catch (error) {
+      logger.error('Error checking CRM outbound writes', { connectionId: connection.id, externalId, error });
+      return false;
+    }
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  /**
+   * Push one engagement to one connection and record the outcome
+   */
+  private async pushToConnection(connection: CRMConnection, engagement: SocialEngagement): Promise<EngagementPushResult> {
+    const connectionId = connection.id as string;
+    const pushRef = doc(this.getFirestore(), EngagementSync.PUSHES_COLLECTION, this.getPushId(connectionId, engagement));
+    const base = { connectionId, platform: connection.platform };
+
+    const existing = await getDoc(pushRef);
+    const previous = existing.exists() ? existing.data() : undefined;
+    if (previous && (previous.status === 'pushed' || previous.status === 'unmatched' || previous.status === 'failed')) {
+      return { ...base, status: 'skipped' };
+    }
+
+    const attempts = (previous?.attempts || 0) + 1;
+    const record = {
+      connectionId,
+      organizationId: engagement.organizationId,
+      platform: connection.platform,
+      engagementType: engagement.type,
+      sourceId: engagement.sourceId,
+      // Round-trips through JSON so optional fields are dropped rather than stored as undefined
+      engagement: JSON.parse(JSON.stringify(engagement)),
+      attempts,
+      ...(previous ? {} : { createdAt: Timestamp.now() }),
+      updatedAt: Timestamp.now()
+    };
+
+    // A lead created by an earlier attempt is reused so a retry does not create a second one
+    let target: CRMActivityTarget | undefined = previous?.targetId
+      ? { type: previous.targetType, id: previous.targetId }
+      : undefined;
+    let leadCreated = !!previous?.leadCreated;
+
+    try {
+      const adapter = createCRMAdapter(connection.platform);
+      const accessToken = connection.tokens.access_token;
+      const instanceUrl = connection.tokens.instance_url || connection.metadata?.instanceUrl;
+
+      if (!target) {
+        target = await this.findTarget(connection, engagement);
+      }
+
+      if (!target) {
+        if (!engagement.qualified) {
+          await setDoc(pushRef, { ...record, status: 'unmatched' }, { merge: true });
+          return { ...base, status: 'unmatched' };
+        }
+
+        await this.rateLimiter.checkLimit(connection.platform);
+        target = await this.createLead(connection, engagement, adapter, accessToken, instanceUrl);
+        this.rateLimiter.recordRequest(connection.platform);
+        leadCreated = true;
+
+        await setDoc(pushRef, {
+          ...record,
+          status: 'pending',
+          targetType: target.type,
+          targetId: target.id,
+          leadCreated
+        }, { merge: true });
+      }
+
+      await this.rateLimiter.checkLimit(connection.platform);
+      const fields = FieldMapper.mapActivityToPlatform(ActivityUtils.fromEngagement(engagement), connection.platform);
+      const activityId = await adapter.createActivity(accessToken, target, fields, instanceUrl);
+      this.rateLimiter.recordRequest(connection.platform);
+
+      await this.recordOutboundWrite(connection, target);
+      await setDoc(pushRef, {
+        ...record,
+        status: 'pushed',
+        targetType: target.type,
+        targetId: target.id,
+        leadCreated,
+        ...(activityId ? { activityId } : {}),
+        pushedAt: Timestamp.now()
+      }, { merge: true });
+
+      return { ...base, status: 'pushed', target, leadCreated };
+    } catch (error) {
+      const statusCode = error instanceof CRMError ? error.statusCode : undefined;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const retryable = error instanceof CRMError &&
+        (error.type === CRMErrorType.RATE_LIMIT_ERROR || error.type === CRMErrorType.NETWORK_ERROR || (statusCode || 0) >= 500);
+      const status: EngagementPushStatus = retryable && attempts < MAX_PUSH_ATTEMPTS ? 'deferred' : 'failed';
+
+      if (statusCode) {
+        this.rateLimiter.recordFailure(connection.platform, statusCode);
+      }
+
+      logger.error('Error pushing engagement to CRM', {
+        connectionId,
+        platform: connection.platform,
+        engagementType: engagement.type,
+        sourceId: engagement.sourceId,
+        status,
+        error: message
+      });
+
+      const retryAfter = error instanceof CRMError ? Number(error.details?.retryAfter) : NaN;
+      const delay = (retryAfter > 0 ? retryAfter : DEFAULT_RETRY_DELAY_MS) * attempts;
+
+      await setDoc(pushRef, {
+        ...record,
+        status,
+        lastError: message,
+        ...(target ? { targetType: target.type, targetId: target.id, leadCreated } : {}),
+        ...(status === 'deferred' ? { nextAttemptAt: Timestamp.fromMillis(Date.now() + delay) } : {})
+      }, { merge: true });
+
+      return { ...base, status, ...(target ? { target } : {}), leadCreated, error: message };
+    }
+  }
+
+  /**
+   * Find the synced contact, or failing that lead, the engagement belongs to
+   */
+  private async findTarget(connection: CRMConnection, engagement: SocialEngagement): Promise<CRMActivityTarget | undefined> {
+    const { email, network } = engagement.identity;
+    const handle = ActivityUtils.normalizeHandle(engagement.identity.handle);
+
+    const lookups: Array<{ type: CRMActivityTarget['type']; collectionName: string; field: string; values: string[] }> = [];
+
+    if (email) {
+      lookups.push({ type: 'contact', collectionName: 'crmContacts', field: 'email', values: [email, email.toLowerCase()] });
+      lookups.push({ type: 'lead', collectionName: 'crmLeads', field: 'email', values: [email, email.toLowerCase()] });
+    }
+    if (handle && network && PROFILE_NETWORKS.includes(network)) {
+      lookups.push({ type: 'contact', collectionName: 'crmContacts', field: `socialProfiles.${network}`, values: [handle, `@${handle}`] });
+    }
+    if (handle && network) {
+      // Leads we created ourselves carry the handle they were created from
+      lookups.push({ type: 'lead', collectionName: 'crmLeads', field: `customFields.social_${network}`, values: [handle] });
+    }
+
+    for (const lookup of lookups) {
+      const snapshot = await getDocs(query(
+        collection(this.getFirestore(), lookup.collectionName),
+        where('userId', '==', connection.userId),
+        where('platform', '==', connection.platform),
+        where(lookup.field, 'in', Array.from(new Set(lookup.values))),
+        firestoreLimit(1)
+      ));
+
+      const externalId = snapshot.docs[0]?.data().externalId;
+      if (externalId) {
+        return { type: lookup.type, id: externalId };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Create a lead in the CRM for a qualified conversation and keep a local copy for matching
+   */
+  private async createLead(
+    connection: CRMConnection,
+    engagement: SocialEngagement,
+    adapter: CRMAdapter,
+    accessToken: string,
+    instanceUrl?: string
+  ): Promise<CRMActivityTarget> {
+    const { email, network } = engagement.identity;
+    const handle = ActivityUtils.normalizeHandle(engagement.identity.handle);
+    const nameParts = (engagement.identity.name || handle || email || 'Unknown').trim().split(/\s+/);
+
+    // Most CRMs require a last name on leads
+    const firstName = nameParts.length > 1 ? nameParts[0] : undefined;
+    const lastName = nameParts.length > 1 ? nameParts.slice(1).join(' ') : nameParts[0];
+    const fullName = LeadUtils.generateFullName(firstName, lastName);
+
+    const leadData: LeadData = {
+      ...(firstName ? { firstName } : {}),
+      lastName,
+      fullName,
+      ...(email ? { email } : {})
+    };
+
+    const externalId = await adapter.createLeadRecord(
+      accessToken,
+      FieldMapper.mapLeadToPlatform(leadData, connection.platform),
+      instanceUrl
+    );
+    if (!externalId) {
+      throw new CRMError(
+        `${connection.platform} did not return an id for the new lead`,
+        CRMErrorType.API_ERROR,
+        connection.platform,
+        500
+      );
+    }
+
+    const now = new Date();
+    const lead: Lead = {
+      firstName,
+      lastName,
+      fullName,
+      email,
+      externalId,
+      platform: connection.platform,
+      userId: connection.userId,
+      organizationId: connection.organizationId,
+      status: 'new',
+      leadSource: 'IriSync social',
+      isQualified: true,
+      qualificationDate: now,
+      qualificationNotes: engagement.summary,
+      customFields: handle && network ? { [`social_${network}`]: handle } : undefined,
+      lastSyncAt: now,
+      syncStatus: 'synced',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const firestoreData = Object.fromEntries(
+      Object.entries(LeadUtils.toFirestore(lead)).filter(([, value]) => value !== undefined)
+    );
+    await addDoc(collection(this.getFirestore(), 'crmLeads'), firestoreData);
+
+    logger.info('Created CRM lead from social conversation', {
+      connectionId: connection.id,
+      platform: connection.platform,
+      externalId,
+      sourceId: engagement.sourceId
+    });
+
+    return { type: 'lead', id: externalId };
+  }
+
+  /**
+   * Note a record we just wrote so the next pull skips it
+   */
+  private async recordOutboundWrite(connection: CRMConnection, target: CRMActivityTarget): Promise<void> {
+    const connectionId = connection.id as string;
+    await setDoc(
+      doc(this.getFirestore(), EngagementSync.OUTBOUND_WRITES_COLLECTION, this.getOutboundWriteId(connectionId, target.id)),
+      {
+        connectionId,
+        platform: connection.platform,
+        externalId: target.id,
+        recordType: target.type,
+        pushedAt: Timestamp.now()
+      }
+    );
+  }
+
+  private async getBidirectionalConnections(organizationId: string): Promise<CRMConnection[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(this.getFirestore(), 'crmConnections'),
+        where('organizationId', '==', organizationId)
+      ));
+
+      return snapshot.docs
+        .map(connectionDoc => CRMConnectionUtils.fromFirestore(connectionDoc.data() as FirestoreCRMConnection, connectionDoc.id))
+        .filter(connection => this.acceptsPushes(connection));
+    } catch (error) {
+      logger.error('Error loading CRM connections for engagement push', { organizationId, error });
+      return [];
+    }
+  }
+
+  private async getConnection(connectionId: string): Promise<CRMConnection | null> {
+    const connectionDoc = await getDoc(doc(this.getFirestore(), 'crmConnections', connectionId));
+    return connectionDoc.exists()
+      ? CRMConnectionUtils.fromFirestore(connectionDoc.data() as FirestoreCRMConnection, connectionDoc.id)
+      : null;
+  }
+
+  private acceptsPushes(connection: CRMConnection): boolean {
+    return !!connection.id &&
+      !!connection.config?.bidirectional &&
+      connection.features?.activities !== false &&
+      CRMConnectionUtils.isActive(connection);
+  }
+
+  /**
+   * Stable id for one engagement pushed to one connection
+   */
+  private getPushId(connectionId: string, engagement: SocialEngagement): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${connectionId}:${engagement.type}:${engagement.sourceId}`)
+      .digest('hex')
+      .slice(0, 40);
+  }
+
+  private getOutboundWriteId(connectionId: string, externalId: string): string {
+    return `${connectionId}_${externalId}`;
+  }
+
+  private getFirestore() {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) throw new Error('Firestore not configured');
+    return firestore;
+  }
+}
@@ -8,18 +8,25 @@ import { firestore } from '@/lib/core/firebase';
 import {
   CRMDataType,
   SyncStatus,
-  SyncResult,
-  CRMError,
-  CRMErrorType
+  SyncResult
 } from '../types';
 
 import { CRMConnection } from '../models/CRMConnection';
 import { Lead, LeadUtils } from '../models/Lead';
+import { IncrementalSync } from './IncrementalSync';
+import { ConflictQueue } from './ConflictQueue';
+import { ConflictResolver, ConflictResolutionStrategy } from './ConflictResolver';
+import { EngagementSync } from './EngagementSync';
 
 /**
  * Lead synchronization handler
  */
 export class LeadSync {
+  private engagementSync = new EngagementSync();
+  private incrementalSync = new IncrementalSync();
+  private conflictQueue = new ConflictQueue();
+  private conflictResolver = new ConflictResolver();
+
   /**
    * Sync leads for a CRM connection
    */
@@ -39,8 +46,9 @@ export class LeadSync {
     });
 
     try {
-      // Get leads from CRM platform
-      const platformLeads = await this.fetchLeadsFromPlatform(connection);
+      // Get leads changed since the last sync from CRM platform
+      const fetched = await this.incrementalSync.fetch(connection, CRMDataType.LEADS);
+      const platformLeads = fetched.records;
       recordsProcessed = platformLeads.length;
 
       if (platformLeads.length === 0) {
@@ -49,6 +57,8 @@ export class LeadSync {
           platform: connection.platform
         });
 
+        await this.incrementalSync.commit(connection, CRMDataType.LEADS, fetched, false);
+
         return {
           dataType: CRMDataType.LEADS,
           status: SyncStatus.SUCCESS,
@@ -81,11 +91,19 @@ export class LeadSync {
           const existingLead = existingLeads.get(externalId);
 
           if (existingLead) {
-            // Update existing lead if needed
-            if (this.needsUpdate(existingLead, standardizedLead)) {
-              await this.updateLead(existingLead.id, standardizedLead);
-              recordsUpdated++;
-              logger.debug('Lead updated', { externalId, leadId: existingLead.id });
+            // Update existing lead if needed, unless the change is our own write-back
+            if (await this.engagementSync.isEcho(connection, externalId, standardizedLead.updatedAt)) {
+              recordsSkipped++;
+              logger.debug('Lead skipped (own write-back)', { externalId });
+            } else if (this.needsUpdate(existingLead, standardizedLead)) {
+              if (await this.holdForReview(connection, existingLead, standardizedLead)) {
+                recordsSkipped++;
+                logger.debug('Lead held for conflict review', { externalId });
+              } else {
+                await this.updateLead(existingLead.id, standardizedLead);
+                recordsUpdated++;
+                logger.debug('Lead updated', { externalId, leadId: existingLead.id });
+              }
             } else {
               recordsSkipped++;
               logger.debug('Lead skipped (no changes)', { externalId });
@@ -111,6 +129,8 @@ export class LeadSync {
         }
       }
 
+      await this.incrementalSync.commit(connection, CRMDataType.LEADS, fetched, recordsErrored > 0);
+
       const endTime = Date.now();
       const status = recordsErrored > 0 ? 
         (recordsErrored === recordsProcessed ? SyncStatus.ERROR : SyncStatus.PARTIAL) :
@@ -168,38 +188,6 @@ export class LeadSync {
 
   // ==================== PRIVATE METHODS ====================
 
-  /**
-   * Fetch leads from CRM platform
-   */
-  private async fetchLeadsFromPlatform(connection: CRMConnection): Promise<any[]> {
-    try {
-      // This would use the appropriate adapter based on platform
-      // For now, returning empty array as adapters are not fully implemented
-      logger.debug('Fetching leads from platform', {
-        platform: connection.platform,
-        connectionId: connection.id
-      });
-
-      // In a real implementation, this would call:
-      // const adapter = this.getAdapter(connection.platform);
-      // return await adapter.getLeads(connection.tokens.access_token, 1000);
-
-      return [];
-    } catch (error) {
-      logger.error('Error fetching leads from platform', {
-        platform: connection.platform,
-        error
-      });
-      throw new CRMError(
-        `Failed to fetch leads from ${connection.platform}`,
-        CRMErrorType.API_ERROR,
-        connection.platform,
-        500,
-        error
-      );
-    }
-  }
-
   /**
    * Transform platform-specific lead to standardized format
    */
@@ -305,6 +293,35 @@ export class LeadSync {
     }
   }
 
+  /**
+   * Queue a changed lead for review when the connection resolves conflicts manually
+   * @returns Whether the change was held back
+   */
+  private async holdForReview(connection: CRMConnection, existingLead: any, lead: Lead): Promise<boolean> {
+    if (connection.config?.conflictResolution !== 'manual') {
+      return false;
+    }
+
+    const resolution = await this.conflictResolver.resolveLeadConflicts(
+      lead,
+      LeadUtils.fromFirestore(existingLead, existingLead.id),
+      ConflictResolutionStrategy.MANUAL
+    );
+    if (resolution.conflicts.length === 0) {
+      return false;
+    }
+
+    await this.conflictQueue.enqueue(
+      connection,
+      CRMDataType.LEADS,
+      existingLead.id,
+      lead.externalId,
+      resolution.conflicts,
+      lead.updatedAt
+    );
+    return true;
+  }
+
   /**
    * Determine if lead needs update
    */
@@ -435,6 +452,9 @@ export class LeadSync {
     const updated = platformLead.updatedAt || 
                    platformLead.LastModifiedDate || 
                    platformLead.Modified_Time ||
+                   platformLead.modifiedon ||
+                   platformLead.date_modified ||
+                   platformLead.update_time ||
                    platformLead.properties?.lastmodifieddate;
     
     return updated ? new Date(updated) : undefined;
@@ -216,6 +216,27 @@ export interface FirestoreCRMConnection {
   webhookId?: string;
 }
 
+/**
+ * Page request for records changed since the last sync
+ */
+export interface ModifiedRecordsQuery {
+  // Records modified at or after this time; omitted on the first, full pass
+  since?: Date;
+  // Adapter-specific position within the current pass
+  cursor?: string;
+  limit: number;
+}
+
+/**
+ * One page of records changed since the last sync
+ */
+export interface ModifiedRecordsPage {
+  records: any[];
+  // Set while the pass has more pages
+  nextCursor?: string;
+  latestModifiedAt?: Date;
+}
+
 /**
  * Sync operation result
  */
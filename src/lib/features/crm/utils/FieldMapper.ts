@@ -6,6 +6,7 @@ import { CRMPlatform } from '../types';
 import { ContactData } from '../models/Contact';
 import { DealData } from '../models/Deal';
 import { LeadData } from '../models/Lead';
+import { ActivityData } from '../models/Activity';
 
 /**
  * Field mapping configuration for each platform
@@ -22,6 +23,7 @@ interface PlatformMappings {
     contact: FieldMapping;
     deal: FieldMapping;
     lead: FieldMapping;
+    activity: FieldMapping;
   };
 }
 
@@ -91,6 +93,10 @@ export class FieldMapper {
         }),
         createdAt: (data: any) => new Date(data.createdate),
         updatedAt: (data: any) => new Date(data.lastmodifieddate)
+      },
+      activity: {
+        body: 'properties.hs_note_body',
+        occurredAt: 'properties.hs_timestamp'
       }
     },
     [CRMPlatform.SALESFORCE]: {
@@ -152,6 +158,11 @@ export class FieldMapper {
         }),
         createdAt: (data: any) => new Date(data.CreatedDate),
         updatedAt: (data: any) => new Date(data.LastModifiedDate)
+      },
+      activity: {
+        subject: 'Subject',
+        body: 'Description',
+        occurredOn: 'ActivityDate'
       }
     },
     [CRMPlatform.ZOHO]: {
@@ -213,6 +224,10 @@ export class FieldMapper {
         }),
         createdAt: (data: any) => new Date(data.Created_Time),
         updatedAt: (data: any) => new Date(data.Modified_Time)
+      },
+      activity: {
+        subject: 'Note_Title',
+        body: 'Note_Content'
       }
     },
     [CRMPlatform.PIPEDRIVE]: {
@@ -242,12 +257,16 @@ export class FieldMapper {
       lead: {
         firstName: (data: any) => data.person_name ? data.person_name.split(' ')[0] : '',
         lastName: (data: any) => data.person_name ? data.person_name.split(' ').slice(1).join(' ') : '',
-        email: (data: any) => data.email || '',
-        phone: (data: any) => data.phone || '',
+        fullName: 'person_name',
+        email: 'email',
+        phone: 'phone',
         company: 'organization_name',
         notes: 'note',
         createdAt: (data: any) => new Date(data.add_time),
         updatedAt: (data: any) => new Date(data.update_time)
+      },
+      activity: {
+        body: 'content'
       }
     },
     [CRMPlatform.DYNAMICS]: {
@@ -304,6 +323,10 @@ export class FieldMapper {
         }),
         createdAt: (data: any) => new Date(data.createdon),
         updatedAt: (data: any) => new Date(data.modifiedon)
+      },
+      activity: {
+        subject: 'subject',
+        body: 'notetext'
       }
     },
     [CRMPlatform.SUGARCRM]: {
@@ -360,6 +383,10 @@ export class FieldMapper {
         }),
         createdAt: (data: any) => new Date(data.date_entered),
         updatedAt: (data: any) => new Date(data.date_modified)
+      },
+      activity: {
+        subject: 'name',
+        body: 'description'
       }
     }
   };
@@ -511,6 +538,27 @@ export class FieldMapper {
     }
   }
 
+  /**
+   * Map an activity to the platform's note or task fields
+   */
+  static mapActivityToPlatform(
+    activityData: ActivityData,
+    platform: CRMPlatform
+  ): any {
+    try {
+      const mapping = this.mappings[platform]?.activity;
+      if (!mapping) {
+        logger.warn(`No activity mapping found for platform: ${platform}`);
+        return activityData;
+      }
+
+      return this.reverseMapping(activityData, mapping);
+    } catch (error) {
+      logger.error('Error mapping activity to platform', { platform, error });
+      return activityData;
+    }
+  }
+
   // ==================== PRIVATE METHODS ====================
 
   /**
@@ -0,0 +1,84 @@
+// CRM Sync Watermarks
+// Tracks how far incremental sync has read each data type of a connection
+
+/**
+ * Incremental sync position for one data type of a connection
+ *
+ * A pass fetches every record modified at or after `modifiedSince`. A pass
+ * that runs out of pages for one run stores its `cursor` and the latest
+ * modification seen so far; the next run resumes from there. Once a pass
+ * completes without errors, that latest modification becomes the next
+ * pass's `modifiedSince`.
+ */
+export interface SyncWatermark {
+  modifiedSince?: Date;
+  cursor?: string;
+  highWater?: Date;
+  updatedAt: Date;
+}
+
+/**
+ * What one sync run read
+ */
+export interface SyncRunProgress {
+  latestModifiedAt?: Date;
+  // Where the run stopped if the pass has more pages
+  nextCursor?: string;
+  // Whether any record failed to sync
+  failed: boolean;
+}
+
+/**
+ * Sync watermark utility functions
+ */
+export class SyncWatermarkUtils {
+  /**
+   * Watermark after a sync run
+   */
+  static advance(previous: SyncWatermark | undefined, run: SyncRunProgress, now: Date = new Date()): SyncWatermark {
+    // Restart the pass so failed records are fetched again; records that did sync are skipped as unchanged
+    if (run.failed) {
+      return this.compact({ modifiedSince: previous?.modifiedSince, updatedAt: now });
+    }
+
+    const passInProgress = !!previous?.cursor;
+    const highWater = this.latest(passInProgress ? previous?.highWater : undefined, run.latestModifiedAt);
+
+    if (run.nextCursor) {
+      return this.compact({
+        modifiedSince: previous?.modifiedSince,
+        cursor: run.nextCursor,
+        highWater,
+        updatedAt: now
+      });
+    }
+
+    return this.compact({ modifiedSince: highWater || previous?.modifiedSince, updatedAt: now });
+  }
+
+  /**
+   * Latest valid modification time among records
+   */
+  static latestModifiedAt(records: any[], read: (record: any) => any): Date | undefined {
+    return records.reduce<Date | undefined>((latest, record) => {
+      const value = read(record);
+      const date = value ? new Date(value) : undefined;
+      return date && !isNaN(date.getTime()) ? this.latest(latest, date) : latest;
+    }, undefined);
+  }
+
+  /**
+   * Later of two optional dates
+   */
+  static latest(a?: Date, b?: Date): Date | undefined {
+    if (!a) return b;
+    if (!b) return a;
+    return b > a ? b : a;
+  }
+
+  private static compact(watermark: SyncWatermark): SyncWatermark {
+    return Object.fromEntries(
+      Object.entries(watermark).filter(([, value]) => value !== undefined)
+    ) as SyncWatermark;
+  }
+}
@@ -30,6 +30,10 @@ import {
   QuerySnapshot
 } from 'firebase/firestore';
 import { PlatformType } from '@/lib/features/platforms/PlatformProvider';
+import { emitWebhookEvent } from '@/lib/webhooks/events';
+import { WebhookEventType } from '@/lib/webhooks/event-types';
+import { pushSocialEngagement } from '@/lib/features/crm/events';
+import { SocialEngagementType } from '@/lib/features/crm/models/Activity';
 
 /**
  * Types of social listening content
@@ -626,12 +630,39 @@ class SocialListeningService {
         const existingDocs = await getDocs(existingQuery);
 
         if (existingDocs.empty) {
-          await addDoc(collection(firestore, this.MENTIONS_COLLECTION), {
+          const mentionRef = await addDoc(collection(firestore, this.MENTIONS_COLLECTION), {
             ...mention,
             detectedAt: Timestamp.fromDate(mention.detectedAt),
             createdAt: Timestamp.fromDate(mention.createdAt),
           });
           saved++;
+
+          void emitWebhookEvent(WebhookEventType.MENTION_RECEIVED, {
+            mentionId: mentionRef.id,
+            type: mention.type,
+            platformType: mention.source.platformType,
+            author: mention.source.platformUsername,
+            content: mention.content,
+            priority: mention.priority,
+            ...(mention.source.platformPostId ? { platformPostId: mention.source.platformPostId } : {}),
+            ...(mention.sentiment ? { sentiment: mention.sentiment } : {}),
+            detectedAt: mention.detectedAt.toISOString()
+          }, mention.organizationId);
+
+          void pushSocialEngagement({
+            type: SocialEngagementType.MENTION,
+            organizationId: mention.organizationId,
+            sourceId: mentionRef.id,
+            identity: {
+              handle: mention.source.platformUsername,
+              network: mention.source.platformType,
+              name: mention.source.authorName
+            },
+            occurredAt: mention.detectedAt,
+            summary: `Mentioned us on ${mention.source.platformType}${mention.sentiment ? ` (${mention.sentiment})` : ''}`,
+            content: mention.content,
+            ...(mention.source.authorProfileUrl ? { url: mention.source.authorProfileUrl } : {})
+          });
         }
       } catch (error) {
         errors.push(`Error saving mention: ${error instanceof Error ? error.message : 'Unknown error'}`);
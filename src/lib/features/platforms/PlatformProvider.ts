@@ -27,7 +27,10 @@ export enum PlatformType {
   YOUTUBE = 'youtube',
   REDDIT = 'reddit',
   MASTODON = 'mastodon',
-  THREADS = 'threads'
+  THREADS = 'threads',
+  BLUESKY = 'bluesky',
+  PINTEREST = 'pinterest',
+  GOOGLE_BUSINESS = 'google_business'
 }
 
 /**
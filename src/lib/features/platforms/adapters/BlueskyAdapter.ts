@@ -0,0 +1,193 @@
+import { PlatformAdapter } from './PlatformAdapter';
+import { PlatformAccountInfo, PlatformAuthData } from '../models';
+import { BlueskyProvider } from '../providers/BlueskyProvider';
+import axios from 'axios';
+import { logger } from '../../../core/logging/logger';
+import { publicAgents } from '../../../core/security/network';
+import { PlatformType } from '../PlatformProvider';
+
+/**
+ * Bluesky adapter for authentication and account information.
+ * Bluesky accounts connect with a handle and app password rather than an
+ * OAuth redirect (see connectWithAppPassword).
+ */
+export class BlueskyAdapter implements PlatformAdapter {
+  private serviceUrl: string;
+
+  constructor(serviceUrl: string = process.env.BLUESKY_SERVICE_URL || 'https://bsky.social') {
+    this.serviceUrl = serviceUrl;
+  }
+
+  /**
+   * Bluesky has no authorization redirect
+   */
+  async getAuthorizationUrl(state: string): Promise<string> {
+    return new BlueskyProvider().getAuthorizationUrl(state);
+  }
+
+  /**
+   * Not supported; see connectWithAppPassword
+   */
+  async handleAuthorizationCode(code: string): Promise<PlatformAuthData> {
+    throw new Error('Bluesky accounts connect with an app password');
+  }
+
+  /**
+   * Create a session from app password credentials
+   * @param identifier Handle, DID or email
+   * @param appPassword App password
+   * @param serviceUrl PDS URL for self-hosted accounts; must be a public https host
+   */
+  async connectWithAppPassword(identifier: string, appPassword: string, serviceUrl?: string): Promise<PlatformAuthData> {
+    try {
+      const provider = new BlueskyProvider({
+        clientId: '',
+        clientSecret: '',
+        redirectUri: '',
+        baseUrl: serviceUrl || this.serviceUrl
+      });
+
+      const authState = await provider.createSession(identifier, appPassword);
+      this.serviceUrl = authState.additionalData?.serviceUrl || this.serviceUrl;
+
+      logger.info('Successfully created Bluesky session', {
+        handle: authState.additionalData?.handle,
+        serviceUrl: this.serviceUrl
+      });
+
+      return {
+        accessToken: authState.accessToken,
+        refreshToken: authState.refreshToken,
+        expiresIn: Math.max(0, authState.expiresAt - Math.floor(Date.now() / 1000)),
+        metadata: {
+          did: authState.additionalData?.did,
+          handle: authState.additionalData?.handle,
+          serviceUrl: this.serviceUrl
+        }
+      };
+    } catch (error) {
+      logger.error('Error creating Bluesky session', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Handle OAuth 1.0a token exchange (not used by Bluesky)
+   */
+  async handleAuthorizationToken(oauthVerifier: string, oauthToken: string): Promise<PlatformAuthData> {
+    throw new Error('Bluesky does not support OAuth 1.0a token flow');
+  }
+
+  /**
+   * Not supported; see connectWithAppPassword
+   */
+  async handleAuthorizationCallback(code: string, state: string): Promise<PlatformAuthData> {
+    return this.handleAuthorizationCode(code);
+  }
+
+  /**
+   * Get account information using an access token
+   */
+  async getAccountInfo(accessToken: string, authData?: PlatformAuthData): Promise<PlatformAccountInfo> {
+    try {
+      const serviceUrl = authData?.metadata?.serviceUrl || this.serviceUrl;
+      const headers = { Authorization: `Bearer ${accessToken}` };
+
+      const session = await axios.get(`${serviceUrl}/xrpc/com.atproto.server.getSession`, { headers, ...publicAgents });
+      const profileResponse = await axios.get(`${serviceUrl}/xrpc/app.bsky.actor.getProfile`, {
+        params: { actor: session.data.did },
+        headers,
+        ...publicAgents
+      });
+
+      const profile = profileResponse.data;
+
+      return {
+        id: profile.did,
+        name: profile.displayName || profile.handle,
+        username: profile.handle,
+        profileImage: profile.avatar,
+        email: session.data.email,
+        url: `https://bsky.app/profile/${profile.handle}`,
+        additionalData: {
+          did: profile.did,
+          serviceUrl,
+          followersCount: profile.followersCount,
+          followingCount: profile.followsCount,
+          postsCount: profile.postsCount,
+          description: profile.description
+        }
+      };
+    } catch (error: any) {
+      logger.error('Error fetching Bluesky account info', {
+        error: error.response?.data || error.message
+      });
+      throw new Error('Failed to fetch account information');
+    }
+  }
+
+  /**
+   * Validate an access token
+   */
+  async validateToken(token: string): Promise<boolean> {
+    try {
+      await axios.get(`${this.serviceUrl}/xrpc/com.atproto.server.getSession`, {
+        headers: { Authorization: `Bearer ${token}` },
+        ...publicAgents
+      });
+      return true;
+    } catch (error) {
+      logger.warn('Bluesky token validation failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Refresh an access token. Bluesky also rotates the refresh token, so
+   * callers that need it should use BlueskyProvider.refreshAccessToken.
+   */
+  async refreshToken(refreshToken: string): Promise<string> {
+    try {
+      const response = await axios.post(
+        `${this.serviceUrl}/xrpc/com.atproto.server.refreshSession`,
+        undefined,
+        { headers: { Authorization: `Bearer ${refreshToken}` }, ...publicAgents }
+      );
+
+      return response.data.accessJwt;
+    } catch (error: any) {
+      logger.error('Error refreshing Bluesky session', {
+        error: error.response?.data || error.message
+      });
+      throw new Error('Failed to refresh token');
+    }
+  }
+
+  /**
+   * Initialize the adapter with authentication data
+   */
+  async initialize(connection: PlatformAuthData): Promise<void> {
+    if (!connection.accessToken) {
+      throw new Error('Bluesky access token is required');
+    }
+
+    if (connection.metadata?.serviceUrl) {
+      this.serviceUrl = connection.metadata.serviceUrl;
+    }
+
+    const valid = await this.validateToken(connection.accessToken);
+
+    if (!valid) {
+      throw new Error('Failed to validate Bluesky connection');
+    }
+
+    logger.info('Bluesky adapter initialized successfully', {
+      platformType: PlatformType.BLUESKY,
+      did: connection.metadata?.did
+    });
+  }
+}
@@ -0,0 +1,168 @@
+import { PlatformAdapter } from './PlatformAdapter';
+import { PlatformAccountInfo, PlatformAuthData } from '../models';
+import { GoogleBusinessProvider } from '../providers/GoogleBusinessProvider';
+import { logger } from '../../../core/logging/logger';
+import { PlatformType } from '../PlatformProvider';
+
+/**
+ * Google Business Profile adapter for authentication and account
+ * information. One Google account may manage many locations; the first is
+ * connected by default and the rest are offered for selection.
+ */
+export class GoogleBusinessAdapter implements PlatformAdapter {
+  private clientId: string;
+  private clientSecret: string;
+  private redirectUri: string;
+
+  constructor(
+    clientId: string = process.env.GOOGLE_CLIENT_ID || '',
+    clientSecret: string = process.env.GOOGLE_CLIENT_SECRET || '',
+    redirectUri: string = process.env.NEXT_PUBLIC_APP_URL + '/api/platforms/callback/social?platform=google_business' || ''
+  ) {
+    this.clientId = clientId;
+    this.clientSecret = clientSecret;
+    this.redirectUri = redirectUri;
+  }
+
+  /**
+   * Generate authorization URL for OAuth flow
+   */
+  async getAuthorizationUrl(state: string): Promise<string> {
+    return this.createProvider().getAuthorizationUrl(state);
+  }
+
+  /**
+   * Exchange the authorization code for tokens
+   */
+  async handleAuthorizationCode(code: string, codeVerifier?: string): Promise<PlatformAuthData> {
+    try {
+      const authState = await this.createProvider().exchangeCodeForToken(code, codeVerifier);
+
+      logger.info('Successfully exchanged code for Google Business token', {
+        hasRefreshToken: !!authState.refreshToken
+      });
+
+      return {
+        accessToken: authState.accessToken,
+        refreshToken: authState.refreshToken,
+        expiresIn: Math.max(0, authState.expiresAt - Math.floor(Date.now() / 1000)),
+        scope: authState.scope?.join(' ')
+      };
+    } catch (error) {
+      logger.error('Error exchanging Google Business authorization code', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Handle OAuth 1.0a token exchange (not used by Google)
+   */
+  async handleAuthorizationToken(oauthVerifier: string, oauthToken: string): Promise<PlatformAuthData> {
+    throw new Error('Google Business Profile does not support OAuth 1.0a token flow');
+  }
+
+  /**
+   * Process the authorization callback
+   */
+  async handleAuthorizationCallback(code: string, state: string): Promise<PlatformAuthData> {
+    return this.handleAuthorizationCode(code);
+  }
+
+  /**
+   * Get the managed locations
+   */
+  async getAccountInfo(accessToken: string): Promise<PlatformAccountInfo> {
+    try {
+      const locations = await this.createProvider(accessToken).getLocations();
+
+      if (locations.length === 0) {
+        throw new Error('No Google Business Profile locations found for this account');
+      }
+
+      const location = locations[0];
+
+      return {
+        id: location.locationName,
+        name: location.title,
+        username: location.title,
+        url: location.mapsUri,
+        additionalData: {
+          accountName: location.accountName,
+          locationName: location.locationName,
+          address: location.address,
+          websiteUri: location.websiteUri,
+          // Include available locations so the UI can display them for selection
+          availableLocations: locations,
+          requiresLocationSelection: locations.length > 1
+        }
+      };
+    } catch (error: any) {
+      logger.error('Error fetching Google Business account info', {
+        error: error.response?.data || error.message
+      });
+      throw new Error('Failed to fetch account information');
+    }
+  }
+
+  /**
+   * Validate an access token
+   */
+  async validateToken(token: string): Promise<boolean> {
+    return this.createProvider(token).testConnection();
+  }
+
+  /**
+   * Refresh an access token
+   */
+  async refreshToken(refreshToken: string): Promise<string> {
+    try {
+      const provider = this.createProvider('', refreshToken);
+      const authState = await provider.refreshAccessToken();
+
+      return authState.accessToken;
+    } catch (error) {
+      logger.error('Error refreshing Google Business token', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error('Failed to refresh token');
+    }
+  }
+
+  /**
+   * Initialize the adapter with authentication data
+   */
+  async initialize(connection: PlatformAuthData): Promise<void> {
+    if (!connection.accessToken) {
+      throw new Error('Google Business access token is required');
+    }
+
+    const valid = await this.validateToken(connection.accessToken);
+
+    if (!valid) {
+      throw new Error('Failed to validate Google Business connection');
+    }
+
+    logger.info('Google Business adapter initialized successfully', {
+      platformType: PlatformType.GOOGLE_BUSINESS,
+      locationName: connection.metadata?.locationName
+    });
+  }
+
+  private createProvider(accessToken?: string, refreshToken?: string): GoogleBusinessProvider {
+    return new GoogleBusinessProvider(
+      {
+        clientId: this.clientId,
+        clientSecret: this.clientSecret,
+        redirectUri: this.redirectUri
+      },
+      accessToken !== undefined ? {
+        accessToken,
+        refreshToken,
+        // Expiry is unknown here; an empty access token forces a refresh
+        expiresAt: accessToken ? Math.floor(Date.now() / 1000) + 60 : 0
+      } : undefined
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { PlatformAdapter } from './PlatformAdapter';
+import { PlatformAccountInfo, PlatformAuthData } from '../models';
+import { PinterestProvider } from '../providers/PinterestProvider';
+import { logger } from '../../../core/logging/logger';
+import { PlatformType } from '../PlatformProvider';
+
+/**
+ * Pinterest adapter for authentication and account information
+ */
+export class PinterestAdapter implements PlatformAdapter {
+  private clientId: string;
+  private clientSecret: string;
+  private redirectUri: string;
+
+  constructor(
+    clientId: string = process.env.PINTEREST_CLIENT_ID || '',
+    clientSecret: string = process.env.PINTEREST_CLIENT_SECRET || '',
+    redirectUri: string = process.env.NEXT_PUBLIC_APP_URL + '/api/platforms/callback/social?platform=pinterest' || ''
+  ) {
+    this.clientId = clientId;
+    this.clientSecret = clientSecret;
+    this.redirectUri = redirectUri;
+  }
+
+  /**
+   * Generate authorization URL for OAuth flow
+   */
+  async getAuthorizationUrl(state: string): Promise<string> {
+    return this.createProvider().getAuthorizationUrl(state);
+  }
+
+  /**
+   * Exchange the authorization code for tokens
+   */
+  async handleAuthorizationCode(code: string): Promise<PlatformAuthData> {
+    try {
+      const authState = await this.createProvider().exchangeCodeForToken(code);
+
+      logger.info('Successfully exchanged code for Pinterest token', {
+        hasRefreshToken: !!authState.refreshToken
+      });
+
+      return {
+        accessToken: authState.accessToken,
+        refreshToken: authState.refreshToken,
+        expiresIn: Math.max(0, authState.expiresAt - Math.floor(Date.now() / 1000)),
+        scope: authState.scope?.join(','),
+        metadata: authState.additionalData
+      };
+    } catch (error) {
+      logger.error('Error exchanging Pinterest authorization code', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Handle OAuth 1.0a token exchange (not used by Pinterest)
+   */
+  async handleAuthorizationToken(oauthVerifier: string, oauthToken: string): Promise<PlatformAuthData> {
+    throw new Error('Pinterest does not support OAuth 1.0a token flow');
+  }
+
+  /**
+   * Process the authorization callback
+   */
+  async handleAuthorizationCallback(code: string, state: string): Promise<PlatformAuthData> {
+    return this.handleAuthorizationCode(code);
+  }
+
+  /**
+   * Get account information and boards. The first board becomes the
+   * default; the UI can offer the others for selection.
+   */
+  async getAccountInfo(accessToken: string): Promise<PlatformAccountInfo> {
+    try {
+      const provider = this.createProvider(accessToken);
+      const account = await provider.getAccountDetails();
+      const boards = await provider.getBoards();
+
+      return {
+        id: account.platformId,
+        name: account.displayName,
+        username: account.username,
+        profileImage: account.profilePictureUrl,
+        url: account.profileUrl,
+        additionalData: {
+          userId: account.platformId,
+          accountType: account.accountType,
+          followerCount: account.followerCount,
+          pinCount: account.postCount,
+          websiteUrl: account.metadata?.websiteUrl,
+          // Boards are offered for selection when creating Pins
+          availableBoards: boards,
+          defaultBoardId: boards[0]?.id,
+          requiresBoardSelection: boards.length > 1
+        }
+      };
+    } catch (error: any) {
+      logger.error('Error fetching Pinterest account info', {
+        error: error.response?.data || error.message
+      });
+      throw new Error('Failed to fetch account information');
+    }
+  }
+
+  /**
+   * Validate an access token
+   */
+  async validateToken(token: string): Promise<boolean> {
+    return this.createProvider(token).testConnection();
+  }
+
+  /**
+   * Refresh an access token
+   */
+  async refreshToken(refreshToken: string): Promise<string> {
+    try {
+      const provider = this.createProvider('', refreshToken);
+      const authState = await provider.refreshAccessToken();
+
+      return authState.accessToken;
+    } catch (error) {
+      logger.error('Error refreshing Pinterest token', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error('Failed to refresh token');
+    }
+  }
+
+  /**
+   * Initialize the adapter with authentication data
+   */
+  async initialize(connection: PlatformAuthData): Promise<void> {
+    if (!connection.accessToken) {
+      throw new Error('Pinterest access token is required');
+    }
+
+    const valid = await this.validateToken(connection.accessToken);
+
+    if (!valid) {
+      throw new Error('Failed to validate Pinterest connection');
+    }
+
+    logger.info('Pinterest adapter initialized successfully', {
+      platformType: PlatformType.PINTEREST
+    });
+  }
+
+  private createProvider(accessToken?: string, refreshToken?: string): PinterestProvider {
+    return new PinterestProvider(
+      {
+        clientId: this.clientId,
+        clientSecret: this.clientSecret,
+        redirectUri: this.redirectUri
+      },
+      accessToken !== undefined ? {
+        accessToken,
+        refreshToken,
+        // Expiry is unknown here; an empty access token forces a refresh
+        expiresAt: accessToken ? Math.floor(Date.now() / 1000) + 60 : 0
+      } : undefined
+    );
+  }
+}
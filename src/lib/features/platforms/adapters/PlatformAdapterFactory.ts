@@ -9,6 +9,9 @@ import { TikTokAdapter } from './TikTokAdapter';
 import { RedditAdapter } from './RedditAdapter';
 import { MastodonAdapter } from './MastodonAdapter';
 import { ThreadsAdapter } from './ThreadsAdapter';
+import { BlueskyAdapter } from './BlueskyAdapter';
+import { PinterestAdapter } from './PinterestAdapter';
+import { GoogleBusinessAdapter } from './GoogleBusinessAdapter';
 import { logger } from '../../../core/logging/logger';
 
 /**
@@ -59,6 +62,15 @@ export class PlatformAdapterFactory {
         case PlatformType.THREADS:
           adapter = new ThreadsAdapter();
           break;
+        case PlatformType.BLUESKY:
+          adapter = new BlueskyAdapter();
+          break;
+        case PlatformType.PINTEREST:
+          adapter = new PinterestAdapter();
+          break;
+        case PlatformType.GOOGLE_BUSINESS:
+          adapter = new GoogleBusinessAdapter();
+          break;
         default:
           console.error(`Unsupported platform type: ${platformType}`);
           throw new Error(`Unsupported platform type: ${platformType}`);
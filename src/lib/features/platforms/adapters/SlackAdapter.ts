@@ -32,7 +32,7 @@ export class SlackAdapter {
       client_id: this.clientId,
       redirect_uri: this.redirectUri,
       state,
-      scope: 'channels:read,channels:write,chat:write,users:read',
+      scope: 'channels:read,channels:write,chat:write,users:read,users:read.email',
       user_scope: 'identity.basic',
     });
     
@@ -8,5 +8,8 @@ export * from './InstagramAdapter';
 export * from './LinkedInAdapter';
 export * from './TikTokAdapter';
 export * from './YouTubeAdapter';
+export * from './BlueskyAdapter';
+export * from './PinterestAdapter';
+export * from './GoogleBusinessAdapter';
 export * from './PlatformAdapter';
 export * from './PlatformAdapterFactory'; 
\ No newline at end of file
@@ -1,10 +1,34 @@
 import { firestore } from 'firebase-admin';
 import { AuthState, PlatformType } from '../PlatformProvider';
-import { encryptAuthState, decryptAuthState, isTokenExpired } from './oauth';
+import { decryptAuthState, isTokenExpired } from './oauth';
+import { isSealedSecret, openJson, sealJson } from '../../../core/security/encryption';
 
-// Environment variable for token encryption
+// Key that encrypted tokens stored before envelope encryption
 const TOKEN_ENCRYPTION_KEY = process.env.TOKEN_ENCRYPTION_KEY || 'default-encryption-key-replace-in-production';
 
+/**
+ * Encryption context for platform OAuth tokens
+ */
+export const AUTH_STATE_CONTEXT = 'social-account-auth-state';
+
+/**
+ * Encrypt an auth state for storage
+ */
+export function sealAuthState(authState: AuthState): string {
+  return sealJson(authState, AUTH_STATE_CONTEXT);
+}
+
+/**
+ * Decrypt a stored auth state, including ones encrypted with the legacy
+ * TOKEN_ENCRYPTION_KEY scheme
+ */
+export function openAuthState(encryptedAuthState: string): AuthState {
+  if (isSealedSecret(encryptedAuthState)) {
+    return openJson<AuthState>(encryptedAuthState, AUTH_STATE_CONTEXT);
+  }
+  return decryptAuthState(encryptedAuthState, TOKEN_ENCRYPTION_KEY);
+}
+
 /**
  * Store authentication tokens for a platform
  */
@@ -16,7 +40,7 @@ export async function storeTokens(
 ): Promise<void> {
   try {
     // Encrypt the tokens before storing
-    const encryptedState = encryptAuthState(authState, TOKEN_ENCRYPTION_KEY);
+    const encryptedState = sealAuthState(authState);
     
     // Store in Firestore
     await firestore().collection('users').doc(userId)
@@ -57,7 +81,7 @@ export async function getTokens(
     }
     
     // Decrypt the tokens
-    return decryptAuthState(data.encryptedAuthState, TOKEN_ENCRYPTION_KEY);
+    return openAuthState(data.encryptedAuthState);
     
   } catch (error) {
     console.error('Error retrieving tokens:', error);
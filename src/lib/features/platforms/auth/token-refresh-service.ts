@@ -97,6 +97,20 @@ const REFRESH_CONFIGS: Record<string, {
       refreshToken: data.refresh_token,
       expiresIn: data.expires_in
     })
+  },
+  google_business: {
+    refreshUrl: 'https://oauth2.googleapis.com/token',
+    getRefreshParams: (refreshToken, clientId, clientSecret) => ({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: clientId,
+      client_secret: clientSecret
+    }),
+    parseResponse: (data) => ({
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresIn: data.expires_in
+    })
   }
 };
 
@@ -127,6 +141,10 @@ const PLATFORM_CREDENTIALS: Record<string, { clientId: string; clientSecret: str
   pinterest: {
     clientId: process.env.PINTEREST_CLIENT_ID || '',
     clientSecret: process.env.PINTEREST_CLIENT_SECRET || ''
+  },
+  google_business: {
+    clientId: process.env.GOOGLE_CLIENT_ID || '',
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET || ''
   }
 };
 
@@ -14,7 +14,10 @@ export enum PlatformType {
   YOUTUBE = 'youtube',
   REDDIT = 'reddit',
   MASTODON = 'mastodon',
-  THREADS = 'threads'
+  THREADS = 'threads',
+  PINTEREST = 'pinterest',
+  GOOGLE_BUSINESS = 'google_business',
+  BLUESKY = 'bluesky'
 }
 
 /**
@@ -123,6 +126,27 @@ export const PLATFORM_CAPABILITIES: Record<PlatformType, PlatformCapability[]> =
   [PlatformType.THREADS]: [
     PlatformCapability.POST_TEXT,
     PlatformCapability.POST_IMAGE
+  ],
+  [PlatformType.PINTEREST]: [
+    PlatformCapability.POST_IMAGE,
+    PlatformCapability.POST_VIDEO,
+    PlatformCapability.POST_LINK,
+    PlatformCapability.READ_ANALYTICS
+  ],
+  [PlatformType.GOOGLE_BUSINESS]: [
+    PlatformCapability.POST_TEXT,
+    PlatformCapability.POST_IMAGE,
+    PlatformCapability.POST_LINK,
+    PlatformCapability.READ_MESSAGES,
+    PlatformCapability.SEND_MESSAGES,
+    PlatformCapability.READ_ANALYTICS
+  ],
+  [PlatformType.BLUESKY]: [
+    PlatformCapability.POST_TEXT,
+    PlatformCapability.POST_IMAGE,
+    PlatformCapability.POST_LINK,
+    PlatformCapability.READ_MESSAGES,
+    PlatformCapability.READ_ANALYTICS
   ]
 };
 
@@ -72,8 +72,14 @@ export {
 export {
   checkRateLimit,
   withRateLimit,
-  resetRateLimit
+  resetRateLimit,
+  getRateLimitBudget,
+  getPublishBucket,
+  parseRateLimitHeaders,
+  recordRateLimitHeaders,
+  RateLimitExceededError
 } from './utils/rate-limiter';
+export type { RateLimitBudget, RateLimitOptions } from './utils/rate-limiter';
 
 // Export content formatting utilities
 export {
@@ -84,6 +90,15 @@ export {
   formatPostForPlatform
 } from './utils/content-formatter';
 
+// Export text length utilities
+export {
+  countCharacters,
+  getCharacterLimit,
+  splitGraphemes,
+  splitIntoThread
+} from './utils/text-length';
+export type { CharacterCount } from './utils/text-length';
+
 // Export metrics collection utilities
 export {
   storeMetrics,
@@ -10,7 +10,10 @@ export enum PlatformType {
   TIKTOK = 'tiktok',
   REDDIT = 'reddit',
   MASTODON = 'mastodon',
-  THREADS = 'threads'
+  THREADS = 'threads',
+  BLUESKY = 'bluesky',
+  PINTEREST = 'pinterest',
+  GOOGLE_BUSINESS = 'google_business'
 }
 
 /**
@@ -0,0 +1,904 @@
+import {
+  AuthState,
+  PlatformCapabilities,
+  PlatformProvider,
+  PlatformProviderConfig,
+  PlatformType
+} from '../PlatformProvider';
+import { SocialAccount } from '../models/account';
+import {
+  AttachmentType,
+  PlatformPost,
+  PostAttachment,
+  PostResponse,
+  PostSchedule,
+  PostStatus
+} from '../models/content';
+import { PlatformMetrics } from '../models/metrics';
+import { withRateLimit } from '../utils/rate-limiter';
+import { BLUESKY_MAX_GRAPHEMES, buildFacets, countGraphemes } from '../utils/bluesky-richtext';
+import { logger } from '../../../core/logging/logger';
+import { assertPublicUrl, publicAgents } from '../../../core/security/network';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+
+const DEFAULT_SERVICE_URL = 'https://bsky.social';
+const MAX_IMAGES = 4;
+const MAX_IMAGE_BYTES = 1000000;
+// Refresh the access JWT this long before it expires
+const REFRESH_MARGIN_SECONDS = 60;
+const APP_PASSWORD_ONLY = 'Bluesky accounts connect with an app password via POST /api/platforms/connect/bluesky';
+
+/**
+ * Strong reference to a record (used for replies, likes and reposts)
+ */
+interface StrongRef {
+  uri: string;
+  cid: string;
+}
+
+/**
+ * A blob returned by com.atproto.repo.uploadBlob
+ */
+export interface BlueskyBlob {
+  $type: 'blob';
+  ref: { $link: string };
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * A notification from app.bsky.notification.listNotifications
+ */
+export interface BlueskyNotification {
+  uri: string;
+  cid: string;
+  author: {
+    did: string;
+    handle: string;
+    displayName?: string;
+    avatar?: string;
+  };
+  reason: 'like' | 'repost' | 'follow' | 'mention' | 'reply' | 'quote' | string;
+  reasonSubject?: string;
+  record: any;
+  isRead: boolean;
+  indexedAt: string;
+}
+
+/**
+ * Bluesky (AT Protocol) implementation of the Platform Provider.
+ * Accounts connect with an app password posted to
+ * /api/platforms/connect/bluesky; sessions are refreshed with the refresh
+ * JWT. The PDS URL and DID are kept in authState.additionalData. PDS URLs
+ * come from users and DID documents, so only public https hosts are used.
+ */
+export class BlueskyProvider extends PlatformProvider {
+  private serviceUrl: string;
+
+  constructor(config?: PlatformProviderConfig, authState?: AuthState) {
+    super(config || {
+      clientId: process.env.BLUESKY_CLIENT_ID || '',
+      clientSecret: '',
+      redirectUri: process.env.NEXT_PUBLIC_APP_URL + '/api/platforms/callback/social?platform=bluesky' || '',
+      baseUrl: DEFAULT_SERVICE_URL
+    }, authState);
+    this.serviceUrl = authState?.additionalData?.serviceUrl || config?.baseUrl || DEFAULT_SERVICE_URL;
+  }
+
+  /**
+   * Returns the platform type
+   */
+  getPlatformType(): PlatformType {
+    return PlatformType.BLUESKY;
+  }
+
+  /**
+   * Returns platform capabilities
+   */
+  getCapabilities(): PlatformCapabilities {
+    return {
+      supportsImagePosts: true,
+      supportsVideoPosts: false,
+      supportsMultipleImages: true,
+      supportsScheduling: false, // No native scheduling; IriSync publishes at the scheduled time
+      supportsThreads: true,
+      supportsPolls: false,
+      supportsHashtags: true,
+      supportsMentions: true,
+      maxCharacterCount: BLUESKY_MAX_GRAPHEMES, // Counted in graphemes, not UTF-16 units
+      maxHashtagCount: 10,
+      maxMediaAttachments: MAX_IMAGES,
+      maxScheduleTimeInDays: 0
+    };
+  }
+
+  /**
+   * Get the current auth state (refreshed sessions replace it)
+   */
+  getAuthState(): AuthState | undefined {
+    return this.authState;
+  }
+
+  /**
+   * Bluesky has no authorization redirect; accounts connect with a handle
+   * and app password (see createSession)
+   */
+  async getAuthorizationUrl(state: string): Promise<string> {
+    throw new Error(APP_PASSWORD_ONLY);
+  }
+
+  /**
+   * Not supported; see getAuthorizationUrl
+   */
+  async exchangeCodeForToken(code: string): Promise<AuthState> {
+    throw new Error(APP_PASSWORD_ONLY);
+  }
+
+  /**
+   * Create a session with a handle (or DID/email) and app password
+   */
+  async createSession(identifier: string, appPassword: string): Promise<AuthState> {
+    this.serviceUrl = await checkServiceUrl(this.serviceUrl);
+    let authState: AuthState;
+
+    try {
+      const response = await axios.post(
+        `${this.serviceUrl}/xrpc/com.atproto.server.createSession`,
+        { identifier, password: appPassword },
+        { headers: { 'Content-Type': 'application/json' }, ...publicAgents }
+      );
+
+      authState = this.toAuthState(response.data);
+    } catch (error: any) {
+      logger.error('Error creating Bluesky session', {
+        serviceUrl: this.serviceUrl,
+        error: error.response?.data || error.message
+      });
+      throw new Error(error.response?.data?.message || 'Failed to create Bluesky session');
+    }
+
+    return this.useSession(authState);
+  }
+
+  /**
+   * Refresh the session. Bluesky rotates the refresh JWT on every refresh.
+   */
+  async refreshAccessToken(): Promise<AuthState> {
+    if (!this.authState?.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    let authState: AuthState;
+
+    try {
+      const response = await axios.post(
+        `${this.serviceUrl}/xrpc/com.atproto.server.refreshSession`,
+        undefined,
+        { headers: { 'Authorization': `Bearer ${this.authState.refreshToken}` }, ...publicAgents }
+      );
+
+      authState = this.toAuthState(response.data, this.authState.additionalData);
+    } catch (error: any) {
+      logger.error('Error refreshing Bluesky session', {
+        serviceUrl: this.serviceUrl,
+        error: error.response?.data || error.message
+      });
+      throw new Error('Failed to refresh access token');
+    }
+
+    // The DID document may have moved the account to another PDS
+    return this.useSession(authState);
+  }
+
+  /**
+   * Check if the provider is authenticated. An expired access JWT still
+   * counts when a refresh JWT is available, since calls refresh first.
+   */
+  isAuthenticated(): boolean {
+    if (!this.authState?.accessToken || !this.authState.additionalData?.did) {
+      return false;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    return this.authState.expiresAt > now || !!this.authState.refreshToken;
+  }
+
+  /**
+   * Fetch account details
+   */
+  async getAccountDetails(): Promise<SocialAccount> {
+    try {
+      const profile = await this.xrpcGet('app.bsky.actor.getProfile', { actor: this.getDid() });
+
+      return {
+        id: uuidv4(),
+        platformId: profile.did,
+        platformType: this.getPlatformType(),
+        username: profile.handle,
+        displayName: profile.displayName || profile.handle,
+        profilePictureUrl: profile.avatar,
+        profileUrl: `https://bsky.app/profile/${profile.handle}`,
+        bio: profile.description,
+        isBusinessAccount: false,
+        isConnected: true,
+        hasValidCredentials: true,
+        accountType: 'personal',
+        followerCount: profile.followersCount,
+        followingCount: profile.followsCount,
+        postCount: profile.postsCount,
+        lastConnected: new Date(),
+        metadata: {
+          did: profile.did,
+          serviceUrl: this.serviceUrl,
+          banner: profile.banner
+        }
+      };
+    } catch (error) {
+      logger.error('Error fetching Bluesky account details', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error('Failed to fetch account details');
+    }
+  }
+
+  /**
+   * Create a post on Bluesky. `platformSpecificParams.threadParts` posts a
+   * thread of replies after the first post; `replyToPostId` (an at:// URI)
+   * posts the whole thing as a reply.
+   */
+  async createPost(post: PlatformPost): Promise<PostResponse> {
+    try {
+      const threadParts: string[] = post.platformSpecificParams?.threadParts || [];
+      const texts = [post.content, ...threadParts];
+
+      for (const text of texts) {
+        const graphemes = countGraphemes(text);
+        if (graphemes > BLUESKY_MAX_GRAPHEMES) {
+          throw new Error(`Post text is too long: ${graphemes} graphemes (max ${BLUESKY_MAX_GRAPHEMES})`);
+        }
+      }
+
+      const images = (post.attachments || []).filter(attachment =>
+        attachment.type === AttachmentType.IMAGE || attachment.type === AttachmentType.GIF
+      );
+
+      if (images.length > MAX_IMAGES) {
+        throw new Error(`Bluesky posts support at most ${MAX_IMAGES} images`);
+      }
+
+      if (images.length < (post.attachments || []).length) {
+        throw new Error('Only image attachments are supported on Bluesky');
+      }
+
+      let reply: { root: StrongRef; parent: StrongRef } | undefined;
+
+      if (post.replyToPostId) {
+        reply = await this.getReplyRef(post.replyToPostId);
+      }
+
+      // Images go on the first post of a thread
+      const embed = images.length > 0 ? await this.buildImageEmbed(images) : undefined;
+      const created: StrongRef[] = [];
+
+      for (let i = 0; i < texts.length; i++) {
+        const ref = await this.createPostRecord(
+          texts[i],
+          i === 0 ? embed : undefined,
+          reply,
+          post.platformSpecificParams?.langs
+        );
+        created.push(ref);
+
+        reply = { root: reply?.root || ref, parent: ref };
+      }
+
+      const first = created[0];
+
+      return {
+        id: uuidv4(),
+        platformType: this.getPlatformType(),
+        platformPostId: first.uri,
+        url: this.getPostUrl(first.uri),
+        status: 'published' as PostStatus,
+        publishedTime: new Date(),
+        metadata: {
+          cid: first.cid,
+          threadUris: created.map(ref => ref.uri)
+        }
+      };
+    } catch (error: any) {
+      logger.error('Error creating Bluesky post', { error: error.response?.data || error.message });
+      return {
+        id: uuidv4(),
+        platformType: this.getPlatformType(),
+        status: 'failed' as PostStatus,
+        platformPostId: '',
+        errorMessage: error.response?.data?.message || error.message || 'Failed to create post'
+      };
+    }
+  }
+
+  /**
+   * Reply to a post
+   * @param postUri at:// URI of the post to reply to
+   * @param text Reply text
+   */
+  async replyToPost(postUri: string, text: string): Promise<StrongRef> {
+    return this.createPostRecord(text, undefined, await this.getReplyRef(postUri));
+  }
+
+  /**
+   * Upload media to Bluesky
+   * @returns Blob CID
+   */
+  async uploadMedia(attachment: PostAttachment): Promise<string> {
+    const blob = await this.uploadBlob(attachment);
+    return blob.ref.$link;
+  }
+
+  /**
+   * Upload an image as a blob
+   */
+  async uploadBlob(attachment: PostAttachment): Promise<BlueskyBlob> {
+    let buffer: Buffer;
+    let mimeType = attachment.mimeType;
+
+    if (attachment.buffer) {
+      buffer = Buffer.from(attachment.buffer);
+    } else if (attachment.url) {
+      const download = await axios.get(attachment.url, { responseType: 'arraybuffer' });
+      buffer = Buffer.from(download.data);
+      mimeType = mimeType || download.headers['content-type'];
+    } else {
+      throw new Error('No media data available for upload');
+    }
+
+    if (buffer.length > MAX_IMAGE_BYTES) {
+      throw new Error(`Image exceeds the Bluesky size limit of ${MAX_IMAGE_BYTES} bytes`);
+    }
+
+    const accessToken = await this.getAccessToken();
+    const response = await withRateLimit(
+      this.getPlatformType(),
+      this.getDid(),
+      () => axios.post(
+        `${this.serviceUrl}/xrpc/com.atproto.repo.uploadBlob`,
+        buffer,
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': mimeType || 'image/jpeg'
+          },
+          ...publicAgents
+        }
+      )
+    );
+
+    return response.data.blob;
+  }
+
+  /**
+   * Bluesky has no native scheduling; the post is published by the
+   * IriSync scheduler at the scheduled time.
+   */
+  async schedulePost(post: PlatformPost, schedule: PostSchedule): Promise<PostResponse> {
+    return {
+      id: uuidv4(),
+      platformType: this.getPlatformType(),
+      platformPostId: uuidv4(),
+      status: 'scheduled',
+      scheduledTime: new Date(schedule.publishAt),
+      url: '' // No URL until published
+    };
+  }
+
+  /**
+   * Delete a post
+   * @param postId at:// URI of the post
+   */
+  async deletePost(postId: string): Promise<boolean> {
+    try {
+      const { repo, collection, rkey } = parseAtUri(postId);
+
+      await this.xrpcPost('com.atproto.repo.deleteRecord', { repo, collection, rkey });
+
+      return true;
+    } catch (error) {
+      logger.error('Error deleting Bluesky post', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Get a list of posts for the account
+   * @param limit Maximum posts (up to 100)
+   * @param before Pagination cursor from a previous call
+   */
+  async getPosts(limit?: number, before?: string): Promise<PostResponse[]> {
+    try {
+      const data = await this.xrpcGet('app.bsky.feed.getAuthorFeed', {
+        actor: this.getDid(),
+        limit: Math.min(limit || 20, 100),
+        filter: 'posts_no_replies',
+        ...(before ? { cursor: before } : {})
+      });
+
+      return (data.feed || [])
+        .filter((item: any) => !item.reason) // Skip reposts of other accounts' posts
+        .map((item: any) => this.toPostResponse(item.post, data.cursor));
+    } catch (error) {
+      logger.error('Error fetching Bluesky posts', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error('Failed to fetch posts');
+    }
+  }
+
+  /**
+   * Get account metrics and analytics. Bluesky has no analytics API, so
+   * engagement is summed from recent posts.
+   */
+  async getMetrics(startDate: Date, endDate: Date, metrics?: string[]): Promise<PlatformMetrics> {
+    try {
+      const account = await this.getAccountDetails();
+      const postsInRange: PostResponse[] = [];
+      let cursor: string | undefined;
+
+      // Page back through the feed until posts are older than the range
+      for (let page = 0; page < 5; page++) {
+        const posts = await this.getPosts(100, cursor);
+
+        postsInRange.push(...posts.filter(post =>
+          post.publishedTime && post.publishedTime >= startDate && post.publishedTime <= endDate
+        ));
+
+        const oldest = posts[posts.length - 1];
+        cursor = oldest?.metadata?.cursor;
+
+        if (!cursor || !oldest.publishedTime || oldest.publishedTime < startDate) {
+          break;
+        }
+      }
+
+      const totalLikes = postsInRange.reduce((sum, post) => sum + (post.analytics?.likes || 0), 0);
+      const totalComments = postsInRange.reduce((sum, post) => sum + (post.analytics?.comments || 0), 0);
+      const totalShares = postsInRange.reduce((sum, post) => sum + (post.analytics?.shares || 0), 0);
+      const totalEngagements = totalLikes + totalComments + totalShares;
+
+      const followerCount = account.followerCount || 0;
+      const engagementRate = followerCount > 0 && postsInRange.length > 0 ?
+        (totalEngagements / (postsInRange.length * followerCount)) : 0;
+
+      const topPosts = [...postsInRange]
+        .sort((a, b) => (b.analytics?.engagements || 0) - (a.analytics?.engagements || 0))
+        .slice(0, 5);
+
+      return {
+        platformType: this.getPlatformType(),
+        accountId: account.platformId,
+        period: 'custom',
+        startDate,
+        endDate,
+        engagement: {
+          likes: totalLikes,
+          comments: totalComments,
+          shares: totalShares,
+          totalEngagements,
+          engagementRate
+        },
+        audience: {
+          followers: followerCount,
+          followersGained: 0, // No historical follower data
+          followersLost: 0,
+          followersNetGrowth: 0,
+          followersGrowthRate: 0,
+          reach: 0, // Bluesky doesn't provide reach metrics
+          impressions: 0 // Bluesky doesn't provide impression metrics
+        },
+        content: {
+          topPosts: topPosts.map(post => ({
+            postId: post.platformPostId,
+            engagements: post.analytics?.engagements || 0
+          })),
+          postCount: postsInRange.length,
+          averageEngagementPerPost: postsInRange.length > 0 ? totalEngagements / postsInRange.length : 0
+        },
+        metadata: {
+          did: account.platformId,
+          quotes: postsInRange.reduce((sum, post) => sum + (post.metadata?.quoteCount || 0), 0)
+        }
+      };
+    } catch (error) {
+      logger.error('Error fetching Bluesky metrics', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error('Failed to fetch metrics');
+    }
+  }
+
+  /**
+   * List notifications (mentions, replies, quotes, likes, reposts, follows)
+   * @param limit Maximum notifications (up to 100)
+   * @param cursor Pagination cursor
+   */
+  async getNotifications(limit: number = 50, cursor?: string): Promise<{
+    notifications: BlueskyNotification[];
+    cursor?: string;
+  }> {
+    const data = await this.xrpcGet('app.bsky.notification.listNotifications', {
+      limit: Math.min(limit, 100),
+      ...(cursor ? { cursor } : {})
+    });
+
+    return {
+      notifications: data.notifications || [],
+      cursor: data.cursor
+    };
+  }
+
+  /**
+   * Mark notifications up to a time as seen
+   */
+  async updateSeenNotifications(seenAt: Date = new Date()): Promise<void> {
+    await this.xrpcPost('app.bsky.notification.updateSeen', { seenAt: seenAt.toISOString() });
+  }
+
+  /**
+   * Like a post
+   * @param postUri at:// URI of the post
+   * @returns URI of the like record
+   */
+  async likePost(postUri: string): Promise<string> {
+    const subject = await this.getStrongRef(postUri);
+    const result = await this.createRecord('app.bsky.feed.like', { subject });
+    return result.uri;
+  }
+
+  /**
+   * Repost a post
+   * @param postUri at:// URI of the post
+   * @returns URI of the repost record
+   */
+  async repostPost(postUri: string): Promise<string> {
+    const subject = await this.getStrongRef(postUri);
+    const result = await this.createRecord('app.bsky.feed.repost', { subject });
+    return result.uri;
+  }
+
+  /**
+   * Follow an account
+   * @param actor Handle or DID
+   * @returns URI of the follow record
+   */
+  async followUser(actor: string): Promise<string> {
+    const did = actor.startsWith('did:') ? actor : await this.resolveHandle(actor);
+
+    if (!did) {
+      throw new Error(`Could not resolve Bluesky handle: ${actor}`);
+    }
+
+    const result = await this.createRecord('app.bsky.graph.follow', { subject: did });
+    return result.uri;
+  }
+
+  /**
+   * Resolve a handle to a DID
+   * @returns DID, or null if the handle does not exist
+   */
+  async resolveHandle(handle: string): Promise<string | null> {
+    try {
+      const response = await axios.get(
+        `${this.serviceUrl}/xrpc/com.atproto.identity.resolveHandle`,
+        { params: { handle: handle.replace(/^@/, '') }, ...publicAgents }
+      );
+
+      return response.data.did || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Test the connection to ensure API credentials are valid
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.xrpcGet('com.atproto.server.getSession', {});
+      return true;
+    } catch (error) {
+      logger.error('Error testing Bluesky connection', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Revoke authentication tokens by deleting the session
+   */
+  async revokeTokens(): Promise<boolean> {
+    if (!this.authState?.refreshToken) {
+      return true; // Nothing to revoke
+    }
+
+    try {
+      await axios.post(
+        `${this.serviceUrl}/xrpc/com.atproto.server.deleteSession`,
+        undefined,
+        { headers: { 'Authorization': `Bearer ${this.authState.refreshToken}` }, ...publicAgents }
+      );
+
+      this.authState = undefined;
+
+      return true;
+    } catch (error) {
+      logger.error('Error revoking Bluesky session', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Create an app.bsky.feed.post record with facets
+   */
+  private async createPostRecord(
+    text: string,
+    embed?: Record<string, any>,
+    reply?: { root: StrongRef; parent: StrongRef },
+    langs?: string[]
+  ): Promise<StrongRef> {
+    const facets = await buildFacets(text, handle => this.resolveHandle(handle));
+
+    return this.createRecord('app.bsky.feed.post', {
+      text,
+      ...(facets.length > 0 ? { facets } : {}),
+      ...(embed ? { embed } : {}),
+      ...(reply ? { reply } : {}),
+      ...(langs ? { langs } : {})
+    });
+  }
+
+  /**
+   * Create a record in the account's repo
+   */
+  private async createRecord(collection: string, record: Record<string, any>): Promise<StrongRef> {
+    const data = await withRateLimit(
+      this.getPlatformType(),
+      this.getDid(),
+      () => this.xrpcPost('com.atproto.repo.createRecord', {
+        repo: this.getDid(),
+        collection,
+        record: {
+          $type: collection,
+          createdAt: new Date().toISOString(),
+          ...record
+        }
+      })
+    );
+
+    return { uri: data.uri, cid: data.cid };
+  }
+
+  /**
+   * Upload images and build an images embed
+   */
+  private async buildImageEmbed(images: PostAttachment[]): Promise<Record<string, any>> {
+    const embedded = [];
+
+    for (const image of images) {
+      const blob = await this.uploadBlob(image);
+      embedded.push({
+        alt: image.altText || '',
+        image: blob,
+        ...(image.width && image.height ? { aspectRatio: { width: image.width, height: image.height } } : {})
+      });
+    }
+
+    return {
+      $type: 'app.bsky.embed.images',
+      images: embedded
+    };
+  }
+
+  /**
+   * Build the reply reference for replying to a post
+   */
+  private async getReplyRef(postUri: string): Promise<{ root: StrongRef; parent: StrongRef }> {
+    const data = await this.xrpcGet('app.bsky.feed.getPosts', { uris: [postUri] });
+    const parent = data.posts?.[0];
+
+    if (!parent) {
+      throw new Error(`Bluesky post not found: ${postUri}`);
+    }
+
+    const parentRef = { uri: parent.uri, cid: parent.cid };
+
+    return {
+      root: parent.record?.reply?.root || parentRef,
+      parent: parentRef
+    };
+  }
+
+  /**
+   * Look up the CID for a post URI
+   */
+  private async getStrongRef(postUri: string): Promise<StrongRef> {
+    return (await this.getReplyRef(postUri)).parent;
+  }
+
+  /**
+   * Convert a post view to a post response
+   */
+  private toPostResponse(post: any, cursor?: string): PostResponse {
+    const likes = post.likeCount || 0;
+    const comments = post.replyCount || 0;
+    const shares = (post.repostCount || 0) + (post.quoteCount || 0);
+
+    return {
+      id: uuidv4(),
+      platformType: this.getPlatformType(),
+      platformPostId: post.uri,
+      url: this.getPostUrl(post.uri, post.author?.handle),
+      status: 'published' as PostStatus,
+      publishedTime: new Date(post.record?.createdAt || post.indexedAt),
+      analytics: {
+        likes,
+        comments,
+        shares,
+        engagements: likes + comments + shares
+      },
+      metadata: {
+        cid: post.cid,
+        text: post.record?.text,
+        quoteCount: post.quoteCount || 0,
+        cursor
+      }
+    };
+  }
+
+  /**
+   * Build the bsky.app URL for a post URI
+   */
+  private getPostUrl(uri: string, handle?: string): string {
+    const { repo, rkey } = parseAtUri(uri);
+    return `https://bsky.app/profile/${handle || this.authState?.additionalData?.handle || repo}/post/${rkey}`;
+  }
+
+  /**
+   * Get the account DID
+   */
+  private getDid(): string {
+    const did = this.authState?.additionalData?.did;
+
+    if (!did) {
+      throw new Error('Not authenticated');
+    }
+
+    return did;
+  }
+
+  /**
+   * Get a valid access JWT, refreshing the session when it is about to expire
+   */
+  private async getAccessToken(): Promise<string> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+
+    if (this.authState!.expiresAt - REFRESH_MARGIN_SECONDS <= now) {
+      await this.refreshAccessToken();
+    }
+
+    return this.authState!.accessToken;
+  }
+
+  /**
+   * Call an XRPC query
+   */
+  private async xrpcGet(method: string, params: Record<string, any>): Promise<any> {
+    const accessToken = await this.getAccessToken();
+    const response = await axios.get(`${this.serviceUrl}/xrpc/${method}`, {
+      params,
+      // Array params are repeated (uris=a&uris=b), not bracketed
+      paramsSerializer: { indexes: null },
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+      ...publicAgents
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Call an XRPC procedure
+   */
+  private async xrpcPost(method: string, body: Record<string, any>): Promise<any> {
+    const accessToken = await this.getAccessToken();
+    const response = await axios.post(`${this.serviceUrl}/xrpc/${method}`, body, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      ...publicAgents
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Adopt a new session once the PDS its DID document names is checked
+   */
+  private async useSession(authState: AuthState): Promise<AuthState> {
+    const serviceUrl = await checkServiceUrl(authState.additionalData!.serviceUrl);
+
+    this.authState = { ...authState, additionalData: { ...authState.additionalData, serviceUrl } };
+    this.serviceUrl = serviceUrl;
+
+    return this.authState;
+  }
+
+  /**
+   * Convert a session response to an auth state
+   */
+  private toAuthState(session: any, previous?: Record<string, any>): AuthState {
+    // The PDS endpoint is advertised in the DID document
+    const pds = session.didDoc?.service?.find((service: any) => service.id === '#atproto_pds');
+
+    return {
+      accessToken: session.accessJwt,
+      refreshToken: session.refreshJwt,
+      expiresAt: getJwtExpiry(session.accessJwt),
+      tokenType: 'Bearer',
+      additionalData: {
+        ...previous,
+        did: session.did,
+        handle: session.handle,
+        email: session.email,
+        serviceUrl: pds?.serviceEndpoint || previous?.serviceUrl || this.serviceUrl
+      }
+    };
+  }
+}
+
+/**
+ * Require a PDS URL to be a public https host
+ * @returns The URL's origin
+ */
+async function checkServiceUrl(serviceUrl: string): Promise<string> {
+  return (await assertPublicUrl(serviceUrl)).origin;
+}
+
+/**
+ * Parse an at:// URI into repo, collection and record key
+ */
+export function parseAtUri(uri: string): { repo: string; collection: string; rkey: string } {
+  const match = uri.match(/^at:\/\/([^/]+)\/([^/]+)\/([^/]+)$/);
+
+  if (!match) {
+    throw new Error(`Invalid AT URI: ${uri}`);
+  }
+
+  return { repo: match[1], collection: match[2], rkey: match[3] };
+}
+
+/**
+ * Read the expiry (Unix seconds) from a JWT, defaulting to two hours
+ */
+function getJwtExpiry(jwt: string): number {
+  try {
+    const payload = JSON.parse(Buffer.from(jwt.split('.')[1], 'base64').toString('utf8'));
+
+    if (typeof payload.exp === 'number') {
+      return payload.exp;
+    }
+  } catch {
+    // Fall through to the default
+  }
+
+  return Math.floor(Date.now() / 1000) + 2 * 60 * 60;
+}
@@ -0,0 +1,842 @@
+import {
+  AuthState,
+  PlatformCapabilities,
+  PlatformProvider,
+  PlatformProviderConfig,
+  PlatformType
+} from '../PlatformProvider';
+import { SocialAccount } from '../models/account';
+import {
+  AttachmentType,
+  PlatformPost,
+  PostAttachment,
+  PostResponse,
+  PostSchedule,
+  PostStatus
+} from '../models/content';
+import { PlatformMetrics } from '../models/metrics';
+import { withRateLimit } from '../utils/rate-limiter';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+
+// Local posts and reviews are only available in the v4 API
+const MY_BUSINESS_V4_URL = 'https://mybusiness.googleapis.com/v4';
+const ACCOUNT_MANAGEMENT_URL = 'https://mybusinessaccountmanagement.googleapis.com/v1';
+const BUSINESS_INFORMATION_URL = 'https://mybusinessbusinessinformation.googleapis.com/v1';
+const PERFORMANCE_URL = 'https://businessprofileperformance.googleapis.com/v1';
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const MAX_SUMMARY_LENGTH = 1500;
+const MAX_EVENT_TITLE_LENGTH = 58;
+
+/**
+ * Google Business Profile post types. "What's New" is the STANDARD topic.
+ */
+export enum GoogleBusinessPostType {
+  WHATS_NEW = 'STANDARD',
+  EVENT = 'EVENT',
+  OFFER = 'OFFER'
+}
+
+/**
+ * Call to action button types for local posts
+ */
+export type GoogleBusinessActionType = 'BOOK' | 'ORDER' | 'SHOP' | 'LEARN_MORE' | 'SIGN_UP' | 'CALL';
+
+/**
+ * Event schedule, in the location's local time
+ */
+export interface GoogleBusinessEventDetails {
+  title?: string;
+  startDate: string; // YYYY-MM-DD
+  startTime?: string; // HH:mm, omitted for all-day events
+  endDate: string; // YYYY-MM-DD
+  endTime?: string; // HH:mm
+}
+
+/**
+ * Offer details
+ */
+export interface GoogleBusinessOfferDetails {
+  couponCode?: string;
+  redeemOnlineUrl?: string;
+  termsConditions?: string;
+}
+
+/**
+ * A location the connected Google account can manage
+ */
+export interface GoogleBusinessLocation {
+  accountName: string; // accounts/{accountId}
+  locationName: string; // locations/{locationId}
+  title: string;
+  address?: string;
+  websiteUri?: string;
+  mapsUri?: string;
+}
+
+/**
+ * A customer review
+ */
+export interface GoogleBusinessReview {
+  name: string; // accounts/{accountId}/locations/{locationId}/reviews/{reviewId}
+  reviewId: string;
+  reviewer: {
+    displayName?: string;
+    profilePhotoUrl?: string;
+    isAnonymous?: boolean;
+  };
+  starRating: 'ONE' | 'TWO' | 'THREE' | 'FOUR' | 'FIVE' | 'STAR_RATING_UNSPECIFIED';
+  comment?: string;
+  createTime: string;
+  updateTime: string;
+  reviewReply?: {
+    comment: string;
+    updateTime: string;
+  };
+}
+
+const STAR_RATINGS: Record<string, number> = {
+  ONE: 1,
+  TWO: 2,
+  THREE: 3,
+  FOUR: 4,
+  FIVE: 5
+};
+
+/**
+ * Google Business Profile implementation of the Platform Provider.
+ * A connection manages one location; its resource names are kept in
+ * authState.additionalData (`accountName`, `locationName`).
+ * `platformSpecificParams.postType` selects What's New, Event or Offer posts.
+ */
+export class GoogleBusinessProvider extends PlatformProvider {
+  constructor(config: PlatformProviderConfig, authState?: AuthState) {
+    super(config, authState);
+  }
+
+  /**
+   * Returns the platform type
+   */
+  getPlatformType(): PlatformType {
+    return PlatformType.GOOGLE_BUSINESS;
+  }
+
+  /**
+   * Returns platform capabilities
+   */
+  getCapabilities(): PlatformCapabilities {
+    return {
+      supportsImagePosts: true,
+      supportsVideoPosts: false,
+      supportsMultipleImages: false,
+      supportsScheduling: false, // Published by the IriSync scheduler
+      supportsThreads: false,
+      supportsPolls: false,
+      supportsHashtags: false,
+      supportsMentions: false,
+      maxCharacterCount: MAX_SUMMARY_LENGTH,
+      maxHashtagCount: 0,
+      maxMediaAttachments: 1,
+      maxScheduleTimeInDays: 0
+    };
+  }
+
+  /**
+   * Get the current auth state (refreshed tokens replace it)
+   */
+  getAuthState(): AuthState | undefined {
+    return this.authState;
+  }
+
+  /**
+   * Generate OAuth authorization URL for connecting an account
+   */
+  async getAuthorizationUrl(state: string, codeChallenge?: string): Promise<string> {
+    let url = 'https://accounts.google.com/o/oauth2/auth' +
+      `?client_id=${encodeURIComponent(this.config.clientId)}` +
+      `&redirect_uri=${encodeURIComponent(this.config.redirectUri)}` +
+      `&scope=${encodeURIComponent('https://www.googleapis.com/auth/business.manage')}` +
+      `&response_type=code` +
+      `&access_type=offline` +
+      `&state=${encodeURIComponent(state)}` +
+      `&prompt=consent`; // Force consent to get refresh token
+
+    if (codeChallenge) {
+      url += `&code_challenge=${encodeURIComponent(codeChallenge)}` +
+        `&code_challenge_method=S256`;
+    }
+
+    return Promise.resolve(url);
+  }
+
+  /**
+   * Exchange authorization code for access token
+   */
+  async exchangeCodeForToken(code: string, codeVerifier?: string): Promise<AuthState> {
+    try {
+      const params = new URLSearchParams({
+        code,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        redirect_uri: this.config.redirectUri,
+        grant_type: 'authorization_code'
+      });
+
+      if (codeVerifier) {
+        params.append('code_verifier', codeVerifier);
+      }
+
+      const response = await axios.post(TOKEN_URL, params.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+      });
+
+      const data = response.data;
+
+      this.authState = {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token || '',
+        expiresAt: Math.floor(Date.now() / 1000) + data.expires_in,
+        tokenType: data.token_type,
+        scope: data.scope?.split(' ')
+      };
+
+      return this.authState;
+    } catch (error: any) {
+      console.error('Error exchanging Google Business code for token:', error.response?.data || error.message);
+      throw new Error('Failed to exchange authorization code for token');
+    }
+  }
+
+  /**
+   * Refresh the access token if expired
+   */
+  async refreshAccessToken(): Promise<AuthState> {
+    if (!this.authState?.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      const params = new URLSearchParams({
+        refresh_token: this.authState.refreshToken,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        grant_type: 'refresh_token'
+      });
+
+      const response = await axios.post(TOKEN_URL, params.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+      });
+
+      const data = response.data;
+
+      this.authState = {
+        ...this.authState,
+        accessToken: data.access_token,
+        refreshToken: this.authState.refreshToken, // Google doesn't return it on refresh
+        expiresAt: Math.floor(Date.now() / 1000) + data.expires_in,
+        tokenType: data.token_type,
+        scope: data.scope?.split(' ') || this.authState.scope
+      };
+
+      return this.authState;
+    } catch (error: any) {
+      console.error('Error refreshing Google Business token:', error.response?.data || error.message);
+      throw new Error('Failed to refresh access token');
+    }
+  }
+
+  /**
+   * Check if the provider is authenticated
+   */
+  isAuthenticated(): boolean {
+    if (!this.authState?.accessToken) {
+      return false;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    return this.authState.expiresAt > now;
+  }
+
+  /**
+   * Fetch details of the connected location
+   */
+  async getAccountDetails(): Promise<SocialAccount> {
+    try {
+      const { locationName } = this.getLocationNames();
+      const location = await this.apiGet(`${BUSINESS_INFORMATION_URL}/${locationName}`, {
+        readMask: 'name,title,storefrontAddress,websiteUri,metadata,profile'
+      });
+      const reviews = await this.getReviews(1);
+
+      return {
+        id: uuidv4(),
+        platformId: location.name,
+        platformType: this.getPlatformType(),
+        username: location.title,
+        displayName: location.title,
+        profileUrl: location.metadata?.mapsUri,
+        bio: location.profile?.description,
+        isBusinessAccount: true,
+        isConnected: true,
+        hasValidCredentials: true,
+        accountType: 'business',
+        lastConnected: new Date(),
+        metadata: {
+          accountName: this.authState?.additionalData?.accountName,
+          address: formatAddress(location.storefrontAddress),
+          websiteUri: location.websiteUri,
+          newReviewUri: location.metadata?.newReviewUri,
+          averageRating: reviews.averageRating,
+          totalReviewCount: reviews.totalReviewCount
+        }
+      };
+    } catch (error) {
+      console.error('Error fetching Google Business account details:', error);
+      throw new Error('Failed to fetch account details');
+    }
+  }
+
+  /**
+   * List the locations the connected Google account can manage
+   */
+  async getLocations(): Promise<GoogleBusinessLocation[]> {
+    const accounts = await this.apiGet(`${ACCOUNT_MANAGEMENT_URL}/accounts`);
+    const locations: GoogleBusinessLocation[] = [];
+
+    for (const account of accounts.accounts || []) {
+      let pageToken: string | undefined;
+
+      do {
+        const data = await this.apiGet(`${BUSINESS_INFORMATION_URL}/${account.name}/locations`, {
+          readMask: 'name,title,storefrontAddress,websiteUri,metadata',
+          pageSize: 100,
+          ...(pageToken ? { pageToken } : {})
+        });
+
+        locations.push(...(data.locations || []).map((location: any) => ({
+          accountName: account.name,
+          locationName: location.name,
+          title: location.title,
+          address: formatAddress(location.storefrontAddress),
+          websiteUri: location.websiteUri,
+          mapsUri: location.metadata?.mapsUri
+        })));
+
+        pageToken = data.nextPageToken;
+      } while (pageToken);
+    }
+
+    return locations;
+  }
+
+  /**
+   * Create a local post. `platformSpecificParams` may set `postType`
+   * (What's New by default), `event`, `offer`, `callToAction` and
+   * `languageCode`.
+   */
+  async createPost(post: PlatformPost): Promise<PostResponse> {
+    try {
+      const body = this.buildLocalPost(post);
+      const { accountName, locationName } = this.getLocationNames();
+
+      const localPost = await withRateLimit(
+        this.getPlatformType(),
+        locationName,
+        () => this.apiPost(`${MY_BUSINESS_V4_URL}/${accountName}/${locationName}/localPosts`, body)
+      );
+
+      return {
+        id: uuidv4(),
+        platformType: this.getPlatformType(),
+        platformPostId: localPost.name,
+        url: localPost.searchUrl,
+        status: (localPost.state === 'REJECTED' ? 'failed' : 'published') as PostStatus,
+        publishedTime: new Date(localPost.createTime || Date.now()),
+        errorMessage: localPost.state === 'REJECTED' ? 'Post was rejected by Google' : undefined,
+        metadata: {
+          topicType: localPost.topicType,
+          state: localPost.state
+        }
+      };
+    } catch (error: any) {
+      console.error('Error creating Google Business post:', error.response?.data || error.message);
+      return {
+        id: uuidv4(),
+        platformType: this.getPlatformType(),
+        status: 'failed' as PostStatus,
+        platformPostId: '',
+        errorMessage: error.response?.data?.error?.message || error.message || 'Failed to create post'
+      };
+    }
+  }
+
+  /**
+   * Google Business Profile has no scheduling API; the post is published by
+   * the IriSync scheduler at the scheduled time.
+   */
+  async schedulePost(post: PlatformPost, schedule: PostSchedule): Promise<PostResponse> {
+    // Validate now so invalid posts fail at scheduling time
+    this.buildLocalPost(post);
+
+    return {
+      id: uuidv4(),
+      platformType: this.getPlatformType(),
+      platformPostId: uuidv4(),
+      status: 'scheduled',
+      scheduledTime: new Date(schedule.publishAt),
+      url: '' // No URL until published
+    };
+  }
+
+  /**
+   * Delete a local post
+   * @param postId Local post resource name
+   */
+  async deletePost(postId: string): Promise<boolean> {
+    try {
+      const accessToken = await this.getAccessToken();
+      await axios.delete(`${MY_BUSINESS_V4_URL}/${postId}`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` }
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting Google Business post:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get local posts for the location
+   * @param limit Maximum posts (up to 100)
+   * @param before Page token from a previous call
+   */
+  async getPosts(limit?: number, before?: string): Promise<PostResponse[]> {
+    try {
+      const { accountName, locationName } = this.getLocationNames();
+      const data = await this.apiGet(`${MY_BUSINESS_V4_URL}/${accountName}/${locationName}/localPosts`, {
+        pageSize: Math.min(limit || 20, 100),
+        ...(before ? { pageToken: before } : {})
+      });
+
+      return (data.localPosts || []).map((localPost: any) => ({
+        id: uuidv4(),
+        platformType: this.getPlatformType(),
+        platformPostId: localPost.name,
+        url: localPost.searchUrl,
+        status: (localPost.state === 'REJECTED' ? 'failed' : 'published') as PostStatus,
+        publishedTime: new Date(localPost.createTime),
+        metadata: {
+          summary: localPost.summary,
+          topicType: localPost.topicType,
+          state: localPost.state,
+          pageToken: data.nextPageToken
+        }
+      }));
+    } catch (error) {
+      console.error('Error fetching Google Business posts:', error);
+      throw new Error('Failed to fetch posts');
+    }
+  }
+
+  /**
+   * Get location performance from the Business Profile Performance API
+   */
+  async getMetrics(startDate: Date, endDate: Date, metrics?: string[]): Promise<PlatformMetrics> {
+    try {
+      const { locationName } = this.getLocationNames();
+      const dailyMetrics = metrics && metrics.length > 0 ? metrics : [
+        'BUSINESS_IMPRESSIONS_DESKTOP_MAPS',
+        'BUSINESS_IMPRESSIONS_DESKTOP_SEARCH',
+        'BUSINESS_IMPRESSIONS_MOBILE_MAPS',
+        'BUSINESS_IMPRESSIONS_MOBILE_SEARCH',
+        'CALL_CLICKS',
+        'WEBSITE_CLICKS',
+        'BUSINESS_DIRECTION_REQUESTS'
+      ];
+
+      const data = await this.apiGet(`${PERFORMANCE_URL}/${locationName}:fetchMultiDailyMetricsTimeSeries`, {
+        dailyMetrics,
+        'dailyRange.startDate.year': startDate.getUTCFullYear(),
+        'dailyRange.startDate.month': startDate.getUTCMonth() + 1,
+        'dailyRange.startDate.day': startDate.getUTCDate(),
+        'dailyRange.endDate.year': endDate.getUTCFullYear(),
+        'dailyRange.endDate.month': endDate.getUTCMonth() + 1,
+        'dailyRange.endDate.day': endDate.getUTCDate()
+      });
+
+      const totals: Record<string, number> = {};
+
+      for (const series of data.multiDailyMetricTimeSeries || []) {
+        for (const metric of series.dailyMetricTimeSeries || []) {
+          totals[metric.dailyMetric] = (metric.timeSeries?.datedValues || [])
+            .reduce((sum: number, value: any) => sum + (parseInt(value.value, 10) || 0), totals[metric.dailyMetric] || 0);
+        }
+      }
+
+      const impressions = Object.keys(totals)
+        .filter(key => key.startsWith('BUSINESS_IMPRESSIONS_'))
+        .reduce((sum, key) => sum + totals[key], 0);
+      const clicks = (totals.CALL_CLICKS || 0) + (totals.WEBSITE_CLICKS || 0) + (totals.BUSINESS_DIRECTION_REQUESTS || 0);
+
+      return {
+        platformType: this.getPlatformType(),
+        accountId: locationName,
+        period: 'custom',
+        startDate,
+        endDate,
+        engagement: {
+          likes: 0,
+          comments: 0,
+          shares: 0,
+          clicks,
+          totalEngagements: clicks,
+          engagementRate: impressions > 0 ? clicks / impressions : 0
+        },
+        audience: {
+          followers: 0, // Business Profiles have no followers
+          followersGained: 0,
+          followersLost: 0,
+          followersNetGrowth: 0,
+          followersGrowthRate: 0,
+          reach: 0,
+          impressions
+        },
+        content: {
+          topPosts: [], // No per-post insights
+          postCount: 0,
+          averageEngagementPerPost: 0
+        },
+        metadata: {
+          callClicks: totals.CALL_CLICKS || 0,
+          websiteClicks: totals.WEBSITE_CLICKS || 0,
+          directionRequests: totals.BUSINESS_DIRECTION_REQUESTS || 0,
+          dailyMetrics: totals
+        }
+      };
+    } catch (error) {
+      console.error('Error fetching Google Business metrics:', error);
+      throw new Error('Failed to fetch metrics');
+    }
+  }
+
+  /**
+   * Local post photos are referenced by URL, so uploads just validate the
+   * attachment
+   * @returns Public URL of the photo
+   */
+  async uploadMedia(media: PostAttachment): Promise<string> {
+    if (media.type !== AttachmentType.IMAGE) {
+      throw new Error('Google Business posts only support photos');
+    }
+
+    if (!media.url) {
+      throw new Error('Google Business photos must have a public URL');
+    }
+
+    return media.url;
+  }
+
+  /**
+   * List reviews for the location, newest first
+   * @param pageSize Maximum reviews (up to 50)
+   * @param pageToken Page token from a previous call
+   */
+  async getReviews(pageSize: number = 50, pageToken?: string): Promise<{
+    reviews: GoogleBusinessReview[];
+    averageRating?: number;
+    totalReviewCount?: number;
+    nextPageToken?: string;
+  }> {
+    const { accountName, locationName } = this.getLocationNames();
+    const data = await this.apiGet(`${MY_BUSINESS_V4_URL}/${accountName}/${locationName}/reviews`, {
+      pageSize: Math.min(pageSize, 50),
+      orderBy: 'updateTime desc',
+      ...(pageToken ? { pageToken } : {})
+    });
+
+    return {
+      reviews: data.reviews || [],
+      averageRating: data.averageRating,
+      totalReviewCount: data.totalReviewCount,
+      nextPageToken: data.nextPageToken
+    };
+  }
+
+  /**
+   * Reply to a review, replacing any existing reply
+   * @param reviewName Review resource name or review ID
+   * @param comment Reply text
+   */
+  async replyToReview(reviewName: string, comment: string): Promise<string> {
+    const name = this.getReviewName(reviewName);
+    const accessToken = await this.getAccessToken();
+
+    await withRateLimit(
+      this.getPlatformType(),
+      this.getLocationNames().locationName,
+      () => axios.put(`${MY_BUSINESS_V4_URL}/${name}/reply`, { comment }, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      })
+    );
+
+    return `${name}/reply`;
+  }
+
+  /**
+   * Delete the reply to a review
+   * @param reviewName Review resource name or review ID
+   */
+  async deleteReviewReply(reviewName: string): Promise<boolean> {
+    try {
+      const accessToken = await this.getAccessToken();
+      await axios.delete(`${MY_BUSINESS_V4_URL}/${this.getReviewName(reviewName)}/reply`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` }
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting Google Business review reply:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Test the connection to ensure API credentials are valid
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.apiGet(`${ACCOUNT_MANAGEMENT_URL}/accounts`);
+      return true;
+    } catch (error) {
+      console.error('Error testing Google Business connection:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Revoke authentication tokens
+   */
+  async revokeTokens(): Promise<boolean> {
+    if (!this.authState?.accessToken) {
+      return true; // Nothing to revoke
+    }
+
+    try {
+      await axios.post(
+        'https://oauth2.googleapis.com/revoke',
+        new URLSearchParams({ token: this.authState.refreshToken || this.authState.accessToken }).toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+      );
+
+      this.authState = undefined;
+
+      return true;
+    } catch (error) {
+      console.error('Error revoking Google Business token:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Build and validate a local post body
+   */
+  private buildLocalPost(post: PlatformPost): Record<string, any> {
+    const params = post.platformSpecificParams || {};
+    const postType: GoogleBusinessPostType = params.postType || GoogleBusinessPostType.WHATS_NEW;
+
+    if (!Object.values(GoogleBusinessPostType).includes(postType)) {
+      throw new Error(`Unsupported Google Business post type: ${postType}`);
+    }
+
+    if (post.content.length > MAX_SUMMARY_LENGTH) {
+      throw new Error(`Post text is too long: ${post.content.length} characters (max ${MAX_SUMMARY_LENGTH})`);
+    }
+
+    const attachments = post.attachments || [];
+
+    if (attachments.length > 1) {
+      throw new Error('Google Business posts support at most 1 photo');
+    }
+
+    const body: Record<string, any> = {
+      languageCode: params.languageCode || 'en-US',
+      summary: post.content,
+      topicType: postType
+    };
+
+    if (attachments.length === 1) {
+      if (attachments[0].type !== AttachmentType.IMAGE || !attachments[0].url) {
+        throw new Error('Google Business posts only support photos with a public URL');
+      }
+
+      body.media = [{ mediaFormat: 'PHOTO', sourceUrl: attachments[0].url }];
+    }
+
+    if (postType === GoogleBusinessPostType.EVENT || postType === GoogleBusinessPostType.OFFER) {
+      const event: GoogleBusinessEventDetails | undefined = params.event;
+      const title = event?.title || post.title;
+
+      if (!event || !title) {
+        throw new Error(`Validation failed: ${postType.toLowerCase()} posts require a title and schedule`);
+      }
+
+      if (title.length > MAX_EVENT_TITLE_LENGTH) {
+        throw new Error(`Event title is too long: ${title.length} characters (max ${MAX_EVENT_TITLE_LENGTH})`);
+      }
+
+      body.event = {
+        title,
+        schedule: {
+          startDate: toGoogleDate(event.startDate),
+          endDate: toGoogleDate(event.endDate),
+          ...(event.startTime ? { startTime: toGoogleTime(event.startTime) } : {}),
+          ...(event.endTime ? { endTime: toGoogleTime(event.endTime) } : {})
+        }
+      };
+    }
+
+    if (postType === GoogleBusinessPostType.OFFER) {
+      const offer: GoogleBusinessOfferDetails = params.offer || {};
+
+      body.offer = {
+        ...(offer.couponCode ? { couponCode: offer.couponCode } : {}),
+        ...(offer.redeemOnlineUrl ? { redeemOnlineUrl: offer.redeemOnlineUrl } : {}),
+        ...(offer.termsConditions ? { termsConditions: offer.termsConditions } : {})
+      };
+    } else {
+      // Offers use redeemOnlineUrl instead of a button
+      const callToAction: { actionType: GoogleBusinessActionType; url?: string } | undefined = params.callToAction ||
+        (post.links?.[0] ? { actionType: 'LEARN_MORE', url: post.links[0] } : undefined);
+
+      if (callToAction) {
+        if (callToAction.actionType !== 'CALL' && !callToAction.url) {
+          throw new Error(`Validation failed: ${callToAction.actionType} buttons require a URL`);
+        }
+
+        body.callToAction = callToAction.actionType === 'CALL' ?
+          { actionType: 'CALL' } :
+          { actionType: callToAction.actionType, url: callToAction.url };
+      }
+    }
+
+    return body;
+  }
+
+  /**
+   * Get the resource names of the connected location
+   */
+  private getLocationNames(): { accountName: string; locationName: string } {
+    const accountName = this.authState?.additionalData?.accountName;
+    const locationName = this.authState?.additionalData?.locationName;
+
+    if (!accountName || !locationName) {
+      throw new Error('No Google Business location selected for this connection');
+    }
+
+    return { accountName, locationName };
+  }
+
+  /**
+   * Expand a review ID to its resource name
+   */
+  private getReviewName(reviewName: string): string {
+    if (reviewName.startsWith('accounts/')) {
+      return reviewName;
+    }
+
+    const { accountName, locationName } = this.getLocationNames();
+    return `${accountName}/${locationName}/reviews/${reviewName}`;
+  }
+
+  /**
+   * Get a valid access token, refreshing it when expired
+   */
+  private async getAccessToken(): Promise<string> {
+    if (!this.isAuthenticated()) {
+      if (!this.authState?.refreshToken) {
+        throw new Error('Not authenticated');
+      }
+
+      await this.refreshAccessToken();
+    }
+
+    return this.authState!.accessToken;
+  }
+
+  private async apiGet(url: string, params?: Record<string, any>): Promise<any> {
+    const accessToken = await this.getAccessToken();
+    const response = await axios.get(url, {
+      params,
+      // Repeated params (dailyMetrics=a&dailyMetrics=b), not bracketed
+      paramsSerializer: { indexes: null },
+      headers: { 'Authorization': `Bearer ${accessToken}` }
+    });
+
+    return response.data;
+  }
+
+  private async apiPost(url: string, body: Record<string, any>): Promise<any> {
+    const accessToken = await this.getAccessToken();
+    const response = await axios.post(url, body, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    return response.data;
+  }
+}
+
+/**
+ * Convert a review's star rating to a number (0 when unspecified)
+ */
+export function getStarRating(review: Pick<GoogleBusinessReview, 'starRating'>): number {
+  return STAR_RATINGS[review.starRating] || 0;
+}
+
+/**
+ * Convert YYYY-MM-DD to a Google date
+ */
+function toGoogleDate(value: string): { year: number; month: number; day: number } {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || '');
+
+  if (!match) {
+    throw new Error(`Validation failed: invalid date "${value}" (expected YYYY-MM-DD)`);
+  }
+
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+/**
+ * Convert HH:mm to a Google time of day
+ */
+function toGoogleTime(value: string): { hours: number; minutes: number } {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+
+  if (!match) {
+    throw new Error(`Validation failed: invalid time "${value}" (expected HH:mm)`);
+  }
+
+  return { hours: Number(match[1]), minutes: Number(match[2]) };
+}
+
+/**
+ * Format a postal address on one line
+ */
+function formatAddress(address: any): string | undefined {
+  if (!address) {
+    return undefined;
+  }
+
+  return [
+    ...(address.addressLines || []),
+    address.locality,
+    address.administrativeArea,
+    address.postalCode
+  ].filter(Boolean).join(', ');
+}
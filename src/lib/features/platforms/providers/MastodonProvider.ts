@@ -399,6 +399,29 @@ export class MastodonProvider extends PlatformProvider {
       
       const status = response.data;
       
+      // Post the rest of a thread as a reply chain
+      const threadIds: string[] = [status.id];
+      const threadParts: string[] = post.isThreaded ? post.platformSpecificParams?.threadParts || [] : [];
+      
+      for (const part of threadParts) {
+        const replyResponse = await axios.post(
+          `${this.baseUrl}/statuses`,
+          {
+            status: part,
+            visibility: statusParams.visibility,
+            in_reply_to_id: threadIds[threadIds.length - 1],
+            ...(statusParams.language ? { language: statusParams.language } : {})
+          },
+          {
+            headers: {
+              'Authorization': `Bearer ${this.authState!.accessToken}`,
+              'Content-Type': 'application/json'
+            }
+          }
+        );
+        threadIds.push(replyResponse.data.id);
+      }
+      
       // Format the response
       return {
         id: uuidv4(),
@@ -413,7 +436,8 @@ export class MastodonProvider extends PlatformProvider {
           shares: status.reblogs_count || 0
         },
         metadata: {
-          mastodonData: status
+          mastodonData: status,
+          ...(threadIds.length > 1 ? { threadIds } : {})
         }
       };
     } catch (error: any) {
@@ -592,6 +616,29 @@ export class MastodonProvider extends PlatformProvider {
       
       const status = response.data;
       
+      // Post the rest of a thread as a reply chain
+      const threadIds: string[] = [status.id];
+      const threadParts: string[] = post.isThreaded ? post.platformSpecificParams?.threadParts || [] : [];
+      
+      for (const part of threadParts) {
+        const replyResponse = await axios.post(
+          `${this.baseUrl}/statuses`,
+          {
+            status: part,
+            visibility: statusParams.visibility,
+            in_reply_to_id: threadIds[threadIds.length - 1],
+            ...(statusParams.language ? { language: statusParams.language } : {})
+          },
+          {
+            headers: {
+              'Authorization': `Bearer ${this.authState!.accessToken}`,
+              'Content-Type': 'application/json'
+            }
+          }
+        );
+        threadIds.push(replyResponse.data.id);
+      }
+      
       // Format the response
       return {
         id: uuidv4(),
@@ -0,0 +1,700 @@
+import {
+  AuthState,
+  PlatformCapabilities,
+  PlatformProvider,
+  PlatformProviderConfig,
+  PlatformType
+} from '../PlatformProvider';
+import { SocialAccount } from '../models/account';
+import {
+  AttachmentType,
+  PlatformPost,
+  PostAttachment,
+  PostResponse,
+  PostSchedule,
+  PostStatus
+} from '../models/content';
+import { PlatformMetrics } from '../models/metrics';
+import { withRateLimit } from '../utils/rate-limiter';
+import axios from 'axios';
+import FormData from 'form-data';
+import { v4 as uuidv4 } from 'uuid';
+
+const API_URL = 'https://api.pinterest.com/v5';
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_LINK_LENGTH = 2048;
+const MAX_CAROUSEL_IMAGES = 5;
+// Video processing is polled for up to 5 minutes
+const MEDIA_POLL_INTERVAL_MS = 5000;
+const MEDIA_POLL_ATTEMPTS = 60;
+
+/**
+ * A Pinterest board
+ */
+export interface PinterestBoard {
+  id: string;
+  name: string;
+  description?: string;
+  privacy: 'PUBLIC' | 'PROTECTED' | 'SECRET' | string;
+  pinCount?: number;
+}
+
+/**
+ * A section within a Pinterest board
+ */
+export interface PinterestBoardSection {
+  id: string;
+  name: string;
+}
+
+/**
+ * Pinterest API v5 implementation of the Platform Provider.
+ * Pins are created on a board chosen per post
+ * (`platformSpecificParams.boardId`) or the account's default board
+ * (`authState.additionalData.defaultBoardId`).
+ */
+export class PinterestProvider extends PlatformProvider {
+  private baseUrl: string;
+
+  constructor(config: PlatformProviderConfig, authState?: AuthState) {
+    super(config, authState);
+    this.baseUrl = config.baseUrl || API_URL;
+  }
+
+  /**
+   * Returns the platform type
+   */
+  getPlatformType(): PlatformType {
+    return PlatformType.PINTEREST;
+  }
+
+  /**
+   * Returns platform capabilities
+   */
+  getCapabilities(): PlatformCapabilities {
+    return {
+      supportsImagePosts: true,
+      supportsVideoPosts: true,
+      supportsMultipleImages: true, // Carousel pins
+      supportsScheduling: false, // Published by the IriSync scheduler
+      supportsThreads: false,
+      supportsPolls: false,
+      supportsHashtags: true,
+      supportsMentions: false,
+      maxCharacterCount: MAX_DESCRIPTION_LENGTH, // Pin description limit
+      maxHashtagCount: 20,
+      maxMediaAttachments: MAX_CAROUSEL_IMAGES,
+      maxScheduleTimeInDays: 0
+    };
+  }
+
+  /**
+   * Get the current auth state (refreshed tokens replace it)
+   */
+  getAuthState(): AuthState | undefined {
+    return this.authState;
+  }
+
+  /**
+   * Generate OAuth authorization URL for connecting an account
+   */
+  async getAuthorizationUrl(state: string, codeChallenge?: string): Promise<string> {
+    const scopes = [
+      'boards:read',
+      'boards:write',
+      'pins:read',
+      'pins:write',
+      'user_accounts:read'
+    ];
+
+    return Promise.resolve('https://www.pinterest.com/oauth/' +
+      `?client_id=${encodeURIComponent(this.config.clientId)}` +
+      `&redirect_uri=${encodeURIComponent(this.config.redirectUri)}` +
+      `&response_type=code` +
+      `&scope=${encodeURIComponent(scopes.join(','))}` +
+      `&state=${encodeURIComponent(state)}`);
+  }
+
+  /**
+   * Exchange authorization code for access token
+   */
+  async exchangeCodeForToken(code: string, codeVerifier?: string): Promise<AuthState> {
+    try {
+      const data = await this.requestToken({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.config.redirectUri
+      });
+
+      this.authState = this.toAuthState(data);
+
+      return this.authState;
+    } catch (error: any) {
+      console.error('Error exchanging Pinterest code for token:', error.response?.data || error.message);
+      throw new Error('Failed to exchange authorization code for token');
+    }
+  }
+
+  /**
+   * Refresh the access token if expired
+   */
+  async refreshAccessToken(): Promise<AuthState> {
+    if (!this.authState?.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      const data = await this.requestToken({
+        grant_type: 'refresh_token',
+        refresh_token: this.authState.refreshToken
+      });
+
+      this.authState = this.toAuthState(data, this.authState);
+
+      return this.authState;
+    } catch (error: any) {
+      console.error('Error refreshing Pinterest access token:', error.response?.data || error.message);
+      throw new Error('Failed to refresh access token');
+    }
+  }
+
+  /**
+   * Check if the provider is authenticated
+   */
+  isAuthenticated(): boolean {
+    if (!this.authState?.accessToken) {
+      return false;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    return this.authState.expiresAt > now;
+  }
+
+  /**
+   * Fetch account details
+   */
+  async getAccountDetails(): Promise<SocialAccount> {
+    try {
+      const account = await this.apiGet('/user_account');
+
+      return {
+        id: uuidv4(),
+        platformId: account.id || account.username,
+        platformType: this.getPlatformType(),
+        username: account.username,
+        displayName: account.business_name || account.username,
+        profilePictureUrl: account.profile_image,
+        profileUrl: `https://www.pinterest.com/${account.username}/`,
+        bio: account.about,
+        isBusinessAccount: account.account_type === 'BUSINESS',
+        isConnected: true,
+        hasValidCredentials: true,
+        accountType: account.account_type === 'BUSINESS' ? 'business' : 'personal',
+        followerCount: account.follower_count || 0,
+        followingCount: account.following_count || 0,
+        postCount: account.pin_count || 0,
+        lastConnected: new Date(),
+        metadata: {
+          websiteUrl: account.website_url,
+          boardCount: account.board_count,
+          monthlyViews: account.monthly_views,
+          defaultBoardId: this.authState?.additionalData?.defaultBoardId
+        }
+      };
+    } catch (error) {
+      console.error('Error fetching Pinterest account details:', error);
+      throw new Error('Failed to fetch account details');
+    }
+  }
+
+  /**
+   * List the account's boards
+   */
+  async getBoards(): Promise<PinterestBoard[]> {
+    const boards: PinterestBoard[] = [];
+    let bookmark: string | undefined;
+
+    // Boards are paged 100 at a time; stop after 1000
+    for (let page = 0; page < 10; page++) {
+      const data = await this.apiGet('/boards', {
+        page_size: 100,
+        ...(bookmark ? { bookmark } : {})
+      });
+
+      boards.push(...(data.items || []).map((board: any) => ({
+        id: board.id,
+        name: board.name,
+        description: board.description,
+        privacy: board.privacy,
+        pinCount: board.pin_count
+      })));
+
+      bookmark = data.bookmark;
+
+      if (!bookmark) {
+        break;
+      }
+    }
+
+    return boards;
+  }
+
+  /**
+   * List the sections of a board
+   */
+  async getBoardSections(boardId: string): Promise<PinterestBoardSection[]> {
+    const data = await this.apiGet(`/boards/${encodeURIComponent(boardId)}/sections`, { page_size: 100 });
+
+    return (data.items || []).map((section: any) => ({
+      id: section.id,
+      name: section.name
+    }));
+  }
+
+  /**
+   * Create a Pin. The board comes from `platformSpecificParams.boardId`
+   * (optionally with `boardSectionId`) or the account's default board, and
+   * the destination link from `platformSpecificParams.link` or the first
+   * entry in `links`.
+   */
+  async createPost(post: PlatformPost): Promise<PostResponse> {
+    try {
+      const params = post.platformSpecificParams || {};
+      const boardId: string | undefined = params.boardId || this.authState?.additionalData?.defaultBoardId;
+      const link: string | undefined = params.link || post.links?.[0];
+      const title = post.title || params.title;
+
+      if (!boardId) {
+        throw new Error('Validation failed: a Pinterest board is required to create a Pin');
+      }
+
+      if (title && title.length > MAX_TITLE_LENGTH) {
+        throw new Error(`Pin title is too long: ${title.length} characters (max ${MAX_TITLE_LENGTH})`);
+      }
+
+      if (post.content.length > MAX_DESCRIPTION_LENGTH) {
+        throw new Error(`Pin description is too long: ${post.content.length} characters (max ${MAX_DESCRIPTION_LENGTH})`);
+      }
+
+      if (link && link.length > MAX_LINK_LENGTH) {
+        throw new Error(`Pin link is too long: ${link.length} characters (max ${MAX_LINK_LENGTH})`);
+      }
+
+      const mediaSource = await this.buildMediaSource(post.attachments || [], params.coverImageUrl);
+
+      const pin = await withRateLimit(
+        this.getPlatformType(),
+        this.getAccountKey(),
+        () => this.apiPost('/pins', {
+          board_id: boardId,
+          ...(params.boardSectionId ? { board_section_id: params.boardSectionId } : {}),
+          ...(title ? { title } : {}),
+          description: post.content,
+          ...(link ? { link } : {}),
+          ...(post.attachments?.[0]?.altText ? { alt_text: post.attachments[0].altText } : {}),
+          media_source: mediaSource
+        })
+      );
+
+      return {
+        id: uuidv4(),
+        platformType: this.getPlatformType(),
+        platformPostId: pin.id,
+        url: `https://www.pinterest.com/pin/${pin.id}/`,
+        status: 'published' as PostStatus,
+        publishedTime: new Date(pin.created_at || Date.now()),
+        metadata: {
+          boardId,
+          boardSectionId: params.boardSectionId,
+          link
+        }
+      };
+    } catch (error: any) {
+      console.error('Error creating Pinterest pin:', error.response?.data || error.message);
+      return {
+        id: uuidv4(),
+        platformType: this.getPlatformType(),
+        status: 'failed' as PostStatus,
+        platformPostId: '',
+        errorMessage: error.response?.data?.message || error.message || 'Failed to create pin'
+      };
+    }
+  }
+
+  /**
+   * Pinterest has no scheduling API for standard accounts; the pin is
+   * published by the IriSync scheduler at the scheduled time.
+   */
+  async schedulePost(post: PlatformPost, schedule: PostSchedule): Promise<PostResponse> {
+    return {
+      id: uuidv4(),
+      platformType: this.getPlatformType(),
+      platformPostId: uuidv4(),
+      status: 'scheduled',
+      scheduledTime: new Date(schedule.publishAt),
+      url: '' // No URL until published
+    };
+  }
+
+  /**
+   * Delete a Pin
+   */
+  async deletePost(postId: string): Promise<boolean> {
+    try {
+      const accessToken = await this.getAccessToken();
+      await axios.delete(`${this.baseUrl}/pins/${encodeURIComponent(postId)}`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` }
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting Pinterest pin:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get a list of Pins for the account
+   * @param limit Maximum pins (up to 250)
+   * @param before Bookmark from a previous call
+   */
+  async getPosts(limit?: number, before?: string): Promise<PostResponse[]> {
+    try {
+      const data = await this.apiGet('/pins', {
+        page_size: Math.min(limit || 25, 250),
+        ...(before ? { bookmark: before } : {})
+      });
+
+      return (data.items || []).map((pin: any) => ({
+        id: uuidv4(),
+        platformType: this.getPlatformType(),
+        platformPostId: pin.id,
+        url: `https://www.pinterest.com/pin/${pin.id}/`,
+        status: 'published' as PostStatus,
+        publishedTime: new Date(pin.created_at),
+        metadata: {
+          title: pin.title,
+          description: pin.description,
+          link: pin.link,
+          boardId: pin.board_id,
+          boardSectionId: pin.board_section_id,
+          bookmark: data.bookmark
+        }
+      }));
+    } catch (error) {
+      console.error('Error fetching Pinterest pins:', error);
+      throw new Error('Failed to fetch posts');
+    }
+  }
+
+  /**
+   * Get account analytics. Pinterest keeps 90 days of analytics.
+   */
+  async getMetrics(startDate: Date, endDate: Date, metrics?: string[]): Promise<PlatformMetrics> {
+    try {
+      const account = await this.getAccountDetails();
+      const data = await this.apiGet('/user_account/analytics', {
+        start_date: toDateString(startDate),
+        end_date: toDateString(endDate),
+        metric_types: (metrics && metrics.length > 0 ?
+          metrics :
+          ['IMPRESSION', 'ENGAGEMENT', 'SAVE', 'PIN_CLICK', 'OUTBOUND_CLICK']
+        ).join(',')
+      });
+
+      const topPins = await this.apiGet('/user_account/analytics/top_pins', {
+        start_date: toDateString(startDate),
+        end_date: toDateString(endDate),
+        sort_by: 'ENGAGEMENT',
+        metric_types: 'ENGAGEMENT,IMPRESSION',
+        num_of_pins: 5
+      });
+
+      const summary = data.all?.summary_metrics || {};
+      const saves = summary.SAVE || 0;
+      const pinClicks = summary.PIN_CLICK || 0;
+      const outboundClicks = summary.OUTBOUND_CLICK || 0;
+      const impressions = summary.IMPRESSION || 0;
+      const totalEngagements = summary.ENGAGEMENT || saves + pinClicks + outboundClicks;
+
+      return {
+        platformType: this.getPlatformType(),
+        accountId: account.platformId,
+        period: 'custom',
+        startDate,
+        endDate,
+        engagement: {
+          likes: 0, // Pinterest reports saves rather than likes
+          comments: 0,
+          shares: 0,
+          saves,
+          clicks: pinClicks + outboundClicks,
+          totalEngagements,
+          engagementRate: summary.ENGAGEMENT_RATE || (impressions > 0 ? totalEngagements / impressions : 0)
+        },
+        audience: {
+          followers: account.followerCount || 0,
+          followersGained: 0, // No historical follower data
+          followersLost: 0,
+          followersNetGrowth: 0,
+          followersGrowthRate: 0,
+          reach: 0,
+          impressions
+        },
+        content: {
+          topPosts: (topPins.pins || []).map((pin: any) => ({
+            postId: pin.pin_id,
+            engagements: pin.metrics?.ENGAGEMENT || 0,
+            impressions: pin.metrics?.IMPRESSION || 0
+          })),
+          postCount: 0, // Pinterest analytics are not broken down by pins created in the period
+          averageEngagementPerPost: 0
+        },
+        metadata: {
+          pinClicks,
+          outboundClicks,
+          dailyMetrics: data.all?.daily_metrics || []
+        }
+      };
+    } catch (error) {
+      console.error('Error fetching Pinterest metrics:', error);
+      throw new Error('Failed to fetch metrics');
+    }
+  }
+
+  /**
+   * Upload a video for use in a Pin
+   * @returns Pinterest media ID, ready to pin
+   */
+  async uploadMedia(attachment: PostAttachment): Promise<string> {
+    if (attachment.type !== AttachmentType.VIDEO) {
+      throw new Error('Only videos are uploaded to Pinterest; images are pinned by URL');
+    }
+
+    let buffer: Buffer;
+
+    if (attachment.buffer) {
+      buffer = Buffer.from(attachment.buffer);
+    } else if (attachment.url) {
+      const download = await axios.get(attachment.url, { responseType: 'arraybuffer' });
+      buffer = Buffer.from(download.data);
+    } else {
+      throw new Error('No media data available for upload');
+    }
+
+    // Register the upload, send the file to the returned URL, then wait for processing
+    const registration = await this.apiPost('/media', { media_type: 'video' });
+    const form = new FormData();
+
+    for (const [key, value] of Object.entries(registration.upload_parameters || {})) {
+      form.append(key, value as string);
+    }
+    form.append('file', buffer, { filename: 'video.mp4', contentType: attachment.mimeType || 'video/mp4' });
+
+    await axios.post(registration.upload_url, form, {
+      headers: form.getHeaders(),
+      maxBodyLength: Infinity
+    });
+
+    for (let attempt = 0; attempt < MEDIA_POLL_ATTEMPTS; attempt++) {
+      const media = await this.apiGet(`/media/${registration.media_id}`);
+
+      if (media.status === 'succeeded') {
+        return registration.media_id;
+      }
+
+      if (media.status === 'failed') {
+        throw new Error('Pinterest video processing failed');
+      }
+
+      await new Promise(resolve => setTimeout(resolve, MEDIA_POLL_INTERVAL_MS));
+    }
+
+    throw new Error('Pinterest video processing timed out');
+  }
+
+  /**
+   * Test the connection to ensure API credentials are valid
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.apiGet('/user_account');
+      return true;
+    } catch (error) {
+      console.error('Error testing Pinterest connection:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Pinterest has no token revocation endpoint; access is removed by
+   * discarding the tokens (users can also disconnect the app in Pinterest).
+   */
+  async revokeTokens(): Promise<boolean> {
+    this.authState = undefined;
+    return true;
+  }
+
+  /**
+   * Build the media source for a Pin from its attachments
+   */
+  private async buildMediaSource(attachments: PostAttachment[], coverImageUrl?: string): Promise<Record<string, any>> {
+    if (attachments.length === 0) {
+      throw new Error('Validation failed: a Pin requires an image or video');
+    }
+
+    const videos = attachments.filter(attachment => attachment.type === AttachmentType.VIDEO);
+
+    if (videos.length > 0) {
+      if (attachments.length > 1) {
+        throw new Error('Video Pins support a single video attachment');
+      }
+
+      const cover = coverImageUrl || videos[0].thumbnailUrl;
+
+      if (!cover) {
+        throw new Error('Validation failed: video Pins require a cover image');
+      }
+
+      return {
+        source_type: 'video_id',
+        media_id: await this.uploadMedia(videos[0]),
+        cover_image_url: cover
+      };
+    }
+
+    if (attachments.length > MAX_CAROUSEL_IMAGES) {
+      throw new Error(`Pinterest carousels support at most ${MAX_CAROUSEL_IMAGES} images`);
+    }
+
+    if (attachments.length > 1) {
+      return {
+        source_type: 'multiple_image_urls',
+        items: attachments.map(attachment => ({
+          url: requireUrl(attachment),
+          ...(attachment.title ? { title: attachment.title } : {}),
+          ...(attachment.altText ? { description: attachment.altText } : {})
+        }))
+      };
+    }
+
+    const image = attachments[0];
+
+    if (!image.url && image.buffer) {
+      return {
+        source_type: 'image_base64',
+        content_type: image.mimeType || 'image/jpeg',
+        data: Buffer.from(image.buffer).toString('base64')
+      };
+    }
+
+    return {
+      source_type: 'image_url',
+      url: requireUrl(image)
+    };
+  }
+
+  /**
+   * Call the token endpoint with HTTP basic client authentication
+   */
+  private async requestToken(params: Record<string, string>): Promise<any> {
+    const credentials = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
+    const response = await axios.post(
+      `${this.baseUrl}/oauth/token`,
+      new URLSearchParams(params).toString(),
+      {
+        headers: {
+          'Authorization': `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        }
+      }
+    );
+
+    return response.data;
+  }
+
+  /**
+   * Convert a token response to an auth state
+   */
+  private toAuthState(data: any, previous?: AuthState): AuthState {
+    const now = Math.floor(Date.now() / 1000);
+
+    return {
+      accessToken: data.access_token,
+      // Pinterest only returns a new refresh token when it is close to expiring
+      refreshToken: data.refresh_token || previous?.refreshToken,
+      expiresAt: now + (data.expires_in || 30 * 24 * 60 * 60),
+      tokenType: data.token_type || 'bearer',
+      scope: data.scope ? String(data.scope).split(/[ ,]/) : previous?.scope,
+      additionalData: {
+        ...previous?.additionalData,
+        ...(data.refresh_token_expires_in ?
+          { refreshTokenExpiresAt: now + data.refresh_token_expires_in } :
+          {})
+      }
+    };
+  }
+
+  /**
+   * Key used for rate limiting this account
+   */
+  private getAccountKey(): string {
+    return this.authState?.additionalData?.userId || this.config.clientId;
+  }
+
+  /**
+   * Get a valid access token, refreshing it when expired
+   */
+  private async getAccessToken(): Promise<string> {
+    if (!this.isAuthenticated()) {
+      if (!this.authState?.refreshToken) {
+        throw new Error('Not authenticated');
+      }
+
+      await this.refreshAccessToken();
+    }
+
+    return this.authState!.accessToken;
+  }
+
+  private async apiGet(path: string, params?: Record<string, any>): Promise<any> {
+    const accessToken = await this.getAccessToken();
+    const response = await axios.get(`${this.baseUrl}${path}`, {
+      params,
+      headers: { 'Authorization': `Bearer ${accessToken}` }
+    });
+
+    return response.data;
+  }
+
+  private async apiPost(path: string, body: Record<string, any>): Promise<any> {
+    const accessToken = await this.getAccessToken();
+    const response = await axios.post(`${this.baseUrl}${path}`, body, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    return response.data;
+  }
+}
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Get the URL of an image attachment
+ */
+function requireUrl(attachment: PostAttachment): string {
+  if (!attachment.url) {
+    throw new Error('Validation failed: Pinterest images must have a public URL');
+  }
+
+  return attachment.url;
+}
@@ -8,6 +8,9 @@ import { ThreadsProvider } from './ThreadsProvider';
 import { TikTokProvider } from './TikTokProvider';
 import { TwitterProvider } from './TwitterProvider';
 import { YouTubeProvider } from './YouTubeProvider';
+import { BlueskyProvider } from './BlueskyProvider';
+import { PinterestProvider } from './PinterestProvider';
+import { GoogleBusinessProvider } from './GoogleBusinessProvider';
 
 /**
  * Factory for creating platform-specific providers
@@ -64,6 +67,15 @@ export class PlatformProviderFactory {
         case PlatformType.THREADS:
           provider = new ThreadsProvider(config, authState);
           break;
+        case PlatformType.BLUESKY:
+          provider = new BlueskyProvider(config, authState);
+          break;
+        case PlatformType.PINTEREST:
+          provider = new PinterestProvider(config, authState);
+          break;
+        case PlatformType.GOOGLE_BUSINESS:
+          provider = new GoogleBusinessProvider(config, authState);
+          break;
         default:
           console.error(`Unsupported platform type: ${platformType}`);
           throw new Error(`Unsupported platform type: ${platformType}`);
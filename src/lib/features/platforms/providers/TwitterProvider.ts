@@ -16,6 +16,7 @@ import {
 import { PlatformMetrics } from '../models/metrics';
 import { logger } from '@/lib/core/logging/logger';
 import { TwitterRateLimiter, TwitterTier } from '../utils/twitter-rate-limiter';
+import { recordRateLimitHeaders } from '../utils/rate-limiter';
 import { 
   TwitterUser, 
   TwitterDirectMessage, 
@@ -689,6 +690,20 @@ export class TwitterProvider extends PlatformProvider {
       
       const tweetId = response.data.data.id;
       
+      // Post the rest of a thread as a reply chain
+      const threadIds = [tweetId];
+      const threadParts: string[] = post.isThreaded ? post.platformSpecificParams?.threadParts || [] : [];
+      
+      for (const part of threadParts) {
+        const replyResponse = await this.executeRateLimitedRequest('POST_tweets', () => 
+          this.makeAuthenticatedRequest(url, 'POST', {
+            text: part,
+            reply: { in_reply_to_tweet_id: threadIds[threadIds.length - 1] }
+          })
+        );
+        threadIds.push(replyResponse.data.data.id);
+      }
+      
       // Get screen name for URL construction
       let screenName = 'user';
       if (this.authState?.additionalData?.screenName) {
@@ -716,7 +731,8 @@ export class TwitterProvider extends PlatformProvider {
           shares: 0
         },
         metadata: {
-          content: post.content
+          content: post.content,
+          ...(threadIds.length > 1 ? { threadIds } : {})
         }
       };
     } catch (error) {
@@ -1143,8 +1159,13 @@ export class TwitterProvider extends PlatformProvider {
       // Record successful request
       this.rateLimiter.recordRequest(endpointKey);
       
+      // Share the per-endpoint window from the x-rate-limit headers
+      await recordRateLimitHeaders(PlatformType.TWITTER, this.getRateLimitAccountKey(), (result as any)?.headers, endpointKey);
+      
       return result;
     } catch (error: any) {
+      await recordRateLimitHeaders(PlatformType.TWITTER, this.getRateLimitAccountKey(), error.response?.headers, endpointKey);
+      
       // Check if it's a rate limit error from Twitter's side
       if (error.response?.status === 429) {
         logger.warn('Twitter API returned 429 rate limit error', {
@@ -1160,6 +1181,14 @@ export class TwitterProvider extends PlatformProvider {
     }
   }
 
+  /**
+   * Key for the shared rate limit budget of this account
+   */
+  private getRateLimitAccountKey(): string {
+    const additionalData = this.authState?.additionalData;
+    return additionalData?.accountId || additionalData?.userId || 'default';
+  }
+
   /**
    * Get rate limiting status for monitoring
    */
@@ -8,4 +8,7 @@ export * from './InstagramProvider';
 export * from './LinkedInProvider';
 export * from './TikTokProvider';
 export * from './YouTubeProvider';
+export * from './BlueskyProvider';
+export * from './PinterestProvider';
+export * from './GoogleBusinessProvider';
 export * from './PlatformProviderFactory'; 
\ No newline at end of file
@@ -0,0 +1,153 @@
+/**
+ * Rich text helpers for Bluesky (AT Protocol) posts
+ *
+ * Bluesky limits posts by grapheme count and marks up links, mentions and
+ * hashtags with "facets" whose ranges are UTF-8 byte offsets, not string
+ * indexes.
+ */
+
+import { splitGraphemes } from './text-length';
+
+export const BLUESKY_MAX_GRAPHEMES = 300;
+
+/**
+ * Facet feature types
+ */
+export type BlueskyFacetFeature =
+  | { $type: 'app.bsky.richtext.facet#link'; uri: string }
+  | { $type: 'app.bsky.richtext.facet#mention'; did: string }
+  | { $type: 'app.bsky.richtext.facet#tag'; tag: string };
+
+/**
+ * A rich text facet
+ */
+export interface BlueskyFacet {
+  index: {
+    byteStart: number;
+    byteEnd: number;
+  };
+  features: BlueskyFacetFeature[];
+}
+
+/**
+ * A facet candidate found in text before mentions are resolved to DIDs
+ */
+export interface DetectedSegment {
+  type: 'link' | 'mention' | 'tag';
+  // Link URI, handle without "@", or tag without "#"
+  value: string;
+  byteStart: number;
+  byteEnd: number;
+}
+
+const LINK_PATTERN = /(^|\s|\()(https?:\/\/[^\s)]+)/g;
+const MENTION_PATTERN = /(^|\s|\()@([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)+)/g;
+const TAG_PATTERN = /(^|\s)#([^\s#.,!?;:()[\]{}'"]+)/g;
+const TRAILING_PUNCTUATION = /[.,;:!?'"]+$/;
+
+/**
+ * Count user-perceived characters
+ * @param text Post text
+ * @returns Grapheme count
+ */
+export function countGraphemes(text: string): number {
+  return splitGraphemes(text).length;
+}
+
+/**
+ * Convert a string index to a UTF-8 byte offset
+ */
+function toByteOffset(text: string, index: number): number {
+  return Buffer.byteLength(text.slice(0, index), 'utf8');
+}
+
+/**
+ * Find links, mentions and hashtags in post text
+ * @param text Post text
+ * @returns Segments with UTF-8 byte ranges
+ */
+export function detectRichTextSegments(text: string): DetectedSegment[] {
+  const segments: DetectedSegment[] = [];
+
+  for (const match of Array.from(text.matchAll(LINK_PATTERN))) {
+    const uri = match[2].replace(TRAILING_PUNCTUATION, '');
+    const start = match.index! + match[1].length;
+
+    segments.push({
+      type: 'link',
+      value: uri,
+      byteStart: toByteOffset(text, start),
+      byteEnd: toByteOffset(text, start + uri.length)
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(MENTION_PATTERN))) {
+    const start = match.index! + match[1].length;
+    const handle = match[2];
+
+    segments.push({
+      type: 'mention',
+      value: handle,
+      byteStart: toByteOffset(text, start),
+      byteEnd: toByteOffset(text, start + handle.length + 1)
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(TAG_PATTERN))) {
+    const tag = match[2].replace(TRAILING_PUNCTUATION, '');
+
+    // Purely numeric tags ("#1") are not hashtags, and tags are capped at 64 graphemes
+    if (!tag || /^\d+$/.test(tag) || countGraphemes(tag) > 64) {
+      continue;
+    }
+
+    const start = match.index! + match[1].length;
+
+    segments.push({
+      type: 'tag',
+      value: tag,
+      byteStart: toByteOffset(text, start),
+      byteEnd: toByteOffset(text, start + tag.length + 1)
+    });
+  }
+
+  // Drop segments inside links (e.g. "#fragment" or "@" in a URL)
+  const links = segments.filter(segment => segment.type === 'link');
+
+  return segments
+    .filter(segment => segment.type === 'link' || !links.some(link =>
+      segment.byteStart >= link.byteStart && segment.byteEnd <= link.byteEnd
+    ))
+    .sort((a, b) => a.byteStart - b.byteStart);
+}
+
+/**
+ * Build facets for post text
+ * @param text Post text
+ * @param resolveHandle Resolves a handle to a DID; unresolved mentions are left as plain text
+ * @returns Facets
+ */
+export async function buildFacets(
+  text: string,
+  resolveHandle: (handle: string) => Promise<string | null>
+): Promise<BlueskyFacet[]> {
+  const facets: BlueskyFacet[] = [];
+
+  for (const segment of detectRichTextSegments(text)) {
+    const index = { byteStart: segment.byteStart, byteEnd: segment.byteEnd };
+
+    if (segment.type === 'link') {
+      facets.push({ index, features: [{ $type: 'app.bsky.richtext.facet#link', uri: segment.value }] });
+    } else if (segment.type === 'tag') {
+      facets.push({ index, features: [{ $type: 'app.bsky.richtext.facet#tag', tag: segment.value }] });
+    } else {
+      const did = await resolveHandle(segment.value);
+
+      if (did) {
+        facets.push({ index, features: [{ $type: 'app.bsky.richtext.facet#mention', did }] });
+      }
+    }
+  }
+
+  return facets;
+}
@@ -1,5 +1,6 @@
 import { PlatformPost } from '../models/content';
-import { PlatformType } from '../PlatformProvider';
+import { PlatformType, PlatformCapabilities } from '../PlatformProvider';
+import { countCharacters, splitIntoThread } from './text-length';
 
 /**
  * Format hashtags for a specific platform
@@ -63,31 +64,23 @@ export function formatMentions(mentions: string[], platformType: PlatformType):
 }
 
 /**
- * Enforce character limits for platform
+ * Enforce character limits for platform, measuring length the way the
+ * platform counts it
  */
 export function enforceCharacterLimit(text: string, platformType: PlatformType): string {
-  // Define limits for each platform
-  const limits: Record<PlatformType, number> = {
-    [PlatformType.TWITTER]: 280,
-    [PlatformType.LINKEDIN]: 3000,
-    [PlatformType.FACEBOOK]: 63206,
-    [PlatformType.INSTAGRAM]: 2200,
-    [PlatformType.THREADS]: 500,
-    [PlatformType.YOUTUBE]: 5000,
-    [PlatformType.REDDIT]: 40000,
-    [PlatformType.TIKTOK]: 2200,
-    [PlatformType.MASTODON]: 500
-  };
-  
-  const limit = limits[platformType] || 2000;
+  const count = countCharacters(text, platformType);
   
   // Truncate if needed
-  if (text.length <= limit) {
+  if (count.isValid) {
     return text;
   }
   
+  // Leave room for the ellipsis
+  const limit = count.limit;
+  const cutoff = countCharacters(text, platformType, limit - 3).overflowIndex;
+  
   // For longer content, try to find a sensible cutoff point
-  const truncated = text.substring(0, limit - 3);
+  const truncated = text.substring(0, cutoff);
   const lastPeriod = truncated.lastIndexOf('.');
   const lastQuestion = truncated.lastIndexOf('?');
   const lastExclamation = truncated.lastIndexOf('!');
@@ -96,7 +89,7 @@ export function enforceCharacterLimit(text: string, platformType: PlatformType):
   const lastSentenceEnd = Math.max(lastPeriod, lastQuestion, lastExclamation);
   
   // If we found a sensible breakpoint in the last 20% of the text
-  if (lastSentenceEnd > limit * 0.8) {
+  if (lastSentenceEnd > cutoff * 0.8) {
     return text.substring(0, lastSentenceEnd + 1) + '...';
   }
   
@@ -130,8 +123,11 @@ export function formatLinks(links: string[], platformType: PlatformType): string
 
 /**
  * Format a post for a specific platform
+ * @param post Post to format
+ * @param capabilities Provider capabilities; when threads are supported,
+ * content over the limit is split into a numbered thread instead of truncated
  */
-export function formatPostForPlatform(post: PlatformPost): PlatformPost {
+export function formatPostForPlatform(post: PlatformPost, capabilities?: PlatformCapabilities): PlatformPost {
   const { platformType, content, hashtags, mentions, links } = post;
   
   // Create a copy of the post to modify
@@ -174,6 +170,20 @@ export function formatPostForPlatform(post: PlatformPost): PlatformPost {
       formattedContent = [content, formattedLinks, formattedHashtags].filter(Boolean).join('\n\n');
   }
   
+  // Split into a thread where the platform supports it
+  if (capabilities?.supportsThreads && !countCharacters(formattedContent, platformType).isValid) {
+    const [firstPart, ...threadParts] = splitIntoThread(formattedContent, platformType);
+    
+    formattedPost.content = firstPart;
+    formattedPost.isThreaded = true;
+    formattedPost.platformSpecificParams = {
+      ...post.platformSpecificParams,
+      threadParts
+    };
+    
+    return formattedPost;
+  }
+  
   // Apply character limits
   formattedPost.content = enforceCharacterLimit(formattedContent, platformType);
   
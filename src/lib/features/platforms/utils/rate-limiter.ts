@@ -1,4 +1,19 @@
 import { PlatformType } from '../PlatformProvider';
+import { RedisService } from '../../../core/cache/redis-service';
+import { logger } from '../../../core/logging/logger';
+
+/**
+ * Distributed platform rate limiting
+ *
+ * Counters and learned limits live in Redis (in memory when Redis isn't
+ * configured) so every serverless instance shares one budget per account.
+ * - Configured minute/hour/day windows per platform, plus optional
+ *   per-endpoint buckets (e.g. X's post and timeline windows)
+ * - Limits learned from the headers platforms send back
+ *   (`x-rate-limit-*`, `x-ratelimit-*`, `ratelimit-*`, `retry-after`,
+ *   Meta's `x-app-usage` / `x-business-use-case-usage`)
+ * - Current budget exposed to the scheduler so posts can be deferred
+ */
 
 /**
  * Rate limit configuration for each platform
@@ -11,19 +26,96 @@ interface RateLimitConfig {
 }
 
 /**
- * Rate limit status for tracking API usage
+ * A fixed counting window
+ */
+export interface RateLimitWindow {
+  windowMs: number;
+  max: number;
+}
+
+/**
+ * Limit state learned from response headers
+ */
+interface LearnedLimit {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+/**
+ * A limit observation parsed from response headers
+ */
+export interface RateLimitObservation {
+  // App-wide limits (Meta's x-app-usage) apply to every account
+  scope: 'account' | 'app';
+  limit?: number;
+  remaining?: number;
+  resetAt?: number;
+  blockedUntil?: number;
+}
+
+/**
+ * Remaining request budget for an account and bucket
  */
-interface RateLimitStatus {
-  minuteRequests: number;
-  hourRequests: number;
-  dayRequests: number;
-  lastMinuteReset: number;
-  lastHourReset: number;
-  lastDayReset: number;
+export interface RateLimitBudget {
+  platformType: PlatformType;
+  accountId: string;
+  bucket: string;
+  // Requests left in the tightest window
+  remaining: number;
+  limit: number;
+  resetAt: Date;
   isLimited: boolean;
-  limitUntil?: number;
+  // When requests may resume, if limited
+  retryAt?: Date;
+}
+
+/**
+ * Options for rate-limited calls
+ */
+export interface RateLimitOptions {
+  // Endpoint bucket; defaults to the platform-wide bucket
+  bucket?: string;
+  maxRetries?: number;
+  // Longest to wait in-process for a window to reset before giving up
+  maxWaitMs?: number;
+}
+
+/**
+ * Thrown when a request can't be made until the rate limit resets
+ */
+export class RateLimitExceededError extends Error {
+  constructor(
+    public platformType: PlatformType,
+    public bucket: string,
+    public retryAt: Date
+  ) {
+    super(`Rate limit exceeded for ${platformType} (${bucket}) until ${retryAt.toISOString()}`);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+/**
+ * Storage for counters and learned limits
+ */
+interface RateLimitStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttl?: number): Promise<void>;
+  increment(key: string, increment?: number, ttl?: number): Promise<number>;
+  delete(pattern: string): Promise<unknown>;
 }
 
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const DEFAULT_BUCKET = 'default';
+const APP_SCOPE = '*';
+const KEY_PREFIX = 'platform-rate-limit';
+
+// Meta reports usage as a percentage of a rolling one-hour window
+const META_USAGE_WINDOW_MS = HOUR;
+
 /**
  * Rate limit configurations by platform
  */
@@ -81,168 +173,544 @@ const RATE_LIMITS: Record<PlatformType, RateLimitConfig> = {
     requestsPerHour: 200,
     requestsPerDay: 1000,
     cooldownPeriod: 120000 // 2 minutes (same as Instagram)
+  },
+  [PlatformType.BLUESKY]: {
+    // PDS write limits are 5000 points/hour and 35000 points/day, 3 points per created record
+    requestsPerMinute: 50,
+    requestsPerHour: 1600,
+    requestsPerDay: 11000,
+    cooldownPeriod: 60000 // 1 minute
+  },
+  [PlatformType.PINTEREST]: {
+    requestsPerMinute: 100,
+    requestsPerHour: 1000,
+    requestsPerDay: 10000,
+    cooldownPeriod: 60000 // 1 minute
+  },
+  [PlatformType.GOOGLE_BUSINESS]: {
+    // Business Profile APIs allow 300 queries per minute per project; post edits are limited to 10 per minute per location
+    requestsPerMinute: 10,
+    requestsPerHour: 300,
+    requestsPerDay: 5000,
+    cooldownPeriod: 60000 // 1 minute
   }
 };
 
-// Store rate limit status by platform and account
-const rateLimitStatus: Map<string, RateLimitStatus> = new Map();
+/**
+ * Per-endpoint windows, counted in addition to the platform-wide windows.
+ * Keys match the endpoint keys providers pass as the bucket.
+ */
+const ENDPOINT_RATE_LIMITS: Partial<Record<PlatformType, Record<string, RateLimitWindow[]>>> = {
+  [PlatformType.TWITTER]: {
+    // Pro tier per-user windows; lower tiers are learned from x-rate-limit headers
+    POST_tweets: [{ windowMs: 15 * MINUTE, max: 100 }],
+    GET_users_tweets: [{ windowMs: 15 * MINUTE, max: 900 }],
+    GET_users_mentions: [{ windowMs: 15 * MINUTE, max: 300 }]
+  },
+  [PlatformType.MASTODON]: {
+    // Mastodon's defaults: 300 statuses per 3 hours, 30 media uploads per 30 minutes
+    POST_statuses: [{ windowMs: 3 * HOUR, max: 300 }],
+    POST_media: [{ windowMs: 30 * MINUTE, max: 30 }]
+  },
+  [PlatformType.INSTAGRAM]: {
+    // Content publishing limit per account
+    POST_media_publish: [{ windowMs: DAY, max: 50 }]
+  },
+  [PlatformType.THREADS]: {
+    POST_threads_publish: [{ windowMs: DAY, max: 250 }]
+  }
+};
+
+/**
+ * Bucket that publishing a post counts against, by platform
+ */
+const PUBLISH_BUCKETS: Partial<Record<PlatformType, string>> = {
+  [PlatformType.TWITTER]: 'POST_tweets',
+  [PlatformType.MASTODON]: 'POST_statuses',
+  [PlatformType.INSTAGRAM]: 'POST_media_publish',
+  [PlatformType.THREADS]: 'POST_threads_publish'
+};
+
+/**
+ * In-memory store used when Redis isn't configured (local development)
+ */
+class MemoryRateLimitStore implements RateLimitStore {
+  private entries: Map<string, { value: any; expiresAt?: number }> = new Map();
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl * 1000 : undefined });
+  }
+
+  async increment(key: string, increment: number = 1, ttl?: number): Promise<number> {
+    const current = (await this.get<number>(key)) || 0;
+    const existing = this.entries.get(key);
+    const value = current + increment;
+
+    this.entries.set(key, {
+      value,
+      expiresAt: existing && current > 0 ? existing.expiresAt : (ttl ? Date.now() + ttl * 1000 : undefined)
+    });
+
+    return value;
+  }
+
+  async delete(pattern: string): Promise<number> {
+    const prefix = pattern.endsWith('*') ? pattern.slice(0, -1) : null;
+    let deleted = 0;
+
+    Array.from(this.entries.keys()).forEach(key => {
+      if (prefix !== null ? key.startsWith(prefix) : key === pattern) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    });
+
+    return deleted;
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Get the shared store, preferring Redis when it is configured
+ */
+function getStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.REDIS_URL || process.env.REDIS_HOST
+      ? new RedisService()
+      : new MemoryRateLimitStore();
+  }
+
+  return store;
+}
 
 /**
  * Generate a unique key for tracking rate limits
  */
-function getRateLimitKey(platformType: PlatformType, accountId: string): string {
-  return `${platformType}:${accountId}`;
+function getRateLimitKey(platformType: PlatformType, accountId: string, bucket: string = DEFAULT_BUCKET): string {
+  return `${KEY_PREFIX}:${platformType}:${accountId}:${bucket}`;
 }
 
 /**
- * Initialize or get rate limit status for a platform/account
+ * Configured windows for a platform bucket
  */
-function getStatus(platformType: PlatformType, accountId: string): RateLimitStatus {
-  const key = getRateLimitKey(platformType, accountId);
-  let status = rateLimitStatus.get(key);
-  
-  if (!status) {
-    const now = Date.now();
-    status = {
-      minuteRequests: 0,
-      hourRequests: 0,
-      dayRequests: 0,
-      lastMinuteReset: now,
-      lastHourReset: now,
-      lastDayReset: now,
-      isLimited: false
-    };
-    rateLimitStatus.set(key, status);
+function getWindows(platformType: PlatformType, bucket: string): RateLimitWindow[] {
+  if (bucket !== DEFAULT_BUCKET) {
+    return ENDPOINT_RATE_LIMITS[platformType]?.[bucket] || [];
   }
-  
-  return status;
+
+  const limits = RATE_LIMITS[platformType];
+  if (!limits) {
+    return [];
+  }
+
+  return [
+    { windowMs: MINUTE, max: limits.requestsPerMinute },
+    { windowMs: HOUR, max: limits.requestsPerHour },
+    { windowMs: DAY, max: limits.requestsPerDay }
+  ];
 }
 
 /**
- * Update rate limit counters and check for reset periods
+ * Counter key and reset time for the current window
  */
-function updateCounters(status: RateLimitStatus): void {
-  const now = Date.now();
-  
-  // Reset minute counter if needed
-  if (now - status.lastMinuteReset >= 60000) {
-    status.minuteRequests = 0;
-    status.lastMinuteReset = now;
+function getWindowCounter(key: string, window: RateLimitWindow, now: number): { counterKey: string; resetAt: number } {
+  const windowIndex = Math.floor(now / window.windowMs);
+
+  return {
+    counterKey: `${key}:count:${window.windowMs}:${windowIndex}`,
+    resetAt: (windowIndex + 1) * window.windowMs
+  };
+}
+
+/**
+ * Buckets a request is counted against: the endpoint bucket (if any) and the
+ * platform-wide bucket
+ */
+function getBuckets(bucket: string): string[] {
+  return bucket === DEFAULT_BUCKET ? [DEFAULT_BUCKET] : [bucket, DEFAULT_BUCKET];
+}
+
+/**
+ * Seconds until a timestamp, for key expiry
+ */
+function ttlUntil(timestamp: number, now: number): number {
+  return Math.max(1, Math.ceil((timestamp - now) / 1000));
+}
+
+/**
+ * Read a header from axios, fetch or plain header objects
+ */
+function readHeader(headers: any, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
   }
-  
-  // Reset hour counter if needed
-  if (now - status.lastHourReset >= 3600000) {
-    status.hourRequests = 0;
-    status.lastHourReset = now;
+
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name] ?? headers[name.toLowerCase()];
+
+  if (value === undefined || value === null) {
+    return undefined;
   }
-  
-  // Reset day counter if needed
-  if (now - status.lastDayReset >= 86400000) {
-    status.dayRequests = 0;
-    status.lastDayReset = now;
+
+  return Array.isArray(value) ? String(value[0]) : String(value);
+}
+
+/**
+ * Parse a reset header: an HTTP date, epoch seconds or seconds from now
+ */
+function parseResetTime(value: string | undefined, now: number): number | undefined {
+  if (!value) {
+    return undefined;
   }
-  
-  // Check if cooldown period is over
-  if (status.isLimited && status.limitUntil && now >= status.limitUntil) {
-    status.isLimited = false;
-    status.limitUntil = undefined;
+
+  if (!/^\d+(\.\d+)?$/.test(value.trim())) {
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : date;
   }
-  
-  // Increment counters
-  status.minuteRequests++;
-  status.hourRequests++;
-  status.dayRequests++;
+
+  const seconds = parseFloat(value);
+  return seconds > 1e9 ? seconds * 1000 : now + seconds * 1000;
 }
 
 /**
- * Check if an API request would exceed rate limits
+ * Parse a numeric header, ignoring trailing policy parameters ("100;w=60")
  */
-export function checkRateLimit(platformType: PlatformType, accountId: string): boolean {
-  const status = getStatus(platformType, accountId);
-  const limits = RATE_LIMITS[platformType];
-  
-  // If currently limited, block the request
-  if (status.isLimited) {
-    return false;
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
   }
-  
-  // Update counters for time-based resets
-  updateCounters(status);
-  
-  // Check if any limits are exceeded
-  if (
-    status.minuteRequests > limits.requestsPerMinute ||
-    status.hourRequests > limits.requestsPerHour ||
-    status.dayRequests > limits.requestsPerDay
-  ) {
-    // Set cooldown period
-    status.isLimited = true;
-    status.limitUntil = Date.now() + limits.cooldownPeriod;
-    return false;
+
+  const number = parseFloat(value);
+  return isNaN(number) ? undefined : number;
+}
+
+/**
+ * Parse a Meta usage header (percentages of the hourly allowance)
+ */
+function parseMetaUsage(
+  usage: any,
+  scope: RateLimitObservation['scope'],
+  now: number
+): RateLimitObservation | null {
+  if (!usage || typeof usage !== 'object') {
+    return null;
   }
-  
-  return true;
+
+  const percent = Math.max(usage.call_count || 0, usage.total_cputime || 0, usage.total_time || 0);
+  const regainMinutes = usage.estimated_time_to_regain_access || 0;
+  const resetAt = regainMinutes > 0 ? now + regainMinutes * MINUTE : now + META_USAGE_WINDOW_MS;
+
+  return {
+    scope,
+    limit: 100,
+    remaining: Math.max(0, 100 - percent),
+    resetAt,
+    ...(regainMinutes > 0 ? { blockedUntil: resetAt } : {})
+  };
+}
+
+/**
+ * Parse rate limit information from response headers
+ * @param headers Axios, fetch or plain response headers
+ * @returns Observations to record; empty when the response has no limit headers
+ */
+export function parseRateLimitHeaders(headers: any, now: number = Date.now()): RateLimitObservation[] {
+  const observations: RateLimitObservation[] = [];
+
+  // X (x-rate-limit-*), Mastodon/Reddit/Pinterest (x-ratelimit-*) and Bluesky (ratelimit-*)
+  for (const prefix of ['x-rate-limit', 'x-ratelimit', 'ratelimit']) {
+    const remaining = parseNumber(readHeader(headers, `${prefix}-remaining`));
+
+    if (remaining !== undefined) {
+      const used = parseNumber(readHeader(headers, `${prefix}-used`));
+      const limit = parseNumber(readHeader(headers, `${prefix}-limit`)) ?? (used !== undefined ? used + remaining : undefined);
+
+      observations.push({
+        scope: 'account',
+        limit: limit ?? remaining,
+        remaining,
+        resetAt: parseResetTime(readHeader(headers, `${prefix}-reset`), now) ?? now + MINUTE
+      });
+      break;
+    }
+  }
+
+  const retryAfter = parseResetTime(readHeader(headers, 'retry-after'), now);
+  if (retryAfter) {
+    observations.push({ scope: 'account', blockedUntil: retryAfter });
+  }
+
+  // Meta: app-wide usage, plus per-business usage keyed by business ID
+  try {
+    const appUsage = readHeader(headers, 'x-app-usage');
+    const appObservation = appUsage ? parseMetaUsage(JSON.parse(appUsage), 'app', now) : null;
+    if (appObservation) {
+      observations.push(appObservation);
+    }
+
+    const businessUsage = readHeader(headers, 'x-business-use-case-usage');
+    if (businessUsage) {
+      const usageByBusiness = JSON.parse(businessUsage) as Record<string, any[]>;
+
+      Object.values(usageByBusiness).forEach(entries => {
+        (entries || []).forEach(entry => {
+          const observation = parseMetaUsage(entry, 'account', now);
+          if (observation) {
+            observations.push(observation);
+          }
+        });
+      });
+    }
+  } catch (error) {
+    logger.warn('Could not parse Meta usage headers', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  return observations;
+}
+
+/**
+ * Record limits learned from a response
+ * @param bucket Endpoint bucket the response belongs to
+ */
+export async function recordRateLimitHeaders(
+  platformType: PlatformType,
+  accountId: string,
+  headers: any,
+  bucket: string = DEFAULT_BUCKET
+): Promise<void> {
+  const now = Date.now();
+  const observations = parseRateLimitHeaders(headers, now);
+  const rateLimitStore = getStore();
+
+  for (const observation of observations) {
+    const key = observation.scope === 'app'
+      ? getRateLimitKey(platformType, APP_SCOPE)
+      : getRateLimitKey(platformType, accountId, bucket);
+
+    if (observation.blockedUntil && observation.blockedUntil > now) {
+      await rateLimitStore.set(`${key}:blocked`, observation.blockedUntil, ttlUntil(observation.blockedUntil, now));
+    }
+
+    if (observation.remaining !== undefined && observation.resetAt && observation.resetAt > now) {
+      const learned: LearnedLimit = {
+        limit: observation.limit ?? observation.remaining,
+        remaining: observation.remaining,
+        resetAt: observation.resetAt
+      };
+      await rateLimitStore.set(`${key}:learned`, learned, ttlUntil(observation.resetAt, now));
+    }
+  }
+}
+
+/**
+ * Get the remaining request budget for an account
+ * @param bucket Endpoint bucket; the platform-wide and app-wide limits always apply
+ */
+export async function getRateLimitBudget(
+  platformType: PlatformType,
+  accountId: string,
+  bucket: string = DEFAULT_BUCKET
+): Promise<RateLimitBudget> {
+  const now = Date.now();
+  const rateLimitStore = getStore();
+  const candidates: LearnedLimit[] = [];
+  let blockedUntil = 0;
+
+  const keys = getBuckets(bucket).map(b => ({ key: getRateLimitKey(platformType, accountId, b), bucket: b }));
+  keys.push({ key: getRateLimitKey(platformType, APP_SCOPE), bucket: DEFAULT_BUCKET });
+
+  for (const { key } of keys) {
+    const blocked = await rateLimitStore.get<number>(`${key}:blocked`);
+    if (blocked && blocked > now) {
+      blockedUntil = Math.max(blockedUntil, blocked);
+    }
+
+    const learned = await rateLimitStore.get<LearnedLimit>(`${key}:learned`);
+    if (learned && learned.resetAt > now) {
+      candidates.push(learned);
+    }
+  }
+
+  // Configured windows; the app-wide key only carries learned limits
+  for (const { key, bucket: windowBucket } of keys.slice(0, -1)) {
+    for (const window of getWindows(platformType, windowBucket)) {
+      const { counterKey, resetAt } = getWindowCounter(key, window, now);
+      const count = (await rateLimitStore.get<number>(counterKey)) || 0;
+      candidates.push({ limit: window.max, remaining: window.max - count, resetAt });
+    }
+  }
+
+  const exhausted = candidates.filter(candidate => candidate.remaining <= 0);
+  const tightest = candidates.reduce<LearnedLimit | null>(
+    (min, candidate) => (!min || candidate.remaining < min.remaining ? candidate : min),
+    null
+  );
+  const retryAt = Math.max(blockedUntil, ...exhausted.map(candidate => candidate.resetAt));
+  const isLimited = blockedUntil > now || exhausted.length > 0;
+
+  return {
+    platformType,
+    accountId,
+    bucket,
+    remaining: tightest ? Math.max(0, tightest.remaining) : Infinity,
+    limit: tightest ? tightest.limit : Infinity,
+    resetAt: new Date(tightest ? tightest.resetAt : now),
+    isLimited,
+    ...(isLimited ? { retryAt: new Date(retryAt) } : {})
+  };
+}
+
+/**
+ * Get the bucket that publishing a post counts against
+ */
+export function getPublishBucket(platformType: PlatformType): string {
+  return PUBLISH_BUCKETS[platformType] || DEFAULT_BUCKET;
+}
+
+/**
+ * Claim one request from the budget
+ * @returns When requests may resume if the budget is exhausted, otherwise null
+ */
+async function acquireRequest(
+  platformType: PlatformType,
+  accountId: string,
+  bucket: string
+): Promise<Date | null> {
+  const now = Date.now();
+  const rateLimitStore = getStore();
+
+  // Learned limits and cooldowns block without consuming the budget
+  const budget = await getRateLimitBudget(platformType, accountId, bucket);
+  if (budget.isLimited) {
+    return budget.retryAt!;
+  }
+
+  // Count first, then compare, so concurrent instances can't both take the last request
+  let retryAt = 0;
+
+  for (const windowBucket of getBuckets(bucket)) {
+    const key = getRateLimitKey(platformType, accountId, windowBucket);
+
+    for (const window of getWindows(platformType, windowBucket)) {
+      const { counterKey, resetAt } = getWindowCounter(key, window, now);
+      const count = await rateLimitStore.increment(counterKey, 1, ttlUntil(resetAt, now));
+
+      if (count > window.max) {
+        retryAt = Math.max(retryAt, resetAt);
+      }
+    }
+  }
+
+  return retryAt > 0 ? new Date(retryAt) : null;
+}
+
+/**
+ * Mark an account as limited after a 429 response
+ */
+async function markRateLimited(
+  platformType: PlatformType,
+  accountId: string,
+  bucket: string,
+  headers: any
+): Promise<void> {
+  const now = Date.now();
+  const observations = parseRateLimitHeaders(headers, now);
+  const headerUntil = Math.max(0, ...observations.map(o => o.blockedUntil || (o.remaining === 0 && o.resetAt) || 0));
+  const until = headerUntil > now ? headerUntil : now + RATE_LIMITS[platformType].cooldownPeriod;
+
+  await getStore().set(`${getRateLimitKey(platformType, accountId, bucket)}:blocked`, until, ttlUntil(until, now));
 }
 
 /**
- * Try to make an API request with rate limiting
+ * Check if an API request would exceed rate limits, counting it if not
+ */
+export async function checkRateLimit(
+  platformType: PlatformType,
+  accountId: string,
+  bucket: string = DEFAULT_BUCKET
+): Promise<boolean> {
+  return (await acquireRequest(platformType, accountId, bucket)) === null;
+}
+
+/**
+ * Try to make an API request with rate limiting. Limits are learned from the
+ * response headers; when the budget is exhausted for longer than
+ * `maxWaitMs`, a RateLimitExceededError with the retry time is thrown.
  */
 export async function withRateLimit<T>(
   platformType: PlatformType,
   accountId: string,
   apiCall: () => Promise<T>,
-  maxRetries: number = 3,
-  retryDelay: number = 1000
+  options: RateLimitOptions = {}
 ): Promise<T> {
-  let attempts = 0;
+  const { bucket = DEFAULT_BUCKET, maxRetries = 3, maxWaitMs = 30000 } = options;
+  let retryAt: Date | null = null;
   
-  while (attempts < maxRetries) {
-    // Check if rate limited
-    if (!checkRateLimit(platformType, accountId)) {
-      // Get status to check when rate limit will be lifted
-      const status = getStatus(platformType, accountId);
-      const waitTime = status.limitUntil ? status.limitUntil - Date.now() : retryDelay;
-      
-      // Wait and try again
-      // Used for real rate limiting/retry logic in production
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-      attempts++;
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    retryAt = await acquireRequest(platformType, accountId, bucket);
+
+    if (retryAt) {
+      const waitTime = retryAt.getTime() - Date.now();
+
+      if (waitTime > maxWaitMs || attempt === maxRetries - 1) {
+        throw new RateLimitExceededError(platformType, bucket, retryAt);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, waitTime)));
       continue;
     }
     
     try {
       // Make the API call
-      return await apiCall();
+      const result = await apiCall();
+      await recordRateLimitHeaders(platformType, accountId, (result as any)?.headers, bucket);
+      return result;
     } catch (error: any) {
-      // Check if error is rate limiting related
-      if (error.status === 429 || (error.message && error.message.includes('rate limit'))) {
-        // Mark as rate limited
-        const status = getStatus(platformType, accountId);
-        status.isLimited = true;
-        
-        // Calculate retry time based on headers or default
-        const retryAfter = error.headers?.['retry-after'];
-        const waitTime = retryAfter ? parseInt(retryAfter, 10) * 1000 : RATE_LIMITS[platformType].cooldownPeriod;
-        
-        status.limitUntil = Date.now() + waitTime;
-        
-        // Retry after waiting
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        attempts++;
-      } else {
-        // Not a rate limit error, rethrow
+      const headers = error?.response?.headers || error?.headers;
+      const status = error?.response?.status ?? error?.status;
+
+      await recordRateLimitHeaders(platformType, accountId, headers, bucket);
+
+      // Not a rate limit error, rethrow
+      if (status !== 429 && !(error?.message && error.message.includes('rate limit'))) {
         throw error;
       }
+
+      await markRateLimited(platformType, accountId, bucket, headers);
     }
   }
   
-  throw new Error(`Rate limit exceeded after ${maxRetries} attempts`);
+  const budget = await getRateLimitBudget(platformType, accountId, bucket);
+  throw new RateLimitExceededError(platformType, bucket, budget.retryAt || retryAt || new Date());
 }
 
 /**
  * Reset rate limit status for testing or error recovery
  */
-export function resetRateLimit(platformType: PlatformType, accountId: string): void {
-  const key = getRateLimitKey(platformType, accountId);
-  rateLimitStatus.delete(key);
+export async function resetRateLimit(platformType: PlatformType, accountId: string): Promise<void> {
+  try {
+    await getStore().delete(`${KEY_PREFIX}:${platformType}:${accountId}:*`);
+  } catch (error) {
+    logger.error('Error resetting rate limit', {
+      error: error instanceof Error ? error.message : String(error),
+      platformType,
+      accountId
+    });
+  }
 }
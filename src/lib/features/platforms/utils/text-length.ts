@@ -0,0 +1,362 @@
+import { PlatformType } from '../PlatformProvider';
+
+/**
+ * Platform-accurate text length
+ *
+ * Platforms don't count `text.length`:
+ * - X/Twitter weights code points (most scripts 1, CJK and others 2),
+ *   counts each emoji sequence as 2 and every URL as 23
+ * - Bluesky counts graphemes
+ * - Mastodon counts graphemes, every http(s) URL as 23 and remote mentions
+ *   by their local part only
+ * - Other platforms count code points
+ */
+
+/**
+ * Character limits by platform
+ */
+const CHARACTER_LIMITS: Record<PlatformType, number> = {
+  [PlatformType.TWITTER]: 280,
+  [PlatformType.LINKEDIN]: 3000,
+  [PlatformType.FACEBOOK]: 63206,
+  [PlatformType.INSTAGRAM]: 2200,
+  [PlatformType.THREADS]: 500,
+  [PlatformType.YOUTUBE]: 5000,
+  [PlatformType.REDDIT]: 40000,
+  [PlatformType.TIKTOK]: 2200,
+  [PlatformType.MASTODON]: 500,
+  [PlatformType.BLUESKY]: 300,
+  [PlatformType.PINTEREST]: 500,
+  [PlatformType.GOOGLE_BUSINESS]: 1500
+};
+
+const DEFAULT_CHARACTER_LIMIT = 2000;
+const TRANSFORMED_URL_LENGTH = 23;
+
+// Code point ranges X/Twitter counts as 1; everything else counts as 2
+const TWITTER_LIGHT_RANGES: Array<[number, number]> = [
+  [0x0000, 0x10FF], // Latin, Greek, Cyrillic, Hebrew, Arabic, Indic scripts, ...
+  [0x2000, 0x200D], // Spaces and zero-width joiners
+  [0x2010, 0x201F], // Dashes and quotation marks
+  [0x2032, 0x2037] // Primes
+];
+
+const HTTP_URL_PATTERN = /https?:\/\/[^\s<>"]+/gi;
+// X also links bare domains
+const TWITTER_URL_PATTERN = /(?:https?:\/\/|www\.)[^\s<>"]+|\b[a-z0-9][a-z0-9-]*(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|co|ai|app|dev|me|ly|gl|gg|tv|info|biz|edu|gov|us|uk|ca|de|fr|es|it|nl|jp|au|in|br)\b(?:\/[^\s<>"]*)?/gi;
+const MASTODON_MENTION_PATTERN = /@([a-z0-9_]+(?:[a-z0-9_.-]+[a-z0-9_]+)?)@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const URL_TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+// Built with the RegExp constructor because the `u` flag needs an ES2015 target
+const EMOJI_PRESENTATION = new RegExp('\\p{Emoji_Presentation}|\\p{Regional_Indicator}', 'u');
+const EXTENDED_PICTOGRAPHIC = new RegExp('\\p{Extended_Pictographic}', 'u');
+
+/**
+ * Result of counting text for a platform
+ */
+export interface CharacterCount {
+  platformType: PlatformType;
+  // Length as the platform counts it
+  length: number;
+  limit: number;
+  // Negative when over the limit
+  remaining: number;
+  isValid: boolean;
+  // Index in the text of the first character past the limit, or -1 when it fits
+  overflowIndex: number;
+}
+
+/**
+ * A counted span of text
+ */
+interface WeightedSegment {
+  start: number;
+  end: number;
+  weight: number;
+}
+
+/**
+ * Get the character limit for a platform
+ */
+export function getCharacterLimit(platformType: PlatformType): number {
+  return CHARACTER_LIMITS[platformType] || DEFAULT_CHARACTER_LIMIT;
+}
+
+/**
+ * Split text into user-perceived characters
+ */
+export function splitGraphemes(text: string): string[] {
+  if (typeof Intl !== 'undefined' && (Intl as any).Segmenter) {
+    const segmenter = new (Intl as any).Segmenter(undefined, { granularity: 'grapheme' });
+    return Array.from(segmenter.segment(text) as Iterable<{ segment: string }>).map(part => part.segment);
+  }
+
+  return Array.from(text);
+}
+
+/**
+ * Count text the way a platform does
+ * @param text Post text
+ * @param platformType Target platform
+ * @param limit Override the platform's character limit
+ * @returns Length, remaining characters and overflow position
+ */
+export function countCharacters(text: string, platformType: PlatformType, limit?: number): CharacterCount {
+  const maxLength = limit ?? getCharacterLimit(platformType);
+  let length = 0;
+  let overflowIndex = -1;
+
+  for (const segment of segmentText(text, platformType)) {
+    length += segment.weight;
+
+    if (overflowIndex === -1 && length > maxLength) {
+      overflowIndex = segment.start;
+    }
+  }
+
+  return {
+    platformType,
+    length,
+    limit: maxLength,
+    remaining: maxLength - length,
+    isValid: length <= maxLength,
+    overflowIndex
+  };
+}
+
+/**
+ * Split text into a numbered thread whose parts each fit the platform's
+ * limit. Text is split at sentence boundaries where possible, then at word
+ * boundaries, and only mid-word for words longer than a whole post.
+ * @param text Post text
+ * @param platformType Target platform
+ * @param options.numbered Append " (1/3)" style numbering (default true)
+ * @param options.limit Override the platform's character limit
+ * @returns Thread parts; a single part when the text already fits
+ */
+export function splitIntoThread(
+  text: string,
+  platformType: PlatformType,
+  options: { numbered?: boolean; limit?: number } = {}
+): string[] {
+  const numbered = options.numbered !== false;
+  const limit = options.limit ?? getCharacterLimit(platformType);
+  const trimmed = text.trim();
+
+  if (countCharacters(trimmed, platformType, limit).isValid) {
+    return [trimmed];
+  }
+
+  if (!numbered) {
+    return packThread(trimmed, part => countCharacters(part, platformType, limit).isValid);
+  }
+
+  // The numbering width depends on the part count, so repack until it is stable
+  let total = 2;
+  let parts: string[] = [];
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const expected = total;
+    parts = packThread(trimmed, (part, index) =>
+      countCharacters(part + formatThreadNumber(index, expected), platformType, limit).isValid
+    );
+
+    if (parts.length === total) {
+      break;
+    }
+
+    total = parts.length;
+  }
+
+  return parts.map((part, i) => part + formatThreadNumber(i + 1, parts.length));
+}
+
+/**
+ * Numbering suffix for a thread part
+ */
+function formatThreadNumber(index: number, total: number): string {
+  return ` (${index}/${total})`;
+}
+
+/**
+ * Greedily pack sentences into parts, splitting sentences that don't fit a
+ * part on their own into words, and words into graphemes
+ * @param fits Whether the text fits as the given (1-based) part
+ */
+function packThread(text: string, fits: (part: string, index: number) => boolean): string[] {
+  const parts: string[] = [];
+  const queue = splitSentences(text).map(token => ({ token, level: 0 }));
+  let current = '';
+
+  while (queue.length > 0) {
+    const { token, level } = queue.shift()!;
+    const candidate = (current + token).trim();
+
+    if (fits(candidate, parts.length + 1)) {
+      current += token;
+      continue;
+    }
+
+    if (fits(token.trim(), current.trim() ? parts.length + 2 : parts.length + 1)) {
+      if (current.trim()) {
+        parts.push(current.trim());
+      }
+      current = token.trimStart();
+      continue;
+    }
+
+    // Too long for a part of its own: fill the current part with smaller pieces
+    if (level < 2) {
+      const pieces = level === 0 ? splitWords(token) : splitGraphemes(token);
+      queue.unshift(...pieces.map(piece => ({ token: piece, level: level + 1 })));
+      continue;
+    }
+
+    // A single grapheme over the limit; it can't be split further
+    if (current.trim()) {
+      parts.push(current.trim());
+    }
+    parts.push(token);
+    current = '';
+  }
+
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+
+  return parts;
+}
+
+/**
+ * Split text into sentences, each keeping its trailing whitespace
+ */
+function splitSentences(text: string): string[] {
+  const boundary = /[.!?…]+["'”’)\]]*\s+|[。！？]+\s*|\n+\s*/g;
+  const sentences: string[] = [];
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+
+  if (start < text.length) {
+    sentences.push(text.slice(start));
+  }
+
+  return sentences;
+}
+
+/**
+ * Split text into words, each keeping its trailing whitespace
+ */
+function splitWords(text: string): string[] {
+  return text.match(/\s*\S+\s*/g) || [text];
+}
+
+/**
+ * Split text into weighted segments for a platform
+ */
+function segmentText(text: string, platformType: PlatformType): WeightedSegment[] {
+  switch (platformType) {
+    case PlatformType.TWITTER:
+      return segmentWithEntities(text, [{ pattern: TWITTER_URL_PATTERN, weight: () => TRANSFORMED_URL_LENGTH }], weighTwitterGrapheme, true);
+
+    case PlatformType.MASTODON:
+      return segmentWithEntities(text, [
+        { pattern: HTTP_URL_PATTERN, weight: () => TRANSFORMED_URL_LENGTH },
+        // Remote mentions count as "@username"
+        { pattern: MASTODON_MENTION_PATTERN, weight: match => 1 + splitGraphemes(match[1]).length }
+      ], () => 1, true);
+
+    case PlatformType.BLUESKY:
+      return segmentWithEntities(text, [], () => 1, true);
+
+    default:
+      return segmentWithEntities(text, [], () => 1, false);
+  }
+}
+
+/**
+ * Segment text, counting entity matches (URLs, mentions) with a fixed weight
+ * and the remaining text per grapheme or per code point
+ */
+function segmentWithEntities(
+  text: string,
+  entities: Array<{ pattern: RegExp; weight: (match: RegExpExecArray) => number }>,
+  weighCharacter: (character: string) => number,
+  byGrapheme: boolean
+): WeightedSegment[] {
+  const spans: WeightedSegment[] = [];
+
+  for (const entity of entities) {
+    const pattern = new RegExp(entity.pattern.source, entity.pattern.flags);
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      const value = match[0].replace(URL_TRAILING_PUNCTUATION, '');
+      const start = match.index;
+      const end = start + value.length;
+
+      // Earlier entity types win where matches overlap
+      if (value && !spans.some(span => start < span.end && end > span.start)) {
+        spans.push({ start, end, weight: entity.weight(match) });
+      }
+    }
+  }
+
+  spans.sort((a, b) => a.start - b.start);
+
+  const segments: WeightedSegment[] = [];
+  let position = 0;
+
+  const addCharacters = (until: number) => {
+    const chunk = text.slice(position, until);
+    const characters = byGrapheme ? splitGraphemes(chunk) : Array.from(chunk);
+
+    for (const character of characters) {
+      segments.push({ start: position, end: position + character.length, weight: weighCharacter(character) });
+      position += character.length;
+    }
+  };
+
+  for (const span of spans) {
+    addCharacters(span.start);
+    segments.push(span);
+    position = span.end;
+  }
+
+  addCharacters(text.length);
+
+  return segments;
+}
+
+/**
+ * Weigh a grapheme the way X/Twitter does
+ */
+function weighTwitterGrapheme(grapheme: string): number {
+  if (isEmoji(grapheme)) {
+    return 2;
+  }
+
+  let weight = 0;
+
+  for (const character of Array.from(grapheme.normalize('NFC'))) {
+    const codePoint = character.codePointAt(0)!;
+    const light = TWITTER_LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end);
+    weight += light ? 1 : 2;
+  }
+
+  return weight;
+}
+
+/**
+ * Whether a grapheme is rendered as an emoji
+ */
+function isEmoji(grapheme: string): boolean {
+  return EMOJI_PRESENTATION.test(grapheme) ||
+    // Text-default pictographs and keycaps become emoji with a variation selector
+    (grapheme.indexOf('\uFE0F') !== -1 && (EXTENDED_PICTOGRAPHIC.test(grapheme) || grapheme.indexOf('\u20E3') !== -1));
+}
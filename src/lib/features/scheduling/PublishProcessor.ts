@@ -3,20 +3,39 @@
  *
  * Processes scheduled posts and publishes them to social media platforms.
  * Features:
- * - Batch processing of due posts
- * - Multi-platform publishing
- * - Retry logic for failures
- * - Concurrent post processing
+ * - Batch processing of due posts from the durable publish queue
+ * - Per-post leases so concurrent instances never publish twice
+ * - Idempotent per-account publishing
+ * - Backoff retries by error class, with a dead-letter queue
+ * - Deferral while an account's shared rate limit budget is exhausted
  * - Error handling and logging
  */
 
 import { logger } from '../../core/logging/logger';
+import { v4 as uuidv4 } from 'uuid';
 import { scheduledPostService, ScheduledPost, PublishResult } from './ScheduledPostService';
+import {
+  publishQueue,
+  PublishErrorClass,
+  RETRY_POLICIES,
+  classifyPublishError,
+  computeBackoffDelay,
+  buildPublishKey
+} from './PublishQueue';
 import { PlatformProviderFactory } from '../platforms/providers/PlatformProviderFactory';
 import { PlatformType } from '../platforms/PlatformProvider';
-import { getFirebaseFirestore } from '../../core/firebase';
+import { PostResponse } from '../platforms/models/content';
+import {
+  getRateLimitBudget,
+  getPublishBucket,
+  withRateLimit,
+  RateLimitExceededError
+} from '../platforms/utils/rate-limiter';
 import { collection, query, where, getDocs } from 'firebase/firestore';
 import { firestore } from '@/lib/core/firebase';
+import { emitWebhookEvent } from '../../webhooks/events';
+import { WebhookEventType } from '../../webhooks/event-types';
+import { recordAuditEvent } from '../../team/activity/audit-events';
 
 /**
  * Processing statistics
@@ -26,6 +45,7 @@ export interface ProcessingStats {
   successful: number;
   failed: number;
   skipped: number;
+  deferred: number;
   errors: Array<{
     postId: string;
     error: string;
@@ -35,6 +55,11 @@ export interface ProcessingStats {
   duration?: number;
 }
 
+/**
+ * Outcome of processing one queued post
+ */
+export type PublishOutcome = 'published' | 'failed' | 'skipped' | 'deferred';
+
 /**
  * Platform connection info
  */
@@ -52,6 +77,9 @@ interface PlatformConnection {
 export class PublishProcessor {
   private processing: boolean = false;
   private readonly maxConcurrent = 5; // Process 5 posts concurrently
+  private readonly batchLimit = 50;
+  private readonly leaseDurationMs = 5 * 60 * 1000; // Matches the cron maxDuration
+  private readonly instanceId = `publisher-${uuidv4()}`;
 
   /**
    * Process all due posts
@@ -59,81 +87,32 @@ export class PublishProcessor {
   async processDuePosts(): Promise<ProcessingStats> {
     if (this.processing) {
       logger.warn('Publish processor already running, skipping');
-      return {
-        processed: 0,
-        successful: 0,
-        failed: 0,
-        skipped: 0,
-        errors: [],
-        startTime: new Date()
-      };
+      return this.createStats();
     }
 
     this.processing = true;
-    const stats: ProcessingStats = {
-      processed: 0,
-      successful: 0,
-      failed: 0,
-      skipped: 0,
-      errors: [],
-      startTime: new Date()
-    };
 
     try {
-      logger.info('Starting publish processor');
+      logger.info('Starting publish processor', { instanceId: this.instanceId });
 
-      // Get posts due for publishing
+      // Backfill queue entries for due posts created before the queue existed
       const duePosts = await scheduledPostService.getDuePosts();
-
-      if (duePosts.length === 0) {
-        logger.info('No posts due for publishing');
-        return stats;
+      for (const post of duePosts) {
+        if (post.id) {
+          await publishQueue.enqueue(post.id, post.scheduledFor);
+        }
       }
 
-      logger.info(`Found ${duePosts.length} posts due for publishing`);
-
-      // Process posts in batches
-      const batchSize = this.maxConcurrent;
-      for (let i = 0; i < duePosts.length; i += batchSize) {
-        const batch = duePosts.slice(i, i + batchSize);
+      const postIds = await publishQueue.getAvailablePostIds(new Date(), this.batchLimit);
 
-        // Process batch concurrently
-        const results = await Promise.allSettled(
-          batch.map((post) => this.publishPost(post))
-        );
-
-        // Update stats
-        results.forEach((result, index) => {
-          stats.processed++;
-
-          if (result.status === 'fulfilled' && result.value) {
-            stats.successful++;
-          } else {
-            stats.failed++;
-            const post = batch[index];
-            const error =
-              result.status === 'rejected'
-                ? result.reason?.message || 'Unknown error'
-                : 'Failed to publish';
-            stats.errors.push({
-              postId: post.id || 'unknown',
-              error
-            });
-          }
-        });
+      if (postIds.length === 0) {
+        logger.info('No posts due for publishing');
+        return this.createStats();
       }
 
-      stats.endTime = new Date();
-      stats.duration = stats.endTime.getTime() - stats.startTime.getTime();
-
-      logger.info('Publish processor completed', {
-        processed: stats.processed,
-        successful: stats.successful,
-        failed: stats.failed,
-        duration: stats.duration
-      });
+      logger.info(`Found ${postIds.length} queued posts due for publishing`);
 
-      return stats;
+      return await this.processQueuedPosts(postIds);
     } catch (error) {
       logger.error('Publish processor error', {
         error: error instanceof Error ? error.message : String(error)
@@ -144,13 +123,113 @@ export class PublishProcessor {
     }
   }
 
+  /**
+   * Process queued posts in concurrent batches
+   */
+  private async processQueuedPosts(postIds: string[]): Promise<ProcessingStats> {
+    const stats = this.createStats();
+
+    const batchSize = this.maxConcurrent;
+    for (let i = 0; i < postIds.length; i += batchSize) {
+      const batch = postIds.slice(i, i + batchSize);
+
+      // Process batch concurrently
+      const results = await Promise.allSettled(
+        batch.map((postId) => this.processQueuedPost(postId))
+      );
+
+      // Update stats
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled' && result.value === 'skipped') {
+          stats.skipped++;
+          return;
+        }
+
+        if (result.status === 'fulfilled' && result.value === 'deferred') {
+          stats.deferred++;
+          return;
+        }
+
+        stats.processed++;
+
+        if (result.status === 'fulfilled' && result.value === 'published') {
+          stats.successful++;
+        } else {
+          stats.failed++;
+          const error =
+            result.status === 'rejected'
+              ? result.reason?.message || 'Unknown error'
+              : 'Failed to publish';
+          stats.errors.push({
+            postId: batch[index],
+            error
+          });
+        }
+      });
+    }
+
+    stats.endTime = new Date();
+    stats.duration = stats.endTime.getTime() - stats.startTime.getTime();
+
+    logger.info('Publish processor completed', {
+      processed: stats.processed,
+      successful: stats.successful,
+      failed: stats.failed,
+      skipped: stats.skipped,
+      deferred: stats.deferred,
+      duration: stats.duration
+    });
+
+    return stats;
+  }
+
+  /**
+   * Publish a single queued post right away (e.g. from an automation).
+   * Uses the same lease as the cron run, so the post is never published twice.
+   */
+  async publishNow(postId: string): Promise<PublishOutcome> {
+    return this.processQueuedPost(postId);
+  }
+
+  /**
+   * Lease a queued post and publish it
+   */
+  private async processQueuedPost(postId: string): Promise<PublishOutcome> {
+    const lease = await publishQueue.acquireLease(postId, this.instanceId, this.leaseDurationMs);
+
+    if (!lease) {
+      // Another instance holds the lease, or the entry is not due yet
+      return 'skipped';
+    }
+
+    const scheduledPost = await scheduledPostService.getScheduledPost(postId);
+
+    if (!scheduledPost) {
+      await publishQueue.remove(postId);
+      return 'skipped';
+    }
+
+    if (scheduledPost.status === 'draft') {
+      // Re-enqueued by the backfill once the post is scheduled again
+      await publishQueue.remove(postId);
+      return 'skipped';
+    }
+
+    if (scheduledPost.status !== 'scheduled') {
+      await publishQueue.complete(postId, this.instanceId);
+      return 'skipped';
+    }
+
+    return this.publishPost(scheduledPost);
+  }
+
   /**
    * Publish a single scheduled post
    */
-  private async publishPost(scheduledPost: ScheduledPost): Promise<boolean> {
+  private async publishPost(scheduledPost: ScheduledPost): Promise<'published' | 'failed' | 'deferred'> {
     if (!scheduledPost.id) {
       logger.error('Scheduled post missing ID', { post: scheduledPost });
-      return false;
+      return 'failed';
     }
 
     logger.info('Publishing post', {
@@ -173,23 +252,57 @@ export class PublishProcessor {
 
       // Publish to all connected accounts for the platform
       const publishResults: PublishResult[] = [];
+      let deferredUntil: Date | undefined;
 
       for (const connection of connections) {
-        try {
-          const result = await this.publishToPlatform(
-            scheduledPost.post,
-            connection
-          );
-          publishResults.push(result);
-        } catch (error) {
-          publishResults.push({
-            success: false,
-            platformType: connection.platformType,
-            error: error instanceof Error ? error.message : String(error)
-          });
+        const publishKey = buildPublishKey(scheduledPost.id, connection.accountId);
+        const previous = scheduledPost.publishKeys?.[publishKey];
+
+        // Skip accounts an earlier attempt already published to
+        if (previous?.success) {
+          publishResults.push(previous);
+          continue;
+        }
+
+        // Leave accounts without rate limit budget for a later run
+        const budget = await getRateLimitBudget(
+          connection.platformType,
+          connection.accountId,
+          getPublishBucket(connection.platformType)
+        );
+        if (budget.isLimited) {
+          deferredUntil = this.earliestDate(deferredUntil, budget.retryAt);
+          continue;
+        }
+
+        const result = await this.publishToPlatform(
+          scheduledPost.post,
+          connection
+        );
+
+        if (result.retryAt) {
+          deferredUntil = this.earliestDate(deferredUntil, result.retryAt);
+          continue;
+        }
+
+        publishResults.push(result);
+
+        if (result.success) {
+          await scheduledPostService.recordPublishResult(scheduledPost.id, publishKey, result);
         }
       }
 
+      // Retry once the earliest budget resets; accounts already published are skipped by their publish keys
+      if (deferredUntil) {
+        await publishQueue.defer(
+          scheduledPost.id,
+          this.instanceId,
+          deferredUntil,
+          `Rate limit budget exhausted until ${deferredUntil.toISOString()}`
+        );
+        return 'deferred';
+      }
+
       // Check if any publishes succeeded
       const hasSuccess = publishResults.some((r) => r.success);
 
@@ -199,6 +312,7 @@ export class PublishProcessor {
           scheduledPost.id,
           publishResults.filter((r) => r.success)
         );
+        await publishQueue.complete(scheduledPost.id, this.instanceId);
 
         // Create next occurrence if recurring
         if (scheduledPost.schedule.recurrence) {
@@ -210,35 +324,136 @@ export class PublishProcessor {
           results: publishResults
         });
 
-        return true;
-      } else {
-        // All publishes failed
-        const errors = publishResults.map((r) => r.error).join('; ');
-        await scheduledPostService.markAsFailed(scheduledPost.id, errors);
-
-        logger.error('Post failed to publish', {
+        void emitWebhookEvent(WebhookEventType.POST_PUBLISHED, {
           postId: scheduledPost.id,
-          errors
+          userId: scheduledPost.userId,
+          platformType: scheduledPost.post.platformType,
+          results: publishResults.map((result) => ({
+            success: result.success,
+            platformType: result.platformType,
+            ...(result.platformPostId ? { platformPostId: result.platformPostId } : {}),
+            ...(result.url ? { url: result.url } : {}),
+            ...(result.error ? { error: result.error } : {})
+          }))
+        }, scheduledPost.organizationId);
+
+        void recordAuditEvent({
+          userId: scheduledPost.userId,
+          category: 'content',
+          action: 'publish_post',
+          severity: 'info',
+          organizationId: scheduledPost.organizationId,
+          resourceId: scheduledPost.id,
+          resourceType: 'scheduled_post',
+          metadata: {
+            platformType: scheduledPost.post.platformType,
+            published: publishResults.filter((result) => result.success).length,
+            failed: publishResults.filter((result) => !result.success).length
+          }
         });
 
-        return false;
+        return 'published';
       }
+
+      // All publishes failed
+      const errors = publishResults.map((r) => r.error).join('; ');
+      await this.handleFailure(scheduledPost, errors, this.pickErrorClass(publishResults));
+
+      return 'failed';
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
 
-      await scheduledPostService.markAsFailed(
-        scheduledPost.id,
-        errorMessage
+      await this.handleFailure(scheduledPost, errorMessage, classifyPublishError(error));
+
+      return 'failed';
+    }
+  }
+
+  /**
+   * Schedule a backoff retry or dead-letter the post, depending on the error class
+   */
+  private async handleFailure(
+    scheduledPost: ScheduledPost,
+    error: string,
+    errorClass: PublishErrorClass
+  ): Promise<void> {
+    const postId = scheduledPost.id!;
+    const policy = RETRY_POLICIES[errorClass];
+    const attempt = scheduledPost.attempts + 1;
+    const shouldRetry = policy.retryable && attempt < policy.maxAttempts;
+
+    await scheduledPostService.markAsFailed(postId, error, shouldRetry, policy.maxAttempts);
+
+    if (shouldRetry) {
+      await publishQueue.scheduleRetry(
+        postId,
+        this.instanceId,
+        error,
+        errorClass,
+        computeBackoffDelay(errorClass, attempt)
       );
+    } else {
+      await publishQueue.deadLetter(this.instanceId, {
+        postId,
+        userId: scheduledPost.userId,
+        organizationId: scheduledPost.organizationId,
+        platformType: scheduledPost.post.platformType,
+        attempts: attempt,
+        error,
+        errorClass
+      });
 
-      logger.error('Error publishing post', {
-        postId: scheduledPost.id,
-        error: errorMessage
+      void emitWebhookEvent(WebhookEventType.POST_FAILED, {
+        postId,
+        userId: scheduledPost.userId,
+        platformType: scheduledPost.post.platformType,
+        attempts: attempt,
+        error,
+        errorClass
+      }, scheduledPost.organizationId);
+
+      void recordAuditEvent({
+        userId: scheduledPost.userId,
+        category: 'content',
+        action: 'publish_post_failed',
+        severity: 'error',
+        organizationId: scheduledPost.organizationId,
+        resourceId: postId,
+        resourceType: 'scheduled_post',
+        metadata: {
+          platformType: scheduledPost.post.platformType,
+          attempts: attempt,
+          errorClass,
+          error
+        }
       });
+    }
 
-      return false;
+    logger.error('Post failed to publish', {
+      postId,
+      errorClass,
+      attempt,
+      willRetry: shouldRetry,
+      error
+    });
+  }
+
+  /**
+   * Choose the error class that drives retries when several accounts failed.
+   * Validation only wins when every account rejected the content.
+   */
+  private pickErrorClass(results: PublishResult[]): PublishErrorClass {
+    const classes = results.map((r) => r.errorClass || PublishErrorClass.UNKNOWN);
+    return classes.find((c) => c !== PublishErrorClass.VALIDATION) || PublishErrorClass.VALIDATION;
+  }
+
+  private earliestDate(current: Date | undefined, candidate: Date | undefined): Date | undefined {
+    if (!candidate) {
+      return current;
     }
+
+    return !current || candidate < current ? candidate : current;
   }
 
   /**
@@ -306,12 +521,19 @@ export class PublishProcessor {
           accessToken: connection.accessToken,
           refreshToken: connection.refreshToken,
           expiresAt: connection.expiresAt,
-          scope: []
+          scope: [],
+          // Providers key their shared rate limit budget by the connected account
+          additionalData: { accountId: connection.accountId }
         }
       );
 
-      // Publish the post
-      const response = await provider.createPost(post);
+      // Publish the post, counting it against the account's shared budget
+      const response = await withRateLimit<PostResponse>(
+        connection.platformType,
+        connection.accountId,
+        () => provider.createPost(post),
+        { bucket: getPublishBucket(connection.platformType), maxRetries: 1, maxWaitMs: 0 }
+      );
 
       return {
         success: true,
@@ -320,6 +542,16 @@ export class PublishProcessor {
         url: response.url
       };
     } catch (error) {
+      if (error instanceof RateLimitExceededError) {
+        return {
+          success: false,
+          platformType: connection.platformType,
+          error: error.message,
+          errorClass: PublishErrorClass.RATE_LIMIT,
+          retryAt: error.retryAt
+        };
+      }
+
       logger.error('Failed to publish to platform', {
         error: error instanceof Error ? error.message : String(error),
         platformType: connection.platformType
@@ -328,23 +560,66 @@ export class PublishProcessor {
       return {
         success: false,
         platformType: connection.platformType,
-        error: error instanceof Error ? error.message : String(error)
+        error: error instanceof Error ? error.message : String(error),
+        errorClass: classifyPublishError(error)
       };
     }
   }
 
   /**
-   * Retry failed posts
+   * Retry failed posts whose backoff has elapsed, without the due-post backfill
    */
   async retryFailedPosts(): Promise<ProcessingStats> {
-    // TODO: Implement retry logic for posts that failed but haven't exceeded max attempts
-    // This would query posts with status 'scheduled' and attempts > 0
-    logger.info('Retry failed posts not yet implemented');
+    const postIds = await publishQueue.getAvailablePostIds(new Date(), this.batchLimit);
+    const retryIds: string[] = [];
+
+    for (const postId of postIds) {
+      const entry = await publishQueue.getEntry(postId);
+      if (entry && entry.attempts > 0) {
+        retryIds.push(postId);
+      }
+    }
+
+    if (retryIds.length === 0) {
+      logger.info('No failed posts due for retry');
+      return this.createStats();
+    }
+
+    return await this.processQueuedPosts(retryIds);
+  }
+
+  /**
+   * Put dead-lettered posts back on the queue
+   */
+  async redriveDeadLetters(postIds: string[]): Promise<string[]> {
+    const redriven: string[] = [];
+
+    for (const postId of postIds) {
+      try {
+        if (await publishQueue.redrive(postId)) {
+          await scheduledPostService.resetForRedrive(postId);
+          redriven.push(postId);
+        }
+      } catch (error) {
+        logger.error('Failed to redrive dead-lettered post', {
+          error: error instanceof Error ? error.message : String(error),
+          postId
+        });
+      }
+    }
+
+    logger.info('Re-drove dead-lettered posts', { requested: postIds.length, redriven: redriven.length });
+
+    return redriven;
+  }
+
+  private createStats(): ProcessingStats {
     return {
       processed: 0,
       successful: 0,
       failed: 0,
       skipped: 0,
+      deferred: 0,
       errors: [],
       startTime: new Date()
     };
@@ -0,0 +1,566 @@
+/**
+ * Publish Queue
+ *
+ * Durable, Firestore-backed queue that sits behind ScheduledPostService.
+ * Features:
+ * - One queue entry per scheduled post (document ID = post ID)
+ * - Per-post leases so concurrent cron invocations never publish twice
+ * - Exponential backoff retries driven by the classified error
+ * - Dead-letter collection for inspection and re-drive
+ */
+
+import { getFirebaseFirestore } from '../../core/firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  Timestamp,
+  serverTimestamp,
+  runTransaction
+} from 'firebase/firestore';
+import { logger } from '../../core/logging/logger';
+import { BackoffPolicy, computeExponentialBackoff } from '../../core/utils/backoff';
+
+/**
+ * Classes of publish failures, each with its own retry behaviour
+ */
+export enum PublishErrorClass {
+  RATE_LIMIT = 'rate_limit',
+  AUTH_EXPIRED = 'auth_expired',
+  VALIDATION = 'validation',
+  TRANSIENT = 'transient',
+  UNKNOWN = 'unknown'
+}
+
+/**
+ * Retry behaviour for a single error class
+ */
+export interface RetryPolicy extends BackoffPolicy {
+  retryable: boolean;
+  maxAttempts: number;
+}
+
+/**
+ * Retry policies per error class
+ */
+export const RETRY_POLICIES: Record<PublishErrorClass, RetryPolicy> = {
+  // Platform windows are usually 15 minutes, so back off generously
+  [PublishErrorClass.RATE_LIMIT]: {
+    retryable: true,
+    baseDelayMs: 5 * 60 * 1000,
+    maxDelayMs: 2 * 60 * 60 * 1000,
+    maxAttempts: 6
+  },
+  // Gives the token refresh cron a chance to renew the credentials
+  [PublishErrorClass.AUTH_EXPIRED]: {
+    retryable: true,
+    baseDelayMs: 15 * 60 * 1000,
+    maxDelayMs: 60 * 60 * 1000,
+    maxAttempts: 2
+  },
+  // The content itself was rejected - retrying will not help
+  [PublishErrorClass.VALIDATION]: {
+    retryable: false,
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+    maxAttempts: 1
+  },
+  [PublishErrorClass.TRANSIENT]: {
+    retryable: true,
+    baseDelayMs: 60 * 1000,
+    maxDelayMs: 30 * 60 * 1000,
+    maxAttempts: 5
+  },
+  [PublishErrorClass.UNKNOWN]: {
+    retryable: true,
+    baseDelayMs: 2 * 60 * 1000,
+    maxDelayMs: 30 * 60 * 1000,
+    maxAttempts: 3
+  }
+};
+
+/**
+ * Classify a publish error from its HTTP status or message
+ */
+export function classifyPublishError(error: unknown): PublishErrorClass {
+  const err = error as any;
+  const status: number | undefined = err?.response?.status ?? err?.status ?? err?.statusCode;
+  const message = String(err instanceof Error ? err.message : err ?? '').toLowerCase();
+
+  if (status === 429 || /rate.?limit|too many requests|quota/.test(message)) {
+    return PublishErrorClass.RATE_LIMIT;
+  }
+
+  if (
+    status === 401 ||
+    /token.*(expired|invalid|revoked)|unauthori[sz]ed|invalid_grant|reauthori[sz]e/.test(message)
+  ) {
+    return PublishErrorClass.AUTH_EXPIRED;
+  }
+
+  if (
+    status === 400 ||
+    status === 413 ||
+    status === 422 ||
+    /validation|too long|exceeds|not supported|unsupported|invalid (media|content|format)|duplicate/.test(message)
+  ) {
+    return PublishErrorClass.VALIDATION;
+  }
+
+  if (
+    (status !== undefined && status >= 500) ||
+    /timeout|timed out|econnreset|econnrefused|enotfound|socket hang up|network|unavailable/.test(message)
+  ) {
+    return PublishErrorClass.TRANSIENT;
+  }
+
+  return PublishErrorClass.UNKNOWN;
+}
+
+/**
+ * Compute the backoff delay for the given attempt (1-based) with full jitter
+ */
+export function computeBackoffDelay(
+  errorClass: PublishErrorClass,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  return computeExponentialBackoff(RETRY_POLICIES[errorClass], attempt, random);
+}
+
+/**
+ * Build the idempotency key for publishing a post to one connected account
+ */
+export function buildPublishKey(postId: string, accountId: string): string {
+  return `${postId}:${accountId}`;
+}
+
+export type PublishQueueStatus = 'pending' | 'leased' | 'completed' | 'dead';
+
+/**
+ * Queue entry document structure
+ */
+export interface PublishQueueEntry {
+  postId: string;
+  status: PublishQueueStatus;
+  // When the entry may next be claimed; for leased entries this equals the lease expiry
+  availableAt: Date;
+  attempts: number;
+  leaseOwner?: string;
+  leaseExpiresAt?: Date;
+  lastError?: string;
+  lastErrorClass?: PublishErrorClass;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Dead-letter document structure
+ */
+export interface DeadLetterEntry {
+  postId: string;
+  userId: string;
+  organizationId: string;
+  platformType: string;
+  attempts: number;
+  error: string;
+  errorClass: PublishErrorClass;
+  deadLetteredAt: Date;
+  redrivenAt?: Date;
+}
+
+/**
+ * Durable publish queue with leases and a dead-letter collection
+ */
+export class PublishQueue {
+  private getFirestore() {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) throw new Error('Firestore not configured');
+    return firestore;
+  }
+
+  private readonly queueCollection = 'publishQueue';
+  private readonly deadLetterCollection = 'publishDeadLetters';
+
+  /**
+   * Add a post to the queue; a no-op when the post is already queued
+   */
+  async enqueue(postId: string, availableAt: Date): Promise<void> {
+    const entryRef = doc(this.getFirestore(), this.queueCollection, postId);
+
+    await runTransaction(this.getFirestore(), async (transaction) => {
+      const snapshot = await transaction.get(entryRef);
+      if (snapshot.exists()) {
+        return;
+      }
+
+      transaction.set(entryRef, {
+        postId,
+        status: 'pending',
+        availableAt: Timestamp.fromDate(availableAt),
+        attempts: 0,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+    });
+  }
+
+  /**
+   * Move a pending entry to a new time (e.g. after the post was rescheduled)
+   */
+  async reschedule(postId: string, availableAt: Date): Promise<void> {
+    const entryRef = doc(this.getFirestore(), this.queueCollection, postId);
+
+    await runTransaction(this.getFirestore(), async (transaction) => {
+      const snapshot = await transaction.get(entryRef);
+      if (!snapshot.exists()) {
+        transaction.set(entryRef, {
+          postId,
+          status: 'pending',
+          availableAt: Timestamp.fromDate(availableAt),
+          attempts: 0,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+        return;
+      }
+
+      // Never move an entry out from under an active lease
+      if (snapshot.data().status !== 'pending') {
+        return;
+      }
+
+      transaction.update(entryRef, {
+        availableAt: Timestamp.fromDate(availableAt),
+        updatedAt: serverTimestamp()
+      });
+    });
+  }
+
+  /**
+   * Remove a post from the queue
+   */
+  async remove(postId: string): Promise<void> {
+    await deleteDoc(doc(this.getFirestore(), this.queueCollection, postId));
+  }
+
+  /**
+   * Get IDs of posts whose entries can be claimed now, including expired leases.
+   * Errors are rethrown so a failing query (e.g. a missing index) fails the
+   * cron run instead of looking like an empty queue.
+   */
+  async getAvailablePostIds(now: Date = new Date(), max: number = 50): Promise<string[]> {
+    try {
+      const q = query(
+        collection(this.getFirestore(), this.queueCollection),
+        where('status', 'in', ['pending', 'leased']),
+        where('availableAt', '<=', Timestamp.fromDate(now)),
+        orderBy('availableAt', 'asc'),
+        limit(max)
+      );
+
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map((entry) => entry.id);
+    } catch (error) {
+      logger.error('Failed to get available queue entries', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Try to take a lease on a post. Returns the leased entry, or null when the
+   * entry is not due, already leased by someone else, or finished.
+   */
+  async acquireLease(
+    postId: string,
+    ownerId: string,
+    leaseDurationMs: number,
+    now: Date = new Date()
+  ): Promise<PublishQueueEntry | null> {
+    const entryRef = doc(this.getFirestore(), this.queueCollection, postId);
+
+    try {
+      return await runTransaction(this.getFirestore(), async (transaction) => {
+        const snapshot = await transaction.get(entryRef);
+        if (!snapshot.exists()) {
+          return null;
+        }
+
+        const entry = this.toEntry(snapshot.data());
+
+        if (entry.status === 'completed' || entry.status === 'dead') {
+          return null;
+        }
+        if (entry.availableAt > now) {
+          return null;
+        }
+        if (
+          entry.status === 'leased' &&
+          entry.leaseOwner !== ownerId &&
+          entry.leaseExpiresAt &&
+          entry.leaseExpiresAt > now
+        ) {
+          return null;
+        }
+
+        const leaseExpiresAt = new Date(now.getTime() + leaseDurationMs);
+
+        transaction.update(entryRef, {
+          status: 'leased',
+          leaseOwner: ownerId,
+          leaseExpiresAt: Timestamp.fromDate(leaseExpiresAt),
+          availableAt: Timestamp.fromDate(leaseExpiresAt),
+          updatedAt: serverTimestamp()
+        });
+
+        return {
+          ...entry,
+          status: 'leased' as PublishQueueStatus,
+          leaseOwner: ownerId,
+          leaseExpiresAt,
+          availableAt: leaseExpiresAt
+        };
+      });
+    } catch (error) {
+      logger.error('Failed to acquire publish lease', {
+        error: error instanceof Error ? error.message : String(error),
+        postId
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Mark a leased entry as completed
+   */
+  async complete(postId: string, ownerId: string): Promise<void> {
+    await this.updateIfOwner(postId, ownerId, {
+      status: 'completed',
+      leaseOwner: null,
+      leaseExpiresAt: null
+    });
+  }
+
+  /**
+   * Release a lease and schedule the next attempt
+   */
+  async scheduleRetry(
+    postId: string,
+    ownerId: string,
+    error: string,
+    errorClass: PublishErrorClass,
+    delayMs: number,
+    now: Date = new Date()
+  ): Promise<Date> {
+    const retryAt = new Date(now.getTime() + delayMs);
+
+    await this.updateIfOwner(postId, ownerId, {
+      status: 'pending',
+      availableAt: Timestamp.fromDate(retryAt),
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      lastError: error,
+      lastErrorClass: errorClass
+    }, true);
+
+    logger.info('Publish retry scheduled', { postId, errorClass, retryAt });
+
+    return retryAt;
+  }
+
+  /**
+   * Release a lease and push the entry back without counting an attempt,
+   * e.g. while the platform's rate limit budget is exhausted
+   */
+  async defer(postId: string, ownerId: string, availableAt: Date, reason: string): Promise<void> {
+    await this.updateIfOwner(postId, ownerId, {
+      status: 'pending',
+      availableAt: Timestamp.fromDate(availableAt),
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      lastError: reason,
+      lastErrorClass: PublishErrorClass.RATE_LIMIT
+    });
+
+    logger.info('Publish deferred', { postId, availableAt });
+  }
+
+  /**
+   * Move a post to the dead-letter collection
+   */
+  async deadLetter(
+    ownerId: string,
+    entry: Omit<DeadLetterEntry, 'deadLetteredAt' | 'redrivenAt'>
+  ): Promise<void> {
+    const firestore = this.getFirestore();
+    const entryRef = doc(firestore, this.queueCollection, entry.postId);
+    const deadLetterRef = doc(firestore, this.deadLetterCollection, entry.postId);
+
+    await runTransaction(firestore, async (transaction) => {
+      const snapshot = await transaction.get(entryRef);
+      if (snapshot.exists() && snapshot.data().leaseOwner !== ownerId) {
+        throw new Error('Publish lease lost');
+      }
+
+      transaction.set(deadLetterRef, {
+        ...entry,
+        deadLetteredAt: serverTimestamp(),
+        redrivenAt: null
+      });
+
+      transaction.set(entryRef, {
+        postId: entry.postId,
+        status: 'dead',
+        attempts: entry.attempts,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        lastError: entry.error,
+        lastErrorClass: entry.errorClass,
+        updatedAt: serverTimestamp()
+      }, { merge: true });
+    });
+
+    logger.warn('Post moved to dead-letter queue', {
+      postId: entry.postId,
+      errorClass: entry.errorClass,
+      attempts: entry.attempts
+    });
+  }
+
+  /**
+   * List dead-lettered posts that have not been re-driven
+   */
+  async listDeadLetters(options?: {
+    organizationId?: string;
+    limit?: number;
+  }): Promise<DeadLetterEntry[]> {
+    try {
+      const constraints = [where('redrivenAt', '==', null)];
+      if (options?.organizationId) {
+        constraints.push(where('organizationId', '==', options.organizationId));
+      }
+
+      const q = query(
+        collection(this.getFirestore(), this.deadLetterCollection),
+        ...constraints,
+        orderBy('deadLetteredAt', 'desc'),
+        limit(options?.limit || 100)
+      );
+
+      const snapshot = await getDocs(q);
+
+      return snapshot.docs.map((entry) => {
+        const data = entry.data();
+        return {
+          postId: data.postId,
+          userId: data.userId,
+          organizationId: data.organizationId,
+          platformType: data.platformType,
+          attempts: data.attempts || 0,
+          error: data.error,
+          errorClass: data.errorClass as PublishErrorClass,
+          deadLetteredAt: data.deadLetteredAt?.toDate() || new Date(),
+          redrivenAt: data.redrivenAt?.toDate()
+        };
+      });
+    } catch (error) {
+      logger.error('Failed to list dead letters', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Put a dead-lettered post back on the queue for immediate processing
+   */
+  async redrive(postId: string, now: Date = new Date()): Promise<boolean> {
+    const firestore = this.getFirestore();
+    const entryRef = doc(firestore, this.queueCollection, postId);
+    const deadLetterRef = doc(firestore, this.deadLetterCollection, postId);
+
+    return await runTransaction(firestore, async (transaction) => {
+      const deadLetter = await transaction.get(deadLetterRef);
+      if (!deadLetter.exists() || deadLetter.data().redrivenAt) {
+        return false;
+      }
+
+      transaction.update(deadLetterRef, { redrivenAt: serverTimestamp() });
+      transaction.set(entryRef, {
+        postId,
+        status: 'pending',
+        availableAt: Timestamp.fromDate(now),
+        attempts: 0,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        updatedAt: serverTimestamp()
+      }, { merge: true });
+
+      return true;
+    });
+  }
+
+  /**
+   * Get a queue entry
+   */
+  async getEntry(postId: string): Promise<PublishQueueEntry | null> {
+    const snapshot = await getDoc(doc(this.getFirestore(), this.queueCollection, postId));
+    return snapshot.exists() ? this.toEntry(snapshot.data()) : null;
+  }
+
+  /**
+   * Apply an update only while the caller still holds the lease
+   */
+  private async updateIfOwner(
+    postId: string,
+    ownerId: string,
+    updates: Record<string, any>,
+    countAttempt: boolean = false
+  ): Promise<void> {
+    const entryRef = doc(this.getFirestore(), this.queueCollection, postId);
+
+    await runTransaction(this.getFirestore(), async (transaction) => {
+      const snapshot = await transaction.get(entryRef);
+      if (!snapshot.exists()) {
+        throw new Error('Queue entry not found');
+      }
+
+      const data = snapshot.data();
+      if (data.leaseOwner !== ownerId) {
+        throw new Error('Publish lease lost');
+      }
+
+      transaction.update(entryRef, {
+        ...updates,
+        ...(countAttempt ? { attempts: (data.attempts || 0) + 1 } : {}),
+        updatedAt: serverTimestamp()
+      });
+    });
+  }
+
+  private toEntry(data: any): PublishQueueEntry {
+    return {
+      postId: data.postId,
+      status: data.status as PublishQueueStatus,
+      availableAt: data.availableAt?.toDate() || new Date(0),
+      attempts: data.attempts || 0,
+      leaseOwner: data.leaseOwner || undefined,
+      leaseExpiresAt: data.leaseExpiresAt?.toDate(),
+      lastError: data.lastError,
+      lastErrorClass: data.lastErrorClass,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date()
+    };
+  }
+}
+
+// Export singleton instance
+export const publishQueue = new PublishQueue();
@@ -30,6 +30,9 @@ import { Firestore,
 import { logger } from '../../core/logging/logger';
 import { PlatformType } from '../platforms/PlatformProvider';
 import { PostStatus, PlatformPost, PostSchedule, PostAttachment } from '../platforms/models/content';
+import { publishQueue, PublishErrorClass } from './PublishQueue';
+import { emitWebhookEvent } from '../../webhooks/events';
+import { WebhookEventType } from '../../webhooks/event-types';
 
 /**
  * Scheduled post document structure
@@ -61,6 +64,8 @@ export interface ScheduledPost {
   // Results
   platformPostIds?: Partial<Record<PlatformType, string>>;
   publishUrls?: Partial<Record<PlatformType, string>>;
+  // Per-account results keyed by publish idempotency key
+  publishKeys?: Record<string, PublishResult>;
 
   // Metadata
   tags?: string[];
@@ -87,6 +92,9 @@ export interface PublishResult {
   platformPostId?: string;
   url?: string;
   error?: string;
+  errorClass?: PublishErrorClass;
+  // Set when the account's rate limit budget is exhausted and publishing should be deferred
+  retryAt?: Date;
 }
 
 /**
@@ -100,7 +108,6 @@ export class ScheduledPostService {
   }
 
   private readonly scheduledPostsCollection = 'scheduledPosts';
-  private readonly publishQueueCollection = 'publishQueue';
   private readonly maxRetries = 3;
   private readonly retryDelayMs = 60000; // 1 minute
 
@@ -145,6 +152,16 @@ export class ScheduledPostService {
         }
       );
 
+      try {
+        await publishQueue.enqueue(docRef.id, schedule.publishAt);
+      } catch (queueError) {
+        // The publish processor backfills missing queue entries from due posts
+        logger.warn('Failed to enqueue scheduled post', {
+          postId: docRef.id,
+          error: queueError instanceof Error ? queueError.message : String(queueError)
+        });
+      }
+
       logger.info('Scheduled post created', {
         postId: docRef.id,
         userId,
@@ -152,6 +169,14 @@ export class ScheduledPostService {
         platforms: post.platformType
       });
 
+      void emitWebhookEvent(WebhookEventType.POST_SCHEDULED, {
+        postId: docRef.id,
+        userId,
+        platformType: post.platformType,
+        scheduledFor: schedule.publishAt.toISOString(),
+        content: post.content
+      }, organizationId);
+
       return docRef.id;
     } catch (error) {
       logger.error('Failed to create scheduled post', {
@@ -195,6 +220,7 @@ export class ScheduledPostService {
         lastError: data.lastError,
         platformPostIds: data.platformPostIds,
         publishUrls: data.publishUrls,
+        publishKeys: data.publishKeys || {},
         tags: data.tags || [],
         notes: data.notes,
         metadata: data.metadata || {}
@@ -272,6 +298,7 @@ export class ScheduledPostService {
           lastError: data.lastError,
           platformPostIds: data.platformPostIds,
           publishUrls: data.publishUrls,
+          publishKeys: data.publishKeys || {},
           tags: data.tags || [],
           notes: data.notes,
           metadata: data.metadata || {}
@@ -286,6 +313,66 @@ export class ScheduledPostService {
     }
   }
 
+  /**
+   * Get a user's or an organization's posts scheduled within a date range,
+   * in any status. Throws rather than returning an empty list so callers
+   * can tell a failed lookup from no posts.
+   */
+  async getScheduledPostsInRange(
+    owner: { userId: string } | { organizationId: string },
+    startDate: Date,
+    endDate: Date,
+    maxResults: number = 500
+  ): Promise<ScheduledPost[]> {
+    try {
+      const q = query(
+        collection(this.getFirestore(), this.scheduledPostsCollection),
+        'userId' in owner ? where('userId', '==', owner.userId) : where('organizationId', '==', owner.organizationId),
+        where('scheduledFor', '>=', Timestamp.fromDate(startDate)),
+        where('scheduledFor', '<=', Timestamp.fromDate(endDate)),
+        orderBy('scheduledFor', 'asc'),
+        limit(maxResults)
+      );
+
+      const snapshot = await getDocs(q);
+
+      return snapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          userId: data.userId,
+          organizationId: data.organizationId,
+          post: data.post,
+          schedule: {
+            ...data.schedule,
+            publishAt: data.schedule.publishAt.toDate()
+          },
+          status: data.status as PostStatus,
+          createdAt: data.createdAt?.toDate() || new Date(),
+          updatedAt: data.updatedAt?.toDate() || new Date(),
+          scheduledFor: data.scheduledFor?.toDate() || new Date(),
+          publishedAt: data.publishedAt?.toDate(),
+          attempts: data.attempts || 0,
+          maxAttempts: data.maxAttempts || 3,
+          lastAttemptAt: data.lastAttemptAt?.toDate(),
+          lastError: data.lastError,
+          platformPostIds: data.platformPostIds,
+          publishUrls: data.publishUrls,
+          publishKeys: data.publishKeys || {},
+          tags: data.tags || [],
+          notes: data.notes,
+          metadata: data.metadata || {}
+        };
+      });
+    } catch (error) {
+      logger.error('Failed to get scheduled posts in range', {
+        error: error instanceof Error ? error.message : String(error),
+        ...owner
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get posts due for publishing
    */
@@ -323,6 +410,7 @@ export class ScheduledPostService {
           lastError: data.lastError,
           platformPostIds: data.platformPostIds,
           publishUrls: data.publishUrls,
+          publishKeys: data.publishKeys || {},
           tags: data.tags || [],
           notes: data.notes,
           metadata: data.metadata || {}
@@ -367,6 +455,10 @@ export class ScheduledPostService {
 
       await updateDoc(docRef, updateData);
 
+      if (updates.schedule) {
+        await publishQueue.reschedule(postId, updates.schedule.publishAt);
+      }
+
       logger.info('Scheduled post updated', { postId, updates: Object.keys(updates) });
     } catch (error) {
       logger.error('Failed to update scheduled post', {
@@ -424,7 +516,8 @@ export class ScheduledPostService {
   async markAsFailed(
     postId: string,
     error: string,
-    shouldRetry: boolean = true
+    shouldRetry: boolean = true,
+    maxAttemptsOverride?: number
   ): Promise<void> {
     try {
       const post = await this.getScheduledPost(postId);
@@ -434,7 +527,7 @@ export class ScheduledPostService {
       }
 
       const newAttempts = post.attempts + 1;
-      const maxAttempts = post.maxAttempts || 3;
+      const maxAttempts = maxAttemptsOverride || post.maxAttempts || 3;
 
       const updateData: any = {
         attempts: newAttempts,
@@ -470,12 +563,57 @@ export class ScheduledPostService {
     }
   }
 
+  /**
+   * Record the result of publishing to one account so retries skip it
+   */
+  async recordPublishResult(
+    postId: string,
+    publishKey: string,
+    result: PublishResult
+  ): Promise<void> {
+    try {
+      await updateDoc(doc(this.getFirestore(), this.scheduledPostsCollection, postId), {
+        [`publishKeys.${publishKey}`]: result,
+        updatedAt: serverTimestamp()
+      });
+    } catch (error) {
+      logger.error('Failed to record publish result', {
+        error: error instanceof Error ? error.message : String(error),
+        postId,
+        publishKey
+      });
+      throw new Error('Failed to record publish result');
+    }
+  }
+
+  /**
+   * Reset a failed post so it can be re-driven from the dead-letter queue
+   */
+  async resetForRedrive(postId: string): Promise<void> {
+    try {
+      await updateDoc(doc(this.getFirestore(), this.scheduledPostsCollection, postId), {
+        status: 'scheduled',
+        attempts: 0,
+        updatedAt: serverTimestamp()
+      });
+
+      logger.info('Scheduled post reset for redrive', { postId });
+    } catch (error) {
+      logger.error('Failed to reset scheduled post', {
+        error: error instanceof Error ? error.message : String(error),
+        postId
+      });
+      throw new Error('Failed to reset scheduled post');
+    }
+  }
+
   /**
    * Delete scheduled post
    */
   async deleteScheduledPost(postId: string): Promise<void> {
     try {
       await deleteDoc(doc(this.getFirestore(), this.scheduledPostsCollection, postId));
+      await publishQueue.remove(postId);
 
       logger.info('Scheduled post deleted', { postId });
     } catch (error) {
@@ -23,6 +23,7 @@ import { ValidationUtils } from './utils/validation';
 import { CacheManager } from './utils/cache';
 import { Logger } from '../logging';
 import { getFirebaseFirestore } from '../../core/firebase';
+import { isSealedSecret, openJson, sealJson } from '../../core/security/encryption';
 import { Firestore, 
   collection, 
   doc, 
@@ -39,6 +40,11 @@ import { Firestore,
   Timestamp 
 } from 'firebase/firestore';
 
+/**
+ * Encryption context for storage connection credentials
+ */
+export const STORAGE_CREDENTIALS_CONTEXT = 'storage-connection-credentials';
+
 /**
  * Main Storage Service - Singleton orchestrator for all storage operations
  */
@@ -304,14 +310,18 @@ export class StorageService {
 
       // Process file if needed
       let processedFile = file;
+      const mimeType = params.mimeType || (file instanceof File ? file.type : '');
       if (params.processing) {
-        processedFile = await this.mediaProcessor.processFile(file, params.processing);
+        processedFile = await this.mediaProcessor.processFile(file, params.processing, mimeType);
       }
 
       // Upload to provider
       const credentials = await this.decryptCredentials(connection.config.credentials);
       const metadata = await provider.uploadFile(credentials, processedFile, params);
 
+      // Probe video and audio for duration and resolution, and upload a poster frame
+      const mediaDetails = await this.extractTimedMediaDetails(provider, credentials, processedFile, mimeType, params);
+
       // Create media file record
       const mediaFileData = {
         organizationId: connection.organizationId,
@@ -323,7 +333,8 @@ export class StorageService {
         mimeType: metadata.mimeType,
         fileType: ValidationUtils.getFileTypeFromMimeType(metadata.mimeType),
         uploadedAt: Timestamp.now(),
-        metadata: metadata.metadata || {}
+        ...(mediaDetails.dimensions ? { dimensions: mediaDetails.dimensions } : {}),
+        metadata: { ...(metadata.metadata || {}), ...mediaDetails.metadata }
       };
 
       const docRef = await addDoc(collection(this.getFirestore(), 'mediaFiles'), mediaFileData);
@@ -360,6 +371,53 @@ export class StorageService {
     }
   }
 
+  /**
+   * Probe an uploaded video or audio file and, for videos, upload a poster
+   * frame when requested. Failures are logged rather than failing the upload.
+   */
+  private async extractTimedMediaDetails(
+    provider: any,
+    credentials: any,
+    file: File | Buffer,
+    mimeType: string,
+    params: UploadParams
+  ): Promise<{ dimensions?: { width: number; height: number }; metadata: Record<string, any> }> {
+    const isVideo = mimeType.startsWith('video/');
+    if ((!isVideo && !mimeType.startsWith('audio/')) || params.extractMetadata === false) {
+      return { metadata: {} };
+    }
+
+    try {
+      const buffer = Buffer.isBuffer(file) ? file : Buffer.from(await (file as File).arrayBuffer());
+      const probed = await this.mediaProcessor.extractMediaMetadata(buffer);
+      const metadata: Record<string, any> = {
+        ...probed.metadata,
+        duration: probed.duration,
+        ...(probed.bitrate ? { bitrate: probed.bitrate } : {})
+      };
+
+      if (isVideo && (params.generateThumbnail || params.processing?.thumbnail)) {
+        const poster = await this.mediaProcessor.extractPosterFrame(buffer, params.processing?.thumbnail);
+        const baseName = (params.filename || 'video').replace(/\.[^.]+$/, '');
+        const posterMetadata = await provider.uploadFile(credentials, poster, {
+          filename: `${baseName}_poster.jpg`,
+          folder: params.folder,
+          makePublic: params.makePublic,
+          mimeType: 'image/jpeg'
+        });
+        metadata.thumbnailUrl = posterMetadata.url;
+      }
+
+      return { dimensions: probed.dimensions, metadata };
+    } catch (error) {
+      this.logger.warn('Failed to extract media details', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        mimeType
+      });
+      return { metadata: {} };
+    }
+  }
+
   /**
    * Get files with pagination and filtering
    */
@@ -660,15 +718,17 @@ export class StorageService {
    * Encrypt credentials for storage
    */
   private async encryptCredentials(credentials: Record<string, any>): Promise<string> {
-    // In production, implement proper encryption
-    return JSON.stringify(credentials);
+    return sealJson(credentials, STORAGE_CREDENTIALS_CONTEXT);
   }
 
   /**
-   * Decrypt credentials from storage
+   * Decrypt credentials from storage; connections saved before encryption
+   * hold plain JSON until the next key rotation re-seals them
    */
   private async decryptCredentials(encryptedCredentials: string): Promise<Record<string, any>> {
-    // In production, implement proper decryption
+    if (isSealedSecret(encryptedCredentials)) {
+      return openJson<Record<string, any>>(encryptedCredentials, STORAGE_CREDENTIALS_CONTEXT);
+    }
     return JSON.parse(encryptedCredentials);
   }
 
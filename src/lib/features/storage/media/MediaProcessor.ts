@@ -1,5 +1,21 @@
-import { ProcessingOptions, StorageError, StorageErrorType } from '../types';
+import { ProcessingOptions, FileMetadata, StorageError, StorageErrorType } from '../types';
 import { Logger } from '../../logging';
+import { mkdtemp, readFile, writeFile, stat, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  MediaProbe,
+  VIDEO_PLATFORM_PRESETS,
+  runFfmpeg,
+  probeFile,
+  parseLoudnessMeasurement,
+  buildInputArgs,
+  buildLoudnormFilter,
+  buildVideoTranscodeArgs,
+  buildAudioTranscodeArgs,
+  buildPosterFrameArgs,
+  LoudnessMeasurement
+} from './ffmpeg';
 
 export class MediaProcessor {
   private logger: Logger;
@@ -8,9 +24,14 @@ export class MediaProcessor {
     this.logger = new Logger('MediaProcessor');
   }
 
+  /**
+   * Process a file according to the options
+   * @param mimeType MIME type of a Buffer input; File inputs carry their own
+   */
   async processFile(
     file: File | Buffer,
-    options: ProcessingOptions
+    options: ProcessingOptions,
+    mimeType?: string
   ): Promise<File | Buffer> {
     try {
       this.logger.info('Starting media processing', { options });
@@ -26,7 +47,7 @@ export class MediaProcessor {
         originalMimeType = file.type;
       } else {
         buffer = file;
-        originalMimeType = 'application/octet-stream';
+        originalMimeType = mimeType || 'application/octet-stream';
       }
 
       // Process based on file type
@@ -136,29 +157,150 @@ export class MediaProcessor {
     }
   }
 
+  /**
+   * Transcode video to the target platform's codec, bitrate and aspect ratio,
+   * with optional trimming and loudness normalization
+   */
   private async processVideo(
     buffer: Buffer,
     options: ProcessingOptions,
     mimeType: string
   ): Promise<Buffer> {
-    // Video processing is complex and typically requires server-side tools
-    // For now, we'll return the original buffer
-    // In production, you might use FFmpeg or similar tools
-    
-    this.logger.warn('Video processing not implemented, returning original file');
-    return buffer;
+    if (!options.targetPlatform && !options.video && !options.audio && !options.trim && !options.resize && !options.format) {
+      return buffer;
+    }
+
+    const preset = options.targetPlatform ? VIDEO_PLATFORM_PRESETS[options.targetPlatform] : undefined;
+    const extension = options.video?.codec === 'vp9' || options.format === 'webm' ? 'webm' : (options.format || 'mp4');
+
+    return this.withTempDirectory(async (directory) => {
+      const inputPath = path.join(directory, 'input');
+      const outputPath = path.join(directory, `output.${extension}`);
+      await writeFile(inputPath, buffer);
+
+      const probe = await probeFile(inputPath);
+      if (!probe.hasVideo) {
+        throw new Error('No video stream found');
+      }
+
+      const duration = this.getTrimmedDuration(probe, options);
+      if (preset?.maxDurationSeconds && duration > preset.maxDurationSeconds) {
+        throw new Error(
+          `Video is ${Math.round(duration)}s; ${options.targetPlatform} accepts at most ${preset.maxDurationSeconds}s. Trim it first.`
+        );
+      }
+
+      const loudness = probe.hasAudio && options.audio?.normalize
+        ? await this.measureLoudness(inputPath, options)
+        : undefined;
+
+      await runFfmpeg(buildVideoTranscodeArgs(inputPath, outputPath, probe, options, loudness));
+
+      const maxSizeBytes = options.video?.maxSizeBytes || preset?.maxSizeBytes;
+      const { size } = await stat(outputPath);
+      if (maxSizeBytes && size > maxSizeBytes) {
+        throw new Error(`Transcoded video is ${size} bytes, over the ${maxSizeBytes} byte limit`);
+      }
+
+      this.logger.info('Video transcoded', {
+        mimeType,
+        targetPlatform: options.targetPlatform,
+        originalSize: buffer.length,
+        size,
+        duration
+      });
+
+      return readFile(outputPath);
+    });
   }
 
+  /**
+   * Transcode audio, with optional trimming and loudness normalization
+   */
   private async processAudio(
     buffer: Buffer,
     options: ProcessingOptions,
     mimeType: string
   ): Promise<Buffer> {
-    // Audio processing is complex and typically requires server-side tools
-    // For now, we'll return the original buffer
-    
-    this.logger.warn('Audio processing not implemented, returning original file');
-    return buffer;
+    if (!options.audio && !options.trim && !options.format) {
+      return buffer;
+    }
+
+    const extensions: Record<string, string> = { aac: 'm4a', mp3: 'mp3', opus: 'ogg', pcm: 'wav' };
+    const extension = options.format || extensions[options.audio?.codec || 'aac'];
+
+    return this.withTempDirectory(async (directory) => {
+      const inputPath = path.join(directory, 'input');
+      const outputPath = path.join(directory, `output.${extension}`);
+      await writeFile(inputPath, buffer);
+
+      const probe = await probeFile(inputPath);
+      if (!probe.hasAudio) {
+        throw new Error('No audio stream found');
+      }
+
+      const loudness = options.audio?.normalize
+        ? await this.measureLoudness(inputPath, options)
+        : undefined;
+
+      await runFfmpeg(buildAudioTranscodeArgs(inputPath, outputPath, options, loudness));
+
+      this.logger.info('Audio transcoded', {
+        mimeType,
+        originalSize: buffer.length,
+        normalized: !!loudness
+      });
+
+      return readFile(outputPath);
+    });
+  }
+
+  /**
+   * First loudnorm pass: measure the input so the second pass can
+   * normalize linearly instead of compressing dynamics
+   */
+  private async measureLoudness(inputPath: string, options: ProcessingOptions): Promise<LoudnessMeasurement> {
+    const stderr = await runFfmpeg([
+      ...buildInputArgs(inputPath, options.trim),
+      '-vn',
+      '-af', buildLoudnormFilter(options.audio?.normalize),
+      '-f', 'null',
+      '-'
+    ]);
+
+    return parseLoudnessMeasurement(stderr);
+  }
+
+  private getTrimmedDuration(probe: MediaProbe, options: ProcessingOptions): number {
+    if (!options.trim) {
+      return probe.duration;
+    }
+
+    const start = options.trim.start || 0;
+    const end = options.trim.duration !== undefined
+      ? start + options.trim.duration
+      : options.trim.end ?? probe.duration;
+
+    return Math.max(0, Math.min(end, probe.duration) - start);
+  }
+
+  /**
+   * Run work in a temporary directory that is always removed afterwards
+   */
+  private async withTempDirectory<T>(work: (directory: string) => Promise<T>): Promise<T> {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'media-'));
+
+    try {
+      return await work(directory);
+    } finally {
+      // Never let a cleanup failure replace the error from the work itself
+      await rm(directory, { recursive: true, force: true }).catch(error => {
+        this.logger.warn('Failed to remove temporary media directory', {
+          directory,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }
   }
 
   private async processDocument(
@@ -339,11 +481,89 @@ export class MediaProcessor {
     }
   }
 
+  /**
+   * Probe video or audio for duration, resolution, codecs and bitrate
+   */
+  async probeMedia(buffer: Buffer): Promise<MediaProbe> {
+    try {
+      return await this.withTempDirectory(async (directory) => {
+        const inputPath = path.join(directory, 'input');
+        await writeFile(inputPath, buffer);
+        return probeFile(inputPath);
+      });
+    } catch (error) {
+      this.logger.error('Failed to probe media', { 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new StorageError(
+        StorageErrorType.PROCESSING_FAILED,
+        'Failed to probe media'
+      );
+    }
+  }
+
+  /**
+   * Extract video or audio metadata in FileMetadata form
+   */
+  async extractMediaMetadata(buffer: Buffer): Promise<Pick<FileMetadata, 'dimensions' | 'duration' | 'bitrate' | 'metadata'>> {
+    const probe = await this.probeMedia(buffer);
+    const details: Record<string, any> = {};
+
+    // Firestore rejects undefined values
+    (['videoCodec', 'audioCodec', 'frameRate', 'sampleRate', 'channels'] as const).forEach(key => {
+      if (probe[key] !== undefined) {
+        details[key] = probe[key];
+      }
+    });
+
+    return {
+      ...(probe.hasVideo && probe.width && probe.height ? { dimensions: { width: probe.width, height: probe.height } } : {}),
+      duration: probe.duration,
+      ...(probe.bitrate ? { bitrate: probe.bitrate } : {}),
+      metadata: details
+    };
+  }
+
+  /**
+   * Extract a poster frame from a video as JPEG
+   * @param options.time Seconds into the video; defaults to 10% in, at most 1s
+   */
+  async extractPosterFrame(
+    buffer: Buffer,
+    options: { time?: number; width?: number } = {}
+  ): Promise<Buffer> {
+    try {
+      return await this.withTempDirectory(async (directory) => {
+        const inputPath = path.join(directory, 'input');
+        const outputPath = path.join(directory, 'poster.jpg');
+        await writeFile(inputPath, buffer);
+
+        const probe = await probeFile(inputPath);
+        const time = Math.min(options.time ?? Math.min(1, probe.duration * 0.1), Math.max(0, probe.duration - 0.1));
+
+        await runFfmpeg(buildPosterFrameArgs(inputPath, outputPath, time, options.width));
+        return readFile(outputPath);
+      });
+    } catch (error) {
+      this.logger.error('Failed to extract poster frame', { 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new StorageError(
+        StorageErrorType.PROCESSING_FAILED,
+        'Failed to extract poster frame'
+      );
+    }
+  }
+
   async generateThumbnail(
     buffer: Buffer,
     mimeType: string,
     size: { width: number; height: number } = { width: 200, height: 200 }
   ): Promise<Buffer> {
+    if (mimeType.startsWith('video/')) {
+      return this.extractPosterFrame(buffer, { width: size.width });
+    }
+
     try {
       return await this.processImage(buffer, {
         resize: {
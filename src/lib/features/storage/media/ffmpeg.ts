@@ -0,0 +1,503 @@
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import ffprobeInstaller from '@ffprobe-installer/ffprobe';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { ProcessingOptions, MediaTargetPlatform, VideoProcessingOptions, AudioProcessingOptions } from '../types';
+
+const execFileAsync = promisify(execFile);
+
+// ffmpeg writes progress and loudnorm stats to stderr
+const MAX_OUTPUT_BUFFER = 16 * 1024 * 1024;
+// A hung or pathological input must not hold a worker (and its temp files) forever
+const FFMPEG_TIMEOUT_MS = 15 * 60 * 1000;
+const FFPROBE_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Platform video requirements
+ */
+export interface VideoPlatformPreset {
+  width: number;
+  height: number;
+  videoBitrate: number; // kbps
+  audioBitrate: number; // kbps
+  maxFrameRate: number;
+  maxDurationSeconds?: number;
+  maxSizeBytes?: number;
+}
+
+/**
+ * Accepted codecs, sizes and limits for each target platform. All presets
+ * produce H.264 High / AAC in an MP4 container with faststart.
+ */
+export const VIDEO_PLATFORM_PRESETS: Record<MediaTargetPlatform, VideoPlatformPreset> = {
+  instagram_reels: {
+    width: 1080,
+    height: 1920,
+    videoBitrate: 5000,
+    audioBitrate: 128,
+    maxFrameRate: 30,
+    maxDurationSeconds: 15 * 60,
+    maxSizeBytes: 1024 * 1024 * 1024
+  },
+  tiktok: {
+    width: 1080,
+    height: 1920,
+    videoBitrate: 6000,
+    audioBitrate: 128,
+    maxFrameRate: 60,
+    maxDurationSeconds: 10 * 60,
+    maxSizeBytes: 4 * 1024 * 1024 * 1024
+  },
+  youtube: {
+    width: 1920,
+    height: 1080,
+    videoBitrate: 8000,
+    audioBitrate: 384,
+    maxFrameRate: 60
+  },
+  youtube_shorts: {
+    width: 1080,
+    height: 1920,
+    videoBitrate: 6000,
+    audioBitrate: 192,
+    maxFrameRate: 60,
+    maxDurationSeconds: 3 * 60
+  },
+  twitter: {
+    width: 1280,
+    height: 720,
+    videoBitrate: 5000,
+    audioBitrate: 128,
+    maxFrameRate: 60,
+    maxDurationSeconds: 140,
+    maxSizeBytes: 512 * 1024 * 1024
+  }
+};
+
+/**
+ * Stream and format details reported by ffprobe
+ */
+export interface MediaProbe {
+  duration: number; // seconds
+  bitrate?: number; // bits per second
+  hasVideo: boolean;
+  hasAudio: boolean;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  sampleRate?: number;
+  channels?: number;
+}
+
+/**
+ * Loudness measured by the first loudnorm pass
+ */
+export interface LoudnessMeasurement {
+  inputI: string;
+  inputTP: string;
+  inputLRA: string;
+  inputThresh: string;
+  targetOffset: string;
+}
+
+// EBU R128 streaming defaults
+const DEFAULT_LOUDNESS = { integratedLoudness: -16, truePeak: -1.5, loudnessRange: 11 };
+
+/**
+ * Run a media binary, killing it once the timeout passes. The rejection
+ * comes after the process has exited, so callers can remove its files.
+ */
+async function execMediaTool(
+  name: string,
+  file: string,
+  args: string[],
+  timeoutMs: number
+): Promise<{ stdout: string; stderr: string }> {
+  try {
+    return await execFileAsync(file, args, {
+      maxBuffer: MAX_OUTPUT_BUFFER,
+      timeout: timeoutMs,
+      killSignal: 'SIGKILL'
+    });
+  } catch (error: any) {
+    if (error?.killed && error.signal === 'SIGKILL') {
+      throw new Error(`${name} timed out after ${Math.round(timeoutMs / 1000)}s`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run ffmpeg
+ * @param timeoutMs Kill ffmpeg after this long
+ * @returns stderr, which carries filter output such as loudnorm stats
+ */
+export async function runFfmpeg(args: string[], timeoutMs: number = FFMPEG_TIMEOUT_MS): Promise<string> {
+  const { stderr } = await execMediaTool('ffmpeg', ffmpegInstaller.path, ['-hide_banner', '-y', ...args], timeoutMs);
+  return stderr;
+}
+
+/**
+ * Probe a media file with ffprobe
+ * @param timeoutMs Kill ffprobe after this long
+ */
+export async function probeFile(filePath: string, timeoutMs: number = FFPROBE_TIMEOUT_MS): Promise<MediaProbe> {
+  const { stdout } = await execMediaTool('ffprobe', ffprobeInstaller.path, [
+    '-v',
+    'error',
+    '-show_entries',
+    'format=duration,bit_rate:stream=codec_type,codec_name,width,height,avg_frame_rate,r_frame_rate,sample_rate,channels',
+    '-of',
+    'json',
+    filePath
+  ], timeoutMs);
+
+  return parseProbeOutput(stdout);
+}
+
+/**
+ * Parse ffprobe JSON output
+ */
+export function parseProbeOutput(output: string): MediaProbe {
+  const parsed = JSON.parse(output || '{}');
+  const streams: any[] = Array.isArray(parsed.streams) ? parsed.streams : [];
+  const video = streams.find(stream => stream.codec_type === 'video');
+  const audio = streams.find(stream => stream.codec_type === 'audio');
+  const bitrate = parsed.format?.bit_rate ? Number(parsed.format.bit_rate) : undefined;
+
+  return {
+    duration: parsed.format?.duration ? Number(parsed.format.duration) : 0,
+    ...(bitrate ? { bitrate } : {}),
+    hasVideo: !!video,
+    hasAudio: !!audio,
+    ...(video ? {
+      width: Number(video.width) || 0,
+      height: Number(video.height) || 0,
+      frameRate: parseFrameRate(video.avg_frame_rate) || parseFrameRate(video.r_frame_rate),
+      videoCodec: video.codec_name
+    } : {}),
+    ...(audio ? {
+      audioCodec: audio.codec_name,
+      sampleRate: audio.sample_rate ? Number(audio.sample_rate) : undefined,
+      channels: audio.channels ? Number(audio.channels) : undefined
+    } : {})
+  };
+}
+
+/**
+ * Parse an ffprobe rational frame rate ("30000/1001")
+ */
+function parseFrameRate(value?: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const [numerator, denominator] = value.split('/').map(Number);
+  if (!numerator || !denominator) {
+    return undefined;
+  }
+
+  return Math.round((numerator / denominator) * 100) / 100;
+}
+
+/**
+ * Parse the JSON block printed by a loudnorm measurement pass
+ */
+export function parseLoudnessMeasurement(stderr: string): LoudnessMeasurement {
+  const start = stderr.lastIndexOf('{');
+  const end = stderr.lastIndexOf('}');
+
+  if (start === -1 || end < start) {
+    throw new Error('Loudness measurement not found in ffmpeg output');
+  }
+
+  const stats = JSON.parse(stderr.slice(start, end + 1));
+
+  return {
+    inputI: stats.input_i,
+    inputTP: stats.input_tp,
+    inputLRA: stats.input_lra,
+    inputThresh: stats.input_thresh,
+    targetOffset: stats.target_offset
+  };
+}
+
+/**
+ * Build the loudnorm filter. Without a measurement this is the analysis
+ * pass; with one it applies linear normalization to the measured values.
+ */
+export function buildLoudnormFilter(
+  normalize: AudioProcessingOptions['normalize'],
+  measurement?: LoudnessMeasurement
+): string {
+  const target = { ...DEFAULT_LOUDNESS, ...(typeof normalize === 'object' ? normalize : {}) };
+  const base = `loudnorm=I=${target.integratedLoudness}:TP=${target.truePeak}:LRA=${target.loudnessRange}`;
+
+  if (!measurement) {
+    return `${base}:print_format=json`;
+  }
+
+  return `${base}:measured_I=${measurement.inputI}:measured_TP=${measurement.inputTP}` +
+    `:measured_LRA=${measurement.inputLRA}:measured_thresh=${measurement.inputThresh}` +
+    `:offset=${measurement.targetOffset}:linear=true`;
+}
+
+/**
+ * Input arguments with trimming. Seeking before the input is frame-accurate
+ * when re-encoding.
+ */
+export function buildInputArgs(inputPath: string, trim?: ProcessingOptions['trim']): string[] {
+  const args: string[] = [];
+
+  if (trim?.start) {
+    args.push('-ss', String(trim.start));
+  }
+
+  args.push('-i', inputPath);
+
+  const duration = trim?.duration ?? (trim?.end !== undefined ? trim.end - (trim.start || 0) : undefined);
+  if (duration !== undefined) {
+    if (duration <= 0) {
+      throw new Error('Trim end must be after trim start');
+    }
+    args.push('-t', String(duration));
+  }
+
+  return args;
+}
+
+/**
+ * Output width and height, rounded to even numbers for yuv420p
+ */
+export function resolveOutputSize(
+  probe: MediaProbe,
+  options: ProcessingOptions,
+  preset?: VideoPlatformPreset
+): { width: number; height: number } | undefined {
+  const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  const aspectRatio = options.video?.aspectRatio;
+
+  if (options.resize?.width && options.resize?.height) {
+    return { width: toEven(options.resize.width), height: toEven(options.resize.height) };
+  }
+
+  if (aspectRatio) {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    // Keep the long edge of the preset, or of the source
+    const longEdge = preset
+      ? Math.max(preset.width, preset.height)
+      : Math.max(probe.width || 0, probe.height || 0) || 1920;
+
+    return w >= h
+      ? { width: toEven(longEdge), height: toEven(longEdge * h / w) }
+      : { width: toEven(longEdge * w / h), height: toEven(longEdge) };
+  }
+
+  if (preset) {
+    return { width: preset.width, height: preset.height };
+  }
+
+  return undefined;
+}
+
+/**
+ * Build the video filter chain for scaling, aspect ratio and frame rate
+ */
+export function buildVideoFilter(
+  probe: MediaProbe,
+  options: ProcessingOptions,
+  preset?: VideoPlatformPreset
+): string | undefined {
+  const filters: string[] = [];
+  const size = resolveOutputSize(probe, options, preset);
+
+  if (size) {
+    const mode = options.video?.aspectMode || (options.resize?.fit === 'cover' ? 'crop' : 'pad');
+
+    if (mode === 'crop') {
+      // Fill the frame and crop the overflow
+      filters.push(`scale=${size.width}:${size.height}:force_original_aspect_ratio=increase`, `crop=${size.width}:${size.height}`);
+    } else {
+      // Fit inside the frame and letterbox
+      filters.push(
+        `scale=${size.width}:${size.height}:force_original_aspect_ratio=decrease`,
+        `pad=${size.width}:${size.height}:(ow-iw)/2:(oh-ih)/2:color=black`
+      );
+    }
+    filters.push('setsar=1');
+  } else if (options.resize?.width || options.resize?.height) {
+    filters.push(`scale=${options.resize.width || -2}:${options.resize.height || -2}`);
+  }
+
+  const maxFrameRate = options.video?.frameRate || preset?.maxFrameRate;
+  if (maxFrameRate && (!probe.frameRate || probe.frameRate > maxFrameRate || options.video?.frameRate)) {
+    filters.push(`fps=${maxFrameRate}`);
+  }
+
+  return filters.length > 0 ? filters.join(',') : undefined;
+}
+
+/**
+ * Video bitrate (kbps) that keeps the output under a size limit
+ */
+export function fitBitrateToSize(
+  maxSizeBytes: number,
+  durationSeconds: number,
+  audioBitrate: number,
+  requestedBitrate: number
+): number {
+  if (!durationSeconds) {
+    return requestedBitrate;
+  }
+
+  // Leave 5% for container overhead
+  const totalKbps = (maxSizeBytes * 8 * 0.95) / 1000 / durationSeconds;
+
+  return Math.max(100, Math.min(requestedBitrate, Math.floor(totalKbps - audioBitrate)));
+}
+
+/**
+ * Map a 0-100 quality to an x264/x265 CRF (18 is visually lossless)
+ */
+export function qualityToCrf(quality: number): number {
+  return Math.max(18, Math.min(40, Math.round(18 + (100 - quality) * 0.28)));
+}
+
+/**
+ * Build ffmpeg arguments to transcode a video
+ */
+export function buildVideoTranscodeArgs(
+  inputPath: string,
+  outputPath: string,
+  probe: MediaProbe,
+  options: ProcessingOptions,
+  loudness?: LoudnessMeasurement
+): string[] {
+  const preset = options.targetPlatform ? VIDEO_PLATFORM_PRESETS[options.targetPlatform] : undefined;
+  const video: VideoProcessingOptions = options.video || {};
+  const audio: AudioProcessingOptions = options.audio || {};
+  const args = buildInputArgs(inputPath, options.trim);
+
+  const filter = buildVideoFilter(probe, options, preset);
+  if (filter) {
+    args.push('-vf', filter);
+  }
+
+  const codec = video.codec || 'h264';
+  if (codec === 'vp9') {
+    args.push('-c:v', 'libvpx-vp9', '-row-mt', '1');
+  } else if (codec === 'hevc') {
+    args.push('-c:v', 'libx265', '-tag:v', 'hvc1', '-preset', 'medium');
+  } else {
+    args.push('-c:v', 'libx264', '-preset', 'medium', '-profile:v', 'high');
+  }
+  args.push('-pix_fmt', 'yuv420p');
+
+  const audioBitrate = audio.bitrate || preset?.audioBitrate || 128;
+  const duration = options.trim
+    ? Math.min(probe.duration, options.trim.duration ?? (options.trim.end ?? probe.duration) - (options.trim.start || 0))
+    : probe.duration;
+  const maxSizeBytes = video.maxSizeBytes || preset?.maxSizeBytes;
+  let bitrate = video.bitrate || preset?.videoBitrate;
+
+  if (bitrate && maxSizeBytes) {
+    bitrate = fitBitrateToSize(maxSizeBytes, duration, probe.hasAudio ? audioBitrate : 0, bitrate);
+  }
+
+  if (bitrate) {
+    args.push('-b:v', `${bitrate}k`, '-maxrate', `${bitrate}k`, '-bufsize', `${bitrate * 2}k`);
+  } else {
+    const crf = qualityToCrf(options.compress?.quality ?? 77);
+    args.push('-crf', String(crf), ...(codec === 'vp9' ? ['-b:v', '0'] : []));
+  }
+
+  if (probe.hasAudio) {
+    args.push(
+      '-c:a', codec === 'vp9' ? 'libopus' : 'aac',
+      '-b:a', `${audioBitrate}k`,
+      '-ar', String(audio.sampleRate || 48000),
+      '-ac', String(audio.channels || 2)
+    );
+
+    if (audio.normalize) {
+      args.push('-af', buildLoudnormFilter(audio.normalize, loudness));
+    }
+  } else {
+    args.push('-an');
+  }
+
+  if (codec !== 'vp9') {
+    // Let players start before the whole file has downloaded
+    args.push('-movflags', '+faststart');
+  }
+
+  args.push(outputPath);
+  return args;
+}
+
+/**
+ * Build ffmpeg arguments to transcode audio
+ */
+export function buildAudioTranscodeArgs(
+  inputPath: string,
+  outputPath: string,
+  options: ProcessingOptions,
+  loudness?: LoudnessMeasurement
+): string[] {
+  const audio: AudioProcessingOptions = options.audio || {};
+  const args = buildInputArgs(inputPath, options.trim);
+
+  args.push('-vn');
+
+  if (audio.normalize) {
+    args.push('-af', buildLoudnormFilter(audio.normalize, loudness));
+  }
+
+  switch (audio.codec || 'aac') {
+    case 'mp3':
+      args.push('-c:a', 'libmp3lame');
+      break;
+    case 'opus':
+      args.push('-c:a', 'libopus');
+      break;
+    case 'pcm':
+      args.push('-c:a', 'pcm_s16le');
+      break;
+    default:
+      args.push('-c:a', 'aac');
+  }
+
+  if (audio.codec !== 'pcm') {
+    args.push('-b:a', `${audio.bitrate || 192}k`);
+  }
+
+  args.push('-ar', String(audio.sampleRate || 48000));
+
+  if (audio.channels) {
+    args.push('-ac', String(audio.channels));
+  }
+
+  args.push(outputPath);
+  return args;
+}
+
+/**
+ * Build ffmpeg arguments to extract a poster frame as JPEG
+ */
+export function buildPosterFrameArgs(
+  inputPath: string,
+  outputPath: string,
+  time: number,
+  width?: number
+): string[] {
+  return [
+    '-ss', String(Math.max(0, time)),
+    '-i', inputPath,
+    '-frames:v', '1',
+    ...(width ? ['-vf', `scale=${width}:-2`] : []),
+    '-q:v', '2',
+    outputPath
+  ];
+}
@@ -87,7 +87,10 @@ export enum ProcessingType {
   WATERMARK = 'watermark',
   THUMBNAIL = 'thumbnail',
   OPTIMIZE = 'optimize',
-  METADATA_EXTRACT = 'metadata_extract'
+  METADATA_EXTRACT = 'metadata_extract',
+  TRANSCODE = 'transcode',
+  TRIM = 'trim',
+  NORMALIZE_AUDIO = 'normalize_audio'
 }
 
 /**
@@ -234,6 +237,53 @@ export interface ProcessingOptions {
     sepia?: boolean;
     grayscale?: boolean;
   };
+  // Video and audio
+  targetPlatform?: MediaTargetPlatform;
+  video?: VideoProcessingOptions;
+  audio?: AudioProcessingOptions;
+  trim?: {
+    start?: number; // seconds
+    end?: number; // seconds
+    duration?: number; // seconds, instead of end
+  };
+  thumbnail?: {
+    time?: number; // seconds into the video
+    width?: number;
+  };
+}
+
+/**
+ * Platforms with video transcoding presets
+ */
+export type MediaTargetPlatform = 'instagram_reels' | 'tiktok' | 'youtube' | 'youtube_shorts' | 'twitter';
+
+/**
+ * Video transcoding options; unset values come from the target platform preset
+ */
+export interface VideoProcessingOptions {
+  codec?: 'h264' | 'hevc' | 'vp9';
+  bitrate?: number; // kbps
+  frameRate?: number;
+  aspectRatio?: '9:16' | '16:9' | '1:1' | '4:5';
+  // Letterbox to the aspect ratio, or fill and crop
+  aspectMode?: 'pad' | 'crop';
+  maxSizeBytes?: number;
+}
+
+/**
+ * Audio transcoding options
+ */
+export interface AudioProcessingOptions {
+  codec?: 'aac' | 'mp3' | 'opus' | 'pcm';
+  bitrate?: number; // kbps
+  sampleRate?: number;
+  channels?: number;
+  // EBU R128 loudness normalization (defaults: -16 LUFS, -1.5 dBTP, 11 LU)
+  normalize?: boolean | {
+    integratedLoudness?: number;
+    truePeak?: number;
+    loudnessRange?: number;
+  };
 }
 
 /**
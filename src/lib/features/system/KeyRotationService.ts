@@ -0,0 +1,506 @@
+/**
+ * Key Rotation Service
+ * Re-encrypts every stored secret under the current primary encryption key
+ *
+ * To rotate: set SECONDARY_ENCRYPTION_KEY to the current key and
+ * PRIMARY_ENCRYPTION_KEY to the new one, start a rotation, and remove the
+ * secondary key once the job completes. Jobs run in batches (the admin route
+ * runs the first, the key-rotation cron the rest) and record their cursor
+ * per target, so a job survives timeouts and restarts.
+ */
+
+import { FieldPath, FieldValue, QueryDocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+import { getFirestore } from '@/lib/core/firebase/admin';
+import { logger } from '@/lib/core/logging/logger';
+import {
+  getPrimaryKeyId,
+  isSealedSecret,
+  needsReseal,
+  resealSecret,
+  sealSecret
+} from '@/lib/core/security/encryption';
+import { STORAGE_CREDENTIALS_CONTEXT } from '../storage/StorageService';
+import { CRMConnectionUtils, CRM_TOKENS_CONTEXT } from '../crm/models/CRMConnection';
+import { openAuthState, sealAuthState } from '../platforms/auth/token-manager';
+import { WEBHOOK_SECRET_CONTEXT } from '@/lib/webhooks/WebhookService';
+import { AUDIT_SINK_TOKEN_CONTEXT } from '@/lib/team/activity/audit-export';
+import { TWO_FACTOR_SECRET_CONTEXT } from '../user/auth/TwoFactorManager';
+
+const JOBS_COLLECTION = 'encryption_key_rotations';
+const MAX_RECORDED_ERRORS = 50;
+const DEFAULT_BATCH_SIZE = 200;
+// Long enough for a batch to finish; a crashed batch frees the job after this
+const LEASE_MS = 2 * 60 * 1000;
+
+export type KeyRotationTarget =
+  | 'storage_connections'
+  | 'crm_connections'
+  | 'platform_tokens'
+  | 'webhook_secrets'
+  | 'audit_sink_tokens'
+  | 'two_factor_secrets';
+
+export type KeyRotationStatus = 'running' | 'completed' | 'failed';
+
+export interface KeyRotationTargetProgress {
+  status: 'pending' | 'running' | 'completed';
+  total: number;
+  scanned: number;
+  rotated: number;
+  failed: number;
+  // Path of the last document scanned
+  cursor?: string;
+}
+
+export interface KeyRotationRecordError {
+  target: KeyRotationTarget;
+  path: string;
+  message: string;
+}
+
+export interface KeyRotationJob {
+  id: string;
+  status: KeyRotationStatus;
+  primaryKeyId: string;
+  requestedBy: { id: string; email: string };
+  targets: Record<KeyRotationTarget, KeyRotationTargetProgress>;
+  errors: KeyRotationRecordError[];
+  failureReason?: string;
+  startedAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Overall progress of a job, for display
+ */
+export interface KeyRotationProgress {
+  scanned: number;
+  total: number;
+  rotated: number;
+  failed: number;
+  percentComplete: number;
+}
+
+export class KeyRotationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'ROTATION_IN_PROGRESS' | 'JOB_NOT_FOUND'
+  ) {
+    super(message);
+    this.name = 'KeyRotationError';
+  }
+}
+
+interface ResealedRecord {
+  recordDoc: QueryDocumentSnapshot;
+  updates: Record<string, any>;
+}
+
+/**
+ * Whether a write was refused because the document changed after it was read
+ */
+function isPreconditionFailure(error: unknown): boolean {
+  const code = (error as { code?: number | string } | null)?.code;
+  return code === 9 || code === 'failed-precondition';
+}
+
+interface RotationTargetDefinition {
+  collection: string;
+  // Whether to scan every collection with this id, e.g. users/{uid}/socialAccounts
+  collectionGroup: boolean;
+  // Updates that re-seal the document's secrets, or null when it needs none
+  reseal(data: Record<string, any>): Record<string, any> | null;
+}
+
+const TARGETS: Record<KeyRotationTarget, RotationTargetDefinition> = {
+  storage_connections: {
+    collection: 'storageConnections',
+    collectionGroup: false,
+    // Legacy credentials are the plain JSON that sealing expects
+    reseal: data => resealField(data, 'credentials', STORAGE_CREDENTIALS_CONTEXT)
+  },
+  crm_connections: {
+    // Top-level connections and the per-user copies the OAuth callback writes
+    collection: 'crmConnections',
+    collectionGroup: true,
+    reseal: data => {
+      if (data.tokens) {
+        return needsReseal(data.tokens)
+          ? {
+              tokens: isSealedSecret(data.tokens)
+                ? resealSecret(data.tokens, CRM_TOKENS_CONTEXT)
+                : CRMConnectionUtils.sealTokens(data.tokens)
+            }
+          : null;
+      }
+      if (data.accessToken) {
+        // Legacy per-user copies kept tokens as top-level fields
+        return {
+          tokens: CRMConnectionUtils.sealTokens({
+            access_token: data.accessToken,
+            accessToken: data.accessToken,
+            refreshToken: data.refreshToken
+          }),
+          accessToken: FieldValue.delete(),
+          refreshToken: FieldValue.delete()
+        };
+      }
+      return null;
+    }
+  },
+  platform_tokens: {
+    collection: 'socialAccounts',
+    collectionGroup: true,
+    reseal: data => needsReseal(data.encryptedAuthState)
+      ? { encryptedAuthState: sealAuthState(openAuthState(data.encryptedAuthState)) }
+      : null
+  },
+  webhook_secrets: {
+    collection: 'webhooks',
+    collectionGroup: false,
+    reseal: data => resealField(data, 'secret', WEBHOOK_SECRET_CONTEXT)
+  },
+  audit_sink_tokens: {
+    collection: 'audit_log_exports',
+    collectionGroup: false,
+    reseal: data => {
+      const sinks: Array<Record<string, any>> = data.sinks || [];
+      if (!sinks.some(sink => sink.token && needsReseal(sink.token))) {
+        return null;
+      }
+      return { sinks: sinks.map(sink => ({ ...sink, ...resealField(sink, 'token', AUDIT_SINK_TOKEN_CONTEXT) })) };
+    }
+  },
+  two_factor_secrets: {
+    collection: 'twoFactorSecrets',
+    collectionGroup: false,
+    reseal: data => {
+      const updates = {
+        ...resealField(data, 'secret', TWO_FACTOR_SECRET_CONTEXT),
+        ...resealField(data, 'pendingSecret', TWO_FACTOR_SECRET_CONTEXT)
+      };
+      return Object.keys(updates).length > 0 ? updates : null;
+    }
+  }
+};
+
+const TARGET_ORDER = Object.keys(TARGETS) as KeyRotationTarget[];
+
+/**
+ * Re-seal a string field; legacy plaintext values are sealed as they are
+ */
+function resealField(data: Record<string, any>, field: string, context: string): Record<string, any> | null {
+  const value = data[field];
+  if (typeof value !== 'string' || !value || !needsReseal(value)) {
+    return null;
+  }
+  return { [field]: isSealedSecret(value) ? resealSecret(value, context) : sealSecret(value, context) };
+}
+
+export class KeyRotationService {
+  private getFirestore(): FirebaseFirestore.Firestore {
+    return getFirestore();
+  }
+
+  /**
+   * Start re-encrypting all stored secrets under the current primary key
+   */
+  async startRotation(requestedBy: { id: string; email: string }): Promise<KeyRotationJob> {
+    const db = this.getFirestore();
+
+    const running = await db.collection(JOBS_COLLECTION).where('status', '==', 'running').limit(1).get();
+    if (!running.empty) {
+      throw new KeyRotationError(
+        `Key rotation ${running.docs[0].id} is already in progress`,
+        'ROTATION_IN_PROGRESS'
+      );
+    }
+
+    const targets = {} as Record<KeyRotationTarget, KeyRotationTargetProgress>;
+    for (const target of TARGET_ORDER) {
+      // Totals are a snapshot for progress reporting; records created
+      // during the job are sealed under the new key already
+      const countSnapshot = await this.getTargetQuery(target).count().get();
+      targets[target] = { status: 'pending', total: countSnapshot.data().count, scanned: 0, rotated: 0, failed: 0 };
+    }
+
+    const jobRef = db.collection(JOBS_COLLECTION).doc();
+    const now = Timestamp.now();
+    await jobRef.set({
+      status: 'running',
+      primaryKeyId: getPrimaryKeyId(),
+      requestedBy,
+      targets,
+      errors: [],
+      startedAt: now,
+      updatedAt: now
+    });
+
+    logger.info('Started encryption key rotation', { jobId: jobRef.id, requestedBy: requestedBy.id });
+
+    return (await this.getJob(jobRef.id))!;
+  }
+
+  async getJob(jobId: string): Promise<KeyRotationJob | null> {
+    const snapshot = await this.getFirestore().collection(JOBS_COLLECTION).doc(jobId).get();
+    return snapshot.exists ? this.toJob(snapshot.id, snapshot.data()!) : null;
+  }
+
+  async listJobs(limitCount: number = 10): Promise<KeyRotationJob[]> {
+    const snapshot = await this.getFirestore()
+      .collection(JOBS_COLLECTION)
+      .orderBy('startedAt', 'desc')
+      .limit(limitCount)
+      .get();
+    return snapshot.docs.map(jobDoc => this.toJob(jobDoc.id, jobDoc.data()));
+  }
+
+  /**
+   * Re-seal up to maxRecords records of a running job, picking up where
+   * the last batch stopped. A batch already in progress elsewhere makes
+   * this a no-op.
+   */
+  async runBatch(jobId: string, maxRecords: number = DEFAULT_BATCH_SIZE): Promise<KeyRotationJob> {
+    const db = this.getFirestore();
+    const jobRef = db.collection(JOBS_COLLECTION).doc(jobId);
+
+    const leased = await db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(jobRef);
+      if (!snapshot.exists) {
+        throw new KeyRotationError(`Key rotation ${jobId} not found`, 'JOB_NOT_FOUND');
+      }
+      const data = snapshot.data()!;
+      if (data.status !== 'running' || (data.leaseUntil && data.leaseUntil.toMillis() > Date.now())) {
+        return false;
+      }
+      transaction.update(jobRef, { leaseUntil: Timestamp.fromMillis(Date.now() + LEASE_MS) });
+      return true;
+    });
+
+    const job = (await this.getJob(jobId))!;
+    if (!leased) {
+      return job;
+    }
+
+    if (job.primaryKeyId !== getPrimaryKeyId()) {
+      // Records already rotated would be rotated again under yet another key
+      await jobRef.update({
+        status: 'failed',
+        failureReason: 'PRIMARY_ENCRYPTION_KEY changed while the rotation was running; start a new rotation',
+        leaseUntil: FieldValue.delete(),
+        updatedAt: Timestamp.now(),
+        completedAt: Timestamp.now()
+      });
+      logger.error('Encryption key rotation failed: primary key changed', { jobId });
+      return (await this.getJob(jobId))!;
+    }
+
+    let remaining = maxRecords;
+    const errors = [...job.errors];
+
+    try {
+      for (const target of TARGET_ORDER) {
+        const progress = job.targets[target];
+        if (progress.status === 'completed') continue;
+        if (remaining <= 0) break;
+
+        progress.status = 'running';
+        const scanned = await this.rotateTarget(target, progress, remaining, errors);
+        remaining -= scanned;
+      }
+    } catch (error) {
+      // Progress up to the failing page is kept; the next batch retries it
+      logger.error('Encryption key rotation batch failed', { jobId, error });
+    }
+
+    const completed = TARGET_ORDER.every(target => job.targets[target].status === 'completed');
+    const failedRecords = TARGET_ORDER.reduce((sum, target) => sum + job.targets[target].failed, 0);
+    const now = Timestamp.now();
+
+    await jobRef.update({
+      targets: job.targets,
+      errors: errors.slice(0, MAX_RECORDED_ERRORS),
+      leaseUntil: FieldValue.delete(),
+      updatedAt: now,
+      ...(completed
+        ? {
+            status: failedRecords > 0 ? 'failed' : 'completed',
+            completedAt: now,
+            ...(failedRecords > 0 ? { failureReason: `${failedRecords} records could not be re-encrypted` } : {})
+          }
+        : {})
+    });
+
+    if (completed) {
+      logger.info('Finished encryption key rotation', { jobId, failedRecords });
+    }
+
+    return (await this.getJob(jobId))!;
+  }
+
+  /**
+   * Run a batch of every running job; used by the key-rotation cron
+   */
+  async continueRunningJobs(maxRecords: number = DEFAULT_BATCH_SIZE): Promise<KeyRotationJob[]> {
+    const snapshot = await this.getFirestore().collection(JOBS_COLLECTION).where('status', '==', 'running').get();
+    const jobs: KeyRotationJob[] = [];
+    for (const jobDoc of snapshot.docs) {
+      jobs.push(await this.runBatch(jobDoc.id, maxRecords));
+    }
+    return jobs;
+  }
+
+  /**
+   * Overall progress across targets
+   */
+  getProgress(job: KeyRotationJob): KeyRotationProgress {
+    const totals = TARGET_ORDER.reduce(
+      (sum, target) => {
+        const progress = job.targets[target];
+        return {
+          scanned: sum.scanned + progress.scanned,
+          // Records added after the job started can push scanned past the snapshot total
+          total: sum.total + Math.max(progress.total, progress.scanned),
+          rotated: sum.rotated + progress.rotated,
+          failed: sum.failed + progress.failed
+        };
+      },
+      { scanned: 0, total: 0, rotated: 0, failed: 0 }
+    );
+
+    const percentComplete = job.status !== 'running' || totals.total === 0
+      ? 100
+      : Math.min(99, Math.floor((totals.scanned / totals.total) * 100));
+
+    return { ...totals, percentComplete };
+  }
+
+  /**
+   * Re-seal one page of a target, updating its progress in place. A record
+   * another writer changed after it was read is not overwritten; the cursor
+   * stops before it so the next batch reads it again.
+   * @returns Number of records read
+   */
+  private async rotateTarget(
+    target: KeyRotationTarget,
+    progress: KeyRotationTargetProgress,
+    maxRecords: number,
+    errors: KeyRotationRecordError[]
+  ): Promise<number> {
+    const db = this.getFirestore();
+    let pageQuery = this.getTargetQuery(target).orderBy(FieldPath.documentId()).limit(maxRecords);
+    if (progress.cursor) {
+      pageQuery = pageQuery.startAfter(db.doc(progress.cursor));
+    }
+
+    const snapshot = await pageQuery.get();
+    const resealed: ResealedRecord[] = [];
+    const failures = new Map<string, string>();
+
+    for (const recordDoc of snapshot.docs) {
+      try {
+        const updates = TARGETS[target].reseal(recordDoc.data());
+        if (updates) {
+          resealed.push({ recordDoc, updates });
+        }
+      } catch (error) {
+        failures.set(recordDoc.ref.path, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const conflicts = await this.writeResealed(resealed);
+    const firstConflict = snapshot.docs.findIndex(recordDoc => conflicts.has(recordDoc.ref.path));
+    const scannedDocs = firstConflict === -1 ? snapshot.docs : snapshot.docs.slice(0, firstConflict);
+
+    // Failures past the first conflict are read and counted again by the next batch
+    for (const recordDoc of scannedDocs) {
+      const message = failures.get(recordDoc.ref.path);
+      if (message !== undefined) {
+        progress.failed++;
+        errors.push({ target, path: recordDoc.ref.path, message });
+      }
+    }
+
+    if (conflicts.size > 0) {
+      logger.warn('Records changed during encryption key rotation; retrying them next batch', {
+        target,
+        conflicts: conflicts.size
+      });
+    }
+
+    progress.scanned += scannedDocs.length;
+    progress.rotated += resealed.length - conflicts.size;
+    if (scannedDocs.length > 0) {
+      progress.cursor = scannedDocs[scannedDocs.length - 1].ref.path;
+    }
+    if (conflicts.size === 0 && snapshot.size < maxRecords) {
+      progress.status = 'completed';
+    }
+
+    return snapshot.size;
+  }
+
+  /**
+   * Write re-sealed records, each only if it is unchanged since it was read
+   * @returns Paths of the records another writer changed first
+   */
+  private async writeResealed(resealed: ResealedRecord[]): Promise<Set<string>> {
+    const conflicts = new Set<string>();
+    if (resealed.length === 0) {
+      return conflicts;
+    }
+
+    const batch = this.getFirestore().batch();
+    for (const { recordDoc, updates } of resealed) {
+      batch.update(recordDoc.ref, updates, { lastUpdateTime: recordDoc.updateTime });
+    }
+
+    try {
+      await batch.commit();
+      return conflicts;
+    } catch (error) {
+      if (!isPreconditionFailure(error)) {
+        throw error;
+      }
+    }
+
+    // The batch is all-or-nothing, so write one record at a time to find the changed ones
+    for (const { recordDoc, updates } of resealed) {
+      try {
+        await recordDoc.ref.update(updates, { lastUpdateTime: recordDoc.updateTime });
+      } catch (error) {
+        if (!isPreconditionFailure(error)) {
+          throw error;
+        }
+        conflicts.add(recordDoc.ref.path);
+      }
+    }
+    return conflicts;
+  }
+
+  private getTargetQuery(target: KeyRotationTarget) {
+    const db = this.getFirestore();
+    const definition = TARGETS[target];
+    return definition.collectionGroup
+      ? db.collectionGroup(definition.collection)
+      : db.collection(definition.collection);
+  }
+
+  private toJob(id: string, data: FirebaseFirestore.DocumentData): KeyRotationJob {
+    return {
+      id,
+      status: data.status,
+      primaryKeyId: data.primaryKeyId,
+      requestedBy: data.requestedBy,
+      targets: data.targets,
+      errors: data.errors || [],
+      failureReason: data.failureReason,
+      startedAt: data.startedAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+      completedAt: data.completedAt?.toDate()
+    };
+  }
+}
+
+export const keyRotationService = new KeyRotationService();
@@ -0,0 +1,447 @@
+/**
+ * Agency Workspace Service
+ *
+ * Lets an agency organization run many client workspaces from one login and one subscription.
+ * Each client workspace is an organization of its own, so its platform connections, brand
+ * guidelines, media library and approval templates stay separate from other clients.
+ *
+ * Access:
+ * - Agency owners and admins administer every client workspace
+ * - Other agency staff are assigned to individual workspaces, optionally with a custom role
+ *   from RoleManager scoped to that workspace
+ *
+ * Billing for client workspaces rolls up to the agency through UniversalBillingService.
+ */
+
+import { getFirebaseFirestore } from '@/lib/core/firebase';
+import {
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  collection,
+  query,
+  where,
+  writeBatch,
+  getCountFromServer,
+  Timestamp,
+  deleteField,
+} from 'firebase/firestore';
+import { logger } from '@/lib/core/logging/logger';
+import {
+  Organization,
+  OrganizationRoleType,
+  OrganizationType,
+  TeamMember,
+  createClientWorkspace,
+  getAgencyWorkspaceRole,
+} from '@/lib/core/models/Organization';
+import { OrganizationRole } from '@/lib/team/users/organization';
+import { RoleManager } from '@/lib/features/user/team/RoleManager';
+import { MessageStatus } from '@/lib/features/content/SocialInboxService';
+
+/**
+ * Agency workspace error
+ */
+export class AgencyWorkspaceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'invalid' | 'not_found' | 'forbidden'
+  ) {
+    super(message);
+    this.name = 'AgencyWorkspaceError';
+  }
+}
+
+/**
+ * Client workspace as listed to agency staff
+ */
+export interface ClientWorkspaceSummary {
+  id: string;
+  name: string;
+  status: string;
+  // Caller's role in the workspace
+  role: OrganizationRoleType;
+  createdAt: Date;
+}
+
+/**
+ * Scheduled posts and inbox load of one client workspace
+ */
+export interface WorkspaceOverview {
+  organizationId: string;
+  name: string;
+  scheduledNext7Days: number;
+  scheduledTotal: number;
+  failedPosts: number;
+  unreadMessages: number;
+  flaggedMessages: number;
+}
+
+/**
+ * Cross-client overview of an agency
+ */
+export interface AgencyOverview {
+  agencyId: string;
+  workspaces: WorkspaceOverview[];
+  totals: Omit<WorkspaceOverview, 'organizationId' | 'name'>;
+}
+
+/**
+ * Agency staff member data used when creating or staffing a workspace
+ */
+export interface AgencyStaffMember {
+  userId: string;
+  email: string;
+  displayName: string;
+}
+
+// Member documents read by route guards use OrganizationRole values
+const MEMBER_DOC_ROLES: Record<OrganizationRoleType, OrganizationRole> = {
+  [OrganizationRoleType.OWNER]: OrganizationRole.OWNER,
+  [OrganizationRoleType.ADMIN]: OrganizationRole.ADMIN,
+  [OrganizationRoleType.MEMBER]: OrganizationRole.MEMBER,
+  [OrganizationRoleType.VIEWER]: OrganizationRole.VIEWER,
+};
+
+const OVERVIEW_WINDOW_DAYS = 7;
+
+export class AgencyWorkspaceService {
+  private getFirestore() {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) throw new Error('Firestore not configured');
+    return firestore;
+  }
+
+  /**
+   * Turn an organization into an agency that can own client workspaces
+   */
+  async enableAgencyMode(organizationId: string, userId: string): Promise<Organization> {
+    const organization = await this.getOrganization(organizationId);
+
+    if (organization.ownerUserId !== userId) {
+      throw new AgencyWorkspaceError('Only the organization owner can enable agency mode', 'forbidden');
+    }
+    if (organization.isPersonalOrg) {
+      throw new AgencyWorkspaceError('Personal organizations cannot become agencies', 'invalid');
+    }
+    if (organization.organizationType === OrganizationType.CLIENT_WORKSPACE) {
+      throw new AgencyWorkspaceError('A client workspace cannot become an agency', 'invalid');
+    }
+    if (organization.organizationType === OrganizationType.AGENCY) {
+      return organization;
+    }
+
+    await updateDoc(doc(this.getFirestore(), 'organizations', organizationId), {
+      organizationType: OrganizationType.AGENCY,
+      updatedAt: Timestamp.now(),
+    });
+
+    logger.info('Agency mode enabled', { organizationId, userId });
+
+    return { ...organization, organizationType: OrganizationType.AGENCY };
+  }
+
+  /**
+   * Create a client workspace under an agency
+   * @param agencyId Agency organization ID
+   * @param name Client workspace name
+   * @param createdBy Agency owner or admin creating the workspace
+   */
+  async createClientWorkspace(
+    agencyId: string,
+    name: string,
+    createdBy: AgencyStaffMember
+  ): Promise<Organization> {
+    if (!name?.trim()) {
+      throw new AgencyWorkspaceError('Workspace name is required', 'invalid');
+    }
+
+    const agency = await this.getAgency(agencyId);
+    this.requireAgencyAdmin(agency, createdBy.userId);
+
+    const firestore = this.getFirestore();
+    const workspaceRef = doc(collection(firestore, 'organizations'));
+    const workspace = createClientWorkspace(agency, name.trim(), createdBy);
+
+    const batch = writeBatch(firestore);
+    batch.set(workspaceRef, workspace);
+    Object.values(workspace.members).forEach(member => {
+      batch.set(doc(firestore, 'organizations', workspaceRef.id, 'members', member.userId), this.toMemberDoc(member));
+    });
+    await batch.commit();
+
+    logger.info('Client workspace created', { agencyId, workspaceId: workspaceRef.id, createdBy: createdBy.userId });
+
+    return { id: workspaceRef.id, ...workspace };
+  }
+
+  /**
+   * List an agency's client workspaces that a staff member can access
+   */
+  async getAccessibleWorkspaces(agencyId: string, userId: string): Promise<ClientWorkspaceSummary[]> {
+    const agency = await this.getAgency(agencyId);
+    const inheritedRole = getAgencyWorkspaceRole(agency, userId);
+
+    if (!inheritedRole && !agency.members[userId]) {
+      throw new AgencyWorkspaceError('You are not a member of this agency', 'forbidden');
+    }
+
+    const workspaces = await this.getClientWorkspaces(agencyId);
+
+    return workspaces
+      .filter(workspace => inheritedRole || workspace.members[userId])
+      .map(workspace => ({
+        id: workspace.id,
+        name: workspace.displayName || workspace.name,
+        status: workspace.status,
+        role: workspace.members[userId]?.role || (inheritedRole as OrganizationRoleType),
+        createdAt: workspace.createdAt.toDate(),
+      }));
+  }
+
+  /**
+   * Check whether a user can open a client workspace, either as a member of it
+   * or as an owner or admin of its agency
+   */
+  async canAccessWorkspace(workspaceId: string, userId: string): Promise<boolean> {
+    try {
+      const workspace = await this.getOrganization(workspaceId);
+      if (workspace.members[userId]) {
+        return true;
+      }
+      if (workspace.organizationType !== OrganizationType.CLIENT_WORKSPACE || !workspace.parentOrganizationId) {
+        return false;
+      }
+
+      const agency = await this.getOrganization(workspace.parentOrganizationId);
+      return getAgencyWorkspaceRole(agency, userId) !== null;
+    } catch (error) {
+      if (error instanceof AgencyWorkspaceError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Assign an agency staff member to a client workspace
+   * @param role Workspace role of the staff member
+   * @param customRoleId Optional RoleManager role created for this workspace
+   */
+  async assignStaff(
+    agencyId: string,
+    workspaceId: string,
+    staffUserId: string,
+    role: OrganizationRoleType,
+    assignedBy: string,
+    customRoleId?: string
+  ): Promise<TeamMember> {
+    if (role === OrganizationRoleType.OWNER || !Object.values(OrganizationRoleType).includes(role)) {
+      throw new AgencyWorkspaceError(`Invalid workspace role: ${role}`, 'invalid');
+    }
+
+    const agency = await this.getAgency(agencyId);
+    this.requireAgencyAdmin(agency, assignedBy);
+
+    const staff = agency.members[staffUserId];
+    if (!staff) {
+      throw new AgencyWorkspaceError('Staff member is not part of the agency', 'invalid');
+    }
+
+    const workspace = await this.getClientWorkspace(agencyId, workspaceId);
+    if (workspace.ownerUserId === staffUserId) {
+      throw new AgencyWorkspaceError('The workspace owner role cannot be changed', 'invalid');
+    }
+
+    const roleManager = RoleManager.getInstance();
+    if (customRoleId) {
+      const customRole = await roleManager.getRole(customRoleId);
+      if (!customRole || customRole.organizationId !== workspaceId) {
+        throw new AgencyWorkspaceError('Custom role not found in this workspace', 'not_found');
+      }
+    }
+
+    const member: TeamMember = {
+      userId: staffUserId,
+      email: staff.email,
+      displayName: staff.displayName,
+      role,
+      joinedAt: workspace.members[staffUserId]?.joinedAt || Timestamp.now(),
+      invitedBy: assignedBy,
+    };
+
+    const firestore = this.getFirestore();
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'organizations', workspaceId), {
+      [`members.${staffUserId}`]: member,
+      'usageQuota.teamMembers.used': Object.keys({ ...workspace.members, [staffUserId]: member }).length,
+      updatedAt: Timestamp.now(),
+    });
+    batch.set(doc(firestore, 'organizations', workspaceId, 'members', staffUserId), this.toMemberDoc(member));
+    await batch.commit();
+
+    // Per-client roles are RoleManager assignments scoped to the workspace
+    if (customRoleId) {
+      const result = await roleManager.assignRole(staffUserId, workspaceId, customRoleId, assignedBy);
+      if (!result.success && result.error?.message !== 'User already has this role') {
+        throw new Error(result.error?.message || 'Failed to assign workspace role');
+      }
+    }
+
+    logger.info('Agency staff assigned to workspace', { agencyId, workspaceId, staffUserId, role, customRoleId });
+
+    return member;
+  }
+
+  /**
+   * Remove a staff member from a client workspace, revoking their workspace roles
+   */
+  async removeStaff(agencyId: string, workspaceId: string, staffUserId: string, removedBy: string): Promise<void> {
+    const agency = await this.getAgency(agencyId);
+    this.requireAgencyAdmin(agency, removedBy);
+
+    const workspace = await this.getClientWorkspace(agencyId, workspaceId);
+    if (!workspace.members[staffUserId]) {
+      throw new AgencyWorkspaceError('Staff member is not assigned to this workspace', 'not_found');
+    }
+    if (workspace.ownerUserId === staffUserId) {
+      throw new AgencyWorkspaceError('The workspace owner cannot be removed', 'invalid');
+    }
+
+    const firestore = this.getFirestore();
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'organizations', workspaceId), {
+      [`members.${staffUserId}`]: deleteField(),
+      'usageQuota.teamMembers.used': Object.keys(workspace.members).length - 1,
+      updatedAt: Timestamp.now(),
+    });
+    batch.delete(doc(firestore, 'organizations', workspaceId, 'members', staffUserId));
+    await batch.commit();
+
+    const roleManager = RoleManager.getInstance();
+    const assignments = await roleManager.getUserRoleAssignments(staffUserId, workspaceId);
+    for (const assignment of assignments) {
+      await roleManager.revokeRole(staffUserId, workspaceId, assignment.roleId, removedBy);
+    }
+
+    logger.info('Agency staff removed from workspace', { agencyId, workspaceId, staffUserId });
+  }
+
+  /**
+   * Scheduled posts and inbox load across an agency's client workspaces
+   */
+  async getOverview(agencyId: string, userId: string): Promise<AgencyOverview> {
+    const agency = await this.getAgency(agencyId);
+    this.requireAgencyAdmin(agency, userId);
+
+    const workspaces = await this.getClientWorkspaces(agencyId);
+    const overviews = await Promise.all(workspaces.map(workspace => this.getWorkspaceOverview(workspace)));
+
+    const totals = overviews.reduce(
+      (sum, overview) => ({
+        scheduledNext7Days: sum.scheduledNext7Days + overview.scheduledNext7Days,
+        scheduledTotal: sum.scheduledTotal + overview.scheduledTotal,
+        failedPosts: sum.failedPosts + overview.failedPosts,
+        unreadMessages: sum.unreadMessages + overview.unreadMessages,
+        flaggedMessages: sum.flaggedMessages + overview.flaggedMessages,
+      }),
+      { scheduledNext7Days: 0, scheduledTotal: 0, failedPosts: 0, unreadMessages: 0, flaggedMessages: 0 }
+    );
+
+    return { agencyId, workspaces: overviews, totals };
+  }
+
+  /**
+   * Get an agency, failing if the organization is not one
+   */
+  async getAgency(agencyId: string): Promise<Organization> {
+    const agency = await this.getOrganization(agencyId);
+    if (agency.organizationType !== OrganizationType.AGENCY) {
+      throw new AgencyWorkspaceError('Organization is not an agency', 'invalid');
+    }
+    return agency;
+  }
+
+  /**
+   * Check that a user owns or administers an agency
+   */
+  requireAgencyAdmin(agency: Organization, userId: string): void {
+    if (!getAgencyWorkspaceRole(agency, userId)) {
+      throw new AgencyWorkspaceError('Only agency owners and admins can manage client workspaces', 'forbidden');
+    }
+  }
+
+  private async getWorkspaceOverview(workspace: Organization): Promise<WorkspaceOverview> {
+    const firestore = this.getFirestore();
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + OVERVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const posts = collection(firestore, 'scheduledPosts');
+    const inbox = collection(firestore, 'inbox');
+    const inWorkspace = where('organizationId', '==', workspace.id);
+
+    const [nextWeek, upcoming, failed, unread, flagged] = await Promise.all([
+      getCountFromServer(query(posts, inWorkspace, where('status', '==', 'scheduled'),
+        where('scheduledFor', '>=', Timestamp.fromDate(now)), where('scheduledFor', '<', Timestamp.fromDate(windowEnd)))),
+      getCountFromServer(query(posts, inWorkspace, where('status', '==', 'scheduled'),
+        where('scheduledFor', '>=', Timestamp.fromDate(now)))),
+      getCountFromServer(query(posts, inWorkspace, where('status', '==', 'failed'))),
+      getCountFromServer(query(inbox, inWorkspace, where('status', '==', MessageStatus.UNREAD))),
+      getCountFromServer(query(inbox, inWorkspace, where('status', '==', MessageStatus.FLAGGED))),
+    ]);
+
+    return {
+      organizationId: workspace.id,
+      name: workspace.displayName || workspace.name,
+      scheduledNext7Days: nextWeek.data().count,
+      scheduledTotal: upcoming.data().count,
+      failedPosts: failed.data().count,
+      unreadMessages: unread.data().count,
+      flaggedMessages: flagged.data().count,
+    };
+  }
+
+  private async getClientWorkspaces(agencyId: string): Promise<Organization[]> {
+    const snapshot = await getDocs(
+      query(collection(this.getFirestore(), 'organizations'), where('parentOrganizationId', '==', agencyId))
+    );
+
+    return snapshot.docs
+      .map(workspaceDoc => this.toOrganization(workspaceDoc.id, workspaceDoc.data()))
+      .filter(workspace => workspace.status !== 'deleted');
+  }
+
+  private async getClientWorkspace(agencyId: string, workspaceId: string): Promise<Organization> {
+    const workspace = await this.getOrganization(workspaceId);
+    if (workspace.parentOrganizationId !== agencyId) {
+      throw new AgencyWorkspaceError('Workspace not found in this agency', 'not_found');
+    }
+    return workspace;
+  }
+
+  private async getOrganization(organizationId: string): Promise<Organization> {
+    const snapshot = await getDoc(doc(this.getFirestore(), 'organizations', organizationId));
+    if (!snapshot.exists()) {
+      throw new AgencyWorkspaceError('Organization not found', 'not_found');
+    }
+    return this.toOrganization(snapshot.id, snapshot.data());
+  }
+
+  private toOrganization(id: string, data: Record<string, any>): Organization {
+    return { ...data, id, members: data.members || {} } as Organization;
+  }
+
+  private toMemberDoc(member: TeamMember) {
+    return {
+      userId: member.userId,
+      email: member.email,
+      role: MEMBER_DOC_ROLES[member.role],
+      joinedAt: member.joinedAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const agencyWorkspaceService = new AgencyWorkspaceService();
+export default agencyWorkspaceService;
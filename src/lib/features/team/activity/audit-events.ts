@@ -0,0 +1 @@
+export * from '@/lib/team/activity/audit-events';
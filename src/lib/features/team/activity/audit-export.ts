@@ -0,0 +1,2 @@
+export * from '@/lib/team/activity/audit-export';
+export { default } from '@/lib/team/activity/audit-export';
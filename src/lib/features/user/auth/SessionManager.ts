@@ -75,7 +75,12 @@ export interface SessionData {
     rememberMe?: boolean;
     trustedDevice?: boolean;
     riskScore?: number;
+    twoFactorMethod?: 'totp' | 'recovery_code' | 'trusted_device';
+    // Remembered device the session was opened from or registered
+    trustedDeviceId?: string;
   };
+  // Returned once when the session remembers its device; never stored
+  trustedDeviceToken?: string;
 }
 
 /**
@@ -88,6 +93,13 @@ export interface SessionOptions {
   userAgent?: string;
   location?: SessionData['location'];
   trustedDevice?: boolean;
+  // Second factor presented with the sign-in
+  twoFactorCode?: string;
+  recoveryCode?: string;
+  // Remember-this-device token from the browser
+  trustedDeviceToken?: string;
+  // Skip the second factor on this device for later sign-ins
+  rememberDevice?: boolean;
 }
 
 /**
@@ -167,6 +179,24 @@ export class SessionManager {
         }
       }
 
+      // Users with two-factor authentication need a second factor or a remembered device
+      const { twoFactorManager } = await import('./TwoFactorManager');
+      const twoFactor = await twoFactorManager.checkLogin(
+        userId,
+        { code: options.twoFactorCode, recoveryCode: options.recoveryCode },
+        options.trustedDeviceToken
+      );
+      if (twoFactor.challengeRequired) {
+        return {
+          success: false,
+          error: {
+            type: UserErrorType.TWO_FACTOR_REQUIRED,
+            message: 'Two-factor authentication code required',
+            timestamp: new Date()
+          }
+        };
+      }
+
       const now = new Date();
       const sessionId = this.generateSessionId();
       
@@ -192,13 +222,25 @@ export class SessionManager {
         metadata: {
           loginMethod: 'email_password',
           rememberMe: options.rememberMe || false,
-          trustedDevice: options.trustedDevice || false,
-          riskScore: await this.calculateRiskScore(userId, options)
+          trustedDevice: options.trustedDevice || twoFactor.method === 'trusted_device',
+          riskScore: await this.calculateRiskScore(userId, options),
+          ...(twoFactor.method ? { twoFactorMethod: twoFactor.method } : {}),
+          ...(twoFactor.trustedDeviceId ? { trustedDeviceId: twoFactor.trustedDeviceId } : {})
         }
       };
 
       // Store session in database
       await this.storeSession(sessionData);
+      if (twoFactor.trustedDeviceId) {
+        await twoFactorManager.attachTrustedDeviceSession(twoFactor.trustedDeviceId, sessionId);
+      } else if (twoFactor.method && options.rememberDevice) {
+        const device = await twoFactorManager.createTrustedDevice(userId, {
+          sessionId,
+          userAgent: options.userAgent,
+          ipAddress: options.ipAddress
+        });
+        sessionData.trustedDeviceToken = device.token;
+      }
 
       // Log session creation
       await this.logSessionActivity(userId, 'session_created', sessionId, {
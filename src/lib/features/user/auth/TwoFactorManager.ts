@@ -0,0 +1,516 @@
+/**
+ * Two-factor authentication
+ *
+ * Users enroll an authenticator app (TOTP) and receive one-time recovery codes.
+ * Once enrolled, signing in needs a code, a recovery code, or a remembered
+ * device. Remembered devices hold a random token whose hash is stored with the
+ * session it was issued for; resetting or disabling two-factor authentication
+ * forgets them all.
+ *
+ * Organization owners can require two-factor authentication for members
+ * through OrganizationSettings.security. Members keep access for the grace
+ * period, after which organization access is refused until they enroll.
+ *
+ * Wrong codes are counted per user. After MAX_FAILED_ATTEMPTS in a row, codes
+ * are refused for a lockout that doubles with every further failure.
+ */
+
+import crypto from 'crypto';
+import { FieldValue, QueryDocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+import { getFirestore } from '@/lib/core/firebase/admin';
+import { logger } from '@/lib/core/logging/logger';
+import { BackoffPolicy, computeExponentialBackoff } from '@/lib/core/utils/backoff';
+import { openSecret, sealSecret } from '@/lib/core/security/encryption';
+import {
+  buildOtpAuthUrl,
+  findRecoveryCode,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp
+} from '@/lib/core/security/totp';
+import { OrganizationSecuritySettings, TwoFactorRequirement, getTwoFactorRequirement } from '@/lib/core/models/Organization';
+import { TeamAuditLogger, AuditLogCategory, AuditLogSeverity } from '@/lib/team/activity/audit-logger';
+
+/**
+ * Two-factor error
+ */
+export class TwoFactorError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'invalid_code' | 'not_enrolled' | 'already_enrolled' | 'required' | 'not_found' | 'locked'
+  ) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+/**
+ * Second factor presented at sign-in or to confirm a change
+ */
+export interface TwoFactorProof {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Two-factor state shown to the user
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enrolledAt?: Date;
+  recoveryCodesRemaining: number;
+  trustedDevices: number;
+  requirement: TwoFactorRequirement & { organizationId?: string };
+}
+
+/**
+ * Outcome of the second-factor step of a sign-in
+ */
+export interface TwoFactorLoginCheck {
+  // A second factor is needed and none was accepted
+  challengeRequired: boolean;
+  method?: 'totp' | 'recovery_code' | 'trusted_device';
+  trustedDeviceId?: string;
+  // Set while codes are refused after too many failures
+  lockedUntil?: Date;
+  // Organization policy the user has not yet met
+  requirement: TwoFactorRequirement & { organizationId?: string };
+}
+
+interface StoredRecoveryCode {
+  hash: string;
+  salt: string;
+  usedAt?: Timestamp;
+}
+
+export const TWO_FACTOR_SECRET_CONTEXT = 'two-factor-secret';
+export const TRUSTED_DEVICE_COOKIE = 'irisync_trusted_device';
+export const TRUSTED_DEVICE_MAX_AGE_DAYS = 30;
+
+const ISSUER = 'IriSync';
+const SECRETS_COLLECTION = 'twoFactorSecrets';
+const TRUSTED_DEVICES_COLLECTION = 'trustedDevices';
+const PENDING_ENROLLMENT_TTL_MS = 15 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_POLICY: BackoffPolicy = {
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Result of checking a second factor
+ */
+interface VerificationAttempt {
+  method: 'totp' | 'recovery_code' | null;
+  failedAttempts?: number;
+  lockedUntil?: Date;
+}
+
+/**
+ * Two-factor manager
+ */
+export class TwoFactorManager {
+  private auditLogger = new TeamAuditLogger();
+
+  /**
+   * Current two-factor state of a user
+   */
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const firestore = getFirestore();
+    const [secretDoc, devicesSnapshot, requirement] = await Promise.all([
+      firestore.collection(SECRETS_COLLECTION).doc(userId).get(),
+      firestore.collection(TRUSTED_DEVICES_COLLECTION)
+        .where('userId', '==', userId)
+        .where('expiresAt', '>', Timestamp.now())
+        .get(),
+      this.getRequirement(userId)
+    ]);
+    const data = secretDoc.exists ? secretDoc.data()! : {};
+
+    return {
+      enabled: data.enabled === true,
+      enrolledAt: data.enrolledAt?.toDate(),
+      recoveryCodesRemaining: ((data.recoveryCodes || []) as StoredRecoveryCode[]).filter(code => !code.usedAt).length,
+      trustedDevices: devicesSnapshot.size,
+      requirement
+    };
+  }
+
+  /**
+   * Start enrollment; the secret takes effect once a code from it is confirmed
+   * @returns Secret for manual entry and the otpauth URI to show as a QR code
+   */
+  async startEnrollment(userId: string, accountName: string): Promise<{ secret: string; otpauthUrl: string }> {
+    const secretRef = getFirestore().collection(SECRETS_COLLECTION).doc(userId);
+    const secretDoc = await secretRef.get();
+    if (secretDoc.exists && secretDoc.data()?.enabled) {
+      throw new TwoFactorError('Two-factor authentication is already enabled', 'already_enrolled');
+    }
+
+    const secret = generateTotpSecret();
+    await secretRef.set({
+      userId,
+      enabled: false,
+      pendingSecret: sealSecret(secret, TWO_FACTOR_SECRET_CONTEXT),
+      pendingCreatedAt: Timestamp.now(),
+      updatedAt: Timestamp.now()
+    }, { merge: true });
+
+    return { secret, otpauthUrl: buildOtpAuthUrl(ISSUER, accountName, secret) };
+  }
+
+  /**
+   * Confirm enrollment with a code from the new secret
+   * @returns Recovery codes, shown to the user once
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const firestore = getFirestore();
+    const secretRef = firestore.collection(SECRETS_COLLECTION).doc(userId);
+    const secretDoc = await secretRef.get();
+    const data = secretDoc.exists ? secretDoc.data()! : null;
+
+    if (!data?.pendingSecret || Date.now() - data.pendingCreatedAt.toMillis() > PENDING_ENROLLMENT_TTL_MS) {
+      throw new TwoFactorError('Start enrollment again', 'not_found');
+    }
+
+    const secret = openSecret(data.pendingSecret, TWO_FACTOR_SECRET_CONTEXT);
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+      throw new TwoFactorError('Invalid verification code', 'invalid_code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    const now = Timestamp.now();
+    const batch = firestore.batch();
+    batch.set(secretRef, {
+      userId,
+      enabled: true,
+      secret: data.pendingSecret,
+      pendingSecret: FieldValue.delete(),
+      pendingCreatedAt: FieldValue.delete(),
+      lastUsedStep: step,
+      recoveryCodes: this.hashRecoveryCodes(recoveryCodes),
+      enrolledAt: now,
+      updatedAt: now
+    }, { merge: true });
+    batch.update(firestore.collection('users').doc(userId), {
+      twoFactorEnabled: true,
+      updatedAt: now
+    });
+    await batch.commit();
+
+    await this.audit(userId, userId, 'enable_two_factor', AuditLogSeverity.INFO, { method: 'totp' });
+    return recoveryCodes;
+  }
+
+  /**
+   * Replace a user's recovery codes
+   * @param proof Current code or an unused recovery code
+   */
+  async regenerateRecoveryCodes(userId: string, proof: TwoFactorProof): Promise<string[]> {
+    if (!(await this.verify(userId, proof))) {
+      throw new TwoFactorError('Invalid verification code', 'invalid_code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await getFirestore().collection(SECRETS_COLLECTION).doc(userId).update({
+      recoveryCodes: this.hashRecoveryCodes(recoveryCodes),
+      updatedAt: Timestamp.now()
+    });
+
+    await this.audit(userId, userId, 'regenerate_recovery_codes', AuditLogSeverity.WARNING, {});
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn off two-factor authentication; refused while an organization requires it
+   * @param proof Current code or an unused recovery code
+   */
+  async disable(userId: string, proof: TwoFactorProof): Promise<void> {
+    const requirement = await this.getRequirement(userId);
+    if (requirement.required) {
+      throw new TwoFactorError('Your organization requires two-factor authentication', 'required');
+    }
+    if (!(await this.verify(userId, proof))) {
+      throw new TwoFactorError('Invalid verification code', 'invalid_code');
+    }
+
+    await this.clear(userId);
+    await this.audit(userId, userId, 'disable_two_factor', AuditLogSeverity.WARNING, {});
+  }
+
+  /**
+   * Remove a user's second factor on their behalf, e.g. after a lost device
+   * @param resetBy Administrator who reset it
+   */
+  async reset(userId: string, resetBy: string, reason?: string): Promise<void> {
+    await this.clear(userId);
+    await this.audit(resetBy, userId, 'reset_two_factor', AuditLogSeverity.CRITICAL, reason ? { reason } : {});
+  }
+
+  /**
+   * Check a code or recovery code; a recovery code is used up, and a code
+   * cannot be used twice
+   * @throws TwoFactorError with code 'locked' after too many failures
+   */
+  async verify(userId: string, proof: TwoFactorProof): Promise<boolean> {
+    const attempt = await this.attempt(userId, proof);
+    if (attempt.method === null && attempt.lockedUntil) {
+      throw new TwoFactorError('Too many invalid codes; try again later', 'locked');
+    }
+    return attempt.method !== null;
+  }
+
+  /**
+   * Second-factor step of a sign-in
+   * @param proof Code or recovery code sent with the sign-in, if any
+   * @param trustedDeviceToken Remember-this-device token from the browser, if any
+   */
+  async checkLogin(userId: string, proof: TwoFactorProof = {}, trustedDeviceToken?: string): Promise<TwoFactorLoginCheck> {
+    const secretDoc = await getFirestore().collection(SECRETS_COLLECTION).doc(userId).get();
+    const enabled = secretDoc.exists && secretDoc.data()?.enabled === true;
+    const requirement = await this.getRequirement(userId, enabled);
+
+    if (!enabled) {
+      return { challengeRequired: false, requirement };
+    }
+
+    if (trustedDeviceToken) {
+      const trustedDeviceId = await this.verifyTrustedDevice(userId, trustedDeviceToken);
+      if (trustedDeviceId) {
+        return { challengeRequired: false, method: 'trusted_device', trustedDeviceId, requirement };
+      }
+    }
+
+    if (proof.code || proof.recoveryCode) {
+      const attempt = await this.attempt(userId, proof);
+      if (attempt.method) {
+        return { challengeRequired: false, method: attempt.method, requirement };
+      }
+      if (attempt.lockedUntil) {
+        return { challengeRequired: true, lockedUntil: attempt.lockedUntil, requirement };
+      }
+    }
+
+    return { challengeRequired: true, requirement };
+  }
+
+  /**
+   * Remember a device after it passed the second factor
+   * @returns Token for the browser to keep; only its hash is stored
+   */
+  async createTrustedDevice(
+    userId: string,
+    details: { sessionId?: string; userAgent?: string; ipAddress?: string } = {}
+  ): Promise<{ token: string; expiresAt: Date }> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+    const expiresAt = new Date(now + TRUSTED_DEVICE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000);
+
+    await getFirestore().collection(TRUSTED_DEVICES_COLLECTION).doc(this.hashDeviceToken(token)).set({
+      userId,
+      ...(details.sessionId ? { sessionId: details.sessionId } : {}),
+      ...(details.userAgent ? { userAgent: details.userAgent } : {}),
+      ...(details.ipAddress ? { ipAddress: details.ipAddress } : {}),
+      createdAt: Timestamp.fromMillis(now),
+      lastUsedAt: Timestamp.fromMillis(now),
+      expiresAt: Timestamp.fromDate(expiresAt)
+    });
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Link a remembered device to the session it was used for
+   */
+  async attachTrustedDeviceSession(trustedDeviceId: string, sessionId: string): Promise<void> {
+    await getFirestore().collection(TRUSTED_DEVICES_COLLECTION).doc(trustedDeviceId).update({
+      sessionId,
+      lastUsedAt: Timestamp.now()
+    });
+  }
+
+  /**
+   * Id of the remembered device a token belongs to, if it is still valid
+   */
+  async verifyTrustedDevice(userId: string, token: string): Promise<string | null> {
+    const deviceId = this.hashDeviceToken(token);
+    const deviceDoc = await getFirestore().collection(TRUSTED_DEVICES_COLLECTION).doc(deviceId).get();
+    const data = deviceDoc.exists ? deviceDoc.data()! : null;
+
+    if (!data || data.userId !== userId || data.expiresAt.toMillis() < Date.now()) {
+      return null;
+    }
+    return deviceId;
+  }
+
+  /**
+   * Forget every remembered device of a user
+   * @returns Number of devices forgotten
+   */
+  async revokeTrustedDevices(userId: string): Promise<number> {
+    const firestore = getFirestore();
+    const snapshot = await firestore.collection(TRUSTED_DEVICES_COLLECTION).where('userId', '==', userId).get();
+
+    const batch = firestore.batch();
+    snapshot.docs.forEach((deviceDoc: QueryDocumentSnapshot) => batch.delete(deviceDoc.ref));
+    if (!snapshot.empty) {
+      await batch.commit();
+    }
+    return snapshot.size;
+  }
+
+  /**
+   * Two-factor requirement of the organization the user works in
+   * @param enabled Whether the user has two-factor authentication, if already known
+   */
+  async getRequirement(userId: string, enabled?: boolean): Promise<TwoFactorRequirement & { organizationId?: string }> {
+    const firestore = getFirestore();
+    const userDoc = await firestore.collection('users').doc(userId).get();
+    const userData = userDoc.exists ? userDoc.data()! : {};
+    const organizationId = userData.currentOrganizationId || userData.personalOrganizationId;
+
+    if (!organizationId) {
+      return { required: false, blocked: false };
+    }
+
+    const orgDoc = await firestore.collection('organizations').doc(organizationId).get();
+    const security = orgDoc.exists ? orgDoc.data()?.settings?.security as OrganizationSecuritySettings | undefined : undefined;
+
+    return {
+      organizationId,
+      ...getTwoFactorRequirement(security, enabled ?? userData.twoFactorEnabled === true)
+    };
+  }
+
+  /**
+   * Check a second factor and count the failures; a locked-out user's code
+   * is not checked at all
+   */
+  private async attempt(userId: string, proof: TwoFactorProof): Promise<VerificationAttempt> {
+    const firestore = getFirestore();
+    const secretRef = firestore.collection(SECRETS_COLLECTION).doc(userId);
+
+    const attempt: VerificationAttempt = await firestore.runTransaction(async (transaction: any) => {
+      const secretDoc = await transaction.get(secretRef);
+      const data = secretDoc.exists ? secretDoc.data()! : null;
+      if (!data?.enabled || !data.secret) {
+        return { method: null };
+      }
+
+      const lockedUntil = data.lockedUntil?.toMillis() as number | undefined;
+      if (lockedUntil && lockedUntil > Date.now()) {
+        return { method: null, lockedUntil: new Date(lockedUntil) };
+      }
+
+      const now = Timestamp.now();
+      const success = { failedAttempts: FieldValue.delete(), lockedUntil: FieldValue.delete(), lastUsedAt: now };
+
+      if (proof.code) {
+        const step = verifyTotp(openSecret(data.secret, TWO_FACTOR_SECRET_CONTEXT), proof.code, {
+          afterStep: data.lastUsedStep
+        });
+        if (step !== null) {
+          transaction.update(secretRef, { ...success, lastUsedStep: step });
+          return { method: 'totp' };
+        }
+      } else if (proof.recoveryCode) {
+        const recoveryCodes = (data.recoveryCodes || []) as StoredRecoveryCode[];
+        const unused = recoveryCodes.filter(code => !code.usedAt);
+        const match = findRecoveryCode(proof.recoveryCode, unused);
+        if (match !== -1) {
+          const used = unused[match];
+          transaction.update(secretRef, {
+            ...success,
+            recoveryCodes: recoveryCodes.map(code => (code === used ? { ...code, usedAt: now } : code))
+          });
+          return { method: 'recovery_code' };
+        }
+      } else {
+        return { method: null };
+      }
+
+      const failedAttempts = (data.failedAttempts || 0) + 1;
+      const lockout = failedAttempts >= MAX_FAILED_ATTEMPTS
+        ? new Date(Date.now() + computeExponentialBackoff(LOCKOUT_POLICY, failedAttempts - MAX_FAILED_ATTEMPTS + 1))
+        : undefined;
+      transaction.update(secretRef, {
+        failedAttempts,
+        lastFailedAt: now,
+        ...(lockout ? { lockedUntil: Timestamp.fromDate(lockout) } : {})
+      });
+      return { method: null, failedAttempts, ...(lockout ? { lockedUntil: lockout } : {}) };
+    });
+
+    if (attempt.method === 'recovery_code') {
+      await this.audit(userId, userId, 'use_recovery_code', AuditLogSeverity.WARNING, {});
+    } else if (attempt.failedAttempts) {
+      await this.audit(
+        userId,
+        userId,
+        attempt.lockedUntil ? 'lock_two_factor' : 'fail_two_factor',
+        attempt.lockedUntil ? AuditLogSeverity.CRITICAL : AuditLogSeverity.WARNING,
+        {
+          failedAttempts: attempt.failedAttempts,
+          ...(attempt.lockedUntil ? { lockedUntil: attempt.lockedUntil.toISOString() } : {})
+        }
+      );
+    }
+    return attempt;
+  }
+
+  private async clear(userId: string): Promise<void> {
+    const firestore = getFirestore();
+    const batch = firestore.batch();
+    batch.delete(firestore.collection(SECRETS_COLLECTION).doc(userId));
+    batch.update(firestore.collection('users').doc(userId), {
+      twoFactorEnabled: false,
+      updatedAt: Timestamp.now()
+    });
+    await batch.commit();
+    await this.revokeTrustedDevices(userId);
+  }
+
+  private hashRecoveryCodes(codes: string[]): StoredRecoveryCode[] {
+    return codes.map(code => {
+      const salt = crypto.randomBytes(16).toString('hex');
+      return { hash: hashRecoveryCode(code, salt), salt };
+    });
+  }
+
+  private hashDeviceToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private async audit(
+    actorId: string,
+    userId: string,
+    action: string,
+    severity: AuditLogSeverity,
+    metadata: Record<string, any>
+  ): Promise<void> {
+    try {
+      const { organizationId } = await this.getRequirement(userId);
+      await this.auditLogger.log({
+        userId: actorId,
+        category: AuditLogCategory.SECURITY,
+        action,
+        severity,
+        organizationId,
+        resourceId: userId,
+        resourceType: 'user',
+        metadata
+      });
+    } catch (error) {
+      logger.error('Error recording two-factor audit event', {
+        action,
+        userId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+export const twoFactorManager = new TwoFactorManager();
+export default twoFactorManager;
@@ -15,6 +15,9 @@ export {
   type PermissionCheckOptions
 } from './PermissionManager';
 
+// TwoFactorManager is imported from './TwoFactorManager' directly; it uses
+// Firebase Admin and must stay out of client bundles
+
 // SessionManager exports (to be implemented)
 export {
   SessionManager,
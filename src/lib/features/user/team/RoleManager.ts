@@ -29,6 +29,7 @@ import {
 import { Team, TeamUtils } from '../models/Team';
 import { User, UserUtils } from '../../../core/models/User';
 import { ActivityUtils } from '../models/Activity';
+import { recordAuditEvent } from '../../../team/activity/audit-events';
 
 /**
  * Custom role interface for teams
@@ -267,6 +268,7 @@ export class RoleManager {
           {
             roleName: roleData.name,
             teamId,
+            organizationId,
             permissions: roleData.permissions
           }
         );
@@ -400,6 +402,7 @@ export class RoleManager {
           'role_updated',
           {
             roleName: updatedRole.name,
+            organizationId: updatedRole.organizationId,
             updates: Object.keys(updates)
           }
         );
@@ -473,7 +476,8 @@ export class RoleManager {
           'role_deleted',
           {
             roleName: role.name,
-            teamId: role.teamId
+            teamId: role.teamId,
+            organizationId: role.organizationId
           }
         );
       }
@@ -676,7 +680,8 @@ export class RoleManager {
           {
             userId,
             roleName: role.name,
-            teamId
+            teamId,
+            organizationId: role.organizationId
           }
         );
       }
@@ -743,7 +748,8 @@ export class RoleManager {
           {
             userId,
             roleName: assignment.roleName,
-            teamId
+            teamId,
+            organizationId: assignment.organizationId
           }
         );
       }
@@ -1060,6 +1066,21 @@ export class RoleManager {
         }
       });
 
+      await recordAuditEvent({
+        userId,
+        category: 'team',
+        action,
+        severity: 'warning',
+        organizationId: metadata.organizationId,
+        teamId: metadata.teamId,
+        resourceId: metadata.userId || roleId,
+        resourceType: metadata.userId ? 'user' : 'role',
+        metadata: {
+          roleId,
+          ...metadata
+        }
+      });
+
     } catch (error) {
       console.error('Error logging role activity:', error);
     }
@@ -211,7 +211,8 @@ export enum UserErrorType {
   SESSION_ERROR = 'session_error',
   SESSION_NOT_FOUND = 'session_not_found',
   SESSION_EXPIRED = 'session_expired',
-  SESSION_INVALID = 'session_invalid'
+  SESSION_INVALID = 'session_invalid',
+  TWO_FACTOR_REQUIRED = 'two_factor_required'
 }
 
 /**
@@ -8,6 +8,7 @@ import { PipedriveAdapter } from './PipedriveAdapter';
 import { DynamicsCRMAdapter } from './DynamicsCRMAdapter';
 import { SugarCRMAdapter } from './SugarCRMAdapter';
 import { logger } from '@/lib/core/logging/logger';
+import { CRMConnectionUtils } from '@/lib/features/crm/models/CRMConnection';
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
 
@@ -308,7 +309,7 @@ export class TokenRefreshService {
       // Update the stored tokens in Firestore
       try {
         const connectionRef = doc(this.getFirestore(), 'crmConnections', connectionId);
-        await updateDoc(connectionRef, { tokens: refreshResult.tokens });
+        await updateDoc(connectionRef, { tokens: CRMConnectionUtils.sealTokens(refreshResult.tokens) });
         
         logger.info(`Successfully refreshed ${platform} token for user ${userId}`);
         return refreshResult.tokens;
@@ -0,0 +1,236 @@
+/**
+ * OpenAPI document for the public API
+ *
+ * Request bodies, query parameters and response bodies are generated from the
+ * zod schemas the /api/v1 routes validate and serialize with, so the document
+ * cannot drift from what the routes accept and return.
+ */
+
+import { ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  ApiAnalyticsQuerySchema,
+  ApiAnalyticsSummarySchema,
+  ApiCalendarEntrySchema,
+  ApiCalendarQuerySchema,
+  ApiCreateScheduledPostSchema,
+  ApiErrorSchema,
+  ApiInboxMessageSchema,
+  ApiInboxQuerySchema,
+  ApiListMediaQuerySchema,
+  ApiListScheduledPostsQuerySchema,
+  ApiMediaAssetSchema,
+  ApiScheduledPostSchema,
+  ApiUpdateScheduledPostSchema,
+  ApiUploadMediaSchema
+} from '../validation/schemas';
+import { API_KEY_SCOPES, ApiKeyScope } from '../api-keys/scopes';
+
+type JsonSchema = Record<string, any>;
+
+// zod-to-json-schema types its input against zod/v3, which TypeScript cannot
+// compare to the app's zod types without hitting its instantiation depth limit
+const convertToJsonSchema = zodToJsonSchema as unknown as (
+  schema: ZodTypeAny,
+  options: { target: 'openApi3'; $refStrategy: 'none' }
+) => JsonSchema;
+
+/**
+ * One route in the document
+ */
+interface ApiOperation {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  path: string;
+  operationId: string;
+  summary: string;
+  tag: string;
+  scope: ApiKeyScope;
+  pathParams?: string[];
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+  // Multipart form fields besides the file
+  upload?: ZodTypeAny;
+  status?: number;
+  // Response body; omitted for 204 responses
+  response?: JsonSchema;
+}
+
+/**
+ * JSON Schema for a zod schema, in the OpenAPI 3.0 dialect
+ */
+export function toOpenApiSchema(schema: ZodTypeAny): JsonSchema {
+  const { $schema, ...jsonSchema } = convertToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none' });
+  return jsonSchema;
+}
+
+/**
+ * Query parameters for an object schema
+ */
+function toQueryParameters(schema: ZodTypeAny): JsonSchema[] {
+  const jsonSchema = toOpenApiSchema(schema);
+  const required: string[] = jsonSchema.required || [];
+  return Object.entries(jsonSchema.properties || {}).map(([name, property]) => ({
+    name,
+    in: 'query',
+    required: required.includes(name),
+    schema: property
+  }));
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const listOf = (name: string, extra: JsonSchema = {}): JsonSchema => ({
+  type: 'object',
+  properties: { data: { type: 'array', items: ref(name) }, ...extra },
+  required: ['data']
+});
+const single = (name: string): JsonSchema => ({
+  type: 'object',
+  properties: { data: ref(name) },
+  required: ['data']
+});
+
+const OPERATIONS: ApiOperation[] = [
+  {
+    method: 'get', path: '/posts', operationId: 'listScheduledPosts', tag: 'Posts', scope: 'posts:read',
+    summary: 'List scheduled posts', query: ApiListScheduledPostsQuerySchema, response: listOf('ScheduledPost')
+  },
+  {
+    method: 'post', path: '/posts', operationId: 'createScheduledPosts', tag: 'Posts', scope: 'posts:write',
+    summary: 'Schedule a post on one or more platforms; one scheduled post is created per platform',
+    body: ApiCreateScheduledPostSchema, status: 201, response: listOf('ScheduledPost')
+  },
+  {
+    method: 'get', path: '/posts/{id}', operationId: 'getScheduledPost', tag: 'Posts', scope: 'posts:read',
+    summary: 'Get a scheduled post', pathParams: ['id'], response: single('ScheduledPost')
+  },
+  {
+    method: 'patch', path: '/posts/{id}', operationId: 'updateScheduledPost', tag: 'Posts', scope: 'posts:write',
+    summary: 'Update a draft or scheduled post', pathParams: ['id'], body: ApiUpdateScheduledPostSchema,
+    response: single('ScheduledPost')
+  },
+  {
+    method: 'delete', path: '/posts/{id}', operationId: 'deleteScheduledPost', tag: 'Posts', scope: 'posts:write',
+    summary: 'Delete a post that has not been published', pathParams: ['id'], status: 204
+  },
+  {
+    method: 'get', path: '/media', operationId: 'listMedia', tag: 'Media', scope: 'media:read',
+    summary: 'List media assets uploaded by the key\'s user', query: ApiListMediaQuerySchema, response: listOf('MediaAsset')
+  },
+  {
+    method: 'post', path: '/media', operationId: 'uploadMedia', tag: 'Media', scope: 'media:write',
+    summary: 'Upload a media asset (up to 100MB)', upload: ApiUploadMediaSchema, status: 201, response: single('MediaAsset')
+  },
+  {
+    method: 'get', path: '/calendar', operationId: 'getCalendar', tag: 'Calendar', scope: 'calendar:read',
+    summary: 'Posts scheduled in a date range of up to 92 days', query: ApiCalendarQuerySchema,
+    response: listOf('CalendarEntry')
+  },
+  {
+    method: 'get', path: '/inbox/messages', operationId: 'listInboxMessages', tag: 'Inbox', scope: 'inbox:read',
+    summary: 'List social inbox messages, newest first', query: ApiInboxQuerySchema,
+    response: listOf('InboxMessage', { nextCursor: { type: 'string' } })
+  },
+  {
+    method: 'get', path: '/analytics', operationId: 'getAnalyticsSummary', tag: 'Analytics', scope: 'analytics:read',
+    summary: 'Aggregated post analytics', query: ApiAnalyticsQuerySchema, response: single('AnalyticsSummary')
+  }
+];
+
+const ERROR_RESPONSES: Record<string, string> = {
+  '400': 'Invalid request',
+  '401': 'Missing, invalid or expired API key',
+  '403': 'The API key does not have the required scope',
+  '404': 'Not found',
+  '429': 'The API key\'s rate limit was exceeded'
+};
+
+/**
+ * Build the OpenAPI document
+ * @param serverUrl Base URL of the v1 API
+ */
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  OPERATIONS.forEach(operation => {
+    const status = String(operation.status || 200);
+    const parameters = [
+      ...(operation.pathParams || []).map(name => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+      ...(operation.query ? toQueryParameters(operation.query) : [])
+    ];
+
+    let requestBody: JsonSchema | undefined;
+    if (operation.body) {
+      requestBody = { required: true, content: { 'application/json': { schema: toOpenApiSchema(operation.body) } } };
+    } else if (operation.upload) {
+      const fields = toOpenApiSchema(operation.upload);
+      requestBody = {
+        required: true,
+        content: {
+          'multipart/form-data': {
+            schema: {
+              ...fields,
+              properties: { file: { type: 'string', format: 'binary' }, ...fields.properties },
+              required: ['file', ...(fields.required || [])]
+            }
+          }
+        }
+      };
+    }
+
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: {
+        operationId: operation.operationId,
+        summary: operation.summary,
+        description: `Requires the \`${operation.scope}\` scope.`,
+        tags: [operation.tag],
+        ...(parameters.length > 0 ? { parameters } : {}),
+        ...(requestBody ? { requestBody } : {}),
+        responses: {
+          [status]: operation.response
+            ? { description: 'Success', content: { 'application/json': { schema: operation.response } } }
+            : { description: 'Success' },
+          ...Object.fromEntries(Object.entries(ERROR_RESPONSES).map(([code, description]) => [
+            code,
+            { description, content: { 'application/json': { schema: ref('Error') } } }
+          ]))
+        }
+      }
+    };
+  });
+
+  const scopes = Object.entries(API_KEY_SCOPES).map(([scope, description]) => `- \`${scope}\`: ${description}`).join('\n');
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'IriSync API',
+      version: '1.0.0',
+      description: [
+        'Authenticate with an API key from Settings, sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`.',
+        'Each key has its own per-minute rate limit, reported in the `X-RateLimit-*` response headers.',
+        '',
+        'Scopes:',
+        scopes
+      ].join('\n')
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    tags: ['Posts', 'Media', 'Calendar', 'Inbox', 'Analytics'].map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      },
+      schemas: {
+        ScheduledPost: toOpenApiSchema(ApiScheduledPostSchema),
+        MediaAsset: toOpenApiSchema(ApiMediaAssetSchema),
+        CalendarEntry: toOpenApiSchema(ApiCalendarEntrySchema),
+        InboxMessage: toOpenApiSchema(ApiInboxMessageSchema),
+        AnalyticsSummary: toOpenApiSchema(ApiAnalyticsSummarySchema),
+        Error: toOpenApiSchema(ApiErrorSchema)
+      }
+    }
+  };
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import {
+  ApiCalendarEntrySchema,
+  ApiInboxMessageSchema,
+  ApiMediaAssetSchema,
+  ApiScheduledPostSchema
+} from '../validation/schemas';
+import type { ScheduledPost } from '../features/scheduling/ScheduledPostService';
+import type { MediaAsset } from '../features/media/MediaAssetService';
+import type { InboxMessage } from '../features/content/SocialInboxService';
+
+/**
+ * ISO string of a Date, Firestore Timestamp or date string
+ */
+function toIsoString(value: Date | { toDate(): Date } | string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = typeof value === 'string' ? new Date(value) : value instanceof Date ? value : value.toDate();
+  return date.toISOString();
+}
+
+/**
+ * Scheduled post as returned by the public API
+ */
+export function toApiScheduledPost(post: ScheduledPost): z.infer<typeof ApiScheduledPostSchema> {
+  const publishUrl = post.publishUrls?.[post.post.platformType];
+  return {
+    id: post.id!,
+    platform: post.post.platformType,
+    content: post.post.content,
+    ...(post.post.title ? { title: post.post.title } : {}),
+    status: post.status,
+    scheduledAt: toIsoString(post.scheduledFor)!,
+    timezone: post.schedule.timezone,
+    ...(post.publishedAt ? { publishedAt: toIsoString(post.publishedAt) } : {}),
+    ...(publishUrl ? { publishUrl } : {}),
+    ...(post.lastError ? { lastError: post.lastError } : {}),
+    mediaUrls: (post.post.attachments || []).map(attachment => attachment.url).filter((url): url is string => !!url),
+    tags: post.tags || [],
+    ...(post.notes ? { notes: post.notes } : {}),
+    createdAt: toIsoString(post.createdAt)!,
+    updatedAt: toIsoString(post.updatedAt)!
+  };
+}
+
+/**
+ * Calendar entry for a scheduled post
+ */
+export function toApiCalendarEntry(post: ScheduledPost): z.infer<typeof ApiCalendarEntrySchema> {
+  return {
+    postId: post.id!,
+    platform: post.post.platformType,
+    ...(post.post.title ? { title: post.post.title } : {}),
+    content: post.post.content,
+    status: post.status,
+    scheduledAt: toIsoString(post.scheduledFor)!
+  };
+}
+
+/**
+ * Media asset as returned by the public API
+ */
+export function toApiMediaAsset(asset: MediaAsset): z.infer<typeof ApiMediaAssetSchema> {
+  return {
+    id: asset.id!,
+    type: asset.type,
+    fileName: asset.originalFileName || asset.fileName,
+    mimeType: asset.mimeType,
+    fileSize: asset.fileSize,
+    url: asset.downloadUrl,
+    ...(asset.thumbnailUrl ? { thumbnailUrl: asset.thumbnailUrl } : {}),
+    ...(asset.width ? { width: asset.width } : {}),
+    ...(asset.height ? { height: asset.height } : {}),
+    ...(asset.title ? { title: asset.title } : {}),
+    ...(asset.altText ? { altText: asset.altText } : {}),
+    tags: asset.tags || [],
+    uploadedAt: toIsoString(asset.uploadedAt)!
+  };
+}
+
+/**
+ * Inbox message as returned by the public API
+ */
+export function toApiInboxMessage(message: InboxMessage): z.infer<typeof ApiInboxMessageSchema> {
+  return {
+    id: message.id,
+    platform: message.platformType,
+    type: message.type,
+    status: message.status,
+    priority: message.priority,
+    sender: {
+      id: message.sender.id,
+      name: message.sender.name,
+      ...(message.sender.username ? { username: message.sender.username } : {})
+    },
+    content: message.content,
+    ...(message.platformPostId ? { platformPostId: message.platformPostId } : {}),
+    ...(message.sentiment ? { sentiment: message.sentiment } : {}),
+    labels: message.labels || [],
+    receivedAt: toIsoString(message.receivedAt)!
+  };
+}
@@ -6,6 +6,7 @@ import { Redis } from '@upstash/redis';
 let redis: Redis | null = null;
 let ratelimit: Ratelimit | null = null;
 let premiumRatelimit: Ratelimit | null = null;
+let externalReviewRatelimit: Ratelimit | null = null;
 
 // Check if Upstash Redis is configured
 const isRedisConfigured = () => {
@@ -33,9 +34,17 @@ if (isRedisConfigured()) {
       analytics: true,
       prefix: '@irisync/ratelimit/premium',
     });
+
+    // Magic-link review pages are public, so limit them per link and per IP
+    externalReviewRatelimit = new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(30, '1 m'),
+      analytics: true,
+      prefix: '@irisync/ratelimit/external-review',
+    });
   } catch (error) {
     console.warn('Failed to initialize rate limiting:', error);
   }
 }
 
-export { ratelimit, premiumRatelimit, isRedisConfigured };
+export { ratelimit, premiumRatelimit, externalReviewRatelimit, isRedisConfigured };
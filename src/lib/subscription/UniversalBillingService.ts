@@ -3,6 +3,7 @@ import { Firestore, doc, getDoc, updateDoc, collection, query, where, getDocs, T
 import { getStripeClient } from '../features/billing/stripe';
 import { logger } from '../core/logging/logger';
 import unifiedEmailService from '../core/notifications/unified-email-service';
+import { summarizeWorkspaceUsage, WorkspaceUsage } from '../core/models/Organization';
 
 /**
  * Universal billing status for all subscription tiers
@@ -70,6 +71,17 @@ export class UniversalBillingService {
       const orgData = orgDoc.data();
       const billing = orgData.billing;
       
+      // Client workspaces are paid for by their agency and follow its status
+      if (billing?.billedToOrganizationId) {
+        const agencyStatus = await this.checkBillingStatus(billing.billedToOrganizationId);
+        await updateDoc(doc(this.getFirestore(), 'organizations', organizationId), {
+          'billing.status': agencyStatus,
+          'billing.lastChecked': Timestamp.now(),
+          updatedAt: Timestamp.now()
+        });
+        return agencyStatus;
+      }
+      
       if (!billing?.subscriptionId) {
         logger.info('Organization has no subscription', { organizationId });
         return BillingStatus.PENDING_SETUP;
@@ -152,6 +164,11 @@ export class UniversalBillingService {
         const orgData = orgDoc.data();
         const organizationId = orgDoc.id;
         
+        // Client workspaces are handled with their agency
+        if (orgData.billing?.billedToOrganizationId) {
+          continue;
+        }
+        
         // Check if we should send a reminder or take action
         await this.processPastDueOrganization(organizationId, orgData);
       }
@@ -300,8 +317,7 @@ export class UniversalBillingService {
         subscriptionTier: orgData.billing?.subscriptionTier
       });
       
-      // Update organization status
-      await updateDoc(doc(this.getFirestore(), 'organizations', organizationId), {
+      const suspension = {
         status: AccountStatus.SUSPENDED,
         suspendedAt: Timestamp.now(),
         suspensionReason: 'billing_past_due',
@@ -315,7 +331,13 @@ export class UniversalBillingService {
         'usageQuota.aiTokens.limit': 0,
         'usageQuota.socialAccounts.limit': 0,
         'usageQuota.teamMembers.limit': 0
-      });
+      };
+      
+      // Update organization status, and that of any client workspaces it pays for
+      await updateDoc(doc(this.getFirestore(), 'organizations', organizationId), suspension);
+      for (const workspaceId of await this.getClientWorkspaceIds(organizationId)) {
+        await updateDoc(doc(this.getFirestore(), 'organizations', workspaceId), suspension);
+      }
       
       // Send suspension notice
       await this.sendSuspensionNotice(organizationId, orgData);
@@ -345,8 +367,7 @@ export class UniversalBillingService {
         await stripe.subscriptions.cancel(billing.subscriptionId);
       }
       
-      // Update organization status
-      await updateDoc(doc(this.getFirestore(), 'organizations', organizationId), {
+      const closure = {
         status: AccountStatus.CLOSED,
         closedAt: Timestamp.now(),
         closureReason: 'billing_non_payment',
@@ -360,7 +381,13 @@ export class UniversalBillingService {
         'usageQuota.aiTokens.limit': 0,
         'usageQuota.socialAccounts.limit': 0,
         'usageQuota.teamMembers.limit': 0
-      });
+      };
+      
+      // Update organization status, and that of any client workspaces it pays for
+      await updateDoc(doc(this.getFirestore(), 'organizations', organizationId), closure);
+      for (const workspaceId of await this.getClientWorkspaceIds(organizationId)) {
+        await updateDoc(doc(this.getFirestore(), 'organizations', workspaceId), closure);
+      }
       
       // Send closure notice
       await this.sendAccountClosureNotice(organizationId, orgData);
@@ -642,6 +669,11 @@ export class UniversalBillingService {
         updatedAt: Timestamp.now()
       });
       
+      // Client workspaces paid for by this organization come back with it
+      for (const workspaceId of await this.getClientWorkspaceIds(organizationId)) {
+        await this.restoreAccount(workspaceId);
+      }
+      
       logger.info('Account restored after payment', {
         organizationId,
         subscriptionTier
@@ -656,6 +688,62 @@ export class UniversalBillingService {
     }
   }
   
+  /**
+   * Roll up an agency's subscription and the usage of the client workspaces it pays for
+   * @param agencyId Agency organization ID
+   * @returns Consolidated billing summary
+   */
+  async getConsolidatedBilling(agencyId: string): Promise<{
+    organizationId: string;
+    subscriptionTier: string;
+    billingStatus: BillingStatus;
+    workspaces: WorkspaceUsage[];
+    totals: Omit<WorkspaceUsage, 'organizationId' | 'name'>;
+  }> {
+    const agencyDoc = await getDoc(doc(this.getFirestore(), 'organizations', agencyId));
+    
+    if (!agencyDoc.exists()) {
+      throw new Error(`Organization ${agencyId} not found`);
+    }
+    
+    const agencyData = agencyDoc.data();
+    const workspaceDocs = await this.getClientWorkspaces(agencyId);
+    
+    const usage = summarizeWorkspaceUsage(
+      [agencyDoc, ...workspaceDocs].map(orgDoc => ({
+        id: orgDoc.id,
+        name: orgDoc.data()?.name,
+        displayName: orgDoc.data()?.displayName,
+        usageQuota: orgDoc.data()?.usageQuota
+      }))
+    );
+    
+    return {
+      organizationId: agencyId,
+      subscriptionTier: agencyData.billing?.subscriptionTier || 'creator',
+      billingStatus: agencyData.billing?.status || BillingStatus.PENDING_SETUP,
+      ...usage
+    };
+  }
+  
+  /**
+   * Get the client workspaces whose billing rolls up to an organization
+   */
+  private async getClientWorkspaces(organizationId: string) {
+    const snapshot = await getDocs(
+      query(
+        collection(this.getFirestore(), 'organizations'),
+        where('billing.billedToOrganizationId', '==', organizationId)
+      )
+    );
+    
+    return snapshot.docs;
+  }
+  
+  private async getClientWorkspaceIds(organizationId: string): Promise<string[]> {
+    return (await this.getClientWorkspaces(organizationId)).map(workspaceDoc => workspaceDoc.id);
+  }
+  
   /**
    * Get quotas for subscription tier
    */
@@ -0,0 +1,253 @@
+import { computeKeyedDigest } from '../../core/security/encryption';
+
+/**
+ * Hash chaining for audit log entries
+ *
+ * Each entry stores the hash of its predecessor in the same chain (one chain
+ * per organization, plus one for platform-level events) and a hash over its
+ * own contents. Editing an entry breaks its hash, deleting one leaves a gap in
+ * the sequence, and dropping the newest entries no longer matches the chain
+ * head, so any change made outside the logger shows up on verification.
+ *
+ * Hashes are HMACs under a key derived from the encryption master key, which
+ * lives in the environment rather than in Firestore, so write access to the
+ * audit collections is not enough to rewrite a chain with matching hashes.
+ */
+
+/**
+ * Chain for entries that belong to no organization
+ */
+export const PLATFORM_AUDIT_CHAIN = 'platform';
+
+/**
+ * Hash that the first entry of a chain links to
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Fields that link an entry into its chain
+ */
+export interface AuditChainLink {
+  chainId: string;
+  sequence: number;
+  previousHash: string;
+  hash: string;
+}
+
+/**
+ * Latest entry of a chain, kept alongside the entries
+ */
+export interface AuditChainHead {
+  sequence: number;
+  hash: string;
+  entryId?: string;
+}
+
+export type AuditChainIssueType =
+  // Entry contents no longer match its hash
+  | 'hash_mismatch'
+  // Entry does not link to the hash of the entry before it
+  | 'broken_link'
+  // Sequence numbers are missing
+  | 'gap'
+  // Two entries claim the same sequence number
+  | 'duplicate'
+  // Entries at the end of the chain are missing
+  | 'truncated'
+  // Entry names no hash key, or one that is no longer configured
+  | 'unverifiable';
+
+export interface AuditChainIssue {
+  type: AuditChainIssueType;
+  sequence: number;
+  entryId?: string;
+  message: string;
+}
+
+export interface AuditChainVerification {
+  chainId: string;
+  valid: boolean;
+  checkedEntries: number;
+  firstSequence?: number;
+  lastSequence?: number;
+  lastHash?: string;
+  issues: AuditChainIssue[];
+}
+
+/**
+ * Entry as read back for verification
+ */
+export interface ChainedAuditRecord {
+  id?: string;
+  chainSequence: number;
+  previousHash: string;
+  hashKeyId?: string;
+  hash: string;
+  [field: string]: any;
+}
+
+// Fields that are part of the chain rather than the hashed contents
+const LINK_FIELDS = ['id', 'hash'];
+
+// Separates the audit hash key from other keys derived from the master key
+const AUDIT_HASH_CONTEXT = 'audit-chain';
+
+/**
+ * Chain an entry belongs to
+ */
+export function getAuditChainId(organizationId?: string): string {
+  return organizationId || PLATFORM_AUDIT_CHAIN;
+}
+
+/**
+ * Deterministic JSON for hashing: keys sorted, undefined dropped, and dates
+ * (including Firestore timestamps read back from storage) as ISO strings
+ */
+export function canonicalizeAuditValue(value: any): string {
+  return JSON.stringify(normalize(value));
+}
+
+/**
+ * Keyed hash of an entry's contents and its link to the previous entry
+ * @param entry Entry fields, including chainId, chainSequence, previousHash and hashKeyId
+ * @returns Hash, or null when the entry names no key or one that is no longer configured
+ */
+export function computeAuditHash(entry: Record<string, any>): string | null {
+  if (typeof entry.hashKeyId !== 'string') {
+    return null;
+  }
+
+  const contents = Object.fromEntries(
+    Object.entries(entry).filter(([field]) => !LINK_FIELDS.includes(field))
+  );
+  return computeKeyedDigest(canonicalizeAuditValue(contents), AUDIT_HASH_CONTEXT, entry.hashKeyId)?.digest ?? null;
+}
+
+/**
+ * Drop undefined fields, which Firestore rejects and hashing ignores
+ */
+export function withoutUndefined<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => withoutUndefined(item)) as unknown as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, any>)
+        .filter(([, field]) => field !== undefined)
+        .map(([key, field]) => [key, withoutUndefined(field)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Check a run of entries ordered by sequence
+ * @param entries Entries in sequence order
+ * @param options.anchor Last verified entry before this run, when continuing a verification
+ * @param options.head Stored chain head, to detect entries removed from the end
+ */
+export function verifyAuditChain(
+  chainId: string,
+  entries: ChainedAuditRecord[],
+  options: { anchor?: AuditChainHead; head?: AuditChainHead | null } = {}
+): AuditChainVerification {
+  const issues: AuditChainIssue[] = [];
+  let previous: AuditChainHead = options.anchor || { sequence: 0, hash: GENESIS_HASH };
+
+  for (const entry of entries) {
+    const sequence = entry.chainSequence;
+
+    if (sequence === previous.sequence) {
+      issues.push({
+        type: 'duplicate',
+        sequence,
+        entryId: entry.id,
+        message: `Sequence ${sequence} appears more than once`
+      });
+    } else if (sequence > previous.sequence + 1) {
+      issues.push({
+        type: 'gap',
+        sequence,
+        entryId: entry.id,
+        message: `Entries ${previous.sequence + 1} to ${sequence - 1} are missing`
+      });
+    } else if (entry.previousHash !== previous.hash) {
+      issues.push({
+        type: 'broken_link',
+        sequence,
+        entryId: entry.id,
+        message: `Entry ${sequence} does not link to entry ${previous.sequence}`
+      });
+    }
+
+    const expectedHash = computeAuditHash(entry);
+    if (expectedHash === null) {
+      issues.push({
+        type: 'unverifiable',
+        sequence,
+        entryId: entry.id,
+        message: `Entry ${sequence} is not hashed with a configured key`
+      });
+    } else if (expectedHash !== entry.hash) {
+      issues.push({
+        type: 'hash_mismatch',
+        sequence,
+        entryId: entry.id,
+        message: `Entry ${sequence} was modified after it was written`
+      });
+    }
+
+    previous = { sequence, hash: entry.hash, entryId: entry.id };
+  }
+
+  const head = options.head;
+  if (head && (head.sequence > previous.sequence || (head.sequence === previous.sequence && head.hash !== previous.hash))) {
+    issues.push({
+      type: 'truncated',
+      sequence: head.sequence,
+      entryId: head.entryId,
+      message: head.sequence > previous.sequence
+        ? `Entries ${previous.sequence + 1} to ${head.sequence} are missing from the end of the chain`
+        : `Entry ${head.sequence} does not match the chain head`
+    });
+  }
+
+  return {
+    chainId,
+    valid: issues.length === 0,
+    checkedEntries: entries.length,
+    firstSequence: entries[0]?.chainSequence,
+    lastSequence: entries.length > 0 ? previous.sequence : undefined,
+    lastHash: entries.length > 0 ? previous.hash : undefined,
+    issues
+  };
+}
+
+function normalize(value: any): any {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value.toDate === 'function') {
+    return value.toDate().toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => (item === undefined ? null : normalize(item)));
+  }
+  if (typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .filter(key => value[key] !== undefined)
+      .reduce((result, key) => {
+        result[key] = normalize(value[key]);
+        return result;
+      }, {} as Record<string, any>);
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
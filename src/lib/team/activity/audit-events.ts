@@ -0,0 +1,32 @@
+import { logger } from '../../core/logging/logger';
+import type { AuditLogCategory, AuditLogEntry, AuditLogSeverity, TeamAuditLogger } from './audit-logger';
+
+/**
+ * Audit event recorded from a service
+ * Categories and severities are given as their string values so callers do
+ * not need the logger's enums
+ */
+export interface AuditEvent extends Omit<
+  AuditLogEntry,
+  'id' | 'timestamp' | 'category' | 'severity' | 'chainId' | 'chainSequence' | 'previousHash' | 'hashKeyId' | 'hash'
+> {
+  category: `${AuditLogCategory}`;
+  severity: `${AuditLogSeverity}`;
+}
+
+/**
+ * Record an audit log entry without holding up or failing the caller
+ * @param event Audit event
+ */
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  try {
+    // Loaded on first use so client-side services do not pull in Firebase Admin
+    const auditLogger = await import('./audit-logger');
+    await new auditLogger.TeamAuditLogger().log(event as Parameters<TeamAuditLogger['log']>[0]);
+  } catch (error) {
+    logger.error(`Error recording audit event ${event.action}`, {
+      organizationId: event.organizationId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
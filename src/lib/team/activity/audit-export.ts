@@ -0,0 +1,383 @@
+import { Parser } from '@json2csv/plainjs';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getFirestore, getStorage } from '@/lib/core/firebase/admin';
+import { logger } from '@/lib/core/logging/logger';
+import { isSealedSecret, openSecret, sealSecret } from '@/lib/core/security/encryption';
+import { UnsafeDestinationError } from '@/lib/core/security/network';
+import { AuditLogEntry, TeamAuditLogger } from './audit-logger';
+import {
+  AuditHttpSinkFormat,
+  AuditSink,
+  AuditSyslogProtocol,
+  SYSLOG_SINK_PORTS,
+  assertSinkDestination,
+  deliverToSink,
+  serializeAuditEntry
+} from './audit-sinks';
+
+/**
+ * Long-term export and SIEM streaming of audit logs
+ *
+ * Each chain (an organization, or the platform) has one export config. Scheduled
+ * exports write every entry since the previous export to storage as NDJSON or
+ * CSV, hashes included, so exported files can be verified on their own. Sinks
+ * receive each entry as it is logged; delivery is best effort, and the
+ * scheduled export is the complete record.
+ */
+
+export type AuditExportFormat = 'ndjson' | 'csv';
+
+export type AuditExportSchedule = 'daily' | 'weekly';
+
+export interface AuditExportConfig {
+  chainId: string;
+  exportEnabled: boolean;
+  schedule: AuditExportSchedule;
+  format: AuditExportFormat;
+  sinks: AuditSink[];
+  // Last chain entry written to storage
+  lastExportedSequence: number;
+  lastExportedAt?: Date;
+  lastExportPath?: string;
+  // Whether entries were left for the next run
+  backlog?: boolean;
+  updatedBy?: string;
+  updatedAt?: Date;
+}
+
+/**
+ * Config as accepted from callers; sink tokens are plaintext here, and an
+ * omitted token keeps the one stored for the same sink id
+ */
+export interface AuditExportConfigInput {
+  exportEnabled?: boolean;
+  schedule?: AuditExportSchedule;
+  format?: AuditExportFormat;
+  sinks?: Array<Record<string, any>>;
+}
+
+export interface AuditExportRun {
+  chainId: string;
+  exported: number;
+  path?: string;
+  error?: string;
+}
+
+export class AuditExportError extends Error {
+  constructor(message: string, public readonly code: 'invalid' | 'not_found') {
+    super(message);
+    this.name = 'AuditExportError';
+  }
+}
+
+export const AUDIT_SINK_TOKEN_CONTEXT = 'audit-sink-token';
+
+const CONFIG_COLLECTION = 'audit_log_exports';
+const EXPORT_BATCH_SIZE = 5000;
+const CONFIG_CACHE_MS = 60 * 1000;
+const MAX_SINKS = 5;
+
+const SCHEDULE_INTERVAL_MS: Record<AuditExportSchedule, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+const HTTP_SINK_FORMATS: AuditHttpSinkFormat[] = ['splunk_hec', 'datadog', 'json'];
+const SYSLOG_PROTOCOLS: AuditSyslogProtocol[] = ['udp', 'tcp', 'tls'];
+
+const CSV_FIELDS = [
+  'id', 'chainId', 'chainSequence', 'timestamp', 'userId', 'organizationId', 'teamId',
+  'category', 'action', 'severity', 'resourceType', 'resourceId', 'ipAddress', 'userAgent',
+  'previousState', 'newState', 'metadata', 'previousHash', 'hashKeyId', 'hash'
+];
+
+/**
+ * Render entries as NDJSON (one entry per line) or CSV (nested values as JSON)
+ */
+export function formatAuditExport(entries: AuditLogEntry[], format: AuditExportFormat): string {
+  const rows = entries.map(serializeAuditEntry);
+
+  if (format === 'ndjson') {
+    return rows.map(row => `${JSON.stringify(row)}\n`).join('');
+  }
+
+  const parser = new Parser({ fields: CSV_FIELDS });
+  return parser.parse(rows.map(row => ({
+    ...row,
+    previousState: row.previousState === undefined ? '' : JSON.stringify(row.previousState),
+    newState: row.newState === undefined ? '' : JSON.stringify(row.newState),
+    metadata: JSON.stringify(row.metadata || {})
+  })));
+}
+
+/**
+ * Whether a chain's scheduled export should run
+ */
+export function isExportDue(config: AuditExportConfig, now: Date = new Date()): boolean {
+  if (!config.exportEnabled) {
+    return false;
+  }
+  if (!config.lastExportedAt || config.backlog) {
+    return true;
+  }
+  return now.getTime() - config.lastExportedAt.getTime() >= SCHEDULE_INTERVAL_MS[config.schedule];
+}
+
+/**
+ * Validate sinks from a caller, sealing new tokens. Sink hosts must resolve
+ * to public addresses.
+ * @param existing Stored sinks, whose tokens are kept when a sink omits its token
+ */
+export async function normalizeAuditSinks(
+  input: Array<Record<string, any>>,
+  existing: AuditSink[] = []
+): Promise<AuditSink[]> {
+  if (!Array.isArray(input) || input.length > MAX_SINKS) {
+    throw new AuditExportError(`sinks must be a list of at most ${MAX_SINKS} sinks`, 'invalid');
+  }
+
+  const sinks = input.map((sink, index): AuditSink => {
+    const id = typeof sink.id === 'string' && sink.id ? sink.id : `sink-${index + 1}`;
+    const enabled = sink.enabled !== false;
+
+    if (sink.type === 'http') {
+      if (typeof sink.url !== 'string' || !sink.url.startsWith('https://')) {
+        throw new AuditExportError(`Sink ${id}: url must be an https URL`, 'invalid');
+      }
+      if (!HTTP_SINK_FORMATS.includes(sink.format)) {
+        throw new AuditExportError(`Sink ${id}: format must be one of ${HTTP_SINK_FORMATS.join(', ')}`, 'invalid');
+      }
+
+      const previous = existing.find(candidate => candidate.id === id && candidate.type === 'http');
+      const token = typeof sink.token === 'string' && sink.token
+        ? sealSecret(sink.token, AUDIT_SINK_TOKEN_CONTEXT)
+        : previous?.type === 'http' ? previous.token : undefined;
+
+      return { id, type: 'http', url: sink.url, format: sink.format, enabled, ...(token ? { token } : {}) };
+    }
+
+    if (sink.type === 'syslog') {
+      const port = Number(sink.port);
+      if (typeof sink.host !== 'string' || !sink.host) {
+        throw new AuditExportError(`Sink ${id}: host is required`, 'invalid');
+      }
+      if (!SYSLOG_SINK_PORTS.includes(port)) {
+        throw new AuditExportError(`Sink ${id}: port must be one of ${SYSLOG_SINK_PORTS.join(', ')}`, 'invalid');
+      }
+      if (!SYSLOG_PROTOCOLS.includes(sink.protocol)) {
+        throw new AuditExportError(`Sink ${id}: protocol must be one of ${SYSLOG_PROTOCOLS.join(', ')}`, 'invalid');
+      }
+      return { id, type: 'syslog', host: sink.host, port, protocol: sink.protocol, enabled };
+    }
+
+    throw new AuditExportError(`Sink ${id}: type must be http or syslog`, 'invalid');
+  });
+
+  for (const sink of sinks) {
+    try {
+      await assertSinkDestination(sink);
+    } catch (error) {
+      if (error instanceof UnsafeDestinationError) {
+        throw new AuditExportError(`Sink ${sink.id}: ${error.message}`, 'invalid');
+      }
+      throw error;
+    }
+  }
+
+  return sinks;
+}
+
+/**
+ * Config safe to return to callers, with sink tokens replaced by whether one is set
+ */
+export function redactAuditExportConfig(config: AuditExportConfig): Record<string, any> {
+  return {
+    ...config,
+    sinks: config.sinks.map(sink => {
+      if (sink.type !== 'http') return sink;
+      const { token, ...rest } = sink;
+      return { ...rest, hasToken: !!token };
+    })
+  };
+}
+
+/**
+ * Audit log export and streaming service
+ */
+export class AuditExportService {
+  private configCache = new Map<string, { config: AuditExportConfig | null; loadedAt: number }>();
+  private auditLogger = new TeamAuditLogger();
+
+  /**
+   * Get a chain's export config
+   */
+  async getConfig(chainId: string): Promise<AuditExportConfig | null> {
+    const configDoc = await getFirestore().collection(CONFIG_COLLECTION).doc(chainId).get();
+    if (!configDoc.exists) {
+      return null;
+    }
+
+    const data = configDoc.data() as Record<string, any>;
+    return {
+      chainId,
+      exportEnabled: !!data.exportEnabled,
+      schedule: data.schedule || 'daily',
+      format: data.format || 'ndjson',
+      sinks: data.sinks || [],
+      lastExportedSequence: data.lastExportedSequence || 0,
+      lastExportedAt: data.lastExportedAt?.toDate(),
+      lastExportPath: data.lastExportPath,
+      backlog: !!data.backlog,
+      updatedBy: data.updatedBy,
+      updatedAt: data.updatedAt?.toDate()
+    };
+  }
+
+  /**
+   * Create or update a chain's export config
+   */
+  async saveConfig(chainId: string, input: AuditExportConfigInput, updatedBy: string): Promise<AuditExportConfig> {
+    if (input.schedule && !SCHEDULE_INTERVAL_MS[input.schedule]) {
+      throw new AuditExportError('schedule must be daily or weekly', 'invalid');
+    }
+    if (input.format && input.format !== 'ndjson' && input.format !== 'csv') {
+      throw new AuditExportError('format must be ndjson or csv', 'invalid');
+    }
+
+    const existing = await this.getConfig(chainId);
+    const config: AuditExportConfig = {
+      chainId,
+      exportEnabled: input.exportEnabled ?? existing?.exportEnabled ?? false,
+      schedule: input.schedule || existing?.schedule || 'daily',
+      format: input.format || existing?.format || 'ndjson',
+      sinks: input.sinks ? await normalizeAuditSinks(input.sinks, existing?.sinks) : existing?.sinks || [],
+      lastExportedSequence: existing?.lastExportedSequence || 0,
+      lastExportedAt: existing?.lastExportedAt,
+      lastExportPath: existing?.lastExportPath,
+      updatedBy,
+      updatedAt: new Date()
+    };
+
+    await getFirestore().collection(CONFIG_COLLECTION).doc(chainId).set({
+      exportEnabled: config.exportEnabled,
+      schedule: config.schedule,
+      format: config.format,
+      sinks: config.sinks,
+      lastExportedSequence: config.lastExportedSequence,
+      updatedBy,
+      updatedAt: Timestamp.fromDate(config.updatedAt as Date)
+    }, { merge: true });
+
+    this.configCache.delete(chainId);
+    return config;
+  }
+
+  /**
+   * Send a newly logged entry to its chain's sinks
+   */
+  async streamEntry(entry: AuditLogEntry): Promise<void> {
+    if (!entry.chainId) {
+      return;
+    }
+
+    const config = await this.getCachedConfig(entry.chainId);
+    const sinks = config?.sinks.filter(sink => sink.enabled) || [];
+
+    await Promise.all(sinks.map(async sink => {
+      try {
+        const token = sink.type === 'http' && sink.token ? this.openToken(sink.token) : undefined;
+        await deliverToSink(sink, [entry], token);
+      } catch (error) {
+        logger.warn('Failed to stream audit event', {
+          chainId: entry.chainId,
+          sinkId: sink.id,
+          sinkType: sink.type,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }));
+  }
+
+  /**
+   * Run every scheduled export that is due
+   */
+  async runScheduledExports(now: Date = new Date()): Promise<AuditExportRun[]> {
+    const snapshot = await getFirestore().collection(CONFIG_COLLECTION)
+      .where('exportEnabled', '==', true)
+      .get();
+
+    const runs: AuditExportRun[] = [];
+    for (const configDoc of snapshot.docs) {
+      const config = await this.getConfig(configDoc.id);
+      if (!config || !isExportDue(config, now)) {
+        continue;
+      }
+
+      try {
+        runs.push(await this.exportChain(config, now));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error('Audit log export failed', { chainId: config.chainId, error: message });
+        runs.push({ chainId: config.chainId, exported: 0, error: message });
+      }
+    }
+
+    return runs;
+  }
+
+  /**
+   * Write the entries logged since the previous export to storage
+   */
+  async exportChain(config: AuditExportConfig, now: Date = new Date()): Promise<AuditExportRun> {
+    const entries = await this.auditLogger.getChainEntries(
+      config.chainId,
+      config.lastExportedSequence,
+      EXPORT_BATCH_SIZE
+    );
+    const configRef = getFirestore().collection(CONFIG_COLLECTION).doc(config.chainId);
+
+    if (entries.length === 0) {
+      await configRef.update({ lastExportedAt: Timestamp.fromDate(now), backlog: false });
+      return { chainId: config.chainId, exported: 0 };
+    }
+
+    const first = entries[0].chainSequence as number;
+    const last = entries[entries.length - 1].chainSequence as number;
+    const extension = config.format === 'csv' ? 'csv' : 'ndjson';
+    const path = `audit-exports/${config.chainId}/${now.toISOString().slice(0, 10)}-${first}-${last}.${extension}`;
+
+    await getStorage().bucket().file(path).save(formatAuditExport(entries, config.format), {
+      contentType: config.format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+      resumable: false
+    });
+
+    await configRef.update({
+      lastExportedSequence: last,
+      lastExportedAt: Timestamp.fromDate(now),
+      lastExportPath: path,
+      backlog: entries.length === EXPORT_BATCH_SIZE
+    });
+
+    logger.info('Audit log exported', { chainId: config.chainId, first, last, path });
+    return { chainId: config.chainId, exported: entries.length, path };
+  }
+
+  private async getCachedConfig(chainId: string): Promise<AuditExportConfig | null> {
+    const cached = this.configCache.get(chainId);
+    if (cached && Date.now() - cached.loadedAt < CONFIG_CACHE_MS) {
+      return cached.config;
+    }
+
+    const config = await this.getConfig(chainId);
+    this.configCache.set(chainId, { config, loadedAt: Date.now() });
+    return config;
+  }
+
+  private openToken(token: string): string {
+    return isSealedSecret(token) ? openSecret(token, AUDIT_SINK_TOKEN_CONTEXT) : token;
+  }
+}
+
+// Export singleton instance
+export const auditExportService = new AuditExportService();
+export default auditExportService;
@@ -1,4 +1,15 @@
 import { getFirestore } from 'firebase-admin/firestore';
+import {
+  AuditChainHead,
+  AuditChainVerification,
+  ChainedAuditRecord,
+  GENESIS_HASH,
+  computeAuditHash,
+  getAuditChainId,
+  verifyAuditChain,
+  withoutUndefined
+} from './audit-chain';
+import { getPrimaryKeyId } from '../../core/security/encryption';
 
 /**
  * Audit log action categories
@@ -45,13 +56,30 @@ export interface AuditLogEntry {
   previousState?: any;
   newState?: any;
   metadata: Record<string, any>;
+  // Hash chain link, set by the logger
+  chainId?: string;
+  chainSequence?: number;
+  previousHash?: string;
+  hashKeyId?: string;
+  hash?: string;
 }
 
+/**
+ * Result of verifying a chain, and whether every entry was read
+ */
+export interface AuditLogIntegrityReport extends AuditChainVerification {
+  complete: boolean;
+  verifiedAt: Date;
+}
+
+const VERIFY_PAGE_SIZE = 500;
+
 /**
  * Team audit logging service
  */
 export class TeamAuditLogger {
   private readonly AUDIT_LOG_COLLECTION = 'audit_logs';
+  private readonly AUDIT_CHAIN_COLLECTION = 'audit_log_chains';
   private _firestore: ReturnType<typeof getFirestore> | null = null;
   
   /**
@@ -66,19 +94,47 @@ export class TeamAuditLogger {
   
   /**
    * Log an audit event
+   * The entry is appended to its organization's hash chain and then streamed
+   * to the organization's SIEM sinks.
    * @param entry Audit log entry data
    * @returns The ID of the created audit log entry
    */
-  async log(entry: Omit<AuditLogEntry, 'id' | 'timestamp'>): Promise<string> {
+  async log(entry: Omit<AuditLogEntry, 'id' | 'timestamp' | 'chainId' | 'chainSequence' | 'previousHash' | 'hashKeyId' | 'hash'>): Promise<string> {
     try {
-      // Create the audit log entry
-      const auditData = {
-        ...entry,
-        timestamp: new Date()
-      };
+      const chainId = getAuditChainId(entry.organizationId);
+      const headRef = this.firestore.collection(this.AUDIT_CHAIN_COLLECTION).doc(chainId);
+      const docRef = this.firestore.collection(this.AUDIT_LOG_COLLECTION).doc();
+      
+      // Appending in a transaction on the chain head keeps sequence numbers unique
+      const auditData = await this.firestore.runTransaction(async transaction => {
+        const headDoc = await transaction.get(headRef);
+        const head = headDoc.exists ? headDoc.data() as AuditChainHead : null;
+        
+        const contents = withoutUndefined({
+          ...entry,
+          timestamp: new Date(),
+          chainId,
+          chainSequence: (head?.sequence || 0) + 1,
+          previousHash: head?.hash || GENESIS_HASH,
+          hashKeyId: getPrimaryKeyId()
+        });
+        const chained = { ...contents, hash: computeAuditHash(contents) as string };
+        
+        transaction.set(docRef, chained);
+        transaction.set(headRef, {
+          sequence: chained.chainSequence,
+          hash: chained.hash,
+          entryId: docRef.id,
+          updatedAt: chained.timestamp
+        });
+        
+        return chained;
+      });
       
-      // Add to the audit log collection
-      const docRef = await this.firestore.collection(this.AUDIT_LOG_COLLECTION).add(auditData);
+      // Loaded on first use so logging does not pull in the sink clients
+      void import('./audit-export')
+        .then(({ auditExportService }) => auditExportService.streamEntry({ id: docRef.id, ...auditData }))
+        .catch(error => console.error('Error streaming audit event:', error));
       
       return docRef.id;
     } catch (error) {
@@ -191,7 +247,12 @@ export class TeamAuditLogger {
           teamId: data.teamId,
           previousState: data.previousState,
           newState: data.newState,
-          metadata: data.metadata || {}
+          metadata: data.metadata || {},
+          chainId: data.chainId,
+          chainSequence: data.chainSequence,
+          previousHash: data.previousHash,
+          hashKeyId: data.hashKeyId,
+          hash: data.hash
         });
       });
       
@@ -202,6 +263,91 @@ export class TeamAuditLogger {
     }
   }
   
+  /**
+   * Get the entries of a chain in sequence order
+   * @param chainId Chain ID (organization ID, or the platform chain)
+   * @param afterSequence Sequence number to read after
+   * @param limit Maximum number of entries to return
+   * @returns Audit log entries
+   */
+  async getChainEntries(chainId: string, afterSequence: number = 0, limit: number = 1000): Promise<AuditLogEntry[]> {
+    const snapshot = await this.firestore.collection(this.AUDIT_LOG_COLLECTION)
+      .where('chainId', '==', chainId)
+      .where('chainSequence', '>', afterSequence)
+      .orderBy('chainSequence', 'asc')
+      .limit(limit)
+      .get();
+    
+    return snapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        ...data,
+        id: doc.id,
+        timestamp: data.timestamp.toDate(),
+        metadata: data.metadata || {}
+      } as AuditLogEntry;
+    });
+  }
+  
+  /**
+   * Verify that a chain has no edited, missing or reordered entries
+   * @param chainId Chain ID (organization ID, or the platform chain)
+   * @param maxEntries Maximum number of entries to check
+   * @returns Integrity report
+   */
+  async verifyChain(chainId: string, maxEntries: number = 50000): Promise<AuditLogIntegrityReport> {
+    const headDoc = await this.firestore.collection(this.AUDIT_CHAIN_COLLECTION).doc(chainId).get();
+    const head = headDoc.exists ? headDoc.data() as AuditChainHead : null;
+    
+    const issues: AuditChainVerification['issues'] = [];
+    let anchor: AuditChainHead | undefined;
+    let checkedEntries = 0;
+    let firstSequence: number | undefined;
+    let complete = true;
+    
+    // Verify page by page, carrying the last verified entry as the anchor of the next page
+    while (true) {
+      if (checkedEntries >= maxEntries) {
+        complete = false;
+        break;
+      }
+      
+      const snapshot = await this.firestore.collection(this.AUDIT_LOG_COLLECTION)
+        .where('chainId', '==', chainId)
+        .where('chainSequence', '>', anchor?.sequence || 0)
+        .orderBy('chainSequence', 'asc')
+        .limit(Math.min(VERIFY_PAGE_SIZE, maxEntries - checkedEntries))
+        .get();
+      
+      const records = snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as ChainedAuditRecord);
+      const isLastPage = records.length < VERIFY_PAGE_SIZE;
+      const page = verifyAuditChain(chainId, records, { anchor, head: isLastPage ? head : undefined });
+      
+      issues.push(...page.issues);
+      checkedEntries += page.checkedEntries;
+      firstSequence = firstSequence ?? page.firstSequence;
+      if (page.lastSequence !== undefined) {
+        anchor = { sequence: page.lastSequence, hash: page.lastHash as string };
+      }
+      
+      if (isLastPage) {
+        break;
+      }
+    }
+    
+    return {
+      chainId,
+      valid: issues.length === 0,
+      complete,
+      checkedEntries,
+      firstSequence,
+      lastSequence: anchor?.sequence,
+      lastHash: anchor?.hash,
+      issues,
+      verifiedAt: new Date()
+    };
+  }
+  
   /**
    * Log user authentication event
    * @param userId User ID
@@ -0,0 +1,206 @@
+import os from 'os';
+import dgram from 'dgram';
+import net from 'net';
+import tls from 'tls';
+import axios from 'axios';
+import {
+  UnsafeDestinationError,
+  assertPublicUrl,
+  publicAgents,
+  publicLookup,
+  resolvePublicAddresses
+} from '@/lib/core/security/network';
+import { AuditLogEntry, AuditLogSeverity } from './audit-logger';
+
+/**
+ * Streaming sinks for audit log entries
+ *
+ * HTTP sinks post to a Splunk HTTP Event Collector, the Datadog logs intake or
+ * any collector that accepts a JSON array. Syslog sinks send RFC 5424
+ * messages over UDP, TCP or TLS (octet-counted framing on streams). Sinks
+ * must point at public hosts on the ports collectors listen on.
+ */
+
+export type AuditHttpSinkFormat = 'splunk_hec' | 'datadog' | 'json';
+
+export type AuditSyslogProtocol = 'udp' | 'tcp' | 'tls';
+
+export interface AuditHttpSink {
+  id: string;
+  type: 'http';
+  url: string;
+  format: AuditHttpSinkFormat;
+  // Sealed HEC token, API key or bearer token
+  token?: string;
+  enabled: boolean;
+}
+
+export interface AuditSyslogSink {
+  id: string;
+  type: 'syslog';
+  host: string;
+  port: number;
+  protocol: AuditSyslogProtocol;
+  enabled: boolean;
+}
+
+export type AuditSink = AuditHttpSink | AuditSyslogSink;
+
+// HTTPS, and the Splunk HTTP Event Collector's default port
+export const HTTP_SINK_PORTS = [443, 8088];
+// Syslog over UDP or TCP, reliable delivery (RFC 3195) and TLS (RFC 5425)
+export const SYSLOG_SINK_PORTS = [514, 601, 6514];
+
+const SINK_TIMEOUT_MS = 5000;
+const APP_NAME = 'irisync';
+// Facility 13: log audit
+const SYSLOG_FACILITY = 13;
+
+const SYSLOG_SEVERITY: Record<AuditLogSeverity, number> = {
+  [AuditLogSeverity.INFO]: 6,
+  [AuditLogSeverity.WARNING]: 4,
+  [AuditLogSeverity.ERROR]: 3,
+  [AuditLogSeverity.CRITICAL]: 2
+};
+
+/**
+ * Entry as sent to collectors, with dates as ISO strings
+ */
+export function serializeAuditEntry(entry: AuditLogEntry): Record<string, any> {
+  return JSON.parse(JSON.stringify({ ...entry, timestamp: entry.timestamp.toISOString() }));
+}
+
+/**
+ * RFC 5424 syslog message for an entry, with the entry as JSON in the message body
+ */
+export function formatSyslogMessage(entry: AuditLogEntry, hostname: string = os.hostname()): string {
+  const priority = SYSLOG_FACILITY * 8 + (SYSLOG_SEVERITY[entry.severity] ?? 6);
+  const messageId = entry.action.replace(/[^\x21-\x7e]/g, '_').slice(0, 32) || '-';
+
+  return `<${priority}>1 ${entry.timestamp.toISOString()} ${hostname || '-'} ${APP_NAME} - ${messageId} - ${JSON.stringify(serializeAuditEntry(entry))}`;
+}
+
+/**
+ * Request body and headers for an HTTP sink
+ * @param token Opened sink token
+ */
+export function buildHttpSinkRequest(
+  format: AuditHttpSinkFormat,
+  entries: AuditLogEntry[],
+  token?: string
+): { body: string; headers: Record<string, string> } {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  switch (format) {
+    case 'splunk_hec':
+      if (token) headers.Authorization = `Splunk ${token}`;
+      // HEC takes concatenated event objects
+      return {
+        headers,
+        body: entries.map(entry => JSON.stringify({
+          time: entry.timestamp.getTime() / 1000,
+          source: APP_NAME,
+          sourcetype: `${APP_NAME}:audit`,
+          event: serializeAuditEntry(entry)
+        })).join('\n')
+      };
+    case 'datadog':
+      if (token) headers['DD-API-KEY'] = token;
+      return {
+        headers,
+        body: JSON.stringify(entries.map(entry => ({
+          ddsource: APP_NAME,
+          service: `${APP_NAME}-audit`,
+          ddtags: `category:${entry.category},severity:${entry.severity}`,
+          message: entry.action,
+          status: entry.severity,
+          audit: serializeAuditEntry(entry)
+        })))
+      };
+    default:
+      if (token) headers.Authorization = `Bearer ${token}`;
+      return { headers, body: JSON.stringify(entries.map(serializeAuditEntry)) };
+  }
+}
+
+/**
+ * Check that a sink points at a public host on an allowed port
+ * @throws UnsafeDestinationError
+ */
+export async function assertSinkDestination(sink: AuditSink): Promise<void> {
+  if (sink.type === 'http') {
+    await assertPublicUrl(sink.url, { ports: HTTP_SINK_PORTS });
+    return;
+  }
+
+  if (!SYSLOG_SINK_PORTS.includes(sink.port)) {
+    throw new UnsafeDestinationError(
+      `Port ${sink.port} is not allowed; use ${SYSLOG_SINK_PORTS.join(', ')}`,
+      'port_not_allowed'
+    );
+  }
+  await resolvePublicAddresses(sink.host);
+}
+
+/**
+ * Send entries to a sink
+ * @param token Opened token of an HTTP sink
+ */
+export async function deliverToSink(sink: AuditSink, entries: AuditLogEntry[], token?: string): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  // Sockets skip the lookup for IP literals, so check before every delivery
+  await assertSinkDestination(sink);
+
+  if (sink.type === 'http') {
+    const { body, headers } = buildHttpSinkRequest(sink.format, entries, token);
+    // Non-2xx responses reject
+    await axios.post(sink.url, body, { headers, timeout: SINK_TIMEOUT_MS, ...publicAgents });
+    return;
+  }
+
+  const messages = entries.map(entry => formatSyslogMessage(entry));
+  if (sink.protocol === 'udp') {
+    await sendUdp(sink.host, sink.port, messages);
+  } else {
+    await sendStream(sink, messages);
+  }
+}
+
+async function sendUdp(host: string, port: number, messages: string[]): Promise<void> {
+  // Send to the checked address itself so the name cannot be re-resolved elsewhere
+  const [address] = await resolvePublicAddresses(host);
+  const socket = dgram.createSocket(net.isIPv6(address) ? 'udp6' : 'udp4');
+
+  return Promise.all(messages.map(message => new Promise<void>((resolve, reject) => {
+    socket.send(Buffer.from(message, 'utf8'), port, address, error => (error ? reject(error) : resolve()));
+  }))).then(
+    () => {
+      socket.close();
+    },
+    error => {
+      socket.close();
+      throw error;
+    }
+  );
+}
+
+function sendStream(sink: AuditSyslogSink, messages: string[]): Promise<void> {
+  // RFC 6587 octet counting
+  const payload = messages.map(message => `${Buffer.byteLength(message, 'utf8')} ${message}`).join('');
+
+  return new Promise((resolve, reject) => {
+    const onConnect = () => socket.end(payload, 'utf8');
+    const socket = sink.protocol === 'tls'
+      ? tls.connect({ host: sink.host, port: sink.port, servername: sink.host, lookup: publicLookup }, onConnect)
+      : net.connect({ host: sink.host, port: sink.port, lookup: publicLookup }, onConnect);
+
+    socket.setTimeout(SINK_TIMEOUT_MS, () => socket.destroy(new Error('Syslog connection timed out')));
+    socket.on('error', reject);
+    socket.on('close', hadError => {
+      if (!hadError) resolve();
+    });
+  });
+}
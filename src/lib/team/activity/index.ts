@@ -6,6 +6,9 @@
 export { default as TeamAuditLogger } from './audit-logger';
 export * from './audit-logger';
 
+// Export audit log hash chaining
+export * from './audit-chain';
+
 // Export activity metrics
 export { default as TeamActivityMetrics } from './metrics';
 export * from './metrics';
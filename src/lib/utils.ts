@@ -2,6 +2,7 @@ import { ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import { v4 as uuidv4 } from 'uuid';
 import { createHash } from 'crypto';
+import { Organization, OrganizationType, getAgencyWorkspaceRole } from './core/models/Organization';
 
 /**
  * Combines className strings with clsx and tailwind-merge
@@ -144,6 +145,30 @@ export async function generateOrganizationId(
   throw new Error('Failed to generate unique organization ID after multiple attempts');
 }
 
+// Admin SDK snapshots expose `exists` as a property, client SDK snapshots as a method
+function snapshotExists(snapshot: any): boolean {
+  return typeof snapshot.exists === 'function' ? snapshot.exists() : !!snapshot.exists;
+}
+
+/**
+ * Whether a user inherits access to a client workspace as an owner or
+ * admin of its agency
+ * @param userId User ID
+ * @param workspace Organization data of the workspace
+ * @param firestore Firestore instance
+ */
+async function isAgencyAdministrator(userId: string, workspace: any, firestore: any): Promise<boolean> {
+  if (workspace.organizationType !== OrganizationType.CLIENT_WORKSPACE || !workspace.parentOrganizationId) {
+    return false;
+  }
+  const agencyDoc = await firestore.collection('organizations').doc(workspace.parentOrganizationId).get();
+  if (!snapshotExists(agencyDoc)) {
+    return false;
+  }
+  const agency = agencyDoc.data();
+  return getAgencyWorkspaceRole({ ...agency, id: agencyDoc.id, members: agency.members || {} } as Organization, userId) !== null;
+}
+
 /**
  * Validate and ensure user has proper organization connections
  * Prevents users from being accidentally disconnected from organizations
@@ -201,7 +226,7 @@ export async function validateUserOrganizationConnections(
     // Validate personal organization exists
     try {
       const personalOrgDoc = await firestore.collection('organizations').doc(personalOrganizationId).get();
-      if (!personalOrgDoc.exists()) {
+      if (!snapshotExists(personalOrgDoc)) {
         errors.push('Personal organization not found');
         console.error('User references non-existent personal organization', { userId, personalOrganizationId });
       }
@@ -220,7 +245,7 @@ export async function validateUserOrganizationConnections(
     // Validate user has access to current organization
     try {
       const currentOrgDoc = await firestore.collection('organizations').doc(currentOrganizationId).get();
-      if (!currentOrgDoc.exists()) {
+      if (!snapshotExists(currentOrgDoc)) {
         errors.push('Current organization not found');
         currentOrganizationId = personalOrganizationId; // Fallback to personal
         console.warn('User references non-existent current organization, falling back to personal', { 
@@ -231,10 +256,15 @@ export async function validateUserOrganizationConnections(
       } else {
         // Check if user is member of the organization
         const orgData = currentOrgDoc.data();
-        const isMember = orgData.members && orgData.members.includes(userId);
-        const isOwner = orgData.ownerId === userId;
+        const isMember = Array.isArray(orgData.members)
+          ? orgData.members.includes(userId)
+          : !!orgData.members?.[userId];
+        const isOwner = orgData.ownerId === userId || orgData.ownerUserId === userId;
+        // Agency owners and admins can work in any client workspace of the agency
+        const isAgencyStaff = !isMember && !isOwner &&
+          await isAgencyAdministrator(userId, orgData, firestore);
         
-        if (!isMember && !isOwner) {
+        if (!isMember && !isOwner && !isAgencyStaff) {
           errors.push('User not a member of current organization');
           currentOrganizationId = personalOrganizationId; // Fallback to personal
           console.warn('User not a member of current organization, falling back to personal', { 
@@ -1,5 +1,6 @@
 // src/lib/validation/schemas.ts
 import { z } from 'zod';
+import { PlatformType } from '@/lib/features/platforms/PlatformProvider';
 
 // User validation
 export const LoginSchema = z.object({
@@ -49,3 +50,154 @@ export const UserSettingsSchema = z.object({
     sms: z.boolean().optional(),
   }),
 });
+
+// Public API (v1) validation
+// These also generate the OpenAPI document served at /api/v1/openapi.json
+const ApiPlatformSchema = z.nativeEnum(PlatformType);
+const ApiDateTimeSchema = z.string().datetime({ offset: true });
+
+export const ApiCreateScheduledPostSchema = CreatePostSchema
+  .omit({ campaignId: true })
+  .extend({
+    scheduledAt: ApiDateTimeSchema,
+    timezone: z.string().min(1).default('UTC'),
+    platforms: z.array(ApiPlatformSchema).min(1, 'Select at least one platform'),
+    mediaIds: CreatePostSchema.shape.mediaIds.default([]),
+    title: z.string().max(300).optional(),
+    tags: z.array(z.string().max(50)).max(20).optional(),
+    notes: z.string().max(2000).optional(),
+  });
+
+export const ApiUpdateScheduledPostSchema = z.object({
+  content: CreatePostSchema.shape.content.optional(),
+  title: z.string().max(300).optional(),
+  scheduledAt: ApiDateTimeSchema.optional(),
+  timezone: z.string().min(1).optional(),
+  status: z.enum(['draft', 'scheduled']).optional(),
+  tags: z.array(z.string().max(50)).max(20).optional(),
+  notes: z.string().max(2000).optional(),
+}).refine(update => Object.keys(update).length > 0, 'Nothing to update');
+
+export const ApiListScheduledPostsQuerySchema = z.object({
+  status: z.enum(['draft', 'scheduled', 'published', 'failed']).optional(),
+  from: ApiDateTimeSchema.optional(),
+  to: ApiDateTimeSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const ApiCalendarQuerySchema = z.object({
+  from: ApiDateTimeSchema,
+  to: ApiDateTimeSchema,
+}).refine(
+  range => Date.parse(range.to) > Date.parse(range.from) &&
+    Date.parse(range.to) - Date.parse(range.from) <= 92 * 24 * 60 * 60 * 1000,
+  'to must be after from and at most 92 days later'
+);
+
+export const ApiListMediaQuerySchema = z.object({
+  type: z.enum(['image', 'video', 'gif', 'document', 'audio']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const ApiUploadMediaSchema = z.object({
+  title: z.string().max(300).optional(),
+  description: z.string().max(2000).optional(),
+  altText: z.string().max(1000).optional(),
+  tags: z.string().max(500).optional().describe('Comma-separated tags'),
+});
+
+export const ApiInboxQuerySchema = z.object({
+  platform: ApiPlatformSchema.optional(),
+  type: z.enum(['direct_message', 'comment', 'mention', 'tag', 'reply', 'review']).optional(),
+  status: z.enum(['unread', 'read', 'archived', 'replied', 'flagged']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export const ApiAnalyticsQuerySchema = z.object({
+  platform: ApiPlatformSchema.optional(),
+  startDate: ApiDateTimeSchema.optional(),
+  endDate: ApiDateTimeSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+export const ApiScheduledPostSchema = z.object({
+  id: z.string(),
+  platform: ApiPlatformSchema,
+  content: z.string(),
+  title: z.string().optional(),
+  status: z.enum(['draft', 'scheduled', 'published', 'failed', 'deleted']),
+  scheduledAt: ApiDateTimeSchema,
+  timezone: z.string(),
+  publishedAt: ApiDateTimeSchema.optional(),
+  publishUrl: z.string().optional(),
+  lastError: z.string().optional(),
+  mediaUrls: z.array(z.string()),
+  tags: z.array(z.string()),
+  notes: z.string().optional(),
+  createdAt: ApiDateTimeSchema,
+  updatedAt: ApiDateTimeSchema,
+});
+
+export const ApiMediaAssetSchema = z.object({
+  id: z.string(),
+  type: z.enum(['image', 'video', 'gif', 'document', 'audio']),
+  fileName: z.string(),
+  mimeType: z.string(),
+  fileSize: z.number().int(),
+  url: z.string(),
+  thumbnailUrl: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  title: z.string().optional(),
+  altText: z.string().optional(),
+  tags: z.array(z.string()),
+  uploadedAt: ApiDateTimeSchema,
+});
+
+export const ApiCalendarEntrySchema = z.object({
+  postId: z.string(),
+  platform: ApiPlatformSchema,
+  title: z.string().optional(),
+  content: z.string(),
+  status: z.enum(['draft', 'scheduled', 'published', 'failed', 'deleted']),
+  scheduledAt: ApiDateTimeSchema,
+});
+
+export const ApiInboxMessageSchema = z.object({
+  id: z.string(),
+  platform: ApiPlatformSchema,
+  type: z.string(),
+  status: z.string(),
+  priority: z.string(),
+  sender: z.object({
+    id: z.string(),
+    name: z.string(),
+    username: z.string().optional(),
+  }),
+  content: z.string(),
+  platformPostId: z.string().optional(),
+  sentiment: z.enum(['positive', 'neutral', 'negative']).optional(),
+  labels: z.array(z.string()),
+  receivedAt: ApiDateTimeSchema,
+});
+
+export const ApiAnalyticsSummarySchema = z.object({
+  totalPosts: z.number(),
+  totalEngagement: z.number(),
+  totalReach: z.number(),
+  totalImpressions: z.number(),
+  avgEngagementRate: z.number(),
+  byPlatform: z.record(z.object({
+    posts: z.number(),
+    engagement: z.number(),
+    reach: z.number(),
+    avgEngagementRate: z.number(),
+  })),
+});
+
+export const ApiErrorSchema = z.object({
+  error: z.string(),
+  code: z.string().optional(),
+  details: z.unknown().optional(),
+});
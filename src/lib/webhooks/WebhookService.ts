@@ -10,47 +10,43 @@ import {
   deleteDoc,
   query,
   where,
+  orderBy,
+  runTransaction,
   Timestamp,
   limit
 } from 'firebase/firestore';
 import axios from 'axios';
 import crypto from 'crypto';
 import { logger } from '../core/logging/logger';
+import { isSealedSecret, openSecret, sealSecret } from '../core/security/encryption';
+import unifiedEmailService from '../core/notifications/unified-email-service';
+import { getOrganizationMembers, OrganizationRole } from '../team/users/organization';
 import { NextResponse } from 'next/server';
+import { WebhookEventType } from './event-types';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WebhookEventPayload,
+  buildWebhookSignatureHeaders
+} from './signature';
+import {
+  getWebhookRetryDelay,
+  shouldDisableWebhook,
+  shouldRetryWebhookDelivery
+} from './delivery-policy';
 
-const adminFirestore = getFirestore();
+// Longer responses are cut so retries do not bloat delivery records
+const MAX_STORED_RESPONSE_LENGTH = 2000;
+// A try in flight is not picked up by the retry cron for this long
+const RETRY_CLAIM_MS = 5 * 60 * 1000;
 
 /**
- * Webhook event types
+ * Encryption context for webhook signing secrets
  */
-export enum WebhookEventType {
-  USER_CREATED = 'user.created',
-  USER_UPDATED = 'user.updated',
-  USER_DELETED = 'user.deleted',
-  CONTENT_CREATED = 'content.created',
-  CONTENT_UPDATED = 'content.updated',
-  CONTENT_DELETED = 'content.deleted',
-  SUBSCRIPTION_CREATED = 'subscription.created',
-  SUBSCRIPTION_UPDATED = 'subscription.updated',
-  SUBSCRIPTION_CANCELED = 'subscription.canceled',
-  TEAM_CREATED = 'team.created',
-  TEAM_UPDATED = 'team.updated',
-  TEAM_DELETED = 'team.deleted',
-  // CRM Integration Events
-  CONTACT_CREATED = 'contact.created',
-  CONTACT_UPDATED = 'contact.updated',
-  CONTACT_INTERACTION = 'contact.interaction',
-  LEAD_CREATED = 'lead.created',
-  LEAD_UPDATED = 'lead.updated',
-  // Social Inbox Events
-  MESSAGE_RECEIVED = 'message.received',
-  MESSAGE_REPLIED = 'message.replied',
-  MESSAGE_ASSIGNED = 'message.assigned',
-  // Storage Events
-  FILE_UPLOADED = 'file.uploaded',
-  FILE_DELETED = 'file.deleted',
-  STORAGE_QUOTA_EXCEEDED = 'storage.quota_exceeded'
-}
+export const WEBHOOK_SECRET_CONTEXT = 'webhook-signing-secret';
+
+export { WebhookEventType };
 
 /**
  * Webhook configuration interface
@@ -63,6 +59,11 @@ export interface Webhook {
   secret: string;
   events: WebhookEventType[];
   isActive: boolean;
+  // Failed tries in a row, across deliveries; reset by any success
+  consecutiveFailures?: number;
+  failingSince?: Date;
+  disabledAt?: Date;
+  disabledReason?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -77,6 +78,10 @@ export interface FirestoreWebhook {
   secret: string;
   events: WebhookEventType[];
   isActive: boolean;
+  consecutiveFailures?: number;
+  failingSince?: Timestamp | null;
+  disabledAt?: Timestamp | null;
+  disabledReason?: string | null;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -85,6 +90,8 @@ export interface FirestoreWebhook {
  * Webhook delivery status
  */
 export enum WebhookDeliveryStatus {
+  // Waiting for its first try or a retry
+  PENDING = 'pending',
   SUCCESS = 'success',
   FAILED = 'failed'
 }
@@ -95,9 +102,16 @@ export enum WebhookDeliveryStatus {
 export interface WebhookDeliveryAttempt {
   id: string;
   webhookId: string;
+  // Sent as the body's id; redeliveries keep the original's so receivers can deduplicate
+  eventId: string;
   eventType: WebhookEventType;
   payload: any;
   status: WebhookDeliveryStatus;
+  // Tries made so far
+  attemptCount: number;
+  nextAttemptAt?: Date;
+  lastAttemptAt?: Date;
+  redeliveryOf?: string;
   statusCode?: number;
   response?: string;
   error?: string;
@@ -110,9 +124,14 @@ export interface WebhookDeliveryAttempt {
  */
 export interface FirestoreWebhookDeliveryAttempt {
   webhookId: string;
+  eventId?: string;
   eventType: WebhookEventType;
   payload: any;
   status: WebhookDeliveryStatus;
+  attemptCount?: number;
+  nextAttemptAt?: Timestamp | null;
+  lastAttemptAt?: Timestamp;
+  redeliveryOf?: string;
   statusCode?: number;
   response?: string;
   error?: string;
@@ -127,6 +146,10 @@ export class WebhookService {
   private readonly webhooksCollection = 'webhooks';
   private readonly deliveryAttemptsCollection = 'webhook_delivery_attempts';
   
+  private getAdminFirestore() {
+    return getFirestore();
+  }
+  
   /**
    * Create a new webhook
    * @param webhook Webhook configuration
@@ -140,7 +163,7 @@ export class WebhookService {
         organizationId: webhook.organizationId,
         name: webhook.name,
         url: webhook.url,
-        secret: webhook.secret || this.generateWebhookSecret(),
+        secret: sealSecret(webhook.secret || this.generateWebhookSecret(), WEBHOOK_SECRET_CONTEXT),
         events: webhook.events,
         isActive: webhook.isActive,
         createdAt: Timestamp.fromDate(now),
@@ -160,7 +183,7 @@ export class WebhookService {
       await setDoc(newWebhookRef, webhookData);
       
       // Also save in admin Firestore
-      await adminFirestore
+      await this.getAdminFirestore()
         .collection(this.webhooksCollection)
         .doc(webhookId)
         .set(webhookData);
@@ -190,19 +213,7 @@ export class WebhookService {
         return null;
       }
       
-      const webhookData = webhookSnapshot.data() as FirestoreWebhook;
-      
-      return {
-        id: webhookSnapshot.id,
-        organizationId: webhookData.organizationId,
-        name: webhookData.name,
-        url: webhookData.url,
-        secret: webhookData.secret,
-        events: webhookData.events,
-        isActive: webhookData.isActive,
-        createdAt: webhookData.createdAt.toDate(),
-        updatedAt: webhookData.updatedAt.toDate()
-      };
+      return this.toWebhook(webhookSnapshot.id, webhookSnapshot.data() as FirestoreWebhook);
     } catch (error) {
       logger.error('Error getting webhook:', error);
       throw error;
@@ -224,21 +235,7 @@ export class WebhookService {
       const webhooksQuery = query(webhooksRef, where('organizationId', '==', organizationId));
       const webhooksSnapshot = await getDocs(webhooksQuery);
       
-      return webhooksSnapshot.docs.map(doc => {
-        const webhookData = doc.data() as FirestoreWebhook;
-        
-        return {
-          id: doc.id,
-          organizationId: webhookData.organizationId,
-          name: webhookData.name,
-          url: webhookData.url,
-          secret: webhookData.secret,
-          events: webhookData.events,
-          isActive: webhookData.isActive,
-          createdAt: webhookData.createdAt.toDate(),
-          updatedAt: webhookData.updatedAt.toDate()
-        };
-      });
+      return webhooksSnapshot.docs.map(doc => this.toWebhook(doc.id, doc.data() as FirestoreWebhook));
     } catch (error) {
       logger.error('Error getting webhooks by organization:', error);
       throw error;
@@ -251,7 +248,10 @@ export class WebhookService {
    * @param updates Updates to apply
    * @returns Updated webhook
    */
-  async updateWebhook(webhookId: string, updates: Partial<Omit<Webhook, 'id' | 'organizationId' | 'createdAt'>>): Promise<Webhook> {
+  async updateWebhook(
+    webhookId: string,
+    updates: Partial<Omit<Webhook, 'id' | 'organizationId' | 'createdAt' | 'consecutiveFailures' | 'failingSince' | 'disabledAt' | 'disabledReason'>>
+  ): Promise<Webhook> {
     try {
       const firestore = getFirebaseFirestore();
       if (!firestore) {
@@ -267,6 +267,9 @@ export class WebhookService {
       // Create updated data
       const updatedData: Partial<FirestoreWebhook> = {
         ...updates,
+        ...(updates.secret ? { secret: sealSecret(updates.secret, WEBHOOK_SECRET_CONTEXT) } : {}),
+        // Re-enabling an endpoint gives it a clean slate
+        ...(updates.isActive ? { consecutiveFailures: 0, failingSince: null, disabledAt: null, disabledReason: null } : {}),
         updatedAt: Timestamp.fromDate(new Date())
       };
       
@@ -274,7 +277,7 @@ export class WebhookService {
       await updateDoc(webhookRef, updatedData);
       
       // Update in admin Firestore
-      await adminFirestore
+      await this.getAdminFirestore()
         .collection(this.webhooksCollection)
         .doc(webhookId)
         .update(updatedData);
@@ -309,7 +312,7 @@ export class WebhookService {
       await deleteDoc(webhookRef);
       
       // Delete from admin Firestore
-      await adminFirestore
+      await this.getAdminFirestore()
         .collection(this.webhooksCollection)
         .doc(webhookId)
         .delete();
@@ -365,17 +368,14 @@ export class WebhookService {
       
       // Trigger each webhook
       for (const doc of webhooksSnapshot.docs) {
-        const webhook = {
-          id: doc.id,
-          ...(doc.data() as FirestoreWebhook)
-        };
+        const webhook = this.toWebhook(doc.id, doc.data() as FirestoreWebhook);
         
         // Create a delivery attempt
-        const deliveryAttemptId = await this.createDeliveryAttempt(webhook.id, eventType, payload);
-        deliveryAttemptIds.push(deliveryAttemptId);
+        const attempt = await this.createDeliveryAttempt(webhook.id, eventType, payload);
+        deliveryAttemptIds.push(attempt.id);
         
-        // Send the webhook asynchronously
-        this.sendWebhook(webhook, eventType, payload, deliveryAttemptId).catch(error => {
+        // Send the webhook asynchronously; failures are retried by the webhook-retries cron
+        this.sendWebhook(webhook, attempt).catch(error => {
           logger.error(`Error sending webhook ${webhook.id} for event ${eventType}:`, error);
         });
       }
@@ -387,6 +387,161 @@ export class WebhookService {
     }
   }
   
+  /**
+   * Deliver a payload to one of an organization's webhooks and wait for the result
+   * @param webhookId Webhook ID
+   * @param organizationId Organization the webhook must belong to
+   * @param eventType Event type
+   * @param payload Event payload
+   * @returns Delivery attempt ID and whether delivery succeeded
+   */
+  async sendToWebhook(
+    webhookId: string,
+    organizationId: string,
+    eventType: WebhookEventType,
+    payload: any
+  ): Promise<{ deliveryAttemptId: string; success: boolean }> {
+    const webhook = await this.getWebhookById(webhookId);
+    
+    if (!webhook || webhook.organizationId !== organizationId) {
+      throw new Error(`Webhook not found: ${webhookId}`);
+    }
+    
+    if (!webhook.isActive) {
+      throw new Error(`Webhook is not active: ${webhookId}`);
+    }
+    
+    const attempt = await this.createDeliveryAttempt(webhook.id, eventType, payload);
+    const success = await this.sendWebhook(webhook, attempt);
+    
+    return { deliveryAttemptId: attempt.id, success };
+  }
+  
+  /**
+   * Send an earlier delivery's event again, as a new delivery with the same
+   * event id
+   * @param deliveryAttemptId Delivery attempt to redeliver
+   * @returns The new delivery attempt ID and whether delivery succeeded
+   */
+  async redeliver(deliveryAttemptId: string): Promise<{ deliveryAttemptId: string; success: boolean }> {
+    const original = await this.getDeliveryAttempt(deliveryAttemptId);
+    
+    if (!original) {
+      throw new Error(`Delivery attempt not found: ${deliveryAttemptId}`);
+    }
+    
+    const webhook = await this.getWebhookById(original.webhookId);
+    
+    if (!webhook) {
+      throw new Error(`Webhook not found: ${original.webhookId}`);
+    }
+    
+    if (!webhook.isActive) {
+      throw new Error(`Webhook is not active: ${webhook.id}`);
+    }
+    
+    const attempt = await this.createDeliveryAttempt(webhook.id, original.eventType, original.payload, {
+      eventId: original.eventId,
+      redeliveryOf: original.id
+    });
+    const success = await this.sendWebhook(webhook, attempt);
+    
+    logger.info(`Redelivered webhook event ${original.eventId}`, {
+      webhookId: webhook.id,
+      originalAttemptId: original.id,
+      deliveryAttemptId: attempt.id,
+      success
+    });
+    
+    return { deliveryAttemptId: attempt.id, success };
+  }
+  
+  /**
+   * Retry deliveries whose backoff has elapsed
+   * @param maxDeliveries Maximum number of deliveries to retry
+   * @returns Counts of retried, delivered and given-up deliveries
+   */
+  async retryDueDeliveries(maxDeliveries: number = 100): Promise<{ retried: number; delivered: number; failed: number }> {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) {
+      throw new Error('Database not configured');
+    }
+    
+    const now = new Date();
+    const dueSnapshot = await getDocs(query(
+      collection(firestore, this.deliveryAttemptsCollection),
+      where('status', '==', WebhookDeliveryStatus.PENDING),
+      where('nextAttemptAt', '<=', Timestamp.fromDate(now)),
+      orderBy('nextAttemptAt', 'asc'),
+      limit(maxDeliveries)
+    ));
+    
+    const webhooks = new Map<string, Webhook | null>();
+    const stats = { retried: 0, delivered: 0, failed: 0 };
+    
+    for (const attemptDoc of dueSnapshot.docs) {
+      // Overlapping cron runs must not send the same retry twice
+      const claimed = await runTransaction(firestore, async transaction => {
+        const current = await transaction.get(attemptDoc.ref);
+        const data = current.data() as FirestoreWebhookDeliveryAttempt | undefined;
+        if (!data || data.status !== WebhookDeliveryStatus.PENDING || !data.nextAttemptAt || data.nextAttemptAt.toMillis() > now.getTime()) {
+          return false;
+        }
+        transaction.update(attemptDoc.ref, { nextAttemptAt: Timestamp.fromMillis(now.getTime() + RETRY_CLAIM_MS) });
+        return true;
+      });
+      
+      if (!claimed) {
+        continue;
+      }
+      
+      const attempt = this.toDeliveryAttempt(attemptDoc.id, attemptDoc.data() as FirestoreWebhookDeliveryAttempt);
+      
+      if (!webhooks.has(attempt.webhookId)) {
+        webhooks.set(attempt.webhookId, await this.getWebhookById(attempt.webhookId));
+      }
+      const webhook = webhooks.get(attempt.webhookId);
+      
+      stats.retried++;
+      
+      if (!webhook || !webhook.isActive) {
+        await this.updateDeliveryAttempt(attempt.id, {
+          status: WebhookDeliveryStatus.FAILED,
+          error: webhook ? 'Webhook was disabled before the retry' : 'Webhook was deleted before the retry',
+          nextAttemptAt: null,
+          completedAt: Timestamp.fromDate(new Date())
+        });
+        stats.failed++;
+        continue;
+      }
+      
+      if (await this.sendWebhook(webhook, attempt)) {
+        stats.delivered++;
+      } else if (!shouldRetryWebhookDelivery(attempt.attemptCount + 1)) {
+        stats.failed++;
+      }
+    }
+    
+    return stats;
+  }
+  
+  /**
+   * Get a delivery attempt by ID
+   * @param deliveryAttemptId Delivery attempt ID
+   * @returns Delivery attempt or null if not found
+   */
+  async getDeliveryAttempt(deliveryAttemptId: string): Promise<WebhookDeliveryAttempt | null> {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) {
+      throw new Error('Database not configured');
+    }
+    const attemptSnapshot = await getDoc(doc(firestore, this.deliveryAttemptsCollection, deliveryAttemptId));
+    
+    return attemptSnapshot.exists()
+      ? this.toDeliveryAttempt(attemptSnapshot.id, attemptSnapshot.data() as FirestoreWebhookDeliveryAttempt)
+      : null;
+  }
+  
   /**
    * Get webhook delivery attempts for a webhook
    * @param webhookId Webhook ID
@@ -409,22 +564,7 @@ export class WebhookService {
       
       const attemptsSnapshot = await getDocs(attemptsQuery);
       
-      return attemptsSnapshot.docs.map(doc => {
-        const attemptData = doc.data() as FirestoreWebhookDeliveryAttempt;
-        
-        return {
-          id: doc.id,
-          webhookId: attemptData.webhookId,
-          eventType: attemptData.eventType,
-          payload: attemptData.payload,
-          status: attemptData.status,
-          statusCode: attemptData.statusCode,
-          response: attemptData.response,
-          error: attemptData.error,
-          requestedAt: attemptData.requestedAt.toDate(),
-          completedAt: attemptData.completedAt?.toDate()
-        };
-      });
+      return attemptsSnapshot.docs.map(doc => this.toDeliveryAttempt(doc.id, doc.data() as FirestoreWebhookDeliveryAttempt));
     } catch (error) {
       logger.error(`Error getting delivery attempts for webhook ${webhookId}:`, error);
       throw error;
@@ -436,43 +576,51 @@ export class WebhookService {
    * @param webhookId Webhook ID
    * @param eventType Event type
    * @param payload Event payload
-   * @returns Delivery attempt ID
+   * @param options Event ID and original attempt, for redeliveries
+   * @returns Delivery attempt
    * @private
    */
   private async createDeliveryAttempt(
     webhookId: string,
     eventType: WebhookEventType,
-    payload: any
-  ): Promise<string> {
+    payload: any,
+    options: { eventId?: string; redeliveryOf?: string } = {}
+  ): Promise<WebhookDeliveryAttempt> {
     try {
       const firestore = getFirebaseFirestore();
       if (!firestore) {
         throw new Error('Database not configured');
       }
+
+      // Generate a unique ID
+      const attemptsRef = collection(firestore, this.deliveryAttemptsCollection);
+      const newAttemptRef = doc(attemptsRef);
+      const attemptId = newAttemptRef.id;
+      
       const now = new Date();
       const attemptData: FirestoreWebhookDeliveryAttempt = {
         webhookId,
+        eventId: options.eventId || attemptId,
         eventType,
         payload,
-        status: WebhookDeliveryStatus.FAILED, // Assume failure until successful
-        requestedAt: Timestamp.fromDate(now)
+        status: WebhookDeliveryStatus.PENDING,
+        attemptCount: 0,
+        // Claimed for the first try; the retry cron picks it up if that try never happens
+        nextAttemptAt: Timestamp.fromMillis(now.getTime() + RETRY_CLAIM_MS),
+        requestedAt: Timestamp.fromDate(now),
+        ...(options.redeliveryOf ? { redeliveryOf: options.redeliveryOf } : {})
       };
-
-      // Generate a unique ID
-      const attemptsRef = collection(firestore, this.deliveryAttemptsCollection);
-      const newAttemptRef = doc(attemptsRef);
-      const attemptId = newAttemptRef.id;
       
       // Save to Firestore
       await setDoc(newAttemptRef, attemptData);
       
       // Also save in admin Firestore
-      await adminFirestore
+      await this.getAdminFirestore()
         .collection(this.deliveryAttemptsCollection)
         .doc(attemptId)
         .set(attemptData);
       
-      return attemptId;
+      return this.toDeliveryAttempt(attemptId, attemptData);
     } catch (error) {
       logger.error('Error creating delivery attempt:', error);
       throw error;
@@ -480,112 +628,276 @@ export class WebhookService {
   }
   
   /**
-   * Send a webhook to the configured URL
-   * @param webhook Webhook configuration
-   * @param eventType Event type
-   * @param payload Event payload
-   * @param deliveryAttemptId Delivery attempt ID
+   * Make one try at delivering an attempt, scheduling a retry with backoff
+   * if it fails and tries remain
+   * @param webhook Webhook configuration, with its secret decrypted
+   * @param attempt Delivery attempt
+   * @returns Whether the delivery succeeded
    * @private
    */
-  private async sendWebhook(
-    webhook: Webhook | { id: string } & FirestoreWebhook,
-    eventType: WebhookEventType,
-    payload: any,
-    deliveryAttemptId: string
-  ): Promise<void> {
+  private async sendWebhook(webhook: Webhook, attempt: WebhookDeliveryAttempt): Promise<boolean> {
+    const attemptCount = attempt.attemptCount + 1;
+    const timestamp = new Date().toISOString();
+    const webhookPayload: WebhookEventPayload = {
+      id: attempt.eventId,
+      event: attempt.eventType,
+      timestamp,
+      data: attempt.payload
+    };
+    // Sign and send the same string so the receiver can verify the raw body
+    const body = JSON.stringify(webhookPayload);
+    
     try {
-      // Prepare webhook data
-      const timestamp = new Date().toISOString();
-      const webhookPayload = {
-        id: deliveryAttemptId,
-        event: eventType,
-        timestamp,
-        data: payload
-      };
-      
-      // Generate signature
-      const signature = this.generateSignature(webhook.secret, JSON.stringify(webhookPayload));
-      
-      // Send the webhook
-      const response = await axios.post(webhook.url, webhookPayload, {
+      const response = await axios.post(webhook.url, body, {
         headers: {
           'Content-Type': 'application/json',
           'User-Agent': 'IriSync-Webhook',
-          'X-IriSync-Event': eventType,
-          'X-IriSync-Delivery': deliveryAttemptId,
-          'X-IriSync-Signature': signature,
-          'X-IriSync-Timestamp': timestamp
+          [WEBHOOK_EVENT_HEADER]: attempt.eventType,
+          [WEBHOOK_DELIVERY_HEADER]: attempt.id,
+          ...buildWebhookSignatureHeaders(webhook.secret, timestamp, body),
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp
         },
         timeout: 10000 // 10 seconds timeout
       });
       
-      // Update the delivery attempt as successful
-      const firestore = getFirebaseFirestore();
-      if (!firestore) {
-        throw new Error('Database not configured');
-      }
-      const attemptRef = doc(firestore, this.deliveryAttemptsCollection, deliveryAttemptId);
-      await updateDoc(attemptRef, {
+      const completedAt = Timestamp.fromDate(new Date());
+      await this.updateDeliveryAttempt(attempt.id, {
         status: WebhookDeliveryStatus.SUCCESS,
         statusCode: response.status,
-        response: JSON.stringify(response.data),
-        completedAt: Timestamp.fromDate(new Date())
+        response: JSON.stringify(response.data ?? null).slice(0, MAX_STORED_RESPONSE_LENGTH),
+        attemptCount,
+        nextAttemptAt: null,
+        lastAttemptAt: completedAt,
+        completedAt
       });
       
-      // Update in admin Firestore
-      await adminFirestore
-        .collection(this.deliveryAttemptsCollection)
-        .doc(deliveryAttemptId)
-        .update({
-          status: WebhookDeliveryStatus.SUCCESS,
-          statusCode: response.status,
-          response: JSON.stringify(response.data),
-          completedAt: Timestamp.fromDate(new Date())
-        });
+      if (webhook.consecutiveFailures) {
+        await this.updateWebhookState(webhook.id, { consecutiveFailures: 0, failingSince: null });
+      }
       
-      logger.info(`Webhook ${webhook.id} delivered successfully for event ${eventType}`);
+      logger.info(`Webhook ${webhook.id} delivered successfully for event ${attempt.eventType}`);
+      return true;
     } catch (error: any) {
-      // Update the delivery attempt as failed
-      const firestore = getFirebaseFirestore();
-      if (!firestore) {
-        logger.error('Database not configured');
-        return;
-      }
-      const attemptRef = doc(firestore, this.deliveryAttemptsCollection, deliveryAttemptId);
-      await updateDoc(attemptRef, {
-        status: WebhookDeliveryStatus.FAILED,
-        statusCode: error.response?.status,
-        error: error.message,
-        completedAt: Timestamp.fromDate(new Date())
-      });
+      const now = new Date();
+      const retry = shouldRetryWebhookDelivery(attemptCount);
       
-      // Update in admin Firestore
-      await adminFirestore
-        .collection(this.deliveryAttemptsCollection)
-        .doc(deliveryAttemptId)
-        .update({
-          status: WebhookDeliveryStatus.FAILED,
-          statusCode: error.response?.status,
+      try {
+        await this.updateDeliveryAttempt(attempt.id, {
+          status: retry ? WebhookDeliveryStatus.PENDING : WebhookDeliveryStatus.FAILED,
+          ...(error.response?.status ? { statusCode: error.response.status } : {}),
           error: error.message,
-          completedAt: Timestamp.fromDate(new Date())
+          attemptCount,
+          lastAttemptAt: Timestamp.fromDate(now),
+          nextAttemptAt: retry ? Timestamp.fromMillis(now.getTime() + getWebhookRetryDelay(attemptCount)) : null,
+          ...(retry ? {} : { completedAt: Timestamp.fromDate(now) })
         });
+        
+        await this.recordFailure(webhook.id, now);
+      } catch (updateError) {
+        logger.error(`Error recording failed delivery ${attempt.id}:`, updateError);
+      }
       
-      logger.error(`Webhook ${webhook.id} delivery failed for event ${eventType}:`, error);
+      logger.error(`Webhook ${webhook.id} delivery failed for event ${attempt.eventType}`, {
+        deliveryAttemptId: attempt.id,
+        attemptCount,
+        willRetry: retry,
+        error: error.message
+      });
+      return false;
     }
   }
   
   /**
-   * Generate a signature for webhook payload
-   * @param secret Webhook secret
-   * @param payload Webhook payload as a string
-   * @returns HMAC signature
+   * Count a failed try against a webhook, disabling it once it has been
+   * failing for too long
+   * @param webhookId Webhook ID
+   * @param now Time of the failure
    * @private
    */
-  private generateSignature(secret: string, payload: string): string {
-    return crypto
-      .createHmac('sha256', secret)
-      .update(payload)
-      .digest('hex');
+  private async recordFailure(webhookId: string, now: Date): Promise<void> {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) {
+      throw new Error('Database not configured');
+    }
+    const webhookRef = doc(firestore, this.webhooksCollection, webhookId);
+    
+    const update = await runTransaction(firestore, async transaction => {
+      const snapshot = await transaction.get(webhookRef);
+      if (!snapshot.exists()) {
+        return null;
+      }
+      
+      const data = snapshot.data() as FirestoreWebhook;
+      const consecutiveFailures = (data.consecutiveFailures || 0) + 1;
+      const failingSince = data.failingSince?.toDate() || now;
+      const disable = data.isActive && shouldDisableWebhook(consecutiveFailures, failingSince, now);
+      
+      const changes: Partial<FirestoreWebhook> = {
+        consecutiveFailures,
+        failingSince: Timestamp.fromDate(failingSince),
+        ...(disable
+          ? {
+              isActive: false,
+              disabledAt: Timestamp.fromDate(now),
+              disabledReason: `Disabled after ${consecutiveFailures} failed deliveries in a row since ${failingSince.toISOString()}`
+            }
+          : {})
+      };
+      transaction.update(webhookRef, changes);
+      
+      return { changes, disable, webhook: this.toWebhook(snapshot.id, data) };
+    });
+    
+    if (!update) {
+      return;
+    }
+    
+    // Mirror to admin Firestore
+    await this.getAdminFirestore()
+      .collection(this.webhooksCollection)
+      .doc(webhookId)
+      .update(update.changes);
+    
+    if (update.disable) {
+      logger.warn(`Webhook ${webhookId} disabled after repeated delivery failures`, {
+        organizationId: update.webhook.organizationId,
+        consecutiveFailures: update.changes.consecutiveFailures
+      });
+      await this.notifyWebhookDisabled(update.webhook, update.changes.disabledReason as string);
+    }
+  }
+  
+  /**
+   * Email an organization's owners and admins that a webhook was disabled
+   * @param webhook Disabled webhook
+   * @param reason Why it was disabled
+   * @private
+   */
+  private async notifyWebhookDisabled(webhook: Webhook, reason: string): Promise<void> {
+    try {
+      const members = await getOrganizationMembers(webhook.organizationId);
+      const recipients = members
+        .filter(member => member.role === OrganizationRole.OWNER || member.role === OrganizationRole.ADMIN)
+        .map(member => member.email)
+        .filter(Boolean);
+      
+      if (recipients.length === 0) {
+        return;
+      }
+      
+      const settingsUrl = `${process.env.NEXT_PUBLIC_APP_URL || ''}/dashboard/settings/webhooks`;
+      
+      await unifiedEmailService.sendEmail({
+        to: recipients,
+        subject: `Webhook "${webhook.name}" has been disabled`,
+        htmlContent: `
+          <h2>Webhook disabled</h2>
+          <p>We stopped sending events to <strong>${escapeHtml(webhook.name)}</strong> (${escapeHtml(webhook.url)}) because deliveries kept failing.</p>
+          <p>${escapeHtml(reason)}.</p>
+          <p>Fix the endpoint, then re-enable the webhook. Undelivered events can be redelivered from the delivery log.</p>
+          <p><a href="${settingsUrl}">Manage webhooks</a></p>
+        `,
+        textContent: `We stopped sending events to ${webhook.name} (${webhook.url}) because deliveries kept failing. ${reason}. Fix the endpoint, then re-enable the webhook: ${settingsUrl}`,
+        priority: 'high',
+        category: 'webhooks'
+      });
+    } catch (error) {
+      logger.error(`Error sending webhook disabled notice for ${webhook.id}:`, error);
+    }
+  }
+  
+  /**
+   * Update a delivery attempt in both Firestore instances
+   * @private
+   */
+  private async updateDeliveryAttempt(deliveryAttemptId: string, data: Partial<FirestoreWebhookDeliveryAttempt>): Promise<void> {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) {
+      throw new Error('Database not configured');
+    }
+    await updateDoc(doc(firestore, this.deliveryAttemptsCollection, deliveryAttemptId), data);
+    
+    // Update in admin Firestore
+    await this.getAdminFirestore()
+      .collection(this.deliveryAttemptsCollection)
+      .doc(deliveryAttemptId)
+      .update(data);
+  }
+  
+  /**
+   * Update a webhook's delivery state in both Firestore instances
+   * @private
+   */
+  private async updateWebhookState(webhookId: string, data: Partial<FirestoreWebhook>): Promise<void> {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) {
+      throw new Error('Database not configured');
+    }
+    await updateDoc(doc(firestore, this.webhooksCollection, webhookId), data);
+    
+    // Update in admin Firestore
+    await this.getAdminFirestore()
+      .collection(this.webhooksCollection)
+      .doc(webhookId)
+      .update(data);
+  }
+  
+  /**
+   * Convert a Firestore webhook to a webhook with its secret decrypted
+   * @private
+   */
+  private toWebhook(id: string, webhookData: FirestoreWebhook): Webhook {
+    return {
+      id,
+      organizationId: webhookData.organizationId,
+      name: webhookData.name,
+      url: webhookData.url,
+      secret: this.openWebhookSecret(webhookData.secret),
+      events: webhookData.events,
+      isActive: webhookData.isActive,
+      consecutiveFailures: webhookData.consecutiveFailures || 0,
+      failingSince: webhookData.failingSince?.toDate(),
+      disabledAt: webhookData.disabledAt?.toDate(),
+      disabledReason: webhookData.disabledReason || undefined,
+      createdAt: webhookData.createdAt.toDate(),
+      updatedAt: webhookData.updatedAt.toDate()
+    };
+  }
+  
+  /**
+   * Convert a Firestore delivery attempt; attempts recorded before retries
+   * existed count as one try
+   * @private
+   */
+  private toDeliveryAttempt(id: string, attemptData: FirestoreWebhookDeliveryAttempt): WebhookDeliveryAttempt {
+    return {
+      id,
+      webhookId: attemptData.webhookId,
+      eventId: attemptData.eventId || id,
+      eventType: attemptData.eventType,
+      payload: attemptData.payload,
+      status: attemptData.status,
+      attemptCount: attemptData.attemptCount ?? 1,
+      nextAttemptAt: attemptData.nextAttemptAt?.toDate(),
+      lastAttemptAt: attemptData.lastAttemptAt?.toDate(),
+      redeliveryOf: attemptData.redeliveryOf,
+      statusCode: attemptData.statusCode,
+      response: attemptData.response,
+      error: attemptData.error,
+      requestedAt: attemptData.requestedAt.toDate(),
+      completedAt: attemptData.completedAt?.toDate()
+    };
+  }
+  
+  /**
+   * Decrypt a stored webhook secret; secrets saved before encryption are
+   * plain text until the next key rotation seals them
+   * @param secret Stored secret
+   * @returns Signing secret
+   * @private
+   */
+  private openWebhookSecret(secret: string): string {
+    return isSealedSecret(secret) ? openSecret(secret, WEBHOOK_SECRET_CONTEXT) : secret;
   }
   
   /**
@@ -596,4 +908,12 @@ export class WebhookService {
   private generateWebhookSecret(): string {
     return crypto.randomBytes(32).toString('hex');
   }
-} 
\ No newline at end of file
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
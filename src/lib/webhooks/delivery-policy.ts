@@ -0,0 +1,63 @@
+/**
+ * Webhook delivery policy
+ * When failed deliveries are retried and when a failing endpoint is disabled
+ */
+
+import { BackoffPolicy, computeExponentialBackoff } from '../core/utils/backoff';
+
+export interface WebhookRetryPolicy extends BackoffPolicy {
+  // Tries per delivery, including the first
+  maxAttempts: number;
+}
+
+/**
+ * Eight tries; the last comes up to about nine hours after the first
+ */
+export const WEBHOOK_RETRY_POLICY: WebhookRetryPolicy = {
+  maxAttempts: 8,
+  baseDelayMs: 5 * 60 * 1000,
+  maxDelayMs: 4 * 60 * 60 * 1000
+};
+
+/**
+ * An endpoint is disabled once it has failed this many tries in a row over
+ * at least this long, so one bad afternoon does not cost a customer their
+ * integration
+ */
+export const WEBHOOK_DISABLE_POLICY = {
+  consecutiveFailures: 20,
+  minFailingMs: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Delay before the next try of a delivery
+ * @param attempt Tries made so far, starting at 1
+ */
+export function getWebhookRetryDelay(
+  attempt: number,
+  random: () => number = Math.random,
+  policy: WebhookRetryPolicy = WEBHOOK_RETRY_POLICY
+): number {
+  return computeExponentialBackoff(policy, attempt, random);
+}
+
+/**
+ * Whether a delivery that has failed `attempt` tries gets another
+ */
+export function shouldRetryWebhookDelivery(
+  attempt: number,
+  policy: WebhookRetryPolicy = WEBHOOK_RETRY_POLICY
+): boolean {
+  return attempt < policy.maxAttempts;
+}
+
+/**
+ * Whether an endpoint has been failing long enough to disable
+ */
+export function shouldDisableWebhook(consecutiveFailures: number, failingSince: Date | undefined, now: Date = new Date()): boolean {
+  return (
+    consecutiveFailures >= WEBHOOK_DISABLE_POLICY.consecutiveFailures &&
+    !!failingSince &&
+    now.getTime() - failingSince.getTime() >= WEBHOOK_DISABLE_POLICY.minFailingMs
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * Webhook event types
+ */
+export enum WebhookEventType {
+  USER_CREATED = 'user.created',
+  USER_UPDATED = 'user.updated',
+  USER_DELETED = 'user.deleted',
+  CONTENT_CREATED = 'content.created',
+  CONTENT_UPDATED = 'content.updated',
+  CONTENT_DELETED = 'content.deleted',
+  SUBSCRIPTION_CREATED = 'subscription.created',
+  SUBSCRIPTION_UPDATED = 'subscription.updated',
+  SUBSCRIPTION_CANCELED = 'subscription.canceled',
+  TEAM_CREATED = 'team.created',
+  TEAM_UPDATED = 'team.updated',
+  TEAM_DELETED = 'team.deleted',
+  // CRM Integration Events
+  CONTACT_CREATED = 'contact.created',
+  CONTACT_UPDATED = 'contact.updated',
+  CONTACT_INTERACTION = 'contact.interaction',
+  LEAD_CREATED = 'lead.created',
+  LEAD_UPDATED = 'lead.updated',
+  // Social Inbox Events
+  MESSAGE_RECEIVED = 'message.received',
+  MESSAGE_REPLIED = 'message.replied',
+  MESSAGE_ASSIGNED = 'message.assigned',
+  // Storage Events
+  FILE_UPLOADED = 'file.uploaded',
+  FILE_DELETED = 'file.deleted',
+  STORAGE_QUOTA_EXCEEDED = 'storage.quota_exceeded',
+  // Automation Events
+  AUTOMATION_TRIGGERED = 'automation.triggered',
+  // Publishing Events
+  POST_SCHEDULED = 'post.scheduled',
+  POST_PUBLISHED = 'post.published',
+  POST_FAILED = 'post.failed',
+  // Approval Events
+  APPROVAL_REQUESTED = 'approval.requested',
+  APPROVAL_DECIDED = 'approval.decided',
+  // Social Listening Events
+  MENTION_RECEIVED = 'mention.received'
+}
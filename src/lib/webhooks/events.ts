@@ -0,0 +1,32 @@
+import { logger } from '../core/logging/logger';
+import { WebhookEventType } from './event-types';
+
+/**
+ * Send an event to an organization's webhooks without holding up or
+ * failing the caller; failed deliveries are retried by the webhook-retries
+ * cron
+ * @param eventType Event type
+ * @param payload Event payload
+ * @param organizationId Organization whose webhooks receive the event
+ */
+export async function emitWebhookEvent(
+  eventType: WebhookEventType,
+  payload: Record<string, any>,
+  organizationId: string | undefined
+): Promise<void> {
+  // Without an organization every subscribed webhook would receive it
+  if (!organizationId) {
+    return;
+  }
+
+  try {
+    // Loaded on first use so modules that emit events do not pull in Firebase Admin
+    const { WebhookService } = await import('./WebhookService');
+    await new WebhookService().triggerWebhooks(eventType, payload, organizationId);
+  } catch (error) {
+    logger.error(`Error emitting webhook event ${eventType}`, {
+      organizationId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Webhook signatures
+ *
+ * Every outbound webhook is signed with HMAC-SHA256 over
+ * `<X-IriSync-Timestamp>.<raw body>` using the endpoint's secret, sent as
+ * `X-IriSync-Signature: v1=<hex>`. The body repeats the timestamp, so a
+ * receiver that checks the signature and the timestamp's age rejects captured
+ * requests replayed later. The scheme prefix lets a future scheme be sent
+ * alongside v1 without breaking receivers.
+ *
+ * Signatures used to be an unprefixed HMAC over the body alone. Until
+ * LEGACY_SIGNATURE_SUNSET that signature is also sent, in
+ * X-IriSync-Signature-Legacy, so receivers can move to v1 at their own pace.
+ *
+ * This module has no dependencies beyond Node's crypto so receivers can copy
+ * it as is.
+ */
+
+import crypto from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-IriSync-Signature';
+export const WEBHOOK_LEGACY_SIGNATURE_HEADER = 'X-IriSync-Signature-Legacy';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-IriSync-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-IriSync-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-IriSync-Delivery';
+
+// How old a delivery may be before it is treated as a replay
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export const WEBHOOK_SIGNATURE_SCHEME = 'v1';
+// Last moment deliveries carry the body-only legacy signature
+export const LEGACY_SIGNATURE_SUNSET = new Date('2027-01-01T00:00:00.000Z');
+
+/**
+ * Body of every webhook request
+ */
+export interface WebhookEventPayload<T = any> {
+  // Stable across retries and redeliveries of the same event; use it to deduplicate
+  id: string;
+  event: string;
+  timestamp: string;
+  data: T;
+}
+
+export type WebhookVerificationErrorCode =
+  | 'MISSING_HEADERS'
+  | 'INVALID_SIGNATURE'
+  | 'TIMESTAMP_OUT_OF_TOLERANCE'
+  | 'INVALID_PAYLOAD';
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string, public readonly code: WebhookVerificationErrorCode) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+export interface VerifyWebhookOptions {
+  // Raw request body, exactly as received
+  payload: string | Buffer;
+  // X-IriSync-Signature header, e.g. `v1=<hex>`
+  signature: string | null | undefined;
+  timestamp: string | null | undefined;
+  secret: string;
+  toleranceSeconds?: number;
+  now?: Date;
+}
+
+/**
+ * v1 HMAC-SHA256 signature of a webhook body, hex encoded
+ */
+export function signWebhookPayload(secret: string, timestamp: string, payload: string | Buffer): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(payload)
+    .digest('hex');
+}
+
+/**
+ * Signature headers of a delivery: the v1 signature and, until the sunset,
+ * the legacy body-only signature
+ */
+export function buildWebhookSignatureHeaders(
+  secret: string,
+  timestamp: string,
+  payload: string | Buffer,
+  now: Date = new Date()
+): Record<string, string> {
+  return {
+    [WEBHOOK_SIGNATURE_HEADER]: `${WEBHOOK_SIGNATURE_SCHEME}=${signWebhookPayload(secret, timestamp, payload)}`,
+    ...(now < LEGACY_SIGNATURE_SUNSET
+      ? { [WEBHOOK_LEGACY_SIGNATURE_HEADER]: crypto.createHmac('sha256', secret).update(payload).digest('hex') }
+      : {})
+  };
+}
+
+/**
+ * v1 signatures in a signature header such as `v1=abc,v2=def`
+ */
+function getSchemeSignatures(header: string): Buffer[] {
+  return header
+    .split(',')
+    .map(part => part.trim().split('='))
+    .filter(([scheme, value]) => scheme === WEBHOOK_SIGNATURE_SCHEME && value)
+    .map(([, value]) => Buffer.from(value, 'hex'));
+}
+
+/**
+ * Verify a webhook request and return its event
+ * @throws WebhookVerificationError when the signature is wrong, the request
+ * is older (or newer) than the tolerance, or the body does not match the
+ * signed timestamp
+ */
+export function verifyWebhookSignature<T = any>(options: VerifyWebhookOptions): WebhookEventPayload<T> {
+  const { payload, signature, timestamp, secret } = options;
+  const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const now = options.now || new Date();
+
+  if (!signature || !timestamp) {
+    throw new WebhookVerificationError(
+      `Missing ${WEBHOOK_SIGNATURE_HEADER} or ${WEBHOOK_TIMESTAMP_HEADER} header`,
+      'MISSING_HEADERS'
+    );
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, payload), 'hex');
+  const matches = getSchemeSignatures(signature).some(
+    received => received.length === expected.length && crypto.timingSafeEqual(received, expected)
+  );
+  if (!matches) {
+    throw new WebhookVerificationError('Webhook signature does not match', 'INVALID_SIGNATURE');
+  }
+
+  // Checked after the signature so an attacker cannot probe the clock with unsigned requests
+  const sentAt = Date.parse(timestamp);
+  if (isNaN(sentAt) || Math.abs(now.getTime() - sentAt) > toleranceSeconds * 1000) {
+    throw new WebhookVerificationError('Webhook timestamp is outside the allowed tolerance', 'TIMESTAMP_OUT_OF_TOLERANCE');
+  }
+
+  let event: WebhookEventPayload<T>;
+  try {
+    event = JSON.parse(payload.toString());
+  } catch {
+    throw new WebhookVerificationError('Webhook body is not valid JSON', 'INVALID_PAYLOAD');
+  }
+
+  if (!event || event.timestamp !== timestamp) {
+    throw new WebhookVerificationError('Webhook body does not match the signed timestamp', 'INVALID_PAYLOAD');
+  }
+
+  return event;
+}
@@ -0,0 +1,527 @@
+import { getFirebaseFirestore } from '../core/firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  query,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  where,
+  Timestamp
+} from 'firebase/firestore';
+import { SlackAdapter } from './adapters/SlackAdapter';
+import {
+  APPROVE_ACTION_ID,
+  REQUEST_CHANGES_ACTION_ID,
+  REQUEST_CHANGES_BLOCK_ID,
+  REQUEST_CHANGES_CALLBACK_ID,
+  REQUEST_CHANGES_INPUT_ID,
+  CrisisAlertState,
+  SlackApprovalRef,
+  SlackMessageContent,
+  SlackRoutedEvent,
+  SlackRoutingRule,
+  buildApprovalDecisionMessage,
+  buildApprovalRequestMessage,
+  buildCrisisAlertMessage,
+  buildInboxAlertMessage,
+  buildRequestChangesModal,
+  getCrisisAlertKey,
+  getRoutedChannels,
+  shouldSendCrisisAlert
+} from './slack-messages';
+import workflowService, { WorkflowError } from '../features/content/workflow/WorkflowService';
+import { WorkflowAction, WorkflowStatus } from '../features/content/models/workflow';
+import type { ContentItem } from '../features/content/CalendarService';
+import type { InboxMessage, MessagePriority } from '../features/content/SocialInboxService';
+import { SocialListeningService } from '../features/analytics/SocialListeningService';
+import { OrganizationRole, getUserOrganizationRole } from '../team/users/organization';
+import { TeamRole } from '../auth/roles';
+import { logger } from '../core/logging/logger';
+
+/**
+ * Slack workspace connected to an organization
+ */
+export interface SlackIntegration {
+  organizationId: string;
+  teamId: string;
+  teamName: string;
+  botToken: string;
+  installedBy: string;
+  routes: SlackRoutingRule[];
+  // Slack user id -> IriSync user id, filled in as people act from Slack
+  userLinks: Record<string, string>;
+  lastCrisisAlert?: CrisisAlertState;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type SlackIntegrationSummary = Omit<SlackIntegration, 'botToken' | 'userLinks'>;
+
+/**
+ * Interaction payload Slack posts when someone clicks a button or submits a modal
+ */
+export interface SlackInteractionPayload {
+  type: string;
+  team?: { id: string };
+  user: { id: string; username?: string; name?: string };
+  trigger_id?: string;
+  response_url?: string;
+  channel?: { id: string };
+  message?: { ts: string };
+  actions?: Array<{ action_id: string; value?: string }>;
+  view?: {
+    callback_id: string;
+    private_metadata?: string;
+    state?: { values: Record<string, Record<string, { value?: string | null }>> };
+  };
+}
+
+const ORGANIZATION_TEAM_ROLES: Record<OrganizationRole, TeamRole> = {
+  [OrganizationRole.OWNER]: TeamRole.TEAM_ADMIN,
+  [OrganizationRole.ADMIN]: TeamRole.TEAM_ADMIN,
+  [OrganizationRole.MEMBER]: TeamRole.EDITOR,
+  [OrganizationRole.VIEWER]: TeamRole.OBSERVER
+};
+
+/**
+ * Sends workflow approvals, inbox alerts and crisis alerts to an
+ * organization's Slack workspace and applies decisions made from Slack
+ */
+export class SlackIntegrationService {
+  private getFirestore() {
+    const firestore = getFirebaseFirestore();
+    if (!firestore) throw new Error('Firestore not configured');
+    return firestore;
+  }
+
+  /**
+   * Adapter for verifying requests before any workspace is known
+   */
+  getRequestVerifier(): SlackAdapter {
+    return this.getAdapter('');
+  }
+
+  async getIntegration(organizationId: string): Promise<SlackIntegration | null> {
+    const integrationSnap = await getDoc(doc(this.getFirestore(), 'slack_integrations', organizationId));
+    return integrationSnap.exists() ? integrationSnap.data() as SlackIntegration : null;
+  }
+
+  /**
+   * Connect the Slack workspace the user authorized under Settings > Connections
+   */
+  async connectWorkspace(organizationId: string, userId: string): Promise<SlackIntegrationSummary> {
+    const connectionSnap = await getDoc(doc(this.getFirestore(), 'connections', userId));
+    const connections: any[] = connectionSnap.exists() ? connectionSnap.data().connections || [] : [];
+    const connection = connections.find(item => item.provider === 'slack' && item.status === 'active');
+
+    if (!connection?.accessToken) {
+      throw new Error('Connect Slack under Settings > Connections first');
+    }
+
+    const auth = await this.getAdapter(connection.accessToken).authTest();
+    if (!auth.success || !auth.teamId) {
+      throw new Error(`Slack token could not be verified: ${auth.error || 'unknown error'}`);
+    }
+
+    const existing = await this.getIntegration(organizationId);
+    const now = Timestamp.now();
+    const integration: SlackIntegration = {
+      organizationId,
+      teamId: auth.teamId,
+      teamName: auth.teamName || auth.teamId,
+      botToken: connection.accessToken,
+      installedBy: userId,
+      // Rules and user links only carry over within the same workspace
+      routes: existing?.teamId === auth.teamId ? existing.routes : [],
+      userLinks: existing?.teamId === auth.teamId ? existing.userLinks : {},
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    await setDoc(doc(this.getFirestore(), 'slack_integrations', organizationId), integration);
+    logger.info('Connected Slack workspace', { organizationId, teamId: auth.teamId });
+
+    return toSummary(integration);
+  }
+
+  /**
+   * Replace the organization's channel routing rules
+   */
+  async updateRoutes(organizationId: string, routes: SlackRoutingRule[]): Promise<SlackIntegrationSummary> {
+    const integration = await this.getIntegration(organizationId);
+    if (!integration) {
+      throw new Error('Slack is not connected for this organization');
+    }
+
+    const updated = { ...integration, routes, updatedAt: Timestamp.now() };
+    await updateDoc(doc(this.getFirestore(), 'slack_integrations', organizationId), {
+      routes,
+      updatedAt: updated.updatedAt
+    });
+
+    return toSummary(updated);
+  }
+
+  async disconnect(organizationId: string): Promise<void> {
+    await deleteDoc(doc(this.getFirestore(), 'slack_integrations', organizationId));
+  }
+
+  /**
+   * Post an approval request with Approve / Request changes buttons to the
+   * channels routed for approvals
+   * @returns Number of channels the request was posted to
+   */
+  async sendApprovalRequest(status: WorkflowStatus, submittedBy: string): Promise<number> {
+    if (!status.organizationId) {
+      return 0;
+    }
+
+    const integration = await this.getIntegration(status.organizationId);
+    if (!integration) {
+      return 0;
+    }
+
+    const channels = getRoutedChannels(integration.routes, { event: 'approval_request' });
+    if (channels.length === 0) {
+      return 0;
+    }
+
+    const content = await this.getContent(status.contentId);
+    const message = buildApprovalRequestMessage({
+      ref: { contentId: status.contentId, organizationId: status.organizationId },
+      title: content?.title || 'Untitled post',
+      text: content?.content || '',
+      platforms: content ? content.platformTargets.map(target => target.platformType) : [],
+      submittedBy,
+      publishAt: content?.schedule?.publishAt ? toDate(content.schedule.publishAt) : undefined,
+      reviewUrl: contentUrl(status.contentId)
+    });
+
+    return this.post(integration, channels, message);
+  }
+
+  /**
+   * Alert the channels routed for an inbox message. When a message's priority
+   * is raised, channels that already matched the old priority are skipped.
+   */
+  async notifyInboxMessage(message: InboxMessage, previousPriority?: MessagePriority): Promise<number> {
+    if (!message.organizationId) {
+      return 0;
+    }
+
+    const integration = await this.getIntegration(message.organizationId);
+    if (!integration) {
+      return 0;
+    }
+
+    const routed = (priority: MessagePriority): SlackRoutedEvent =>
+      ({ event: 'inbox_message', platform: message.platformType, priority });
+    const alreadyAlerted = previousPriority ? getRoutedChannels(integration.routes, routed(previousPriority)) : [];
+    const channels = getRoutedChannels(integration.routes, routed(message.priority))
+      .filter(channel => alreadyAlerted.indexOf(channel) === -1);
+
+    if (channels.length === 0) {
+      return 0;
+    }
+
+    return this.post(integration, channels, buildInboxAlertMessage(message, appUrl('/dashboard/inbox')));
+  }
+
+  /**
+   * Check an organization's social listening for crisis indicators and alert
+   * routed channels, skipping crises that were already reported
+   * @returns Number of channels alerted
+   */
+  async notifyCrisis(organizationId: string, now: number = Date.now()): Promise<number> {
+    const integration = await this.getIntegration(organizationId);
+    if (!integration || getRoutedChannels(integration.routes, { event: 'crisis_alert', riskLevel: 'critical' }).length === 0) {
+      return 0;
+    }
+
+    const crisis = await SocialListeningService.getInstance().checkCrisisIndicators(organizationId);
+    if (!shouldSendCrisisAlert(integration.lastCrisisAlert, crisis, now)) {
+      return 0;
+    }
+
+    const channels = getRoutedChannels(integration.routes, { event: 'crisis_alert', riskLevel: crisis.riskLevel });
+    if (channels.length === 0) {
+      return 0;
+    }
+
+    const sent = await this.post(integration, channels, buildCrisisAlertMessage(crisis, appUrl('/dashboard/listening')));
+    if (sent > 0) {
+      const lastCrisisAlert: CrisisAlertState = { riskLevel: crisis.riskLevel, key: getCrisisAlertKey(crisis), sentAt: now };
+      await updateDoc(doc(this.getFirestore(), 'slack_integrations', organizationId), { lastCrisisAlert });
+    }
+
+    return sent;
+  }
+
+  /**
+   * Crisis check for every organization routing crisis alerts to Slack
+   */
+  async checkAllCrisisAlerts(): Promise<{ checked: number; alerted: number; failed: number }> {
+    const integrationSnap = await getDocs(collection(this.getFirestore(), 'slack_integrations'));
+    const result = { checked: 0, alerted: 0, failed: 0 };
+
+    for (const integrationDoc of integrationSnap.docs) {
+      const integration = integrationDoc.data() as SlackIntegration;
+      if (!integration.routes?.some(rule => rule.event === 'crisis_alert')) {
+        continue;
+      }
+
+      result.checked++;
+      try {
+        if (await this.notifyCrisis(integration.organizationId) > 0) {
+          result.alerted++;
+        }
+      } catch (error) {
+        result.failed++;
+        logger.error('Error checking crisis alerts for Slack', {
+          organizationId: integration.organizationId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Handle a verified interaction payload
+   * @returns Body to answer Slack with, or null for an empty 200
+   */
+  async handleInteraction(payload: SlackInteractionPayload): Promise<Record<string, any> | null> {
+    if (payload.type === 'block_actions') {
+      const action = payload.actions?.[0];
+      if (action?.action_id === APPROVE_ACTION_ID) {
+        await this.handleApprove(payload, parseRef(action.value));
+      } else if (action?.action_id === REQUEST_CHANGES_ACTION_ID) {
+        await this.openRequestChanges(payload, parseRef(action.value));
+      }
+      return null;
+    }
+
+    if (payload.type === 'view_submission' && payload.view?.callback_id === REQUEST_CHANGES_CALLBACK_ID) {
+      return this.handleRequestChanges(payload, parseRef(payload.view.private_metadata));
+    }
+
+    return null;
+  }
+
+  private async handleApprove(payload: SlackInteractionPayload, ref: SlackApprovalRef | null): Promise<void> {
+    if (!payload.response_url) {
+      return;
+    }
+
+    const adapter = this.getAdapter('');
+    const reply = (text: string) =>
+      adapter.respond(payload.response_url!, { text, response_type: 'ephemeral', replace_original: false });
+
+    const actor = ref ? await this.resolveActor(payload, ref.organizationId) : { error: 'This approval request is no longer valid.' };
+    if ('error' in actor) {
+      await reply(actor.error);
+      return;
+    }
+
+    try {
+      await workflowService.transitionWorkflow(
+        { contentId: ref!.contentId, action: WorkflowAction.APPROVE },
+        actor.userId,
+        actor.role
+      );
+    } catch (error) {
+      await reply(error instanceof WorkflowError ? error.message : 'The post could not be approved. Try again in IriSync.');
+      if (!(error instanceof WorkflowError)) throw error;
+      return;
+    }
+
+    const decision = await this.buildDecision(ref!.contentId, 'approved', actor.name);
+    await adapter.respond(payload.response_url, { ...decision, replace_original: true });
+  }
+
+  private async openRequestChanges(payload: SlackInteractionPayload, ref: SlackApprovalRef | null): Promise<void> {
+    if (!ref || !payload.trigger_id) {
+      return;
+    }
+
+    const integration = await this.getIntegration(ref.organizationId);
+    if (!integration || integration.teamId !== payload.team?.id) {
+      return;
+    }
+
+    // The trigger expires after three seconds, so who is asking is checked on submit
+    const result = await this.getAdapter(integration.botToken).openView(payload.trigger_id, buildRequestChangesModal({
+      ...ref,
+      ...(payload.channel ? { channelId: payload.channel.id } : {}),
+      ...(payload.message ? { messageTs: payload.message.ts } : {})
+    }));
+
+    if (!result.success) {
+      logger.warn('Could not open Slack request changes modal', { contentId: ref.contentId, error: result.error });
+    }
+  }
+
+  private async handleRequestChanges(
+    payload: SlackInteractionPayload,
+    ref: SlackApprovalRef | null
+  ): Promise<Record<string, any> | null> {
+    const fail = (message: string) => ({ response_action: 'errors', errors: { [REQUEST_CHANGES_BLOCK_ID]: message } });
+
+    const comments = payload.view?.state?.values?.[REQUEST_CHANGES_BLOCK_ID]?.[REQUEST_CHANGES_INPUT_ID]?.value?.trim();
+    if (!comments) {
+      return fail('Describe what needs to change.');
+    }
+
+    const actor = ref ? await this.resolveActor(payload, ref.organizationId) : { error: 'This approval request is no longer valid.' };
+    if ('error' in actor) {
+      return fail(actor.error);
+    }
+
+    try {
+      await workflowService.transitionWorkflow(
+        { contentId: ref!.contentId, action: WorkflowAction.REQUEST_CHANGES, comments },
+        actor.userId,
+        actor.role
+      );
+    } catch (error) {
+      if (error instanceof WorkflowError) {
+        return fail(error.message);
+      }
+      throw error;
+    }
+
+    if (ref!.channelId && ref!.messageTs) {
+      const decision = await this.buildDecision(ref!.contentId, 'changes_requested', actor.name, comments);
+      await this.getAdapter(actor.botToken).updateMessage(ref!.channelId, ref!.messageTs, decision.text, decision.blocks);
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the IriSync user behind a Slack user and their role in the
+   * organization. Slack users are matched by email the first time and
+   * remembered afterwards.
+   */
+  private async resolveActor(
+    payload: SlackInteractionPayload,
+    organizationId: string
+  ): Promise<{ userId: string; name: string; role: TeamRole; botToken: string } | { error: string }> {
+    const integration = await this.getIntegration(organizationId);
+    if (!integration || integration.teamId !== payload.team?.id) {
+      return { error: 'This Slack workspace is not connected to the organization.' };
+    }
+
+    let userId: string | undefined = integration.userLinks?.[payload.user.id];
+    let name = payload.user.name || payload.user.username || payload.user.id;
+
+    if (!userId) {
+      const info = await this.getAdapter(integration.botToken).getUserInfo(payload.user.id);
+      const email: string | undefined = info.user?.profile?.email;
+      if (!email) {
+        return { error: 'Your Slack profile has no email IriSync can match. Review this post in IriSync instead.' };
+      }
+
+      const userSnap = await getDocs(query(collection(this.getFirestore(), 'users'), where('email', '==', email), limit(1)));
+      if (userSnap.empty) {
+        return { error: `No IriSync account uses ${email}. Review this post in IriSync instead.` };
+      }
+
+      userId = userSnap.docs[0].id;
+      name = info.user?.real_name || name;
+    }
+
+    const organizationRole = await getUserOrganizationRole(userId, organizationId);
+    if (!organizationRole) {
+      return { error: 'You are not a member of the organization this post belongs to.' };
+    }
+
+    if (!integration.userLinks?.[payload.user.id]) {
+      await updateDoc(doc(this.getFirestore(), 'slack_integrations', organizationId), {
+        [`userLinks.${payload.user.id}`]: userId
+      });
+    }
+
+    return { userId, name, role: ORGANIZATION_TEAM_ROLES[organizationRole], botToken: integration.botToken };
+  }
+
+  private async buildDecision(
+    contentId: string,
+    outcome: 'approved' | 'changes_requested',
+    decidedBy: string,
+    comments?: string
+  ): Promise<SlackMessageContent> {
+    const content = await this.getContent(contentId);
+    return buildApprovalDecisionMessage({
+      title: content?.title || 'Untitled post',
+      outcome,
+      decidedBy,
+      comments,
+      reviewUrl: contentUrl(contentId)
+    });
+  }
+
+  private async post(integration: SlackIntegration, channels: string[], message: SlackMessageContent): Promise<number> {
+    const adapter = this.getAdapter(integration.botToken);
+    let sent = 0;
+
+    for (const channel of channels) {
+      const result = await adapter.sendMessage({ channel, text: message.text, blocks: message.blocks });
+      if (result.success) {
+        sent++;
+      } else {
+        logger.warn('Slack message failed', { organizationId: integration.organizationId, channel, error: result.error });
+      }
+    }
+
+    return sent;
+  }
+
+  private async getContent(contentId: string): Promise<ContentItem | null> {
+    const contentSnap = await getDoc(doc(this.getFirestore(), 'content', contentId));
+    return contentSnap.exists() ? contentSnap.data() as ContentItem : null;
+  }
+
+  private getAdapter(botToken: string): SlackAdapter {
+    return new SlackAdapter({ botToken, signingSecret: process.env.SLACK_SIGNING_SECRET || '' });
+  }
+}
+
+function parseRef(value: string | undefined): SlackApprovalRef | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const ref = JSON.parse(value);
+    return typeof ref?.contentId === 'string' && typeof ref?.organizationId === 'string' ? ref : null;
+  } catch {
+    return null;
+  }
+}
+
+function toSummary(integration: SlackIntegration): SlackIntegrationSummary {
+  const { botToken, userLinks, ...summary } = integration;
+  return summary;
+}
+
+function toDate(value: any): Date {
+  return value instanceof Date ? value : typeof value?.toDate === 'function' ? value.toDate() : new Date(value);
+}
+
+function appUrl(path: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || ''}${path}`;
+}
+
+function contentUrl(contentId: string): string {
+  return appUrl(`/dashboard/content/editor?id=${encodeURIComponent(contentId)}`);
+}
+
+const slackIntegrationService = new SlackIntegrationService();
+
+export default slackIntegrationService;
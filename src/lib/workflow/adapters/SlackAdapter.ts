@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+
 /**
  * Slack adapter for workflow automation
  */
@@ -15,6 +17,9 @@ export interface SlackConfig {
   appToken?: string;
 }
 
+// Slack rejects requests signed more than five minutes ago to stop replays
+const SIGNATURE_MAX_AGE_SECONDS = 5 * 60;
+
 export class SlackAdapter {
   private config: SlackConfig;
   private baseUrl = 'https://slack.com/api';
@@ -23,6 +28,39 @@ export class SlackAdapter {
     this.config = config;
   }
 
+  /**
+   * Verify the signature Slack sends with interaction and event requests
+   * @param rawBody Request body exactly as received
+   * @param timestamp X-Slack-Request-Timestamp header
+   * @param signature X-Slack-Signature header
+   */
+  verifyRequestSignature(
+    rawBody: string,
+    timestamp: string | null,
+    signature: string | null,
+    now: number = Date.now()
+  ): boolean {
+    if (!this.config.signingSecret || !timestamp || !signature) {
+      return false;
+    }
+
+    const requestTime = Number(timestamp);
+    if (!Number.isFinite(requestTime) || Math.abs(now / 1000 - requestTime) > SIGNATURE_MAX_AGE_SECONDS) {
+      return false;
+    }
+
+    const expected = 'v0=' + crypto
+      .createHmac('sha256', this.config.signingSecret)
+      .update(`v0:${timestamp}:${rawBody}`)
+      .digest('hex');
+
+    const expectedBuffer = Buffer.from(expected);
+    const signatureBuffer = Buffer.from(signature);
+
+    return expectedBuffer.length === signatureBuffer.length &&
+      crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+  }
+
   /**
    * Send a message to a Slack channel
    */
@@ -55,7 +93,12 @@ export class SlackAdapter {
   /**
    * Update a message in Slack
    */
-  async updateMessage(channel: string, ts: string, text: string): Promise<{ success: boolean; error?: string }> {
+  async updateMessage(
+    channel: string,
+    ts: string,
+    text: string,
+    blocks?: any[]
+  ): Promise<{ success: boolean; error?: string }> {
     try {
       const response = await fetch(`${this.baseUrl}/chat.update`, {
         method: 'POST',
@@ -67,6 +110,65 @@ export class SlackAdapter {
           channel,
           ts,
           text,
+          ...(blocks ? { blocks } : {}),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.ok) {
+        return { success: true };
+      } else {
+        return { success: false, error: data.error };
+      }
+    } catch (error) {
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      };
+    }
+  }
+
+  /**
+   * Reply through an interaction's response_url, which works for 30 minutes
+   * without a bot token
+   */
+  async respond(
+    responseUrl: string,
+    message: { text: string; blocks?: any[]; replace_original?: boolean; response_type?: 'ephemeral' | 'in_channel' }
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await fetch(responseUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(message),
+      });
+
+      return response.ok ? { success: true } : { success: false, error: response.statusText };
+    } catch (error) {
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      };
+    }
+  }
+
+  /**
+   * Open a modal in response to an interaction
+   */
+  async openView(triggerId: string, view: any): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/views.open`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config.botToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          trigger_id: triggerId,
+          view,
         }),
       });
 
@@ -85,6 +187,59 @@ export class SlackAdapter {
     }
   }
 
+  /**
+   * Get a Slack user's profile; the email needs the users:read.email scope
+   */
+  async getUserInfo(userId: string): Promise<{ success: boolean; user?: any; error?: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/users.info?user=${encodeURIComponent(userId)}`, {
+        headers: {
+          'Authorization': `Bearer ${this.config.botToken}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (data.ok) {
+        return { success: true, user: data.user };
+      } else {
+        return { success: false, error: data.error };
+      }
+    } catch (error) {
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      };
+    }
+  }
+
+  /**
+   * Identify the workspace and bot the token belongs to
+   */
+  async authTest(): Promise<{ success: boolean; teamId?: string; teamName?: string; botUserId?: string; error?: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/auth.test`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config.botToken}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (data.ok) {
+        return { success: true, teamId: data.team_id, teamName: data.team, botUserId: data.user_id };
+      } else {
+        return { success: false, error: data.error };
+      }
+    } catch (error) {
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      };
+    }
+  }
+
   /**
    * Get channel information
    */
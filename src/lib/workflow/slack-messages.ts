@@ -0,0 +1,299 @@
+import type { PlatformType } from '../features/platforms/PlatformProvider';
+import type { InboxMessage, MessagePriority } from '../features/content/SocialInboxService';
+
+/**
+ * Slack messages for workflow approvals and alerts
+ *
+ * Pure Block Kit builders and per-channel routing used by
+ * SlackIntegrationService. Button values and modal metadata carry the
+ * content and organization ids back to the interaction endpoint.
+ */
+
+export const APPROVE_ACTION_ID = 'workflow_approve';
+export const REQUEST_CHANGES_ACTION_ID = 'workflow_request_changes';
+export const REQUEST_CHANGES_CALLBACK_ID = 'workflow_request_changes_modal';
+export const REQUEST_CHANGES_BLOCK_ID = 'comments';
+export const REQUEST_CHANGES_INPUT_ID = 'comments_input';
+
+// Crisis alerts repeat at most this often while nothing changes
+const CRISIS_REALERT_MS = 6 * 60 * 60 * 1000;
+// Section text is capped at 3000 characters by Slack
+const MAX_SECTION_LENGTH = 2900;
+
+const PRIORITY_ORDER = ['low', 'medium', 'high', 'urgent'];
+const RISK_ORDER: CrisisRiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+const RISK_EMOJI: Record<CrisisRiskLevel, string> = {
+  low: ':large_green_circle:',
+  medium: ':large_yellow_circle:',
+  high: ':large_orange_circle:',
+  critical: ':red_circle:'
+};
+
+/**
+ * Things that can be sent to Slack
+ */
+export type SlackAlertEvent = 'approval_request' | 'inbox_message' | 'crisis_alert';
+
+export type CrisisRiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * Sends one kind of event to a channel, optionally filtered
+ */
+export interface SlackRoutingRule {
+  id: string;
+  channelId: string;
+  channelName?: string;
+  event: SlackAlertEvent;
+  // Inbox messages: only from these platforms; all when empty
+  platforms?: PlatformType[];
+  // Inbox messages: lowest priority to send; defaults to urgent
+  minPriority?: MessagePriority;
+  // Crisis alerts: lowest risk level to send; defaults to high
+  minRiskLevel?: CrisisRiskLevel;
+}
+
+/**
+ * An event to route, with the facts rules filter on
+ */
+export type SlackRoutedEvent =
+  | { event: 'approval_request' }
+  | { event: 'inbox_message'; platform: PlatformType; priority: MessagePriority }
+  | { event: 'crisis_alert'; riskLevel: CrisisRiskLevel };
+
+/**
+ * Result of SocialListeningService.checkCrisisIndicators
+ */
+export interface CrisisCheck {
+  riskLevel: CrisisRiskLevel;
+  indicators: Array<{ type: string; description: string; severity: number; mentionIds: string[] }>;
+}
+
+/**
+ * The last crisis alert sent for an organization
+ */
+export interface CrisisAlertState {
+  riskLevel: CrisisRiskLevel;
+  key: string;
+  sentAt: number;
+}
+
+/**
+ * Content and organization an approval message is about
+ */
+export interface SlackApprovalRef {
+  contentId: string;
+  organizationId: string;
+  // Where the approval message was posted, for updating it after a modal
+  channelId?: string;
+  messageTs?: string;
+}
+
+export interface SlackMessageContent {
+  text: string;
+  blocks: any[];
+}
+
+/**
+ * Channels whose rules match an event, without duplicates
+ */
+export function getRoutedChannels(rules: SlackRoutingRule[], routed: SlackRoutedEvent): string[] {
+  const channels: string[] = [];
+
+  for (const rule of rules) {
+    if (rule.event !== routed.event || channels.indexOf(rule.channelId) !== -1) {
+      continue;
+    }
+
+    if (routed.event === 'inbox_message') {
+      if (rule.platforms && rule.platforms.length > 0 && rule.platforms.indexOf(routed.platform) === -1) {
+        continue;
+      }
+      if (PRIORITY_ORDER.indexOf(routed.priority) < PRIORITY_ORDER.indexOf(rule.minPriority || 'urgent')) {
+        continue;
+      }
+    }
+
+    if (routed.event === 'crisis_alert' &&
+      RISK_ORDER.indexOf(routed.riskLevel) < RISK_ORDER.indexOf(rule.minRiskLevel || 'high')) {
+      continue;
+    }
+
+    channels.push(rule.channelId);
+  }
+
+  return channels;
+}
+
+/**
+ * Identifies a crisis by the kinds of indicator raised
+ */
+export function getCrisisAlertKey(crisis: CrisisCheck): string {
+  return crisis.indicators.map(indicator => indicator.type).sort().join(',');
+}
+
+/**
+ * Whether a crisis check warrants a new alert: the risk rose, different
+ * indicators fired, or the same crisis has gone unmentioned for a while
+ */
+export function shouldSendCrisisAlert(last: CrisisAlertState | undefined, crisis: CrisisCheck, now: number): boolean {
+  if (crisis.riskLevel === 'low' || crisis.indicators.length === 0) {
+    return false;
+  }
+
+  if (!last) {
+    return true;
+  }
+
+  return RISK_ORDER.indexOf(crisis.riskLevel) > RISK_ORDER.indexOf(last.riskLevel) ||
+    getCrisisAlertKey(crisis) !== last.key ||
+    now - last.sentAt >= CRISIS_REALERT_MS;
+}
+
+/**
+ * Approval request with Approve / Request changes buttons
+ */
+export function buildApprovalRequestMessage(request: {
+  ref: SlackApprovalRef;
+  title: string;
+  text: string;
+  platforms: string[];
+  submittedBy: string;
+  publishAt?: Date;
+  reviewUrl: string;
+}): SlackMessageContent {
+  const value = JSON.stringify({ contentId: request.ref.contentId, organizationId: request.ref.organizationId });
+  const details = [`*Submitted by:* ${escapeText(request.submittedBy)}`];
+  if (request.platforms.length > 0) {
+    details.push(`*Platforms:* ${request.platforms.map(escapeText).join(', ')}`);
+  }
+  if (request.publishAt) {
+    details.push(`*Scheduled:* ${formatDate(request.publishAt)}`);
+  }
+
+  return {
+    text: `Approval needed: ${request.title}`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: truncate(`Approval needed: ${request.title}`, 150) } },
+      { type: 'section', text: { type: 'mrkdwn', text: quote(request.text) } },
+      { type: 'context', elements: details.map(detail => ({ type: 'mrkdwn', text: detail })) },
+      {
+        type: 'actions',
+        block_id: 'workflow_actions',
+        elements: [
+          { type: 'button', action_id: APPROVE_ACTION_ID, style: 'primary', text: { type: 'plain_text', text: 'Approve' }, value },
+          { type: 'button', action_id: REQUEST_CHANGES_ACTION_ID, text: { type: 'plain_text', text: 'Request changes' }, value },
+          { type: 'button', action_id: 'workflow_open', text: { type: 'plain_text', text: 'Open in IriSync' }, url: request.reviewUrl }
+        ]
+      }
+    ]
+  };
+}
+
+/**
+ * Replacement for an approval request once someone has decided it
+ */
+export function buildApprovalDecisionMessage(decision: {
+  title: string;
+  outcome: 'approved' | 'changes_requested';
+  decidedBy: string;
+  comments?: string;
+  reviewUrl: string;
+}): SlackMessageContent {
+  const verb = decision.outcome === 'approved' ? ':white_check_mark: Approved' : ':pencil2: Changes requested';
+  const summary = `${verb} by ${escapeText(decision.decidedBy)}`;
+  const blocks: any[] = [
+    { type: 'section', text: { type: 'mrkdwn', text: `*${escapeText(decision.title)}*\n${summary}` } }
+  ];
+
+  if (decision.comments) {
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: quote(decision.comments) } });
+  }
+  blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `<${decision.reviewUrl}|Open in IriSync>` }] });
+
+  return { text: `${decision.title}: ${summary}`, blocks };
+}
+
+/**
+ * Modal asking what should change
+ */
+export function buildRequestChangesModal(ref: SlackApprovalRef): any {
+  return {
+    type: 'modal',
+    callback_id: REQUEST_CHANGES_CALLBACK_ID,
+    private_metadata: JSON.stringify(ref),
+    title: { type: 'plain_text', text: 'Request changes' },
+    submit: { type: 'plain_text', text: 'Send' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    blocks: [
+      {
+        type: 'input',
+        block_id: REQUEST_CHANGES_BLOCK_ID,
+        label: { type: 'plain_text', text: 'What needs to change?' },
+        element: { type: 'plain_text_input', action_id: REQUEST_CHANGES_INPUT_ID, multiline: true, max_length: 3000 }
+      }
+    ]
+  };
+}
+
+/**
+ * Alert for an inbox message that needs attention
+ */
+export function buildInboxAlertMessage(
+  message: Pick<InboxMessage, 'platformType' | 'type' | 'priority' | 'sender' | 'content'>,
+  inboxUrl: string
+): SlackMessageContent {
+  const sender = message.sender.username ? `${message.sender.name} (@${message.sender.username})` : message.sender.name;
+  const heading = `${message.priority === 'urgent' ? ':rotating_light: Urgent' : 'New'} ${message.type.replace('_', ' ')} on ${message.platformType}`;
+
+  return {
+    text: `${heading} from ${sender}`,
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: `*${escapeText(heading)}* from ${escapeText(sender)}` } },
+      { type: 'section', text: { type: 'mrkdwn', text: quote(message.content) } },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: `<${inboxUrl}|Open inbox>` }] }
+    ]
+  };
+}
+
+/**
+ * Alert for crisis indicators in social listening
+ */
+export function buildCrisisAlertMessage(crisis: CrisisCheck, listeningUrl: string): SlackMessageContent {
+  const heading = `${RISK_EMOJI[crisis.riskLevel]} ${crisis.riskLevel.toUpperCase()} crisis risk detected`;
+  const indicators = crisis.indicators
+    .slice()
+    .sort((a, b) => b.severity - a.severity)
+    .map(indicator => `• ${escapeText(indicator.description)} (severity ${indicator.severity})`);
+
+  return {
+    text: `${crisis.riskLevel} crisis risk detected: ${crisis.indicators.map(indicator => indicator.description).join('; ')}`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: heading.replace(/:[a-z_]+: /, '') } },
+      { type: 'section', text: { type: 'mrkdwn', text: truncate(`${heading}\n${indicators.join('\n')}`, MAX_SECTION_LENGTH) } },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: `<${listeningUrl}|Review mentions>` }] }
+    ]
+  };
+}
+
+/**
+ * Escape text for mrkdwn; Slack only needs &, < and > escaped
+ */
+export function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function quote(text: string): string {
+  const escaped = truncate(escapeText(text.trim() || '(no text)'), MAX_SECTION_LENGTH);
+  return escaped.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// Slack renders <!date^...> in each reader's own timezone
+function formatDate(date: Date): string {
+  const seconds = Math.floor(date.getTime() / 1000);
+  return `<!date^${seconds}^{date_short_pretty} at {time}|${date.toISOString()}>`;
+}
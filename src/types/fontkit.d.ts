@@ -0,0 +1,43 @@
+// Minimal typings for fontkit, covering the parts used to lay out design text
+
+declare module 'fontkit' {
+  export interface Path {
+    toSVG(): string;
+  }
+
+  export interface Glyph {
+    id: number;
+    codePoints: number[];
+    advanceWidth: number;
+    path: Path;
+  }
+
+  export interface GlyphPosition {
+    xAdvance: number;
+    yAdvance: number;
+    xOffset: number;
+    yOffset: number;
+  }
+
+  export interface GlyphRun {
+    glyphs: Glyph[];
+    positions: GlyphPosition[];
+    advanceWidth: number;
+  }
+
+  export interface Font {
+    familyName: string;
+    unitsPerEm: number;
+    ascent: number;
+    descent: number;
+    underlinePosition: number;
+    underlineThickness: number;
+    layout(text: string): GlyphRun;
+  }
+
+  export interface FontCollection {
+    fonts: Font[];
+  }
+
+  export function create(buffer: Buffer, postscriptName?: string): Font | FontCollection;
+}
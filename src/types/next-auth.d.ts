@@ -15,6 +15,8 @@ declare module "next-auth" {
       isAdmin?: boolean;
       organizationId?: string;
     };
+    // Set instead of user while an OAuth sign-in waits for its second factor
+    twoFactorPending?: boolean;
   }
 
   interface User {
@@ -37,5 +39,7 @@ declare module "next-auth/jwt" {
     organizationId?: string;
     provider?: string;
     customToken?: string;
+    // Firebase user of an OAuth sign-in that still has to pass its second factor
+    twoFactorPendingUserId?: string;
   }
 } 
\ No newline at end of file